@@ -0,0 +1,87 @@
+/**
+ * Migration Script: Verify Existing Users
+ *
+ * Purpose: Marks users created before email verification existed as verified, so
+ * REQUIRE_EMAIL_VERIFICATION=true does not lock them out. These users never received
+ * a verification link - they are the unverified users without any EMAIL_VERIFICATION token.
+ *
+ * Tables affected:
+ * - users: emailVerified, emailVerifiedAt
+ *
+ * Usage:
+ *   npx tsx scripts/verify-existing-users.ts           # Dry run (preview)
+ *   npx tsx scripts/verify-existing-users.ts --execute # Actually mark them verified
+ */
+
+import { PrismaClient, Prisma } from '@prisma/client';
+import { Pool } from 'pg';
+import { PrismaPg } from '@prisma/adapter-pg';
+import * as dotenv from 'dotenv';
+
+// Load environment variables
+dotenv.config();
+
+if (!process.env.DATABASE_URL) {
+  console.error('DATABASE_URL is not defined!');
+  process.exit(1);
+}
+
+const pool = new Pool({ connectionString: process.env.DATABASE_URL });
+const adapter = new PrismaPg(pool);
+const prisma = new PrismaClient({ adapter });
+
+// Unverified users that were never sent a verification link
+const PRE_VERIFICATION_USERS: Prisma.UserWhereInput = {
+  emailVerified: false,
+  emailVerifiedAt: null,
+  authTokens: { none: { type: 'EMAIL_VERIFICATION' } },
+};
+
+/**
+ * Main execution function
+ */
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  const dryRun = !args.includes('--execute');
+
+  console.log('='.repeat(80));
+  console.log('Verify Existing Users Migration');
+  console.log('='.repeat(80));
+  console.log(`Mode: ${dryRun ? 'DRY RUN (no changes will be made)' : 'EXECUTE'}`);
+  console.log('='.repeat(80));
+
+  try {
+    const users = await prisma.user.findMany({
+      where: PRE_VERIFICATION_USERS,
+      select: { id: true, email: true, createdAt: true },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    for (const user of users) {
+      console.log(`  [${dryRun ? 'DRY RUN' : 'VERIFY'}] User ${user.id} (${user.email}), created ${user.createdAt.toISOString()}`);
+    }
+
+    if (dryRun) {
+      console.log(`\n[DRY RUN] Would mark ${users.length} user(s) as verified. Run with --execute to apply changes.`);
+      return;
+    }
+
+    // Same condition again, so a user who requested a link in the meantime keeps their pending verification
+    const { count } = await prisma.user.updateMany({
+      where: { ...PRE_VERIFICATION_USERS, id: { in: users.map(user => user.id) } },
+      data: { emailVerified: true, emailVerifiedAt: new Date() },
+    });
+
+    console.log(`\nMarked ${count} user(s) as verified.`);
+  } catch (error) {
+    console.error('Migration failed:', error);
+    throw error;
+  } finally {
+    await prisma.$disconnect();
+    await pool.end();
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch(() => process.exit(1));
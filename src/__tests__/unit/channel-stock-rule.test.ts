@@ -0,0 +1,84 @@
+/**
+ * Channel Stock Rule Tests
+ *
+ * The quantity published to a channel for a stock level: a fixed quantity, or the stock
+ * less the safety buffer, then the percentage (rounded down), then the maximum.
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { applyChannelStockRule, channelStockService } from '../../services/channel-stock.service.js';
+
+type StockRule = NonNullable<Parameters<typeof applyChannelStockRule>[1]>;
+
+const rule = (fields: Partial<StockRule>): StockRule => ({
+    percentage: null,
+    safetyBuffer: null,
+    maxQuantity: null,
+    fixedQuantity: null,
+    ...fields,
+});
+
+describe('applyChannelStockRule', () => {
+    it('should publish the stock without a rule', () => {
+        assert.equal(applyChannelStockRule(17, null), 17);
+        assert.equal(applyChannelStockRule(17, undefined), 17);
+    });
+
+    it('should never publish negative stock', () => {
+        assert.equal(applyChannelStockRule(-4, null), 0);
+        assert.equal(applyChannelStockRule(-4, rule({ percentage: 50 })), 0);
+    });
+
+    it('should publish an empty rule as the stock', () => {
+        assert.equal(applyChannelStockRule(17, rule({})), 17);
+    });
+
+    it('should publish a fixed quantity whatever the stock and other fields', () => {
+        const fixed = rule({ fixedQuantity: 5, percentage: 10, safetyBuffer: 100, maxQuantity: 1 });
+        assert.equal(applyChannelStockRule(0, fixed), 5);
+        assert.equal(applyChannelStockRule(1000, fixed), 5);
+    });
+
+    it('should publish a fixed quantity of zero', () => {
+        assert.equal(applyChannelStockRule(50, rule({ fixedQuantity: 0 })), 0);
+    });
+
+    it('should hold back the safety buffer', () => {
+        assert.equal(applyChannelStockRule(20, rule({ safetyBuffer: 3 })), 17);
+        assert.equal(applyChannelStockRule(2, rule({ safetyBuffer: 3 })), 0);
+    });
+
+    it('should round the percentage down', () => {
+        assert.equal(applyChannelStockRule(9, rule({ percentage: 50 })), 4);
+        assert.equal(applyChannelStockRule(1, rule({ percentage: 99 })), 0);
+    });
+
+    it('should apply the percentage to the stock less the safety buffer', () => {
+        assert.equal(applyChannelStockRule(25, rule({ safetyBuffer: 5, percentage: 50 })), 10);
+    });
+
+    it('should cap the quantity at the maximum after the percentage', () => {
+        assert.equal(applyChannelStockRule(100, rule({ percentage: 50, maxQuantity: 30 })), 30);
+        assert.equal(applyChannelStockRule(40, rule({ percentage: 50, maxQuantity: 30 })), 20);
+    });
+
+    it('should apply all fields in order', () => {
+        assert.equal(applyChannelStockRule(110, rule({ safetyBuffer: 10, percentage: 75, maxQuantity: 80 })), 75);
+    });
+});
+
+describe('channelStockService.validateRule', () => {
+    it('should accept a rule of non-negative whole numbers', () => {
+        assert.equal(channelStockService.validateRule({ percentage: 100, safetyBuffer: 0, maxQuantity: 20 }), null);
+    });
+
+    it('should reject negative and fractional values', () => {
+        assert.match(channelStockService.validateRule({ safetyBuffer: -1 }) ?? '', /safetyBuffer/);
+        assert.match(channelStockService.validateRule({ maxQuantity: 2.5 }) ?? '', /maxQuantity/);
+    });
+
+    it('should reject a percentage above 100', () => {
+        assert.match(channelStockService.validateRule({ percentage: 101 }) ?? '', /percentage/);
+    });
+});
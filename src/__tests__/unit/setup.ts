@@ -0,0 +1,8 @@
+/**
+ * Unit Test Setup
+ *
+ * Services create their Prisma client on import. It only connects on a first query,
+ * which unit tests never make, so any connection string will do.
+ */
+
+process.env.DATABASE_URL ??= 'postgresql://localhost:5432/unit-tests';
@@ -0,0 +1,75 @@
+/**
+ * Stocktake Variance Tests
+ *
+ * The variances of a counted line against the No-Limits and FFN figures, and what
+ * approving them books as adjustment and as FFN pending correction.
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { approvedAdjustment, withVariance } from '../../utils/stocktake-variance.js';
+
+describe('withVariance', () => {
+    it('should compute both variances of a counted line', () => {
+        const line = withVariance({ expectedQuantity: 10, ffnQuantity: 12, countedQuantity: 8 });
+        assert.equal(line.variance, -2);
+        assert.equal(line.ffnVariance, -4);
+    });
+
+    it('should keep the line fields', () => {
+        const line = withVariance({ id: 'line-1', expectedQuantity: 5, ffnQuantity: null, countedQuantity: 7 });
+        assert.equal(line.id, 'line-1');
+        assert.equal(line.countedQuantity, 7);
+    });
+
+    it('should have no variances while the line is not counted', () => {
+        const line = withVariance({ expectedQuantity: 10, ffnQuantity: 12, countedQuantity: null });
+        assert.equal(line.variance, null);
+        assert.equal(line.ffnVariance, null);
+    });
+
+    it('should have no FFN variance without an FFN figure', () => {
+        const line = withVariance({ expectedQuantity: 10, ffnQuantity: null, countedQuantity: 13 });
+        assert.equal(line.variance, 3);
+        assert.equal(line.ffnVariance, null);
+    });
+
+    it('should report a count matching the figures as zero variance', () => {
+        const line = withVariance({ expectedQuantity: 0, ffnQuantity: 0, countedQuantity: 0 });
+        assert.equal(line.variance, 0);
+        assert.equal(line.ffnVariance, 0);
+    });
+});
+
+describe('approvedAdjustment', () => {
+    it('should book a positive variance in full', () => {
+        assert.deepEqual(approvedAdjustment(4, null, 10, false), { adjustedQuantity: 4, ffnPendingQuantity: null });
+    });
+
+    it('should book a negative variance covered by available stock in full', () => {
+        assert.equal(approvedAdjustment(-6, null, 10, false).adjustedQuantity, -6);
+    });
+
+    it('should not take available stock below zero', () => {
+        assert.equal(approvedAdjustment(-8, null, 3, false).adjustedQuantity, -3);
+        assert.equal(approvedAdjustment(-8, null, 1, false).adjustedQuantity, -1);
+    });
+
+    it('should keep the FFN variance pending for products in FFN', () => {
+        assert.equal(approvedAdjustment(-2, -5, 10, true).ffnPendingQuantity, -5);
+        assert.equal(approvedAdjustment(1, 3, 10, true).ffnPendingQuantity, 3);
+    });
+
+    it('should keep nothing pending for products outside FFN', () => {
+        assert.equal(approvedAdjustment(-2, -5, 10, false).ffnPendingQuantity, null);
+    });
+
+    it('should keep nothing pending without an FFN variance', () => {
+        assert.equal(approvedAdjustment(-2, 0, 10, true).ffnPendingQuantity, null);
+        assert.equal(approvedAdjustment(-2, null, 10, true).ffnPendingQuantity, null);
+    });
+
+    it('should not clamp the FFN pending correction by available stock', () => {
+        assert.deepEqual(approvedAdjustment(-8, -8, 3, true), { adjustedQuantity: -3, ffnPendingQuantity: -8 });
+    });
+});
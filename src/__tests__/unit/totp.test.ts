@@ -0,0 +1,77 @@
+/**
+ * TOTP Tests
+ *
+ * Code generation against the RFC 6238 test vectors (SHA-1 secret "12345678901234567890",
+ * last six digits), and the drift window and replay protection of code matching.
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { decodeBase32, encodeBase32, generateTotp, matchTotp } from '../../utils/totp.js';
+
+const SECRET = encodeBase32(Buffer.from('12345678901234567890'));
+
+// Time step of a moment, in seconds since the epoch
+const stepAt = (seconds: number) => Math.floor(seconds / 30);
+
+describe('base32', () => {
+    it('should encode the RFC test secret', () => {
+        assert.equal(SECRET, 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+    });
+
+    it('should decode what it encodes, ignoring case and padding', () => {
+        assert.equal(decodeBase32(SECRET.toLowerCase() + '===').toString(), '12345678901234567890');
+    });
+
+    it('should reject characters outside the alphabet', () => {
+        assert.throws(() => decodeBase32('GEZD1'), /Invalid base32 secret/);
+    });
+});
+
+describe('generateTotp', () => {
+    const key = decodeBase32(SECRET);
+
+    for (const [seconds, code] of [
+        [59, '287082'],
+        [1111111109, '081804'],
+        [1111111111, '050471'],
+        [1234567890, '005924'],
+        [2000000000, '279037'],
+    ] as const) {
+        it(`should generate ${code} at ${seconds}s`, () => {
+            assert.equal(generateTotp(key, stepAt(seconds)), code);
+        });
+    }
+});
+
+describe('matchTotp', () => {
+    const now = 1234567890 * 1000;
+    const step = stepAt(1234567890);
+
+    it('should return the step of the current code', () => {
+        assert.equal(matchTotp(SECRET, '005924', null, now), step);
+    });
+
+    it('should accept the codes of the previous and next step', () => {
+        const key = decodeBase32(SECRET);
+        assert.equal(matchTotp(SECRET, generateTotp(key, step - 1), null, now), step - 1);
+        assert.equal(matchTotp(SECRET, generateTotp(key, step + 1), null, now), step + 1);
+    });
+
+    it('should reject codes outside the drift window', () => {
+        const key = decodeBase32(SECRET);
+        assert.equal(matchTotp(SECRET, generateTotp(key, step - 2), null, now), null);
+        assert.equal(matchTotp(SECRET, generateTotp(key, step + 2), null, now), null);
+    });
+
+    it('should reject a code of a step already used', () => {
+        assert.equal(matchTotp(SECRET, '005924', step, now), null);
+        assert.equal(matchTotp(SECRET, '005924', step - 1, now), step);
+    });
+
+    it('should ignore spaces and reject malformed codes', () => {
+        assert.equal(matchTotp(SECRET, '005 924', null, now), step);
+        assert.equal(matchTotp(SECRET, '5924', null, now), null);
+        assert.equal(matchTotp(SECRET, '00592a', null, now), null);
+    });
+});
@@ -0,0 +1,78 @@
+/**
+ * Webhook Signature Tests
+ *
+ * The HMAC check of received webhooks: the base64 SHA-256 of the raw body in the
+ * platform's signature header, keyed with the channel's webhook secret.
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import { webhookInboxService } from '../../services/webhook-inbox.service.js';
+
+const SECRET = 'whsec_test';
+const BODY = '{"id":1001,"line_items":[{"sku":"A-1","quantity":2}]}';
+
+const sign = (body: string, secret = SECRET) =>
+    crypto.createHmac('sha256', secret).update(body, 'utf8').digest('base64');
+
+describe('webhookInboxService.checkSignature', () => {
+    it('should not check webhooks of channels without a secret', () => {
+        const status = webhookInboxService.checkSignature('SHOPIFY', BODY, { 'x-shopify-hmac-sha256': 'anything' }, undefined);
+        assert.equal(status, 'NOT_CHECKED');
+    });
+
+    it('should accept a correct Shopify signature', () => {
+        const status = webhookInboxService.checkSignature('SHOPIFY', BODY, { 'x-shopify-hmac-sha256': sign(BODY) }, SECRET);
+        assert.equal(status, 'VALID');
+    });
+
+    it('should accept a correct WooCommerce signature', () => {
+        const status = webhookInboxService.checkSignature('WOOCOMMERCE', BODY, { 'x-wc-webhook-signature': sign(BODY) }, SECRET);
+        assert.equal(status, 'VALID');
+    });
+
+    it('should use the first value of a repeated header', () => {
+        const status = webhookInboxService.checkSignature(
+            'SHOPIFY',
+            BODY,
+            { 'x-shopify-hmac-sha256': [sign(BODY), 'forged'] },
+            SECRET
+        );
+        assert.equal(status, 'VALID');
+    });
+
+    it('should reject a webhook without a signature header', () => {
+        assert.equal(webhookInboxService.checkSignature('SHOPIFY', BODY, {}, SECRET), 'INVALID');
+    });
+
+    it('should reject the signature header of the other platform', () => {
+        const status = webhookInboxService.checkSignature('WOOCOMMERCE', BODY, { 'x-shopify-hmac-sha256': sign(BODY) }, SECRET);
+        assert.equal(status, 'INVALID');
+    });
+
+    it('should reject a signature made with another secret', () => {
+        const status = webhookInboxService.checkSignature('SHOPIFY', BODY, { 'x-shopify-hmac-sha256': sign(BODY, 'other') }, SECRET);
+        assert.equal(status, 'INVALID');
+    });
+
+    it('should reject a signature of a changed body', () => {
+        const status = webhookInboxService.checkSignature(
+            'SHOPIFY',
+            BODY.replace('"quantity":2', '"quantity":20'),
+            { 'x-shopify-hmac-sha256': sign(BODY) },
+            SECRET
+        );
+        assert.equal(status, 'INVALID');
+    });
+
+    it('should reject a signature of a different length', () => {
+        const status = webhookInboxService.checkSignature('SHOPIFY', BODY, { 'x-shopify-hmac-sha256': sign(BODY).slice(0, -2) }, SECRET);
+        assert.equal(status, 'INVALID');
+    });
+
+    it('should reject webhooks of channels without a signature header', () => {
+        const status = webhookInboxService.checkSignature('AMAZON', BODY, { 'x-shopify-hmac-sha256': sign(BODY) }, SECRET);
+        assert.equal(status, 'INVALID');
+    });
+});
@@ -2,6 +2,13 @@ import dotenv from 'dotenv';
 
 dotenv.config();
 
+// Express `trust proxy`: a hop count, true/false, or a list of proxy addresses/subnets
+const parseTrustProxy = (value: string | undefined): boolean | number | string => {
+  if (!value || value === 'false') return false;
+  if (value === 'true') return true;
+  return /^\d+$/.test(value) ? Number(value) : value;
+};
+
 export const env = {
   port: process.env.PORT || 3001,
   nodeEnv: process.env.NODE_ENV || 'development',
@@ -14,4 +21,11 @@ export const env = {
   jwtExpiresIn: process.env.JWT_EXPIRES_IN || '7d',
   jwtRefreshSecret: process.env.JWT_REFRESH_SECRET || 'your-refresh-secret-change-in-production',
   jwtRefreshExpiresIn: process.env.JWT_REFRESH_EXPIRES_IN || '30d',
+  mailTransport: process.env.MAIL_TRANSPORT || 'console',
+  mailFrom: process.env.MAIL_FROM || 'No Limits <no-reply@localhost>',
+  mailOutputDir: process.env.MAIL_OUTPUT_DIR || './tmp/mail',
+  requireEmailVerification: process.env.REQUIRE_EMAIL_VERIFICATION === 'true',
+  rateLimitStore: process.env.RATE_LIMIT_STORE || 'memory',
+  rateLimitEnabled: process.env.RATE_LIMIT_ENABLED !== 'false',
+  trustProxy: parseTrustProxy(process.env.TRUST_PROXY),
 };
@@ -0,0 +1,104 @@
+import { Request, Response } from 'express';
+import { prisma } from '../config/database.js';
+import { apiKeyService, API_KEY_SCOPES, ApiKeyScope } from '../services/api-key.service.js';
+
+// Client whose keys are managed: the caller's own client, or clientId for admins
+const getKeyClientId = (req: Request): string | undefined => {
+  if (req.user?.role === 'CLIENT') return req.user.clientId;
+  return (req.query.clientId as string) || req.body?.clientId;
+};
+
+// Get available scopes
+export const getApiKeyScopes = async (_req: Request, res: Response): Promise<void> => {
+  res.json({ success: true, data: API_KEY_SCOPES });
+};
+
+// Get API keys (admins see all keys unless ?clientId= is given)
+export const getApiKeys = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const keys = await apiKeyService.list(getKeyClientId(req));
+
+    res.json({ success: true, data: keys });
+  } catch (error) {
+    console.error('Error fetching API keys:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch API keys' });
+  }
+};
+
+// Create an API key. The full key is only returned in this response.
+export const createApiKey = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const clientId = getKeyClientId(req);
+    const { name, scopes, expiresAt } = req.body;
+
+    if (!clientId) {
+      res.status(400).json({ success: false, error: 'clientId is required' });
+      return;
+    }
+
+    if (!name) {
+      res.status(400).json({ success: false, error: 'Name is required' });
+      return;
+    }
+
+    if (!Array.isArray(scopes) || scopes.length === 0) {
+      res.status(400).json({ success: false, error: 'At least one scope is required' });
+      return;
+    }
+
+    const invalidScopes = scopes.filter((scope: string) => !API_KEY_SCOPES.includes(scope as ApiKeyScope));
+    if (invalidScopes.length > 0) {
+      res.status(400).json({ success: false, error: `Invalid scopes: ${invalidScopes.join(', ')}` });
+      return;
+    }
+
+    const expiry = expiresAt ? new Date(expiresAt) : null;
+    if (expiry && (isNaN(expiry.getTime()) || expiry <= new Date())) {
+      res.status(400).json({ success: false, error: 'expiresAt must be a future date' });
+      return;
+    }
+
+    const client = await prisma.client.findUnique({ where: { id: clientId }, select: { id: true } });
+    if (!client) {
+      res.status(404).json({ success: false, error: 'Client not found' });
+      return;
+    }
+
+    const { apiKey, key } = await apiKeyService.create({
+      clientId,
+      name,
+      scopes,
+      expiresAt: expiry,
+      createdById: req.user?.userId,
+    });
+
+    res.status(201).json({ success: true, data: { ...apiKey, key } });
+  } catch (error) {
+    console.error('Error creating API key:', error);
+    res.status(500).json({ success: false, error: 'Failed to create API key' });
+  }
+};
+
+// Revoke an API key
+export const revokeApiKey = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const apiKey = await apiKeyService.findById(req.params.id as string);
+
+    // Client owners can only revoke their own client's keys
+    if (!apiKey || (req.user?.role === 'CLIENT' && apiKey.clientId !== req.user.clientId)) {
+      res.status(404).json({ success: false, error: 'API key not found' });
+      return;
+    }
+
+    const revoked = await apiKeyService.revoke(apiKey.id);
+    if (!revoked) {
+      res.status(400).json({ success: false, error: 'API key is already revoked' });
+      return;
+    }
+
+    res.json({ success: true, message: 'API key revoked' });
+  } catch (error) {
+    console.error('Error revoking API key:', error);
+    res.status(500).json({ success: false, error: 'Failed to revoke API key' });
+  }
+};
@@ -0,0 +1,67 @@
+/**
+ * Audit Controller
+ *
+ * Handles audit trail API endpoints for:
+ * - Searching audit entries (entity, action, user, changed field, date range)
+ * - Fetching the full history of a single entity
+ */
+
+import { Request, Response } from 'express';
+import { auditService } from '../services/audit.service.js';
+
+const parseDate = (value: unknown): Date | undefined => {
+  if (!value) return undefined;
+  const date = new Date(value as string);
+  return isNaN(date.getTime()) ? undefined : date;
+};
+
+/**
+ * GET /api/audit
+ * Search audit entries
+ */
+export const getAuditLogs = async (req: Request, res: Response) => {
+  try {
+    const { entityType, entityId, action, userId, field, from, to, page, limit } = req.query;
+
+    const result = await auditService.query({
+      entityType: entityType as string | undefined,
+      entityId: entityId as string | undefined,
+      action: action as string | undefined,
+      userId: userId as string | undefined,
+      field: field as string | undefined,
+      from: parseDate(from),
+      to: parseDate(to),
+      page: page ? parseInt(page as string) : 1,
+      limit: limit ? parseInt(limit as string) : 50,
+    });
+
+    res.json({ success: true, data: result.entries, pagination: result.pagination });
+  } catch (error: any) {
+    console.error('Error fetching audit logs:', error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+};
+
+/**
+ * GET /api/audit/:entityType/:entityId
+ * Full change history of one entity
+ */
+export const getEntityAuditHistory = async (req: Request, res: Response) => {
+  try {
+    const { entityType, entityId } = req.params;
+    const { field, page, limit } = req.query;
+
+    const result = await auditService.query({
+      entityType,
+      entityId,
+      field: field as string | undefined,
+      page: page ? parseInt(page as string) : 1,
+      limit: limit ? parseInt(limit as string) : 50,
+    });
+
+    res.json({ success: true, data: result.entries, pagination: result.pagination });
+  } catch (error: any) {
+    console.error('Error fetching entity audit history:', error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+};
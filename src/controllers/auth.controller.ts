@@ -3,10 +3,40 @@ import { prisma } from '../config/database.js';
 import {
   hashPassword,
   comparePassword,
-  generateTokens,
   verifyRefreshToken,
+  generateTwoFactorChallengeToken,
+  verifyTwoFactorChallengeToken,
 } from '../utils/auth.js';
-import { UserRole } from '@prisma/client';
+import { Prisma, UserRole } from '@prisma/client';
+import { env } from '../config/env.js';
+import { getClientIp } from '../middleware/audit.js';
+import {
+  authTokenService,
+  PASSWORD_RESET_TTL_MINUTES,
+  EMAIL_VERIFICATION_TTL_HOURS,
+} from '../services/auth-token.service.js';
+import { mailService } from '../services/mail.service.js';
+import { sessionService } from '../services/session.service.js';
+import { twoFactorService } from '../services/two-factor.service.js';
+import { clientTeamService } from '../services/client-team.service.js';
+
+const sessionMetadata = (req: Request) => ({
+  ipAddress: getClientIp(req),
+  userAgent: req.headers['user-agent'] ?? null,
+});
+
+// Issue a verification token and mail it. Failures are logged; the user can request a new mail.
+const sendVerificationMail = async (
+  user: { id: string; email: string; name: string | null },
+  ipAddress: string | null
+): Promise<void> => {
+  try {
+    const token = await authTokenService.issue(user.id, 'EMAIL_VERIFICATION', ipAddress);
+    await mailService.sendEmailVerificationMail(user.email, user.name, token, EMAIL_VERIFICATION_TTL_HOURS);
+  } catch (error) {
+    console.error(`[Auth] Failed to send verification mail to ${user.email}:`, error);
+  }
+};
 
 // Register new user
 export const register = async (req: Request, res: Response): Promise<void> => {
@@ -74,11 +104,14 @@ export const register = async (req: Request, res: Response): Promise<void> => {
         name: true,
         role: true,
         isActive: true,
+        emailVerified: true,
         createdAt: true,
         client: true,
       },
     });
 
+    await sendVerificationMail(user, getClientIp(req));
+
     // If CLIENT role, automatically create a chat room for them
     if (role === 'CLIENT' && user.client) {
       await prisma.chatRoom.create({
@@ -94,13 +127,16 @@ export const register = async (req: Request, res: Response): Promise<void> => {
       console.log(`✅ Chat room automatically created for new client: ${user.email}`);
     }
 
-    // Generate tokens
-    const tokens = generateTokens({
-      userId: user.id,
-      email: user.email,
-      role: user.role,
-      clientId: user.client?.id,
-    });
+    // Start a session and generate its tokens
+    const { tokens } = await sessionService.create(
+      {
+        userId: user.id,
+        email: user.email,
+        role: user.role,
+        clientId: user.client?.id,
+      },
+      sessionMetadata(req)
+    );
 
     // Set refresh token as httpOnly cookie
     res.cookie('refreshToken', tokens.refreshToken, {
@@ -118,6 +154,7 @@ export const register = async (req: Request, res: Response): Promise<void> => {
         name: user.name,
         role: user.role,
         isActive: user.isActive,
+        emailVerified: user.emailVerified,
         client: user.client,
       },
       accessToken: tokens.accessToken,
@@ -127,6 +164,73 @@ export const register = async (req: Request, res: Response): Promise<void> => {
   }
 };
 
+type LoginUser = Prisma.UserGetPayload<{ include: { client: true } }>;
+
+// Final login step (after password and, if applicable, second factor): start a session and set cookies
+const completeLogin = async (
+  req: Request,
+  res: Response,
+  user: LoginUser,
+  extra: Record<string, unknown> = {}
+): Promise<void> => {
+  // Team members resolve to the client they belong to
+  const membership = user.role === 'CLIENT' ? await clientTeamService.resolveMembership(user.id) : null;
+  const client = membership?.client ?? user.client;
+
+  // Update last login
+  await prisma.user.update({
+    where: { id: user.id },
+    data: { lastLoginAt: new Date() },
+  });
+
+  // Start a session and generate its tokens
+  const { tokens } = await sessionService.create(
+    {
+      userId: user.id,
+      email: user.email,
+      role: user.role,
+      clientId: client?.id,
+      clientRole: membership?.role,
+    },
+    sessionMetadata(req)
+  );
+
+  // Set refresh token as httpOnly cookie
+  res.cookie('refreshToken', tokens.refreshToken, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'strict',
+    maxAge: 30 * 24 * 60 * 60 * 1000, // 30 days
+  });
+
+  // Also set access token as cookie for easier access
+  res.cookie('accessToken', tokens.accessToken, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'strict',
+    maxAge: 7 * 24 * 60 * 60 * 1000, // 7 days
+  });
+
+  res.json({
+    message: 'Login successful',
+    user: {
+      id: user.id,
+      email: user.email,
+      name: user.name,
+      role: user.role,
+      isActive: user.isActive,
+      emailVerified: user.emailVerified,
+      twoFactorEnabled: user.twoFactorEnabled,
+      employeeId: user.employeeId,
+      department: user.department,
+      client,
+      clientRole: membership?.role,
+    },
+    accessToken: tokens.accessToken,
+    ...extra,
+  });
+};
+
 // Login user
 export const login = async (req: Request, res: Response): Promise<void> => {
   try {
@@ -165,50 +269,31 @@ export const login = async (req: Request, res: Response): Promise<void> => {
       return;
     }
 
-    // Update last login
-    await prisma.user.update({
-      where: { id: user.id },
-      data: { lastLoginAt: new Date() },
-    });
-
-    // Generate tokens
-    const tokens = generateTokens({
-      userId: user.id,
-      email: user.email,
-      role: user.role,
-      clientId: user.client?.id,
-    });
+    if (env.requireEmailVerification && !user.emailVerified) {
+      res.status(403).json({ error: 'Email address has not been verified', code: 'EMAIL_NOT_VERIFIED' });
+      return;
+    }
 
-    // Set refresh token as httpOnly cookie
-    res.cookie('refreshToken', tokens.refreshToken, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      sameSite: 'strict',
-      maxAge: 30 * 24 * 60 * 60 * 1000, // 30 days
-    });
+    // Second factor: required if enabled, or enrollment required if enforced for the role
+    if (user.twoFactorEnabled) {
+      res.json({
+        message: 'Two-factor authentication required',
+        twoFactorRequired: true,
+        challengeToken: generateTwoFactorChallengeToken(user.id, 'verify', await twoFactorService.openChallenge(user.id)),
+      });
+      return;
+    }
 
-    // Also set access token as cookie for easier access
-    res.cookie('accessToken', tokens.accessToken, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      sameSite: 'strict',
-      maxAge: 7 * 24 * 60 * 60 * 1000, // 7 days
-    });
+    if (await twoFactorService.isRequiredForRole(user.role)) {
+      res.json({
+        message: 'Two-factor authentication must be set up before logging in',
+        twoFactorSetupRequired: true,
+        challengeToken: generateTwoFactorChallengeToken(user.id, 'setup'),
+      });
+      return;
+    }
 
-    res.json({
-      message: 'Login successful',
-      user: {
-        id: user.id,
-        email: user.email,
-        name: user.name,
-        role: user.role,
-        isActive: user.isActive,
-        employeeId: user.employeeId,
-        department: user.department,
-        client: user.client,
-      },
-      accessToken: tokens.accessToken,
-    });
+    await completeLogin(req, res, user);
   } catch (error) {
     console.error('Login error details:', error);
     console.error('Error stack:', error instanceof Error ? error.stack : 'No stack trace');
@@ -216,9 +301,136 @@ export const login = async (req: Request, res: Response): Promise<void> => {
   }
 };
 
+// Login step 2: verify a TOTP code or recovery code
+export const loginWithTwoFactor = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { challengeToken, code, recoveryCode } = req.body;
+
+    if (!challengeToken || (!code && !recoveryCode)) {
+      res.status(400).json({ error: 'Challenge token and code or recovery code are required' });
+      return;
+    }
+
+    let challenge;
+    try {
+      challenge = verifyTwoFactorChallengeToken(challengeToken, 'verify');
+    } catch {
+      res.status(401).json({ error: 'Login attempt expired. Please log in again.' });
+      return;
+    }
+
+    const user = await clientTeamService.findUserWithClient(challenge.userId);
+
+    if (!user || !user.isActive) {
+      res.status(401).json({ error: 'Invalid email or password' });
+      return;
+    }
+
+    if (!challenge.challengeId || !(await twoFactorService.claimChallengeAttempt(user.id, challenge.challengeId))) {
+      res.status(401).json({ error: 'Too many invalid codes. Please log in again.' });
+      return;
+    }
+
+    const isValid = await twoFactorService.verify(user.id, { code, recoveryCode });
+    if (!isValid) {
+      res.status(401).json({ error: 'Invalid two-factor code' });
+      return;
+    }
+
+    await twoFactorService.closeChallenge(user.id);
+
+    const remainingRecoveryCodes = recoveryCode
+      ? await twoFactorService.countRecoveryCodes(user.id)
+      : undefined;
+
+    await completeLogin(req, res, user, remainingRecoveryCodes !== undefined ? { remainingRecoveryCodes } : {});
+  } catch (error) {
+    console.error('[Auth] 2FA login error:', error);
+    res.status(500).json({ error: 'Failed to login' });
+  }
+};
+
+// Login step 2 when 2FA is enforced but not set up: start enrollment
+export const loginTwoFactorSetup = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { challengeToken } = req.body;
+
+    let challenge;
+    try {
+      challenge = verifyTwoFactorChallengeToken(challengeToken ?? '', 'setup');
+    } catch {
+      res.status(401).json({ error: 'Login attempt expired. Please log in again.' });
+      return;
+    }
+
+    const enrollment = await twoFactorService.beginEnrollment(challenge.userId);
+    if (!enrollment) {
+      res.status(400).json({ error: 'Two-factor authentication is already enabled' });
+      return;
+    }
+
+    res.json(enrollment);
+  } catch (error) {
+    console.error('[Auth] 2FA setup error:', error);
+    res.status(500).json({ error: 'Failed to start two-factor setup' });
+  }
+};
+
+// Login step 3 when 2FA is enforced but not set up: confirm the first code and log in
+export const loginTwoFactorEnable = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { challengeToken, code } = req.body;
+
+    if (!challengeToken || !code) {
+      res.status(400).json({ error: 'Challenge token and code are required' });
+      return;
+    }
+
+    let challenge;
+    try {
+      challenge = verifyTwoFactorChallengeToken(challengeToken, 'setup');
+    } catch {
+      res.status(401).json({ error: 'Login attempt expired. Please log in again.' });
+      return;
+    }
+
+    const recoveryCodes = await twoFactorService.enable(challenge.userId, code);
+    if (!recoveryCodes) {
+      res.status(400).json({ error: 'Invalid two-factor code' });
+      return;
+    }
+
+    const user = await clientTeamService.findUserWithClient(challenge.userId);
+
+    if (!user || !user.isActive) {
+      res.status(401).json({ error: 'Invalid email or password' });
+      return;
+    }
+
+    await completeLogin(req, res, user, { recoveryCodes });
+  } catch (error) {
+    console.error('[Auth] 2FA enable error:', error);
+    res.status(500).json({ error: 'Failed to enable two-factor authentication' });
+  }
+};
+
 // Logout user
 export const logout = async (req: Request, res: Response): Promise<void> => {
   try {
+    // Revoke the server-side session so its refresh token can't be used again
+    if (req.user?.sessionId) {
+      await sessionService.revoke(req.user.userId, req.user.sessionId, 'LOGOUT');
+    }
+
     // Clear cookies
     res.clearCookie('refreshToken');
     res.clearCookie('accessToken');
@@ -246,12 +458,7 @@ export const refreshToken = async (
     const payload = verifyRefreshToken(refreshToken);
 
     // Verify user still exists and is active
-    const user = await prisma.user.findUnique({
-      where: { id: payload.userId },
-      include: {
-        client: true
-      }
-    });
+    const user = await clientTeamService.findUserWithClient(payload.userId);
 
     if (!user || !user.isActive) {
       // Clear cookies if user doesn't exist or is inactive
@@ -272,12 +479,31 @@ export const refreshToken = async (
       }
     }
 
-    // Generate new tokens
-    const tokens = generateTokens({
-      userId: user.id,
-      email: user.email,
-      role: user.role,
-    });
+    // Rotate the refresh token within the same session
+    const result = await sessionService.rotate(
+      refreshToken,
+      {
+        userId: user.id,
+        email: user.email,
+        role: user.role,
+        clientId: user.client?.id,
+        sessionId: payload.sessionId,
+      },
+      sessionMetadata(req)
+    );
+
+    if (result.status !== 'rotated') {
+      res.clearCookie('accessToken');
+      res.clearCookie('refreshToken');
+      res.status(401).json({
+        error: result.status === 'reused'
+          ? 'Refresh token has already been used. The session was revoked for your security, please log in again.'
+          : 'Session has expired or been revoked. Please log in again.',
+      });
+      return;
+    }
+
+    const { tokens } = result;
 
     // Set new refresh token
     res.cookie('refreshToken', tokens.refreshToken, {
@@ -323,6 +549,8 @@ export const getCurrentUser = async (
         name: true,
         role: true,
         isActive: true,
+        emailVerified: true,
+        twoFactorEnabled: true,
         avatar: true,
         phone: true,
         employeeId: true,
@@ -348,7 +576,25 @@ export const getCurrentUser = async (
       return;
     }
 
-    res.json({ user });
+    // Team members don't own the client record; report the client they belong to
+    if (user.role === 'CLIENT' && !user.client && req.user.clientId) {
+      const client = await prisma.client.findUnique({
+        where: { id: req.user.clientId },
+        select: {
+          id: true,
+          name: true,
+          companyName: true,
+          email: true,
+          phone: true,
+          billingStatus: true,
+          isActive: true,
+        },
+      });
+      res.json({ user: { ...user, client, clientRole: req.user.clientRole } });
+      return;
+    }
+
+    res.json({ user: { ...user, clientRole: req.user.clientRole } });
   } catch (error) {
     res.status(500).json({ error: 'Failed to get user' });
   }
@@ -401,8 +647,301 @@ export const changePassword = async (
       data: { password: hashedPassword },
     });
 
+    // Sign out everywhere else
+    await sessionService.revokeAllForUser(user.id, 'PASSWORD_CHANGED', {
+      exceptSessionId: req.user.sessionId,
+    });
+
     res.json({ message: 'Password changed successfully' });
   } catch (error) {
     res.status(500).json({ error: 'Failed to change password' });
   }
 };
+
+// Request a password reset link. Always answers the same way so emails can't be enumerated.
+export const forgotPassword = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { email } = req.body;
+
+    if (!email) {
+      res.status(400).json({ error: 'Email is required' });
+      return;
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email },
+      select: { id: true, email: true, name: true, isActive: true },
+    });
+
+    if (user && user.isActive) {
+      const token = await authTokenService.issue(user.id, 'PASSWORD_RESET', getClientIp(req));
+      await mailService.sendPasswordResetMail(user.email, user.name, token, PASSWORD_RESET_TTL_MINUTES);
+    }
+
+    res.json({ message: 'If an account exists for this email, a reset link has been sent' });
+  } catch (error) {
+    console.error('[Auth] Forgot password error:', error);
+    res.status(500).json({ error: 'Failed to request password reset' });
+  }
+};
+
+// Set a new password using a reset token
+export const resetPassword = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { token, newPassword } = req.body;
+
+    if (!token || !newPassword) {
+      res.status(400).json({ error: 'Token and new password are required' });
+      return;
+    }
+
+    const userId = await authTokenService.consume(token, 'PASSWORD_RESET');
+    if (!userId) {
+      res.status(400).json({ error: 'Invalid or expired reset token' });
+      return;
+    }
+
+    const hashedPassword = await hashPassword(newPassword);
+    const user = await prisma.user.findUnique({ where: { id: userId } });
+
+    if (!user || !user.isActive) {
+      res.status(400).json({ error: 'Invalid or expired reset token' });
+      return;
+    }
+
+    // Opening the link proves control of the mailbox
+    await prisma.user.update({
+      where: { id: userId },
+      data: {
+        password: hashedPassword,
+        ...(!user.emailVerified && { emailVerified: true, emailVerifiedAt: new Date() }),
+      },
+    });
+
+    await sessionService.revokeAllForUser(userId, 'PASSWORD_CHANGED');
+
+    res.clearCookie('refreshToken');
+    res.clearCookie('accessToken');
+
+    res.json({ message: 'Password has been reset. Please log in with your new password.' });
+  } catch (error) {
+    console.error('[Auth] Reset password error:', error);
+    res.status(500).json({ error: 'Failed to reset password' });
+  }
+};
+
+// Confirm an email address using a verification token
+export const verifyEmail = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { token } = req.body;
+
+    if (!token) {
+      res.status(400).json({ error: 'Token is required' });
+      return;
+    }
+
+    const userId = await authTokenService.consume(token, 'EMAIL_VERIFICATION');
+    if (!userId) {
+      res.status(400).json({ error: 'Invalid or expired verification token' });
+      return;
+    }
+
+    await prisma.user.update({
+      where: { id: userId },
+      data: { emailVerified: true, emailVerifiedAt: new Date() },
+    });
+
+    res.json({ message: 'Email verified successfully' });
+  } catch (error) {
+    console.error('[Auth] Verify email error:', error);
+    res.status(500).json({ error: 'Failed to verify email' });
+  }
+};
+
+// Send a new verification mail to the current user
+export const resendVerificationEmail = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Not authenticated' });
+      return;
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: req.user.userId },
+      select: { id: true, email: true, name: true, emailVerified: true },
+    });
+
+    if (!user) {
+      res.status(404).json({ error: 'User not found' });
+      return;
+    }
+
+    if (user.emailVerified) {
+      res.status(400).json({ error: 'Email is already verified' });
+      return;
+    }
+
+    await sendVerificationMail(user, getClientIp(req));
+
+    res.json({ message: 'Verification email sent' });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to send verification email' });
+  }
+};
+
+// List the current user's active sessions
+export const getSessions = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Not authenticated' });
+      return;
+    }
+
+    const sessions = await sessionService.listForUser(req.user.userId);
+
+    res.json({
+      sessions: sessions.map(session => ({
+        ...session,
+        isCurrent: session.id === req.user!.sessionId,
+      })),
+    });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to get sessions' });
+  }
+};
+
+// Revoke one of the current user's sessions
+export const revokeSession = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Not authenticated' });
+      return;
+    }
+
+    const sessionId = req.params.sessionId as string;
+    const revoked = await sessionService.revoke(req.user.userId, sessionId, 'USER_REVOKED');
+
+    if (!revoked) {
+      res.status(404).json({ error: 'Session not found' });
+      return;
+    }
+
+    if (sessionId === req.user.sessionId) {
+      res.clearCookie('refreshToken');
+      res.clearCookie('accessToken');
+    }
+
+    res.json({ message: 'Session revoked' });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to revoke session' });
+  }
+};
+
+// Revoke all of the current user's sessions except this one
+export const revokeOtherSessions = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Not authenticated' });
+      return;
+    }
+
+    const count = await sessionService.revokeAllForUser(req.user.userId, 'USER_REVOKED', {
+      exceptSessionId: req.user.sessionId,
+    });
+
+    res.json({ message: `${count} session(s) revoked`, count });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to revoke sessions' });
+  }
+};
+
+// Admin: list a user's active sessions
+export const getUserSessions = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const userId = req.params.userId as string;
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true },
+    });
+
+    if (!user) {
+      res.status(404).json({ error: 'User not found' });
+      return;
+    }
+
+    const sessions = await sessionService.listForUser(userId);
+    res.json({ sessions });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to get user sessions' });
+  }
+};
+
+// Admin: force logout a user from all sessions, or from one session
+export const forceLogoutUser = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const userId = req.params.userId as string;
+    const sessionId = req.params.sessionId as string | undefined;
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true, role: true },
+    });
+
+    if (!user) {
+      res.status(404).json({ error: 'User not found' });
+      return;
+    }
+
+    // Only a SUPER_ADMIN may sign out another SUPER_ADMIN
+    if (user.role === 'SUPER_ADMIN' && req.user?.role !== 'SUPER_ADMIN') {
+      res.status(403).json({ error: 'Insufficient permissions' });
+      return;
+    }
+
+    if (sessionId) {
+      const revoked = await sessionService.revoke(userId, sessionId, 'ADMIN_FORCE_LOGOUT', req.user?.userId);
+      if (!revoked) {
+        res.status(404).json({ error: 'Session not found' });
+        return;
+      }
+      res.json({ message: 'Session revoked', count: 1 });
+      return;
+    }
+
+    const count = await sessionService.revokeAllForUser(userId, 'ADMIN_FORCE_LOGOUT', {
+      revokedById: req.user?.userId,
+    });
+
+    res.json({ message: `${count} session(s) revoked`, count });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to force logout user' });
+  }
+};
@@ -0,0 +1,109 @@
+import { Request, Response } from 'express';
+import { BackorderMode } from '@prisma/client';
+import { prisma } from '../config/database.js';
+import { backorderService } from '../services/backorder.service.js';
+
+// Client whose backorders are managed: the caller's own client, or clientId for staff
+export const getBackorderClientId = (req: Request): string | undefined => {
+  if (req.user?.role === 'CLIENT') return req.user.clientId;
+  return (req.query.clientId as string) || req.body?.clientId;
+};
+
+// Get a client's backorder mode
+export const getBackorderSettings = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const clientId = getBackorderClientId(req);
+    if (!clientId) {
+      res.status(400).json({ success: false, error: 'clientId is required' });
+      return;
+    }
+
+    const client = await prisma.client.findUnique({
+      where: { id: clientId },
+      select: { id: true, backorderMode: true },
+    });
+    if (!client) {
+      res.status(404).json({ success: false, error: 'Client not found' });
+      return;
+    }
+
+    res.json({ success: true, data: client });
+  } catch (error) {
+    console.error('Error fetching backorder settings:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch backorder settings' });
+  }
+};
+
+// Set a client's backorder mode (OFF, SHIP_COMPLETE or PARTIAL)
+export const updateBackorderSettings = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const clientId = getBackorderClientId(req);
+    if (!clientId) {
+      res.status(400).json({ success: false, error: 'clientId is required' });
+      return;
+    }
+
+    const { backorderMode } = req.body ?? {};
+    if (!Object.values(BackorderMode).includes(backorderMode)) {
+      res.status(400).json({
+        success: false,
+        error: `backorderMode must be one of ${Object.values(BackorderMode).join(', ')}`,
+      });
+      return;
+    }
+
+    const client = await backorderService.setBackorderMode(clientId, backorderMode);
+
+    res.json({ success: true, data: client });
+  } catch (error: any) {
+    if (error.code === 'P2025') {
+      res.status(404).json({ success: false, error: 'Client not found' });
+      return;
+    }
+    console.error('Error updating backorder settings:', error);
+    res.status(500).json({ success: false, error: 'Failed to update backorder settings' });
+  }
+};
+
+// Get a client's parked orders with their shortages, in release order
+export const getBackorders = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const clientId = getBackorderClientId(req);
+    if (!clientId) {
+      res.status(400).json({ success: false, error: 'clientId is required' });
+      return;
+    }
+
+    const result = await backorderService.listBackorders(clientId, {
+      page: req.query.page ? parseInt(req.query.page as string, 10) || 1 : undefined,
+      limit: req.query.limit ? parseInt(req.query.limit as string, 10) || 50 : undefined,
+    });
+
+    res.json({ success: true, data: result.orders, pagination: result.pagination });
+  } catch (error) {
+    console.error('Error fetching backorders:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch backorders' });
+  }
+};
+
+// Release the parked orders the current stock covers
+export const releaseBackorders = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const clientId = getBackorderClientId(req);
+    if (!clientId) {
+      res.status(400).json({ success: false, error: 'clientId is required' });
+      return;
+    }
+
+    const released = await backorderService.releaseCoveredBackorders(clientId);
+
+    res.json({
+      success: true,
+      data: { released },
+      message: `${released.length} backorder(s) released`,
+    });
+  } catch (error) {
+    console.error('Error releasing backorders:', error);
+    res.status(500).json({ success: false, error: 'Failed to release backorders' });
+  }
+};
@@ -0,0 +1,102 @@
+import { Request, Response } from 'express';
+import {
+  channelStockService,
+  ChannelStockRuleInput,
+  CHANNEL_STOCK_RULE_FIELDS,
+} from '../services/channel-stock.service.js';
+
+// Load a channel the caller may see (client users only see their own)
+const findOwnChannel = async (req: Request) => {
+  const channel = await channelStockService.findChannel(req.params.channelId as string);
+  if (!channel || (req.user?.role === 'CLIENT' && channel.clientId !== req.user.clientId)) {
+    return null;
+  }
+  return channel;
+};
+
+// Read the rule fields from the body (null clears a field)
+const parseRuleInput = (body: any): ChannelStockRuleInput =>
+  Object.fromEntries(CHANNEL_STOCK_RULE_FIELDS.map(field => [field, body?.[field] ?? null]));
+
+// Get the stock rules of a channel (channel default first)
+export const getChannelStockRules = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const channel = await findOwnChannel(req);
+    if (!channel) {
+      res.status(404).json({ success: false, error: 'Channel not found' });
+      return;
+    }
+
+    const rules = await channelStockService.listRules(channel.id);
+
+    res.json({ success: true, data: { channel, rules } });
+  } catch (error) {
+    console.error('Error fetching channel stock rules:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch channel stock rules' });
+  }
+};
+
+// Get stock and published quantity of every product on a channel
+export const getChannelStockPreview = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const channel = await findOwnChannel(req);
+    if (!channel) {
+      res.status(404).json({ success: false, error: 'Channel not found' });
+      return;
+    }
+
+    const products = await channelStockService.previewChannel(channel.id);
+
+    res.json({ success: true, data: { channel, products } });
+  } catch (error) {
+    console.error('Error previewing channel stock:', error);
+    res.status(500).json({ success: false, error: 'Failed to preview channel stock' });
+  }
+};
+
+// Set the default stock rule of a channel, or the rule of one product on it
+export const setChannelStockRule = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const channel = await findOwnChannel(req);
+    if (!channel) {
+      res.status(404).json({ success: false, error: 'Channel not found' });
+      return;
+    }
+
+    const input = parseRuleInput(req.body);
+    const validationError = channelStockService.validateRule(input);
+    if (validationError) {
+      res.status(400).json({ success: false, error: validationError });
+      return;
+    }
+
+    const rule = await channelStockService.setRule(channel.id, (req.params.productId as string) || null, input);
+
+    res.json({ success: true, data: rule });
+  } catch (error: any) {
+    if (error.message?.includes('not found')) {
+      res.status(404).json({ success: false, error: error.message });
+      return;
+    }
+    console.error('Error setting channel stock rule:', error);
+    res.status(500).json({ success: false, error: 'Failed to set channel stock rule' });
+  }
+};
+
+// Remove a stock rule (the channel default, or full stock, applies again)
+export const deleteChannelStockRule = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const rule = await channelStockService.findRule(req.params.id as string);
+    if (!rule || (req.user?.role === 'CLIENT' && rule.clientId !== req.user.clientId)) {
+      res.status(404).json({ success: false, error: 'Stock rule not found' });
+      return;
+    }
+
+    await channelStockService.deleteRule(rule.id);
+
+    res.json({ success: true, message: 'Stock rule removed' });
+  } catch (error) {
+    console.error('Error deleting channel stock rule:', error);
+    res.status(500).json({ success: false, error: 'Failed to delete channel stock rule' });
+  }
+};
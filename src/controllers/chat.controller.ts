@@ -452,10 +452,10 @@ export const getMyRoomInfo = async (req: Request, res: Response): Promise<void>
       return;
     }
 
-    // Find the client record for this user
-    const client = await prisma.client.findUnique({
-      where: { userId: currentUserId },
-    });
+    // Find the client this user owns or is a team member of
+    const client = req.user?.clientId
+      ? await prisma.client.findUnique({ where: { id: req.user.clientId } })
+      : null;
 
     if (!client) {
       res.status(404).json({
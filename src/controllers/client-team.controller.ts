@@ -0,0 +1,218 @@
+import { Request, Response } from 'express';
+import { ClientTeamRole } from '@prisma/client';
+import { clientTeamService, INVITATION_TTL_DAYS } from '../services/client-team.service.js';
+import { sessionService } from '../services/session.service.js';
+import { mailService } from '../services/mail.service.js';
+
+const TEAM_ROLES: ClientTeamRole[] = ['CLIENT_OWNER', 'CLIENT_STAFF', 'CLIENT_FINANCE'];
+
+// Client whose team is managed: the caller's own client, or ?clientId= for admins
+const getTeamClientId = (req: Request): string | undefined => {
+  if (req.user?.role === 'CLIENT') return req.user.clientId;
+  return (req.query.clientId as string) || req.body?.clientId;
+};
+
+// Get team members of a client
+export const getTeamMembers = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const clientId = getTeamClientId(req);
+    if (!clientId) {
+      res.status(400).json({ success: false, error: 'clientId is required' });
+      return;
+    }
+
+    const members = await clientTeamService.listMembers(clientId);
+    if (!members) {
+      res.status(404).json({ success: false, error: 'Client not found' });
+      return;
+    }
+
+    res.json({ success: true, data: members });
+  } catch (error) {
+    console.error('Error fetching team members:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch team members' });
+  }
+};
+
+// Get pending invitations of a client
+export const getTeamInvitations = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const clientId = getTeamClientId(req);
+    if (!clientId) {
+      res.status(400).json({ success: false, error: 'clientId is required' });
+      return;
+    }
+
+    const invitations = await clientTeamService.listInvitations(clientId);
+
+    res.json({ success: true, data: invitations });
+  } catch (error) {
+    console.error('Error fetching team invitations:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch invitations' });
+  }
+};
+
+// Invite a user to the team
+export const inviteTeamMember = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const clientId = getTeamClientId(req);
+    const { email, role = 'CLIENT_STAFF' } = req.body;
+
+    if (!clientId) {
+      res.status(400).json({ success: false, error: 'clientId is required' });
+      return;
+    }
+
+    if (!email) {
+      res.status(400).json({ success: false, error: 'Email is required' });
+      return;
+    }
+
+    if (!TEAM_ROLES.includes(role)) {
+      res.status(400).json({ success: false, error: `Role must be one of: ${TEAM_ROLES.join(', ')}` });
+      return;
+    }
+
+    const result = await clientTeamService.createInvitation(clientId, email, role, req.user!.userId);
+    if ('error' in result) {
+      res.status(400).json({ success: false, error: result.error });
+      return;
+    }
+
+    const { invitation, token } = result;
+
+    try {
+      await mailService.sendClientInvitationMail(
+        invitation.email,
+        invitation.client.companyName || invitation.client.name,
+        invitation.role,
+        token,
+        INVITATION_TTL_DAYS
+      );
+    } catch (mailError) {
+      console.error(`[Team] Failed to send invitation mail to ${invitation.email}:`, mailError);
+    }
+
+    res.status(201).json({
+      success: true,
+      data: {
+        id: invitation.id,
+        email: invitation.email,
+        role: invitation.role,
+        expiresAt: invitation.expiresAt,
+        createdAt: invitation.createdAt,
+      },
+    });
+  } catch (error) {
+    console.error('Error inviting team member:', error);
+    res.status(500).json({ success: false, error: 'Failed to invite team member' });
+  }
+};
+
+// Revoke a pending invitation
+export const revokeTeamInvitation = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const clientId = getTeamClientId(req);
+    if (!clientId) {
+      res.status(400).json({ success: false, error: 'clientId is required' });
+      return;
+    }
+
+    const revoked = await clientTeamService.revokeInvitation(clientId, req.params.invitationId as string);
+    if (!revoked) {
+      res.status(404).json({ success: false, error: 'Invitation not found' });
+      return;
+    }
+
+    res.json({ success: true, message: 'Invitation revoked' });
+  } catch (error) {
+    console.error('Error revoking invitation:', error);
+    res.status(500).json({ success: false, error: 'Failed to revoke invitation' });
+  }
+};
+
+// Change a member's team role
+export const updateTeamMember = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const clientId = getTeamClientId(req);
+    const { role } = req.body;
+
+    if (!clientId) {
+      res.status(400).json({ success: false, error: 'clientId is required' });
+      return;
+    }
+
+    if (!TEAM_ROLES.includes(role)) {
+      res.status(400).json({ success: false, error: `Role must be one of: ${TEAM_ROLES.join(', ')}` });
+      return;
+    }
+
+    const member = await clientTeamService.updateMemberRole(clientId, req.params.memberId as string, role);
+    if (!member) {
+      res.status(404).json({ success: false, error: 'Team member not found' });
+      return;
+    }
+
+    res.json({ success: true, data: member });
+  } catch (error) {
+    console.error('Error updating team member:', error);
+    res.status(500).json({ success: false, error: 'Failed to update team member' });
+  }
+};
+
+// Remove a member from the team
+export const removeTeamMember = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const clientId = getTeamClientId(req);
+    if (!clientId) {
+      res.status(400).json({ success: false, error: 'clientId is required' });
+      return;
+    }
+
+    const userId = await clientTeamService.removeMember(clientId, req.params.memberId as string);
+    if (!userId) {
+      res.status(404).json({ success: false, error: 'Team member not found' });
+      return;
+    }
+
+    await sessionService.revokeAllForUser(userId, 'ADMIN_FORCE_LOGOUT', { revokedById: req.user?.userId });
+
+    res.json({ success: true, message: 'Team member removed' });
+  } catch (error) {
+    console.error('Error removing team member:', error);
+    res.status(500).json({ success: false, error: 'Failed to remove team member' });
+  }
+};
+
+// Accept an invitation (public): creates the user account
+export const acceptTeamInvitation = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { token, password, name, phone } = req.body;
+
+    if (!token || !password) {
+      res.status(400).json({ success: false, error: 'Token and password are required' });
+      return;
+    }
+
+    const result = await clientTeamService.acceptInvitation(token, { password, name, phone });
+    if ('error' in result) {
+      res.status(400).json({ success: false, error: result.error });
+      return;
+    }
+
+    res.status(201).json({
+      success: true,
+      message: 'Invitation accepted. You can now log in.',
+      data: {
+        id: result.user.id,
+        email: result.user.email,
+        name: result.user.name,
+        clientId: result.clientId,
+        clientRole: result.role,
+      },
+    });
+  } catch (error) {
+    console.error('Error accepting invitation:', error);
+    res.status(500).json({ success: false, error: 'Failed to accept invitation' });
+  }
+};
@@ -8,11 +8,14 @@
 
 import { Request, Response } from 'express';
 import { prisma } from '../config/database.js';
-import { JTLService } from '../services/integrations/jtl.service.js';
+import { createJTLServiceForClient } from '../services/integrations/jtl.service.js';
 import { SyncOrchestrator } from '../services/integrations/sync-orchestrator.js';
 import { getEncryptionService } from '../services/encryption.service.js';
 import { notificationService } from '../services/notification.service.js';
 import { getQueue, QUEUE_NAMES } from '../services/queue/sync-queue.service.js';
+import { merchantWebhookService } from '../services/merchant-webhook.service.js';
+import { ORDER_RULE_HOLD_REASON } from '../services/order-rule.service.js';
+import { BACKORDER_HOLD_REASON } from '../services/backorder.service.js';
 
 // Types
 interface FulfillmentDashboardStats {
@@ -49,33 +52,13 @@ interface BulkOperationResult {
   }>;
 }
 
-// Helper to get JTL service for client
-async function getJTLService(clientId: string): Promise<JTLService | null> {
-  try {
-    const jtlConfig = await prisma.jtlConfig.findUnique({
-      where: { clientId_fk: clientId },
-    });
-
-    if (!jtlConfig || !jtlConfig.accessToken) {
-      return null;
-    }
-
-    const encryptionService = getEncryptionService();
-
-    return new JTLService({
-      clientId: jtlConfig.clientId,
-      clientSecret: encryptionService.decrypt(jtlConfig.clientSecret),
-      environment: (jtlConfig.environment || 'sandbox') as 'sandbox' | 'production',
-      accessToken: encryptionService.decrypt(jtlConfig.accessToken),
-      refreshToken: jtlConfig.refreshToken ? encryptionService.decrypt(jtlConfig.refreshToken) : undefined,
-      tokenExpiresAt: jtlConfig.tokenExpiresAt || undefined,
-      warehouseId: jtlConfig.warehouseId || undefined,
-      fulfillerId: jtlConfig.fulfillerId || undefined,
-    });
-  } catch (error) {
-    console.error('[Fulfillment] Failed to get JTL service:', error);
-    return null;
-  }
+// A backorder released by hand ships as it is and is not parked again
+function backorderReleaseData() {
+  return {
+    status: 'PENDING' as const,
+    backorderReleasedAt: new Date(),
+    items: { updateMany: { where: {}, data: { shortageQuantity: 0 } } },
+  };
 }
 
 // Helper to map hold reason to JTL priority
@@ -488,7 +471,7 @@ export const holdOrder = async (req: Request, res: Response): Promise<void> => {
 
     // Update in JTL FFN (set low priority to effectively hold)
     if (order.jtlOutboundId && order.clientId) {
-      const jtlService = await getJTLService(order.clientId);
+      const jtlService = await createJTLServiceForClient(prisma, order.clientId);
       if (jtlService) {
         const priority = holdReasonToPriority(reason);
         const internalNote = `HOLD: ${reason}${notes ? ` - ${notes}` : ''}`;
@@ -528,6 +511,8 @@ export const holdOrder = async (req: Request, res: Response): Promise<void> => {
       },
     });
 
+    await merchantWebhookService.emitOrderEvent(orderId, 'order.on_hold');
+
     // Queue Shopify hold sync (non-blocking — local hold still takes effect even if Shopify call fails)
     if (order.shopifyFulfillmentOrderId) {
       try {
@@ -619,7 +604,7 @@ export const releaseHold = async (req: Request, res: Response): Promise<void> =>
 
     // Update in JTL FFN (restore normal priority)
     if (order.jtlOutboundId && order.clientId) {
-      const jtlService = await getJTLService(order.clientId);
+      const jtlService = await createJTLServiceForClient(prisma, order.clientId);
       if (jtlService) {
         await jtlService.updateOutbound(order.jtlOutboundId, {
           priority: 0,
@@ -639,6 +624,7 @@ export const releaseHold = async (req: Request, res: Response): Promise<void> =>
         holdReleasedBy: user.id,
         priorityLevel: 0,
         ...(isPaymentHold && { paymentHoldOverride: true }),
+        ...(order.holdReason === BACKORDER_HOLD_REASON && backorderReleaseData()),
         lastOperationalUpdateBy: 'NOLIMITS',
         lastOperationalUpdateAt: new Date(),
       },
@@ -681,9 +667,10 @@ export const releaseHold = async (req: Request, res: Response): Promise<void> =>
       }
     }
 
-    // If this was a payment hold and order not yet synced to FFN, queue it now
-    if (isPaymentHold && !order.jtlOutboundId) {
-      console.log(`[FulfillmentController] Queueing order ${orderId} for FFN sync after manual payment hold release`);
+    // If this was a payment, order rule or backorder hold and order not yet synced to FFN, queue it now
+    const queuesFfnSync = isPaymentHold || order.holdReason === ORDER_RULE_HOLD_REASON || order.holdReason === BACKORDER_HOLD_REASON;
+    if (queuesFfnSync && !order.jtlOutboundId) {
+      console.log(`[FulfillmentController] Queueing order ${orderId} for FFN sync after manual ${order.holdReason} hold release`);
 
       try {
         const queue = getQueue();
@@ -764,7 +751,7 @@ export const updateTracking = async (req: Request, res: Response): Promise<void>
 
     // Update tracking in JTL FFN via shipping notification
     if (order.jtlOutboundId && order.clientId) {
-      const jtlService = await getJTLService(order.clientId);
+      const jtlService = await createJTLServiceForClient(prisma, order.clientId);
       if (jtlService) {
         // JTL FFN uses shipping notifications for tracking updates
         // The tracking info is typically provided when the order is shipped
@@ -798,6 +785,10 @@ export const updateTracking = async (req: Request, res: Response): Promise<void>
       },
     });
 
+    if (order.fulfillmentState !== 'SHIPPED') {
+      await merchantWebhookService.emitOrderEvent(orderId, 'order.shipped');
+    }
+
     // Notify customer if requested
     if (notifyCustomer) {
       console.log(`[Fulfillment] Creating customer notification for order ${orderId}`);
@@ -979,6 +970,8 @@ export const createFulfillment = async (req: Request, res: Response): Promise<vo
       },
     });
 
+    await merchantWebhookService.emitOrderEvent(orderId, 'order.shipped');
+
     // Queue sync to Shopify/WooCommerce so the commerce platform shows "fulfilled"
     try {
       const { getQueue, QUEUE_NAMES } = await import('../services/queue/sync-queue.service.js');
@@ -1057,7 +1050,7 @@ export const bulkHoldOrders = async (req: Request, res: Response): Promise<void>
 
         // Update in JTL FFN
         if (order.jtlOutboundId && order.clientId) {
-          const jtlService = await getJTLService(order.clientId);
+          const jtlService = await createJTLServiceForClient(prisma, order.clientId);
           if (jtlService) {
             await jtlService.updateOutbound(order.jtlOutboundId, {
               priority: holdReasonToPriority(reason),
@@ -1081,6 +1074,8 @@ export const bulkHoldOrders = async (req: Request, res: Response): Promise<void>
           },
         });
 
+        await merchantWebhookService.emitOrderEvent(orderId, 'order.on_hold');
+
         results.push({ orderId, success: true });
         processed++;
       } catch (error: any) {
@@ -1154,7 +1149,7 @@ export const bulkReleaseOrders = async (req: Request, res: Response): Promise<vo
 
         // Update in JTL FFN
         if (order.jtlOutboundId && order.clientId) {
-          const jtlService = await getJTLService(order.clientId);
+          const jtlService = await createJTLServiceForClient(prisma, order.clientId);
           if (jtlService) {
             await jtlService.updateOutbound(order.jtlOutboundId, {
               priority: 0,
@@ -1172,6 +1167,7 @@ export const bulkReleaseOrders = async (req: Request, res: Response): Promise<vo
             holdReleasedAt: new Date(),
             holdReleasedBy: user.id,
             priorityLevel: 0,
+            ...(order.holdReason === BACKORDER_HOLD_REASON && backorderReleaseData()),
             lastOperationalUpdateBy: 'NOLIMITS',
             lastOperationalUpdateAt: new Date(),
           },
@@ -1268,6 +1264,8 @@ export const bulkFulfillOrders = async (req: Request, res: Response): Promise<vo
           },
         });
 
+        await merchantWebhookService.emitOrderEvent(orderId, 'order.shipped');
+
         results.push({ orderId, success: true });
         processed++;
       } catch (error: any) {
@@ -1321,7 +1319,7 @@ export const syncOrderToJTL = async (req: Request, res: Response): Promise<void>
       return;
     }
 
-    const jtlService = await getJTLService(order.clientId);
+    const jtlService = await createJTLServiceForClient(prisma, order.clientId);
     if (!jtlService) {
       res.status(400).json({
         success: false,
@@ -1382,7 +1380,7 @@ export const getJTLStatus = async (req: Request, res: Response): Promise<void> =
       return;
     }
 
-    const jtlService = await getJTLService(clientId);
+    const jtlService = await createJTLServiceForClient(prisma, clientId);
 
     if (!jtlService) {
       res.json({
@@ -1430,7 +1428,7 @@ export const getShippingMethods = async (req: Request, res: Response): Promise<v
       return;
     }
 
-    const jtlService = await getJTLService(clientId);
+    const jtlService = await createJTLServiceForClient(prisma, clientId);
 
     if (!jtlService) {
       res.status(400).json({
@@ -1479,7 +1477,7 @@ export const getWarehouses = async (req: Request, res: Response): Promise<void>
       return;
     }
 
-    const jtlService = await getJTLService(clientId);
+    const jtlService = await createJTLServiceForClient(prisma, clientId);
 
     if (!jtlService) {
       res.status(400).json({
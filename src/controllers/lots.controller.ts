@@ -0,0 +1,91 @@
+import { Request, Response } from 'express';
+import { prisma } from '../config/database.js';
+import { lotService } from '../services/lot.service.js';
+
+// Client whose lots are queried: the caller's own client, or clientId for staff
+const getLotClientId = (req: Request): string | undefined => {
+  if (req.user?.role === 'CLIENT') return req.user.clientId;
+  return req.query.clientId as string | undefined;
+};
+
+// Get a client's lots, next to expire first (?productId=, ?expiringWithinDays=, ?includeEmpty=true)
+export const getLots = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const clientId = getLotClientId(req);
+    if (!clientId) {
+      res.status(400).json({ success: false, error: 'clientId is required' });
+      return;
+    }
+
+    const { productId, expiringWithinDays, includeEmpty, page, limit } = req.query;
+
+    const days = expiringWithinDays !== undefined ? parseInt(expiringWithinDays as string) : undefined;
+    if (days !== undefined && (isNaN(days) || days < 0)) {
+      res.status(400).json({ success: false, error: 'expiringWithinDays must be a non-negative number' });
+      return;
+    }
+
+    const result = await lotService.listLots(clientId, {
+      productId: productId as string | undefined,
+      expiringWithinDays: days,
+      includeEmpty: includeEmpty === 'true',
+      page: page ? parseInt(page as string) : 1,
+      limit: limit ? parseInt(limit as string) : 50,
+    });
+
+    res.json({ success: true, data: result.lots, pagination: result.pagination });
+  } catch (error) {
+    console.error('Error fetching lots:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch lots' });
+  }
+};
+
+// Get a product's lots, next to expire first
+export const getProductLots = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const product = await prisma.product.findUnique({
+      where: { id: req.params.productId as string },
+      select: { id: true, clientId: true, sku: true, name: true, chargeNumber: true, mhd: true },
+    });
+    if (!product || (req.user?.role === 'CLIENT' && product.clientId !== req.user.clientId)) {
+      res.status(404).json({ success: false, error: 'Product not found' });
+      return;
+    }
+
+    const result = await lotService.listLots(product.clientId, {
+      productId: product.id,
+      includeEmpty: req.query.includeEmpty === 'true',
+      limit: 200,
+    });
+
+    res.json({ success: true, data: { product, lots: result.lots } });
+  } catch (error) {
+    console.error('Error fetching product lots:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch product lots' });
+  }
+};
+
+// Recall query: which orders received a lot (?lotNumber=, optional ?productId=)
+export const getLotRecall = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const clientId = getLotClientId(req);
+    const { lotNumber, productId } = req.query;
+
+    if (!clientId) {
+      res.status(400).json({ success: false, error: 'clientId is required' });
+      return;
+    }
+
+    if (typeof lotNumber !== 'string' || !lotNumber.trim()) {
+      res.status(400).json({ success: false, error: 'lotNumber is required' });
+      return;
+    }
+
+    const result = await lotService.recall(clientId, lotNumber.trim(), productId as string | undefined);
+
+    res.json({ success: true, data: result });
+  } catch (error) {
+    console.error('Error running lot recall query:', error);
+    res.status(500).json({ success: false, error: 'Failed to run lot recall query' });
+  }
+};
@@ -0,0 +1,234 @@
+import { Request, Response } from 'express';
+import { WebhookDeliveryStatus } from '@prisma/client';
+import { prisma } from '../config/database.js';
+import { merchantWebhookService, WEBHOOK_EVENTS, WebhookEvent } from '../services/merchant-webhook.service.js';
+
+const DELIVERY_STATUSES: WebhookDeliveryStatus[] = ['PENDING', 'DELIVERED', 'FAILED'];
+
+// Client whose webhooks are managed: the caller's own client, or clientId for admins
+const getWebhookClientId = (req: Request): string | undefined => {
+  if (req.user?.role === 'CLIENT') return req.user.clientId;
+  return (req.query.clientId as string) || req.body?.clientId;
+};
+
+// Load a subscription the caller may manage (client owners only see their own)
+const findOwnSubscription = async (req: Request) => {
+  const subscription = await merchantWebhookService.findSubscription(req.params.id as string);
+  if (!subscription || (req.user?.role === 'CLIENT' && subscription.clientId !== req.user.clientId)) {
+    return null;
+  }
+  return subscription;
+};
+
+// Returns an error message, or null when the event list is valid
+const validateEvents = (events: unknown): string | null => {
+  if (!Array.isArray(events) || events.length === 0) return 'At least one event is required';
+
+  const invalidEvents = events.filter(event => !merchantWebhookService.isEvent(event));
+  if (invalidEvents.length > 0) return `Invalid events: ${invalidEvents.join(', ')}`;
+
+  return null;
+};
+
+// Get available events
+export const getWebhookEvents = async (_req: Request, res: Response): Promise<void> => {
+  res.json({ success: true, data: WEBHOOK_EVENTS });
+};
+
+// Get webhook subscriptions (admins see all unless ?clientId= is given)
+export const getWebhookSubscriptions = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const subscriptions = await merchantWebhookService.listSubscriptions(getWebhookClientId(req));
+
+    res.json({ success: true, data: subscriptions });
+  } catch (error) {
+    console.error('Error fetching webhook subscriptions:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch webhook subscriptions' });
+  }
+};
+
+// Create a webhook subscription. The signing secret is only returned in this response.
+export const createWebhookSubscription = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const clientId = getWebhookClientId(req);
+    const { url, events, description } = req.body;
+
+    if (!clientId) {
+      res.status(400).json({ success: false, error: 'clientId is required' });
+      return;
+    }
+
+    const urlError = merchantWebhookService.validateUrl(url);
+    if (urlError) {
+      res.status(400).json({ success: false, error: urlError });
+      return;
+    }
+
+    const eventsError = validateEvents(events);
+    if (eventsError) {
+      res.status(400).json({ success: false, error: eventsError });
+      return;
+    }
+
+    const client = await prisma.client.findUnique({ where: { id: clientId }, select: { id: true } });
+    if (!client) {
+      res.status(404).json({ success: false, error: 'Client not found' });
+      return;
+    }
+
+    const { subscription, secret } = await merchantWebhookService.createSubscription({
+      clientId,
+      url,
+      events: events as WebhookEvent[],
+      description: description || null,
+      createdById: req.user?.userId,
+    });
+
+    res.status(201).json({ success: true, data: { ...subscription, secret } });
+  } catch (error) {
+    console.error('Error creating webhook subscription:', error);
+    res.status(500).json({ success: false, error: 'Failed to create webhook subscription' });
+  }
+};
+
+// Update URL, events, description or active flag
+export const updateWebhookSubscription = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const subscription = await findOwnSubscription(req);
+    if (!subscription) {
+      res.status(404).json({ success: false, error: 'Webhook subscription not found' });
+      return;
+    }
+
+    const { url, events, description, isActive } = req.body;
+
+    if (url !== undefined) {
+      const urlError = merchantWebhookService.validateUrl(url);
+      if (urlError) {
+        res.status(400).json({ success: false, error: urlError });
+        return;
+      }
+    }
+
+    if (events !== undefined) {
+      const eventsError = validateEvents(events);
+      if (eventsError) {
+        res.status(400).json({ success: false, error: eventsError });
+        return;
+      }
+    }
+
+    if (isActive !== undefined && typeof isActive !== 'boolean') {
+      res.status(400).json({ success: false, error: 'isActive must be a boolean' });
+      return;
+    }
+
+    const updated = await merchantWebhookService.updateSubscription(subscription.id, {
+      url,
+      events,
+      description: description === undefined ? undefined : description || null,
+      isActive,
+    });
+
+    res.json({ success: true, data: updated });
+  } catch (error) {
+    console.error('Error updating webhook subscription:', error);
+    res.status(500).json({ success: false, error: 'Failed to update webhook subscription' });
+  }
+};
+
+// Replace the signing secret. The new secret is only returned in this response.
+export const rotateWebhookSecret = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const subscription = await findOwnSubscription(req);
+    if (!subscription) {
+      res.status(404).json({ success: false, error: 'Webhook subscription not found' });
+      return;
+    }
+
+    const secret = await merchantWebhookService.rotateSecret(subscription.id);
+
+    res.json({ success: true, data: { id: subscription.id, secret } });
+  } catch (error) {
+    console.error('Error rotating webhook secret:', error);
+    res.status(500).json({ success: false, error: 'Failed to rotate webhook secret' });
+  }
+};
+
+// Delete a subscription and its delivery log
+export const deleteWebhookSubscription = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const subscription = await findOwnSubscription(req);
+    if (!subscription) {
+      res.status(404).json({ success: false, error: 'Webhook subscription not found' });
+      return;
+    }
+
+    await merchantWebhookService.deleteSubscription(subscription.id);
+
+    res.json({ success: true, message: 'Webhook subscription deleted' });
+  } catch (error) {
+    console.error('Error deleting webhook subscription:', error);
+    res.status(500).json({ success: false, error: 'Failed to delete webhook subscription' });
+  }
+};
+
+// Get the delivery log (newest first)
+export const getWebhookDeliveries = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { subscriptionId, event, status, page, limit } = req.query;
+
+    if (status && !DELIVERY_STATUSES.includes(status as WebhookDeliveryStatus)) {
+      res.status(400).json({ success: false, error: `Status must be one of: ${DELIVERY_STATUSES.join(', ')}` });
+      return;
+    }
+
+    const result = await merchantWebhookService.listDeliveries({
+      clientId: getWebhookClientId(req),
+      subscriptionId: subscriptionId as string | undefined,
+      event: event as string | undefined,
+      status: status as WebhookDeliveryStatus | undefined,
+      page: page ? parseInt(page as string) : 1,
+      limit: limit ? parseInt(limit as string) : 50,
+    });
+
+    res.json({ success: true, data: result.deliveries, pagination: result.pagination });
+  } catch (error) {
+    console.error('Error fetching webhook deliveries:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch webhook deliveries' });
+  }
+};
+
+// Get one delivery with payload and response
+export const getWebhookDelivery = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const delivery = await merchantWebhookService.findDelivery(req.params.id as string);
+    if (!delivery || (req.user?.role === 'CLIENT' && delivery.clientId !== req.user.clientId)) {
+      res.status(404).json({ success: false, error: 'Webhook delivery not found' });
+      return;
+    }
+
+    res.json({ success: true, data: delivery });
+  } catch (error) {
+    console.error('Error fetching webhook delivery:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch webhook delivery' });
+  }
+};
+
+// Send a delivery's payload again
+export const replayWebhookDelivery = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const delivery = await merchantWebhookService.findDelivery(req.params.id as string);
+    if (!delivery || (req.user?.role === 'CLIENT' && delivery.clientId !== req.user.clientId)) {
+      res.status(404).json({ success: false, error: 'Webhook delivery not found' });
+      return;
+    }
+
+    const replay = await merchantWebhookService.replay(delivery.id, req.user?.userId);
+
+    res.status(202).json({ success: true, data: replay });
+  } catch (error) {
+    console.error('Error replaying webhook delivery:', error);
+    res.status(500).json({ success: false, error: 'Failed to replay webhook delivery' });
+  }
+};
@@ -0,0 +1,217 @@
+import { Request, Response } from 'express';
+import { prisma } from '../config/database.js';
+import {
+  orderRuleService,
+  ORDER_RULE_ACTIONS,
+  ORDER_RULE_FIELDS,
+  OrderRuleInput,
+} from '../services/order-rule.service.js';
+
+// Client whose rules are managed: the caller's own client, or clientId for admins
+const getRuleClientId = (req: Request): string | undefined => {
+  if (req.user?.role === 'CLIENT') return req.user.clientId;
+  return (req.query.clientId as string) || req.body?.clientId;
+};
+
+// Load a rule the caller may manage (client owners only see their own)
+const findOwnRule = async (req: Request) => {
+  const rule = await orderRuleService.findRule(req.params.id as string);
+  if (!rule || (req.user?.role === 'CLIENT' && rule.clientId !== req.user.clientId)) {
+    return null;
+  }
+  return rule;
+};
+
+// Get the available condition fields and action types
+export const getOrderRuleOptions = async (_req: Request, res: Response): Promise<void> => {
+  res.json({ success: true, data: { fields: ORDER_RULE_FIELDS, actions: ORDER_RULE_ACTIONS } });
+};
+
+// Get order rules in evaluation order (admins see all unless ?clientId= is given)
+export const getOrderRules = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const rules = await orderRuleService.listRules(getRuleClientId(req));
+
+    res.json({ success: true, data: rules });
+  } catch (error) {
+    console.error('Error fetching order rules:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch order rules' });
+  }
+};
+
+// Get one order rule
+export const getOrderRule = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const rule = await findOwnRule(req);
+    if (!rule) {
+      res.status(404).json({ success: false, error: 'Order rule not found' });
+      return;
+    }
+
+    res.json({ success: true, data: rule });
+  } catch (error) {
+    console.error('Error fetching order rule:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch order rule' });
+  }
+};
+
+// Create an order rule. It is evaluated after the client's existing rules.
+export const createOrderRule = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const clientId = getRuleClientId(req);
+    if (!clientId) {
+      res.status(400).json({ success: false, error: 'clientId is required' });
+      return;
+    }
+
+    const input = req.body as OrderRuleInput;
+    const validationError = await orderRuleService.validateRule(input);
+    if (validationError) {
+      res.status(400).json({ success: false, error: validationError });
+      return;
+    }
+
+    const client = await prisma.client.findUnique({ where: { id: clientId }, select: { id: true } });
+    if (!client) {
+      res.status(404).json({ success: false, error: 'Client not found' });
+      return;
+    }
+
+    const rule = await orderRuleService.createRule(clientId, input, req.user?.userId);
+
+    res.status(201).json({ success: true, data: rule });
+  } catch (error) {
+    console.error('Error creating order rule:', error);
+    res.status(500).json({ success: false, error: 'Failed to create order rule' });
+  }
+};
+
+// Update name, conditions, actions, match type or flags
+export const updateOrderRule = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const rule = await findOwnRule(req);
+    if (!rule) {
+      res.status(404).json({ success: false, error: 'Order rule not found' });
+      return;
+    }
+
+    const input = req.body as Partial<OrderRuleInput>;
+    const validationError = await orderRuleService.validateRule(input, true);
+    if (validationError) {
+      res.status(400).json({ success: false, error: validationError });
+      return;
+    }
+
+    const updated = await orderRuleService.updateRule(rule.id, input);
+
+    res.json({ success: true, data: updated });
+  } catch (error) {
+    console.error('Error updating order rule:', error);
+    res.status(500).json({ success: false, error: 'Failed to update order rule' });
+  }
+};
+
+// Delete an order rule. Its execution log stays with the rule name.
+export const deleteOrderRule = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const rule = await findOwnRule(req);
+    if (!rule) {
+      res.status(404).json({ success: false, error: 'Order rule not found' });
+      return;
+    }
+
+    await orderRuleService.deleteRule(rule.id);
+
+    res.json({ success: true, message: 'Order rule deleted' });
+  } catch (error) {
+    console.error('Error deleting order rule:', error);
+    res.status(500).json({ success: false, error: 'Failed to delete order rule' });
+  }
+};
+
+// Set the evaluation order of a client's rules
+export const reorderOrderRules = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const clientId = getRuleClientId(req);
+    const { ruleIds } = req.body;
+
+    if (!clientId) {
+      res.status(400).json({ success: false, error: 'clientId is required' });
+      return;
+    }
+
+    if (!Array.isArray(ruleIds) || ruleIds.length === 0 || ruleIds.some(id => typeof id !== 'string')) {
+      res.status(400).json({ success: false, error: 'ruleIds must be a non-empty list of rule IDs' });
+      return;
+    }
+
+    const rules = await orderRuleService.reorderRules(clientId, ruleIds);
+
+    res.json({ success: true, data: rules });
+  } catch (error: any) {
+    if (error.message?.startsWith('Rules not found')) {
+      res.status(400).json({ success: false, error: error.message });
+      return;
+    }
+    console.error('Error reordering order rules:', error);
+    res.status(500).json({ success: false, error: 'Failed to reorder order rules' });
+  }
+};
+
+// Dry-run rules against an existing order (orderId) or sample values (facts).
+// Tests a draft rule when "rule" is given, otherwise the client's active rules.
+export const simulateOrderRules = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const clientId = getRuleClientId(req);
+    const { orderId, facts, rule } = req.body;
+
+    if (!clientId) {
+      res.status(400).json({ success: false, error: 'clientId is required' });
+      return;
+    }
+
+    if (!orderId && !facts) {
+      res.status(400).json({ success: false, error: 'orderId or facts is required' });
+      return;
+    }
+
+    if (rule) {
+      const validationError = await orderRuleService.validateRule(rule);
+      if (validationError) {
+        res.status(400).json({ success: false, error: validationError });
+        return;
+      }
+    }
+
+    const result = await orderRuleService.simulate(clientId, { orderId, facts, rule });
+
+    res.json({ success: true, data: result });
+  } catch (error: any) {
+    if (error.message?.includes('not found')) {
+      res.status(404).json({ success: false, error: error.message });
+      return;
+    }
+    console.error('Error simulating order rules:', error);
+    res.status(500).json({ success: false, error: 'Failed to simulate order rules' });
+  }
+};
+
+// Get the log of rules that fired (newest first)
+export const getOrderRuleExecutions = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { ruleId, orderId, page, limit } = req.query;
+
+    const result = await orderRuleService.listExecutions({
+      clientId: getRuleClientId(req),
+      ruleId: ruleId as string | undefined,
+      orderId: orderId as string | undefined,
+      page: page ? parseInt(page as string) : 1,
+      limit: limit ? parseInt(limit as string) : 50,
+    });
+
+    res.json({ success: true, data: result.executions, pagination: result.pagination });
+  } catch (error) {
+    console.error('Error fetching order rule executions:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch order rule executions' });
+  }
+};
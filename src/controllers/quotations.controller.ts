@@ -5,7 +5,6 @@ import { prisma } from '../config/database.js';
 export const getQuotations = async (req: Request, res: Response): Promise<void> => {
   try {
     const userRole = req.user?.role;
-    const userId = req.user?.userId;
 
     let quotations;
 
@@ -28,12 +27,10 @@ export const getQuotations = async (req: Request, res: Response): Promise<void>
         },
       });
     } else {
-      // Client can only see their own quotations
-      const client = await prisma.client.findUnique({
-        where: { userId },
-      });
+      // Client (owner or team member) can only see their own quotations
+      const clientId = req.user?.clientId;
 
-      if (!client) {
+      if (!clientId) {
         res.status(404).json({
           success: false,
           error: 'Client not found',
@@ -43,7 +40,7 @@ export const getQuotations = async (req: Request, res: Response): Promise<void>
 
       quotations = await prisma.quotation.findMany({
         where: {
-          clientId_fk: client.id,
+          clientId_fk: clientId,
         },
         include: {
           items: true,
@@ -72,7 +69,6 @@ export const getQuotationById = async (req: Request, res: Response): Promise<voi
   try {
     const { id } = req.params;
     const userRole = req.user?.role;
-    const userId = req.user?.userId;
 
     const quotation = await prisma.quotation.findUnique({
       where: { id },
@@ -104,11 +100,7 @@ export const getQuotationById = async (req: Request, res: Response): Promise<voi
 
     // Check access: Admin can see all, client can only see their own
     if (userRole !== 'ADMIN' && userRole !== 'SUPER_ADMIN') {
-      const client = await prisma.client.findUnique({
-        where: { userId },
-      });
-
-      if (!client || quotation.clientId_fk !== client.id) {
+      if (!req.user?.clientId || quotation.clientId_fk !== req.user.clientId) {
         res.status(403).json({
           success: false,
           error: 'Access denied',
@@ -262,7 +254,6 @@ export const updateQuotationStatus = async (req: Request, res: Response): Promis
   try {
     const { id } = req.params;
     const { status } = req.body;
-    const userId = req.user?.userId;
 
     if (!status || !['ACCEPTED', 'REJECTED'].includes(status)) {
       res.status(400).json({
@@ -285,8 +276,8 @@ export const updateQuotationStatus = async (req: Request, res: Response): Promis
       return;
     }
 
-    // Check if user is the client owner
-    if (quotation.client.userId !== userId) {
+    // Check if user belongs to the quoted client (owner or team member)
+    if (!req.user?.clientId || quotation.clientId_fk !== req.user.clientId) {
       res.status(403).json({
         success: false,
         error: 'Access denied',
@@ -0,0 +1,167 @@
+import { Request, Response } from 'express';
+import { prisma } from '../config/database.js';
+import { serialService, normalizeSerials } from '../services/serial.service.js';
+
+// Client scope of a search: the caller's own client, or ?clientId= for staff (all clients without it)
+const getSerialClientId = (req: Request): string | undefined => {
+  if (req.user?.role === 'CLIENT') return req.user.clientId;
+  return req.query.clientId as string | undefined;
+};
+
+// Whether the caller may see a record of this client (client users only see their own)
+const isOwnClient = (req: Request, clientId: string | null): boolean =>
+  req.user?.role !== 'CLIENT' || req.user.clientId === clientId;
+
+// Read serialNumbers from the body; null when it is not a non-empty list
+const parseSerialNumbers = (value: unknown): string[] | null => {
+  if (!Array.isArray(value)) return null;
+  const serialNumbers = normalizeSerials(value);
+  return serialNumbers.length > 0 ? serialNumbers : null;
+};
+
+// Find the order, customer and return history of a serial number
+export const searchSerial = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { serialNumber } = req.query;
+    if (typeof serialNumber !== 'string' || !serialNumber.trim()) {
+      res.status(400).json({ success: false, error: 'serialNumber is required' });
+      return;
+    }
+
+    const result = await serialService.search(getSerialClientId(req), serialNumber.trim());
+
+    res.json({ success: true, data: result });
+  } catch (error) {
+    console.error('Error searching serial number:', error);
+    res.status(500).json({ success: false, error: 'Failed to search serial number' });
+  }
+};
+
+// Get the serial numbers of an order per line
+export const getOrderSerials = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const order = await prisma.order.findUnique({
+      where: { id: req.params.orderId as string },
+      select: { id: true, clientId: true },
+    });
+    if (!order || !isOwnClient(req, order.clientId)) {
+      res.status(404).json({ success: false, error: 'Order not found' });
+      return;
+    }
+
+    const items = await serialService.getOrderSerials(order.id);
+
+    res.json({ success: true, data: items });
+  } catch (error) {
+    console.error('Error fetching order serials:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch order serials' });
+  }
+};
+
+// Enter serial numbers of an order line by hand
+export const addOrderItemSerials = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const orderItem = await prisma.orderItem.findUnique({
+      where: { id: req.params.itemId as string },
+      select: { id: true, orderId: true, order: { select: { clientId: true } } },
+    });
+    if (!orderItem || orderItem.orderId !== req.params.orderId || !isOwnClient(req, orderItem.order.clientId)) {
+      res.status(404).json({ success: false, error: 'Order item not found' });
+      return;
+    }
+
+    const serialNumbers = parseSerialNumbers(req.body.serialNumbers);
+    if (!serialNumbers) {
+      res.status(400).json({ success: false, error: 'serialNumbers must be a non-empty list' });
+      return;
+    }
+
+    const serials = await serialService.addOrderItemSerials(orderItem.id, serialNumbers, req.user?.userId);
+
+    res.status(201).json({ success: true, data: serials });
+  } catch (error: any) {
+    if (error.message?.includes('serial numbers')) {
+      res.status(400).json({ success: false, error: error.message });
+      return;
+    }
+    console.error('Error adding order serials:', error);
+    res.status(500).json({ success: false, error: 'Failed to add serial numbers' });
+  }
+};
+
+// Remove a serial number recorded on an order line by mistake
+export const deleteOrderItemSerial = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const serial = await serialService.findSerial(req.params.id as string);
+    if (!serial || !isOwnClient(req, serial.clientId)) {
+      res.status(404).json({ success: false, error: 'Serial number not found' });
+      return;
+    }
+
+    await serialService.deleteSerial(serial.id);
+
+    res.json({ success: true, message: 'Serial number removed' });
+  } catch (error) {
+    console.error('Error deleting serial number:', error);
+    res.status(500).json({ success: false, error: 'Failed to delete serial number' });
+  }
+};
+
+// Load a return item of the given return the caller may see
+const findOwnReturnItem = async (req: Request) => {
+  const returnItem = await prisma.returnItem.findUnique({
+    where: { id: req.params.returnItemId as string },
+    select: { id: true, returnId: true, return: { select: { clientId: true } } },
+  });
+  if (!returnItem || returnItem.returnId !== req.params.returnId || !isOwnClient(req, returnItem.return.clientId)) {
+    return null;
+  }
+  return returnItem;
+};
+
+// Check serial numbers of a returned item against the shipped serials, without storing them
+export const checkReturnItemSerials = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const returnItem = await findOwnReturnItem(req);
+    if (!returnItem) {
+      res.status(404).json({ success: false, error: 'Return item not found' });
+      return;
+    }
+
+    const serialNumbers = parseSerialNumbers(req.body.serialNumbers);
+    if (!serialNumbers) {
+      res.status(400).json({ success: false, error: 'serialNumbers must be a non-empty list' });
+      return;
+    }
+
+    const check = await serialService.checkReturnItemSerials(returnItem.id, serialNumbers);
+
+    res.json({ success: true, data: check });
+  } catch (error) {
+    console.error('Error checking return serials:', error);
+    res.status(500).json({ success: false, error: 'Failed to check serial numbers' });
+  }
+};
+
+// Record the serial numbers of a returned item. A mismatch is flagged on the item, not rejected.
+export const setReturnItemSerials = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const returnItem = await findOwnReturnItem(req);
+    if (!returnItem) {
+      res.status(404).json({ success: false, error: 'Return item not found' });
+      return;
+    }
+
+    if (!Array.isArray(req.body.serialNumbers)) {
+      res.status(400).json({ success: false, error: 'serialNumbers must be a list' });
+      return;
+    }
+
+    const check = await serialService.setReturnItemSerials(returnItem.id, normalizeSerials(req.body.serialNumbers));
+
+    res.json({ success: true, data: check });
+  } catch (error) {
+    console.error('Error setting return serials:', error);
+    res.status(500).json({ success: false, error: 'Failed to set serial numbers' });
+  }
+};
@@ -11,6 +11,7 @@ import { prisma } from '../config/database.js';
 import ShippingMethodService from '../services/shipping-method.service.js';
 import { JTLService } from '../services/integrations/jtl.service.js';
 import { getEncryptionService } from '../services/encryption.service.js';
+import { clientTeamService } from '../services/client-team.service.js';
 const shippingMethodService = new ShippingMethodService(prisma);
 const encryptionService = getEncryptionService();
 
@@ -634,10 +635,7 @@ export async function syncMyShippingMethods(req: Request, res: Response) {
     console.log('[ShippingMethodsController] User ID:', user.userId);
 
     // Fetch the user with their client association
-    const dbUser = await prisma.user.findUnique({
-      where: { id: user.userId },
-      include: { client: true },
-    });
+    const dbUser = await clientTeamService.findUserWithClient(user.userId);
 
     if (!dbUser?.client?.id) {
       console.log('[ShippingMethodsController] No client associated with user');
@@ -0,0 +1,161 @@
+import { Request, Response } from 'express';
+import { prisma } from '../config/database.js';
+import {
+  stockMovementService,
+  STOCK_MOVEMENT_REASONS,
+  StockLevels,
+  StockMovementReason,
+} from '../services/stock-movement.service.js';
+
+const STOCK_LEVELS: Array<keyof StockLevels> = ['available', 'reserved', 'announced'];
+
+// Client whose stock is queried: the caller's own client, or clientId for staff
+const getStockClientId = (req: Request): string | undefined => {
+  if (req.user?.role === 'CLIENT') return req.user.clientId;
+  return (req.query.clientId as string) || req.body?.clientId;
+};
+
+// Load a product the caller may see (client users only see their own)
+const findOwnProduct = async (req: Request) => {
+  const product = await prisma.product.findUnique({
+    where: { id: req.params.productId as string },
+    select: { id: true, clientId: true, sku: true, name: true },
+  });
+  if (!product || (req.user?.role === 'CLIENT' && product.clientId !== req.user.clientId)) {
+    return null;
+  }
+  return product;
+};
+
+// Parse an optional ISO date query parameter; undefined when absent, null when invalid
+const parseDate = (value: unknown): Date | null | undefined => {
+  if (value === undefined || value === '') return undefined;
+  const date = new Date(value as string);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+// Get a product's stock movements (newest first)
+export const getProductStockMovements = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const product = await findOwnProduct(req);
+    if (!product) {
+      res.status(404).json({ success: false, error: 'Product not found' });
+      return;
+    }
+
+    const { reason, page, limit } = req.query;
+    const from = parseDate(req.query.from);
+    const to = parseDate(req.query.to);
+
+    if (reason && !stockMovementService.isReason(reason)) {
+      res.status(400).json({ success: false, error: `Reason must be one of: ${STOCK_MOVEMENT_REASONS.join(', ')}` });
+      return;
+    }
+
+    if (from === null || to === null) {
+      res.status(400).json({ success: false, error: 'from and to must be ISO dates' });
+      return;
+    }
+
+    const result = await stockMovementService.listForProduct(product.id, {
+      reason: reason as StockMovementReason | undefined,
+      from,
+      to,
+      page: page ? parseInt(page as string) : 1,
+      limit: limit ? parseInt(limit as string) : 50,
+    });
+
+    res.json({ success: true, data: { product, movements: result.movements }, pagination: result.pagination });
+  } catch (error) {
+    console.error('Error fetching stock movements:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch stock movements' });
+  }
+};
+
+// Get a product's stock levels at a point in time (?at=, defaults to now)
+export const getProductStockLevelsAt = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const product = await findOwnProduct(req);
+    if (!product) {
+      res.status(404).json({ success: false, error: 'Product not found' });
+      return;
+    }
+
+    const at = parseDate(req.query.at);
+    if (at === null) {
+      res.status(400).json({ success: false, error: 'at must be an ISO date' });
+      return;
+    }
+
+    const levels = await stockMovementService.getLevelsAt(product.id, at ?? new Date());
+
+    res.json({ success: true, data: { ...levels, sku: product.sku, name: product.name } });
+  } catch (error) {
+    console.error('Error fetching stock levels:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch stock levels' });
+  }
+};
+
+// Get the stock levels of all of a client's products at a point in time
+export const getClientStockLevelsAt = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const clientId = getStockClientId(req);
+    if (!clientId) {
+      res.status(400).json({ success: false, error: 'clientId is required' });
+      return;
+    }
+
+    const at = parseDate(req.query.at);
+    if (!at) {
+      res.status(400).json({ success: false, error: 'at must be an ISO date' });
+      return;
+    }
+
+    const levels = await stockMovementService.getClientLevelsAt(clientId, at);
+
+    res.json({ success: true, data: { at, products: levels } });
+  } catch (error) {
+    console.error('Error fetching stock levels:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch stock levels' });
+  }
+};
+
+// Manually correct a product's stock levels. The next FFN stock sync overrides it again.
+export const adjustProductStock = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const product = await findOwnProduct(req);
+    if (!product) {
+      res.status(404).json({ success: false, error: 'Product not found' });
+      return;
+    }
+
+    const { note } = req.body;
+    if (typeof note !== 'string' || !note.trim()) {
+      res.status(400).json({ success: false, error: 'A note explaining the adjustment is required' });
+      return;
+    }
+
+    const levels: Partial<StockLevels> = {};
+    for (const level of STOCK_LEVELS) {
+      const value = req.body[level];
+      if (value === undefined) continue;
+      if (!Number.isInteger(value) || value < 0) {
+        res.status(400).json({ success: false, error: `${level} must be a non-negative whole number` });
+        return;
+      }
+      levels[level] = value;
+    }
+
+    if (Object.keys(levels).length === 0) {
+      res.status(400).json({ success: false, error: `At least one of ${STOCK_LEVELS.join(', ')} is required` });
+      return;
+    }
+
+    const updated = await stockMovementService.adjust(product.id, levels, note.trim(), req.user?.userId);
+
+    res.json({ success: true, data: updated });
+  } catch (error) {
+    console.error('Error adjusting stock:', error);
+    res.status(500).json({ success: false, error: 'Failed to adjust stock' });
+  }
+};
@@ -0,0 +1,308 @@
+import { Request, Response } from 'express';
+import { StocktakeStatus } from '@prisma/client';
+import { prisma } from '../config/database.js';
+import { JTLService, createJTLServiceForClient } from '../services/integrations/jtl.service.js';
+import { stocktakeService, StocktakeCount, StocktakeReview } from '../services/stocktake.service.js';
+import { parseCsvRecords } from '../utils/csv.js';
+
+// Client whose stocktakes are managed: the caller's own client, or clientId for staff
+const getStocktakeClientId = (req: Request): string | undefined => {
+  if (req.user?.role === 'CLIENT') return req.user.clientId;
+  return (req.query.clientId as string) || req.body?.clientId;
+};
+
+// Load a stocktake the caller may see (client users only see their own)
+const findOwnStocktake = async (req: Request) => {
+  const stocktake = await stocktakeService.findStocktake(req.params.id as string);
+  if (!stocktake || (req.user?.role === 'CLIENT' && stocktake.clientId !== req.user.clientId)) {
+    return null;
+  }
+  return stocktake;
+};
+
+// Parse an optional ISO date query parameter; undefined when absent, null when invalid
+const parseDate = (value: unknown): Date | null | undefined => {
+  if (value === undefined || value === '') return undefined;
+  const date = new Date(value as string);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+// Stocktake state errors are the caller's fault, everything else is ours
+const isStocktakeError = (error: any): boolean =>
+  /can no longer be changed|not counted|not reviewed|not found|No products/.test(error?.message ?? '');
+
+// Get a client's stocktakes (newest first)
+export const getStocktakes = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const clientId = getStocktakeClientId(req);
+    if (!clientId) {
+      res.status(400).json({ success: false, error: 'clientId is required' });
+      return;
+    }
+
+    const { status, page, limit } = req.query;
+    if (status && !Object.values(StocktakeStatus).includes(status as StocktakeStatus)) {
+      res.status(400).json({ success: false, error: `Status must be one of: ${Object.values(StocktakeStatus).join(', ')}` });
+      return;
+    }
+
+    const result = await stocktakeService.listStocktakes(clientId, {
+      status: status as StocktakeStatus | undefined,
+      page: page ? parseInt(page as string) : 1,
+      limit: limit ? parseInt(limit as string) : 50,
+    });
+
+    res.json({ success: true, data: result.stocktakes, pagination: result.pagination });
+  } catch (error) {
+    console.error('Error fetching stocktakes:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch stocktakes' });
+  }
+};
+
+// Open a stocktake (all products, or a cycle count of productIds) and snapshot expected stock
+export const createStocktake = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const clientId = getStocktakeClientId(req);
+    if (!clientId) {
+      res.status(400).json({ success: false, error: 'clientId is required' });
+      return;
+    }
+
+    const { name, note, productIds } = req.body;
+    if (typeof name !== 'string' || !name.trim()) {
+      res.status(400).json({ success: false, error: 'name is required' });
+      return;
+    }
+
+    if (productIds !== undefined && (!Array.isArray(productIds) || productIds.length === 0)) {
+      res.status(400).json({ success: false, error: 'productIds must be a non-empty list' });
+      return;
+    }
+
+    let jtlService: JTLService | null = null;
+    try {
+      jtlService = await createJTLServiceForClient(prisma, clientId);
+    } catch (error) {
+      console.error('Error creating JTL service for stocktake:', error);
+    }
+
+    const stocktake = await stocktakeService.createStocktake(
+      clientId,
+      { name: name.trim(), note, productIds },
+      jtlService,
+      req.user?.userId
+    );
+
+    res.status(201).json({ success: true, data: stocktake });
+  } catch (error: any) {
+    if (isStocktakeError(error)) {
+      res.status(400).json({ success: false, error: error.message });
+      return;
+    }
+    console.error('Error creating stocktake:', error);
+    res.status(500).json({ success: false, error: 'Failed to create stocktake' });
+  }
+};
+
+// Get a stocktake with its lines and variances
+export const getStocktake = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const own = await findOwnStocktake(req);
+    if (!own) {
+      res.status(404).json({ success: false, error: 'Stocktake not found' });
+      return;
+    }
+
+    const stocktake = await stocktakeService.getStocktake(own.id);
+
+    res.json({ success: true, data: stocktake });
+  } catch (error) {
+    console.error('Error fetching stocktake:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch stocktake' });
+  }
+};
+
+// Enter counted quantities: { counts: [{ sku, countedQuantity }] } or { csv, delimiter? } with sku/quantity columns
+export const recordStocktakeCounts = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const stocktake = await findOwnStocktake(req);
+    if (!stocktake) {
+      res.status(404).json({ success: false, error: 'Stocktake not found' });
+      return;
+    }
+
+    const { counts, csv, delimiter } = req.body;
+
+    let rows: Array<{ sku: unknown; countedQuantity: unknown }>;
+    if (typeof csv === 'string') {
+      rows = parseCsvRecords(csv, delimiter || ';').map(record => ({
+        sku: record.sku,
+        countedQuantity: record.quantity === undefined || record.quantity === '' ? undefined : Number(record.quantity),
+      }));
+    } else if (Array.isArray(counts)) {
+      rows = counts;
+    } else {
+      res.status(400).json({ success: false, error: 'counts or csv is required' });
+      return;
+    }
+
+    const parsed: StocktakeCount[] = [];
+    for (const [index, row] of rows.entries()) {
+      if (typeof row?.sku !== 'string' || !row.sku.trim()) {
+        res.status(400).json({ success: false, error: `Row ${index + 1}: sku is required` });
+        return;
+      }
+      if (!Number.isInteger(row.countedQuantity) || (row.countedQuantity as number) < 0) {
+        res.status(400).json({ success: false, error: `Row ${index + 1}: quantity must be a non-negative whole number` });
+        return;
+      }
+      parsed.push({ sku: row.sku.trim(), countedQuantity: row.countedQuantity as number });
+    }
+
+    if (parsed.length === 0) {
+      res.status(400).json({ success: false, error: 'No counts given' });
+      return;
+    }
+
+    const result = await stocktakeService.recordCounts(stocktake.id, parsed, req.user?.userId);
+
+    res.json({ success: true, data: result });
+  } catch (error: any) {
+    if (isStocktakeError(error)) {
+      res.status(400).json({ success: false, error: error.message });
+      return;
+    }
+    console.error('Error recording stocktake counts:', error);
+    res.status(500).json({ success: false, error: 'Failed to record counts' });
+  }
+};
+
+// Approve or reject counted variances: { reviews: [{ lineId, approve, reason }] }. Approved variances are posted.
+export const reviewStocktakeLines = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const stocktake = await findOwnStocktake(req);
+    if (!stocktake) {
+      res.status(404).json({ success: false, error: 'Stocktake not found' });
+      return;
+    }
+
+    const { reviews } = req.body;
+    if (!Array.isArray(reviews) || reviews.length === 0) {
+      res.status(400).json({ success: false, error: 'reviews must be a non-empty list' });
+      return;
+    }
+
+    for (const review of reviews as StocktakeReview[]) {
+      if (typeof review?.lineId !== 'string' || typeof review.approve !== 'boolean') {
+        res.status(400).json({ success: false, error: 'Each review needs a lineId and approve (true/false)' });
+        return;
+      }
+      if (typeof review.reason !== 'string' || !review.reason.trim()) {
+        res.status(400).json({ success: false, error: 'A reason is required for every review' });
+        return;
+      }
+    }
+
+    const result = await stocktakeService.reviewLines(
+      stocktake.id,
+      (reviews as StocktakeReview[]).map(review => ({ ...review, reason: review.reason.trim() })),
+      req.user?.userId
+    );
+
+    res.json({ success: true, data: result });
+  } catch (error: any) {
+    if (isStocktakeError(error)) {
+      res.status(400).json({ success: false, error: error.message });
+      return;
+    }
+    console.error('Error reviewing stocktake lines:', error);
+    res.status(500).json({ success: false, error: 'Failed to review stocktake lines' });
+  }
+};
+
+// Complete a stocktake once every variance is reviewed
+export const completeStocktake = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const stocktake = await findOwnStocktake(req);
+    if (!stocktake) {
+      res.status(404).json({ success: false, error: 'Stocktake not found' });
+      return;
+    }
+
+    const completed = await stocktakeService.completeStocktake(stocktake.id, req.user?.userId);
+
+    res.json({ success: true, data: completed });
+  } catch (error: any) {
+    if (isStocktakeError(error)) {
+      res.status(400).json({ success: false, error: error.message });
+      return;
+    }
+    console.error('Error completing stocktake:', error);
+    res.status(500).json({ success: false, error: 'Failed to complete stocktake' });
+  }
+};
+
+// Cancel an open stocktake
+export const cancelStocktake = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const stocktake = await findOwnStocktake(req);
+    if (!stocktake) {
+      res.status(404).json({ success: false, error: 'Stocktake not found' });
+      return;
+    }
+
+    const cancelled = await stocktakeService.cancelStocktake(stocktake.id);
+
+    res.json({ success: true, data: cancelled });
+  } catch (error: any) {
+    if (isStocktakeError(error)) {
+      res.status(400).json({ success: false, error: error.message });
+      return;
+    }
+    console.error('Error cancelling stocktake:', error);
+    res.status(500).json({ success: false, error: 'Failed to cancel stocktake' });
+  }
+};
+
+// Confirm the approved FFN variances of a stocktake were booked in FFN
+export const confirmStocktakeFfnBooked = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const stocktake = await findOwnStocktake(req);
+    if (!stocktake) {
+      res.status(404).json({ success: false, error: 'Stocktake not found' });
+      return;
+    }
+
+    const result = await stocktakeService.confirmFfnBooked(stocktake.id);
+
+    res.json({ success: true, data: result });
+  } catch (error) {
+    console.error('Error confirming FFN corrections of stocktake:', error);
+    res.status(500).json({ success: false, error: 'Failed to confirm FFN corrections' });
+  }
+};
+
+// Variance report of a client's completed stocktakes and FFN sync drift (?from=, ?to=)
+export const getStocktakeVarianceReport = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const clientId = getStocktakeClientId(req);
+    if (!clientId) {
+      res.status(400).json({ success: false, error: 'clientId is required' });
+      return;
+    }
+
+    const from = parseDate(req.query.from);
+    const to = parseDate(req.query.to);
+    if (from === null || to === null) {
+      res.status(400).json({ success: false, error: 'from and to must be ISO dates' });
+      return;
+    }
+
+    const report = await stocktakeService.getVarianceReport(clientId, { from, to });
+
+    res.json({ success: true, data: report });
+  } catch (error) {
+    console.error('Error building stocktake variance report:', error);
+    res.status(500).json({ success: false, error: 'Failed to build variance report' });
+  }
+};
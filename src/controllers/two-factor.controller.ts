@@ -0,0 +1,216 @@
+import { Request, Response } from 'express';
+import { UserRole } from '@prisma/client';
+import { prisma } from '../config/database.js';
+import { comparePassword } from '../utils/auth.js';
+import {
+  twoFactorService,
+  TWO_FACTOR_ENFORCEABLE_ROLES,
+} from '../services/two-factor.service.js';
+import { sessionService } from '../services/session.service.js';
+
+// Get 2FA status of the current user
+export const getTwoFactorStatus = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Not authenticated' });
+      return;
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: req.user.userId },
+      select: { role: true, twoFactorEnabled: true, twoFactorEnabledAt: true, twoFactorRecoveryCodes: true },
+    });
+
+    if (!user) {
+      res.status(404).json({ error: 'User not found' });
+      return;
+    }
+
+    res.json({
+      enabled: user.twoFactorEnabled,
+      enabledAt: user.twoFactorEnabledAt,
+      required: await twoFactorService.isRequiredForRole(user.role),
+      remainingRecoveryCodes: user.twoFactorRecoveryCodes.length,
+    });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to get two-factor status' });
+  }
+};
+
+// Start enrollment: returns the secret and otpauth:// URI for the QR code
+export const setupTwoFactor = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Not authenticated' });
+      return;
+    }
+
+    const enrollment = await twoFactorService.beginEnrollment(req.user.userId);
+    if (!enrollment) {
+      res.status(400).json({ error: 'Two-factor authentication is already enabled' });
+      return;
+    }
+
+    res.json(enrollment);
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to start two-factor setup' });
+  }
+};
+
+// Confirm enrollment with a first code; returns the recovery codes (shown once)
+export const enableTwoFactor = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Not authenticated' });
+      return;
+    }
+
+    const { code } = req.body;
+    if (!code) {
+      res.status(400).json({ error: 'Code is required' });
+      return;
+    }
+
+    const recoveryCodes = await twoFactorService.enable(req.user.userId, code);
+    if (!recoveryCodes) {
+      res.status(400).json({ error: 'Invalid two-factor code or no setup in progress' });
+      return;
+    }
+
+    res.json({ message: 'Two-factor authentication enabled', recoveryCodes });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to enable two-factor authentication' });
+  }
+};
+
+// Disable 2FA (requires password and a current code or recovery code)
+export const disableTwoFactor = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Not authenticated' });
+      return;
+    }
+
+    const { password, code, recoveryCode } = req.body;
+    if (!password || (!code && !recoveryCode)) {
+      res.status(400).json({ error: 'Password and code or recovery code are required' });
+      return;
+    }
+
+    const user = await prisma.user.findUnique({ where: { id: req.user.userId } });
+    if (!user) {
+      res.status(404).json({ error: 'User not found' });
+      return;
+    }
+
+    if (await twoFactorService.isRequiredForRole(user.role)) {
+      res.status(403).json({ error: 'Two-factor authentication is required for your role' });
+      return;
+    }
+
+    if (!(await comparePassword(password, user.password))) {
+      res.status(401).json({ error: 'Password is incorrect' });
+      return;
+    }
+
+    if (!(await twoFactorService.verify(user.id, { code, recoveryCode }))) {
+      res.status(401).json({ error: 'Invalid two-factor code' });
+      return;
+    }
+
+    await twoFactorService.disable(user.id);
+
+    res.json({ message: 'Two-factor authentication disabled' });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to disable two-factor authentication' });
+  }
+};
+
+// Replace recovery codes (requires a current code)
+export const regenerateRecoveryCodes = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Not authenticated' });
+      return;
+    }
+
+    const { code } = req.body;
+    if (!code) {
+      res.status(400).json({ error: 'Code is required' });
+      return;
+    }
+
+    if (!(await twoFactorService.verify(req.user.userId, { code }))) {
+      res.status(401).json({ error: 'Invalid two-factor code' });
+      return;
+    }
+
+    const recoveryCodes = await twoFactorService.regenerateRecoveryCodes(req.user.userId);
+
+    res.json({ recoveryCodes });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to regenerate recovery codes' });
+  }
+};
+
+// Get roles that must use 2FA
+export const getTwoFactorPolicy = async (_req: Request, res: Response): Promise<void> => {
+  try {
+    res.json({
+      requiredRoles: await twoFactorService.getRequiredRoles(),
+      availableRoles: TWO_FACTOR_ENFORCEABLE_ROLES,
+    });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to get two-factor policy' });
+  }
+};
+
+// Set roles that must use 2FA
+export const updateTwoFactorPolicy = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { requiredRoles } = req.body;
+
+    if (!Array.isArray(requiredRoles)) {
+      res.status(400).json({ error: 'requiredRoles must be an array' });
+      return;
+    }
+
+    const invalid = requiredRoles.filter(
+      (role: string) => !TWO_FACTOR_ENFORCEABLE_ROLES.includes(role as UserRole)
+    );
+    if (invalid.length > 0) {
+      res.status(400).json({ error: `Invalid roles: ${invalid.join(', ')}` });
+      return;
+    }
+
+    const saved = await twoFactorService.setRequiredRoles(requiredRoles as UserRole[]);
+
+    res.json({ message: 'Two-factor policy updated', requiredRoles: saved });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to update two-factor policy' });
+  }
+};
+
+// Reset another user's 2FA (lost device). The user must enroll again at next login if required.
+export const resetUserTwoFactor = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = req.params.userId as string;
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true },
+    });
+
+    if (!user) {
+      res.status(404).json({ error: 'User not found' });
+      return;
+    }
+
+    await twoFactorService.disable(userId);
+    await sessionService.revokeAllForUser(userId, 'ADMIN_FORCE_LOGOUT', { revokedById: req.user?.userId });
+
+    res.json({ message: 'Two-factor authentication reset' });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to reset two-factor authentication' });
+  }
+};
@@ -0,0 +1,202 @@
+import { Request, Response } from 'express';
+import { prisma } from '../config/database.js';
+import { createJTLServiceForClient } from '../services/integrations/jtl.service.js';
+import { warehouseService, WarehouseInput } from '../services/warehouse.service.js';
+
+// Client whose warehouses are managed: the caller's own client, or clientId for staff
+const getWarehouseClientId = (req: Request): string | undefined => {
+  if (req.user?.role === 'CLIENT') return req.user.clientId;
+  return (req.query.clientId as string) || req.body?.clientId;
+};
+
+// Load a warehouse the caller may see (client users only see their own)
+const findOwnWarehouse = async (req: Request) => {
+  const warehouse = await warehouseService.findWarehouse(req.params.id as string);
+  if (!warehouse || (req.user?.role === 'CLIENT' && warehouse.clientId !== req.user.clientId)) {
+    return null;
+  }
+  return warehouse;
+};
+
+// Load an order the caller may see (client users only see their own)
+const findOwnOrder = async (req: Request) => {
+  const order = await prisma.order.findUnique({
+    where: { id: req.params.orderId as string },
+    select: { id: true, clientId: true, orderNumber: true, jtlOutboundId: true },
+  });
+  if (!order || (req.user?.role === 'CLIENT' && order.clientId !== req.user.clientId)) {
+    return null;
+  }
+  return order;
+};
+
+// Get a client's warehouses in routing order
+export const getWarehouses = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const clientId = getWarehouseClientId(req);
+    if (!clientId) {
+      res.status(400).json({ success: false, error: 'clientId is required' });
+      return;
+    }
+
+    const warehouses = await warehouseService.listWarehouses(clientId);
+
+    res.json({ success: true, data: warehouses });
+  } catch (error) {
+    console.error('Error fetching warehouses:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch warehouses' });
+  }
+};
+
+// Register the warehouses of the client's FFN fulfillers
+export const discoverWarehouses = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const clientId = getWarehouseClientId(req);
+    if (!clientId) {
+      res.status(400).json({ success: false, error: 'clientId is required' });
+      return;
+    }
+
+    const jtlService = await createJTLServiceForClient(prisma, clientId);
+    if (!jtlService) {
+      res.status(400).json({ success: false, error: 'JTL FFN is not configured for this client' });
+      return;
+    }
+
+    const result = await warehouseService.discoverWarehouses(clientId, jtlService);
+
+    res.json({ success: true, data: result });
+  } catch (error) {
+    console.error('Error discovering warehouses:', error);
+    res.status(500).json({ success: false, error: 'Failed to discover warehouses' });
+  }
+};
+
+// Update name, active flag, priority or served countries
+export const updateWarehouse = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const warehouse = await findOwnWarehouse(req);
+    if (!warehouse) {
+      res.status(404).json({ success: false, error: 'Warehouse not found' });
+      return;
+    }
+
+    const input = req.body as WarehouseInput;
+    const validationError = warehouseService.validateWarehouse(input);
+    if (validationError) {
+      res.status(400).json({ success: false, error: validationError });
+      return;
+    }
+
+    const updated = await warehouseService.updateWarehouse(warehouse.id, input);
+
+    res.json({ success: true, data: updated });
+  } catch (error) {
+    console.error('Error updating warehouse:', error);
+    res.status(500).json({ success: false, error: 'Failed to update warehouse' });
+  }
+};
+
+// Remove a warehouse and its stock. Orders already routed there keep their warehouse.
+export const deleteWarehouse = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const warehouse = await findOwnWarehouse(req);
+    if (!warehouse) {
+      res.status(404).json({ success: false, error: 'Warehouse not found' });
+      return;
+    }
+
+    await warehouseService.deleteWarehouse(warehouse.id);
+
+    res.json({ success: true, message: 'Warehouse removed' });
+  } catch (error: any) {
+    if (error.message?.includes('cannot be removed')) {
+      res.status(400).json({ success: false, error: error.message });
+      return;
+    }
+    console.error('Error deleting warehouse:', error);
+    res.status(500).json({ success: false, error: 'Failed to delete warehouse' });
+  }
+};
+
+// Get a product's stock per warehouse
+export const getProductWarehouseStock = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const product = await prisma.product.findUnique({
+      where: { id: req.params.productId as string },
+      select: { id: true, clientId: true, sku: true, name: true, available: true, reserved: true, announced: true },
+    });
+    if (!product || (req.user?.role === 'CLIENT' && product.clientId !== req.user.clientId)) {
+      res.status(404).json({ success: false, error: 'Product not found' });
+      return;
+    }
+
+    const warehouses = await warehouseService.getProductStock(product.id);
+
+    res.json({ success: true, data: { product, warehouses } });
+  } catch (error) {
+    console.error('Error fetching warehouse stock:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch warehouse stock' });
+  }
+};
+
+// Show which warehouse an order would be routed to right now, without changing it
+export const previewOrderRouting = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const order = await findOwnOrder(req);
+    if (!order) {
+      res.status(404).json({ success: false, error: 'Order not found' });
+      return;
+    }
+
+    const route = await warehouseService.routeOrder(order.id, { dryRun: true });
+
+    res.json({ success: true, data: route });
+  } catch (error) {
+    console.error('Error previewing order routing:', error);
+    res.status(500).json({ success: false, error: 'Failed to preview order routing' });
+  }
+};
+
+// Set the warehouse of an order that is not in FFN yet, or clear it (null) to route it automatically
+export const setOrderWarehouse = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const order = await findOwnOrder(req);
+    if (!order) {
+      res.status(404).json({ success: false, error: 'Order not found' });
+      return;
+    }
+
+    if (order.jtlOutboundId) {
+      res.status(400).json({ success: false, error: 'Order is already in FFN - cancel the outbound before changing its warehouse' });
+      return;
+    }
+
+    const { warehouseId } = req.body;
+    if (warehouseId !== null && typeof warehouseId !== 'string') {
+      res.status(400).json({ success: false, error: 'warehouseId must be an FFN warehouse ID or null' });
+      return;
+    }
+
+    if (warehouseId) {
+      const [warehouse, jtlConfig] = await Promise.all([
+        prisma.jtlWarehouse.findUnique({
+          where: { clientId_warehouseId: { clientId: order.clientId, warehouseId } },
+          select: { id: true },
+        }),
+        prisma.jtlConfig.findUnique({ where: { clientId_fk: order.clientId }, select: { warehouseId: true } }),
+      ]);
+      if (!warehouse && jtlConfig?.warehouseId !== warehouseId) {
+        res.status(400).json({ success: false, error: `Warehouse ${warehouseId} is not configured for this client` });
+        return;
+      }
+    }
+
+    const updated = await warehouseService.setOrderWarehouse(order.id, warehouseId, req.user?.email);
+
+    res.json({ success: true, data: updated });
+  } catch (error) {
+    console.error('Error setting order warehouse:', error);
+    res.status(500).json({ success: false, error: 'Failed to set order warehouse' });
+  }
+};
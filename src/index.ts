@@ -14,9 +14,14 @@ import routes, {
   stopSyncScheduler
 } from './routes/index.js';
 import { initializeSocket } from './services/socket.js';
+import { apiRateLimit } from './middleware/rate-limit.js';
+import { captureRawBody } from './middleware/raw-body.js';
 
 const app = express();
 
+// Client IPs (rate limits, audit log) come from X-Forwarded-For only for trusted proxies
+app.set('trust proxy', env.trustProxy);
+
 // CORS configuration - Allow multiple origins
 const allowedOrigins = env.frontendUrl.split(',').map(url => url.trim());
 const corsOptions: CorsOptions = {
@@ -32,8 +37,16 @@ const corsOptions: CorsOptions = {
   },
   credentials: true,
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization'],
-  exposedHeaders: ['Content-Range', 'X-Content-Range'],
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-API-Key'],
+  exposedHeaders: [
+    'Content-Range',
+    'X-Content-Range',
+    'RateLimit-Policy',
+    'RateLimit-Limit',
+    'RateLimit-Remaining',
+    'RateLimit-Reset',
+    'Retry-After',
+  ],
   maxAge: 600 // Cache preflight for 10 minutes
 };
 app.use(helmet());
@@ -46,7 +59,9 @@ app.use((req, res, next) => {
 });
 
 app.use(morgan('dev'));
-app.use(express.json());
+// Packing list imports carry the file in the body (XLSX base64-encoded)
+app.use('/api/data/inbounds/import', express.json({ limit: '20mb' }));
+app.use(express.json({ verify: captureRawBody }));
 app.use(express.urlencoded({ extended: true }));
 app.use(cookieParser());
 
@@ -82,8 +97,8 @@ const initQueue = async () => {
   }
 };
 
-// Routes
-app.use('/api', routes);
+// Routes (rate limited per user, client, API key or IP)
+app.use('/api', apiRateLimit, routes);
 
 // Root endpoint
 app.get('/', (_req: Request, res: Response) => {
@@ -0,0 +1,93 @@
+import { Request, Response, NextFunction } from 'express';
+import { auditService, AuditEntityType } from '../services/audit.service.js';
+
+interface AuditOptions {
+  // e.g. "UPDATE_ORDER", "HOLD_ORDER", "DELETE_PRODUCT"
+  action: string;
+  entityType: AuditEntityType;
+  // Where to find the affected entity ID(s). Defaults to the first route param.
+  // Creates leave this empty; the ID is then taken from the response body (data.id).
+  entityIds?: (req: Request) => string | string[] | undefined;
+  // Where a create route reports the new ID, when it isn't data.id
+  createdId?: (body: any) => string | undefined;
+  // Set to false for actions that trigger jobs instead of editing a record
+  snapshot?: boolean;
+}
+
+// Client IP. X-Forwarded-For is only honoured for the proxies configured in
+// TRUST_PROXY (Express `trust proxy`), so clients cannot choose their own IP.
+export const getClientIp = (req: Request): string | null => {
+  return req.ip || req.socket?.remoteAddress || null;
+};
+
+const toIdList = (value: string | string[] | undefined): string[] => {
+  if (!value) return [];
+  return (Array.isArray(value) ? value : [value]).filter(id => typeof id === 'string' && id.length > 0);
+};
+
+// Record an AuditLog entry with before/after snapshots for a mutating route.
+// Must run after `authenticate` so the acting user is known.
+export const audit = (options: AuditOptions) => {
+  const { action, entityType, entityIds, createdId, snapshot = true } = options;
+
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const firstParam = Object.values(req.params)[0];
+    const ids = toIdList(entityIds ? entityIds(req) : firstParam);
+
+    // Snapshot before the handler runs
+    const before = new Map<string, unknown>();
+    if (snapshot) {
+      for (const id of ids) {
+        before.set(id, await auditService.loadSnapshot(entityType, id));
+      }
+    }
+
+    // Capture the response body so creates can report the new entity ID
+    let responseBody: any;
+    const originalJson = res.json.bind(res);
+    res.json = (body: any) => {
+      responseBody = body;
+      return originalJson(body);
+    };
+
+    res.on('finish', () => {
+      // Only successful mutations are audited
+      if (res.statusCode >= 400) return;
+      if (responseBody && responseBody.success === false) return;
+
+      const newId = createdId ? createdId(responseBody) : responseBody?.data?.id;
+      const affectedIds = ids.length > 0 ? ids : toIdList(newId);
+      const context = {
+        userId: req.user?.userId ?? null,
+        ipAddress: getClientIp(req),
+        userAgent: req.headers['user-agent'] ?? null,
+      };
+
+      void (async () => {
+        if (affectedIds.length === 0) {
+          await auditService.record({
+            action,
+            entityType,
+            newValue: snapshot ? undefined : { params: req.params, body: req.body },
+            ...context,
+          });
+          return;
+        }
+
+        for (const id of affectedIds) {
+          const after = snapshot ? await auditService.loadSnapshot(entityType, id) : undefined;
+          await auditService.record({
+            action,
+            entityType,
+            entityId: id,
+            oldValue: before.get(id),
+            newValue: snapshot ? after : { params: req.params, body: req.body },
+            ...context,
+          });
+        }
+      })();
+    });
+
+    next();
+  };
+};
@@ -1,17 +1,62 @@
 import { Request, Response, NextFunction } from 'express';
 import { verifyAccessToken, TokenPayload } from '../utils/auth.js';
-import { UserRole } from '@prisma/client';
+import { UserRole, ClientTeamRole } from '@prisma/client';
 import { prisma } from '../config/database.js';
+import { sessionService } from '../services/session.service.js';
+import { clientTeamService } from '../services/client-team.service.js';
+import { apiKeyService } from '../services/api-key.service.js';
+import { getClientIp } from './audit.js';
 
 // Extend Express Request type
 declare global {
   namespace Express {
     interface Request {
       user?: TokenPayload;
+      // Set when the request authenticated with an API key instead of a JWT
+      apiKey?: { id: string; prefix: string; scopes: string[] };
     }
   }
 }
 
+// Authenticate a request carrying an API key (X-API-Key header or Bearer nl_...).
+// The key acts as its client with operations access, limited to its scopes.
+const authenticateApiKey = async (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+  key: string
+): Promise<void> => {
+  const apiKey = await apiKeyService.verify(key, getClientIp(req));
+
+  if (!apiKey || !apiKey.client.isActive || !apiKey.client.user.isActive) {
+    res.status(401).json({ error: 'Invalid, expired or revoked API key' });
+    return;
+  }
+
+  const requiredScope = apiKeyService.requiredScope(req.method, req.originalUrl);
+  if (!requiredScope) {
+    res.status(403).json({ error: 'This endpoint cannot be accessed with an API key' });
+    return;
+  }
+
+  if (!apiKey.scopes.includes(requiredScope)) {
+    res.status(403).json({ error: `API key is missing the required scope: ${requiredScope}` });
+    return;
+  }
+
+  req.user = {
+    userId: apiKey.client.user.id,
+    email: apiKey.client.user.email,
+    role: 'CLIENT',
+    clientId: apiKey.client.id,
+    clientRole: 'CLIENT_STAFF',
+  };
+  req.apiKey = { id: apiKey.id, prefix: apiKey.prefix, scopes: apiKey.scopes };
+  (req as any).userId = apiKey.client.user.id;
+
+  next();
+};
+
 // Authenticate user middleware
 export const authenticate = async (
   req: Request,
@@ -25,6 +70,14 @@ export const authenticate = async (
       ? authHeader.substring(7)
       : req.cookies?.accessToken;
 
+    // API keys are accepted as an alternative to JWTs
+    const apiKeyHeader = req.headers['x-api-key'];
+    const apiKey = typeof apiKeyHeader === 'string' ? apiKeyHeader : token;
+    if (apiKeyService.isApiKey(apiKey)) {
+      await authenticateApiKey(req, res, next, apiKey);
+      return;
+    }
+
     if (!token) {
       res.status(401).json({ error: 'Authentication required' });
       return;
@@ -58,9 +111,14 @@ export const authenticate = async (
       return;
     }
 
-    // For CLIENT users, verify that the associated client record exists and is active
+    // For CLIENT users, resolve the client they own or are a team member of,
+    // and verify that it exists and is active
+    let clientRole: ClientTeamRole | undefined;
+    let clientId = user.client?.id;
     if (user.role === 'CLIENT') {
-      if (!user.client) {
+      const membership = await clientTeamService.resolveMembership(user.id);
+
+      if (!membership) {
         // Client record doesn't exist
         res.clearCookie('accessToken');
         res.clearCookie('refreshToken');
@@ -68,13 +126,25 @@ export const authenticate = async (
         return;
       }
 
-      if (!user.client.isActive) {
+      if (!membership.client.isActive) {
         // Client is deactivated
         res.clearCookie('accessToken');
         res.clearCookie('refreshToken');
         res.status(401).json({ error: 'Client account has been deactivated. Please contact support.' });
         return;
       }
+
+      clientId = membership.client.id;
+      clientRole = membership.role;
+    }
+
+    // Tokens must belong to a live server-side session (logout, force logout and
+    // refresh-token reuse all revoke the session)
+    if (!payload.sessionId || !(await sessionService.isActive(payload.sessionId, user.id))) {
+      res.clearCookie('accessToken');
+      res.clearCookie('refreshToken');
+      res.status(401).json({ error: 'Session has expired or been revoked. Please log in again.' });
+      return;
     }
 
     // Enrich the payload with the current clientId from database
@@ -82,7 +152,8 @@ export const authenticate = async (
     // or if the clientId in token is stale, we use the current database state
     const enrichedPayload = {
       ...payload,
-      clientId: user.client?.id || payload.clientId,
+      clientId: clientId || payload.clientId,
+      clientRole,
     };
 
     req.user = enrichedPayload;
@@ -94,15 +165,23 @@ export const authenticate = async (
   }
 };
 
-// Authorize by role middleware
-export const authorize = (...roles: UserRole[]) => {
+// Authorize by role middleware.
+// CLIENT users pass when 'CLIENT' is listed (any team member) or when their
+// client team role (CLIENT_OWNER, CLIENT_STAFF, CLIENT_FINANCE) is listed.
+export type AuthorizedRole = UserRole | ClientTeamRole;
+
+const hasRole = (user: TokenPayload, roles: AuthorizedRole[]): boolean =>
+  roles.includes(user.role) ||
+  (user.role === 'CLIENT' && !!user.clientRole && roles.includes(user.clientRole));
+
+export const authorize = (...roles: AuthorizedRole[]) => {
   return (req: Request, res: Response, next: NextFunction): void => {
     if (!req.user) {
       res.status(401).json({ error: 'Authentication required' });
       return;
     }
 
-    if (!roles.includes(req.user.role)) {
+    if (!hasRole(req.user, roles)) {
       res.status(403).json({ error: 'Insufficient permissions' });
       return;
     }
@@ -111,9 +190,29 @@ export const authorize = (...roles: UserRole[]) => {
   };
 };
 
+// Like authorize, but only for mutating requests (reads stay open to every authenticated user)
+export const authorizeWrite = (...roles: AuthorizedRole[]) => {
+  const check = authorize(...roles);
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (req.method === 'GET' || req.method === 'HEAD' || req.method === 'OPTIONS') {
+      next();
+      return;
+    }
+    check(req, res, next);
+  };
+};
+
 // Role-specific middleware helpers
 export const requireSuperAdmin = authorize('SUPER_ADMIN');
 export const requireAdmin = authorize('SUPER_ADMIN', 'ADMIN');
 export const requireEmployee = authorize('SUPER_ADMIN', 'ADMIN', 'EMPLOYEE');
 export const requireClient = authorize('CLIENT');
 export const requireAnyRole = authorize('SUPER_ADMIN', 'ADMIN', 'EMPLOYEE', 'CLIENT');
+export const requireClientOwner = authorize('CLIENT_OWNER');
+export const requireAdminOrClientOwner = authorize('SUPER_ADMIN', 'ADMIN', 'CLIENT_OWNER');
+
+// Client team permissions: finance members are read-only on operational data,
+// only owners manage channels, credentials and shipping configuration
+export const requireOperationsWrite = authorizeWrite('SUPER_ADMIN', 'ADMIN', 'EMPLOYEE', 'CLIENT_OWNER', 'CLIENT_STAFF');
+export const requireChannelManager = authorize('SUPER_ADMIN', 'ADMIN', 'EMPLOYEE', 'CLIENT_OWNER');
+export const requireBillingAccess = authorize('SUPER_ADMIN', 'ADMIN', 'EMPLOYEE', 'CLIENT_OWNER', 'CLIENT_FINANCE');
@@ -0,0 +1,127 @@
+import { Request, Response, NextFunction } from 'express';
+import { env } from '../config/env.js';
+import { verifyAccessToken } from '../utils/auth.js';
+import { apiKeyService } from '../services/api-key.service.js';
+import { rateLimitService, RateLimitRule, RateLimitResult } from '../services/rate-limit.service.js';
+import { getClientIp } from './audit.js';
+
+interface RateLimitPolicy {
+  // Bucket namespace, e.g. "api", "sync"
+  name: string;
+  // Budget per caller (API key, user, or IP for anonymous requests)
+  identity: RateLimitRule;
+  // Shared budget of all callers of one client
+  client?: RateLimitRule;
+  skip?: (req: Request) => boolean;
+}
+
+interface Caller {
+  identity: string;
+  clientId?: string;
+}
+
+// Who is calling. Runs before `authenticate`, so tokens are only checked for their signature.
+// API keys get their own budget only once verified - otherwise a random key per request
+// would open a fresh bucket each time.
+const identifyCaller = async (req: Request): Promise<Caller> => {
+  if (req.apiKey && req.user) {
+    return { identity: `apikey:${req.apiKey.id}`, clientId: req.user.clientId };
+  }
+  if (req.user) {
+    return { identity: `user:${req.user.userId}`, clientId: req.user.clientId };
+  }
+
+  const authHeader = req.headers.authorization;
+  const bearer = authHeader?.startsWith('Bearer ') ? authHeader.substring(7) : undefined;
+  const apiKeyHeader = req.headers['x-api-key'];
+  const apiKey = typeof apiKeyHeader === 'string' ? apiKeyHeader : bearer;
+
+  if (apiKeyService.isApiKey(apiKey)) {
+    const verified = await apiKeyService.verify(apiKey, getClientIp(req));
+    if (verified) return { identity: `apikey:${verified.id}`, clientId: verified.clientId };
+  } else {
+    const token = bearer || req.cookies?.accessToken;
+    if (token) {
+      try {
+        const payload = verifyAccessToken(token);
+        return { identity: `user:${payload.userId}`, clientId: payload.clientId };
+      } catch {
+        // Fall through to IP
+      }
+    }
+  }
+
+  return { identity: `ip:${getClientIp(req) ?? 'unknown'}` };
+};
+
+const setHeaders = (res: Response, result: RateLimitResult, rule: RateLimitRule): void => {
+  res.setHeader('RateLimit-Policy', `${rule.capacity};w=${rule.windowSeconds}`);
+  res.setHeader('RateLimit-Limit', String(result.limit));
+  res.setHeader('RateLimit-Remaining', String(result.remaining));
+  res.setHeader('RateLimit-Reset', String(result.resetSeconds));
+};
+
+// Token-bucket rate limiting. Sets RateLimit-* headers and answers 429 when a budget is used up.
+// Fails open: if the state store is unavailable the request is let through.
+export const rateLimit = (policy: RateLimitPolicy) => {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    if (!env.rateLimitEnabled || policy.skip?.(req)) {
+      next();
+      return;
+    }
+
+    try {
+      const caller = await identifyCaller(req);
+      const checks: Array<{ key: string; rule: RateLimitRule }> = [
+        { key: `${policy.name}:${caller.identity}`, rule: policy.identity },
+      ];
+      if (policy.client && caller.clientId) {
+        checks.push({ key: `${policy.name}:client:${caller.clientId}`, rule: policy.client });
+      }
+
+      const results = await Promise.all(
+        checks.map(async check => ({ ...check, result: await rateLimitService.consume(check.key, check.rule) }))
+      );
+
+      // Report the most restrictive budget
+      const denied = results.find(r => !r.result.allowed);
+      const reported = denied ?? results.reduce((min, r) => (r.result.remaining < min.result.remaining ? r : min));
+      setHeaders(res, reported.result, reported.rule);
+
+      if (denied) {
+        res.setHeader('Retry-After', String(denied.result.retryAfterSeconds));
+        res.status(429).json({
+          success: false,
+          error: 'Too many requests. Please slow down.',
+          retryAfter: denied.result.retryAfterSeconds,
+        });
+        return;
+      }
+    } catch (error) {
+      console.error(`[RateLimit] ${policy.name} check failed, allowing request:`, error);
+    }
+
+    next();
+  };
+};
+
+// General budget for all API routes. Incoming platform webhooks are not limited.
+export const apiRateLimit = rateLimit({
+  name: 'api',
+  identity: { capacity: 300, windowSeconds: 60 },
+  client: { capacity: 600, windowSeconds: 60 },
+  skip: (req) => req.originalUrl.startsWith('/api/integrations/webhooks'),
+});
+
+// Login, password reset and 2FA steps (mostly anonymous, so keyed by IP)
+export const authRateLimit = rateLimit({
+  name: 'auth',
+  identity: { capacity: 20, windowSeconds: 5 * 60 },
+});
+
+// Routes that trigger syncs, polls or full imports
+export const syncRateLimit = rateLimit({
+  name: 'sync',
+  identity: { capacity: 10, windowSeconds: 10 * 60 },
+  client: { capacity: 20, windowSeconds: 10 * 60 },
+});
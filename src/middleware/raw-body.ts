@@ -0,0 +1,15 @@
+import { IncomingMessage, ServerResponse } from 'http';
+
+declare global {
+  namespace Express {
+    interface Request {
+      // Unparsed request body, kept for webhook signature checks and the webhook inbox
+      rawBody?: Buffer;
+    }
+  }
+}
+
+// `verify` hook for express.json(): keeps the exact bytes the sender signed
+export const captureRawBody = (req: IncomingMessage, _res: ServerResponse, buf: Buffer): void => {
+  (req as IncomingMessage & { rawBody?: Buffer }).rawBody = buf;
+};
@@ -0,0 +1,37 @@
+import { Router } from 'express';
+import {
+  getApiKeyScopes,
+  getApiKeys,
+  createApiKey,
+  revokeApiKey,
+} from '../controllers/api-keys.controller.js';
+import { authenticate, requireAdminOrClientOwner } from '../middleware/auth.js';
+import { audit } from '../middleware/audit.js';
+
+const router = Router();
+
+// Admins manage keys of any client, client owners their own
+router.use(authenticate);
+router.use(requireAdminOrClientOwner);
+
+// GET /api/api-keys/scopes - Get available scopes
+router.get('/scopes', getApiKeyScopes);
+
+// GET /api/api-keys - Get API keys
+router.get('/', getApiKeys);
+
+// POST /api/api-keys - Create API key
+router.post(
+  '/',
+  audit({ action: 'CREATE_API_KEY', entityType: 'ApiKey', snapshot: false }),
+  createApiKey
+);
+
+// DELETE /api/api-keys/:id - Revoke API key
+router.delete(
+  '/:id',
+  audit({ action: 'REVOKE_API_KEY', entityType: 'ApiKey', snapshot: false }),
+  revokeApiKey
+);
+
+export default router;
@@ -0,0 +1,30 @@
+/**
+ * Audit Routes
+ *
+ * Read-only API over the persistent audit trail (admins only).
+ */
+
+import { Router } from 'express';
+import { getAuditLogs, getEntityAuditHistory } from '../controllers/audit.controller.js';
+import { authenticate, requireAdmin } from '../middleware/auth.js';
+
+const router = Router();
+
+// All audit routes require authentication and admin role
+router.use(authenticate);
+router.use(requireAdmin);
+
+/**
+ * GET /api/audit
+ * Query: ?entityType=Order&entityId=xxx&action=UPDATE_ORDER&userId=xxx&field=shippingAddress1
+ *        &from=2025-01-01&to=2025-02-01&page=1&limit=50
+ */
+router.get('/', getAuditLogs);
+
+/**
+ * GET /api/audit/:entityType/:entityId
+ * Change history of one entity, e.g. /api/audit/Order/clx123?field=shippingAddress1
+ */
+router.get('/:entityType/:entityId', getEntityAuditHistory);
+
+export default router;
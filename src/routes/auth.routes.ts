@@ -6,19 +6,96 @@ import {
   refreshToken,
   getCurrentUser,
   changePassword,
+  forgotPassword,
+  resetPassword,
+  verifyEmail,
+  resendVerificationEmail,
+  getSessions,
+  revokeSession,
+  revokeOtherSessions,
+  getUserSessions,
+  forceLogoutUser,
+  loginWithTwoFactor,
+  loginTwoFactorSetup,
+  loginTwoFactorEnable,
 } from '../controllers/auth.controller.js';
-import { authenticate, requireSuperAdmin } from '../middleware/auth.js';
+import {
+  getTwoFactorStatus,
+  setupTwoFactor,
+  enableTwoFactor,
+  disableTwoFactor,
+  regenerateRecoveryCodes,
+  getTwoFactorPolicy,
+  updateTwoFactorPolicy,
+  resetUserTwoFactor,
+} from '../controllers/two-factor.controller.js';
+import { authenticate, requireSuperAdmin, requireAdmin } from '../middleware/auth.js';
+import { audit } from '../middleware/audit.js';
+import { authRateLimit } from '../middleware/rate-limit.js';
 
 const router = Router();
 
 // Public routes
-router.post('/login', login);
+router.post('/login', authRateLimit, login);
+router.post('/login/2fa', authRateLimit, loginWithTwoFactor);
+router.post('/login/2fa/setup', authRateLimit, loginTwoFactorSetup);
+router.post('/login/2fa/enable', authRateLimit, loginTwoFactorEnable);
 router.post('/refresh', refreshToken);
+router.post('/forgot-password', authRateLimit, forgotPassword);
+router.post('/reset-password', authRateLimit, resetPassword);
+router.post('/verify-email', authRateLimit, verifyEmail);
 
 // Protected routes (require authentication)
 router.post('/logout', authenticate, logout);
 router.get('/me', authenticate, getCurrentUser);
 router.post('/change-password', authenticate, changePassword);
+router.post('/resend-verification', authenticate, resendVerificationEmail);
+
+// Session management (own sessions)
+router.get('/sessions', authenticate, getSessions);
+router.post('/sessions/revoke-others', authenticate, revokeOtherSessions);
+router.delete('/sessions/:sessionId', authenticate, revokeSession);
+
+// Two-factor authentication (own account)
+router.get('/2fa', authenticate, getTwoFactorStatus);
+router.post('/2fa/setup', authenticate, setupTwoFactor);
+router.post('/2fa/enable', authenticate, enableTwoFactor);
+router.post('/2fa/disable', authenticate, disableTwoFactor);
+router.post('/2fa/recovery-codes', authenticate, regenerateRecoveryCodes);
+
+// Two-factor enforcement policy (SUPER_ADMIN only)
+router.get('/2fa/policy', authenticate, requireSuperAdmin, getTwoFactorPolicy);
+router.put(
+  '/2fa/policy',
+  authenticate,
+  requireSuperAdmin,
+  audit({ action: 'UPDATE_TWO_FACTOR_POLICY', entityType: 'User', snapshot: false }),
+  updateTwoFactorPolicy
+);
+router.post(
+  '/users/:userId/2fa/reset',
+  authenticate,
+  requireSuperAdmin,
+  audit({ action: 'RESET_USER_TWO_FACTOR', entityType: 'User', snapshot: false }),
+  resetUserTwoFactor
+);
+
+// Admin session management (force logout)
+router.get('/users/:userId/sessions', authenticate, requireAdmin, getUserSessions);
+router.delete(
+  '/users/:userId/sessions',
+  authenticate,
+  requireAdmin,
+  audit({ action: 'FORCE_LOGOUT_USER', entityType: 'User', snapshot: false }),
+  forceLogoutUser
+);
+router.delete(
+  '/users/:userId/sessions/:sessionId',
+  authenticate,
+  requireAdmin,
+  audit({ action: 'FORCE_LOGOUT_SESSION', entityType: 'User', snapshot: false }),
+  forceLogoutUser
+);
 
 // Admin-only routes (only SUPER_ADMIN can create new users)
 router.post('/register', requireSuperAdmin, register);
@@ -0,0 +1,36 @@
+import { Router } from 'express';
+import {
+  getBackorders,
+  getBackorderSettings,
+  updateBackorderSettings,
+  releaseBackorders,
+  getBackorderClientId,
+} from '../controllers/backorders.controller.js';
+import { authenticate, requireAnyRole, requireAdminOrClientOwner, requireEmployee } from '../middleware/auth.js';
+import { audit } from '../middleware/audit.js';
+
+const router = Router();
+
+// Every user may see the backorders of their own client; the backorder mode is set by
+// admins or the client owner
+router.use(authenticate);
+router.use(requireAnyRole);
+
+// GET /api/backorders - Get parked orders with their shortages
+router.get('/', getBackorders);
+
+// GET /api/backorders/settings - Get the client's backorder mode
+router.get('/settings', getBackorderSettings);
+
+// PUT /api/backorders/settings - Set the client's backorder mode
+router.put(
+  '/settings',
+  requireAdminOrClientOwner,
+  audit({ action: 'UPDATE_BACKORDER_MODE', entityType: 'Client', entityIds: getBackorderClientId }),
+  updateBackorderSettings
+);
+
+// POST /api/backorders/release - Release the backorders the current stock covers
+router.post('/release', requireEmployee, releaseBackorders);
+
+export default router;
@@ -0,0 +1,47 @@
+import { Router } from 'express';
+import {
+  getChannelStockRules,
+  getChannelStockPreview,
+  setChannelStockRule,
+  deleteChannelStockRule,
+} from '../controllers/channel-stock-rules.controller.js';
+import { authenticate, requireAnyRole, requireChannelManager } from '../middleware/auth.js';
+import { audit } from '../middleware/audit.js';
+
+const router = Router();
+
+// Every user may see the stock rules of their own channels; changing them needs channel management rights
+router.use(authenticate);
+router.use(requireAnyRole);
+
+// GET /api/channel-stock-rules/channels/:channelId - Get a channel's stock rules
+router.get('/channels/:channelId', getChannelStockRules);
+
+// GET /api/channel-stock-rules/channels/:channelId/preview - Get published quantities per product
+router.get('/channels/:channelId/preview', getChannelStockPreview);
+
+// PUT /api/channel-stock-rules/channels/:channelId - Set the channel's default stock rule
+router.put(
+  '/channels/:channelId',
+  requireChannelManager,
+  audit({ action: 'SET_CHANNEL_STOCK_RULE', entityType: 'ChannelStockRule', snapshot: false }),
+  setChannelStockRule
+);
+
+// PUT /api/channel-stock-rules/channels/:channelId/products/:productId - Set a product's stock rule on the channel
+router.put(
+  '/channels/:channelId/products/:productId',
+  requireChannelManager,
+  audit({ action: 'SET_CHANNEL_STOCK_RULE', entityType: 'ChannelStockRule', snapshot: false }),
+  setChannelStockRule
+);
+
+// DELETE /api/channel-stock-rules/:id - Remove a stock rule
+router.delete(
+  '/:id',
+  requireChannelManager,
+  audit({ action: 'DELETE_CHANNEL_STOCK_RULE', entityType: 'ChannelStockRule' }),
+  deleteChannelStockRule
+);
+
+export default router;
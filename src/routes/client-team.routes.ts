@@ -0,0 +1,62 @@
+import { Router, Request } from 'express';
+import {
+  getTeamMembers,
+  getTeamInvitations,
+  inviteTeamMember,
+  revokeTeamInvitation,
+  updateTeamMember,
+  removeTeamMember,
+  acceptTeamInvitation,
+} from '../controllers/client-team.controller.js';
+import { authenticate, requireAdminOrClientOwner } from '../middleware/auth.js';
+import { audit } from '../middleware/audit.js';
+import { authRateLimit } from '../middleware/rate-limit.js';
+
+const router = Router();
+
+// Team changes are recorded against the client
+const teamClientId = (req: Request) =>
+  req.user?.role === 'CLIENT' ? req.user.clientId : ((req.query.clientId as string) || req.body?.clientId);
+
+// POST /api/team/invitations/accept - Accept an invitation (public, creates the account)
+router.post('/invitations/accept', authRateLimit, acceptTeamInvitation);
+
+// All other team routes: client owners manage their own team, admins pass ?clientId=
+router.use(authenticate);
+router.use(requireAdminOrClientOwner);
+
+// GET /api/team/members - Get team members
+router.get('/members', getTeamMembers);
+
+// PATCH /api/team/members/:memberId - Change a member's role
+router.patch(
+  '/members/:memberId',
+  audit({ action: 'UPDATE_TEAM_MEMBER', entityType: 'Client', entityIds: teamClientId, snapshot: false }),
+  updateTeamMember
+);
+
+// DELETE /api/team/members/:memberId - Remove a member
+router.delete(
+  '/members/:memberId',
+  audit({ action: 'REMOVE_TEAM_MEMBER', entityType: 'Client', entityIds: teamClientId, snapshot: false }),
+  removeTeamMember
+);
+
+// GET /api/team/invitations - Get pending invitations
+router.get('/invitations', getTeamInvitations);
+
+// POST /api/team/invitations - Invite a user
+router.post(
+  '/invitations',
+  audit({ action: 'INVITE_TEAM_MEMBER', entityType: 'Client', entityIds: teamClientId, snapshot: false }),
+  inviteTeamMember
+);
+
+// DELETE /api/team/invitations/:invitationId - Revoke a pending invitation
+router.delete(
+  '/invitations/:invitationId',
+  audit({ action: 'REVOKE_TEAM_INVITATION', entityType: 'Client', entityIds: teamClientId, snapshot: false }),
+  revokeTeamInvitation
+);
+
+export default router;
@@ -8,6 +8,7 @@ import {
   deleteClient
 } from '../controllers/clients.controller.js';
 import { authenticate, requireAdmin } from '../middleware/auth.js';
+import { audit } from '../middleware/audit.js';
 
 const router = Router();
 
@@ -22,15 +23,15 @@ router.get('/', getClients);
 router.get('/stats', getClientStats);
 
 // POST /api/clients - Create new client
-router.post('/', createClient);
+router.post('/', audit({ action: 'CREATE_CLIENT', entityType: 'Client' }), createClient);
 
 // GET /api/clients/:id - Get client by ID
 router.get('/:id', getClientById);
 
 // PUT /api/clients/:id - Update client
-router.put('/:id', updateClient);
+router.put('/:id', audit({ action: 'UPDATE_CLIENT', entityType: 'Client' }), updateClient);
 
 // DELETE /api/clients/:id - Delete client
-router.delete('/:id', deleteClient);
+router.delete('/:id', audit({ action: 'DELETE_CLIENT', entityType: 'Client' }), deleteClient);
 
 export default router;
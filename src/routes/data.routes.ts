@@ -4,16 +4,25 @@
  */
 
 import { Router, Request, Response } from 'express';
+import { InboundDiscrepancyResolution, InboundDiscrepancyStatus, InboundDiscrepancyType } from '@prisma/client';
 import { prisma } from '../config/database.js';
-import { authenticate } from '../middleware/auth.js';
+import { authenticate, requireEmployee, requireOperationsWrite } from '../middleware/auth.js';
+import { audit } from '../middleware/audit.js';
 import { getQueue, QUEUE_NAMES } from '../services/queue/sync-queue.service.js';
 import { enrichProductWithPossibleQuantity } from '../utils/bundle-calculator.js';
 import { ProductSyncService } from '../services/integrations/index.js';
+import { InventoryAlertService } from '../services/inventory-alert.service.js';
+import { stockMovementService } from '../services/stock-movement.service.js';
+import { clientTeamService } from '../services/client-team.service.js';
+import { parseBestBefore } from '../services/lot.service.js';
+import { inboundImportService, AsnImportFile } from '../services/inbound-import.service.js';
+import { inboundService } from '../services/inbound.service.js';
 
 const router = Router();
 
 // All routes require authentication
 router.use(authenticate);
+router.use(requireOperationsWrite);
 
 /**
  * GET /api/data/products
@@ -25,10 +34,7 @@ router.get('/products', async (req: Request, res: Response) => {
     const { includeBundleDetails } = req.query;
 
     // Get user with client relation
-    const user = await prisma.user.findUnique({
-      where: { id: userId },
-      include: { client: true },
-    });
+    const user = await clientTeamService.findUserWithClient(userId);
 
     if (!user) {
       return res.status(404).json({
@@ -147,6 +153,52 @@ router.get('/products', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /api/data/products/reorder-report
+ * Products whose free stock is at or below their reorder point
+ * CLIENT users get their own products; admins/employees pass ?clientId=
+ */
+router.get('/products/reorder-report', async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).userId;
+
+    const user = await clientTeamService.findUserWithClient(userId);
+
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        error: 'User not found',
+      });
+    }
+
+    const clientId = user.role === 'CLIENT'
+      ? user.client?.id
+      : (req.query.clientId as string | undefined);
+
+    if (!clientId) {
+      return res.status(400).json({
+        success: false,
+        error: 'clientId is required',
+      });
+    }
+
+    const inventoryAlertService = new InventoryAlertService(prisma);
+    const report = await inventoryAlertService.getReorderReport(clientId);
+
+    res.json({
+      success: true,
+      data: report,
+      total: report.length,
+    });
+  } catch (error) {
+    console.error('Error building reorder report:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to build reorder report',
+    });
+  }
+});
+
 /**
  * GET /api/data/dashboard/chart
  * Fetch processed orders chart data (for admin dashboard)
@@ -158,10 +210,7 @@ router.get('/dashboard/chart', async (req: Request, res: Response) => {
     const { fromDate, toDate } = req.query;
 
     // Get user
-    const user = await prisma.user.findUnique({
-      where: { id: userId },
-      include: { client: true },
-    });
+    const user = await clientTeamService.findUserWithClient(userId);
 
     if (!user) {
       return res.status(404).json({
@@ -317,10 +366,7 @@ router.get('/dashboard/events', async (req: Request, res: Response) => {
     const { limit = 10 } = req.query;
 
     // Get user
-    const user = await prisma.user.findUnique({
-      where: { id: userId },
-      include: { client: true },
-    });
+    const user = await clientTeamService.findUserWithClient(userId);
 
     if (!user) {
       return res.status(404).json({
@@ -478,10 +524,7 @@ router.get('/dashboard/stats', async (req: Request, res: Response) => {
     const userId = (req as any).userId;
 
     // Get user with client relation
-    const user = await prisma.user.findUnique({
-      where: { id: userId },
-      include: { client: true },
-    });
+    const user = await clientTeamService.findUserWithClient(userId);
 
     if (!user) {
       return res.status(404).json({
@@ -580,10 +623,7 @@ router.get('/products/:id', async (req: Request, res: Response) => {
     const userId = (req as any).userId;
     const { id } = req.params;
 
-    const user = await prisma.user.findUnique({
-      where: { id: userId },
-      include: { client: true },
-    });
+    const user = await clientTeamService.findUserWithClient(userId);
 
     if (!user) {
       return res.status(404).json({
@@ -690,7 +730,7 @@ router.get('/products/:id', async (req: Request, res: Response) => {
  * POST /api/data/products
  * Create a new product and sync to JTL FFN
  */
-router.post('/products', async (req: Request, res: Response) => {
+router.post('/products', audit({ action: 'CREATE_PRODUCT', entityType: 'Product' }), async (req: Request, res: Response) => {
   try {
     const userId = (req as any).userId;
     const {
@@ -715,10 +755,7 @@ router.post('/products', async (req: Request, res: Response) => {
     } = req.body;
 
     // Get user with client relation
-    const user = await prisma.user.findUnique({
-      where: { id: userId },
-      include: { client: true },
-    });
+    const user = await clientTeamService.findUserWithClient(userId);
 
     if (!user) {
       return res.status(404).json({
@@ -847,7 +884,7 @@ router.post('/products', async (req: Request, res: Response) => {
  * PUT /api/data/products/:id/bundle
  * Full replacement of bundle configuration
  */
-router.put('/products/:id/bundle', async (req: Request, res: Response) => {
+router.put('/products/:id/bundle', audit({ action: 'UPDATE_PRODUCT_BUNDLE', entityType: 'Product' }), async (req: Request, res: Response) => {
   try {
     const userId = (req as any).userId;
     const { id } = req.params;
@@ -857,10 +894,7 @@ router.put('/products/:id/bundle', async (req: Request, res: Response) => {
       items: Array<{ childProductId: string; quantity: number }>;
     };
 
-    const user = await prisma.user.findUnique({
-      where: { id: userId },
-      include: { client: true },
-    });
+    const user = await clientTeamService.findUserWithClient(userId);
 
     if (!user) {
       return res.status(404).json({ success: false, error: 'User not found' });
@@ -1011,10 +1045,7 @@ router.get('/products/:id/bundle/search', async (req: Request, res: Response) =>
       return res.json({ success: true, data: [] });
     }
 
-    const user = await prisma.user.findUnique({
-      where: { id: userId },
-      include: { client: true },
-    });
+    const user = await clientTeamService.findUserWithClient(userId);
 
     if (!user) {
       return res.status(404).json({ success: false, error: 'User not found' });
@@ -1072,7 +1103,7 @@ router.get('/products/:id/bundle/search', async (req: Request, res: Response) =>
  * POST /api/data/orders
  * Create a new order for the authenticated user's client
  */
-router.post('/orders', async (req: Request, res: Response) => {
+router.post('/orders', audit({ action: 'CREATE_ORDER', entityType: 'Order' }), async (req: Request, res: Response) => {
   try {
     const userId = (req as any).userId;
     const {
@@ -1094,10 +1125,7 @@ router.post('/orders', async (req: Request, res: Response) => {
     } = req.body;
 
     // Get user with client relation
-    const user = await prisma.user.findUnique({
-      where: { id: userId },
-      include: { client: true },
-    });
+    const user = await clientTeamService.findUserWithClient(userId);
 
     if (!user) {
       return res.status(404).json({
@@ -1283,10 +1311,7 @@ router.get('/orders', async (req: Request, res: Response) => {
   try {
     const userId = (req as any).userId;
 
-    const user = await prisma.user.findUnique({
-      where: { id: userId },
-      include: { client: true },
-    });
+    const user = await clientTeamService.findUserWithClient(userId);
 
     if (!user) {
       return res.status(404).json({
@@ -1352,10 +1377,7 @@ router.get('/orders/:id', async (req: Request, res: Response) => {
     const userId = (req as any).userId;
     const { id } = req.params;
 
-    const user = await prisma.user.findUnique({
-      where: { id: userId },
-      include: { client: true },
-    });
+    const user = await clientTeamService.findUserWithClient(userId);
 
     if (!user) {
       return res.status(404).json({
@@ -1439,10 +1461,7 @@ router.get('/returns', async (req: Request, res: Response) => {
   try {
     const userId = (req as any).userId;
 
-    const user = await prisma.user.findUnique({
-      where: { id: userId },
-      include: { client: true },
-    });
+    const user = await clientTeamService.findUserWithClient(userId);
 
     if (!user) {
       return res.status(404).json({
@@ -1508,10 +1527,7 @@ router.get('/returns/:id', async (req: Request, res: Response) => {
     const userId = (req as any).userId;
     const { id } = req.params;
 
-    const user = await prisma.user.findUnique({
-      where: { id: userId },
-      include: { client: true },
-    });
+    const user = await clientTeamService.findUserWithClient(userId);
 
     if (!user) {
       return res.status(404).json({
@@ -1572,7 +1588,7 @@ router.get('/returns/:id', async (req: Request, res: Response) => {
  * POST /api/data/returns
  * Create a new return for the authenticated user's client
  */
-router.post('/returns', async (req: Request, res: Response) => {
+router.post('/returns', audit({ action: 'CREATE_RETURN', entityType: 'Return' }), async (req: Request, res: Response) => {
   try {
     const userId = (req as any).userId;
     const {
@@ -1587,10 +1603,7 @@ router.post('/returns', async (req: Request, res: Response) => {
     } = req.body;
 
     // Get user with client relation
-    const user = await prisma.user.findUnique({
-      where: { id: userId },
-      include: { client: true },
-    });
+    const user = await clientTeamService.findUserWithClient(userId);
 
     if (!user) {
       return res.status(404).json({
@@ -1710,10 +1723,7 @@ router.get('/inbounds', async (req: Request, res: Response) => {
   try {
     const userId = (req as any).userId;
 
-    const user = await prisma.user.findUnique({
-      where: { id: userId },
-      include: { client: true },
-    });
+    const user = await clientTeamService.findUserWithClient(userId);
 
     if (!user) {
       return res.status(404).json({
@@ -1773,10 +1783,7 @@ router.get('/inbounds/:id', async (req: Request, res: Response) => {
     const userId = (req as any).userId;
     const { id } = req.params;
 
-    const user = await prisma.user.findUnique({
-      where: { id: userId },
-      include: { client: true },
-    });
+    const user = await clientTeamService.findUserWithClient(userId);
 
     if (!user) {
       return res.status(404).json({
@@ -1799,6 +1806,10 @@ router.get('/inbounds/:id', async (req: Request, res: Response) => {
             product: true,
           },
         },
+        discrepancies: {
+          include: { product: { select: { sku: true, name: true } } },
+          orderBy: { createdAt: 'desc' },
+        },
       },
     });
 
@@ -1834,7 +1845,7 @@ router.get('/inbounds/:id', async (req: Request, res: Response) => {
  * POST /api/data/inbounds
  * Create a new inbound delivery
  */
-router.post('/inbounds', async (req: Request, res: Response) => {
+router.post('/inbounds', audit({ action: 'CREATE_INBOUND', entityType: 'InboundDelivery' }), async (req: Request, res: Response) => {
   try {
     const userId = (req as any).userId;
     const {
@@ -1844,7 +1855,7 @@ router.post('/inbounds', async (req: Request, res: Response) => {
       trackingNumber,
       notes,
       simulateStock,
-      items, // Array of { productId, quantity }
+      items, // Array of { productId, quantity, lotNumber?, bestBefore? }
     } = req.body;
 
     console.log('[Inbound] ========== CREATE INBOUND REQUEST ==========');
@@ -1869,10 +1880,18 @@ router.post('/inbounds', async (req: Request, res: Response) => {
       });
     }
 
-    const user = await prisma.user.findUnique({
-      where: { id: userId },
-      include: { client: true },
-    });
+    const invalidLot = items.find((item: { lotNumber?: unknown; bestBefore?: unknown }) =>
+      (item.lotNumber !== undefined && item.lotNumber !== null && typeof item.lotNumber !== 'string') ||
+      (item.bestBefore && !parseBestBefore(item.bestBefore))
+    );
+    if (invalidLot) {
+      return res.status(400).json({
+        success: false,
+        error: 'lotNumber must be a string and bestBefore an ISO date',
+      });
+    }
+
+    const user = await clientTeamService.findUserWithClient(userId);
 
     if (!user || !user.client) {
       console.log('[Inbound] ERROR: User or client not found for userId:', userId);
@@ -1917,9 +1936,11 @@ router.post('/inbounds', async (req: Request, res: Response) => {
         numberOfProducts: items.length,
         status: 'PENDING',
         items: {
-          create: items.map((item: { productId: string; quantity: number }) => ({
+          create: items.map((item: { productId: string; quantity: number; lotNumber?: string; bestBefore?: string }) => ({
             productId: item.productId,
             announcedQuantity: item.quantity,
+            lotNumber: item.lotNumber?.trim() || null,
+            bestBefore: parseBestBefore(item.bestBefore),
           })),
         },
       },
@@ -1948,6 +1969,10 @@ router.post('/inbounds', async (req: Request, res: Response) => {
     console.log('[Inbound] Database ID:', inbound.id);
     console.log('[Inbound] Items created:', inbound.items.length);
 
+    if (inbound.simulateStock) {
+      await stockMovementService.simulateInbound(inbound.id);
+    }
+
     // Sync to JTL FFN if configured
     let jtlSyncResult = null;
     let jtlInboundId = null;
@@ -1993,13 +2018,15 @@ router.post('/inbounds', async (req: Request, res: Response) => {
         });
 
         // Build JTL inbound items
-        const jtlItems = items.map((item: { productId: string; quantity: number }, index: number) => {
+        const jtlItems = items.map((item: { productId: string; quantity: number; lotNumber?: string; bestBefore?: string }, index: number) => {
           const product = products.find(p => p.id === item.productId);
           return {
             inboundItemId: `${inboundId}-ITEM-${index + 1}`,
             jfsku: product?.jtlProductId || '',
             merchantSku: product?.sku || '',
             quantity: item.quantity,
+            batchNumber: item.lotNumber?.trim() || undefined,
+            bestBefore: parseBestBefore(item.bestBefore)?.toISOString().slice(0, 10),
           };
         }).filter(item => item.jfsku); // Only include items with valid jfsku
 
@@ -2069,11 +2096,102 @@ router.post('/inbounds', async (req: Request, res: Response) => {
   }
 });
 
+// Packing list from the request body: { content, format? | fileName?, delimiter? }
+// (CSV as text, XLSX base64-encoded)
+const readImportFile = (body: Record<string, unknown> | undefined): AsnImportFile | null => {
+  const { content, format, fileName, delimiter } = body ?? {};
+  if (typeof content !== 'string' || !content) return null;
+  const isXlsx = format === 'xlsx' || (typeof fileName === 'string' && /\.xlsx$/i.test(fileName));
+  return { format: isXlsx ? 'xlsx' : 'csv', content, delimiter: typeof delimiter === 'string' ? delimiter : undefined };
+};
+
+// Unreadable files and unmappable columns are the caller's fault
+const isImportFileError = (error: unknown): error is Error =>
+  error instanceof Error && /XLSX|File |Column /.test(error.message);
+
+/**
+ * POST /api/data/inbounds/import/preview
+ * Validate a supplier packing list (CSV/XLSX) against the client's products without creating anything
+ */
+router.post('/inbounds/import/preview', async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).userId;
+    const file = readImportFile(req.body);
+    if (!file) {
+      return res.status(400).json({ success: false, error: 'content is required' });
+    }
+
+    const user = await clientTeamService.findUserWithClient(userId);
+    if (!user || !user.client) {
+      return res.status(404).json({ success: false, error: 'User or client not found' });
+    }
+
+    const preview = await inboundImportService.preview(user.client.id, file, req.body.mapping);
+
+    res.json({ success: true, data: preview });
+  } catch (error: any) {
+    if (isImportFileError(error)) {
+      return res.status(400).json({ success: false, error: error.message });
+    }
+    console.error('[InboundImport] Error previewing packing list:', error);
+    res.status(500).json({ success: false, error: 'Failed to preview packing list' });
+  }
+});
+
+/**
+ * POST /api/data/inbounds/import
+ * Create an inbound from a supplier packing list (CSV/XLSX) and push it to JTL FFN.
+ * Nothing is created when a row has an error; the row report is returned instead.
+ */
+router.post('/inbounds/import', audit({ action: 'IMPORT_INBOUND', entityType: 'InboundDelivery' }), async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).userId;
+    const file = readImportFile(req.body);
+    if (!file) {
+      return res.status(400).json({ success: false, error: 'content is required' });
+    }
+
+    const user = await clientTeamService.findUserWithClient(userId);
+    if (!user || !user.client) {
+      return res.status(404).json({ success: false, error: 'User or client not found' });
+    }
+
+    const { deliveryType, expectedDate, carrierName, trackingNumber, notes, mapping } = req.body;
+    const result = await inboundImportService.commit(
+      user.client.id,
+      file,
+      { deliveryType, expectedDate, carrierName, trackingNumber, notes },
+      mapping
+    );
+
+    if (!result.inbound) {
+      return res.status(400).json({
+        success: false,
+        error: `${result.preview.errorCount} row(s) have errors - nothing was imported`,
+        data: result.preview,
+      });
+    }
+
+    res.status(201).json({
+      success: true,
+      data: result.inbound,
+      preview: result.preview,
+      jtlSync: result.jtlSync,
+    });
+  } catch (error: any) {
+    if (isImportFileError(error)) {
+      return res.status(400).json({ success: false, error: error.message });
+    }
+    console.error('[InboundImport] Error importing packing list:', error);
+    res.status(500).json({ success: false, error: 'Failed to import packing list' });
+  }
+});
+
 /**
  * PATCH /api/data/inbounds/:id
  * Update inbound delivery details
  */
-router.patch('/inbounds/:id', async (req: Request, res: Response) => {
+router.patch('/inbounds/:id', audit({ action: 'UPDATE_INBOUND', entityType: 'InboundDelivery' }), async (req: Request, res: Response) => {
   try {
     const userId = (req as any).userId;
     const { id } = req.params;
@@ -2086,10 +2204,7 @@ router.patch('/inbounds/:id', async (req: Request, res: Response) => {
       externalInboundId,
     } = req.body;
 
-    const user = await prisma.user.findUnique({
-      where: { id: userId },
-      include: { client: true },
-    });
+    const user = await clientTeamService.findUserWithClient(userId);
 
     if (!user) {
       return res.status(404).json({
@@ -2162,6 +2277,185 @@ router.patch('/inbounds/:id', async (req: Request, res: Response) => {
   }
 });
 
+// Load an inbound the user may change (client users only their own)
+const findOwnInbound = async (req: Request) => {
+  const user = await clientTeamService.findUserWithClient((req as any).userId);
+  const inbound = await inboundService.findInbound(req.params.id as string);
+  if (!user || !inbound || (user.role === 'CLIENT' && inbound.clientId !== user.client?.id)) {
+    return null;
+  }
+  return inbound;
+};
+
+// Inbound state and input errors are the caller's fault, everything else is ours
+const isInboundError = (error: any): boolean =>
+  /only pending|can only|not found on this inbound|not found for this client|must be|is required|not a date|resolved already|cannot be redelivered/.test(error?.message ?? '');
+
+/**
+ * PUT /api/data/inbounds/:id/items
+ * Replace the items of a pending inbound: [{ id?, productId, quantity, lotNumber?, bestBefore? }]
+ * (items without id are added, missing items removed) and update them in JTL FFN
+ */
+router.put('/inbounds/:id/items', audit({ action: 'UPDATE_INBOUND_ITEMS', entityType: 'InboundDelivery' }), async (req: Request, res: Response) => {
+  try {
+    const inbound = await findOwnInbound(req);
+    if (!inbound) {
+      return res.status(404).json({ success: false, error: 'Inbound delivery not found' });
+    }
+
+    const result = await inboundService.updateItems(inbound.id, req.body?.items);
+
+    res.json({ success: true, data: result.inbound, jtlSync: result.jtlSync });
+  } catch (error: any) {
+    if (isInboundError(error)) {
+      return res.status(400).json({ success: false, error: error.message });
+    }
+    console.error('[DataRoutes] Error updating inbound items:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to update inbound items',
+    });
+  }
+});
+
+/**
+ * POST /api/data/inbounds/:id/cancel
+ * Cancel a pending inbound in JTL FFN and locally
+ */
+router.post('/inbounds/:id/cancel', audit({ action: 'CANCEL_INBOUND', entityType: 'InboundDelivery' }), async (req: Request, res: Response) => {
+  try {
+    const inbound = await findOwnInbound(req);
+    if (!inbound) {
+      return res.status(404).json({ success: false, error: 'Inbound delivery not found' });
+    }
+
+    const reason = typeof req.body?.reason === 'string' && req.body.reason.trim() ? req.body.reason.trim() : null;
+    const cancelled = await inboundService.cancelInbound(inbound.id, reason, (req as any).userId);
+
+    res.json({ success: true, data: cancelled });
+  } catch (error: any) {
+    if (isInboundError(error)) {
+      return res.status(400).json({ success: false, error: error.message });
+    }
+    console.error('[DataRoutes] Error cancelling inbound:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to cancel inbound',
+    });
+  }
+});
+
+/**
+ * POST /api/data/inbounds/:id/discrepancies
+ * Report damaged units of a received inbound line: { inboundItemId, quantity, note? } (warehouse staff)
+ */
+router.post(
+  '/inbounds/:id/discrepancies',
+  requireEmployee,
+  audit({ action: 'REPORT_INBOUND_DAMAGE', entityType: 'InboundDelivery', snapshot: false }),
+  async (req: Request, res: Response) => {
+    try {
+      const inbound = await findOwnInbound(req);
+      if (!inbound) {
+        return res.status(404).json({ success: false, error: 'Inbound delivery not found' });
+      }
+
+      const { inboundItemId, quantity, note } = req.body ?? {};
+      const discrepancy = await inboundService.reportDamage(
+        inbound.id,
+        { inboundItemId, quantity, note },
+        (req as any).userId
+      );
+
+      res.status(201).json({ success: true, data: discrepancy });
+    } catch (error: any) {
+      if (isInboundError(error)) {
+        return res.status(400).json({ success: false, error: error.message });
+      }
+      console.error('[DataRoutes] Error reporting inbound damage:', error);
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to report inbound damage',
+      });
+    }
+  }
+);
+
+/**
+ * GET /api/data/inbound-discrepancies
+ * Receipt discrepancies (?status=OPEN|RESOLVED&type=OVER|SHORT|DAMAGED&inboundId=&clientId=)
+ */
+router.get('/inbound-discrepancies', async (req: Request, res: Response) => {
+  try {
+    const user = await clientTeamService.findUserWithClient((req as any).userId);
+    if (!user) {
+      return res.status(404).json({ success: false, error: 'User not found' });
+    }
+
+    const clientId = user.role === 'CLIENT' ? user.client?.id : (req.query.clientId as string) || undefined;
+    if (user.role === 'CLIENT' && !clientId) {
+      return res.status(404).json({ success: false, error: 'Client not found' });
+    }
+
+    const { status, type, inboundId, page, limit } = req.query;
+    const result = await inboundService.listDiscrepancies(clientId, {
+      status: Object.values(InboundDiscrepancyStatus).find(value => value === status),
+      type: Object.values(InboundDiscrepancyType).find(value => value === type),
+      inboundId: (inboundId as string) || undefined,
+      page: page ? parseInt(page as string, 10) || 1 : undefined,
+      limit: limit ? parseInt(limit as string, 10) || 50 : undefined,
+    });
+
+    res.json({ success: true, data: result.discrepancies, pagination: result.pagination });
+  } catch (error) {
+    console.error('[DataRoutes] Error fetching inbound discrepancies:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to fetch inbound discrepancies',
+    });
+  }
+});
+
+/**
+ * POST /api/data/inbound-discrepancies/:id/resolve
+ * Resolve a discrepancy: { resolution: ACCEPTED|SUPPLIER_CLAIM|REDELIVERY|WRITTEN_OFF, note? }.
+ * REDELIVERY announces the missing units in a follow-up inbound.
+ */
+router.post(
+  '/inbound-discrepancies/:id/resolve',
+  audit({ action: 'RESOLVE_INBOUND_DISCREPANCY', entityType: 'InboundDiscrepancy' }),
+  async (req: Request, res: Response) => {
+    try {
+      const user = await clientTeamService.findUserWithClient((req as any).userId);
+      const discrepancy = await inboundService.findDiscrepancy(req.params.id as string);
+      if (!user || !discrepancy || (user.role === 'CLIENT' && discrepancy.clientId !== user.client?.id)) {
+        return res.status(404).json({ success: false, error: 'Discrepancy not found' });
+      }
+
+      const { resolution, note } = req.body ?? {};
+      if (!Object.values(InboundDiscrepancyResolution).includes(resolution)) {
+        return res.status(400).json({
+          success: false,
+          error: `resolution must be one of ${Object.values(InboundDiscrepancyResolution).join(', ')}`,
+        });
+      }
+
+      const result = await inboundService.resolveDiscrepancy(discrepancy.id, { resolution, note }, (req as any).userId);
+
+      res.json({ success: true, data: result.discrepancy, jtlSync: result.jtlSync });
+    } catch (error: any) {
+      if (isInboundError(error)) {
+        return res.status(400).json({ success: false, error: error.message });
+      }
+      console.error('[DataRoutes] Error resolving inbound discrepancy:', error);
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to resolve inbound discrepancy',
+      });
+    }
+  }
+);
+
 // ============= EDIT ROUTES WITH JTL FFN SYNC =============
 
 /**
@@ -2174,7 +2468,7 @@ router.patch('/inbounds/:id', async (req: Request, res: Response) => {
  * - isOnHold, tags
  * - Shipping address corrections (before fulfillment)
  */
-router.patch('/orders/:id', async (req: Request, res: Response) => {
+router.patch('/orders/:id', audit({ action: 'UPDATE_ORDER', entityType: 'Order' }), async (req: Request, res: Response) => {
   try {
     const userId = (req as any).userId;
     const { id } = req.params;
@@ -2201,10 +2495,7 @@ router.patch('/orders/:id', async (req: Request, res: Response) => {
 
     console.log('[DataRoutes] PATCH /orders/:id - Received update request:', { id, body: req.body });
 
-    const user = await prisma.user.findUnique({
-      where: { id: userId },
-      include: { client: true },
-    });
+    const user = await clientTeamService.findUserWithClient(userId);
 
     if (!user) {
       return res.status(404).json({
@@ -2538,7 +2829,7 @@ router.patch('/orders/:id', async (req: Request, res: Response) => {
  * - customsCode, countryOfOrigin, netSalesPrice
  * - warehouseNotes, storageLocation, minStockLevel, reorderPoint
  */
-router.patch('/products/:id', async (req: Request, res: Response) => {
+router.patch('/products/:id', audit({ action: 'UPDATE_PRODUCT', entityType: 'Product' }), async (req: Request, res: Response) => {
   try {
     const userId = (req as any).userId;
     const { id } = req.params;
@@ -2567,10 +2858,7 @@ router.patch('/products/:id', async (req: Request, res: Response) => {
       imageUrl,
     } = req.body;
 
-    const user = await prisma.user.findUnique({
-      where: { id: userId },
-      include: { client: true },
-    });
+    const user = await clientTeamService.findUserWithClient(userId);
 
     if (!user) {
       return res.status(404).json({
@@ -2832,7 +3120,7 @@ router.patch('/products/:id', async (req: Request, res: Response) => {
  * - hasDamage, damageDescription, hasDefect, defectDescription
  * - status (within allowed transitions)
  */
-router.patch('/returns/:id', async (req: Request, res: Response) => {
+router.patch('/returns/:id', audit({ action: 'UPDATE_RETURN', entityType: 'Return' }), async (req: Request, res: Response) => {
   try {
     const userId = (req as any).userId;
     const { id } = req.params;
@@ -2851,10 +3139,7 @@ router.patch('/returns/:id', async (req: Request, res: Response) => {
       items, // Array of item updates: [{ returnItemId, condition, disposition, restockableQuantity, notes }]
     } = req.body;
 
-    const user = await prisma.user.findUnique({
-      where: { id: userId },
-      include: { client: true },
-    });
+    const user = await clientTeamService.findUserWithClient(userId);
 
     if (!user) {
       return res.status(404).json({
@@ -3137,15 +3422,12 @@ router.patch('/returns/:id', async (req: Request, res: Response) => {
  * DELETE /api/data/orders/:id
  * Delete an order (only if not yet shipped)
  */
-router.delete('/orders/:id', async (req: Request, res: Response) => {
+router.delete('/orders/:id', audit({ action: 'DELETE_ORDER', entityType: 'Order' }), async (req: Request, res: Response) => {
   try {
     const userId = (req as any).userId;
     const { id } = req.params;
 
-    const user = await prisma.user.findUnique({
-      where: { id: userId },
-      include: { client: true },
-    });
+    const user = await clientTeamService.findUserWithClient(userId);
 
     if (!user) {
       return res.status(404).json({
@@ -3208,15 +3490,12 @@ router.delete('/orders/:id', async (req: Request, res: Response) => {
  * DELETE /api/data/products/:id
  * Delete a product (soft delete - marks as inactive)
  */
-router.delete('/products/:id', async (req: Request, res: Response) => {
+router.delete('/products/:id', audit({ action: 'DELETE_PRODUCT', entityType: 'Product' }), async (req: Request, res: Response) => {
   try {
     const userId = (req as any).userId;
     const { id } = req.params;
 
-    const user = await prisma.user.findUnique({
-      where: { id: userId },
-      include: { client: true },
-    });
+    const user = await clientTeamService.findUserWithClient(userId);
 
     if (!user) {
       return res.status(404).json({
@@ -3278,15 +3557,12 @@ router.delete('/products/:id', async (req: Request, res: Response) => {
  * DELETE /api/data/returns/:id
  * Delete a return (only if not yet processed)
  */
-router.delete('/returns/:id', async (req: Request, res: Response) => {
+router.delete('/returns/:id', audit({ action: 'DELETE_RETURN', entityType: 'Return' }), async (req: Request, res: Response) => {
   try {
     const userId = (req as any).userId;
     const { id } = req.params;
 
-    const user = await prisma.user.findUnique({
-      where: { id: userId },
-      include: { client: true },
-    });
+    const user = await clientTeamService.findUserWithClient(userId);
 
     if (!user) {
       return res.status(404).json({
@@ -3355,10 +3631,7 @@ router.get('/tasks', async (req: Request, res: Response) => {
   try {
     const userId = (req as any).userId;
 
-    const user = await prisma.user.findUnique({
-      where: { id: userId },
-      include: { client: true },
-    });
+    const user = await clientTeamService.findUserWithClient(userId);
 
     if (!user) {
       return res.status(404).json({
@@ -3424,10 +3697,7 @@ router.get('/tasks/:id', async (req: Request, res: Response) => {
     const userId = (req as any).userId;
     const { id } = req.params;
 
-    const user = await prisma.user.findUnique({
-      where: { id: userId },
-      include: { client: true },
-    });
+    const user = await clientTeamService.findUserWithClient(userId);
 
     if (!user) {
       return res.status(404).json({
@@ -3508,7 +3778,7 @@ router.get('/tasks/:id', async (req: Request, res: Response) => {
  * POST /api/data/tasks
  * Create a new task
  */
-router.post('/tasks', async (req: Request, res: Response) => {
+router.post('/tasks', audit({ action: 'CREATE_TASK', entityType: 'Task' }), async (req: Request, res: Response) => {
   try {
     const userId = (req as any).userId;
     const {
@@ -3523,10 +3793,7 @@ router.post('/tasks', async (req: Request, res: Response) => {
       notifyCustomer,
     } = req.body;
 
-    const user = await prisma.user.findUnique({
-      where: { id: userId },
-      include: { client: true },
-    });
+    const user = await clientTeamService.findUserWithClient(userId);
 
     if (!user) {
       return res.status(404).json({
@@ -3611,7 +3878,7 @@ router.post('/tasks', async (req: Request, res: Response) => {
  * PUT /api/data/tasks/:id
  * Update an existing task
  */
-router.put('/tasks/:id', async (req: Request, res: Response) => {
+router.put('/tasks/:id', audit({ action: 'UPDATE_TASK', entityType: 'Task' }), async (req: Request, res: Response) => {
   try {
     const userId = (req as any).userId;
     const { id } = req.params;
@@ -3627,10 +3894,7 @@ router.put('/tasks/:id', async (req: Request, res: Response) => {
       notifyCustomer,
     } = req.body;
 
-    const user = await prisma.user.findUnique({
-      where: { id: userId },
-      include: { client: true },
-    });
+    const user = await clientTeamService.findUserWithClient(userId);
 
     if (!user) {
       return res.status(404).json({
@@ -3725,15 +3989,12 @@ router.put('/tasks/:id', async (req: Request, res: Response) => {
  * DELETE /api/data/tasks/:id
  * Delete a task
  */
-router.delete('/tasks/:id', async (req: Request, res: Response) => {
+router.delete('/tasks/:id', audit({ action: 'DELETE_TASK', entityType: 'Task' }), async (req: Request, res: Response) => {
   try {
     const userId = (req as any).userId;
     const { id } = req.params;
 
-    const user = await prisma.user.findUnique({
-      where: { id: userId },
-      include: { client: true },
-    });
+    const user = await clientTeamService.findUserWithClient(userId);
 
     if (!user) {
       return res.status(404).json({
@@ -3791,10 +4052,7 @@ router.get('/health-status', async (req: Request, res: Response) => {
   try {
     const userId = (req as any).userId;
 
-    const user = await prisma.user.findUnique({
-      where: { id: userId },
-      include: { client: true },
-    });
+    const user = await clientTeamService.findUserWithClient(userId);
 
     if (!user || !user.client) {
       return res.status(403).json({
@@ -4158,16 +4416,13 @@ router.get('/health-status', async (req: Request, res: Response) => {
  * Sync product stock to one or all linked channels
  * Body: { channelId?: string } — if omitted, syncs to all active channels
  */
-router.post('/products/:id/sync-stock', async (req: Request, res: Response) => {
+router.post('/products/:id/sync-stock', audit({ action: 'SYNC_PRODUCT_STOCK', entityType: 'Product', snapshot: false }), async (req: Request, res: Response) => {
   try {
     const userId = (req as any).userId;
     const { id } = req.params;
     const { channelId } = req.body || {};
 
-    const user = await prisma.user.findUnique({
-      where: { id: userId },
-      include: { client: true },
-    });
+    const user = await clientTeamService.findUserWithClient(userId);
 
     if (!user) {
       return res.status(404).json({ success: false, error: 'User not found' });
@@ -22,12 +22,14 @@ import {
   getWarehouses,
   fixNoSkuItems,
 } from '../controllers/fulfillment.controller.js';
-import { authenticate, requireAdmin } from '../middleware/auth.js';
+import { authenticate, requireAdmin, requireOperationsWrite } from '../middleware/auth.js';
+import { audit } from '../middleware/audit.js';
 
 const router = Router();
 
 // All fulfillment routes require authentication
 router.use(authenticate);
+router.use(requireOperationsWrite);
 
 // ============= DASHBOARD =============
 // GET /api/fulfillment/dashboard/stats - Get fulfillment statistics
@@ -44,29 +46,29 @@ router.get('/orders/:orderId', getFulfillmentOrder);
 router.get('/orders/:orderId/audit', getOrderAudit);
 
 // POST /api/fulfillment/orders/:orderId/hold - Place order on hold
-router.post('/orders/:orderId/hold', holdOrder);
+router.post('/orders/:orderId/hold', audit({ action: 'HOLD_ORDER', entityType: 'Order' }), holdOrder);
 
 // POST /api/fulfillment/orders/:orderId/release - Release order from hold
-router.post('/orders/:orderId/release', releaseHold);
+router.post('/orders/:orderId/release', audit({ action: 'RELEASE_ORDER_HOLD', entityType: 'Order' }), releaseHold);
 
 // POST /api/fulfillment/orders/:orderId/tracking - Update tracking info
-router.post('/orders/:orderId/tracking', updateTracking);
+router.post('/orders/:orderId/tracking', audit({ action: 'UPDATE_ORDER_TRACKING', entityType: 'Order' }), updateTracking);
 
 // POST /api/fulfillment/orders/:orderId/fulfill - Create fulfillment
-router.post('/orders/:orderId/fulfill', createFulfillment);
+router.post('/orders/:orderId/fulfill', audit({ action: 'FULFILL_ORDER', entityType: 'Order' }), createFulfillment);
 
 // POST /api/fulfillment/orders/:orderId/sync-to-jtl - Sync to JTL FFN (clients can sync their own orders)
-router.post('/orders/:orderId/sync-to-jtl', syncOrderToJTL);
+router.post('/orders/:orderId/sync-to-jtl', audit({ action: 'SYNC_ORDER_TO_JTL', entityType: 'Order' }), syncOrderToJTL);
 
 // ============= BULK OPERATIONS =============
 // POST /api/fulfillment/bulk/hold - Bulk hold orders
-router.post('/bulk/hold', bulkHoldOrders);
+router.post('/bulk/hold', audit({ action: 'HOLD_ORDER', entityType: 'Order', entityIds: (req) => req.body?.orderIds }), bulkHoldOrders);
 
 // POST /api/fulfillment/bulk/release - Bulk release from hold
-router.post('/bulk/release', bulkReleaseOrders);
+router.post('/bulk/release', audit({ action: 'RELEASE_ORDER_HOLD', entityType: 'Order', entityIds: (req) => req.body?.orderIds }), bulkReleaseOrders);
 
 // POST /api/fulfillment/bulk/fulfill - Bulk fulfill orders
-router.post('/bulk/fulfill', bulkFulfillOrders);
+router.post('/bulk/fulfill', audit({ action: 'FULFILL_ORDER', entityType: 'Order', entityIds: (req) => req.body?.orderIds }), bulkFulfillOrders);
 
 // ============= JTL FFN INTEGRATION =============
 // GET /api/fulfillment/jtl/status - Check JTL FFN connection status
@@ -80,6 +82,6 @@ router.get('/warehouses', getWarehouses);
 
 // ============= DATA FIX OPERATIONS =============
 // POST /api/fulfillment/fix-no-sku-items - Fix existing NO-SKU-* items (Admin only)
-router.post('/fix-no-sku-items', requireAdmin, fixNoSkuItems);
+router.post('/fix-no-sku-items', requireAdmin, audit({ action: 'FIX_NO_SKU_ITEMS', entityType: 'Sync', snapshot: false }), fixNoSkuItems);
 
 export default router;
@@ -19,6 +19,18 @@ import integrationsRoutes, {
 import createSyncAdminRoutes from './sync-admin.routes.js';
 import createSyncPipelineRoutes from './sync-pipeline.routes.js';
 import taskMessagesRoutes from './task-messages.routes.js';
+import auditRoutes from './audit.routes.js';
+import clientTeamRoutes from './client-team.routes.js';
+import apiKeysRoutes from './api-keys.routes.js';
+import merchantWebhooksRoutes from './merchant-webhooks.routes.js';
+import orderRulesRoutes from './order-rules.routes.js';
+import stockMovementsRoutes from './stock-movements.routes.js';
+import warehousesRoutes from './warehouses.routes.js';
+import lotsRoutes from './lots.routes.js';
+import serialsRoutes from './serials.routes.js';
+import stocktakesRoutes from './stocktakes.routes.js';
+import channelStockRulesRoutes from './channel-stock-rules.routes.js';
+import backordersRoutes from './backorders.routes.js';
 import { prisma } from '../config/index.js';
 
 const router = Router();
@@ -34,6 +46,39 @@ router.use('/auth', authRoutes);
 // Clients routes
 router.use('/clients', clientsRoutes);
 
+// Client team routes (team members, invitations)
+router.use('/team', clientTeamRoutes);
+
+// API key routes (scoped keys for system-to-system access)
+router.use('/api-keys', apiKeysRoutes);
+
+// Outgoing merchant webhook routes (subscriptions, delivery log, replay)
+router.use('/webhooks', merchantWebhooksRoutes);
+
+// Order automation rules (auto-hold, priority, carrier on import)
+router.use('/order-rules', orderRulesRoutes);
+
+// Stock movement ledger (history, point-in-time levels, manual adjustments)
+router.use('/stock-movements', stockMovementsRoutes);
+
+// Multi-warehouse configuration, per-warehouse stock and order routing
+router.use('/warehouses', warehousesRoutes);
+
+// Batch / best-before lots (FEFO view, recall query)
+router.use('/lots', lotsRoutes);
+
+// Serial numbers of shipped and returned units
+router.use('/serials', serialsRoutes);
+
+// Stocktakes and cycle counts (variances against No-Limits and FFN stock)
+router.use('/stocktakes', stocktakesRoutes);
+
+// Per-channel stock allocation (share, safety buffer, cap, fixed quantity)
+router.use('/channel-stock-rules', channelStockRulesRoutes);
+
+// Backorders (orders parked until their items are in stock)
+router.use('/backorders', backordersRoutes);
+
 // Quotations routes
 router.use('/quotations', quotationsRoutes);
 
@@ -55,6 +100,9 @@ router.use('/notifications', notificationsRoutes);
 // Fulfillment routes (JTL FFN integration)
 router.use('/fulfillment', fulfillmentRoutes);
 
+// Audit routes (Persistent audit trail, admin only)
+router.use('/audit', auditRoutes);
+
 // Integrations routes (Shopify, WooCommerce, JTL)
 router.use('/integrations', integrationsRoutes);
 
@@ -4,11 +4,24 @@
  */
 
 import { Router, Request, Response } from 'express';
-import { PrismaClient } from '@prisma/client';
+import {
+  PrismaClient,
+  Channel,
+  WebhookInboxEntry,
+  WebhookInboxStatus,
+  WebhookSignatureStatus,
+} from '@prisma/client';
 import {
   ShopifyService,
   createShopifyServiceAuto,
   WooCommerceService,
+  AmazonService,
+  AMAZON_ENDPOINTS,
+  isAmazonEndpoint,
+  EbayService,
+  EBAY_ENDPOINTS,
+  isEbayEndpoint,
+  FileChannelService,
   JTLService,
   SyncScheduler,
   ClientOnboardingService,
@@ -17,7 +30,15 @@ import {
 import { WebhookProcessorService } from '../services/integrations/webhook-processor.service.js';
 import { BiDirectionalSyncService } from '../services/integrations/bidirectional-sync.service.js';
 import { getEncryptionService } from '../services/encryption.service.js';
-import { authenticate } from '../middleware/auth.js';
+import { authenticate, requireAdmin, requireChannelManager } from '../middleware/auth.js';
+import { audit } from '../middleware/audit.js';
+import { syncRateLimit } from '../middleware/rate-limit.js';
+import {
+  webhookInboxService,
+  InboxListFilters,
+  InboxProcessResult,
+  WebhookInboxProcessor,
+} from '../services/webhook-inbox.service.js';
 
 const router = Router();
 
@@ -596,6 +617,148 @@ router.post('/woocommerce/test', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * Test Amazon SP-API connection
+ */
+router.post('/amazon/test', authenticate, requireChannelManager, async (req: Request, res: Response) => {
+  try {
+    const { sellerId, marketplaceId, lwaClientId, lwaClientSecret, refreshToken, region, endpoint } = req.body;
+
+    if (!sellerId || !marketplaceId || !lwaClientId || !lwaClientSecret || !refreshToken) {
+      return res.status(400).json({
+        success: false,
+        error: 'Missing required parameters: sellerId, marketplaceId, lwaClientId, lwaClientSecret, refreshToken',
+      });
+    }
+
+    if (region && !(region in AMAZON_ENDPOINTS)) {
+      return res.status(400).json({
+        success: false,
+        error: `Invalid region. Must be one of: ${Object.keys(AMAZON_ENDPOINTS).join(', ')}`,
+      });
+    }
+
+    if (endpoint && !isAmazonEndpoint(endpoint)) {
+      return res.status(400).json({
+        success: false,
+        error: `Invalid endpoint. Must be one of: ${Object.values(AMAZON_ENDPOINTS).join(', ')}`,
+      });
+    }
+
+    const amazonService = new AmazonService({
+      clientId: lwaClientId.trim(),
+      clientSecret: lwaClientSecret.trim(),
+      refreshToken: refreshToken.trim(),
+      sellerId: sellerId.trim(),
+      marketplaceId: marketplaceId.trim(),
+      endpoint: endpoint || AMAZON_ENDPOINTS[(region || 'eu') as keyof typeof AMAZON_ENDPOINTS],
+    });
+    const result = await amazonService.testConnection();
+
+    res.json(result);
+  } catch (error) {
+    console.error('Error testing Amazon connection:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * Test eBay Sell API connection
+ */
+router.post('/ebay/test', authenticate, requireChannelManager, async (req: Request, res: Response) => {
+  try {
+    const { marketplaceId, appId, certId, refreshToken, environment, endpoint } = req.body;
+
+    if (!marketplaceId || !appId || !certId || !refreshToken) {
+      return res.status(400).json({
+        success: false,
+        error: 'Missing required parameters: marketplaceId, appId, certId, refreshToken',
+      });
+    }
+
+    if (environment && !(environment in EBAY_ENDPOINTS)) {
+      return res.status(400).json({
+        success: false,
+        error: `Invalid environment. Must be one of: ${Object.keys(EBAY_ENDPOINTS).join(', ')}`,
+      });
+    }
+
+    if (endpoint && !isEbayEndpoint(endpoint)) {
+      return res.status(400).json({
+        success: false,
+        error: `Invalid endpoint. Must be one of: ${Object.values(EBAY_ENDPOINTS).join(', ')}`,
+      });
+    }
+
+    const ebayService = new EbayService({
+      clientId: appId.trim(),
+      clientSecret: certId.trim(),
+      refreshToken: refreshToken.trim(),
+      marketplaceId: marketplaceId.trim(),
+      endpoint: endpoint || EBAY_ENDPOINTS[(environment || 'production') as keyof typeof EBAY_ENDPOINTS],
+    });
+    const result = await ebayService.testConnection();
+
+    res.json(result);
+  } catch (error) {
+    console.error('Error testing eBay connection:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * Test a file channel location (inbox readable, outbox writable)
+ */
+router.post('/file/test', authenticate, requireChannelManager, async (req: Request, res: Response) => {
+  try {
+    const { clientId, fileConfig, sftpPassword, sftpPrivateKey } = req.body;
+
+    if (!clientId) {
+      return res.status(400).json({
+        success: false,
+        error: 'Missing required parameter: clientId',
+      });
+    }
+
+    if (req.user?.role === 'CLIENT' && clientId !== req.user.clientId) {
+      return res.status(403).json({
+        success: false,
+        error: 'Access denied',
+      });
+    }
+
+    const configError = FileChannelService.validateConfig(fileConfig, clientId);
+    if (configError) {
+      return res.status(400).json({
+        success: false,
+        error: `Invalid file configuration: ${configError}`,
+      });
+    }
+
+    const fileChannelService = new FileChannelService({
+      clientId,
+      config: fileConfig,
+      password: sftpPassword,
+      privateKey: sftpPrivateKey,
+    });
+    const result = await fileChannelService.testConnection();
+
+    res.json(result);
+  } catch (error) {
+    console.error('Error testing file channel connection:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
 // ============= SHOPIFY OAUTH ENDPOINTS =============
 
 /**
@@ -965,7 +1128,7 @@ router.post('/shopify/oauth/complete', async (req: Request, res: Response) => {
 /**
  * Trigger manual sync for a channel
  */
-router.post('/sync/:channelId', async (req: Request, res: Response) => {
+router.post('/sync/:channelId', syncRateLimit, async (req: Request, res: Response) => {
   try {
     const { channelId } = req.params;
     const { fullSync = false } = req.body;
@@ -1057,6 +1220,66 @@ router.get('/sync/status/:channelId', async (req: Request, res: Response) => {
 
 // ============= WEBHOOK ENDPOINTS =============
 
+// Body exactly as the platform signed it
+const getRawBody = (req: Request): string => req.rawBody?.toString('utf8') ?? JSON.stringify(req.body);
+
+/**
+ * Store a channel webhook in the inbox and run it through `handler` once.
+ * Redeliveries of a webhook that was already handled are acknowledged without processing.
+ */
+const processThroughInbox = async <T extends InboxProcessResult>(
+  req: Request,
+  channel: Channel,
+  topic: string,
+  signatureStatus: WebhookSignatureStatus,
+  processor: WebhookInboxProcessor,
+  handler: () => Promise<T>
+): Promise<T | null> => {
+  const { entry, duplicate } = await webhookInboxService.receive({
+    channel,
+    topic,
+    rawBody: getRawBody(req),
+    headers: req.headers,
+    signatureStatus,
+    processor,
+  });
+
+  const result = await webhookInboxService.process(entry.id, handler);
+  if (!result && duplicate) {
+    console.log(`[Webhook] Duplicate ${channel.type} ${topic} (${entry.externalId}) already ${entry.status}, skipping`);
+  }
+  return result;
+};
+
+/**
+ * Keep a webhook whose signature failed in the inbox without processing it, so it can be
+ * inspected (and replayed when forced) later. The caller answers 401.
+ */
+const rejectThroughInbox = async (
+  req: Request,
+  channel: Channel | null,
+  topic: string,
+  processor: WebhookInboxProcessor
+): Promise<void> => {
+  if (!channel) return;
+
+  try {
+    const { entry, duplicate } = await webhookInboxService.receive({
+      channel,
+      topic,
+      rawBody: getRawBody(req),
+      headers: req.headers,
+      signatureStatus: 'INVALID',
+      processor,
+    });
+    if (!duplicate) {
+      await webhookInboxService.skip(entry.id, 'Invalid signature');
+    }
+  } catch (error) {
+    console.error(`[Webhook] Error storing rejected ${channel.type} ${topic}:`, error);
+  }
+};
+
 /**
  * Shopify webhook handler
  * Processes individual webhook events for products, orders, refunds, and inventory
@@ -1065,20 +1288,13 @@ router.post('/webhooks/shopify/:topic', async (req: Request, res: Response) => {
   try {
     const { topic } = req.params;
     const shopDomain = req.headers['x-shopify-shop-domain'] as string;
-    const hmacHeader = req.headers['x-shopify-hmac-sha256'] as string;
-    
-    // Verify webhook signature in production
-    if (process.env.NODE_ENV === 'production' && process.env.SHOPIFY_WEBHOOK_SECRET) {
-      const isValid = ShopifyService.verifyWebhookSignature(
-        JSON.stringify(req.body),
-        hmacHeader,
-        process.env.SHOPIFY_WEBHOOK_SECRET
-      );
-      if (!isValid) {
-        console.warn(`Invalid Shopify webhook signature from ${shopDomain}`);
-        return res.status(401).send('Invalid signature');
-      }
-    }
+
+    const signatureStatus = webhookInboxService.checkSignature(
+      'SHOPIFY',
+      getRawBody(req),
+      req.headers,
+      process.env.SHOPIFY_WEBHOOK_SECRET
+    );
 
     console.log(`[Webhook] Received Shopify event: ${topic} from ${shopDomain}`);
     
@@ -1091,32 +1307,44 @@ router.post('/webhooks/shopify/:topic', async (req: Request, res: Response) => {
       },
     });
 
+    // Store but reject invalid signatures in production
+    if (process.env.NODE_ENV === 'production' && signatureStatus === 'INVALID') {
+      console.warn(`Invalid Shopify webhook signature from ${shopDomain}`);
+      await rejectThroughInbox(req, channel, topic, 'standard');
+      return res.status(401).send('Invalid signature');
+    }
+
     if (!channel) {
       console.warn(`[Webhook] No active channel found for shop domain: ${shopDomain}`);
       return res.status(200).send('OK'); // Still return 200 to acknowledge receipt
     }
 
-    // Process the webhook event using the WebhookProcessorService
-    if (webhookProcessor) {
-      // IMPORTANT: Await processing to ensure it completes before serverless function terminates
-      // This prevents intermittent data loss in Vercel serverless environment
-      try {
-        const result = await webhookProcessor.processWebhook({
-          channelId: channel.id,
-          channelType: 'SHOPIFY',
-          topic,
-          payload: req.body,
-        });
+    // IMPORTANT: Await processing to ensure it completes before serverless function terminates
+    // This prevents intermittent data loss in Vercel serverless environment
+    try {
+      const result = await processThroughInbox(req, channel, topic, signatureStatus, 'standard', async () => {
+        // Process the webhook event using the WebhookProcessorService
+        if (webhookProcessor) {
+          return webhookProcessor.processWebhook({
+            channelId: channel.id,
+            channelType: 'SHOPIFY',
+            topic,
+            payload: req.body,
+          });
+        }
+
+        // Fallback to sync scheduler if webhook processor not available
+        if (syncScheduler) {
+          await syncScheduler.triggerSyncForChannel(channel.id, false);
+        }
+        return { success: true, action: 'sync_triggered' };
+      });
+      if (result) {
         console.log(`[Webhook] Shopify ${topic} processed:`, result);
-      } catch (error) {
-        console.error(`[Webhook] Error processing Shopify ${topic}:`, error);
-        // Still return 200 to prevent Shopify from retrying
-      }
-    } else {
-      // Fallback to sync scheduler if webhook processor not available
-      if (syncScheduler) {
-        await syncScheduler.triggerSyncForChannel(channel.id, false);
       }
+    } catch (error) {
+      console.error(`[Webhook] Error processing Shopify ${topic}:`, error);
+      // Still return 200 to prevent Shopify from retrying
     }
 
     res.status(200).send('OK');
@@ -1134,21 +1362,14 @@ router.post('/webhooks/woocommerce/:topic', async (req: Request, res: Response)
   try {
     const { topic } = req.params;
     const webhookSource = req.headers['x-wc-webhook-source'] as string;
-    const signature = req.headers['x-wc-webhook-signature'] as string;
-    
-    // Verify webhook signature in production
-    if (process.env.NODE_ENV === 'production' && process.env.WOOCOMMERCE_WEBHOOK_SECRET) {
-      const isValid = WooCommerceService.verifyWebhookSignature(
-        JSON.stringify(req.body),
-        signature,
-        process.env.WOOCOMMERCE_WEBHOOK_SECRET
-      );
-      if (!isValid) {
-        console.warn(`[Webhook] Invalid WooCommerce webhook signature from ${webhookSource}`);
-        return res.status(401).send('Invalid signature');
-      }
-    }
-    
+
+    const signatureStatus = webhookInboxService.checkSignature(
+      'WOOCOMMERCE',
+      getRawBody(req),
+      req.headers,
+      process.env.WOOCOMMERCE_WEBHOOK_SECRET
+    );
+
     console.log(`[Webhook] Received WooCommerce event: ${topic} from ${webhookSource}`);
     
     // Find channel by API URL
@@ -1166,32 +1387,45 @@ router.post('/webhooks/woocommerce/:topic', async (req: Request, res: Response)
       console.warn(`[Webhook] Invalid webhook source URL: ${webhookSource}`);
     }
 
+    // Store but reject invalid signatures in production
+    if (process.env.NODE_ENV === 'production' && signatureStatus === 'INVALID') {
+      console.warn(`[Webhook] Invalid WooCommerce webhook signature from ${webhookSource}`);
+      await rejectThroughInbox(req, channel, topic, 'standard');
+      return res.status(401).send('Invalid signature');
+    }
+
     if (!channel) {
       console.warn(`[Webhook] No active channel found for source: ${webhookSource}`);
       return res.status(200).send('OK');
     }
 
-    // Process the webhook event using the WebhookProcessorService
-    if (webhookProcessor) {
-      // IMPORTANT: Await processing to ensure it completes before serverless function terminates
-      // This prevents intermittent data loss in Vercel serverless environment
-      try {
-        const result = await webhookProcessor.processWebhook({
-          channelId: channel.id,
-          channelType: 'WOOCOMMERCE',
-          topic,
-          payload: req.body,
-        });
+    // IMPORTANT: Await processing to ensure it completes before serverless function terminates
+    // This prevents intermittent data loss in Vercel serverless environment
+    try {
+      const wooChannel = channel;
+      const result = await processThroughInbox(req, wooChannel, topic, signatureStatus, 'standard', async () => {
+        // Process the webhook event using the WebhookProcessorService
+        if (webhookProcessor) {
+          return webhookProcessor.processWebhook({
+            channelId: wooChannel.id,
+            channelType: 'WOOCOMMERCE',
+            topic,
+            payload: req.body,
+          });
+        }
+
+        // Fallback to sync scheduler if webhook processor not available
+        if (syncScheduler) {
+          await syncScheduler.triggerSyncForChannel(wooChannel.id, false);
+        }
+        return { success: true, action: 'sync_triggered' };
+      });
+      if (result) {
         console.log(`[Webhook] WooCommerce ${topic} processed:`, result);
-      } catch (error) {
-        console.error(`[Webhook] Error processing WooCommerce ${topic}:`, error);
-        // Still return 200 to prevent WooCommerce from retrying
-      }
-    } else {
-      // Fallback to sync scheduler if webhook processor not available
-      if (syncScheduler) {
-        await syncScheduler.triggerSyncForChannel(channel.id, false);
       }
+    } catch (error) {
+      console.error(`[Webhook] Error processing WooCommerce ${topic}:`, error);
+      // Still return 200 to prevent WooCommerce from retrying
     }
 
     res.status(200).send('OK');
@@ -1201,6 +1435,215 @@ router.post('/webhooks/woocommerce/:topic', async (req: Request, res: Response)
   }
 });
 
+// ============= WEBHOOK INBOX CONSOLE (ADMIN) =============
+
+const INBOX_STATUSES: WebhookInboxStatus[] = ['RECEIVED', 'PROCESSING', 'PROCESSED', 'SKIPPED', 'FAILED'];
+const SIGNATURE_STATUSES: WebhookSignatureStatus[] = ['VALID', 'INVALID', 'NOT_CHECKED'];
+const MAX_BATCH_REPLAY = 100;
+
+// Inbox filters from a query string or request body. Returns an error message for invalid values.
+const parseInboxFilters = (source: Record<string, unknown>): InboxListFilters | string => {
+  const { channelId, topic, status, signatureStatus, from, to } = source;
+
+  if (status && !INBOX_STATUSES.includes(status as WebhookInboxStatus)) {
+    return `Status must be one of: ${INBOX_STATUSES.join(', ')}`;
+  }
+  if (signatureStatus && !SIGNATURE_STATUSES.includes(signatureStatus as WebhookSignatureStatus)) {
+    return `Signature status must be one of: ${SIGNATURE_STATUSES.join(', ')}`;
+  }
+
+  const fromDate = from ? new Date(from as string) : undefined;
+  const toDate = to ? new Date(to as string) : undefined;
+  if ((fromDate && isNaN(fromDate.getTime())) || (toDate && isNaN(toDate.getTime()))) {
+    return 'from and to must be valid dates';
+  }
+
+  return {
+    channelId: channelId as string | undefined,
+    topic: topic as string | undefined,
+    status: status as WebhookInboxStatus | undefined,
+    signatureStatus: signatureStatus as WebhookSignatureStatus | undefined,
+    from: fromDate,
+    to: toDate,
+  };
+};
+
+// Run a stored webhook through the current code of the processor that received it.
+// A dry run passes its client, and gets processors of its own built on it.
+const runInboxEntry = (entry: WebhookInboxEntry, dryRunClient?: PrismaClient): Promise<InboxProcessResult> => {
+  const event = {
+    channelId: entry.channelId,
+    channelType: entry.channelType,
+    topic: entry.topic,
+    payload: webhookInboxService.parsePayload(entry),
+  };
+
+  if (entry.processor === 'enhanced') {
+    if (dryRunClient) {
+      return new EnhancedWebhookProcessor(dryRunClient).processWebhook({ ...event, webhookId: entry.externalId });
+    }
+    if (!enhancedWebhookProcessor) {
+      enhancedWebhookProcessor = new EnhancedWebhookProcessor(prisma);
+    }
+    return enhancedWebhookProcessor.processWebhook({ ...event, webhookId: entry.externalId });
+  }
+
+  if (dryRunClient) {
+    return new WebhookProcessorService(dryRunClient, new SyncQueueProcessor(dryRunClient)).processWebhook(event);
+  }
+  return webhookProcessor.processWebhook(event);
+};
+
+// Replay one entry, or dry-run it when dryRun is set. Entries with an invalid signature
+// are only replayed with force.
+const replayInboxEntry = async (entry: WebhookInboxEntry, dryRun: boolean, force: boolean) => {
+  if (dryRun) {
+    return { id: entry.id, topic: entry.topic, dryRun, preview: await webhookInboxService.preview(entry, client => runInboxEntry(entry, client)) };
+  }
+
+  if (entry.signatureStatus === 'INVALID' && !force) {
+    return { id: entry.id, topic: entry.topic, dryRun, refused: true, error: 'Signature is invalid - replay with force to process it anyway' };
+  }
+
+  const result = await webhookInboxService.reprocess(entry.id, () => runInboxEntry(entry));
+  return { id: entry.id, topic: entry.topic, dryRun, inProgress: result === null, result };
+};
+
+/**
+ * List received channel webhooks with their processing outcome
+ * Query: channelId, topic, status, signatureStatus, from, to, page, limit
+ */
+router.get('/webhook-inbox', authenticate, requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const filters = parseInboxFilters(req.query);
+    if (typeof filters === 'string') {
+      return res.status(400).json({ success: false, error: filters });
+    }
+
+    const { page, limit } = req.query;
+    const result = await webhookInboxService.list({
+      ...filters,
+      page: page ? parseInt(page as string) : 1,
+      limit: limit ? parseInt(limit as string) : 50,
+    });
+
+    res.json({ success: true, data: result.entries, pagination: result.pagination });
+  } catch (error) {
+    console.error('Error fetching webhook inbox:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch webhook inbox' });
+  }
+});
+
+/**
+ * Get one received webhook with its headers and payload
+ */
+router.get('/webhook-inbox/:id', authenticate, requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const entry = await webhookInboxService.findById(req.params.id as string);
+    if (!entry) {
+      return res.status(404).json({ success: false, error: 'Webhook not found' });
+    }
+
+    let payload: Record<string, unknown> | null = null;
+    try {
+      payload = webhookInboxService.parsePayload(entry);
+    } catch {
+      // Body is not JSON; the raw body is still returned
+    }
+
+    res.json({ success: true, data: { ...entry, payload } });
+  } catch (error) {
+    console.error('Error fetching webhook inbox entry:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch webhook' });
+  }
+});
+
+/**
+ * Re-run a filtered batch of received webhooks (oldest first, one after another)
+ * Body: channelId, topic, status, signatureStatus, from, to, limit (max 100), dryRun,
+ * force - also replay webhooks with an invalid signature
+ */
+router.post(
+  '/webhook-inbox/replay',
+  authenticate,
+  requireAdmin,
+  audit({ action: 'REPLAY_CHANNEL_WEBHOOKS', entityType: 'WebhookInbox', snapshot: false }),
+  async (req: Request, res: Response) => {
+    try {
+      const filters = parseInboxFilters(req.body ?? {});
+      if (typeof filters === 'string') {
+        return res.status(400).json({ success: false, error: filters });
+      }
+      if (!filters.channelId && !filters.topic && !filters.status) {
+        return res.status(400).json({ success: false, error: 'channelId, topic or status is required' });
+      }
+
+      const dryRun = req.body.dryRun === true;
+      const force = req.body.force === true;
+      const limit = Math.min(MAX_BATCH_REPLAY, Math.max(1, parseInt(req.body.limit) || 25));
+      const ids = await webhookInboxService.findIds(filters, limit);
+
+      const results = [];
+      for (const id of ids) {
+        const entry = await webhookInboxService.findById(id);
+        if (!entry) continue;
+
+        try {
+          results.push(await replayInboxEntry(entry, dryRun, force));
+        } catch (error) {
+          results.push({
+            id,
+            topic: entry.topic,
+            dryRun,
+            error: error instanceof Error ? error.message : 'Unknown error',
+          });
+        }
+      }
+
+      res.json({ success: true, data: { dryRun, count: results.length, results } });
+    } catch (error) {
+      console.error('Error replaying webhooks:', error);
+      res.status(500).json({ success: false, error: 'Failed to replay webhooks' });
+    }
+  }
+);
+
+/**
+ * Re-run one received webhook through the current processor code
+ * Body: dryRun - run the processor with every write rolled back and list the writes,
+ * force - replay even when the signature is invalid
+ */
+router.post(
+  '/webhook-inbox/:id/replay',
+  authenticate,
+  requireAdmin,
+  audit({ action: 'REPLAY_CHANNEL_WEBHOOK', entityType: 'WebhookInbox', snapshot: false }),
+  async (req: Request, res: Response) => {
+    try {
+      const entry = await webhookInboxService.findById(req.params.id as string);
+      if (!entry) {
+        return res.status(404).json({ success: false, error: 'Webhook not found' });
+      }
+
+      const replay = await replayInboxEntry(entry, req.body?.dryRun === true, req.body?.force === true);
+      if ('refused' in replay) {
+        return res.status(409).json({ success: false, error: replay.error });
+      }
+      if (replay.dryRun === false && replay.inProgress) {
+        return res.status(409).json({ success: false, error: 'Webhook is being processed' });
+      }
+
+      res.json({ success: true, data: replay });
+    } catch (error) {
+      console.error('Error replaying webhook:', error);
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to replay webhook',
+      });
+    }
+  }
+);
+
 // ============= CLIENT ONBOARDING ENDPOINTS =============
 
 /**
@@ -1623,10 +2066,158 @@ router.post('/onboarding/channel/woocommerce', async (req: Request, res: Respons
   }
 });
 
+/**
+ * Add an Amazon (merchant-fulfilled) channel for a client
+ */
+router.post('/onboarding/channel/amazon', authenticate, requireChannelManager, async (req: Request, res: Response) => {
+  try {
+    const { clientId, sellerId, marketplaceId, lwaClientId, lwaClientSecret, refreshToken, region, endpoint } = req.body;
+
+    if (!clientId || !sellerId || !marketplaceId || !lwaClientId || !lwaClientSecret || !refreshToken) {
+      return res.status(400).json({
+        success: false,
+        error: 'Missing required parameters: clientId, sellerId, marketplaceId, lwaClientId, lwaClientSecret, refreshToken',
+      });
+    }
+
+    if (region && !(region in AMAZON_ENDPOINTS)) {
+      return res.status(400).json({
+        success: false,
+        error: `Invalid region. Must be one of: ${Object.keys(AMAZON_ENDPOINTS).join(', ')}`,
+      });
+    }
+
+    if (endpoint && !isAmazonEndpoint(endpoint)) {
+      return res.status(400).json({
+        success: false,
+        error: `Invalid endpoint. Must be one of: ${Object.values(AMAZON_ENDPOINTS).join(', ')}`,
+      });
+    }
+
+    if (req.user?.role === 'CLIENT' && clientId !== req.user.clientId) {
+      return res.status(403).json({
+        success: false,
+        error: 'Access denied',
+      });
+    }
+
+    console.log(`[Amazon Setup] Setting up channel for client ${clientId}, seller: ${sellerId}, marketplace: ${marketplaceId}`);
+
+    const onboardingService = new ClientOnboardingService(prisma);
+    const result = await onboardingService.addAmazonChannel(req.body);
+
+    if (result.success) {
+      res.status(201).json(result);
+    } else {
+      res.status(400).json(result);
+    }
+  } catch (error) {
+    console.error('[Amazon Setup] Error adding channel:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * Add an eBay channel for a client
+ */
+router.post('/onboarding/channel/ebay', authenticate, requireChannelManager, async (req: Request, res: Response) => {
+  try {
+    const { clientId, sellerUsername, marketplaceId, appId, certId, refreshToken, environment, endpoint } = req.body;
+
+    if (!clientId || !sellerUsername || !marketplaceId || !appId || !certId || !refreshToken) {
+      return res.status(400).json({
+        success: false,
+        error: 'Missing required parameters: clientId, sellerUsername, marketplaceId, appId, certId, refreshToken',
+      });
+    }
+
+    if (environment && !(environment in EBAY_ENDPOINTS)) {
+      return res.status(400).json({
+        success: false,
+        error: `Invalid environment. Must be one of: ${Object.keys(EBAY_ENDPOINTS).join(', ')}`,
+      });
+    }
+
+    if (endpoint && !isEbayEndpoint(endpoint)) {
+      return res.status(400).json({
+        success: false,
+        error: `Invalid endpoint. Must be one of: ${Object.values(EBAY_ENDPOINTS).join(', ')}`,
+      });
+    }
+
+    if (req.user?.role === 'CLIENT' && clientId !== req.user.clientId) {
+      return res.status(403).json({
+        success: false,
+        error: 'Access denied',
+      });
+    }
+
+    console.log(`[eBay Setup] Setting up channel for client ${clientId}, seller: ${sellerUsername}, marketplace: ${marketplaceId}`);
+
+    const onboardingService = new ClientOnboardingService(prisma);
+    const result = await onboardingService.addEbayChannel(req.body);
+
+    if (result.success) {
+      res.status(201).json(result);
+    } else {
+      res.status(400).json(result);
+    }
+  } catch (error) {
+    console.error('[eBay Setup] Error adding channel:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * Add a file channel (CSV/XML order files via local directory or SFTP) for a client
+ */
+router.post('/onboarding/channel/file', authenticate, requireChannelManager, async (req: Request, res: Response) => {
+  try {
+    const { clientId, fileConfig } = req.body;
+
+    if (!clientId || !fileConfig) {
+      return res.status(400).json({
+        success: false,
+        error: 'Missing required parameters: clientId, fileConfig',
+      });
+    }
+
+    if (req.user?.role === 'CLIENT' && clientId !== req.user.clientId) {
+      return res.status(403).json({
+        success: false,
+        error: 'Access denied',
+      });
+    }
+
+    console.log(`[File Setup] Setting up channel for client ${clientId}, transport: ${fileConfig.transport}, format: ${fileConfig.format}`);
+
+    const onboardingService = new ClientOnboardingService(prisma);
+    const result = await onboardingService.addFileChannel(req.body);
+
+    if (result.success) {
+      res.status(201).json(result);
+    } else {
+      res.status(400).json(result);
+    }
+  } catch (error) {
+    console.error('[File Setup] Error adding channel:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
 /**
  * Trigger initial sync for a channel
  */
-router.post('/onboarding/sync/:channelId', async (req: Request, res: Response) => {
+router.post('/onboarding/sync/:channelId', syncRateLimit, async (req: Request, res: Response) => {
   try {
     const { channelId } = req.params;
     const { syncFromDate, enableHistoricalSync } = req.body;
@@ -1656,7 +2247,7 @@ router.post('/onboarding/sync/:channelId', async (req: Request, res: Response) =
  * Start background sync with user-selected date
  * This is called after JTL OAuth completion with the date the user wants to sync from
  */
-router.post('/sync/background/:channelId', async (req: Request, res: Response) => {
+router.post('/sync/background/:channelId', syncRateLimit, async (req: Request, res: Response) => {
   try {
     const { channelId } = req.params;
     const { syncFromDate } = req.body;
@@ -1697,7 +2288,7 @@ router.post('/sync/background/:channelId', async (req: Request, res: Response) =
  * Trigger historic data sync for a channel (last 180 days)
  * This is used for initial onboarding to pull historic orders, returns, and inbounds
  */
-router.post('/sync/historic/:channelId', authenticate, async (req: Request, res: Response) => {
+router.post('/sync/historic/:channelId', authenticate, syncRateLimit, async (req: Request, res: Response) => {
   try {
     const { channelId } = req.params;
     const { daysBack = 180 } = req.body;
@@ -2018,7 +2609,7 @@ function maskCredential(value: string | null | undefined, type: 'clientId' | 'cl
 /**
  * Get masked credentials for a channel (for display in UI)
  */
-router.get('/channels/:channelId/credentials', authenticate, async (req: Request, res: Response) => {
+router.get('/channels/:channelId/credentials', authenticate, requireChannelManager, async (req: Request, res: Response) => {
   try {
     const { channelId } = req.params;
     const clientId = req.user?.clientId;
@@ -2104,7 +2695,7 @@ router.get('/channels/:channelId/credentials', authenticate, async (req: Request
 /**
  * Update credentials for a channel
  */
-router.put('/channels/:channelId/credentials', authenticate, async (req: Request, res: Response) => {
+router.put('/channels/:channelId/credentials', authenticate, requireChannelManager, async (req: Request, res: Response) => {
   try {
     const { channelId } = req.params;
     const { storeUrl, clientId: newClientId, clientSecret: newClientSecret } = req.body;
@@ -2293,7 +2884,7 @@ router.get('/channels/:channelId/shipping-mappings', authenticate, async (req: R
  * Save shipping method mappings for a channel
  * Maps channel shipping methods (from Shopify/WooCommerce) to warehouse methods (JTL FFN)
  */
-router.put('/channels/:channelId/shipping-mappings', authenticate, async (req: Request, res: Response) => {
+router.put('/channels/:channelId/shipping-mappings', authenticate, requireChannelManager, async (req: Request, res: Response) => {
   try {
     const { channelId } = req.params;
     const { mappings } = req.body;
@@ -2531,7 +3122,7 @@ router.put('/sync/push/inventory/:productId', authenticate, async (req: Request,
     // If channelId provided, update only that channel, otherwise update all channels
     let results: any[];
     if (channelId) {
-      const result = await biDirectionalSyncService.updateInventoryOnPlatform(productId, channelId, stockQuantity);
+      const result = await biDirectionalSyncService.updateInventoryOnPlatform(productId, channelId, stockQuantity, req.user?.userId);
       results = [result];
     } else {
       // Get all channels for this product
@@ -2542,7 +3133,7 @@ router.put('/sync/push/inventory/:productId', authenticate, async (req: Request,
 
       results = await Promise.all(
         productChannels.map(pc =>
-          biDirectionalSyncService.updateInventoryOnPlatform(productId, pc.channelId, stockQuantity)
+          biDirectionalSyncService.updateInventoryOnPlatform(productId, pc.channelId, stockQuantity, req.user?.userId)
         )
       );
     }
@@ -2603,7 +3194,7 @@ router.post('/sync/push/refund/:returnId', authenticate, async (req: Request, re
 /**
  * Sync all products for a channel to the platform
  */
-router.post('/sync/push/channel/:channelId/products', authenticate, async (req: Request, res: Response) => {
+router.post('/sync/push/channel/:channelId/products', authenticate, syncRateLimit, async (req: Request, res: Response) => {
   try {
     const { channelId } = req.params;
 
@@ -2692,9 +3283,6 @@ export function stopEnhancedSyncProcessors(): void {
   if (jtlPollingService) {
     jtlPollingService.stop();
   }
-  if (enhancedWebhookProcessor) {
-    enhancedWebhookProcessor.destroy();
-  }
 }
 
 /**
@@ -2914,7 +3502,7 @@ router.post('/product-sync/product/:productId/retry-failed', authenticate, async
 /**
  * Full sync for all products of a client
  */
-router.post('/product-sync/client/:clientId/full-sync', authenticate, async (req: Request, res: Response) => {
+router.post('/product-sync/client/:clientId/full-sync', authenticate, syncRateLimit, async (req: Request, res: Response) => {
   try {
     const { clientId } = req.params;
 
@@ -2942,7 +3530,7 @@ router.post('/product-sync/client/:clientId/full-sync', authenticate, async (req
  * Pull products FROM JTL FFN to update local database with jtlProductId
  * This resolves "duplicate product" errors
  */
-router.post('/product-sync/client/:clientId/pull-from-jtl', authenticate, async (req: Request, res: Response) => {
+router.post('/product-sync/client/:clientId/pull-from-jtl', authenticate, syncRateLimit, async (req: Request, res: Response) => {
   try {
     const { clientId } = req.params;
 
@@ -2971,7 +3559,7 @@ router.post('/product-sync/client/:clientId/pull-from-jtl', authenticate, async
  * Creates products locally WITHOUT syncing to sales channels
  * Use for warehouse-only products or to populate dashboard inventory
  */
-router.post('/product-sync/client/:clientId/import-from-jtl', authenticate, async (req: Request, res: Response) => {
+router.post('/product-sync/client/:clientId/import-from-jtl', authenticate, syncRateLimit, async (req: Request, res: Response) => {
   try {
     const { clientId } = req.params;
 
@@ -2999,7 +3587,7 @@ router.post('/product-sync/client/:clientId/import-from-jtl', authenticate, asyn
  * Sync historical order statuses from JTL FFN
  * This fetches order statuses from JTL, updates local DB, and pushes to channels (Shopify/WooCommerce)
  */
-router.post('/channel/:channelId/sync-order-statuses', authenticate, async (req: Request, res: Response) => {
+router.post('/channel/:channelId/sync-order-statuses', authenticate, syncRateLimit, async (req: Request, res: Response) => {
   try {
     const { channelId } = req.params;
 
@@ -3154,21 +3742,14 @@ router.post(/^\/webhooks\/shopify-enhanced\/(.+)$/, async (req: Request, res: Re
     // Extract topic from regex capture group
     const topic = req.params[0];
     const shopDomain = req.headers['x-shopify-shop-domain'] as string;
-    const hmacHeader = req.headers['x-shopify-hmac-sha256'] as string;
     const webhookId = req.headers['x-shopify-webhook-id'] as string;
 
-    // Verify webhook signature in production
-    if (process.env.NODE_ENV === 'production' && process.env.SHOPIFY_WEBHOOK_SECRET) {
-      const isValid = ShopifyService.verifyWebhookSignature(
-        JSON.stringify(req.body),
-        hmacHeader,
-        process.env.SHOPIFY_WEBHOOK_SECRET
-      );
-      if (!isValid) {
-        console.warn(`[Webhook] Invalid Shopify signature from ${shopDomain}`);
-        return res.status(401).send('Invalid signature');
-      }
-    }
+    const signatureStatus = webhookInboxService.checkSignature(
+      'SHOPIFY',
+      getRawBody(req),
+      req.headers,
+      process.env.SHOPIFY_WEBHOOK_SECRET
+    );
 
     console.log(`[Webhook] Enhanced Shopify event: ${topic} from ${shopDomain}`);
 
@@ -3177,6 +3758,13 @@ router.post(/^\/webhooks\/shopify-enhanced\/(.+)$/, async (req: Request, res: Re
       where: { type: 'SHOPIFY', shopDomain, isActive: true },
     });
 
+    // Store but reject invalid signatures in production
+    if (process.env.NODE_ENV === 'production' && signatureStatus === 'INVALID') {
+      console.warn(`[Webhook] Invalid Shopify signature from ${shopDomain}`);
+      await rejectThroughInbox(req, channel, topic, 'enhanced');
+      return res.status(401).send('Invalid signature');
+    }
+
     if (!channel) {
       console.warn(`[Webhook] No channel found for: ${shopDomain}`);
       return res.status(200).send('OK');
@@ -3189,19 +3777,23 @@ router.post(/^\/webhooks\/shopify-enhanced\/(.+)$/, async (req: Request, res: Re
 
     // IMPORTANT: Await processing to ensure it completes before serverless function terminates
     try {
-      const result = await enhancedWebhookProcessor.processWebhook({
-        channelId: channel.id,
-        channelType: 'SHOPIFY',
-        topic,
-        payload: req.body,
-        webhookId,
-      });
-      console.log(`[Webhook] Enhanced Shopify ${topic} processed:`, {
-        success: result.success,
-        action: result.action,
-        entityType: result.entityType,
-        syncQueuedTo: result.syncQueuedTo,
-      });
+      const result = await processThroughInbox(req, channel, topic, signatureStatus, 'enhanced', () =>
+        enhancedWebhookProcessor.processWebhook({
+          channelId: channel.id,
+          channelType: 'SHOPIFY',
+          topic,
+          payload: req.body,
+          webhookId,
+        })
+      );
+      if (result) {
+        console.log(`[Webhook] Enhanced Shopify ${topic} processed:`, {
+          success: result.success,
+          action: result.action,
+          entityType: result.entityType,
+          syncQueuedTo: result.syncQueuedTo,
+        });
+      }
     } catch (error) {
       console.error(`[Webhook] Error processing enhanced Shopify ${topic}:`, error);
     }
@@ -3222,8 +3814,14 @@ router.post(/^\/webhooks\/woocommerce-enhanced\/(.+)$/, async (req: Request, res
     // Extract topic from regex capture group
     const topic = req.params[0];
     const webhookSource = req.headers['x-wc-webhook-source'] as string;
-    const webhookId = req.headers['x-wc-webhook-id'] as string;
-    const webhookSignature = req.headers['x-wc-webhook-signature'] as string;
+    const webhookId = req.headers['x-wc-webhook-delivery-id'] as string;
+
+    const signatureStatus = webhookInboxService.checkSignature(
+      'WOOCOMMERCE',
+      getRawBody(req),
+      req.headers,
+      process.env.WOOCOMMERCE_WEBHOOK_SECRET
+    );
 
     console.log(`[Webhook] Enhanced WooCommerce event: ${topic} from ${webhookSource}`);
 
@@ -3236,6 +3834,13 @@ router.post(/^\/webhooks\/woocommerce-enhanced\/(.+)$/, async (req: Request, res
       },
     });
 
+    // Store but reject invalid signatures in production
+    if (process.env.NODE_ENV === 'production' && signatureStatus === 'INVALID') {
+      console.warn(`[Webhook] Invalid WooCommerce signature from ${webhookSource}`);
+      await rejectThroughInbox(req, channel, topic, 'enhanced');
+      return res.status(401).send('Invalid signature');
+    }
+
     if (!channel) {
       console.warn(`[Webhook] No channel found for: ${webhookSource}`);
       return res.status(200).send('OK');
@@ -3248,19 +3853,23 @@ router.post(/^\/webhooks\/woocommerce-enhanced\/(.+)$/, async (req: Request, res
 
     // IMPORTANT: Await processing to ensure it completes before serverless function terminates
     try {
-      const result = await enhancedWebhookProcessor.processWebhook({
-        channelId: channel.id,
-        channelType: 'WOOCOMMERCE',
-        topic,
-        payload: req.body,
-        webhookId,
-      });
-      console.log(`[Webhook] Enhanced WooCommerce ${topic} processed:`, {
-        success: result.success,
-        action: result.action,
-        entityType: result.entityType,
-        syncQueuedTo: result.syncQueuedTo,
-      });
+      const result = await processThroughInbox(req, channel, topic, signatureStatus, 'enhanced', () =>
+        enhancedWebhookProcessor.processWebhook({
+          channelId: channel.id,
+          channelType: 'WOOCOMMERCE',
+          topic,
+          payload: req.body,
+          webhookId,
+        })
+      );
+      if (result) {
+        console.log(`[Webhook] Enhanced WooCommerce ${topic} processed:`, {
+          success: result.success,
+          action: result.action,
+          entityType: result.entityType,
+          syncQueuedTo: result.syncQueuedTo,
+        });
+      }
     } catch (error) {
       console.error(`[Webhook] Error processing enhanced WooCommerce ${topic}:`, error);
     }
@@ -3664,7 +4273,7 @@ router.post('/products/:productId/link-jtl', authenticate, async (req: Request,
  * Fetch ALL products from a channel without date filter
  * Useful for migration clients or when date-based sync misses products
  */
-router.post('/channel/:channelId/fetch-all-products', authenticate, async (req: Request, res: Response) => {
+router.post('/channel/:channelId/fetch-all-products', authenticate, syncRateLimit, async (req: Request, res: Response) => {
   try {
     const { channelId } = req.params;
 
@@ -3773,7 +4382,7 @@ router.post('/channel/:channelId/fetch-all-products', authenticate, async (req:
  * Fetch ALL orders from a channel without date filter
  * Useful for migration clients or when date-based sync misses orders
  */
-router.post('/channel/:channelId/fetch-all-orders', authenticate, async (req: Request, res: Response) => {
+router.post('/channel/:channelId/fetch-all-orders', authenticate, syncRateLimit, async (req: Request, res: Response) => {
   try {
     const { channelId } = req.params;
 
@@ -3882,7 +4491,7 @@ router.post('/channel/:channelId/fetch-all-orders', authenticate, async (req: Re
  * Fetch ALL data (products, orders, returns) from a channel without date filter
  * This is a convenience endpoint that fetches everything at once
  */
-router.post('/channel/:channelId/fetch-all', authenticate, async (req: Request, res: Response) => {
+router.post('/channel/:channelId/fetch-all', authenticate, syncRateLimit, async (req: Request, res: Response) => {
   try {
     const { channelId } = req.params;
 
@@ -0,0 +1,20 @@
+import { Router } from 'express';
+import { getLots, getProductLots, getLotRecall } from '../controllers/lots.controller.js';
+import { authenticate, requireAnyRole } from '../middleware/auth.js';
+
+const router = Router();
+
+// Every user may see the lots of their own client
+router.use(authenticate);
+router.use(requireAnyRole);
+
+// GET /api/lots - Get lots in FEFO order
+router.get('/', getLots);
+
+// GET /api/lots/recall?lotNumber= - Get orders that received a lot
+router.get('/recall', getLotRecall);
+
+// GET /api/lots/products/:productId - Get a product's lots
+router.get('/products/:productId', getProductLots);
+
+export default router;
@@ -0,0 +1,69 @@
+import { Router } from 'express';
+import {
+  getWebhookEvents,
+  getWebhookSubscriptions,
+  createWebhookSubscription,
+  updateWebhookSubscription,
+  rotateWebhookSecret,
+  deleteWebhookSubscription,
+  getWebhookDeliveries,
+  getWebhookDelivery,
+  replayWebhookDelivery,
+} from '../controllers/merchant-webhooks.controller.js';
+import { authenticate, requireAdminOrClientOwner } from '../middleware/auth.js';
+import { audit } from '../middleware/audit.js';
+
+const router = Router();
+
+// Admins manage webhooks of any client, client owners their own
+router.use(authenticate);
+router.use(requireAdminOrClientOwner);
+
+// GET /api/webhooks/events - Get available events
+router.get('/events', getWebhookEvents);
+
+// GET /api/webhooks/subscriptions - Get webhook subscriptions
+router.get('/subscriptions', getWebhookSubscriptions);
+
+// POST /api/webhooks/subscriptions - Create webhook subscription
+router.post(
+  '/subscriptions',
+  audit({ action: 'CREATE_WEBHOOK_SUBSCRIPTION', entityType: 'WebhookSubscription' }),
+  createWebhookSubscription
+);
+
+// PATCH /api/webhooks/subscriptions/:id - Update webhook subscription
+router.patch(
+  '/subscriptions/:id',
+  audit({ action: 'UPDATE_WEBHOOK_SUBSCRIPTION', entityType: 'WebhookSubscription' }),
+  updateWebhookSubscription
+);
+
+// POST /api/webhooks/subscriptions/:id/rotate-secret - Replace signing secret
+router.post(
+  '/subscriptions/:id/rotate-secret',
+  audit({ action: 'ROTATE_WEBHOOK_SECRET', entityType: 'WebhookSubscription', snapshot: false }),
+  rotateWebhookSecret
+);
+
+// DELETE /api/webhooks/subscriptions/:id - Delete webhook subscription
+router.delete(
+  '/subscriptions/:id',
+  audit({ action: 'DELETE_WEBHOOK_SUBSCRIPTION', entityType: 'WebhookSubscription' }),
+  deleteWebhookSubscription
+);
+
+// GET /api/webhooks/deliveries - Get delivery log
+router.get('/deliveries', getWebhookDeliveries);
+
+// GET /api/webhooks/deliveries/:id - Get delivery details
+router.get('/deliveries/:id', getWebhookDelivery);
+
+// POST /api/webhooks/deliveries/:id/replay - Send a delivery again
+router.post(
+  '/deliveries/:id/replay',
+  audit({ action: 'REPLAY_WEBHOOK_DELIVERY', entityType: 'WebhookDelivery', snapshot: false }),
+  replayWebhookDelivery
+);
+
+export default router;
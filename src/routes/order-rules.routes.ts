@@ -0,0 +1,65 @@
+import { Router } from 'express';
+import {
+  getOrderRuleOptions,
+  getOrderRules,
+  getOrderRule,
+  createOrderRule,
+  updateOrderRule,
+  deleteOrderRule,
+  reorderOrderRules,
+  simulateOrderRules,
+  getOrderRuleExecutions,
+} from '../controllers/order-rules.controller.js';
+import { authenticate, requireAdminOrClientOwner } from '../middleware/auth.js';
+import { audit } from '../middleware/audit.js';
+
+const router = Router();
+
+// Admins manage rules of any client, client owners their own
+router.use(authenticate);
+router.use(requireAdminOrClientOwner);
+
+// GET /api/order-rules/options - Get condition fields and action types
+router.get('/options', getOrderRuleOptions);
+
+// GET /api/order-rules/executions - Get log of rules that fired
+router.get('/executions', getOrderRuleExecutions);
+
+// POST /api/order-rules/simulate - Dry-run rules against an order or sample values
+router.post('/simulate', simulateOrderRules);
+
+// POST /api/order-rules/reorder - Set evaluation order
+router.post(
+  '/reorder',
+  audit({ action: 'REORDER_ORDER_RULES', entityType: 'OrderRule', entityIds: req => req.body?.ruleIds, snapshot: false }),
+  reorderOrderRules
+);
+
+// GET /api/order-rules - Get order rules
+router.get('/', getOrderRules);
+
+// POST /api/order-rules - Create order rule
+router.post(
+  '/',
+  audit({ action: 'CREATE_ORDER_RULE', entityType: 'OrderRule' }),
+  createOrderRule
+);
+
+// GET /api/order-rules/:id - Get order rule
+router.get('/:id', getOrderRule);
+
+// PATCH /api/order-rules/:id - Update order rule
+router.patch(
+  '/:id',
+  audit({ action: 'UPDATE_ORDER_RULE', entityType: 'OrderRule' }),
+  updateOrderRule
+);
+
+// DELETE /api/order-rules/:id - Delete order rule
+router.delete(
+  '/:id',
+  audit({ action: 'DELETE_ORDER_RULE', entityType: 'OrderRule' }),
+  deleteOrderRule
+);
+
+export default router;
@@ -7,7 +7,8 @@ import {
   updateQuotationStatus,
   deleteQuotation,
 } from '../controllers/quotations.controller.js';
-import { authenticate, requireAdmin } from '../middleware/auth.js';
+import { authenticate, requireAdmin, requireBillingAccess } from '../middleware/auth.js';
+import { audit } from '../middleware/audit.js';
 
 const router = Router();
 
@@ -21,15 +22,15 @@ router.get('/', getQuotations);
 router.get('/:id', getQuotationById);
 
 // POST /api/quotations - Create new quotation (admin only)
-router.post('/', requireAdmin, createQuotation);
+router.post('/', requireAdmin, audit({ action: 'CREATE_QUOTATION', entityType: 'Quotation' }), createQuotation);
 
 // PUT /api/quotations/:id - Update quotation (admin only)
-router.put('/:id', requireAdmin, updateQuotation);
+router.put('/:id', requireAdmin, audit({ action: 'UPDATE_QUOTATION', entityType: 'Quotation' }), updateQuotation);
 
 // POST /api/quotations/:id/status - Update quotation status (client can accept/reject)
-router.post('/:id/status', updateQuotationStatus);
+router.post('/:id/status', requireBillingAccess, audit({ action: 'UPDATE_QUOTATION_STATUS', entityType: 'Quotation' }), updateQuotationStatus);
 
 // DELETE /api/quotations/:id - Delete quotation (admin only)
-router.delete('/:id', requireAdmin, deleteQuotation);
+router.delete('/:id', requireAdmin, audit({ action: 'DELETE_QUOTATION', entityType: 'Quotation' }), deleteQuotation);
 
 export default router;
@@ -0,0 +1,52 @@
+import { Router } from 'express';
+import {
+  searchSerial,
+  getOrderSerials,
+  addOrderItemSerials,
+  deleteOrderItemSerial,
+  checkReturnItemSerials,
+  setReturnItemSerials,
+} from '../controllers/serials.controller.js';
+import { authenticate, requireAnyRole, requireEmployee } from '../middleware/auth.js';
+import { audit } from '../middleware/audit.js';
+
+const router = Router();
+
+// Every user may look up serials of their own client; recording them is warehouse staff only
+router.use(authenticate);
+router.use(requireAnyRole);
+
+// GET /api/serials/search?serialNumber= - Find order, customer and returns of a serial
+router.get('/search', searchSerial);
+
+// GET /api/serials/orders/:orderId - Get serial numbers of an order
+router.get('/orders/:orderId', getOrderSerials);
+
+// POST /api/serials/orders/:orderId/items/:itemId - Enter serial numbers of an order line
+router.post(
+  '/orders/:orderId/items/:itemId',
+  requireEmployee,
+  audit({ action: 'ADD_ORDER_SERIALS', entityType: 'Order' }),
+  addOrderItemSerials
+);
+
+// DELETE /api/serials/:id - Remove a serial number from an order line
+router.delete(
+  '/:id',
+  requireEmployee,
+  audit({ action: 'DELETE_ORDER_SERIAL', entityType: 'Order', snapshot: false }),
+  deleteOrderItemSerial
+);
+
+// POST /api/serials/returns/:returnId/items/:returnItemId/check - Check serials of a returned item
+router.post('/returns/:returnId/items/:returnItemId/check', requireEmployee, checkReturnItemSerials);
+
+// PUT /api/serials/returns/:returnId/items/:returnItemId - Record serials of a returned item
+router.put(
+  '/returns/:returnId/items/:returnItemId',
+  requireEmployee,
+  audit({ action: 'UPDATE_RETURN_SERIALS', entityType: 'Return' }),
+  setReturnItemSerials
+);
+
+export default router;
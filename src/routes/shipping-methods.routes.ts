@@ -26,13 +26,17 @@ import {
   getUnresolvedMismatches,
   resolveMismatch,
 } from '../controllers/shipping-methods.controller.js';
-import { authenticate, requireAdmin } from '../middleware/auth.js';
+import { authenticate, requireAdmin, authorizeWrite } from '../middleware/auth.js';
+import { syncRateLimit } from '../middleware/rate-limit.js';
 
 const router = Router();
 
 // Apply authentication to all routes
 router.use(authenticate);
 
+// Shipping configuration is changed by client owners only (not staff/finance members)
+router.use(authorizeWrite('SUPER_ADMIN', 'ADMIN', 'EMPLOYEE', 'CLIENT_OWNER'));
+
 // ============= SHIPPING METHODS CRUD =============
 
 /**
@@ -73,13 +77,13 @@ router.delete('/:id', requireAdmin, deleteShippingMethod);
  * Sync shipping methods from JTL FFN for the authenticated client
  * (Client can sync their own shipping methods)
  */
-router.post('/jtl/sync', syncMyShippingMethods);
+router.post('/jtl/sync', syncRateLimit, syncMyShippingMethods);
 
 /**
  * POST /api/shipping-methods/jtl/:clientId/sync
  * Sync shipping methods from JTL FFN
  */
-router.post('/jtl/:clientId/sync', requireAdmin, syncFromJTL);
+router.post('/jtl/:clientId/sync', requireAdmin, syncRateLimit, syncFromJTL);
 
 /**
  * GET /api/shipping-methods/jtl/:clientId
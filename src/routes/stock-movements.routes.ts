@@ -0,0 +1,34 @@
+import { Router } from 'express';
+import {
+  getProductStockMovements,
+  getProductStockLevelsAt,
+  getClientStockLevelsAt,
+  adjustProductStock,
+} from '../controllers/stock-movements.controller.js';
+import { authenticate, requireAnyRole, requireEmployee } from '../middleware/auth.js';
+import { audit } from '../middleware/audit.js';
+
+const router = Router();
+
+// Every user may read the ledger of their own products; adjustments are warehouse staff only
+router.use(authenticate);
+router.use(requireAnyRole);
+
+// GET /api/stock-movements/levels?at= - Get stock levels of a client's products at a point in time
+router.get('/levels', getClientStockLevelsAt);
+
+// GET /api/stock-movements/products/:productId - Get a product's stock movements
+router.get('/products/:productId', getProductStockMovements);
+
+// GET /api/stock-movements/products/:productId/levels?at= - Get a product's stock levels at a point in time
+router.get('/products/:productId/levels', getProductStockLevelsAt);
+
+// POST /api/stock-movements/products/:productId/adjust - Manually correct stock levels
+router.post(
+  '/products/:productId/adjust',
+  requireEmployee,
+  audit({ action: 'ADJUST_STOCK', entityType: 'Product' }),
+  adjustProductStock
+);
+
+export default router;
@@ -0,0 +1,75 @@
+import { Router } from 'express';
+import {
+  getStocktakes,
+  createStocktake,
+  getStocktake,
+  recordStocktakeCounts,
+  reviewStocktakeLines,
+  completeStocktake,
+  cancelStocktake,
+  confirmStocktakeFfnBooked,
+  getStocktakeVarianceReport,
+} from '../controllers/stocktakes.controller.js';
+import { authenticate, requireAnyRole, requireAdmin, requireEmployee } from '../middleware/auth.js';
+import { audit } from '../middleware/audit.js';
+
+const router = Router();
+
+// Every user may see the stocktakes of their own client; counting is warehouse staff,
+// posting variances admin only
+router.use(authenticate);
+router.use(requireAnyRole);
+
+// GET /api/stocktakes - Get stocktakes
+router.get('/', getStocktakes);
+
+// GET /api/stocktakes/report?from=&to= - Variance report
+router.get('/report', getStocktakeVarianceReport);
+
+// POST /api/stocktakes - Open a stocktake or cycle count
+router.post(
+  '/',
+  requireEmployee,
+  audit({ action: 'CREATE_STOCKTAKE', entityType: 'Stocktake' }),
+  createStocktake
+);
+
+// GET /api/stocktakes/:id - Get a stocktake with variances
+router.get('/:id', getStocktake);
+
+// POST /api/stocktakes/:id/counts - Enter counted quantities (JSON or CSV)
+router.post('/:id/counts', requireEmployee, recordStocktakeCounts);
+
+// POST /api/stocktakes/:id/review - Approve or reject variances
+router.post(
+  '/:id/review',
+  requireAdmin,
+  audit({ action: 'REVIEW_STOCKTAKE', entityType: 'Stocktake', snapshot: false }),
+  reviewStocktakeLines
+);
+
+// POST /api/stocktakes/:id/complete - Complete a stocktake
+router.post(
+  '/:id/complete',
+  requireAdmin,
+  audit({ action: 'COMPLETE_STOCKTAKE', entityType: 'Stocktake' }),
+  completeStocktake
+);
+
+// POST /api/stocktakes/:id/cancel - Cancel a stocktake
+router.post(
+  '/:id/cancel',
+  requireAdmin,
+  audit({ action: 'CANCEL_STOCKTAKE', entityType: 'Stocktake' }),
+  cancelStocktake
+);
+
+// POST /api/stocktakes/:id/ffn-booked - Confirm approved FFN variances were booked in FFN
+router.post(
+  '/:id/ffn-booked',
+  requireAdmin,
+  audit({ action: 'CONFIRM_STOCKTAKE_FFN', entityType: 'Stocktake' }),
+  confirmStocktakeFfnBooked
+);
+
+export default router;
@@ -6,7 +6,9 @@
 
 import { Router, Request, Response } from 'express';
 import { PrismaClient } from '@prisma/client';
-import { authenticate as authMiddleware } from '../middleware/auth.js';
+import { authenticate as authMiddleware, requireAdmin } from '../middleware/auth.js';
+import { audit } from '../middleware/audit.js';
+import { syncRateLimit } from '../middleware/rate-limit.js';
 import { ConflictResolutionService } from '../services/integrations/conflict-resolution.service.js';
 import { ReturnSyncService } from '../services/integrations/return-sync.service.js';
 import { OrderOperationsService } from '../services/integrations/order-operations.service.js';
@@ -98,7 +100,7 @@ export function createSyncAdminRoutes(prisma: PrismaClient): Router {
   /**
    * Trigger manual resync for a product
    */
-  router.post('/products/:productId/resync', authMiddleware, async (req: Request, res: Response) => {
+  router.post('/products/:productId/resync', authMiddleware, audit({ action: 'RESYNC_PRODUCT', entityType: 'Product' }), async (req: Request, res: Response) => {
     try {
       const { productId } = req.params;
       const { platforms } = req.body; // ['shopify', 'woocommerce', 'jtl']
@@ -149,7 +151,7 @@ export function createSyncAdminRoutes(prisma: PrismaClient): Router {
   /**
    * Trigger full sync for a client
    */
-  router.post('/clients/:clientId/full-sync', authMiddleware, async (req: Request, res: Response) => {
+  router.post('/clients/:clientId/full-sync', authMiddleware, syncRateLimit, audit({ action: 'TRIGGER_FULL_SYNC', entityType: 'Client', snapshot: false }), async (req: Request, res: Response) => {
     try {
       const { clientId } = req.params;
       const { entityType } = req.body; // 'products' | 'orders' | 'all'
@@ -233,7 +235,7 @@ export function createSyncAdminRoutes(prisma: PrismaClient): Router {
   /**
    * Resolve a conflict manually
    */
-  router.post('/conflicts/:conflictId/resolve', authMiddleware, async (req: Request, res: Response) => {
+  router.post('/conflicts/:conflictId/resolve', authMiddleware, audit({ action: 'RESOLVE_SYNC_CONFLICT', entityType: 'Sync', snapshot: false }), async (req: Request, res: Response) => {
     try {
       const { conflictId } = req.params;
       const { resolution, customValue } = req.body; // resolution: 'accept_local' | 'accept_incoming' | 'custom'
@@ -283,7 +285,7 @@ export function createSyncAdminRoutes(prisma: PrismaClient): Router {
   /**
    * Retry failed jobs for a queue
    */
-  router.post('/queue/:queueName/retry-failed', authMiddleware, async (req: Request, res: Response) => {
+  router.post('/queue/:queueName/retry-failed', authMiddleware, audit({ action: 'RETRY_FAILED_JOBS', entityType: 'Queue', snapshot: false }), async (req: Request, res: Response) => {
     try {
       const { queueName } = req.params;
 
@@ -330,7 +332,7 @@ export function createSyncAdminRoutes(prisma: PrismaClient): Router {
   /**
    * Create warehouse return (unknown return)
    */
-  router.post('/returns/warehouse', authMiddleware, async (req: Request, res: Response) => {
+  router.post('/returns/warehouse', authMiddleware, audit({ action: 'CREATE_WAREHOUSE_RETURN', entityType: 'Return', createdId: (body) => body?.data?.returnId }), async (req: Request, res: Response) => {
     try {
       const { clientId, sku, quantity, notes, photos } = req.body;
 
@@ -360,7 +362,7 @@ export function createSyncAdminRoutes(prisma: PrismaClient): Router {
   /**
    * Perform return inspection
    */
-  router.post('/returns/:returnId/inspect', authMiddleware, async (req: Request, res: Response) => {
+  router.post('/returns/:returnId/inspect', authMiddleware, audit({ action: 'INSPECT_RETURN', entityType: 'Return' }), async (req: Request, res: Response) => {
     try {
       const { returnId } = req.params;
       const { inspectionResult, restockEligible, restockQuantity, items, photos } = req.body;
@@ -397,7 +399,7 @@ export function createSyncAdminRoutes(prisma: PrismaClient): Router {
   /**
    * Issue refund for return
    */
-  router.post('/returns/:returnId/refund', authMiddleware, async (req: Request, res: Response) => {
+  router.post('/returns/:returnId/refund', authMiddleware, audit({ action: 'REFUND_RETURN', entityType: 'Return' }), async (req: Request, res: Response) => {
     try {
       const { returnId } = req.params;
       const { refundAmount, refundCurrency, reason, syncToCommerce = true } = req.body;
@@ -431,7 +433,7 @@ export function createSyncAdminRoutes(prisma: PrismaClient): Router {
   /**
    * Finalize return
    */
-  router.post('/returns/:returnId/finalize', authMiddleware, async (req: Request, res: Response) => {
+  router.post('/returns/:returnId/finalize', authMiddleware, audit({ action: 'FINALIZE_RETURN', entityType: 'Return' }), async (req: Request, res: Response) => {
     try {
       const { returnId } = req.params;
       const userId = (req as any).user?.id;
@@ -508,7 +510,7 @@ export function createSyncAdminRoutes(prisma: PrismaClient): Router {
   /**
    * Correct shipping address before fulfillment
    */
-  router.post('/orders/:orderId/correct-address', authMiddleware, async (req: Request, res: Response) => {
+  router.post('/orders/:orderId/correct-address', authMiddleware, audit({ action: 'CORRECT_ORDER_ADDRESS', entityType: 'Order' }), async (req: Request, res: Response) => {
     try {
       const { orderId } = req.params;
       const userId = (req as any).user?.id;
@@ -540,7 +542,7 @@ export function createSyncAdminRoutes(prisma: PrismaClient): Router {
   /**
    * Create replacement order
    */
-  router.post('/orders/:orderId/replacement', authMiddleware, async (req: Request, res: Response) => {
+  router.post('/orders/:orderId/replacement', authMiddleware, audit({ action: 'CREATE_REPLACEMENT_ORDER', entityType: 'Order' }), async (req: Request, res: Response) => {
     try {
       const { orderId } = req.params;
       const userId = (req as any).user?.id;
@@ -577,7 +579,7 @@ export function createSyncAdminRoutes(prisma: PrismaClient): Router {
   /**
    * Update order priority
    */
-  router.post('/orders/:orderId/priority', authMiddleware, async (req: Request, res: Response) => {
+  router.post('/orders/:orderId/priority', authMiddleware, audit({ action: 'UPDATE_ORDER_PRIORITY', entityType: 'Order' }), async (req: Request, res: Response) => {
     try {
       const { orderId } = req.params;
       const userId = (req as any).user?.id;
@@ -609,7 +611,7 @@ export function createSyncAdminRoutes(prisma: PrismaClient): Router {
   /**
    * Put order on hold
    */
-  router.post('/orders/:orderId/hold', authMiddleware, async (req: Request, res: Response) => {
+  router.post('/orders/:orderId/hold', authMiddleware, audit({ action: 'HOLD_ORDER', entityType: 'Order' }), async (req: Request, res: Response) => {
     try {
       const { orderId } = req.params;
       const userId = (req as any).user?.id;
@@ -641,7 +643,7 @@ export function createSyncAdminRoutes(prisma: PrismaClient): Router {
   /**
    * Release order from hold
    */
-  router.post('/orders/:orderId/release', authMiddleware, async (req: Request, res: Response) => {
+  router.post('/orders/:orderId/release', authMiddleware, audit({ action: 'RELEASE_ORDER_HOLD', entityType: 'Order' }), async (req: Request, res: Response) => {
     try {
       const { orderId } = req.params;
       const userId = (req as any).user?.id;
@@ -667,7 +669,7 @@ export function createSyncAdminRoutes(prisma: PrismaClient): Router {
   /**
    * Update carrier selection
    */
-  router.post('/orders/:orderId/carrier', authMiddleware, async (req: Request, res: Response) => {
+  router.post('/orders/:orderId/carrier', authMiddleware, audit({ action: 'UPDATE_ORDER_CARRIER', entityType: 'Order' }), async (req: Request, res: Response) => {
     try {
       const { orderId } = req.params;
       const userId = (req as any).user?.id;
@@ -692,12 +694,96 @@ export function createSyncAdminRoutes(prisma: PrismaClient): Router {
     }
   });
 
+  /**
+   * Split items or quantities off an order into a separate shipment (admin, for the given client)
+   */
+  router.post('/orders/:orderId/split', authMiddleware, requireAdmin, audit({ action: 'SPLIT_ORDER', entityType: 'Order' }), async (req: Request, res: Response) => {
+    try {
+      const { orderId } = req.params;
+      const { clientId, items, reason } = req.body;
+
+      if (typeof clientId !== 'string' || !clientId) {
+        res.status(400).json({ success: false, error: 'clientId is required' });
+        return;
+      }
+
+      if (!Array.isArray(items) || items.length === 0) {
+        res.status(400).json({ success: false, error: 'items must be a non-empty array of { sku, quantity }' });
+        return;
+      }
+
+      const result = await orderOpsService.splitOrder({
+        orderId,
+        items,
+        reason,
+        splitBy: req.user!.userId,
+        clientId,
+      });
+
+      if (result.success) {
+        res.json({
+          success: true,
+          data: {
+            originalOrderId: orderId,
+            splitOrderId: result.orderId,
+            details: result.details,
+          },
+        });
+      } else {
+        res.status(400).json({ success: false, error: result.error });
+      }
+    } catch (error: any) {
+      res.status(500).json({ success: false, error: error.message });
+    }
+  });
+
+  /**
+   * Merge unshipped orders of the same customer and address into one shipment (admin, for the given client)
+   */
+  router.post('/orders/merge', authMiddleware, requireAdmin, audit({ action: 'MERGE_ORDERS', entityType: 'Order', entityIds: (req) => req.body?.orderIds }), async (req: Request, res: Response) => {
+    try {
+      const { clientId, orderIds, targetOrderId, reason } = req.body;
+
+      if (typeof clientId !== 'string' || !clientId) {
+        res.status(400).json({ success: false, error: 'clientId is required' });
+        return;
+      }
+
+      if (!Array.isArray(orderIds) || orderIds.length < 2) {
+        res.status(400).json({ success: false, error: 'orderIds must contain at least two order IDs' });
+        return;
+      }
+
+      const result = await orderOpsService.mergeOrders({
+        orderIds,
+        targetOrderId,
+        reason,
+        mergedBy: req.user!.userId,
+        clientId,
+      });
+
+      if (result.success) {
+        res.json({
+          success: true,
+          data: {
+            targetOrderId: result.orderId,
+            details: result.details,
+          },
+        });
+      } else {
+        res.status(400).json({ success: false, error: result.error });
+      }
+    } catch (error: any) {
+      res.status(500).json({ success: false, error: error.message });
+    }
+  });
+
   // ============= PLATFORM-INITIATED RETURNS =============
 
   /**
    * Create return from platform (not from webhook)
    */
-  router.post('/returns/platform', authMiddleware, async (req: Request, res: Response) => {
+  router.post('/returns/platform', authMiddleware, audit({ action: 'CREATE_PLATFORM_RETURN', entityType: 'Return', createdId: (body) => body?.data?.returnId }), async (req: Request, res: Response) => {
     try {
       const userId = (req as any).user?.id;
       const { clientId, orderId, reason, reasonCategory, items, notes, triggerReplacement, syncToCommerce } = req.body;
@@ -735,7 +821,7 @@ export function createSyncAdminRoutes(prisma: PrismaClient): Router {
   /**
    * Manually sync order to JTL-FFN
    */
-  router.post('/orders/:orderId/sync-to-ffn', authMiddleware, async (req: Request, res: Response) => {
+  router.post('/orders/:orderId/sync-to-ffn', authMiddleware, audit({ action: 'SYNC_ORDER_TO_FFN', entityType: 'Order' }), async (req: Request, res: Response) => {
     try {
       const { orderId } = req.params;
 
@@ -761,7 +847,7 @@ export function createSyncAdminRoutes(prisma: PrismaClient): Router {
   /**
    * Cancel order in JTL-FFN
    */
-  router.post('/orders/:orderId/cancel-ffn', authMiddleware, async (req: Request, res: Response) => {
+  router.post('/orders/:orderId/cancel-ffn', authMiddleware, audit({ action: 'CANCEL_ORDER_IN_FFN', entityType: 'Order' }), async (req: Request, res: Response) => {
     try {
       const { orderId } = req.params;
       const { reason } = req.body;
@@ -787,7 +873,7 @@ export function createSyncAdminRoutes(prisma: PrismaClient): Router {
   /**
    * Poll JTL-FFN for order updates (all clients)
    */
-  router.post('/poll-ffn', authMiddleware, async (req: Request, res: Response) => {
+  router.post('/poll-ffn', authMiddleware, syncRateLimit, audit({ action: 'POLL_FFN', entityType: 'Sync', snapshot: false }), async (req: Request, res: Response) => {
     try {
       const { since } = req.body;
       
@@ -862,7 +948,7 @@ export function createSyncAdminRoutes(prisma: PrismaClient): Router {
   /**
    * Poll JTL-FFN for order updates (single client)
    */
-  router.post('/clients/:clientId/poll-ffn', authMiddleware, async (req: Request, res: Response) => {
+  router.post('/clients/:clientId/poll-ffn', authMiddleware, syncRateLimit, audit({ action: 'POLL_FFN', entityType: 'Client', snapshot: false }), async (req: Request, res: Response) => {
     try {
       const { clientId } = req.params;
       const { since } = req.body;
@@ -901,7 +987,7 @@ export function createSyncAdminRoutes(prisma: PrismaClient): Router {
    * Fetch orders from commerce channels and reconcile with JTL FFN
    * This recovers orders that may have been missed due to webhook failures
    */
-  router.post('/clients/:clientId/fetch-orders', authMiddleware, async (req: Request, res: Response) => {
+  router.post('/clients/:clientId/fetch-orders', authMiddleware, syncRateLimit, audit({ action: 'FETCH_CHANNEL_ORDERS', entityType: 'Client', snapshot: false }), async (req: Request, res: Response) => {
     try {
       const { clientId } = req.params;
       const { since } = req.body; // ISO date string, defaults to 7 days ago
@@ -942,7 +1028,7 @@ export function createSyncAdminRoutes(prisma: PrismaClient): Router {
    * Manually trigger stock sync from JTL-FFN for a client
    * This fetches current stock levels from JTL FFN and updates the local DB
    */
-  router.post('/clients/:clientId/sync-stock', authMiddleware, async (req: Request, res: Response) => {
+  router.post('/clients/:clientId/sync-stock', authMiddleware, syncRateLimit, audit({ action: 'SYNC_STOCK', entityType: 'Client', snapshot: false }), async (req: Request, res: Response) => {
     try {
       const { clientId } = req.params;
       const { jfskus, forceUpdate } = req.body;
@@ -996,7 +1082,7 @@ export function createSyncAdminRoutes(prisma: PrismaClient): Router {
    * Poll inbounds and sync stock for a client
    * This checks for closed inbounds and triggers stock sync if found
    */
-  router.post('/clients/:clientId/poll-inbounds', authMiddleware, async (req: Request, res: Response) => {
+  router.post('/clients/:clientId/poll-inbounds', authMiddleware, syncRateLimit, audit({ action: 'POLL_INBOUNDS', entityType: 'Client', snapshot: false }), async (req: Request, res: Response) => {
     try {
       const { clientId } = req.params;
 
@@ -1026,7 +1112,7 @@ export function createSyncAdminRoutes(prisma: PrismaClient): Router {
    * If clientId is provided in body, syncs for that client
    * If no clientId, syncs for all clients (admin function)
    */
-  router.post('/stock/sync', authMiddleware, async (req: Request, res: Response) => {
+  router.post('/stock/sync', authMiddleware, syncRateLimit, audit({ action: 'SYNC_STOCK', entityType: 'Sync', snapshot: false }), async (req: Request, res: Response) => {
     try {
       const { clientId } = req.body;
 
@@ -1069,7 +1155,7 @@ export function createSyncAdminRoutes(prisma: PrismaClient): Router {
   /**
    * Sync stock for all clients (admin only)
    */
-  router.post('/stock/sync-all', authMiddleware, async (req: Request, res: Response) => {
+  router.post('/stock/sync-all', authMiddleware, syncRateLimit, audit({ action: 'SYNC_STOCK_ALL_CLIENTS', entityType: 'Sync', snapshot: false }), async (req: Request, res: Response) => {
     try {
       console.log('[API] Manual stock sync for all clients requested');
 
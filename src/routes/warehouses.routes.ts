@@ -0,0 +1,56 @@
+import { Router } from 'express';
+import {
+  getWarehouses,
+  discoverWarehouses,
+  updateWarehouse,
+  deleteWarehouse,
+  getProductWarehouseStock,
+  previewOrderRouting,
+  setOrderWarehouse,
+} from '../controllers/warehouses.controller.js';
+import { authenticate, requireAdmin, requireAnyRole, requireEmployee } from '../middleware/auth.js';
+import { audit } from '../middleware/audit.js';
+
+const router = Router();
+
+// Every user may see the warehouses and stock of their own client; configuration is admin only
+router.use(authenticate);
+router.use(requireAnyRole);
+
+// GET /api/warehouses - Get a client's warehouses
+router.get('/', getWarehouses);
+
+// POST /api/warehouses/discover - Register warehouses from the client's FFN fulfillers
+router.post('/discover', requireAdmin, discoverWarehouses);
+
+// GET /api/warehouses/products/:productId/stock - Get a product's stock per warehouse
+router.get('/products/:productId/stock', getProductWarehouseStock);
+
+// GET /api/warehouses/orders/:orderId/route - Preview warehouse routing of an order
+router.get('/orders/:orderId/route', previewOrderRouting);
+
+// PUT /api/warehouses/orders/:orderId - Set or clear an order's warehouse
+router.put(
+  '/orders/:orderId',
+  requireEmployee,
+  audit({ action: 'SET_ORDER_WAREHOUSE', entityType: 'Order' }),
+  setOrderWarehouse
+);
+
+// PATCH /api/warehouses/:id - Update routing settings of a warehouse
+router.patch(
+  '/:id',
+  requireAdmin,
+  audit({ action: 'UPDATE_WAREHOUSE', entityType: 'JtlWarehouse' }),
+  updateWarehouse
+);
+
+// DELETE /api/warehouses/:id - Remove a warehouse
+router.delete(
+  '/:id',
+  requireAdmin,
+  audit({ action: 'DELETE_WAREHOUSE', entityType: 'JtlWarehouse' }),
+  deleteWarehouse
+);
+
+export default router;
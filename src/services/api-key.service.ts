@@ -0,0 +1,177 @@
+/**
+ * API Key Service
+ *
+ * Scoped API keys for merchant system-to-system access (ERP, BI tools).
+ *
+ * KEY CONCEPTS:
+ * 1. Keys look like nl_<prefix>_<secret>. The prefix is stored in clear to find the key
+ *    and to show it in lists; only the SHA-256 hash of the full key is stored
+ * 2. A key acts on behalf of its client with the scopes it was created with
+ * 3. API keys are denied by default: only endpoints listed in SCOPE_RULES accept them
+ */
+
+import crypto from 'crypto';
+import { prisma } from '../config/database.js';
+
+export const API_KEY_PREFIX = 'nl_';
+
+export const API_KEY_SCOPES = [
+  'orders:read',
+  'orders:write',
+  'products:read',
+  'products:write',
+  'inbounds:read',
+  'inbounds:write',
+  'returns:read',
+  'returns:write',
+] as const;
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+/**
+ * Endpoints reachable with an API key. GET/HEAD need <resource>:read, other methods <resource>:write.
+ */
+const SCOPE_RULES: Array<{ pattern: RegExp; resource: string }> = [
+  { pattern: /^\/api\/data\/products(\/|$)/, resource: 'products' },
+  { pattern: /^\/api\/data\/orders(\/|$)/, resource: 'orders' },
+  { pattern: /^\/api\/fulfillment\/orders(\/|$)/, resource: 'orders' },
+  { pattern: /^\/api\/data\/inbounds(\/|$)/, resource: 'inbounds' },
+  { pattern: /^\/api\/data\/returns(\/|$)/, resource: 'returns' },
+];
+
+// Don't write lastUsedAt on every request
+const LAST_USED_UPDATE_INTERVAL_MS = 60 * 1000;
+
+const API_KEY_SELECT = {
+  id: true,
+  name: true,
+  prefix: true,
+  scopes: true,
+  expiresAt: true,
+  revokedAt: true,
+  lastUsedAt: true,
+  lastUsedIp: true,
+  createdAt: true,
+  createdById: true,
+  clientId: true,
+} as const;
+
+class ApiKeyService {
+  private prisma = prisma;
+
+  isApiKey(value: string | undefined): value is string {
+    return !!value && value.startsWith(API_KEY_PREFIX);
+  }
+
+  /**
+   * Create a key and return it with the full key value (shown once)
+   */
+  async create(input: {
+    clientId: string;
+    name: string;
+    scopes: ApiKeyScope[];
+    expiresAt?: Date | null;
+    createdById?: string;
+  }) {
+    const prefix = crypto.randomBytes(6).toString('hex');
+    const secret = crypto.randomBytes(24).toString('base64url');
+    const key = `${API_KEY_PREFIX}${prefix}_${secret}`;
+
+    const apiKey = await this.prisma.apiKey.create({
+      data: {
+        name: input.name,
+        prefix,
+        keyHash: this.hash(key),
+        scopes: [...new Set(input.scopes)],
+        expiresAt: input.expiresAt ?? null,
+        createdById: input.createdById ?? null,
+        clientId: input.clientId,
+      },
+      select: API_KEY_SELECT,
+    });
+
+    return { apiKey, key };
+  }
+
+  /**
+   * Look up a presented key. Returns null for unknown, revoked or expired keys.
+   */
+  async verify(key: string, ipAddress?: string | null) {
+    const prefix = key.slice(API_KEY_PREFIX.length).split('_')[0];
+    if (!prefix) return null;
+
+    const apiKey = await this.prisma.apiKey.findUnique({
+      where: { prefix },
+      include: {
+        client: {
+          select: {
+            id: true,
+            isActive: true,
+            user: { select: { id: true, email: true, isActive: true } },
+          },
+        },
+      },
+    });
+
+    if (!apiKey) return null;
+
+    const presented = Buffer.from(this.hash(key));
+    const stored = Buffer.from(apiKey.keyHash);
+    if (presented.length !== stored.length || !crypto.timingSafeEqual(presented, stored)) return null;
+
+    if (apiKey.revokedAt) return null;
+    if (apiKey.expiresAt && apiKey.expiresAt <= new Date()) return null;
+
+    if (!apiKey.lastUsedAt || Date.now() - apiKey.lastUsedAt.getTime() > LAST_USED_UPDATE_INTERVAL_MS) {
+      await this.prisma.apiKey.update({
+        where: { id: apiKey.id },
+        data: { lastUsedAt: new Date(), lastUsedIp: ipAddress ?? null },
+      });
+    }
+
+    return apiKey;
+  }
+
+  /**
+   * Scope needed for a request, or null if the endpoint doesn't accept API keys
+   */
+  requiredScope(method: string, originalUrl: string): ApiKeyScope | null {
+    const path = originalUrl.split('?')[0];
+    const rule = SCOPE_RULES.find(r => r.pattern.test(path));
+    if (!rule) return null;
+
+    const access = method === 'GET' || method === 'HEAD' ? 'read' : 'write';
+    return `${rule.resource}:${access}` as ApiKeyScope;
+  }
+
+  async list(clientId?: string) {
+    return this.prisma.apiKey.findMany({
+      where: clientId ? { clientId } : {},
+      select: {
+        ...API_KEY_SELECT,
+        client: { select: { id: true, name: true, companyName: true } },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  async findById(id: string) {
+    return this.prisma.apiKey.findUnique({ where: { id }, select: API_KEY_SELECT });
+  }
+
+  async revoke(id: string): Promise<boolean> {
+    const { count } = await this.prisma.apiKey.updateMany({
+      where: { id, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+    return count > 0;
+  }
+
+  private hash(key: string): string {
+    return crypto.createHash('sha256').update(key).digest('hex');
+  }
+}
+
+// Export singleton instance
+export const apiKeyService = new ApiKeyService();
+export default apiKeyService;
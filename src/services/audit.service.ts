@@ -0,0 +1,241 @@
+/**
+ * Audit Service
+ *
+ * Persists who changed what, and when, into the AuditLog table:
+ * - Before/after snapshots of the affected entity
+ * - Acting user, IP address and user agent
+ * - Filterable, paginated queries for the admin audit API
+ *
+ * Writing an audit entry never fails the request that triggered it.
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '../config/database.js';
+
+export type AuditEntityType =
+  | 'Order'
+  | 'Product'
+  | 'Return'
+  | 'InboundDelivery'
+  | 'InboundDiscrepancy'
+  | 'Task'
+  | 'Client'
+  | 'User'
+  | 'ApiKey'
+  | 'WebhookSubscription'
+  | 'WebhookDelivery'
+  | 'WebhookInbox'
+  | 'OrderRule'
+  | 'JtlWarehouse'
+  | 'Stocktake'
+  | 'ChannelStockRule'
+  | 'Quotation'
+  | 'Queue'
+  | 'Sync';
+
+export interface AuditEntry {
+  action: string;
+  entityType: AuditEntityType | string;
+  entityId?: string | null;
+  oldValue?: unknown;
+  newValue?: unknown;
+  userId?: string | null;
+  ipAddress?: string | null;
+  userAgent?: string | null;
+}
+
+export interface AuditQueryFilters {
+  entityType?: string;
+  entityId?: string;
+  action?: string;
+  userId?: string;
+  field?: string;
+  from?: Date;
+  to?: Date;
+  page?: number;
+  limit?: number;
+}
+
+/**
+ * Keys that must never end up in an audit snapshot
+ */
+const REDACTED_KEYS = new Set([
+  'password',
+  'accessToken',
+  'refreshToken',
+  'clientSecret',
+  'apiClientSecret',
+  'webhookSecret',
+  'oauthClientSecret',
+  'oauthState',
+  'oauthNonce',
+  'twoFactorSecret',
+  'twoFactorRecoveryCodes',
+  'keyHash',
+  'secret',
+]);
+
+const MAX_LIMIT = 200;
+
+class AuditService {
+  private prisma = prisma;
+
+  /**
+   * Write an audit entry. Errors are logged, never thrown.
+   */
+  async record(entry: AuditEntry): Promise<void> {
+    try {
+      await this.prisma.auditLog.create({
+        data: {
+          action: entry.action,
+          entityType: entry.entityType,
+          entityId: entry.entityId ?? null,
+          oldValue: this.toJson(entry.oldValue),
+          newValue: this.toJson(entry.newValue),
+          changedFields: this.diffFields(entry.oldValue, entry.newValue),
+          userId: entry.userId ?? null,
+          ipAddress: entry.ipAddress ?? null,
+          userAgent: entry.userAgent ?? null,
+        },
+      });
+    } catch (error) {
+      console.error(`[Audit] Failed to record ${entry.action} on ${entry.entityType}:`, error);
+    }
+  }
+
+  /**
+   * Load the current state of an entity for a before/after snapshot
+   */
+  async loadSnapshot(entityType: string, entityId: string): Promise<unknown | null> {
+    try {
+      switch (entityType) {
+        case 'Order':
+          return await this.prisma.order.findUnique({
+            where: { id: entityId },
+            include: { items: true },
+          });
+        case 'Product':
+          return await this.prisma.product.findUnique({
+            where: { id: entityId },
+            include: { bundleItems: { select: { childProductId: true, quantity: true } } },
+          });
+        case 'Return':
+          return await this.prisma.return.findUnique({
+            where: { id: entityId },
+            include: { items: true },
+          });
+        case 'InboundDelivery':
+          return await this.prisma.inboundDelivery.findUnique({
+            where: { id: entityId },
+            include: { items: true },
+          });
+        case 'InboundDiscrepancy':
+          return await this.prisma.inboundDiscrepancy.findUnique({ where: { id: entityId } });
+        case 'Task':
+          return await this.prisma.task.findUnique({ where: { id: entityId } });
+        case 'Client':
+          return await this.prisma.client.findUnique({ where: { id: entityId } });
+        case 'Quotation':
+          return await this.prisma.quotation.findUnique({
+            where: { id: entityId },
+            include: { items: true },
+          });
+        case 'WebhookSubscription':
+          return await this.prisma.webhookSubscription.findUnique({
+            where: { id: entityId },
+            omit: { secret: true },
+          });
+        case 'OrderRule':
+          return await this.prisma.orderRule.findUnique({ where: { id: entityId } });
+        case 'JtlWarehouse':
+          return await this.prisma.jtlWarehouse.findUnique({ where: { id: entityId } });
+        case 'Stocktake':
+          return await this.prisma.stocktake.findUnique({ where: { id: entityId } });
+        case 'ChannelStockRule':
+          return await this.prisma.channelStockRule.findUnique({ where: { id: entityId } });
+        default:
+          return null;
+      }
+    } catch (error) {
+      console.error(`[Audit] Failed to load ${entityType} ${entityId} snapshot:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Query audit entries (newest first)
+   */
+  async query(filters: AuditQueryFilters = {}) {
+    const page = Math.max(1, filters.page ?? 1);
+    const limit = Math.min(MAX_LIMIT, Math.max(1, filters.limit ?? 50));
+
+    const where: Prisma.AuditLogWhereInput = {
+      ...(filters.entityType && { entityType: filters.entityType }),
+      ...(filters.entityId && { entityId: filters.entityId }),
+      ...(filters.action && { action: filters.action }),
+      ...(filters.userId && { userId: filters.userId }),
+      ...(filters.field && { changedFields: { has: filters.field } }),
+      ...((filters.from || filters.to) && {
+        createdAt: {
+          ...(filters.from && { gte: filters.from }),
+          ...(filters.to && { lte: filters.to }),
+        },
+      }),
+    };
+
+    const [entries, total] = await Promise.all([
+      this.prisma.auditLog.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        take: limit,
+        skip: (page - 1) * limit,
+        include: {
+          user: { select: { id: true, email: true, name: true, role: true } },
+        },
+      }),
+      this.prisma.auditLog.count({ where }),
+    ]);
+
+    return {
+      entries,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Names of top-level fields that differ between two snapshots
+   */
+  private diffFields(oldValue: unknown, newValue: unknown): string[] {
+    if (!oldValue || !newValue || typeof oldValue !== 'object' || typeof newValue !== 'object') {
+      return [];
+    }
+
+    const before = this.toJson(oldValue) as Record<string, unknown>;
+    const after = this.toJson(newValue) as Record<string, unknown>;
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+
+    return [...keys].filter(
+      key => key !== 'updatedAt' && JSON.stringify(before[key]) !== JSON.stringify(after[key])
+    );
+  }
+
+  /**
+   * Convert a value (Decimal, Date, nested relations) to plain JSON with secrets redacted
+   */
+  private toJson(value: unknown): Prisma.InputJsonValue | typeof Prisma.JsonNull {
+    if (value === undefined || value === null) return Prisma.JsonNull;
+
+    return JSON.parse(
+      JSON.stringify(value, (key, val) => (REDACTED_KEYS.has(key) ? '[REDACTED]' : val))
+    );
+  }
+}
+
+// Export singleton instance
+export const auditService = new AuditService();
+export default auditService;
@@ -0,0 +1,83 @@
+/**
+ * Auth Token Service
+ *
+ * Issues and consumes single-use tokens for password reset and email verification.
+ *
+ * KEY CONCEPTS:
+ * 1. The raw token only ever leaves the server in the mail; the database stores its SHA-256 hash
+ * 2. Issuing a new token invalidates any unused token of the same type for that user
+ * 3. Consuming is atomic (updateMany on usedAt = null), so a token works exactly once
+ */
+
+import crypto from 'crypto';
+import { AuthTokenType } from '@prisma/client';
+import { prisma } from '../config/database.js';
+
+export const PASSWORD_RESET_TTL_MINUTES = 60;
+export const EMAIL_VERIFICATION_TTL_HOURS = 48;
+
+const TOKEN_TTL_MS: Record<AuthTokenType, number> = {
+  PASSWORD_RESET: PASSWORD_RESET_TTL_MINUTES * 60 * 1000,
+  EMAIL_VERIFICATION: EMAIL_VERIFICATION_TTL_HOURS * 60 * 60 * 1000,
+};
+
+class AuthTokenService {
+  private prisma = prisma;
+
+  /**
+   * Create a token for a user and return the raw value (to be mailed)
+   */
+  async issue(userId: string, type: AuthTokenType, ipAddress?: string | null): Promise<string> {
+    const rawToken = crypto.randomBytes(32).toString('hex');
+
+    await this.prisma.$transaction([
+      // Only the latest link is valid
+      this.prisma.authToken.updateMany({
+        where: { userId, type, usedAt: null },
+        data: { usedAt: new Date() },
+      }),
+      this.prisma.authToken.create({
+        data: {
+          type,
+          tokenHash: this.hash(rawToken),
+          expiresAt: new Date(Date.now() + TOKEN_TTL_MS[type]),
+          ipAddress: ipAddress ?? null,
+          userId,
+        },
+      }),
+    ]);
+
+    return rawToken;
+  }
+
+  /**
+   * Mark a token as used and return its user ID, or null if it is unknown, used or expired
+   */
+  async consume(rawToken: string, type: AuthTokenType): Promise<string | null> {
+    const token = await this.prisma.authToken.findUnique({
+      where: { tokenHash: this.hash(rawToken) },
+      select: { id: true, type: true, userId: true },
+    });
+
+    if (!token || token.type !== type) return null;
+
+    const { count } = await this.prisma.authToken.updateMany({
+      where: {
+        id: token.id,
+        usedAt: null,
+        expiresAt: { gt: new Date() },
+      },
+      data: { usedAt: new Date() },
+    });
+
+    return count === 1 ? token.userId : null;
+  }
+
+  private hash(rawToken: string): string {
+    return crypto.createHash('sha256').update(rawToken).digest('hex');
+  }
+}
+
+// Export singleton instance
+export const authTokenService = new AuthTokenService();
+export default authTokenService;
@@ -0,0 +1,491 @@
+/**
+ * Backorder Service
+ *
+ * Keeps orders whose items are not in stock out of FFN until stock arrives, instead of
+ * creating outbounds the warehouse cannot pick.
+ *
+ * KEY CONCEPTS:
+ * 1. The client's backorderMode decides: OFF pushes regardless of stock, SHIP_COMPLETE parks
+ *    an order until every line is covered, PARTIAL ships the covered units and splits the
+ *    rest off into a split order that is parked
+ * 2. A line is covered by available minus reserved. A bundle line is covered by what its
+ *    components make up. Lines without a product are not checked
+ * 3. A parked order is on hold with holdReason BACKORDER and status OUT_OF_STOCK, with the
+ *    missing units per line in OrderItem.shortageQuantity
+ * 4. After every stock sync (which includes inbound bookings), parked orders are released
+ *    by priority and order date. Stock released to one order is not offered to the next.
+ *    Released orders are queued for FFN and never parked again - the same goes for a
+ *    backorder hold released by hand
+ * 5. FFN only counts an outbound as reserved once it has it, and the FFN stock sync then
+ *    overwrites Product.reserved. Until then the covered units of a released or pushed order
+ *    are added to reserved here (once per order, Order.stockReservedAt), so later checks
+ *    and releases don't hand out the same units again
+ * 6. When the check itself fails, checkBeforePush() lets the order through, as before
+ *    backorders existed. When it splits an order, the caller pushes the covered remainder
+ *    itself (split: true tells it to reload the items) - nothing else is queued for it
+ */
+
+import { BackorderMode, Prisma } from '@prisma/client';
+import { prisma } from '../config/database.js';
+import { dryRunClient } from '../utils/dry-run.js';
+import { calculatePossibleQuantity } from '../utils/bundle-calculator.js';
+import { merchantWebhookService } from './merchant-webhook.service.js';
+import { stockMovementService } from './stock-movement.service.js';
+import { getQueue, QUEUE_NAMES } from './queue/sync-queue.service.js';
+import { OrderOperationsService } from './integrations/order-operations.service.js';
+
+export const BACKORDER_HOLD_REASON = 'BACKORDER';
+
+export interface BackorderLine {
+  orderItemId: string;
+  sku: string | null;
+  quantity: number;
+  coveredQuantity: number;
+  shortageQuantity: number;
+}
+
+export interface BackorderCheck {
+  push: boolean;
+  message?: string;
+  split?: boolean; // The missing units were split off - reload the order's items before pushing
+}
+
+// Stock per unit of a product: the product itself, or a bundle's components
+type StockComponents = Map<string, Array<{ productId: string; quantity: number }>>;
+
+const BACKORDER_ORDER_INCLUDE = {
+  items: { select: { id: true, sku: true, quantity: true, productId: true } },
+  client: { select: { backorderMode: true } },
+} satisfies Prisma.OrderInclude;
+
+type BackorderOrder = Prisma.OrderGetPayload<{ include: typeof BACKORDER_ORDER_INCLUDE }>;
+
+class BackorderService {
+  private get prisma() {
+    return dryRunClient() ?? prisma;
+  }
+
+  // ============= COVERAGE =============
+
+  /**
+   * Free stock (available - reserved) of everything the products need, and what one
+   * unit of each product takes from it
+   */
+  private async loadStock(productIds: string[]): Promise<{ free: Map<string, number>; components: StockComponents }> {
+    const products = await this.prisma.product.findMany({
+      where: { id: { in: productIds } },
+      select: {
+        id: true,
+        available: true,
+        reserved: true,
+        isBundle: true,
+        bundleItems: {
+          select: { quantity: true, childProductId: true, childProduct: { select: { available: true, reserved: true } } },
+        },
+      },
+    });
+
+    const free = new Map<string, number>();
+    const components: StockComponents = new Map();
+
+    for (const product of products) {
+      if (product.isBundle && product.bundleItems.length > 0) {
+        components.set(product.id, product.bundleItems.map(item => ({ productId: item.childProductId, quantity: item.quantity })));
+        for (const item of product.bundleItems) {
+          free.set(item.childProductId, item.childProduct.available - item.childProduct.reserved);
+        }
+      } else {
+        components.set(product.id, [{ productId: product.id, quantity: 1 }]);
+        free.set(product.id, product.available - product.reserved);
+      }
+    }
+
+    return { free, components };
+  }
+
+  /**
+   * Covered and missing units per line. Takes the covered units off `free`.
+   */
+  private cover(order: Pick<BackorderOrder, 'items'>, free: Map<string, number>, components: StockComponents): BackorderLine[] {
+    return order.items.map(item => {
+      const parts = item.productId ? components.get(item.productId) : undefined;
+      if (!parts) {
+        return { orderItemId: item.id, sku: item.sku, quantity: item.quantity, coveredQuantity: item.quantity, shortageQuantity: 0 };
+      }
+
+      const coverable = calculatePossibleQuantity(parts.map(part => ({
+        quantity: part.quantity,
+        childProduct: { available: Math.max(0, free.get(part.productId) ?? 0) },
+      })));
+      const coveredQuantity = Math.min(item.quantity, coverable);
+
+      for (const part of parts) {
+        free.set(part.productId, (free.get(part.productId) ?? 0) - coveredQuantity * part.quantity);
+      }
+
+      return {
+        orderItemId: item.id,
+        sku: item.sku,
+        quantity: item.quantity,
+        coveredQuantity,
+        shortageQuantity: item.quantity - coveredQuantity,
+      };
+    });
+  }
+
+  /**
+   * Add the covered units of an order going to FFN to the reserved stock of what they take.
+   * Only the first call per order counts, so a retried push doesn't reserve twice.
+   */
+  private async reserve(
+    order: Pick<BackorderOrder, 'id' | 'orderNumber' | 'items'>,
+    lines: BackorderLine[],
+    components: StockComponents
+  ): Promise<void> {
+    const { count } = await this.prisma.order.updateMany({
+      where: { id: order.id, stockReservedAt: null },
+      data: { stockReservedAt: new Date() },
+    });
+    if (count === 0) return;
+
+    const units = new Map<string, number>();
+    for (const line of lines) {
+      const productId = order.items.find(item => item.id === line.orderItemId)?.productId;
+      for (const part of (productId && components.get(productId)) || []) {
+        units.set(part.productId, (units.get(part.productId) ?? 0) + line.coveredQuantity * part.quantity);
+      }
+    }
+
+    for (const [productId, quantity] of units) {
+      if (quantity <= 0) continue;
+      const product = await this.prisma.product.update({
+        where: { id: productId },
+        data: { reserved: { increment: quantity } },
+      });
+      await stockMovementService.record(
+        { ...product, reserved: product.reserved - quantity },
+        { reserved: product.reserved },
+        'order_reservation',
+        { referenceType: 'Order', referenceId: order.id, note: order.orderNumber ?? undefined }
+      );
+    }
+  }
+
+  /**
+   * Coverage of an order's lines by the current stock (nothing is changed)
+   */
+  async getCoverage(orderId: string): Promise<BackorderLine[] | null> {
+    const order = await this.prisma.order.findUnique({ where: { id: orderId }, include: BACKORDER_ORDER_INCLUDE });
+    if (!order) return null;
+
+    const { free, components } = await this.loadStock(this.productIdsOf([order]));
+    return this.cover(order, free, components);
+  }
+
+  // ============= PUSH GUARD =============
+
+  /**
+   * Decide whether an order may go to FFN now. Orders that are not covered are parked;
+   * in PARTIAL mode the missing units are split off and the caller pushes the rest.
+   * Never throws.
+   */
+  async checkBeforePush(orderId: string): Promise<BackorderCheck> {
+    try {
+      const order = await this.prisma.order.findUnique({ where: { id: orderId }, include: BACKORDER_ORDER_INCLUDE });
+      if (!order || order.client.backorderMode === BackorderMode.OFF || order.backorderReleasedAt) {
+        return { push: true };
+      }
+
+      const { free, components } = await this.loadStock(this.productIdsOf([order]));
+      const lines = this.cover(order, free, components);
+      const label = order.orderNumber || order.orderId;
+
+      if (lines.every(line => line.shortageQuantity === 0)) {
+        await this.reserve(order, lines, components);
+        return { push: true };
+      }
+
+      await this.park(order, lines);
+
+      const covered = lines.some(line => line.coveredQuantity > 0);
+      if (order.client.backorderMode === BackorderMode.PARTIAL && covered) {
+        const splitOrderId = await this.splitShortage(order, lines);
+        if (splitOrderId) {
+          await this.reserve(order, lines, components);
+          console.log(`[Backorder] Order ${label} ships the items in stock; the rest waits as a backorder`);
+          return { push: true, split: true };
+        }
+      }
+
+      if (!order.isOnHold) {
+        await merchantWebhookService.emitOrderEvent(order.id, 'order.on_hold');
+      }
+
+      return { push: false, message: `Order ${label} is parked as a backorder until its items are in stock` };
+    } catch (error) {
+      console.error(`[Backorder] Failed to check stock for order ${orderId}:`, error);
+      return { push: true };
+    }
+  }
+
+  /**
+   * Put an order on backorder hold with its shortages
+   */
+  private async park(order: BackorderOrder, lines: BackorderLine[]): Promise<void> {
+    const now = new Date();
+
+    await this.prisma.$transaction([
+      this.prisma.order.update({
+        where: { id: order.id },
+        data: {
+          isOnHold: true,
+          holdReason: BACKORDER_HOLD_REASON,
+          holdNotes: this.describeShortage(lines),
+          holdPlacedAt: now,
+          status: 'OUT_OF_STOCK',
+          backorderedAt: order.backorderedAt ?? now,
+          syncStatus: 'PENDING',
+        },
+      }),
+      ...lines.map(line => this.prisma.orderItem.update({
+        where: { id: line.orderItemId },
+        data: { shortageQuantity: line.shortageQuantity },
+      })),
+    ]);
+
+    console.log(`[Backorder] Parked order ${order.orderNumber || order.id}: ${this.describeShortage(lines)}`);
+  }
+
+  /**
+   * PARTIAL mode: move the missing units of a parked order into a split order (which
+   * inherits the backorder hold) and take the order with the covered units off hold.
+   * The order is not queued for FFN here - see checkBeforePush and releaseCoveredBackorders.
+   * @returns ID of the split order, or null when the order could not be split
+   */
+  private async splitShortage(order: BackorderOrder, lines: BackorderLine[]): Promise<string | null> {
+    const items = lines
+      .filter(line => line.shortageQuantity > 0 && line.sku)
+      .map(line => ({ sku: line.sku!, quantity: line.shortageQuantity }));
+
+    const result = await new OrderOperationsService(this.prisma).splitOrder({
+      orderId: order.id,
+      items,
+      reason: 'Backorder - items not in stock',
+      splitBy: 'system',
+    });
+
+    if (!result.success || !result.orderId) {
+      console.error(`[Backorder] Could not split order ${order.orderNumber || order.id}: ${result.error}`);
+      return null;
+    }
+
+    // Everything on the split order is missing; the original now only has covered units
+    const splitItems = await this.prisma.orderItem.findMany({ where: { orderId: result.orderId } });
+    await this.prisma.$transaction([
+      ...splitItems.map(item => this.prisma.orderItem.update({
+        where: { id: item.id },
+        data: { shortageQuantity: item.quantity },
+      })),
+      this.prisma.order.update({
+        where: { id: result.orderId },
+        data: { backorderedAt: new Date(), status: 'OUT_OF_STOCK' },
+      }),
+    ]);
+
+    await this.unpark(order.id);
+
+    return result.orderId;
+  }
+
+  // ============= RELEASE =============
+
+  /**
+   * Release a client's parked orders that the stock now covers, by priority and order date
+   * @returns Released order IDs
+   */
+  async releaseCoveredBackorders(clientId: string): Promise<string[]> {
+    const orders = await this.prisma.order.findMany({
+      where: {
+        clientId,
+        isOnHold: true,
+        holdReason: BACKORDER_HOLD_REASON,
+        isCancelled: false,
+        jtlOutboundId: null,
+        mergedIntoOrderId: null,
+      },
+      include: BACKORDER_ORDER_INCLUDE,
+      orderBy: [{ priorityLevel: 'desc' }, { orderDate: 'asc' }, { createdAt: 'asc' }],
+    });
+    if (orders.length === 0) return [];
+
+    const { free, components } = await this.loadStock(this.productIdsOf(orders));
+    const released: string[] = [];
+
+    for (const order of orders) {
+      try {
+        // Only what the order actually gets is taken off the stock for the next orders
+        const trial = new Map(free);
+        const lines = this.cover(order, trial, components);
+        const complete = lines.every(line => line.shortageQuantity === 0);
+        const covered = lines.some(line => line.coveredQuantity > 0);
+
+        if (complete) {
+          await this.reserve(order, lines, components);
+          await this.release(order.id);
+          released.push(order.id);
+        } else if (order.client.backorderMode === BackorderMode.PARTIAL && covered) {
+          if (await this.splitShortage(order, lines)) {
+            await this.reserve(order, lines, components);
+            await this.queueForFFN(order.id);
+            released.push(order.id);
+          } else {
+            continue;
+          }
+        } else {
+          // Still short - keep the shortages up to date
+          await this.prisma.$transaction([
+            ...lines.map(line => this.prisma.orderItem.update({
+              where: { id: line.orderItemId },
+              data: { shortageQuantity: line.shortageQuantity },
+            })),
+            this.prisma.order.update({
+              where: { id: order.id },
+              data: { holdNotes: this.describeShortage(lines) },
+            }),
+          ]);
+          continue;
+        }
+
+        for (const [productId, quantity] of trial) free.set(productId, quantity);
+      } catch (error) {
+        console.error(`[Backorder] Failed to release order ${order.orderNumber || order.id}:`, error);
+      }
+    }
+
+    if (released.length > 0) {
+      console.log(`[Backorder] Released ${released.length} backorder(s) of client ${clientId}`);
+    }
+
+    return released;
+  }
+
+  /**
+   * Take an order off backorder hold and queue it for FFN
+   */
+  async release(orderId: string, releasedBy?: string): Promise<void> {
+    await this.unpark(orderId, releasedBy);
+    await this.queueForFFN(orderId);
+  }
+
+  // Take an order off backorder hold; it is never parked again
+  private async unpark(orderId: string, releasedBy?: string): Promise<void> {
+    await this.prisma.order.update({
+      where: { id: orderId },
+      data: {
+        isOnHold: false,
+        holdReason: null,
+        holdNotes: null,
+        holdReleasedAt: new Date(),
+        holdReleasedBy: releasedBy ?? null,
+        status: 'PENDING',
+        backorderReleasedAt: new Date(),
+        syncStatus: 'PENDING',
+        items: { updateMany: { where: {}, data: { shortageQuantity: 0 } } },
+      },
+    });
+  }
+
+  private async queueForFFN(orderId: string): Promise<void> {
+    try {
+      await getQueue().enqueue(
+        QUEUE_NAMES.ORDER_SYNC_TO_FFN,
+        {
+          orderId,
+          origin: 'nolimits' as const,
+          operation: 'create' as const,
+        },
+        {
+          priority: 1,
+          retryLimit: 3,
+          retryDelay: 60,
+          retryBackoff: true,
+        }
+      );
+    } catch (error) {
+      // The safety net picks up released orders that never reached FFN
+      console.error(`[Backorder] Failed to queue FFN sync for released order ${orderId}:`, error);
+    }
+  }
+
+  // ============= QUERIES =============
+
+  /**
+   * A client's parked orders in release order, with their shortages
+   */
+  async listBackorders(clientId: string, filters: { page?: number; limit?: number } = {}) {
+    const page = Math.max(1, filters.page ?? 1);
+    const limit = Math.min(200, Math.max(1, filters.limit ?? 50));
+
+    const where: Prisma.OrderWhereInput = {
+      clientId,
+      isOnHold: true,
+      holdReason: BACKORDER_HOLD_REASON,
+      isCancelled: false,
+    };
+
+    const [orders, total] = await Promise.all([
+      this.prisma.order.findMany({
+        where,
+        select: {
+          id: true,
+          orderId: true,
+          orderNumber: true,
+          orderDate: true,
+          priorityLevel: true,
+          customerName: true,
+          backorderedAt: true,
+          isSplitOrder: true,
+          splitFromOrderId: true,
+          items: {
+            select: { id: true, sku: true, productName: true, quantity: true, shortageQuantity: true, productId: true },
+          },
+        },
+        orderBy: [{ priorityLevel: 'desc' }, { orderDate: 'asc' }, { createdAt: 'asc' }],
+        take: limit,
+        skip: (page - 1) * limit,
+      }),
+      this.prisma.order.count({ where }),
+    ]);
+
+    return {
+      orders,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  async setBackorderMode(clientId: string, backorderMode: BackorderMode) {
+    return this.prisma.client.update({
+      where: { id: clientId },
+      data: { backorderMode },
+      select: { id: true, backorderMode: true },
+    });
+  }
+
+  private productIdsOf(orders: Array<Pick<BackorderOrder, 'items'>>): string[] {
+    return [...new Set(orders.flatMap(order => order.items.map(item => item.productId).filter((id): id is string => !!id)))];
+  }
+
+  private describeShortage(lines: BackorderLine[]): string {
+    return 'Missing: ' + lines
+      .filter(line => line.shortageQuantity > 0)
+      .map(line => `${line.shortageQuantity} x ${line.sku || line.orderItemId}`)
+      .join(', ');
+  }
+}
+
+export const backorderService = new BackorderService();
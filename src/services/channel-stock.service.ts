@@ -0,0 +1,279 @@
+/**
+ * Channel Stock Service
+ *
+ * Decides how much stock is published to each sales channel, so merchants selling
+ * the same stock on several shops can share it out and keep a safety margin.
+ *
+ * KEY CONCEPTS:
+ * 1. A channel has an optional default rule; a product rule on that channel replaces the
+ *    default for that product. Without a rule the full stock is published
+ * 2. A rule publishes fixedQuantity, or else the stock minus the safety buffer, times the
+ *    percentage, capped at maxQuantity. Never less than 0 - no channel is offered stock
+ *    that is not there
+ * 3. The stock of a bundle is the number of bundles its components make up
+ *    (calculatePossibleQuantity), the rule then applies to that
+ * 4. Every inventory push (stock-only sync, full product push, legacy inventory update,
+ *    file channel stock export) asks getPublishedQuantities() for the number to send
+ * 5. A rule-managed channel shows the published number, not the stock. Inventory it reports
+ *    back is an echo of that number and must not be written to Product.available
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '../config/database.js';
+import { dryRunClient } from '../utils/dry-run.js';
+import { calculatePossibleQuantity } from '../utils/bundle-calculator.js';
+import { getQueue, QUEUE_NAMES } from './queue/sync-queue.service.js';
+
+export interface ChannelStockRuleInput {
+  percentage?: number | null;
+  safetyBuffer?: number | null;
+  maxQuantity?: number | null;
+  fixedQuantity?: number | null;
+}
+
+type StockRule = Required<{ [K in keyof ChannelStockRuleInput]: number | null }>;
+
+export const CHANNEL_STOCK_RULE_FIELDS: Array<keyof ChannelStockRuleInput> = [
+  'percentage',
+  'safetyBuffer',
+  'maxQuantity',
+  'fixedQuantity',
+];
+
+/**
+ * Quantity to publish for a stock level under a rule
+ */
+export function applyChannelStockRule(stock: number, rule: StockRule | null | undefined): number {
+  if (!rule) return Math.max(0, stock);
+  if (rule.fixedQuantity !== null) return Math.max(0, rule.fixedQuantity);
+
+  let quantity = stock - (rule.safetyBuffer ?? 0);
+  if (rule.percentage !== null) quantity = Math.floor((quantity * rule.percentage) / 100);
+  if (rule.maxQuantity !== null) quantity = Math.min(quantity, rule.maxQuantity);
+
+  return Math.max(0, quantity);
+}
+
+class ChannelStockService {
+  private get prisma() {
+    return dryRunClient() ?? prisma;
+  }
+
+  /**
+   * Validate a rule; returns an error message or null
+   */
+  validateRule(input: ChannelStockRuleInput): string | null {
+    for (const field of CHANNEL_STOCK_RULE_FIELDS) {
+      const value = input[field];
+      if (value === undefined || value === null) continue;
+      if (!Number.isInteger(value) || value < 0) return `${field} must be a non-negative whole number`;
+    }
+    if (input.percentage != null && input.percentage > 100) return 'percentage must be between 0 and 100';
+    if (CHANNEL_STOCK_RULE_FIELDS.every(field => input[field] === undefined || input[field] === null)) {
+      return `At least one of ${CHANNEL_STOCK_RULE_FIELDS.join(', ')} is required`;
+    }
+    return null;
+  }
+
+  // ============= PUBLISHED QUANTITIES =============
+
+  /**
+   * Quantities to publish to a channel, per product
+   * @param stockOverride Stock to use instead of the stored level (ignored for bundles)
+   */
+  async getPublishedQuantities(
+    channelId: string,
+    productIds: string[],
+    stockOverride?: Map<string, number>
+  ): Promise<Map<string, number>> {
+    if (productIds.length === 0) return new Map();
+
+    const [products, rules] = await Promise.all([
+      this.prisma.product.findMany({
+        where: { id: { in: productIds } },
+        select: {
+          id: true,
+          available: true,
+          isBundle: true,
+          bundleItems: { select: { quantity: true, childProduct: { select: { available: true } } } },
+        },
+      }),
+      this.prisma.channelStockRule.findMany({
+        where: { channelId, OR: [{ productId: null }, { productId: { in: productIds } }] },
+      }),
+    ]);
+
+    const channelRule = rules.find(rule => rule.productId === null);
+    const ruleByProduct = new Map(rules.filter(rule => rule.productId).map(rule => [rule.productId!, rule]));
+
+    return new Map(products.map(product => {
+      const stock = product.isBundle && product.bundleItems.length > 0
+        ? calculatePossibleQuantity(product.bundleItems)
+        : stockOverride?.get(product.id) ?? product.available;
+
+      return [product.id, applyChannelStockRule(stock, ruleByProduct.get(product.id) ?? channelRule)];
+    }));
+  }
+
+  /**
+   * Quantity to publish to a channel for one product
+   * @param stockOverride Stock to use instead of the stored level (ignored for bundles)
+   */
+  async getPublishedQuantity(productId: string, channelId: string, stockOverride?: number): Promise<number> {
+    const quantities = await this.getPublishedQuantities(
+      channelId,
+      [productId],
+      stockOverride !== undefined ? new Map([[productId, stockOverride]]) : undefined
+    );
+    return quantities.get(productId) ?? 0;
+  }
+
+  /**
+   * Whether a channel's quantity for a product is set by a rule (channel default or product
+   * rule) - inventory reported by such a channel is ignored
+   */
+  async isRuleManaged(channelId: string, productId: string): Promise<boolean> {
+    const rules = await this.prisma.channelStockRule.count({
+      where: { channelId, OR: [{ productId: null }, { productId }] },
+    });
+    return rules > 0;
+  }
+
+  /**
+   * Stock and published quantity of each product linked to a channel
+   */
+  async previewChannel(channelId: string) {
+    const productChannels = await this.prisma.productChannel.findMany({
+      where: { channelId },
+      select: {
+        product: { select: { id: true, sku: true, name: true, available: true, isBundle: true } },
+      },
+      orderBy: { product: { sku: 'asc' } },
+    });
+
+    const products = productChannels.map(pc => pc.product);
+    const published = await this.getPublishedQuantities(channelId, products.map(product => product.id));
+
+    return products.map(product => ({ ...product, published: published.get(product.id) ?? 0 }));
+  }
+
+  // ============= RULES =============
+
+  async findChannel(channelId: string) {
+    return this.prisma.channel.findUnique({
+      where: { id: channelId },
+      select: { id: true, name: true, type: true, clientId: true },
+    });
+  }
+
+  async findRule(id: string) {
+    return this.prisma.channelStockRule.findUnique({ where: { id } });
+  }
+
+  async listRules(channelId: string) {
+    return this.prisma.channelStockRule.findMany({
+      where: { channelId },
+      include: { product: { select: { id: true, sku: true, name: true } } },
+      orderBy: [{ productId: { sort: 'asc', nulls: 'first' } }, { createdAt: 'asc' }],
+    });
+  }
+
+  /**
+   * Set the default rule of a channel, or (with productId) the rule of a product on it,
+   * and push the resulting stock to the channel
+   * @throws When the product does not belong to the channel's client
+   */
+  async setRule(channelId: string, productId: string | null, input: ChannelStockRuleInput) {
+    const channel = await this.prisma.channel.findUnique({ where: { id: channelId }, select: { id: true, clientId: true } });
+    if (!channel) throw new Error(`Channel ${channelId} not found`);
+
+    if (productId) {
+      const product = await this.prisma.product.findFirst({ where: { id: productId, clientId: channel.clientId } });
+      if (!product) throw new Error(`Product ${productId} not found`);
+    }
+
+    const data = {
+      percentage: input.percentage ?? null,
+      safetyBuffer: input.safetyBuffer ?? null,
+      maxQuantity: input.maxQuantity ?? null,
+      fixedQuantity: input.fixedQuantity ?? null,
+    };
+
+    // The channel default has no productId, which the unique index does not cover
+    const existing = await this.prisma.channelStockRule.findFirst({ where: { channelId, productId } });
+    const rule = existing
+      ? await this.prisma.channelStockRule.update({ where: { id: existing.id }, data })
+      : await this.prisma.channelStockRule.create({
+          data: { ...data, channelId, productId, clientId: channel.clientId },
+        });
+
+    await this.queueStockPush(channelId, productId ? [productId] : undefined);
+
+    return rule;
+  }
+
+  /**
+   * Remove a rule and push the resulting stock to the channel
+   */
+  async deleteRule(id: string) {
+    const rule = await this.prisma.channelStockRule.delete({ where: { id } });
+    await this.queueStockPush(rule.channelId, rule.productId ? [rule.productId] : undefined);
+    return rule;
+  }
+
+  /**
+   * Queue stock-only syncs of a channel's products (all linked products when productIds is omitted)
+   * @returns Number of queued jobs
+   */
+  async queueStockPush(channelId: string, productIds?: string[]): Promise<number> {
+    try {
+      const queue = getQueue();
+
+      const where: Prisma.ProductChannelWhereInput = {
+        channelId,
+        syncEnabled: true,
+        isActive: true,
+        externalProductId: { not: null },
+        channel: { isActive: true },
+        ...(productIds && { productId: { in: productIds } }),
+      };
+      const productChannels = await this.prisma.productChannel.findMany({
+        where,
+        select: { productId: true, channel: { select: { type: true } } },
+      });
+
+      let queued = 0;
+      for (const pc of productChannels) {
+        const queueName = pc.channel.type === 'SHOPIFY'
+          ? QUEUE_NAMES.PRODUCT_SYNC_TO_SHOPIFY
+          : pc.channel.type === 'WOOCOMMERCE'
+            ? QUEUE_NAMES.PRODUCT_SYNC_TO_WOOCOMMERCE
+            : pc.channel.type === 'AMAZON'
+              ? QUEUE_NAMES.PRODUCT_SYNC_TO_AMAZON
+              : pc.channel.type === 'EBAY'
+                ? QUEUE_NAMES.PRODUCT_SYNC_TO_EBAY
+                : null;
+        if (!queueName) continue;
+
+        const jobId = await queue.enqueue(
+          queueName,
+          {
+            productId: pc.productId,
+            channelId,
+            origin: 'nolimits',
+            fieldsToSync: ['available', 'reserved'],
+          },
+          { priority: 5, retryLimit: 3, retryDelay: 30 }
+        );
+        if (jobId) queued++;
+      }
+
+      return queued;
+    } catch (error) {
+      console.error(`[ChannelStock] Failed to queue stock push for channel ${channelId}:`, error);
+      return 0;
+    }
+  }
+}
+
+export const channelStockService = new ChannelStockService();
@@ -0,0 +1,270 @@
+/**
+ * Client Team Service
+ *
+ * Multiple user accounts per client:
+ * - The account owner (Client.userId) is implicitly CLIENT_OWNER
+ * - Further users join through single-use, expiring invitations and get a ClientMember row
+ * - Every CLIENT user resolves to exactly one client and team role
+ */
+
+import crypto from 'crypto';
+import { Client, ClientTeamRole, Prisma } from '@prisma/client';
+import { prisma } from '../config/database.js';
+import { hashPassword } from '../utils/auth.js';
+
+export const INVITATION_TTL_DAYS = 7;
+
+export interface ClientMembership {
+  client: Client;
+  role: ClientTeamRole;
+  isAccountOwner: boolean;
+}
+
+type UserWithClient = Prisma.UserGetPayload<{ include: { client: true } }>;
+
+const MEMBER_USER_SELECT = {
+  id: true,
+  email: true,
+  name: true,
+  isActive: true,
+  lastLoginAt: true,
+  twoFactorEnabled: true,
+} as const;
+
+class ClientTeamService {
+  private prisma = prisma;
+
+  /**
+   * The client and team role of a user, or null if the user belongs to no client
+   */
+  async resolveMembership(userId: string): Promise<ClientMembership | null> {
+    const ownedClient = await this.prisma.client.findUnique({ where: { userId } });
+    if (ownedClient) {
+      return { client: ownedClient, role: 'CLIENT_OWNER', isAccountOwner: true };
+    }
+
+    const member = await this.prisma.clientMember.findUnique({
+      where: { userId },
+      include: { client: true },
+    });
+    if (member) {
+      return { client: member.client, role: member.role, isAccountOwner: false };
+    }
+
+    return null;
+  }
+
+  /**
+   * Load a user with `client` set to the client they own or are a member of
+   */
+  async findUserWithClient(userId: string): Promise<UserWithClient | null> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      include: { client: true },
+    });
+
+    if (!user || user.client || user.role !== 'CLIENT') return user;
+
+    const membership = await this.resolveMembership(user.id);
+    return { ...user, client: membership?.client ?? null };
+  }
+
+  /**
+   * Team of a client: the account owner followed by all members
+   */
+  async listMembers(clientId: string) {
+    const client = await this.prisma.client.findUnique({
+      where: { id: clientId },
+      select: {
+        user: { select: MEMBER_USER_SELECT },
+        members: {
+          include: { user: { select: MEMBER_USER_SELECT } },
+          orderBy: { createdAt: 'asc' },
+        },
+      },
+    });
+
+    if (!client) return null;
+
+    return [
+      { id: null, role: 'CLIENT_OWNER' as ClientTeamRole, isAccountOwner: true, createdAt: null, user: client.user },
+      ...client.members.map(member => ({
+        id: member.id,
+        role: member.role,
+        isAccountOwner: false,
+        createdAt: member.createdAt,
+        user: member.user,
+      })),
+    ];
+  }
+
+  /**
+   * Create an invitation and return it with the raw token (to be mailed)
+   */
+  async createInvitation(clientId: string, email: string, role: ClientTeamRole, invitedById: string) {
+    const normalizedEmail = email.trim().toLowerCase();
+
+    const existingUser = await this.prisma.user.findUnique({ where: { email: normalizedEmail } });
+    if (existingUser) {
+      return { error: 'A user with this email already exists' as const };
+    }
+
+    // Only the latest invitation for an email stays valid
+    await this.prisma.clientInvitation.updateMany({
+      where: { clientId, email: normalizedEmail, acceptedAt: null, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+
+    const rawToken = crypto.randomBytes(32).toString('hex');
+    const invitation = await this.prisma.clientInvitation.create({
+      data: {
+        clientId,
+        email: normalizedEmail,
+        role,
+        tokenHash: this.hash(rawToken),
+        expiresAt: new Date(Date.now() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000),
+        invitedById,
+      },
+      include: { client: { select: { companyName: true, name: true } } },
+    });
+
+    return { invitation, token: rawToken };
+  }
+
+  async listInvitations(clientId: string) {
+    return this.prisma.clientInvitation.findMany({
+      where: {
+        clientId,
+        acceptedAt: null,
+        revokedAt: null,
+        expiresAt: { gt: new Date() },
+      },
+      select: {
+        id: true,
+        email: true,
+        role: true,
+        expiresAt: true,
+        createdAt: true,
+        invitedBy: { select: { id: true, email: true, name: true } },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  async revokeInvitation(clientId: string, invitationId: string): Promise<boolean> {
+    const { count } = await this.prisma.clientInvitation.updateMany({
+      where: { id: invitationId, clientId, acceptedAt: null, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+    return count > 0;
+  }
+
+  /**
+   * Accept an invitation by creating the user account and team membership
+   */
+  async acceptInvitation(rawToken: string, input: { password: string; name?: string; phone?: string }) {
+    const invitation = await this.prisma.clientInvitation.findUnique({
+      where: { tokenHash: this.hash(rawToken) },
+      include: { client: { include: { chatRoom: true } } },
+    });
+
+    if (
+      !invitation ||
+      invitation.acceptedAt ||
+      invitation.revokedAt ||
+      invitation.expiresAt <= new Date() ||
+      !invitation.client.isActive
+    ) {
+      return { error: 'Invalid or expired invitation' as const };
+    }
+
+    const existingUser = await this.prisma.user.findUnique({ where: { email: invitation.email } });
+    if (existingUser) {
+      return { error: 'A user with this email already exists' as const };
+    }
+
+    const hashedPassword = await hashPassword(input.password);
+
+    const user = await this.prisma.$transaction(async (tx) => {
+      // Claim the invitation first so it can't be accepted twice
+      const { count } = await tx.clientInvitation.updateMany({
+        where: { id: invitation.id, acceptedAt: null, revokedAt: null },
+        data: { acceptedAt: new Date() },
+      });
+      if (count === 0) return null;
+
+      const created = await tx.user.create({
+        data: {
+          email: invitation.email,
+          password: hashedPassword,
+          name: input.name,
+          phone: input.phone,
+          role: 'CLIENT',
+          // The invitation link proves control of the mailbox
+          emailVerified: true,
+          emailVerifiedAt: new Date(),
+          clientMembership: {
+            create: {
+              clientId: invitation.clientId,
+              role: invitation.role,
+              invitedById: invitation.invitedById,
+            },
+          },
+        },
+      });
+
+      if (invitation.client.chatRoom) {
+        await tx.chatParticipant.create({
+          data: { chatRoomId: invitation.client.chatRoom.id, userId: created.id },
+        });
+      }
+
+      return created;
+    });
+
+    if (!user) {
+      return { error: 'Invalid or expired invitation' as const };
+    }
+
+    return { user, clientId: invitation.clientId, role: invitation.role };
+  }
+
+  async updateMemberRole(clientId: string, memberId: string, role: ClientTeamRole) {
+    const member = await this.prisma.clientMember.findFirst({ where: { id: memberId, clientId } });
+    if (!member) return null;
+
+    return this.prisma.clientMember.update({
+      where: { id: memberId },
+      data: { role },
+      include: { user: { select: MEMBER_USER_SELECT } },
+    });
+  }
+
+  /**
+   * Remove a member from the team. The user account is kept (it may own messages,
+   * tasks and audit entries) but deactivated, since a CLIENT user without a client
+   * can't do anything.
+   */
+  async removeMember(clientId: string, memberId: string): Promise<string | null> {
+    const member = await this.prisma.clientMember.findFirst({ where: { id: memberId, clientId } });
+    if (!member) return null;
+
+    await this.prisma.$transaction([
+      this.prisma.clientMember.delete({ where: { id: member.id } }),
+      this.prisma.user.update({
+        where: { id: member.userId },
+        data: { isActive: false },
+      }),
+    ]);
+
+    return member.userId;
+  }
+
+  private hash(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+}
+
+// Export singleton instance
+export const clientTeamService = new ClientTeamService();
+export default clientTeamService;
@@ -17,6 +17,9 @@ import { JTLService } from './integrations/jtl.service.js';
 import { getEncryptionService } from './encryption.service.js';
 import { Logger } from '../utils/logger.js';
 import { generateJobId } from '../utils/job-id.js';
+import { merchantWebhookService } from './merchant-webhook.service.js';
+import { lotService } from './lot.service.js';
+import { serialService } from './serial.service.js';
 
 // Status mappings between platforms
 const JTL_TO_NOLIMITS_STATUS: Record<string, string> = {
@@ -284,6 +287,11 @@ export class FulfillmentSyncService {
 
       const notifications = await jtlService.getShippingNotifications(order.jtlOutboundId);
 
+      if (notifications.success && notifications.data) {
+        await lotService.recordShippedLots(orderId, notifications.data.items);
+        await serialService.recordShippedSerials(orderId, notifications.data.items);
+      }
+
       if (!notifications.success || !notifications.data || notifications.data.packages.length === 0) {
         result.errors.push('No tracking information available');
         return result;
@@ -325,6 +333,10 @@ export class FulfillmentSyncService {
         },
       });
 
+      if (order.fulfillmentState !== 'SHIPPED') {
+        await merchantWebhookService.emitOrderEvent(orderId, 'order.shipped');
+      }
+
       result.syncedTo.push('nolimits');
       result.success = true;
       return result;
@@ -401,6 +413,10 @@ export class FulfillmentSyncService {
         },
       });
 
+      if (noLimitsStatus === 'SHIPPED') {
+        await merchantWebhookService.emitOrderEvent(order.id, 'order.shipped');
+      }
+
       result.syncedTo.push('nolimits');
       result.success = true;
       return result;
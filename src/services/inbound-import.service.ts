@@ -0,0 +1,328 @@
+/**
+ * Inbound Import Service
+ *
+ * Turns supplier packing lists (CSV or XLSX) into inbound deliveries (ASNs), so merchants
+ * can announce hundreds of SKUs without looking up product IDs.
+ *
+ * KEY CONCEPTS:
+ * 1. Columns are mapped to sku, gtin, quantity, lotNumber and bestBefore - by an explicit
+ *    mapping, or else by recognising common header names (e.g. "EAN", "Menge", "MHD")
+ * 2. Each row is matched to one of the client's products by SKU, or else by GTIN. Every
+ *    row gets its own errors and warnings, so the merchant can fix the file in one go
+ * 3. preview() changes nothing. commit() runs the same validation and only creates the
+ *    inbound when no row has an error
+ * 4. Rows for the same product, lot and best-before date are announced as one line
+ * 5. The inbound is pushed to JTL FFN (inboundService.pushToJTL) when JTL is configured;
+ *    products without a JFSKU stay local, like manually created inbounds
+ */
+
+import { DeliveryType } from '@prisma/client';
+import { prisma } from '../config/database.js';
+import { inboundService } from './inbound.service.js';
+import { parseBestBefore } from './lot.service.js';
+import { parseCsvRecords } from '../utils/csv.js';
+import { parseXlsxRecords, fromExcelDate } from '../utils/xlsx.js';
+
+export type AsnColumn = 'sku' | 'gtin' | 'quantity' | 'lotNumber' | 'bestBefore';
+
+export type AsnColumnMapping = Partial<Record<AsnColumn, string>>;
+
+export interface AsnImportFile {
+  format: 'csv' | 'xlsx';
+  content: string; // CSV text, or the XLSX file base64-encoded
+  delimiter?: string;
+}
+
+export interface AsnInboundDetails {
+  deliveryType?: string;
+  expectedDate?: string;
+  carrierName?: string;
+  trackingNumber?: string;
+  notes?: string;
+}
+
+export interface AsnImportRow {
+  row: number; // Line in the file (the header is line 1)
+  sku: string | null;
+  gtin: string | null;
+  quantity: number | null;
+  lotNumber: string | null;
+  bestBefore: string | null; // YYYY-MM-DD
+  productId: string | null;
+  productName: string | null;
+  errors: string[];
+  warnings: string[];
+}
+
+export interface AsnImportLine {
+  productId: string;
+  sku: string;
+  productName: string;
+  quantity: number;
+  lotNumber: string | null;
+  bestBefore: string | null;
+  jfsku: string | null;
+}
+
+export interface AsnImportPreview {
+  columns: AsnColumnMapping;
+  rows: AsnImportRow[];
+  lines: AsnImportLine[];
+  totalQuantity: number;
+  errorCount: number;
+  valid: boolean;
+}
+
+export const MAX_ASN_IMPORT_ROWS = 5000;
+
+// Header names recognised without a mapping (compared lowercase, without spaces, dashes and underscores)
+const COLUMN_ALIASES: Record<AsnColumn, string[]> = {
+  sku: ['sku', 'merchantsku', 'articlenumber', 'artikelnummer', 'artnr', 'itemnumber', 'productnumber'],
+  gtin: ['gtin', 'ean', 'ean13', 'barcode', 'upc'],
+  quantity: ['quantity', 'qty', 'menge', 'anzahl', 'units', 'stück', 'stueck'],
+  lotNumber: ['lotnumber', 'lot', 'batch', 'batchnumber', 'charge', 'chargennummer', 'chargenummer'],
+  bestBefore: ['bestbefore', 'bestbeforedate', 'mhd', 'expiry', 'expirydate', 'expirationdate', 'haltbarkeit'],
+};
+
+const ASN_COLUMNS = Object.keys(COLUMN_ALIASES) as AsnColumn[];
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[\s_\-.]/g, '');
+
+class InboundImportService {
+  private prisma = prisma;
+
+  // ============= PARSING =============
+
+  /**
+   * Read the file into records keyed by header
+   * @throws When the file cannot be read
+   */
+  readRecords(file: AsnImportFile): Array<Record<string, string>> {
+    if (file.format === 'xlsx') return parseXlsxRecords(Buffer.from(file.content, 'base64'));
+    return parseCsvRecords(file.content, file.delimiter || ';');
+  }
+
+  /**
+   * Decide which header holds which column
+   * @throws When the mapping names a missing header, or no SKU/GTIN or quantity column is found
+   */
+  resolveColumns(headers: string[], mapping: AsnColumnMapping = {}): AsnColumnMapping {
+    const columns: AsnColumnMapping = {};
+
+    for (const column of ASN_COLUMNS) {
+      const mapped = mapping[column]?.trim();
+      if (mapped) {
+        if (!headers.includes(mapped)) throw new Error(`Column "${mapped}" mapped to ${column} not found in file`);
+        columns[column] = mapped;
+        continue;
+      }
+
+      const detected = headers.find(header => COLUMN_ALIASES[column].includes(normalizeHeader(header)));
+      if (detected) columns[column] = detected;
+    }
+
+    if (!columns.sku && !columns.gtin) throw new Error('File needs a SKU or GTIN column');
+    if (!columns.quantity) throw new Error('File needs a quantity column');
+
+    return columns;
+  }
+
+  // ============= PREVIEW =============
+
+  /**
+   * Validate a packing list against the client's products without changing anything
+   * @throws When the file cannot be read or its columns cannot be mapped
+   */
+  async preview(clientId: string, file: AsnImportFile, mapping?: AsnColumnMapping): Promise<AsnImportPreview> {
+    const records = this.readRecords(file);
+    if (records.length === 0) throw new Error('File contains no rows');
+    if (records.length > MAX_ASN_IMPORT_ROWS) {
+      throw new Error(`File contains ${records.length} rows - at most ${MAX_ASN_IMPORT_ROWS} per import`);
+    }
+
+    const columns = this.resolveColumns(Object.keys(records[0]), mapping);
+    const cell = (record: Record<string, string>, column: AsnColumn) =>
+      (columns[column] && record[columns[column]!]) || null;
+
+    const skus = records.map(record => cell(record, 'sku')).filter((sku): sku is string => !!sku);
+    const gtins = records.map(record => cell(record, 'gtin')).filter((gtin): gtin is string => !!gtin);
+
+    const products = await this.prisma.product.findMany({
+      where: {
+        clientId,
+        OR: [{ sku: { in: skus } }, { gtin: { in: gtins } }],
+      },
+      select: { id: true, sku: true, gtin: true, name: true, isActive: true, isBundle: true, jtlProductId: true },
+    });
+    const bySku = new Map(products.map(product => [product.sku, product]));
+    const byGtin = new Map<string, typeof products>();
+    for (const product of products) {
+      if (!product.gtin) continue;
+      byGtin.set(product.gtin, [...(byGtin.get(product.gtin) ?? []), product]);
+    }
+
+    const rows: AsnImportRow[] = records.map((record, index) => {
+      const row: AsnImportRow = {
+        row: index + 2,
+        sku: cell(record, 'sku'),
+        gtin: cell(record, 'gtin'),
+        quantity: null,
+        lotNumber: cell(record, 'lotNumber'),
+        bestBefore: null,
+        productId: null,
+        productName: null,
+        errors: [],
+        warnings: [],
+      };
+
+      // Product: by SKU, or else by GTIN
+      let product = row.sku ? bySku.get(row.sku) : undefined;
+      if (!product && row.gtin) {
+        const matches = byGtin.get(row.gtin) ?? [];
+        if (matches.length > 1) row.errors.push(`GTIN ${row.gtin} belongs to ${matches.length} products - use the SKU`);
+        else product = matches[0];
+      }
+      if (product) {
+        row.productId = product.id;
+        row.productName = product.name;
+        row.sku = product.sku;
+        if (row.gtin && product.gtin && row.gtin !== product.gtin) {
+          row.warnings.push(`GTIN ${row.gtin} differs from the product's GTIN ${product.gtin}`);
+        }
+        if (product.isBundle) row.errors.push(`${product.sku} is a bundle - announce its components instead`);
+        if (!product.isActive) row.warnings.push(`${product.sku} is inactive`);
+        if (!product.jtlProductId) row.warnings.push(`${product.sku} is not synced to JTL FFN and is only announced locally`);
+      } else if (row.errors.length === 0) {
+        row.errors.push(row.sku || row.gtin ? `No product with ${row.sku ? `SKU ${row.sku}` : `GTIN ${row.gtin}`}` : 'SKU or GTIN is required');
+      }
+
+      // Quantity
+      const rawQuantity = cell(record, 'quantity');
+      const quantity = rawQuantity ? Number(rawQuantity.replace(',', '.')) : NaN;
+      if (Number.isInteger(quantity) && quantity > 0) row.quantity = quantity;
+      else row.errors.push(rawQuantity ? `Quantity "${rawQuantity}" is not a positive whole number` : 'Quantity is required');
+
+      // Best-before date (XLSX stores dates as serial numbers)
+      const rawBestBefore = cell(record, 'bestBefore');
+      if (rawBestBefore) {
+        const bestBefore = this.parseDate(rawBestBefore, file.format);
+        if (bestBefore) row.bestBefore = bestBefore.toISOString().slice(0, 10);
+        else row.errors.push(`Best-before date "${rawBestBefore}" is not a date`);
+      }
+
+      return row;
+    });
+
+    const lines = this.mergeLines(rows, products);
+    const errorCount = rows.filter(row => row.errors.length > 0).length;
+
+    return {
+      columns,
+      rows,
+      lines,
+      totalQuantity: lines.reduce((sum, line) => sum + line.quantity, 0),
+      errorCount,
+      valid: errorCount === 0,
+    };
+  }
+
+  /**
+   * Accepts ISO dates, German dates (31.12.2026) and Excel serial numbers (XLSX only)
+   */
+  private parseDate(value: string, format: AsnImportFile['format']): Date | null {
+    const german = value.match(/^(\d{1,2})\.(\d{1,2})\.(\d{4})$/);
+    if (german) return parseBestBefore(`${german[3]}-${german[2].padStart(2, '0')}-${german[1].padStart(2, '0')}`);
+    if (format === 'xlsx' && /^\d+(\.\d+)?$/.test(value)) return fromExcelDate(Number(value));
+    return /^\d{4}-\d{2}-\d{2}/.test(value) ? parseBestBefore(value) : null;
+  }
+
+  // Valid rows for the same product, lot and best-before date become one line
+  private mergeLines(
+    rows: AsnImportRow[],
+    products: Array<{ id: string; sku: string; name: string; jtlProductId: string | null }>
+  ): AsnImportLine[] {
+    const productsById = new Map(products.map(product => [product.id, product]));
+    const lines = new Map<string, AsnImportLine>();
+
+    for (const row of rows) {
+      if (row.errors.length > 0 || !row.productId || !row.quantity) continue;
+
+      const key = [row.productId, row.lotNumber ?? '', row.bestBefore ?? ''].join('|');
+      const line = lines.get(key);
+      if (line) {
+        line.quantity += row.quantity;
+        continue;
+      }
+
+      const product = productsById.get(row.productId)!;
+      lines.set(key, {
+        productId: product.id,
+        sku: product.sku,
+        productName: product.name,
+        quantity: row.quantity,
+        lotNumber: row.lotNumber,
+        bestBefore: row.bestBefore,
+        jfsku: product.jtlProductId,
+      });
+    }
+
+    return [...lines.values()];
+  }
+
+  // ============= COMMIT =============
+
+  /**
+   * Validate the packing list again and create the inbound from it, pushing it to JTL FFN
+   * @returns The inbound, or the preview with row errors when the file is not valid
+   * @throws When the file cannot be read or its columns cannot be mapped
+   */
+  async commit(clientId: string, file: AsnImportFile, details: AsnInboundDetails, mapping?: AsnColumnMapping) {
+    const preview = await this.preview(clientId, file, mapping);
+    if (!preview.valid) return { preview, inbound: null, jtlSync: null };
+
+    // Same numbering as manually created inbounds
+    const inboundId = await inboundService.nextInboundNumber(clientId);
+
+    const deliveryType = Object.values(DeliveryType).find(type => type === details.deliveryType?.toUpperCase())
+      ?? DeliveryType.PARCEL_SERVICE;
+    const expectedDate = details.expectedDate ? new Date(details.expectedDate) : null;
+
+    const inbound = await this.prisma.inboundDelivery.create({
+      data: {
+        inboundId,
+        clientId,
+        deliveryType,
+        expectedDate: expectedDate && !isNaN(expectedDate.getTime()) ? expectedDate : null,
+        carrierName: details.carrierName || null,
+        trackingNumber: details.trackingNumber || null,
+        notes: details.notes || null,
+        announcedQuantity: preview.totalQuantity,
+        numberOfProducts: preview.lines.length,
+        status: 'PENDING',
+        items: {
+          create: preview.lines.map(line => ({
+            productId: line.productId,
+            announcedQuantity: line.quantity,
+            lotNumber: line.lotNumber,
+            bestBefore: parseBestBefore(line.bestBefore),
+          })),
+        },
+      },
+      include: {
+        items: { include: { product: { select: { name: true, sku: true } } } },
+      },
+    });
+
+    const jtlSync = await inboundService.pushToJTL(inbound.id);
+
+    console.log(`[InboundImport] Created inbound ${inboundId} with ${preview.lines.length} line(s) for client ${clientId}`);
+
+    return {
+      preview,
+      inbound: { ...inbound, jtlDeliveryId: jtlSync?.inboundId ?? null },
+      jtlSync,
+    };
+  }
+}
+
+export const inboundImportService = new InboundImportService();
@@ -0,0 +1,581 @@
+/**
+ * Inbound Service
+ *
+ * Changes to inbound deliveries after they were announced, and what happens when the
+ * goods arrive differently than announced.
+ *
+ * KEY CONCEPTS:
+ * 1. Items can be added, removed and changed while the inbound is PENDING. The new item
+ *    list replaces the announced items in FFN first (JTLService.updateInbound); an inbound
+ *    not announced in FFN yet is announced after the change
+ * 2. Cancelling cancels the FFN inbound first - if FFN refuses, the inbound stays open,
+ *    so the warehouse never receives goods No-Limits considers cancelled
+ * 3. FFN receipts set InboundItem.receivedQuantity. On booking, every line received over
+ *    or short gets a discrepancy, as do goods FFN booked that were not announced. The
+ *    warehouse reports damaged units by hand
+ * 4. New discrepancies notify the client (notification + inbound.discrepancy webhook).
+ *    The client or staff resolve them: accepted, claimed with the supplier, written off,
+ *    or redelivered - which announces the missing units in a follow-up inbound
+ * 5. Cancelling ends an inbound's stock simulation; changing its items simulates the new items
+ */
+
+import {
+  InboundDiscrepancyResolution,
+  InboundDiscrepancyStatus,
+  InboundDiscrepancyType,
+  Prisma,
+} from '@prisma/client';
+import { prisma } from '../config/database.js';
+import { getEncryptionService } from './encryption.service.js';
+import { JTLService } from './integrations/jtl.service.js';
+import { parseBestBefore } from './lot.service.js';
+import { merchantWebhookService } from './merchant-webhook.service.js';
+import { notificationService } from './notification.service.js';
+import { stockMovementService } from './stock-movement.service.js';
+
+export interface InboundItemInput {
+  id?: string; // Existing item to change; omitted for new items
+  productId: string;
+  quantity: number;
+  lotNumber?: string | null;
+  bestBefore?: string | null;
+}
+
+export interface InboundReceipt {
+  inboundId: string; // FFN inbound ID
+  merchantInboundNumber: string;
+  status: string;
+  items?: { jfsku: string; quantity: number }[];
+}
+
+export interface DiscrepancyFilters {
+  status?: InboundDiscrepancyStatus;
+  type?: InboundDiscrepancyType;
+  inboundId?: string;
+  page?: number;
+  limit?: number;
+}
+
+export interface JTLInboundSyncResult {
+  success: boolean;
+  inboundId?: string;
+  error?: string;
+}
+
+const INBOUND_INCLUDE = {
+  items: { include: { product: { select: { name: true, sku: true, jtlProductId: true } } } },
+} satisfies Prisma.InboundDeliveryInclude;
+
+const DISCREPANCY_INCLUDE = {
+  inbound: { select: { id: true, inboundId: true, status: true } },
+  product: { select: { id: true, sku: true, name: true } },
+} satisfies Prisma.InboundDiscrepancyInclude;
+
+// What FFN needs to announce an item
+type JTLItemSource = {
+  product: { sku: string; jtlProductId: string | null };
+  announcedQuantity: number;
+  lotNumber: string | null;
+  bestBefore: Date | null;
+};
+
+class InboundService {
+  private prisma = prisma;
+
+  async findInbound(id: string) {
+    return this.prisma.inboundDelivery.findUnique({ where: { id }, include: INBOUND_INCLUDE });
+  }
+
+  /**
+   * Next display number of a client's inbounds (INB-00001, ...)
+   */
+  async nextInboundNumber(clientId: string): Promise<string> {
+    const count = await this.prisma.inboundDelivery.count({ where: { clientId } });
+    return `INB-${String(count + 1).padStart(5, '0')}`;
+  }
+
+  // ============= FFN =============
+
+  private async getJTLService(clientId: string): Promise<{ jtlService: JTLService; warehouseId: string } | null> {
+    const jtlConfig = await this.prisma.jtlConfig.findUnique({ where: { clientId_fk: clientId } });
+    if (!jtlConfig || !jtlConfig.isActive || !jtlConfig.warehouseId) return null;
+
+    const encryptionService = getEncryptionService();
+    const jtlService = new JTLService({
+      clientId: jtlConfig.clientId,
+      clientSecret: encryptionService.decrypt(jtlConfig.clientSecret),
+      accessToken: jtlConfig.accessToken ? encryptionService.decrypt(jtlConfig.accessToken) : undefined,
+      refreshToken: jtlConfig.refreshToken ? encryptionService.decrypt(jtlConfig.refreshToken) : undefined,
+      tokenExpiresAt: jtlConfig.tokenExpiresAt || undefined,
+      environment: jtlConfig.environment as 'sandbox' | 'production',
+    }, this.prisma, clientId);
+
+    return { jtlService, warehouseId: jtlConfig.warehouseId };
+  }
+
+  // Items FFN knows the product of, numbered like on creation
+  private toJTLItems(inboundId: string, items: JTLItemSource[]) {
+    return items
+      .filter(item => item.product.jtlProductId)
+      .map((item, index) => ({
+        inboundItemId: `${inboundId}-ITEM-${index + 1}`,
+        jfsku: item.product.jtlProductId!,
+        merchantSku: item.product.sku,
+        quantity: item.announcedQuantity,
+        batchNumber: item.lotNumber || undefined,
+        bestBefore: item.bestBefore?.toISOString().slice(0, 10),
+      }));
+  }
+
+  /**
+   * Announce an inbound in JTL FFN. Never throws - the local inbound stays either way.
+   * @returns null when JTL is not configured or no item is known in FFN
+   */
+  async pushToJTL(id: string): Promise<JTLInboundSyncResult | null> {
+    try {
+      const inbound = await this.findInbound(id);
+      if (!inbound) return null;
+
+      const jtl = await this.getJTLService(inbound.clientId);
+      const items = this.toJTLItems(inbound.inboundId, inbound.items);
+      if (!jtl || items.length === 0) return null;
+
+      const response = await jtl.jtlService.createInbound({
+        merchantInboundNumber: inbound.inboundId,
+        warehouseId: jtl.warehouseId,
+        items,
+        ...(inbound.notes && { attributes: [{ key: 'note', value: inbound.notes }] }),
+      });
+
+      await this.prisma.inboundDelivery.update({
+        where: { id },
+        data: { jtlDeliveryId: response.inboundId, lastJtlSync: new Date() },
+      });
+
+      return { success: true, inboundId: response.inboundId };
+    } catch (error) {
+      console.error(`[Inbound] Failed to push inbound ${id} to JTL FFN:`, error);
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  // ============= EDITING =============
+
+  /**
+   * Replace the items of a pending inbound, in FFN first
+   * @throws When the inbound is no longer pending, an item is invalid or FFN refuses the change
+   */
+  async updateItems(id: string, items: InboundItemInput[]) {
+    const inbound = await this.findInbound(id);
+    if (!inbound) throw new Error(`Inbound ${id} not found`);
+    if (inbound.status !== 'PENDING') {
+      throw new Error(`Inbound ${inbound.inboundId} is ${inbound.status} - only pending inbounds can be changed`);
+    }
+
+    if (!Array.isArray(items) || items.length === 0) throw new Error('At least one product is required');
+    for (const [index, item] of items.entries()) {
+      if (typeof item?.productId !== 'string' || !item.productId) throw new Error(`Item ${index + 1}: productId is required`);
+      if (!Number.isInteger(item.quantity) || item.quantity <= 0) {
+        throw new Error(`Item ${index + 1}: quantity must be a positive whole number`);
+      }
+      if (item.bestBefore && !parseBestBefore(item.bestBefore)) throw new Error(`Item ${index + 1}: bestBefore is not a date`);
+      if (item.id && !inbound.items.some(existing => existing.id === item.id)) {
+        throw new Error(`Item ${index + 1}: item ${item.id} not found on this inbound`);
+      }
+    }
+
+    const productIds = [...new Set(items.map(item => item.productId))];
+    const products = await this.prisma.product.findMany({
+      where: { id: { in: productIds }, clientId: inbound.clientId },
+      select: { id: true, sku: true, jtlProductId: true },
+    });
+    if (products.length !== productIds.length) throw new Error('Product not found for this client');
+
+    const keptIds = new Set(items.filter(item => item.id).map(item => item.id!));
+    const itemData = (item: InboundItemInput) => ({
+      productId: item.productId,
+      announcedQuantity: item.quantity,
+      lotNumber: item.lotNumber?.trim() || null,
+      bestBefore: parseBestBefore(item.bestBefore),
+    });
+
+    // An announced inbound is changed in FFN first - if FFN refuses, the local items stay
+    // as they are, so both sides keep announcing the same goods
+    let jtlSync: JTLInboundSyncResult | null = null;
+    if (inbound.jtlDeliveryId) {
+      const jtl = await this.getJTLService(inbound.clientId);
+      if (!jtl) throw new Error('JTL FFN is not configured - cannot update the inbound in FFN');
+
+      const jtlItems = this.toJTLItems(inbound.inboundId, items.map(item => ({
+        ...itemData(item),
+        product: products.find(product => product.id === item.productId)!,
+      })));
+      jtlSync = await jtl.jtlService.updateInbound(inbound.jtlDeliveryId, { items: jtlItems });
+      if (!jtlSync.success) {
+        throw new Error(`JTL FFN did not accept the changed items of inbound ${inbound.inboundId}: ${jtlSync.error}`);
+      }
+    }
+
+    // Simulated stock follows the new items
+    const simulated = await stockMovementService.endInboundSimulation(id);
+
+    await this.prisma.$transaction([
+      this.prisma.inboundItem.deleteMany({ where: { inboundId: id, id: { notIn: [...keptIds] } } }),
+      ...items.map(item => item.id
+        ? this.prisma.inboundItem.update({ where: { id: item.id }, data: itemData(item) })
+        : this.prisma.inboundItem.create({ data: { ...itemData(item), inboundId: id } })),
+      this.prisma.inboundDelivery.update({
+        where: { id },
+        data: {
+          announcedQuantity: items.reduce((sum, item) => sum + item.quantity, 0),
+          numberOfProducts: items.length,
+          ...(jtlSync && { lastJtlSync: new Date() }),
+        },
+      }),
+    ]);
+
+    if (simulated) await stockMovementService.simulateInbound(id);
+
+    // Not announced yet (FFN was not configured, or no item was known in FFN) - announce it now
+    if (!inbound.jtlDeliveryId) {
+      jtlSync = await this.pushToJTL(id);
+    }
+
+    return { inbound: (await this.findInbound(id))!, jtlSync };
+  }
+
+  /**
+   * Cancel a pending inbound, in FFN first
+   * @throws When the inbound is no longer pending or FFN does not cancel it
+   */
+  async cancelInbound(id: string, reason: string | null, cancelledById?: string) {
+    const inbound = await this.findInbound(id);
+    if (!inbound) throw new Error(`Inbound ${id} not found`);
+    if (inbound.status !== 'PENDING') {
+      throw new Error(`Inbound ${inbound.inboundId} is ${inbound.status} - only pending inbounds can be cancelled`);
+    }
+
+    if (inbound.jtlDeliveryId) {
+      const jtl = await this.getJTLService(inbound.clientId);
+      if (!jtl) throw new Error('JTL FFN is not configured - cannot cancel the inbound in FFN');
+      await jtl.jtlService.cancelInbound(inbound.jtlDeliveryId, reason || undefined);
+    }
+
+    const cancelled = await this.prisma.inboundDelivery.update({
+      where: { id },
+      data: {
+        status: 'CANCELLED',
+        cancelledAt: new Date(),
+        cancelledById: cancelledById ?? null,
+        cancellationReason: reason,
+        ...(inbound.jtlDeliveryId && { lastJtlSync: new Date() }),
+      },
+      include: INBOUND_INCLUDE,
+    });
+
+    await stockMovementService.endInboundSimulation(id);
+
+    await merchantWebhookService.emit(inbound.clientId, 'inbound.cancelled', {
+      id: cancelled.id,
+      inboundId: cancelled.inboundId,
+      jtlInboundId: cancelled.jtlDeliveryId,
+      reason,
+    });
+
+    console.log(`[Inbound] Cancelled inbound ${cancelled.inboundId}${inbound.jtlDeliveryId ? ' in FFN and locally' : ''}`);
+
+    return cancelled;
+  }
+
+  // ============= RECEIPT =============
+
+  /**
+   * Take over the received quantities FFN reports for an inbound; on booking, record
+   * over and short deliveries. Never throws.
+   */
+  async recordReceipt(clientId: string, receipt: InboundReceipt): Promise<void> {
+    if (!receipt.items || receipt.items.length === 0) return;
+
+    try {
+      const inbound = await this.prisma.inboundDelivery.findFirst({
+        where: {
+          clientId,
+          OR: [
+            { jtlDeliveryId: receipt.inboundId },
+            ...(receipt.merchantInboundNumber ? [{ inboundId: receipt.merchantInboundNumber }] : []),
+          ],
+        },
+        include: { ...INBOUND_INCLUDE, discrepancies: { select: { type: true, inboundItemId: true, productId: true } } },
+      });
+      if (!inbound || inbound.status === 'BOOKED_IN' || inbound.status === 'CANCELLED') return;
+
+      const received = new Map<string, number>();
+      for (const item of receipt.items) {
+        if (item.jfsku) received.set(item.jfsku, (received.get(item.jfsku) ?? 0) + (item.quantity || 0));
+      }
+
+      // Lines of the same product are filled in order; the last one takes any surplus.
+      // Lines FFN knows but did not report have received nothing
+      const receivedByItem = new Map<string, number>(
+        inbound.items.filter(item => item.product.jtlProductId).map(item => [item.id, 0])
+      );
+      for (const [jfsku, quantity] of received) {
+        const lines = inbound.items.filter(item => item.product.jtlProductId === jfsku);
+        let remaining = quantity;
+        lines.forEach((line, index) => {
+          const share = index === lines.length - 1 ? remaining : Math.min(line.announcedQuantity, remaining);
+          receivedByItem.set(line.id, share);
+          remaining -= share;
+        });
+      }
+
+      await this.prisma.$transaction([
+        ...[...receivedByItem].map(([itemId, receivedQuantity]) =>
+          this.prisma.inboundItem.update({ where: { id: itemId }, data: { receivedQuantity } })),
+        this.prisma.inboundDelivery.update({
+          where: { id: inbound.id },
+          data: { receivedQuantity: [...received.values()].reduce((sum, quantity) => sum + quantity, 0) },
+        }),
+      ]);
+
+      const bookedIn = receipt.status === 'closed' || receipt.status === 'geschlossen';
+      if (!bookedIn) return;
+
+      const known = (type: InboundDiscrepancyType, inboundItemId: string | null, productId: string) =>
+        inbound.discrepancies.some(d => d.type === type && d.inboundItemId === inboundItemId && d.productId === productId);
+
+      const discrepancies: Prisma.InboundDiscrepancyUncheckedCreateInput[] = [];
+
+      // Announced lines received over or short (lines FFN does not know are not compared)
+      for (const item of inbound.items) {
+        const receivedQuantity = receivedByItem.get(item.id);
+        if (receivedQuantity === undefined || receivedQuantity === item.announcedQuantity) continue;
+
+        const type = receivedQuantity > item.announcedQuantity ? InboundDiscrepancyType.OVER : InboundDiscrepancyType.SHORT;
+        if (known(type, item.id, item.productId)) continue;
+
+        discrepancies.push({
+          type,
+          announcedQuantity: item.announcedQuantity,
+          receivedQuantity,
+          quantity: Math.abs(receivedQuantity - item.announcedQuantity),
+          inboundId: inbound.id,
+          inboundItemId: item.id,
+          productId: item.productId,
+          clientId,
+        });
+      }
+
+      // Goods booked that were never announced
+      const announcedJfskus = new Set(inbound.items.map(item => item.product.jtlProductId));
+      const unannounced = [...received].filter(([jfsku]) => !announcedJfskus.has(jfsku));
+      if (unannounced.length > 0) {
+        const products = await this.prisma.product.findMany({
+          where: { clientId, jtlProductId: { in: unannounced.map(([jfsku]) => jfsku) } },
+          select: { id: true, jtlProductId: true },
+        });
+        for (const product of products) {
+          if (known(InboundDiscrepancyType.OVER, null, product.id)) continue;
+          const quantity = received.get(product.jtlProductId!)!;
+          discrepancies.push({
+            type: InboundDiscrepancyType.OVER,
+            announcedQuantity: 0,
+            receivedQuantity: quantity,
+            quantity,
+            note: 'Not announced on the inbound',
+            inboundId: inbound.id,
+            productId: product.id,
+            clientId,
+          });
+        }
+      }
+
+      await this.createDiscrepancies(inbound.id, discrepancies);
+    } catch (error) {
+      console.error(`[Inbound] Failed to record receipt of inbound ${receipt.inboundId}:`, error);
+    }
+  }
+
+  /**
+   * Record damaged units of a received inbound line
+   * @throws When the inbound has not been received or the quantity is invalid
+   */
+  async reportDamage(id: string, input: { inboundItemId: string; quantity: number; note?: string | null }, reportedById?: string) {
+    const inbound = await this.findInbound(id);
+    if (!inbound) throw new Error(`Inbound ${id} not found`);
+    if (inbound.status === 'PENDING' || inbound.status === 'CANCELLED') {
+      throw new Error(`Inbound ${inbound.inboundId} is ${inbound.status} - damage can only be reported after receipt`);
+    }
+
+    const item = inbound.items.find(line => line.id === input.inboundItemId);
+    if (!item) throw new Error(`Item ${input.inboundItemId} not found on this inbound`);
+
+    const receivedQuantity = item.receivedQuantity ?? item.announcedQuantity;
+    if (!Number.isInteger(input.quantity) || input.quantity <= 0 || input.quantity > receivedQuantity) {
+      throw new Error(`quantity must be a whole number between 1 and ${receivedQuantity}`);
+    }
+
+    const [discrepancy] = await this.createDiscrepancies(inbound.id, [{
+      type: InboundDiscrepancyType.DAMAGED,
+      announcedQuantity: item.announcedQuantity,
+      receivedQuantity,
+      quantity: input.quantity,
+      note: input.note?.trim() || null,
+      reportedById: reportedById ?? null,
+      inboundId: inbound.id,
+      inboundItemId: item.id,
+      productId: item.productId,
+      clientId: inbound.clientId,
+    }]);
+
+    return discrepancy;
+  }
+
+  // Store discrepancies and tell the client about them
+  private async createDiscrepancies(inboundId: string, data: Prisma.InboundDiscrepancyUncheckedCreateInput[]) {
+    if (data.length === 0) return [];
+
+    const discrepancies = await this.prisma.$transaction(
+      data.map(discrepancy => this.prisma.inboundDiscrepancy.create({ data: discrepancy, include: DISCREPANCY_INCLUDE }))
+    );
+
+    const inbound = await this.prisma.inboundDelivery.findUnique({
+      where: { id: inboundId },
+      select: { id: true, inboundId: true, clientId: true, client: { select: { name: true, companyName: true, userId: true } } },
+    });
+    if (!inbound) return discrepancies;
+
+    const summary = discrepancies.map(discrepancy => ({
+      id: discrepancy.id,
+      type: discrepancy.type,
+      productId: discrepancy.productId,
+      sku: discrepancy.product.sku,
+      announcedQuantity: discrepancy.announcedQuantity,
+      receivedQuantity: discrepancy.receivedQuantity,
+      quantity: discrepancy.quantity,
+    }));
+
+    try {
+      await notificationService.createInboundDiscrepancyNotification({
+        inboundId: inbound.id,
+        inboundNumber: inbound.inboundId,
+        clientId: inbound.clientId,
+        clientName: inbound.client.companyName || inbound.client.name,
+        clientUserId: inbound.client.userId,
+        discrepancies: summary,
+      });
+    } catch (error) {
+      console.error(`[Inbound] Failed to notify discrepancies of inbound ${inbound.inboundId}:`, error);
+    }
+
+    await merchantWebhookService.emit(inbound.clientId, 'inbound.discrepancy', {
+      id: inbound.id,
+      inboundId: inbound.inboundId,
+      discrepancies: summary,
+    });
+
+    console.log(`[Inbound] Recorded ${discrepancies.length} discrepancy(ies) on inbound ${inbound.inboundId}`);
+
+    return discrepancies;
+  }
+
+  // ============= DISCREPANCIES =============
+
+  async findDiscrepancy(id: string) {
+    return this.prisma.inboundDiscrepancy.findUnique({ where: { id }, include: DISCREPANCY_INCLUDE });
+  }
+
+  /**
+   * Discrepancies of one client (all clients when clientId is omitted), newest first
+   */
+  async listDiscrepancies(clientId: string | undefined, filters: DiscrepancyFilters = {}) {
+    const page = Math.max(1, filters.page ?? 1);
+    const limit = Math.min(200, Math.max(1, filters.limit ?? 50));
+
+    const where: Prisma.InboundDiscrepancyWhereInput = {
+      ...(clientId && { clientId }),
+      ...(filters.status && { status: filters.status }),
+      ...(filters.type && { type: filters.type }),
+      ...(filters.inboundId && { inboundId: filters.inboundId }),
+    };
+
+    const [discrepancies, total] = await Promise.all([
+      this.prisma.inboundDiscrepancy.findMany({
+        where,
+        include: DISCREPANCY_INCLUDE,
+        orderBy: { createdAt: 'desc' },
+        take: limit,
+        skip: (page - 1) * limit,
+      }),
+      this.prisma.inboundDiscrepancy.count({ where }),
+    ]);
+
+    return {
+      discrepancies,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Resolve an open discrepancy. REDELIVERY announces the missing or damaged units in a
+   * follow-up inbound and pushes it to FFN.
+   * @throws When the discrepancy is resolved already or the resolution does not fit it
+   */
+  async resolveDiscrepancy(
+    id: string,
+    input: { resolution: InboundDiscrepancyResolution; note?: string | null },
+    resolvedById?: string
+  ) {
+    const discrepancy = await this.prisma.inboundDiscrepancy.findUnique({
+      where: { id },
+      include: { inbound: { select: { inboundId: true, clientId: true, deliveryType: true } } },
+    });
+    if (!discrepancy) throw new Error(`Discrepancy ${id} not found`);
+    if (discrepancy.status !== InboundDiscrepancyStatus.OPEN) throw new Error('Discrepancy is resolved already');
+    if (input.resolution === InboundDiscrepancyResolution.REDELIVERY && discrepancy.type === InboundDiscrepancyType.OVER) {
+      throw new Error('Over deliveries cannot be redelivered');
+    }
+
+    let followUpInboundId: string | null = null;
+    let jtlSync: JTLInboundSyncResult | null = null;
+
+    if (input.resolution === InboundDiscrepancyResolution.REDELIVERY) {
+      const followUp = await this.prisma.inboundDelivery.create({
+        data: {
+          inboundId: await this.nextInboundNumber(discrepancy.clientId),
+          clientId: discrepancy.clientId,
+          deliveryType: discrepancy.inbound.deliveryType,
+          notes: `Redelivery for ${discrepancy.inbound.inboundId}${input.note ? `: ${input.note}` : ''}`,
+          announcedQuantity: discrepancy.quantity,
+          numberOfProducts: 1,
+          status: 'PENDING',
+          items: { create: [{ productId: discrepancy.productId, announcedQuantity: discrepancy.quantity }] },
+        },
+      });
+      followUpInboundId = followUp.id;
+      jtlSync = await this.pushToJTL(followUp.id);
+    }
+
+    const resolved = await this.prisma.inboundDiscrepancy.update({
+      where: { id },
+      data: {
+        status: InboundDiscrepancyStatus.RESOLVED,
+        resolution: input.resolution,
+        resolutionNote: input.note?.trim() || null,
+        resolvedById: resolvedById ?? null,
+        resolvedAt: new Date(),
+        followUpInboundId,
+      },
+      include: DISCREPANCY_INCLUDE,
+    });
+
+    return { discrepancy: resolved, jtlSync };
+  }
+}
+
+export const inboundService = new InboundService();
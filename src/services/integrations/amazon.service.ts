@@ -0,0 +1,380 @@
+/**
+ * Amazon Integration Service
+ * Handles all communication with the Amazon Selling Partner API (SP-API)
+ * for merchant-fulfilled (MFN) orders
+ */
+
+import {
+  AmazonCredentials,
+  AmazonListingItem,
+  AmazonOrder,
+  AmazonOrderItem,
+  AmazonShipmentConfirmation,
+} from './types.js';
+import {
+  AccessTokenCache,
+  MarketplaceChannelFields,
+  getOAuthCredentialsForChannel,
+  isKnownEndpoint,
+  marketplaceRequest,
+  toCarrierCode,
+} from './marketplace-http.js';
+
+export const AMAZON_ENDPOINTS = {
+  na: 'https://sellingpartnerapi-na.amazon.com',
+  eu: 'https://sellingpartnerapi-eu.amazon.com',
+  fe: 'https://sellingpartnerapi-fe.amazon.com',
+} as const;
+
+export type AmazonRegion = keyof typeof AMAZON_ENDPOINTS;
+
+// Whether a URL is one of the SP-API endpoints (callers may not point requests anywhere else)
+export const isAmazonEndpoint = (url: unknown): boolean => isKnownEndpoint(AMAZON_ENDPOINTS, url);
+
+const DEFAULT_TOKEN_URL = 'https://api.amazon.com/auth/o2/token';
+
+// Amazon carrier codes for the carriers JTL FFN reports most often
+const CARRIER_CODES: Record<string, string> = {
+  'dhl': 'DHL',
+  'dhl express': 'DHL Express',
+  'deutsche post': 'Deutsche Post',
+  'dpd': 'DPD',
+  'gls': 'GLS',
+  'hermes': 'Hermes',
+  'ups': 'UPS',
+  'fedex': 'FedEx',
+  'usps': 'USPS',
+  'royal mail': 'Royal Mail',
+};
+
+export class AmazonService {
+  private credentials: AmazonCredentials;
+  private baseUrl: string;
+  private accessToken: AccessTokenCache;
+
+  constructor(credentials: AmazonCredentials) {
+    this.credentials = credentials;
+    this.baseUrl = (credentials.endpoint || AMAZON_ENDPOINTS.eu).replace(/\/$/, '');
+
+    // Exchange the refresh token for an LWA access token
+    this.accessToken = new AccessTokenCache('Amazon LWA token error', () =>
+      fetch(credentials.tokenUrl || process.env.AMAZON_LWA_TOKEN_URL || DEFAULT_TOKEN_URL, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: new URLSearchParams({
+          grant_type: 'refresh_token',
+          refresh_token: credentials.refreshToken,
+          client_id: credentials.clientId,
+          client_secret: credentials.clientSecret,
+        }),
+      })
+    );
+  }
+
+  /**
+   * Make an authenticated request to SP-API. Throttled requests (429) are retried with backoff.
+   * `accessToken` overrides the LWA token, e.g. with a restricted data token.
+   */
+  private async request<T>(
+    path: string,
+    options: RequestInit = {},
+    params: Record<string, string | undefined> = {},
+    accessToken?: string
+  ): Promise<T> {
+    return marketplaceRequest<T>({
+      baseUrl: this.baseUrl,
+      path,
+      options,
+      params,
+      authHeaders: async () => ({ 'x-amz-access-token': accessToken || await this.accessToken.get() }),
+      errorLabel: 'Amazon SP-API error',
+    });
+  }
+
+  /**
+   * Get a restricted data token so getOrders returns shipping address and buyer email
+   */
+  private async getRestrictedDataToken(path: string, dataElements: string[]): Promise<string> {
+    const result = await this.request<{ restrictedDataToken: string }>('/tokens/2021-03-01/restrictedDataToken', {
+      method: 'POST',
+      body: JSON.stringify({
+        restrictedResources: [{ method: 'GET', path, dataElements }],
+      }),
+    });
+    return result.restrictedDataToken;
+  }
+
+  // ============= ORDERS =============
+
+  /**
+   * Fetch all merchant-fulfilled orders created or updated after a date, including their items
+   */
+  async getOrders(params: { createdAfter?: Date; lastUpdatedAfter?: Date }): Promise<AmazonOrder[]> {
+    const rdt = await this.getRestrictedDataToken('/orders/v0/orders', ['buyerInfo', 'shippingAddress']);
+    const orders: AmazonOrder[] = [];
+    let nextToken: string | undefined;
+
+    console.log(`[Amazon] Starting order fetch...`);
+
+    do {
+      const result = await this.request<{ payload: { Orders: AmazonOrder[]; NextToken?: string } }>(
+        '/orders/v0/orders',
+        {},
+        nextToken
+          ? { MarketplaceIds: this.credentials.marketplaceId, NextToken: nextToken }
+          : {
+              MarketplaceIds: this.credentials.marketplaceId,
+              FulfillmentChannels: 'MFN',
+              MaxResultsPerPage: '100',
+              CreatedAfter: params.createdAfter?.toISOString(),
+              LastUpdatedAfter: params.lastUpdatedAfter?.toISOString(),
+            },
+        rdt
+      );
+
+      orders.push(...result.payload.Orders);
+      nextToken = result.payload.NextToken;
+    } while (nextToken);
+
+    for (const order of orders) {
+      order.OrderItems = await this.getOrderItems(order.AmazonOrderId);
+    }
+
+    console.log(`[Amazon] Fetched ${orders.length} orders`);
+    return orders;
+  }
+
+  /**
+   * Fetch orders updated since a date (catches status changes such as Pending -> Unshipped)
+   */
+  async getOrdersUpdatedSince(since: Date): Promise<AmazonOrder[]> {
+    return this.getOrders({ lastUpdatedAfter: since });
+  }
+
+  /**
+   * Fetch orders created since a date (SP-API requires a lower bound; defaults to 180 days)
+   */
+  async getAllOrders(createdAfter = new Date(Date.now() - 180 * 24 * 60 * 60 * 1000)): Promise<AmazonOrder[]> {
+    return this.getOrders({ createdAfter });
+  }
+
+  /**
+   * Fetch a single order (without buyer and address data)
+   */
+  async getOrder(amazonOrderId: string): Promise<AmazonOrder> {
+    const result = await this.request<{ payload: AmazonOrder }>(
+      `/orders/v0/orders/${encodeURIComponent(amazonOrderId)}`
+    );
+    return result.payload;
+  }
+
+  /**
+   * Fetch all items of an order
+   */
+  async getOrderItems(amazonOrderId: string): Promise<AmazonOrderItem[]> {
+    const items: AmazonOrderItem[] = [];
+    let nextToken: string | undefined;
+
+    do {
+      const result = await this.request<{ payload: { OrderItems: AmazonOrderItem[]; NextToken?: string } }>(
+        `/orders/v0/orders/${encodeURIComponent(amazonOrderId)}/orderItems`,
+        {},
+        { NextToken: nextToken }
+      );
+
+      items.push(...result.payload.OrderItems);
+      nextToken = result.payload.NextToken;
+    } while (nextToken);
+
+    return items;
+  }
+
+  /**
+   * Confirm shipment of all items of an order with tracking information.
+   * Returns false when the order is already shipped or cancelled on Amazon (confirming again is rejected).
+   */
+  async confirmShipment(amazonOrderId: string, shipment: AmazonShipmentConfirmation): Promise<boolean> {
+    const order = await this.getOrder(amazonOrderId);
+    if (order.OrderStatus === 'Shipped' || order.OrderStatus === 'Canceled') {
+      console.log(`[Amazon] Order ${amazonOrderId} is already ${order.OrderStatus}, skipping shipment confirmation`);
+      return false;
+    }
+
+    const items = await this.getOrderItems(amazonOrderId);
+    const carrierCode = AmazonService.toCarrierCode(shipment.carrier);
+
+    await this.request<void>(`/orders/v0/orders/${encodeURIComponent(amazonOrderId)}/shipmentConfirmation`, {
+      method: 'POST',
+      body: JSON.stringify({
+        marketplaceId: this.credentials.marketplaceId,
+        packageDetail: {
+          packageReferenceId: '1',
+          carrierCode,
+          carrierName: carrierCode === 'Other' ? shipment.carrier || 'Other' : undefined,
+          shippingMethod: shipment.shippingMethod,
+          trackingNumber: shipment.trackingNumber,
+          shipDate: shipment.shipDate.toISOString(),
+          orderItems: items.map(item => ({
+            orderItemId: item.OrderItemId,
+            quantity: item.QuantityOrdered,
+          })),
+        },
+      }),
+    });
+
+    return true;
+  }
+
+  // ============= LISTINGS =============
+
+  /**
+   * Fetch all listings of the seller in the marketplace
+   */
+  async getAllListings(params: { lastUpdatedAfter?: Date } = {}): Promise<AmazonListingItem[]> {
+    const listings: AmazonListingItem[] = [];
+    let pageToken: string | undefined;
+
+    console.log(`[Amazon] Starting listings fetch...`);
+
+    do {
+      const result = await this.request<{ items: AmazonListingItem[]; pagination?: { nextToken?: string } }>(
+        `/listings/2021-08-01/items/${encodeURIComponent(this.credentials.sellerId)}`,
+        {},
+        {
+          marketplaceIds: this.credentials.marketplaceId,
+          includedData: 'summaries',
+          pageSize: '20',
+          lastUpdatedAfter: params.lastUpdatedAfter?.toISOString(),
+          pageToken,
+        }
+      );
+
+      listings.push(...result.items);
+      pageToken = result.pagination?.nextToken;
+    } while (pageToken);
+
+    console.log(`[Amazon] Fetched ${listings.length} listings`);
+    return listings;
+  }
+
+  /**
+   * Fetch listings updated since a date
+   */
+  async getListingsUpdatedSince(since: Date): Promise<AmazonListingItem[]> {
+    return this.getAllListings({ lastUpdatedAfter: since });
+  }
+
+  /**
+   * Fetch one listing by seller SKU
+   */
+  async getListing(sku: string): Promise<AmazonListingItem> {
+    return this.request<AmazonListingItem>(
+      `/listings/2021-08-01/items/${encodeURIComponent(this.credentials.sellerId)}/${encodeURIComponent(sku)}`,
+      {},
+      { marketplaceIds: this.credentials.marketplaceId, includedData: 'summaries' }
+    );
+  }
+
+  // ============= INVENTORY =============
+
+  /**
+   * Set the merchant-fulfilled quantity of a listing.
+   * The product type is required by the Listings API; it is looked up when not given.
+   */
+  async updateInventory(sku: string, quantity: number, productType?: string): Promise<void> {
+    const resolvedProductType = productType
+      || (await this.getListing(sku)).summaries?.find(s => s.marketplaceId === this.credentials.marketplaceId)?.productType
+      || 'PRODUCT';
+
+    const result = await this.request<{ status: string; issues?: Array<{ message: string }> }>(
+      `/listings/2021-08-01/items/${encodeURIComponent(this.credentials.sellerId)}/${encodeURIComponent(sku)}`,
+      {
+        method: 'PATCH',
+        body: JSON.stringify({
+          productType: resolvedProductType,
+          patches: [{
+            op: 'replace',
+            path: '/attributes/fulfillment_availability',
+            value: [{ fulfillment_channel_code: 'DEFAULT', quantity: Math.max(0, quantity) }],
+          }],
+        }),
+      },
+      { marketplaceIds: this.credentials.marketplaceId }
+    );
+
+    if (result.status !== 'ACCEPTED') {
+      const issues = result.issues?.map(issue => issue.message).join('; ');
+      throw new Error(`Amazon rejected inventory update for ${sku}: ${issues || result.status}`);
+    }
+  }
+
+  // ============= CONNECTION =============
+
+  /**
+   * Test connection to SP-API and check that the seller sells in the configured marketplace
+   */
+  async testConnection(): Promise<{ success: boolean; message: string }> {
+    try {
+      const result = await this.request<{
+        payload: Array<{
+          marketplace: { id: string; name: string };
+          participation: { isParticipating: boolean };
+        }>;
+      }>('/sellers/v1/marketplaceParticipations');
+
+      const participation = result.payload.find(p => p.marketplace.id === this.credentials.marketplaceId);
+      if (!participation?.participation.isParticipating) {
+        return {
+          success: false,
+          message: `Seller does not participate in marketplace ${this.credentials.marketplaceId}`,
+        };
+      }
+
+      return {
+        success: true,
+        message: `Connected to ${participation.marketplace.name}`,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: error instanceof Error ? error.message : 'Connection failed',
+      };
+    }
+  }
+
+  // ============= HELPERS =============
+
+  /**
+   * Map a carrier name to an Amazon carrier code ("Other" when unknown)
+   */
+  static toCarrierCode(carrier?: string | null): string {
+    return toCarrierCode(CARRIER_CODES, carrier);
+  }
+}
+
+interface AmazonChannelFields extends MarketplaceChannelFields {
+  sellerId?: string | null;
+}
+
+/**
+ * Decrypt a channel's stored Amazon credentials.
+ * Returns null when the channel is missing any of them.
+ */
+export function getAmazonCredentialsForChannel(channel: AmazonChannelFields): AmazonCredentials | null {
+  const credentials = getOAuthCredentialsForChannel(channel);
+  if (!credentials || !channel.sellerId) {
+    return null;
+  }
+
+  return { ...credentials, sellerId: channel.sellerId };
+}
+
+/**
+ * Create an AmazonService from a channel's stored (encrypted) credentials
+ */
+export function createAmazonServiceForChannel(channel: AmazonChannelFields): AmazonService | null {
+  const credentials = getAmazonCredentialsForChannel(channel);
+  return credentials ? new AmazonService(credentials) : null;
+}
+
+export default AmazonService;
@@ -12,6 +12,8 @@ import { PrismaClient, ChannelType, OrderStatus, Prisma } from '@prisma/client';
 import { createShopifyServiceAuto } from './shopify-service-factory.js';
 import { WooCommerceService } from './woocommerce.service.js';
 import { getEncryptionService } from '../encryption.service.js';
+import { channelStockService } from '../channel-stock.service.js';
+import { stockMovementService } from '../stock-movement.service.js';
 
 type Decimal = Prisma.Decimal;
 
@@ -137,7 +139,11 @@ export class BiDirectionalSyncService {
         };
       }
 
-      const { product, channel } = productChannel;
+      const { channel } = productChannel;
+      const product = {
+        ...productChannel.product,
+        available: await channelStockService.getPublishedQuantity(productId, channelId),
+      };
 
       if (channel.type === 'SHOPIFY') {
         return this.pushProductToShopify(product, productChannel, channel as ChannelWithCredentials);
@@ -1053,7 +1059,7 @@ export class BiDirectionalSyncService {
    * @deprecated Use ProductSyncService.syncStockToChannel() instead.
    * This method will be removed in a future version.
    */
-  async updateInventoryOnPlatform(productId: string, channelId: string, stockQuantity: number): Promise<PushResult> {
+  async updateInventoryOnPlatform(productId: string, channelId: string, stockQuantity: number, createdById?: string): Promise<PushResult> {
     console.warn('[BiDirectionalSync] DEPRECATED: updateInventoryOnPlatform() called. Use ProductSyncService.syncStockToChannel() instead.');
     try {
       const productChannel = await this.prisma.productChannel.findFirst({
@@ -1077,15 +1083,23 @@ export class BiDirectionalSyncService {
       const channel = productChannel.channel;
 
       // Update local stock first
-      await this.prisma.product.update({
-        where: { id: productId },
-        data: { available: stockQuantity },
-      });
+      if (productChannel.product.available !== stockQuantity) {
+        await this.prisma.product.update({
+          where: { id: productId },
+          data: { available: stockQuantity },
+        });
+        await stockMovementService.record(productChannel.product, { available: stockQuantity }, 'manual', {
+          note: 'Set by inventory push to channels',
+          createdById,
+        });
+      }
+
+      const publishedQuantity = await channelStockService.getPublishedQuantity(productId, channelId);
 
       if (channel.type === 'SHOPIFY') {
-        return this.updateShopifyInventory(productId, productChannel.externalProductId, stockQuantity, channel as ChannelWithCredentials);
+        return this.updateShopifyInventory(productId, productChannel.externalProductId, publishedQuantity, channel as ChannelWithCredentials);
       } else if (channel.type === 'WOOCOMMERCE') {
-        return this.updateWooCommerceInventory(productId, productChannel.externalProductId, stockQuantity, channel as ChannelWithCredentials);
+        return this.updateWooCommerceInventory(productId, productChannel.externalProductId, publishedQuantity, channel as ChannelWithCredentials);
       }
 
       return {
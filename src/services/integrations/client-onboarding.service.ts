@@ -1,26 +1,31 @@
 /**
  * Client Onboarding Service
  * Handles the complete flow of onboarding a new client with their
- * Shopify/WooCommerce shop credentials and JTL-FFN API access
+ * Shopify/WooCommerce shop credentials (or Amazon/eBay seller account, or an order file drop)
+ * and JTL-FFN API access
  * 
  * Flow:
  * 1. Create Client account
  * 2. Collect JTL-FFN OAuth credentials (client owns their JTL tenant)
- * 3. Add Shopify/WooCommerce channels with API credentials
+ * 3. Add Shopify/WooCommerce/Amazon/eBay/file channels with API credentials
  * 4. Register webhooks on the e-commerce platforms
  * 5. Trigger initial sync (products → orders → returns)
  */
 
-import { PrismaClient, ChannelType, ChannelStatus, UserRole } from '@prisma/client';
+import { PrismaClient, ChannelType, ChannelStatus, UserRole, Prisma } from '@prisma/client';
 import { ShopifyService } from './shopify.service.js';
 import { createShopifyServiceAuto } from './shopify-service-factory.js';
 import { WooCommerceService } from './woocommerce.service.js';
+import { AmazonService, AMAZON_ENDPOINTS, AmazonRegion, getAmazonCredentialsForChannel, isAmazonEndpoint } from './amazon.service.js';
+import { EbayService, EBAY_ENDPOINTS, EbayEnvironment, getEbayCredentialsForChannel, isEbayEndpoint } from './ebay.service.js';
+import { FileChannelService, sharesFileDirectory } from './file-channel.service.js';
+import { FileChannelSyncService } from './file-channel-sync.service.js';
 import { JTLService } from './jtl.service.js';
 import { SyncOrchestrator } from './sync-orchestrator.js';
 import { InitialSyncPipelineService } from './initial-sync-pipeline.service.js';
 import { getEncryptionService } from '../encryption.service.js';
 import { ShippingMethodService } from '../shipping-method.service.js';
-import type { ShopifyCredentials, WooCommerceCredentials, JTLCredentials } from './types.js';
+import type { ShopifyCredentials, WooCommerceCredentials, AmazonCredentials, EbayCredentials, FileChannelConfig, JTLCredentials } from './types.js';
 import crypto from 'crypto';
 
 // ============= TYPES =============
@@ -68,6 +73,38 @@ export interface WooCommerceChannelInput {
   enableHistoricalSync?: boolean; // If true, sync from syncFromDate; if false, only quick sync (7 days)
 }
 
+export interface AmazonChannelInput {
+  clientId: string;
+  sellerId: string; // Amazon merchant token
+  marketplaceId: string; // e.g., "A1PA6795UKMFR9" (amazon.de)
+  lwaClientId: string; // Login with Amazon app client ID
+  lwaClientSecret: string;
+  refreshToken: string; // LWA refresh token from the seller's app authorization
+  region?: AmazonRegion; // SP-API region (default: eu)
+  endpoint?: string; // Overrides the region endpoint; must be one of AMAZON_ENDPOINTS
+  channelName?: string;
+}
+
+export interface EbayChannelInput {
+  clientId: string;
+  sellerUsername: string; // eBay user the refresh token belongs to
+  marketplaceId: string; // e.g., "EBAY_DE"
+  appId: string; // eBay app ID (OAuth client ID)
+  certId: string; // eBay cert ID (OAuth client secret)
+  refreshToken: string; // User refresh token from the seller's consent
+  environment?: EbayEnvironment; // default: production
+  endpoint?: string; // Overrides the environment endpoint; must be one of EBAY_ENDPOINTS
+  channelName?: string;
+}
+
+export interface FileChannelInput {
+  clientId: string;
+  fileConfig: FileChannelConfig; // Directories, format and column mapping
+  sftpPassword?: string; // SFTP only
+  sftpPrivateKey?: string; // SFTP only, PEM; used instead of the password when set
+  channelName?: string;
+}
+
 export interface ShopifySharedOAuthInput {
   clientId: string;
   shopDomain: string; // e.g., "mystore.myshopify.com"
@@ -560,6 +597,364 @@ export class ClientOnboardingService {
     }
   }
 
+  /**
+   * Step 3c: Add an Amazon (merchant-fulfilled) channel for the client
+   * Amazon has no webhook registration here; orders are pulled by the scheduler.
+   */
+  async addAmazonChannel(input: AmazonChannelInput): Promise<OnboardingResult> {
+    try {
+      // Verify client exists
+      const client = await this.prisma.client.findUnique({
+        where: { id: input.clientId },
+      });
+
+      if (!client) {
+        return {
+          success: false,
+          error: 'Client not found',
+        };
+      }
+
+      if (input.endpoint && !isAmazonEndpoint(input.endpoint)) {
+        return {
+          success: false,
+          error: `Invalid endpoint. Must be one of: ${Object.values(AMAZON_ENDPOINTS).join(', ')}`,
+        };
+      }
+
+      const endpoint = input.endpoint || AMAZON_ENDPOINTS[input.region || 'eu'];
+
+      // Test SP-API connection
+      const amazonService = new AmazonService({
+        clientId: input.lwaClientId,
+        clientSecret: input.lwaClientSecret,
+        refreshToken: input.refreshToken,
+        sellerId: input.sellerId,
+        marketplaceId: input.marketplaceId,
+        endpoint,
+      });
+
+      const connectionTest = await amazonService.testConnection();
+      if (!connectionTest.success) {
+        return {
+          success: false,
+          error: `Amazon connection failed: ${connectionTest.message}`,
+        };
+      }
+
+      // Encrypt sensitive credentials before storage
+      const encryptionService = getEncryptionService();
+      const encryptedClientSecret = encryptionService.encrypt(input.lwaClientSecret);
+      const encryptedRefreshToken = encryptionService.encrypt(input.refreshToken);
+
+      // One channel per seller account and marketplace
+      const existingChannel = await this.prisma.channel.findFirst({
+        where: {
+          clientId: input.clientId,
+          sellerId: input.sellerId,
+          marketplaceId: input.marketplaceId,
+          type: ChannelType.AMAZON,
+        },
+      });
+
+      let channel;
+      if (existingChannel) {
+        // Update existing channel with new credentials
+        channel = await this.prisma.channel.update({
+          where: { id: existingChannel.id },
+          data: {
+            name: input.channelName || existingChannel.name,
+            apiUrl: endpoint,
+            apiClientId: input.lwaClientId,
+            apiClientSecret: encryptedClientSecret,
+            refreshToken: encryptedRefreshToken,
+            status: ChannelStatus.ACTIVE,
+            isActive: true,
+            syncEnabled: true,
+            updatedAt: new Date(),
+          },
+        });
+        console.log(`[Onboarding] ✅ Amazon channel already exists, updated: ${channel.id}`);
+      } else {
+        channel = await this.prisma.channel.create({
+          data: {
+            clientId: input.clientId,
+            name: input.channelName || `Amazon - ${input.marketplaceId}`,
+            type: ChannelType.AMAZON,
+            status: ChannelStatus.ACTIVE,
+            apiUrl: endpoint,
+            apiClientId: input.lwaClientId,
+            apiClientSecret: encryptedClientSecret,
+            refreshToken: encryptedRefreshToken,
+            sellerId: input.sellerId,
+            marketplaceId: input.marketplaceId,
+            isActive: true,
+            syncEnabled: true,
+          },
+        });
+        console.log(`[Onboarding] 📦 New Amazon channel created: ${channel.id}`);
+      }
+
+      return {
+        success: true,
+        clientId: input.clientId,
+        channelId: channel.id,
+        details: {
+          channelName: channel.name,
+          sellerId: input.sellerId,
+          marketplaceId: input.marketplaceId,
+          status: 'active',
+        },
+      };
+    } catch (error) {
+      console.error('Error adding Amazon channel:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to add Amazon channel',
+      };
+    }
+  }
+
+  /**
+   * Step 3d: Add an eBay channel for the client
+   * Orders are pulled by the scheduler; listings must be managed through the eBay Inventory API.
+   */
+  async addEbayChannel(input: EbayChannelInput): Promise<OnboardingResult> {
+    try {
+      // Verify client exists
+      const client = await this.prisma.client.findUnique({
+        where: { id: input.clientId },
+      });
+
+      if (!client) {
+        return {
+          success: false,
+          error: 'Client not found',
+        };
+      }
+
+      if (input.endpoint && !isEbayEndpoint(input.endpoint)) {
+        return {
+          success: false,
+          error: `Invalid endpoint. Must be one of: ${Object.values(EBAY_ENDPOINTS).join(', ')}`,
+        };
+      }
+
+      const endpoint = input.endpoint || EBAY_ENDPOINTS[input.environment || 'production'];
+
+      // Test Sell API connection
+      const ebayService = new EbayService({
+        clientId: input.appId,
+        clientSecret: input.certId,
+        refreshToken: input.refreshToken,
+        marketplaceId: input.marketplaceId,
+        endpoint,
+      });
+
+      const connectionTest = await ebayService.testConnection();
+      if (!connectionTest.success) {
+        return {
+          success: false,
+          error: `eBay connection failed: ${connectionTest.message}`,
+        };
+      }
+
+      // Encrypt sensitive credentials before storage
+      const encryptionService = getEncryptionService();
+      const encryptedCertId = encryptionService.encrypt(input.certId);
+      const encryptedRefreshToken = encryptionService.encrypt(input.refreshToken);
+
+      // One channel per eBay user and marketplace
+      const existingChannel = await this.prisma.channel.findFirst({
+        where: {
+          clientId: input.clientId,
+          sellerId: input.sellerUsername,
+          marketplaceId: input.marketplaceId,
+          type: ChannelType.EBAY,
+        },
+      });
+
+      let channel;
+      if (existingChannel) {
+        // Update existing channel with new credentials
+        channel = await this.prisma.channel.update({
+          where: { id: existingChannel.id },
+          data: {
+            name: input.channelName || existingChannel.name,
+            apiUrl: endpoint,
+            apiClientId: input.appId,
+            apiClientSecret: encryptedCertId,
+            refreshToken: encryptedRefreshToken,
+            status: ChannelStatus.ACTIVE,
+            isActive: true,
+            syncEnabled: true,
+            updatedAt: new Date(),
+          },
+        });
+        console.log(`[Onboarding] ✅ eBay channel already exists, updated: ${channel.id}`);
+      } else {
+        channel = await this.prisma.channel.create({
+          data: {
+            clientId: input.clientId,
+            name: input.channelName || `eBay - ${input.sellerUsername} (${input.marketplaceId})`,
+            type: ChannelType.EBAY,
+            status: ChannelStatus.ACTIVE,
+            apiUrl: endpoint,
+            apiClientId: input.appId,
+            apiClientSecret: encryptedCertId,
+            refreshToken: encryptedRefreshToken,
+            sellerId: input.sellerUsername,
+            marketplaceId: input.marketplaceId,
+            isActive: true,
+            syncEnabled: true,
+          },
+        });
+        console.log(`[Onboarding] 📦 New eBay channel created: ${channel.id}`);
+      }
+
+      return {
+        success: true,
+        clientId: input.clientId,
+        channelId: channel.id,
+        details: {
+          channelName: channel.name,
+          sellerUsername: input.sellerUsername,
+          marketplaceId: input.marketplaceId,
+          status: 'active',
+        },
+      };
+    } catch (error) {
+      console.error('Error adding eBay channel:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to add eBay channel',
+      };
+    }
+  }
+
+  /**
+   * Step 3e: Add a file channel (CSV/XML order files via a local directory or SFTP)
+   * For merchants whose shop system we don't integrate; the scheduler imports the inbox.
+   */
+  async addFileChannel(input: FileChannelInput): Promise<OnboardingResult> {
+    try {
+      // Verify client exists
+      const client = await this.prisma.client.findUnique({
+        where: { id: input.clientId },
+      });
+
+      if (!client) {
+        return {
+          success: false,
+          error: 'Client not found',
+        };
+      }
+
+      const configError = FileChannelService.validateConfig(input.fileConfig, input.clientId);
+      if (configError) {
+        return {
+          success: false,
+          error: `Invalid file configuration: ${configError}`,
+        };
+      }
+
+      // Test that the inbox is readable and the outbox writable
+      // Directories another client's channel reads or writes are off limits
+      const otherClientsChannels = await this.prisma.channel.findMany({
+        where: { clientId: { not: input.clientId }, type: ChannelType.FILE },
+        select: { fileConfig: true },
+      });
+      if (otherClientsChannels.some(channel => sharesFileDirectory(channel.fileConfig as unknown as FileChannelConfig | null, input.fileConfig))) {
+        return {
+          success: false,
+          error: 'A directory of this file configuration is already used by another client',
+        };
+      }
+
+      const fileChannelService = new FileChannelService({
+        clientId: input.clientId,
+        config: input.fileConfig,
+        password: input.sftpPassword,
+        privateKey: input.sftpPrivateKey,
+      });
+
+      const connectionTest = await fileChannelService.testConnection();
+      if (!connectionTest.success) {
+        return {
+          success: false,
+          error: `File channel connection failed: ${connectionTest.message}`,
+        };
+      }
+
+      // Encrypt the SFTP secret before storage
+      const sftpSecret = input.sftpPrivateKey || input.sftpPassword;
+      const encryptedSecret = sftpSecret ? getEncryptionService().encrypt(sftpSecret) : null;
+      const fileConfig = input.fileConfig as unknown as Prisma.InputJsonObject;
+
+      // One channel per inbox location
+      const existingChannels = await this.prisma.channel.findMany({
+        where: { clientId: input.clientId, type: ChannelType.FILE },
+      });
+      const existingChannel = existingChannels.find(channel => {
+        const config = channel.fileConfig as unknown as FileChannelConfig | null;
+        return config?.transport === input.fileConfig.transport
+          && config.sftp?.host === input.fileConfig.sftp?.host
+          && config.inboxPath === input.fileConfig.inboxPath;
+      });
+
+      let channel;
+      if (existingChannel) {
+        // Update existing channel with the new configuration
+        channel = await this.prisma.channel.update({
+          where: { id: existingChannel.id },
+          data: {
+            name: input.channelName || existingChannel.name,
+            fileConfig,
+            apiClientSecret: encryptedSecret,
+            status: ChannelStatus.ACTIVE,
+            isActive: true,
+            syncEnabled: true,
+            updatedAt: new Date(),
+          },
+        });
+        console.log(`[Onboarding] ✅ File channel already exists, updated: ${channel.id}`);
+      } else {
+        channel = await this.prisma.channel.create({
+          data: {
+            clientId: input.clientId,
+            name: input.channelName || `File import (${input.fileConfig.format.toUpperCase()})`,
+            type: ChannelType.FILE,
+            status: ChannelStatus.ACTIVE,
+            fileConfig,
+            apiClientSecret: encryptedSecret,
+            isActive: true,
+            syncEnabled: true,
+          },
+        });
+        console.log(`[Onboarding] 📦 New file channel created: ${channel.id}`);
+      }
+
+      return {
+        success: true,
+        clientId: input.clientId,
+        channelId: channel.id,
+        details: {
+          channelName: channel.name,
+          transport: input.fileConfig.transport,
+          format: input.fileConfig.format,
+          connection: connectionTest.message,
+          status: 'active',
+        },
+      };
+    } catch (error) {
+      console.error('Error adding file channel:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to add file channel',
+      };
+    }
+  }
+
   /**
    * Step 4: Trigger initial sync for a channel
    * This pulls products, orders, and returns from the e-commerce platform
@@ -598,6 +993,23 @@ export class ClientOnboardingService {
         };
       }
 
+      // File channels have no history to pull: import whatever is waiting in the inbox
+      if (channel.type === ChannelType.FILE) {
+        const ordersResult = await new FileChannelSyncService(this.prisma).importOrders(channelId);
+
+        await this.prisma.channel.update({
+          where: { id: channelId },
+          data: { lastSyncAt: new Date() },
+        });
+
+        return {
+          success: ordersResult.success,
+          channelId,
+          error: ordersResult.error,
+          details: { orders: ordersResult },
+        };
+      }
+
       // Check if this is the first sync for this channel
       // If lastSyncAt is null, it means this is an initial sync
       const isFirstSync = !channel.lastSyncAt;
@@ -627,7 +1039,7 @@ export class ClientOnboardingService {
       console.log(`Triggering ${isFirstSync ? 'initial' : 'subsequent'} sync for channel ${channelId}${since ? ` (limiting to data since ${since.toISOString()})` : ''}`);
 
       // Build credentials based on channel type
-      let channelCredentials: ShopifyCredentials | WooCommerceCredentials;
+      let channelCredentials: ShopifyCredentials | WooCommerceCredentials | AmazonCredentials | EbayCredentials;
       
       if (channel.type === ChannelType.SHOPIFY) {
         channelCredentials = {
@@ -640,6 +1052,24 @@ export class ClientOnboardingService {
           consumerKey: channel.apiClientId!,
           consumerSecret: channel.apiClientSecret!,
         };
+      } else if (channel.type === ChannelType.AMAZON) {
+        const amazonCredentials = getAmazonCredentialsForChannel(channel);
+        if (!amazonCredentials) {
+          return {
+            success: false,
+            error: 'Amazon credentials not configured for this channel',
+          };
+        }
+        channelCredentials = amazonCredentials;
+      } else if (channel.type === ChannelType.EBAY) {
+        const ebayCredentials = getEbayCredentialsForChannel(channel);
+        if (!ebayCredentials) {
+          return {
+            success: false,
+            error: 'eBay credentials not configured for this channel',
+          };
+        }
+        channelCredentials = ebayCredentials;
       } else {
         return {
           success: false,
@@ -666,6 +1096,24 @@ export class ClientOnboardingService {
             jtlFulfillerId: jtlConfig.fulfillerId,
             jtlWarehouseId: jtlConfig.warehouseId,
           }
+        : channel.type === ChannelType.AMAZON
+        ? {
+            channelId: channel.id,
+            channelType: channel.type,
+            amazonCredentials: channelCredentials as AmazonCredentials,
+            jtlCredentials,
+            jtlFulfillerId: jtlConfig.fulfillerId,
+            jtlWarehouseId: jtlConfig.warehouseId,
+          }
+        : channel.type === ChannelType.EBAY
+        ? {
+            channelId: channel.id,
+            channelType: channel.type,
+            ebayCredentials: channelCredentials as EbayCredentials,
+            jtlCredentials,
+            jtlFulfillerId: jtlConfig.fulfillerId,
+            jtlWarehouseId: jtlConfig.warehouseId,
+          }
         : {
             channelId: channel.id,
             channelType: channel.type,
@@ -1527,6 +1975,8 @@ export class ClientOnboardingService {
       channelType: ChannelType;
       shopifyCredentials?: { shopDomain: string; accessToken: string };
       wooCommerceCredentials?: { url: string; consumerKey: string; consumerSecret: string };
+      amazonCredentials?: AmazonCredentials;
+      ebayCredentials?: EbayCredentials;
       jtlCredentials: {
         clientId: string;
         clientSecret: string;  // This should be ENCRYPTED (will be decrypted by SyncOrchestrator)
@@ -1574,6 +2024,10 @@ export class ClientOnboardingService {
         consumerKey: channel.apiClientId,
         consumerSecret: safeDecrypt(channel.apiClientSecret),
       };
+    } else if (channel.type === ChannelType.AMAZON) {
+      syncConfig.amazonCredentials = getAmazonCredentialsForChannel(channel) || undefined;
+    } else if (channel.type === ChannelType.EBAY) {
+      syncConfig.ebayCredentials = getEbayCredentialsForChannel(channel) || undefined;
     }
 
     return syncConfig;
@@ -0,0 +1,285 @@
+/**
+ * eBay Integration Service
+ * Handles all communication with the eBay Sell APIs
+ * (Fulfillment API for orders and tracking, Inventory API for listings and stock)
+ */
+
+import {
+  EbayCredentials,
+  EbayInventoryItem,
+  EbayLineItem,
+  EbayOrder,
+  EbayShippingFulfillment,
+} from './types.js';
+import {
+  AccessTokenCache,
+  MarketplaceChannelFields,
+  getOAuthCredentialsForChannel,
+  isKnownEndpoint,
+  marketplaceRequest,
+  toCarrierCode,
+} from './marketplace-http.js';
+
+export const EBAY_ENDPOINTS = {
+  production: 'https://api.ebay.com',
+  sandbox: 'https://api.sandbox.ebay.com',
+} as const;
+
+export type EbayEnvironment = keyof typeof EBAY_ENDPOINTS;
+
+// Whether a URL is one of the Sell API endpoints (callers may not point requests anywhere else)
+export const isEbayEndpoint = (url: unknown): boolean => isKnownEndpoint(EBAY_ENDPOINTS, url);
+
+const ORDER_PAGE_SIZE = 200;
+const INVENTORY_PAGE_SIZE = 100;
+
+// eBay shipping carrier codes for the carriers JTL FFN reports most often
+const CARRIER_CODES: Record<string, string> = {
+  'dhl': 'DHL',
+  'dhl express': 'DHL',
+  'deutsche post': 'DEUTSCHE_POST',
+  'dpd': 'DPD',
+  'gls': 'GLS',
+  'hermes': 'HERMES',
+  'ups': 'UPS',
+  'fedex': 'FEDEX',
+  'usps': 'USPS',
+  'royal mail': 'ROYAL_MAIL',
+};
+
+export class EbayService {
+  private credentials: EbayCredentials;
+  private baseUrl: string;
+  private accessToken: AccessTokenCache;
+
+  constructor(credentials: EbayCredentials) {
+    this.credentials = credentials;
+    this.baseUrl = (credentials.endpoint || EBAY_ENDPOINTS.production).replace(/\/$/, '');
+
+    // Exchange the user refresh token for an access token
+    const basicAuth = Buffer.from(`${credentials.clientId}:${credentials.clientSecret}`).toString('base64');
+    this.accessToken = new AccessTokenCache('eBay OAuth token error', () =>
+      fetch(`${this.baseUrl}/identity/v1/oauth2/token`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded',
+          'Authorization': `Basic ${basicAuth}`,
+        },
+        body: new URLSearchParams({
+          grant_type: 'refresh_token',
+          refresh_token: credentials.refreshToken,
+        }),
+      })
+    );
+  }
+
+  /**
+   * Make an authenticated request to the Sell APIs. Throttled requests (429) are retried with backoff.
+   * Some endpoints (e.g. shipping fulfillment) answer 201/204 without a body.
+   */
+  private async request<T>(
+    path: string,
+    options: RequestInit = {},
+    params: Record<string, string | undefined> = {}
+  ): Promise<T> {
+    return marketplaceRequest<T>({
+      baseUrl: this.baseUrl,
+      path,
+      options,
+      params,
+      authHeaders: async () => ({
+        'Authorization': `Bearer ${await this.accessToken.get()}`,
+        'X-EBAY-C-MARKETPLACE-ID': this.credentials.marketplaceId,
+      }),
+      errorLabel: 'eBay API error',
+    });
+  }
+
+  // ============= ORDERS =============
+
+  /**
+   * Fetch all orders created or modified after a date
+   */
+  async getOrders(params: { createdAfter?: Date; modifiedAfter?: Date }): Promise<EbayOrder[]> {
+    const filter = params.modifiedAfter
+      ? `lastmodifieddate:[${params.modifiedAfter.toISOString()}..]`
+      : params.createdAfter
+        ? `creationdate:[${params.createdAfter.toISOString()}..]`
+        : undefined;
+
+    const orders: EbayOrder[] = [];
+    let offset = 0;
+    let total = 0;
+
+    console.log(`[eBay] Starting order fetch...`);
+
+    do {
+      const result = await this.request<{ orders?: EbayOrder[]; total: number }>(
+        '/sell/fulfillment/v1/order',
+        {},
+        { filter, limit: String(ORDER_PAGE_SIZE), offset: String(offset) }
+      );
+
+      orders.push(...(result.orders || []));
+      total = result.total;
+      offset += ORDER_PAGE_SIZE;
+    } while (offset < total);
+
+    console.log(`[eBay] Fetched ${orders.length} orders`);
+    return orders;
+  }
+
+  /**
+   * Fetch orders modified since a date (catches payment and cancellation changes)
+   */
+  async getOrdersUpdatedSince(since: Date): Promise<EbayOrder[]> {
+    return this.getOrders({ modifiedAfter: since });
+  }
+
+  /**
+   * Fetch orders created since a date (the Fulfillment API only returns 90 days without a filter)
+   */
+  async getAllOrders(createdAfter = new Date(Date.now() - 90 * 24 * 60 * 60 * 1000)): Promise<EbayOrder[]> {
+    return this.getOrders({ createdAfter });
+  }
+
+  /**
+   * Fetch a single order
+   */
+  async getOrder(orderId: string): Promise<EbayOrder> {
+    return this.request<EbayOrder>(`/sell/fulfillment/v1/order/${encodeURIComponent(orderId)}`);
+  }
+
+  /**
+   * Upload tracking for all unshipped line items of an order.
+   * Returns false when the order is already fulfilled or cancelled on eBay.
+   */
+  async createShippingFulfillment(orderId: string, shipment: EbayShippingFulfillment): Promise<boolean> {
+    const order = await this.getOrder(orderId);
+    if (order.orderFulfillmentStatus === 'FULFILLED' || order.cancelStatus?.cancelState === 'CANCELED') {
+      console.log(`[eBay] Order ${orderId} is already ${order.orderFulfillmentStatus === 'FULFILLED' ? 'fulfilled' : 'cancelled'}, skipping tracking upload`);
+      return false;
+    }
+
+    const lineItems = order.lineItems.filter((item: EbayLineItem) => item.lineItemFulfillmentStatus !== 'FULFILLED');
+
+    await this.request<void>(`/sell/fulfillment/v1/order/${encodeURIComponent(orderId)}/shipping_fulfillment`, {
+      method: 'POST',
+      body: JSON.stringify({
+        lineItems: lineItems.map(item => ({ lineItemId: item.lineItemId, quantity: item.quantity })),
+        shippedDate: shipment.shippedDate.toISOString(),
+        shippingCarrierCode: EbayService.toCarrierCode(shipment.carrier),
+        trackingNumber: shipment.trackingNumber,
+      }),
+    });
+
+    return true;
+  }
+
+  // ============= INVENTORY =============
+
+  /**
+   * Fetch all inventory items of the seller.
+   * Only listings managed through the Inventory API are returned (not legacy Seller Hub listings).
+   */
+  async getAllInventoryItems(): Promise<EbayInventoryItem[]> {
+    const items: EbayInventoryItem[] = [];
+    let offset = 0;
+    let total = 0;
+
+    console.log(`[eBay] Starting inventory item fetch...`);
+
+    do {
+      const result = await this.request<{ inventoryItems?: EbayInventoryItem[]; total: number }>(
+        '/sell/inventory/v1/inventory_item',
+        {},
+        { limit: String(INVENTORY_PAGE_SIZE), offset: String(offset) }
+      );
+
+      items.push(...(result.inventoryItems || []));
+      total = result.total;
+      offset += INVENTORY_PAGE_SIZE;
+    } while (offset < total);
+
+    console.log(`[eBay] Fetched ${items.length} inventory items`);
+    return items;
+  }
+
+  /**
+   * Set the available quantity of an inventory item (applies to all its published offers)
+   */
+  async updateInventory(sku: string, quantity: number): Promise<void> {
+    const result = await this.request<{
+      responses: Array<{ statusCode: number; sku: string; errors?: Array<{ message: string }> }>;
+    }>('/sell/inventory/v1/bulk_update_price_quantity', {
+      method: 'POST',
+      body: JSON.stringify({
+        requests: [{
+          sku,
+          shipToLocationAvailability: { quantity: Math.max(0, quantity) },
+        }],
+      }),
+    });
+
+    const response = result.responses.find(r => r.sku === sku);
+    if (!response || response.statusCode !== 200) {
+      const errors = response?.errors?.map(error => error.message).join('; ');
+      throw new Error(`eBay rejected inventory update for ${sku}: ${errors || response?.statusCode || 'no response'}`);
+    }
+  }
+
+  // ============= CONNECTION =============
+
+  /**
+   * Test connection to the Sell APIs and check that the account can sell
+   */
+  async testConnection(): Promise<{ success: boolean; message: string }> {
+    try {
+      const result = await this.request<{ sellerRegistrationCompleted: boolean }>('/sell/account/v1/privilege');
+
+      if (!result.sellerRegistrationCompleted) {
+        return {
+          success: false,
+          message: 'eBay account has not completed seller registration',
+        };
+      }
+
+      return {
+        success: true,
+        message: `Connected to eBay (${this.credentials.marketplaceId})`,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: error instanceof Error ? error.message : 'Connection failed',
+      };
+    }
+  }
+
+  // ============= HELPERS =============
+
+  /**
+   * Map a carrier name to an eBay shipping carrier code ("Other" when unknown)
+   */
+  static toCarrierCode(carrier?: string | null): string {
+    return toCarrierCode(CARRIER_CODES, carrier);
+  }
+}
+
+/**
+ * Decrypt a channel's stored eBay credentials.
+ * Returns null when the channel is missing any of them.
+ */
+export function getEbayCredentialsForChannel(channel: MarketplaceChannelFields): EbayCredentials | null {
+  return getOAuthCredentialsForChannel(channel);
+}
+
+/**
+ * Create an EbayService from a channel's stored (encrypted) credentials
+ */
+export function createEbayServiceForChannel(channel: MarketplaceChannelFields): EbayService | null {
+  const credentials = getEbayCredentialsForChannel(channel);
+  return credentials ? new EbayService(credentials) : null;
+}
+
+export default EbayService;
@@ -14,9 +14,12 @@
 import { PrismaClient, ChannelType, OrderStatus, ReturnStatus, SyncOrigin } from '@prisma/client';
 import { ProductSyncService, IncomingProductData, SyncOriginType } from './product-sync.service.js';
 import { OrderSyncService, IncomingOrderData } from './order-sync.service.js';
+import { OrderOperationsService } from './order-operations.service.js';
 import { ReturnSyncService, IncomingReturnData } from './return-sync.service.js';
 import crypto from 'crypto';
 import { Logger } from '../../utils/logger.js';
+import { stockMovementService } from '../stock-movement.service.js';
+import { channelStockService } from '../channel-stock.service.js';
 
 // ============= TYPES =============
 
@@ -346,36 +349,13 @@ export class EnhancedWebhookProcessor {
   private productSyncService: ProductSyncService;
   private orderSyncService: OrderSyncService;
   private returnSyncService: ReturnSyncService;
-  private processedWebhooks: Map<string, number> = new Map();
   private logger = new Logger('EnhancedWebhook');
 
-  // Clean up processed webhooks every 5 minutes
-  private cleanupInterval: NodeJS.Timeout;
-
   constructor(prisma: PrismaClient) {
     this.prisma = prisma;
     this.productSyncService = new ProductSyncService(prisma);
     this.orderSyncService = new OrderSyncService(prisma);
     this.returnSyncService = new ReturnSyncService(prisma);
-
-    // Cleanup old webhook IDs
-    this.cleanupInterval = setInterval(() => {
-      const fiveMinutesAgo = Date.now() - 5 * 60 * 1000;
-      for (const [id, timestamp] of this.processedWebhooks.entries()) {
-        if (timestamp < fiveMinutesAgo) {
-          this.processedWebhooks.delete(id);
-        }
-      }
-    }, 5 * 60 * 1000);
-  }
-
-  /**
-   * Stop the cleanup interval
-   */
-  destroy(): void {
-    if (this.cleanupInterval) {
-      clearInterval(this.cleanupInterval);
-    }
   }
 
   /**
@@ -407,25 +387,14 @@ export class EnhancedWebhookProcessor {
   }
 
   /**
-   * Main entry point for processing webhooks
+   * Main entry point for processing webhooks.
+   * Deduplication happens before this, in the webhook inbox (see WebhookInboxService).
    */
   async processWebhook(event: WebhookEvent): Promise<WebhookProcessResult> {
     const webhookId = event.webhookId || this.generateWebhookId(event);
 
     console.log(`[Webhook] Processing - Channel: ${event.channelId}, Topic: ${event.topic}, ID: ${webhookId}`);
 
-    // Deduplication check
-    if (this.processedWebhooks.has(webhookId)) {
-      console.log(`[Webhook] Duplicate webhook detected: ${webhookId}`);
-      return {
-        success: true,
-        action: 'skipped',
-        entityType: 'unknown',
-        details: { reason: 'Duplicate webhook' },
-      };
-    }
-    this.processedWebhooks.set(webhookId, Date.now());
-
     try {
       // Get channel info
       const channel = await this.prisma.channel.findUnique({
@@ -743,6 +712,19 @@ export class EnhancedWebhookProcessor {
       };
     }
 
+    // A rule-managed channel only shows the published quantity - writing it back would
+    // shrink the stock on every echo
+    if (await channelStockService.isRuleManaged(channelId, productChannel.productId)) {
+      return {
+        success: true,
+        action: 'skipped',
+        entityType: 'inventory',
+        localId: productChannel.productId,
+        externalId: String(payload.inventory_item_id),
+        details: { reason: 'Channel stock is managed by an allocation rule' },
+      };
+    }
+
     // Only update stock if it's not from our platform
     // (Stock is ops-owned, but inventory webhooks from Shopify are usually from sales)
     
@@ -756,6 +738,11 @@ export class EnhancedWebhookProcessor {
       },
     });
 
+    await stockMovementService.record(productChannel.product, { available: payload.available }, 'channel_sync', {
+      referenceType: 'Channel',
+      referenceId: channelId,
+    });
+
     return {
       success: true,
       action: 'updated',
@@ -903,6 +890,7 @@ export class EnhancedWebhookProcessor {
         where: {
           clientId,
           externalOrderId: externalId,
+          isSplitOrder: false,
         },
       });
 
@@ -1057,6 +1045,7 @@ export class EnhancedWebhookProcessor {
         where: {
           clientId,
           externalOrderId: externalOrderId,
+          isSplitOrder: false,
         },
         include: {
           items: true,
@@ -1229,6 +1218,7 @@ export class EnhancedWebhookProcessor {
               cancelledAt: new Date(),
             },
           });
+          await new OrderOperationsService(this.prisma).cancelLinkedOrders(order.id, 'SHOPIFY', 'Cancelled on platform');
           break;
 
         case 'cancellation_request_rejected':
@@ -1310,6 +1300,7 @@ export class EnhancedWebhookProcessor {
               shopifyFulfillmentOrderStatus: 'CANCELLED',
             },
           });
+          await new OrderOperationsService(this.prisma).cancelLinkedOrders(order.id, 'SHOPIFY', 'Cancelled on platform');
 
           // If order has a JTL outbound, queue cancellation in JTL
           if (order.jtlOutboundId) {
@@ -1565,6 +1556,7 @@ export class EnhancedWebhookProcessor {
             where: {
               clientId,
               externalOrderId: externalId,
+              isSplitOrder: false,
             },
           });
 
@@ -0,0 +1,163 @@
+/**
+ * File Channel Sync Service
+ *
+ * Connects file-based channels (ChannelType.FILE) to the order and stock flows.
+ *
+ * KEY CONCEPTS:
+ * - Order files in the channel inbox are imported through OrderSyncService.processIncomingOrder,
+ *   so payment holds, shipping-method resolution and the FFN push behave as for shop orders
+ * - A file is imported completely or moved to the error directory; re-dropping a fixed file is
+ *   safe because orders are matched by their external order ID
+ * - Shipment files are written by OrderSyncService when JTL reports an order as shipped
+ * - Stock files are full snapshots, written only when a product changed since the last one
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { OrderSyncService } from './order-sync.service.js';
+import { createFileChannelServiceForChannel } from './file-channel.service.js';
+import type { SyncItemResult, SyncResult } from './types.js';
+import { channelStockService } from '../channel-stock.service.js';
+
+export class FileChannelSyncService {
+  private prisma: PrismaClient;
+  private orderSyncService: OrderSyncService;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+    this.orderSyncService = new OrderSyncService(prisma);
+  }
+
+  /**
+   * Import all order files waiting in the channel inbox
+   */
+  async importOrders(channelId: string): Promise<SyncResult> {
+    const results: SyncItemResult[] = [];
+    let itemsProcessed = 0;
+    let itemsFailed = 0;
+
+    try {
+      const channel = await this.prisma.channel.findUnique({ where: { id: channelId } });
+      if (!channel) {
+        throw new Error(`Channel ${channelId} not found`);
+      }
+
+      const fileChannelService = createFileChannelServiceForChannel(channel);
+      if (!fileChannelService) {
+        throw new Error('Missing or invalid file configuration');
+      }
+
+      const files = await fileChannelService.fetchOrderFiles();
+
+      for (const file of files) {
+        if (file.error) {
+          console.warn(`[FileChannelSync] Could not parse ${file.fileName}: ${file.error}`);
+          await fileChannelService.archiveOrderFile(file.fileName, file.error);
+          results.push({ externalId: file.fileName, success: false, error: file.error, action: 'failed' });
+          itemsFailed++;
+          continue;
+        }
+
+        const errors: string[] = [];
+        for (const order of file.orders) {
+          const result = await this.orderSyncService.processIncomingOrder('file', channel.clientId, {
+            ...order,
+            channelId: channel.id,
+          });
+
+          if (result.success) {
+            results.push({
+              externalId: order.externalOrderId,
+              localId: result.orderId,
+              success: true,
+              action: result.action === 'created' ? 'created' : result.action === 'skipped' ? 'skipped' : 'updated',
+            });
+            itemsProcessed++;
+          } else {
+            errors.push(`Order ${order.externalOrderId}: ${result.error}`);
+            results.push({ externalId: order.externalOrderId, success: false, error: result.error, action: 'failed' });
+            itemsFailed++;
+          }
+        }
+
+        await fileChannelService.archiveOrderFile(file.fileName, errors.length > 0 ? errors.join('\n') : undefined);
+        console.log(`[FileChannelSync] Imported ${file.fileName}: ${file.orders.length - errors.length}/${file.orders.length} orders`);
+      }
+
+      return {
+        success: itemsFailed === 0,
+        syncedAt: new Date(),
+        itemsProcessed,
+        itemsFailed,
+        details: results,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        syncedAt: new Date(),
+        itemsProcessed,
+        itemsFailed,
+      };
+    }
+  }
+
+  /**
+   * Write a stock snapshot of the client's active products to the channel outbox
+   * @param force Write even when no product changed since the last export
+   */
+  async exportStock(channelId: string, force = false): Promise<SyncResult> {
+    const startedAt = new Date();
+
+    try {
+      const channel = await this.prisma.channel.findUnique({ where: { id: channelId } });
+      if (!channel) {
+        throw new Error(`Channel ${channelId} not found`);
+      }
+
+      const fileChannelService = createFileChannelServiceForChannel(channel);
+      if (!fileChannelService) {
+        throw new Error('Missing or invalid file configuration');
+      }
+
+      if (!force && channel.lastStockExportAt) {
+        const changed = await this.prisma.product.count({
+          where: { clientId: channel.clientId, updatedAt: { gt: channel.lastStockExportAt } },
+        });
+        if (changed === 0) {
+          return { success: true, syncedAt: startedAt, itemsProcessed: 0, itemsFailed: 0 };
+        }
+      }
+
+      const products = await this.prisma.product.findMany({
+        where: { clientId: channel.clientId, isActive: true },
+        select: { id: true, sku: true, gtin: true },
+        orderBy: { sku: 'asc' },
+      });
+
+      const published = await channelStockService.getPublishedQuantities(channelId, products.map(product => product.id));
+
+      await fileChannelService.writeStockExport(products.map(product => ({
+        sku: product.sku,
+        gtin: product.gtin,
+        available: published.get(product.id) ?? 0,
+      })));
+
+      await this.prisma.channel.update({
+        where: { id: channelId },
+        data: { lastStockExportAt: startedAt },
+      });
+
+      return { success: true, syncedAt: startedAt, itemsProcessed: products.length, itemsFailed: 0 };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        syncedAt: startedAt,
+        itemsProcessed: 0,
+        itemsFailed: 0,
+      };
+    }
+  }
+}
+
+export default FileChannelSyncService;
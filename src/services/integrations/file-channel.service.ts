@@ -0,0 +1,713 @@
+/**
+ * File Channel Service
+ * Handles file-based channels for merchants without a supported shop system:
+ * reads order files (CSV/XML) from an inbox directory and writes shipment and
+ * stock files to an outbox directory, either on the local filesystem or via SFTP.
+ */
+
+import fs from 'fs/promises';
+import { lstatSync, realpathSync } from 'fs';
+import path from 'path';
+import SftpClient from 'ssh2-sftp-client';
+import type { PrismaClient } from '@prisma/client';
+import { XMLBuilder, XMLParser } from 'fast-xml-parser';
+import {
+  FileChannelConfig,
+  FileChannelCredentials,
+  FileChannelShipment,
+  FileChannelStockRow,
+  FileOrderField,
+} from './types.js';
+import type { IncomingOrderData } from './order-sync.service.js';
+import { getEncryptionService } from '../encryption.service.js';
+import { parseCsvRecords, toCsv } from '../../utils/csv.js';
+import { nonPublicHostReason, resolvePublicAddress } from '../../utils/public-address.js';
+
+/**
+ * An order read from a file (the caller adds the channel ID)
+ */
+export type FileChannelOrder = Omit<IncomingOrderData, 'channelId'>;
+
+export interface FileChannelOrderFile {
+  fileName: string;
+  orders: FileChannelOrder[];
+  error?: string;         // Set when the file could not be parsed; no orders are returned then
+}
+
+const FILE_EXTENSIONS: Record<FileChannelConfig['format'], string[]> = {
+  csv: ['.csv', '.txt'],
+  xml: ['.xml'],
+};
+
+const DEFAULT_DELIMITER = ';';
+const DEFAULT_XML_ORDER_PATH = 'orders.order';
+const DEFAULT_XML_ITEM_PATH = 'items.item';
+
+// ============= TRANSPORTS =============
+
+interface FileTransport {
+  list(dir: string): Promise<string[]>;
+  read(filePath: string): Promise<string>;
+  write(filePath: string, content: string): Promise<void>;
+  move(from: string, to: string): Promise<void>;
+  remove(filePath: string): Promise<void>;
+  close(): Promise<void>;
+}
+
+// Real path of a location, following symlinks in the part that already exists
+function realPath(target: string): string {
+  const resolved = path.resolve(target);
+  let existing = resolved;
+  while (!lstatSync(existing, { throwIfNoEntry: false })) {
+    const parent = path.dirname(existing);
+    if (parent === existing) break;
+    existing = parent;
+  }
+  return path.join(realpathSync(existing), path.relative(existing, resolved));
+}
+
+/**
+ * Whether a location lies inside root once symlinks are resolved.
+ * Dangling or unreadable links count as outside.
+ */
+function isInsideRoot(target: string, root: string): boolean {
+  try {
+    const relative = path.relative(realPath(root), realPath(target));
+    return !(relative === '..' || relative.startsWith(`..${path.sep}`) || path.isAbsolute(relative));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Directory a client's local file channels are confined to (FILE_CHANNEL_ROOT/{clientId}),
+ * so one merchant can't read or overwrite another merchant's files.
+ * Returns null when local file channels are disabled or the client ID is not a plain name.
+ */
+export function getClientFileRoot(clientId: string): string | null {
+  const root = process.env.FILE_CHANNEL_ROOT;
+  if (!root || !/^[A-Za-z0-9_-]+$/.test(clientId)) return null;
+  return path.join(root, clientId);
+}
+
+// Checks every path against the client's directory, because links can be created in the share after validation
+class LocalFileTransport implements FileTransport {
+  constructor(private root: string) {}
+
+  async list(dir: string): Promise<string[]> {
+    const entries = await fs.readdir(this.inside(dir), { withFileTypes: true });
+    return entries.filter(entry => entry.isFile()).map(entry => entry.name);
+  }
+
+  async read(filePath: string): Promise<string> {
+    return fs.readFile(this.inside(filePath), 'utf8');
+  }
+
+  async write(filePath: string, content: string): Promise<void> {
+    await fs.mkdir(this.inside(path.dirname(filePath)), { recursive: true });
+    // Write under a temporary name so the merchant's system never picks up a half-written file
+    await fs.writeFile(this.inside(`${filePath}.part`), content, 'utf8');
+    await fs.rename(`${filePath}.part`, this.inside(filePath));
+  }
+
+  async move(from: string, to: string): Promise<void> {
+    await fs.mkdir(this.inside(path.dirname(to)), { recursive: true });
+    await fs.rename(this.inside(from), this.inside(to));
+  }
+
+  async remove(filePath: string): Promise<void> {
+    await fs.unlink(this.inside(filePath));
+  }
+
+  async close(): Promise<void> {}
+
+  private inside(target: string): string {
+    if (!isInsideRoot(target, this.root)) {
+      throw new Error(`${target} is outside the client's directory in FILE_CHANNEL_ROOT`);
+    }
+    return target;
+  }
+}
+
+class SftpFileTransport implements FileTransport {
+  private client = new SftpClient();
+
+  async connect(credentials: FileChannelCredentials): Promise<void> {
+    const sftp = credentials.config.sftp;
+    if (!sftp) {
+      throw new Error('SFTP host is not configured');
+    }
+
+    // Connect to the checked address, so the host can't be re-pointed to an internal one in between
+    await this.client.connect({
+      host: await resolvePublicAddress(sftp.host),
+      port: sftp.port || 22,
+      username: sftp.username,
+      ...(credentials.privateKey ? { privateKey: credentials.privateKey } : { password: credentials.password }),
+      readyTimeout: 20_000,
+    });
+  }
+
+  async list(dir: string): Promise<string[]> {
+    const entries = await this.client.list(dir);
+    return entries.filter(entry => entry.type === '-').map(entry => entry.name);
+  }
+
+  async read(filePath: string): Promise<string> {
+    const content = await this.client.get(filePath);
+    return Buffer.isBuffer(content) ? content.toString('utf8') : String(content);
+  }
+
+  async write(filePath: string, content: string): Promise<void> {
+    await this.ensureDir(path.posix.dirname(filePath));
+    await this.client.put(Buffer.from(content, 'utf8'), `${filePath}.part`);
+    await this.client.rename(`${filePath}.part`, filePath);
+  }
+
+  async move(from: string, to: string): Promise<void> {
+    await this.ensureDir(path.posix.dirname(to));
+    await this.client.rename(from, to);
+  }
+
+  async remove(filePath: string): Promise<void> {
+    await this.client.delete(filePath);
+  }
+
+  async close(): Promise<void> {
+    await this.client.end();
+  }
+
+  private async ensureDir(dir: string): Promise<void> {
+    if (!(await this.client.exists(dir))) {
+      await this.client.mkdir(dir, true);
+    }
+  }
+}
+
+// ============= SERVICE =============
+
+export class FileChannelService {
+  private credentials: FileChannelCredentials;
+  private config: FileChannelConfig;
+
+  constructor(credentials: FileChannelCredentials) {
+    this.credentials = credentials;
+    this.config = credentials.config;
+  }
+
+  /**
+   * Open a transport for the configured location and close it when done
+   */
+  private async withTransport<T>(fn: (transport: FileTransport) => Promise<T>): Promise<T> {
+    let transport: FileTransport;
+    if (this.config.transport === 'sftp') {
+      const sftpTransport = new SftpFileTransport();
+      await sftpTransport.connect(this.credentials);
+      transport = sftpTransport;
+    } else {
+      const root = getClientFileRoot(this.credentials.clientId);
+      if (!root) throw new Error('Local file channels are disabled (FILE_CHANNEL_ROOT is not set)');
+      transport = new LocalFileTransport(root);
+    }
+
+    try {
+      return await fn(transport);
+    } finally {
+      await transport.close().catch(() => {});
+    }
+  }
+
+  // ============= ORDERS =============
+
+  /**
+   * Read and parse all order files waiting in the inbox (oldest name first).
+   * Files stay in the inbox until archiveOrderFile() is called for them.
+   */
+  async fetchOrderFiles(): Promise<FileChannelOrderFile[]> {
+    return this.withTransport(async transport => {
+      const extensions = FILE_EXTENSIONS[this.config.format];
+      const fileNames = (await transport.list(this.config.inboxPath))
+        .filter(name => extensions.includes(path.extname(name).toLowerCase()))
+        .sort();
+
+      console.log(`[FileChannel] Found ${fileNames.length} order files in ${this.config.inboxPath}`);
+
+      const files: FileChannelOrderFile[] = [];
+      for (const fileName of fileNames) {
+        try {
+          const content = await transport.read(path.posix.join(this.config.inboxPath, fileName));
+          files.push({ fileName, orders: this.parseOrderFile(content) });
+        } catch (error) {
+          files.push({
+            fileName,
+            orders: [],
+            error: error instanceof Error ? error.message : 'Could not read file',
+          });
+        }
+      }
+
+      return files;
+    });
+  }
+
+  /**
+   * Move an order file out of the inbox once it has been handled.
+   * Failed files go to the error directory together with a short error report.
+   */
+  async archiveOrderFile(fileName: string, error?: string): Promise<void> {
+    const targetDir = error
+      ? this.config.errorPath || path.posix.join(this.config.inboxPath, 'failed')
+      : this.config.archivePath || path.posix.join(this.config.inboxPath, 'processed');
+
+    await this.withTransport(async transport => {
+      // Prefix with a timestamp so a re-dropped file with the same name doesn't collide
+      const archivedName = `${FileChannelService.timestamp()}_${fileName}`;
+      await transport.move(
+        path.posix.join(this.config.inboxPath, fileName),
+        path.posix.join(targetDir, archivedName)
+      );
+
+      if (error) {
+        await transport.write(path.posix.join(targetDir, `${archivedName}.error.txt`), `${error}\n`);
+      }
+    });
+  }
+
+  /**
+   * Parse the content of an order file into orders.
+   * Throws when the file is malformed or an order is missing required fields,
+   * so a file is always imported completely or not at all.
+   */
+  parseOrderFile(content: string): FileChannelOrder[] {
+    return this.config.format === 'xml'
+      ? this.parseXmlOrders(content)
+      : this.parseCsvOrders(content);
+  }
+
+  /**
+   * CSV files have one row per order line; rows with the same order ID form one order
+   */
+  private parseCsvOrders(content: string): FileChannelOrder[] {
+    const records = parseCsvRecords(content, this.config.delimiter || DEFAULT_DELIMITER);
+    const idColumn = this.column('externalOrderId');
+
+    const rowsByOrder = new Map<string, Array<Record<string, string>>>();
+    records.forEach((record, index) => {
+      const orderId = record[idColumn];
+      if (!orderId) {
+        throw new Error(`Row ${index + 2}: missing order ID (column "${idColumn}")`);
+      }
+      rowsByOrder.set(orderId, [...(rowsByOrder.get(orderId) || []), record]);
+    });
+
+    return Array.from(rowsByOrder.values()).map(rows => this.buildOrder(
+      field => rows[0][this.column(field)],
+      rows.map(row => (field: FileOrderField) => row[this.column(field)])
+    ));
+  }
+
+  /**
+   * XML files contain order elements with nested item elements, located by dot paths
+   */
+  private parseXmlOrders(content: string): FileChannelOrder[] {
+    const parser = new XMLParser({ ignoreAttributes: true, parseTagValue: false, trimValues: true });
+    const document = parser.parse(content);
+    const orderElements = toArray(getPath(document, this.config.xmlOrderPath || DEFAULT_XML_ORDER_PATH));
+
+    return orderElements.map((element, index) => {
+      const items = toArray(getPath(element, this.config.xmlItemPath || DEFAULT_XML_ITEM_PATH));
+      const read = (source: unknown) => (field: FileOrderField) => {
+        const value = getPath(source, this.column(field));
+        return value === undefined || value === null || typeof value === 'object' ? undefined : String(value);
+      };
+
+      if (!read(element)('externalOrderId')) {
+        throw new Error(`Order ${index + 1}: missing order ID (element "${this.column('externalOrderId')}")`);
+      }
+
+      return this.buildOrder(read(element), items.map(read));
+    });
+  }
+
+  /**
+   * Build an order from mapped field readers (one for the order, one per line)
+   */
+  private buildOrder(
+    order: (field: FileOrderField) => string | undefined,
+    lines: Array<(field: FileOrderField) => string | undefined>
+  ): FileChannelOrder {
+    const externalOrderId = order('externalOrderId')!;
+
+    const items = lines
+      .filter(line => line('sku'))
+      .map(line => {
+        const quantity = parseNumber(line('quantity'));
+        if (!quantity || quantity <= 0 || !Number.isInteger(quantity)) {
+          throw new Error(`Order ${externalOrderId}: invalid quantity "${line('quantity') ?? ''}" for SKU ${line('sku')}`);
+        }
+
+        const unitPrice = parseNumber(line('unitPrice'));
+        return {
+          sku: line('sku')!,
+          productName: line('productName') || undefined,
+          quantity,
+          unitPrice,
+          totalPrice: unitPrice !== undefined ? unitPrice * quantity : undefined,
+        };
+      });
+
+    if (items.length === 0) {
+      throw new Error(`Order ${externalOrderId}: no order lines with a SKU`);
+    }
+
+    const orderDate = parseDate(order('orderDate'));
+    if (!orderDate) {
+      throw new Error(`Order ${externalOrderId}: invalid order date "${order('orderDate')}"`);
+    }
+
+    const firstName = order('shippingFirstName') || undefined;
+    const lastName = order('shippingLastName') || undefined;
+    const countryCode = order('shippingCountryCode')?.toUpperCase() || undefined;
+    const subtotal = items.reduce((sum, item) => sum + (item.totalPrice ?? 0), 0);
+
+    return {
+      externalOrderId,
+      orderNumber: order('orderNumber') || externalOrderId,
+      orderDate,
+      customerName: order('customerName') || [firstName, lastName].filter(Boolean).join(' ') || undefined,
+      customerEmail: order('customerEmail') || undefined,
+      customerPhone: order('customerPhone') || undefined,
+      shippingFirstName: firstName,
+      shippingLastName: lastName,
+      shippingCompany: order('shippingCompany') || undefined,
+      shippingAddress1: order('shippingAddress1') || undefined,
+      shippingAddress2: order('shippingAddress2') || undefined,
+      shippingCity: order('shippingCity') || undefined,
+      shippingZip: order('shippingZip') || undefined,
+      shippingCountry: countryCode,
+      shippingCountryCode: countryCode,
+      billingFirstName: order('billingFirstName') || undefined,
+      billingLastName: order('billingLastName') || undefined,
+      billingCompany: order('billingCompany') || undefined,
+      billingAddress1: order('billingAddress1') || undefined,
+      billingAddress2: order('billingAddress2') || undefined,
+      billingCity: order('billingCity') || undefined,
+      billingZip: order('billingZip') || undefined,
+      billingCountry: order('billingCountry') || undefined,
+      shippingMethod: order('shippingMethod') || undefined,
+      shippingMethodCode: order('shippingMethodCode') || undefined,
+      paymentStatus: order('paymentStatus')?.toLowerCase() || undefined,
+      paymentMethod: order('paymentMethod') || undefined,
+      currency: order('currency') || undefined,
+      shippingCost: parseNumber(order('shippingCost')),
+      subtotal: subtotal || undefined,
+      total: parseNumber(order('total')),
+      notes: order('notes') || undefined,
+      items,
+    };
+  }
+
+  // ============= EXPORTS =============
+
+  /**
+   * Write a shipment file (tracking information) for one order to the outbox
+   * @returns Name of the written file
+   */
+  async writeShipmentExport(shipment: FileChannelShipment): Promise<string> {
+    const record = {
+      order_id: shipment.externalOrderId,
+      order_number: shipment.orderNumber || '',
+      tracking_number: shipment.trackingNumber || '',
+      carrier: shipment.carrier || '',
+      tracking_url: shipment.trackingUrl || '',
+      shipped_at: shipment.shippedAt.toISOString(),
+    };
+
+    const content = this.config.format === 'xml'
+      ? this.toXml({ shipments: { shipment: record } })
+      : toCsv([Object.keys(record), Object.values(record)], this.config.delimiter || DEFAULT_DELIMITER);
+
+    const fileName = `shipment_${safeFileName(shipment.externalOrderId)}_${FileChannelService.timestamp()}.${this.config.format}`;
+    await this.withTransport(transport => transport.write(path.posix.join(this.config.outboxPath, fileName), content));
+
+    console.log(`[FileChannel] Wrote shipment file ${fileName}`);
+    return fileName;
+  }
+
+  /**
+   * Write a stock snapshot (available quantity per SKU) to the outbox
+   * @returns Name of the written file
+   */
+  async writeStockExport(rows: FileChannelStockRow[]): Promise<string> {
+    const records = rows.map(row => ({ sku: row.sku, gtin: row.gtin || '', available: Math.max(0, row.available) }));
+
+    const content = this.config.format === 'xml'
+      ? this.toXml({ stock: { item: records } })
+      : toCsv(
+          [['sku', 'gtin', 'available'], ...records.map(record => [record.sku, record.gtin, record.available])],
+          this.config.delimiter || DEFAULT_DELIMITER
+        );
+
+    const fileName = `stock_${FileChannelService.timestamp()}.${this.config.format}`;
+    await this.withTransport(transport => transport.write(path.posix.join(this.config.outboxPath, fileName), content));
+
+    console.log(`[FileChannel] Wrote stock file ${fileName} (${rows.length} SKUs)`);
+    return fileName;
+  }
+
+  // ============= CONNECTION =============
+
+  /**
+   * Test that the inbox can be listed and the outbox can be written to
+   */
+  async testConnection(): Promise<{ success: boolean; message: string }> {
+    try {
+      const waiting = await this.withTransport(async transport => {
+        const fileNames = await transport.list(this.config.inboxPath);
+        const probe = path.posix.join(this.config.outboxPath, `.connection-test-${Date.now()}`);
+        await transport.write(probe, '');
+        await transport.remove(probe);
+        return fileNames.length;
+      });
+
+      const location = this.config.transport === 'sftp' ? `sftp://${this.config.sftp?.host}` : 'local directory';
+      return {
+        success: true,
+        message: `Connected to ${location} (${waiting} files in inbox)`,
+      };
+    } catch (error) {
+      // SFTP errors would tell the caller which internal hosts and ports answer
+      if (this.config.transport === 'sftp') {
+        console.warn(`[FileChannel] SFTP connection test to ${this.config.sftp?.host} failed:`, error);
+        return { success: false, message: 'Could not connect to the SFTP server or access its directories' };
+      }
+      return {
+        success: false,
+        message: error instanceof Error ? error.message : 'Connection failed',
+      };
+    }
+  }
+
+  // ============= HELPERS =============
+
+  /**
+   * File column (CSV header or XML element) mapped to an order field
+   */
+  private column(field: FileOrderField): string {
+    return this.config.columnMapping?.[field] || field;
+  }
+
+  private toXml(data: Record<string, unknown>): string {
+    const builder = new XMLBuilder({ format: true });
+    return `<?xml version="1.0" encoding="UTF-8"?>\n${builder.build(data)}`;
+  }
+
+  private static timestamp(): string {
+    return new Date().toISOString().replace(/[-:]/g, '').replace(/\.\d+Z$/, 'Z');
+  }
+
+  /**
+   * Validate a client's channel file configuration; returns an error message or null
+   */
+  static validateConfig(config: Partial<FileChannelConfig> | undefined, clientId: string): string | null {
+    if (!config) return 'fileConfig is required';
+    if (config.transport !== 'local' && config.transport !== 'sftp') return 'transport must be "local" or "sftp"';
+    if (config.format !== 'csv' && config.format !== 'xml') return 'format must be "csv" or "xml"';
+    if (!config.inboxPath || !config.outboxPath) return 'inboxPath and outboxPath are required';
+    if (config.transport === 'sftp' && (!config.sftp?.host || !config.sftp.username)) {
+      return 'sftp.host and sftp.username are required for SFTP channels';
+    }
+    if (config.delimiter !== undefined && config.delimiter.length !== 1) return 'delimiter must be a single character';
+
+    // SFTP servers must be on the public internet (the address is checked again when connecting)
+    if (config.transport === 'sftp') {
+      const port = config.sftp!.port;
+      if (port !== undefined && !(Number.isInteger(port) && port > 0 && port < 65536)) return 'sftp.port is not a valid port';
+      try {
+        const hostReason = nonPublicHostReason(new URL(`sftp://${config.sftp!.host}`));
+        if (hostReason) return `sftp.host is not allowed: ${hostReason}`;
+      } catch {
+        return 'sftp.host is not a valid host name';
+      }
+    }
+
+    // Local directories are confined to the client's directory in FILE_CHANNEL_ROOT (e.g. a mounted share)
+    // so a channel can't read or write elsewhere. Symlinks are resolved, so a link can't point out of it.
+    if (config.transport === 'local') {
+      if (!process.env.FILE_CHANNEL_ROOT) return 'local file channels are disabled (FILE_CHANNEL_ROOT is not set)';
+      const root = getClientFileRoot(clientId);
+      if (!root) return 'clientId is not valid';
+
+      const outside = [config.inboxPath, config.outboxPath, config.archivePath, config.errorPath]
+        .filter((dir): dir is string => !!dir)
+        .find(dir => !isInsideRoot(dir, root));
+      if (outside) return `${outside} is outside the client's directory ${root}`;
+    }
+    return null;
+  }
+}
+
+// ============= PARSING HELPERS =============
+
+function getPath(source: unknown, dotPath: string): unknown {
+  return dotPath.split('.').reduce<unknown>(
+    (value, key) => (value && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined),
+    source
+  );
+}
+
+function toArray(value: unknown): unknown[] {
+  if (value === undefined || value === null || value === '') return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+/**
+ * Parse a number, accepting German notation ("1.234,50") as well as "1,234.50"
+ */
+function parseNumber(value?: string): number | undefined {
+  if (!value) return undefined;
+  const normalized = value.lastIndexOf(',') > value.lastIndexOf('.')
+    ? value.replace(/\./g, '').replace(',', '.')
+    : value.replace(/,/g, '');
+  const number = Number(normalized);
+  return Number.isFinite(number) ? number : undefined;
+}
+
+/**
+ * Parse an ISO date or a German date ("18.10.2026" / "18.10.2026 14:30"); missing dates mean "now"
+ */
+function parseDate(value?: string): Date | null {
+  if (!value) return new Date();
+
+  const german = value.match(/^(\d{1,2})\.(\d{1,2})\.(\d{4})(?:[ T](\d{1,2}):(\d{2}))?$/);
+  const date = german
+    ? new Date(Number(german[3]), Number(german[2]) - 1, Number(german[1]), Number(german[4] || 0), Number(german[5] || 0))
+    : new Date(value);
+
+  return isNaN(date.getTime()) ? null : date;
+}
+
+function safeFileName(value: string): string {
+  return value.replace(/[^A-Za-z0-9_-]/g, '_');
+}
+
+// ============= CHANNEL HELPERS =============
+
+interface FileChannelFields {
+  clientId: string;
+  fileConfig?: unknown;
+  apiClientSecret?: string | null;
+}
+
+/**
+ * Read a channel's file configuration and decrypt its SFTP secret.
+ * Returns null when the channel has no valid file configuration.
+ */
+export function getFileChannelCredentialsForChannel(channel: FileChannelFields): FileChannelCredentials | null {
+  const config = channel.fileConfig as FileChannelConfig | undefined;
+  if (FileChannelService.validateConfig(config, channel.clientId)) {
+    return null;
+  }
+
+  const secret = channel.apiClientSecret
+    ? getEncryptionService().safeDecrypt(channel.apiClientSecret)
+    : undefined;
+
+  return {
+    clientId: channel.clientId,
+    config: config!,
+    ...(secret?.startsWith('-----BEGIN') ? { privateKey: secret } : { password: secret }),
+  };
+}
+
+/**
+ * Whether two file configurations use a common directory (the same, or one inside the other)
+ * on the same server
+ */
+export function sharesFileDirectory(a: FileChannelConfig | null, b: FileChannelConfig): boolean {
+  if (!a || a.transport !== b.transport) return false;
+  if (a.transport === 'sftp' && a.sftp?.host?.toLowerCase() !== b.sftp?.host?.toLowerCase()) return false;
+
+  const directories = (config: FileChannelConfig): string[] =>
+    [config.inboxPath, config.outboxPath, config.archivePath, config.errorPath]
+      .filter((dir): dir is string => !!dir)
+      .map(dir => {
+        if (config.transport === 'sftp') return path.posix.resolve('/', dir);
+        try {
+          return realPath(dir);
+        } catch {
+          return path.resolve(dir);
+        }
+      });
+  const nested = (parent: string, child: string): boolean => {
+    const relative = path.relative(parent, child);
+    return !(relative === '..' || relative.startsWith(`..${path.sep}`) || path.isAbsolute(relative));
+  };
+
+  const other = directories(b);
+  return directories(a).some(dir => other.some(otherDir => nested(dir, otherDir) || nested(otherDir, dir)));
+}
+
+/**
+ * Create a FileChannelService from a channel's stored configuration
+ */
+export function createFileChannelServiceForChannel(channel: FileChannelFields): FileChannelService | null {
+  const credentials = getFileChannelCredentialsForChannel(channel);
+  return credentials ? new FileChannelService(credentials) : null;
+}
+
+export interface FileChannelShipmentOrder {
+  id: string;
+  externalOrderId: string;
+  orderNumber: string | null;
+  trackingNumber: string;
+  carrierSelection: string | null;
+  trackingUrl: string | null;
+  shippedAt: Date | null;
+  channel: FileChannelFields & { id: string };
+}
+
+/**
+ * Write the shipment file of a shipped order to its file channel's outbox.
+ * Each tracking number is written once; the Shipment record marks it as exported.
+ * @returns false when the tracking number was already exported or the channel has no valid configuration
+ */
+export async function exportShipmentToFileChannel(prisma: PrismaClient, order: FileChannelShipmentOrder): Promise<boolean> {
+  const alreadyExported = await prisma.shipment.findFirst({
+    where: { orderId: order.id, trackingNumber: order.trackingNumber },
+  });
+  if (alreadyExported) {
+    console.log(`[FileChannel] Shipment file for ${order.trackingNumber} already written, skipping`);
+    return false;
+  }
+
+  const fileChannelService = createFileChannelServiceForChannel(order.channel);
+  if (!fileChannelService) {
+    console.warn(`[FileChannel] Missing file configuration for channel ${order.channel.id}`);
+    return false;
+  }
+
+  const shippedAt = order.shippedAt ?? new Date();
+  await fileChannelService.writeShipmentExport({
+    externalOrderId: order.externalOrderId,
+    orderNumber: order.orderNumber,
+    trackingNumber: order.trackingNumber,
+    carrier: order.carrierSelection,
+    trackingUrl: order.trackingUrl,
+    shippedAt,
+  });
+
+  await prisma.shipment.create({
+    data: {
+      orderId: order.id,
+      trackingNumber: order.trackingNumber,
+      carrier: order.carrierSelection || null,
+      trackingUrl: order.trackingUrl || null,
+      shippedAt,
+    },
+  });
+  console.log(`[FileChannel] Wrote shipment file for order ${order.externalOrderId} with tracking ${order.trackingNumber}`);
+  return true;
+}
+
+export default FileChannelService;
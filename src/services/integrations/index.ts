@@ -15,7 +15,13 @@ export {
 } from './shopify-service-factory.js';
 export type { ShopifyServiceOptions, ShopifyServiceInstance } from './shopify-service-factory.js';
 export { WooCommerceService } from './woocommerce.service.js';
-export { JTLService } from './jtl.service.js';
+export { AmazonService, AMAZON_ENDPOINTS, isAmazonEndpoint, createAmazonServiceForChannel } from './amazon.service.js';
+export type { AmazonRegion } from './amazon.service.js';
+export { EbayService, EBAY_ENDPOINTS, isEbayEndpoint, createEbayServiceForChannel } from './ebay.service.js';
+export type { EbayEnvironment } from './ebay.service.js';
+export { FileChannelService, createFileChannelServiceForChannel } from './file-channel.service.js';
+export { FileChannelSyncService } from './file-channel-sync.service.js';
+export { JTLService, createJTLServiceForClient } from './jtl.service.js';
 export { SyncOrchestrator } from './sync-orchestrator.js';
 export { SyncScheduler } from './sync-scheduler.js';
 export { ClientOnboardingService } from './client-onboarding.service.js';
@@ -23,6 +23,9 @@ import { SyncOrchestrator } from './sync-orchestrator.js';
 import { ProductSyncService } from './product-sync.service.js';
 import { StockSyncService } from './stock-sync.service.js';
 import { getEncryptionService } from '../encryption.service.js';
+import { getAmazonCredentialsForChannel } from './amazon.service.js';
+import { getEbayCredentialsForChannel } from './ebay.service.js';
+import type { AmazonCredentials, EbayCredentials } from './types.js';
 
 // ============= TYPES =============
 
@@ -535,6 +538,8 @@ export class InitialSyncPipelineService {
       channelType: ChannelType;
       shopifyCredentials?: { shopDomain: string; accessToken: string };
       wooCommerceCredentials?: { url: string; consumerKey: string; consumerSecret: string };
+      amazonCredentials?: AmazonCredentials;
+      ebayCredentials?: EbayCredentials;
       jtlCredentials: {
         clientId: string;
         clientSecret: string;
@@ -570,6 +575,18 @@ export class InitialSyncPipelineService {
         consumerKey: channel.apiClientId,
         consumerSecret: encryptionService.safeDecrypt(channel.apiClientSecret),
       };
+    } else if (channel.type === 'AMAZON') {
+      const amazonCredentials = getAmazonCredentialsForChannel(channel);
+      if (!amazonCredentials) {
+        return { success: false, error: 'Invalid channel credentials' };
+      }
+      orchestratorConfig.amazonCredentials = amazonCredentials;
+    } else if (channel.type === 'EBAY') {
+      const ebayCredentials = getEbayCredentialsForChannel(channel);
+      if (!ebayCredentials) {
+        return { success: false, error: 'Invalid channel credentials' };
+      }
+      orchestratorConfig.ebayCredentials = ebayCredentials;
     } else {
       return { success: false, error: 'Invalid channel credentials' };
     }
@@ -730,6 +747,8 @@ export class InitialSyncPipelineService {
       channelType: ChannelType;
       shopifyCredentials?: { shopDomain: string; accessToken: string };
       wooCommerceCredentials?: { url: string; consumerKey: string; consumerSecret: string };
+      amazonCredentials?: AmazonCredentials;
+      ebayCredentials?: EbayCredentials;
       jtlCredentials: {
         clientId: string;
         clientSecret: string;
@@ -765,6 +784,10 @@ export class InitialSyncPipelineService {
         consumerKey: channel.apiClientId,
         consumerSecret: encryptionService.safeDecrypt(channel.apiClientSecret),
       };
+    } else if (channel.type === 'AMAZON') {
+      orchestratorConfig.amazonCredentials = getAmazonCredentialsForChannel(channel) || undefined;
+    } else if (channel.type === 'EBAY') {
+      orchestratorConfig.ebayCredentials = getEbayCredentialsForChannel(channel) || undefined;
     }
 
     const orchestrator = new SyncOrchestrator(this.prisma, orchestratorConfig);
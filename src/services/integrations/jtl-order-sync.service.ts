@@ -18,6 +18,10 @@ import { getEncryptionService } from '../encryption.service.js';
 import { SyncLogger } from '../../utils/sync-logger.js';
 import { createShopifyServiceAuto } from './shopify-service-factory.js';
 import { WooCommerceService } from './woocommerce.service.js';
+import { merchantWebhookService } from '../merchant-webhook.service.js';
+import { orderRuleService, ORDER_RULE_HOLD_REASON } from '../order-rule.service.js';
+import { backorderService, BACKORDER_HOLD_REASON } from '../backorder.service.js';
+import { warehouseService } from '../warehouse.service.js';
 
 // ============= TYPES =============
 
@@ -116,6 +120,11 @@ export class JTLOrderSyncService {
                 return { success: true };
             }
 
+            // Merged orders ship with the outbound of the order they were merged into
+            if (order.mergedIntoOrderId) {
+                return { success: true };
+            }
+
             // Don't auto-sync replacement orders — they must be pushed manually via "Sync to JTL" button
             if (order.isReplacement && !options?.force) {
                 this.syncLogger.getLogger().info({
@@ -157,6 +166,26 @@ export class JTLOrderSyncService {
                     return { success: false, error: `Order ${order.orderNumber || orderId} is on payment hold (AWAITING_PAYMENT) — cannot sync to FFN` };
                 }
 
+                if (order.isOnHold && order.holdReason === ORDER_RULE_HOLD_REASON) {
+                    this.syncLogger.getLogger().warn({
+                        event: 'ffn_sync_blocked_rule_hold',
+                        orderId,
+                        orderNumber: order.orderNumber,
+                        holdNotes: order.holdNotes,
+                    });
+                    return { success: false, error: `Order ${order.orderNumber || orderId} is on hold by an order rule — release it to sync to FFN` };
+                }
+
+                if (order.isOnHold && order.holdReason === BACKORDER_HOLD_REASON) {
+                    this.syncLogger.getLogger().info({
+                        event: 'ffn_sync_blocked_backorder',
+                        orderId,
+                        orderNumber: order.orderNumber,
+                        holdNotes: order.holdNotes,
+                    });
+                    return { success: false, error: `Order ${order.orderNumber || orderId} is a backorder — it syncs to FFN once its items are in stock` };
+                }
+
                 const paymentStatus = (order.paymentStatus || '').toLowerCase();
                 if (!paymentStatus || !FFN_ALLOWED_PAYMENT_STATUSES.includes(paymentStatus)) {
                     if (order.paymentHoldOverride) {
@@ -199,7 +228,7 @@ export class JTLOrderSyncService {
             }
 
             // Check if order already exists in FFN (might have been pushed before with different orderId format)
-            const merchantOutboundNumber = order.orderNumber || order.orderId;
+            const merchantOutboundNumber = this.getMerchantOutboundNumber(order);
             const existingOutbound = await jtlService.getOutboundByMerchantNumber(merchantOutboundNumber);
             if (existingOutbound) {
                 // Link existing FFN outbound to local order
@@ -223,8 +252,21 @@ export class JTLOrderSyncService {
                 return { success: true, outboundId: existingOutbound.outboundId };
             }
 
-            // Only create if not found in FFN
-            const outbound = this.transformOrderToOutbound(order, jtlConfig);
+            // Park the order instead when the client uses backorders and the stock does not cover it
+            if (!options?.force) {
+                const backorder = await backorderService.checkBeforePush(orderId);
+                if (!backorder.push) {
+                    return { success: false, error: backorder.message };
+                }
+                // The missing units were split off - push again with the items left on the order
+                if (backorder.split) {
+                    return this.syncOrderToFFN(orderId, options);
+                }
+            }
+
+            // Only create if not found in FFN, against the warehouse the order is routed to
+            const warehouse = await warehouseService.resolveOutboundWarehouse(orderId, jtlConfig);
+            const outbound = this.transformOrderToOutbound(order, warehouse);
             const hasBOMItems = order.items.some((item: any) => item.product?.isBundle);
             const result = await jtlService.createOutbound(outbound, {
                 oversale: true,
@@ -401,8 +443,9 @@ export class JTLOrderSyncService {
                 return { success: false, error: 'JTL not configured for this client' };
             }
 
-            // Create outbound with only the split items
-            const outbound = this.transformOrderToOutbound(order, jtlConfig, items);
+            // Create outbound with only the split items (split orders are routed on their own)
+            const warehouse = await warehouseService.resolveOutboundWarehouse(splitOrderId, jtlConfig);
+            const outbound = this.transformOrderToOutbound(order, warehouse, items);
             const hasBOMItems = order.items.some((item: any) => item.product?.isBundle);
             const result = await jtlService.createOutbound(outbound, {
                 oversale: true,
@@ -600,6 +643,10 @@ export class JTLOrderSyncService {
                         });
                     }
 
+                    if (newState === 'SHIPPED') {
+                        await merchantWebhookService.emitOrderEvent(order.id, 'order.shipped');
+                    }
+
                     // If shipped, sync tracking to commerce platform
                     if (newState === 'SHIPPED' && trackingNumber && order.channel) {
                         await this.queueCommerceTrackingSync(order.id, trackingNumber);
@@ -865,7 +912,7 @@ export class JTLOrderSyncService {
         const lastname = nameParts.slice(1).join(' ') || firstname;
 
         return {
-            merchantOutboundNumber: order.orderNumber || order.orderId,
+            merchantOutboundNumber: this.getMerchantOutboundNumber(order),
             warehouseId: jtlConfig.warehouseId,
             fulfillerId: jtlConfig.fulfillerId,
             currency: order.currency || 'EUR',
@@ -901,6 +948,17 @@ export class JTLOrderSyncService {
         };
     }
 
+    /**
+     * Merchant outbound number for an order. Re-created outbounds (after a split or merge) get a
+     * revision suffix, because FFN keeps the cancelled outbound under the original number.
+     */
+    private getMerchantOutboundNumber(order: Pick<Order, 'orderNumber' | 'orderId' | 'ffnOutboundRevision'>): string {
+        const merchantOutboundNumber = order.orderNumber || order.orderId;
+        return order.ffnOutboundRevision > 0
+            ? `${merchantOutboundNumber}-R${order.ffnOutboundRevision}`
+            : merchantOutboundNumber;
+    }
+
     /**
      * Map FFN status to FulfillmentState
      */
@@ -1192,6 +1250,7 @@ export class JTLOrderSyncService {
             where: {
                 clientId: channel.clientId,
                 externalOrderId: externalOrderId,
+                isSplitOrder: false,
             },
         });
 
@@ -1246,6 +1305,18 @@ export class JTLOrderSyncService {
                 return;
             }
 
+            // Apply the client's order rules before the first push
+            const ruleResult = await orderRuleService.applyRules(newOrder.id);
+            if (ruleResult.held) {
+                this.syncLogger.getLogger().info({
+                    event: 'reconciliation_skipped_rule_hold',
+                    orderId: newOrder.id,
+                    orderNumber: newOrder.orderNumber,
+                    rules: ruleResult.fired,
+                });
+                return;
+            }
+
             const paymentOk = newOrder.paymentStatus &&
                 FFN_ALLOWED_PAYMENT_STATUSES.includes(newOrder.paymentStatus.toLowerCase());
 
@@ -16,6 +16,7 @@
 import { PrismaClient } from '@prisma/client';
 import { getEncryptionService } from '../encryption.service.js';
 import { Logger } from '../../utils/logger.js';
+import { assertNotDryRun } from '../../utils/dry-run.js';
 
 export interface TokenData {
   accessToken: string;
@@ -129,6 +130,9 @@ export class JTLTokenManager {
     credentials: RefreshCredentials,
     prisma: PrismaClient,
   ): Promise<TokenData> {
+    // The rotated refresh token could not be stored
+    assertNotDryRun('JTL FFN token refresh');
+
     const startTime = Date.now();
 
     this.logger.debug({
@@ -14,6 +14,7 @@ import {
   JTLOutbound,
   JTLProduct,
   JTLInbound,
+  JTLInboundItem,
   JTLReturn,
   SyncResult,
   SyncItemResult,
@@ -22,7 +23,11 @@ import { PrismaClient } from '@prisma/client';
 import { getEncryptionService } from '../encryption.service.js';
 import { Logger } from '../../utils/logger.js';
 import { generateJobId } from '../../utils/job-id.js';
+import { assertNotDryRun } from '../../utils/dry-run.js';
 import { JTLTokenManager } from './jtl-token-manager.js';
+import { ORDER_RULE_HOLD_REASON } from '../order-rule.service.js';
+import { backorderService, BACKORDER_HOLD_REASON } from '../backorder.service.js';
+import { warehouseService, OutboundWarehouse } from '../warehouse.service.js';
 
 interface JTLTokenResponse {
   access_token: string;
@@ -67,6 +72,38 @@ interface JTLUpdateItem<T = unknown> {
 }
 
 // Stock information from JTL FFN Products API
+// Stock of one lot (batch / best-before date) of a product
+export interface JTLStockBatch {
+  batch: string;
+  bestBefore?: string;
+  stockLevel: number;
+}
+
+// Shipped line of an outbound shipping notification
+export interface JTLShippingNotificationItem {
+  outboundItemId?: string;
+  jfsku?: string;
+  merchantSku?: string;
+  quantity: number;
+  batch?: string;
+  bestBefore?: string;
+  serialNumbers?: string[];
+}
+
+/**
+ * Find the order line a shipped item belongs to. Depending on how the outbound was
+ * created, outboundItemId is the order item ID, the JFSKU or the SKU.
+ */
+export function matchShippingNotificationItem<T extends { id: string; sku: string | null; product?: { jtlProductId: string | null } | null }>(
+  orderItems: T[],
+  shippedItem: JTLShippingNotificationItem
+): T | undefined {
+  return orderItems.find(item => item.id === shippedItem.outboundItemId)
+    ?? orderItems.find(item => !!shippedItem.jfsku && item.product?.jtlProductId === shippedItem.jfsku)
+    ?? orderItems.find(item => !!shippedItem.merchantSku && item.sku === shippedItem.merchantSku)
+    ?? orderItems.find(item => !!item.sku && item.sku === shippedItem.outboundItemId);
+}
+
 interface JTLStockInfo {
   stockLevel: number;           // Available stock
   stockLevelAnnounced: number;  // Expected from inbounds
@@ -80,6 +117,7 @@ interface JTLStockInfo {
     stockLevelReserved: number;
     stockLevelBlocked: number;
   }[];
+  batches?: JTLStockBatch[];    // Only for products with batch / best-before tracking
 }
 
 // Product with stock information from GET /api/v1/merchant/products
@@ -122,6 +160,7 @@ interface JTLStockItem {
     stockLevelReserved: number;
     stockLevelBlocked: number;
   }[];
+  batches?: JTLStockBatch[];    // Only for products with batch / best-before tracking
 }
 
 // Response format from GET /api/v1/merchant/stocks
@@ -241,6 +280,8 @@ export class JTLService {
     if (!this.credentials.refreshToken) {
       throw new Error('No refresh token available');
     }
+    // The rotated refresh token could not be stored
+    assertNotDryRun('JTL FFN token refresh');
 
     // JTL requires Basic Authentication (client_id:client_secret encoded in Base64)
     const authString = `${this.credentials.clientId}:${this.credentials.clientSecret}`;
@@ -359,6 +400,7 @@ export class JTLService {
 
     const url = `${this.baseUrl}${endpoint}`;
     const method = options.method || 'GET';
+    if (method !== 'GET') assertNotDryRun(`JTL FFN ${method} ${endpoint}`);
 
     const response = await fetch(url, {
       ...options,
@@ -940,6 +982,8 @@ export class JTLService {
         stockLevelReserved: stockItem.stockLevelReserved || 0,
         stockLevelAnnounced: stockItem.stockLevelAnnounced || 0,
         stockLevelBlocked: stockItem.stockLevelBlocked || 0,
+        warehouses: stockItem.warehouses,
+        batches: stockItem.batches,
       },
     }));
   }
@@ -1068,6 +1112,29 @@ export class JTLService {
     return response.inbounds || [];
   }
 
+  /**
+   * Update an inbound's items before the warehouse receives it
+   *
+   * The item list replaces the announced items.
+   */
+  async updateInbound(inboundId: string, updateData: {
+    items?: JTLInboundItem[];
+    estimatedArrival?: string;
+    externalInboundNumber?: string;
+  }): Promise<{ success: boolean; error?: string }> {
+    try {
+      await this.request(`/v1/merchant/inbounds/${inboundId}`, {
+        method: 'PATCH',
+        body: JSON.stringify(updateData),
+      });
+      console.log(`[JTL] Updated inbound ${inboundId}`);
+      return { success: true };
+    } catch (error: any) {
+      console.error(`[JTL] Failed to update inbound ${inboundId}:`, error);
+      return { success: false, error: error.message };
+    }
+  }
+
   /**
    * Cancel an inbound
    */
@@ -1631,6 +1698,7 @@ export class JTLService {
   async getShippingNotifications(outboundId: string): Promise<{
     success: boolean;
     data?: {
+      items: JTLShippingNotificationItem[];
       packages: Array<{
         freightOption: string;
         estimatedDeliveryDate?: string;
@@ -1655,7 +1723,7 @@ export class JTLService {
         outboundShippingNotificationId?: string;
         outboundStatus?: string;
         note?: string;
-        items?: Array<any>;
+        items?: JTLShippingNotificationItem[];
         packages?: Array<{
           freightOption: string;
           estimatedDeliveryDate?: string;
@@ -1682,11 +1750,14 @@ export class JTLService {
       const packages = notifications.flatMap(notification => notification.packages || []);
       console.log(`[JTL] Total packages extracted: ${packages.length}`);
 
-      return { success: true, data: { packages } };
+      // Shipped lines carry the lots and serial numbers that left the warehouse
+      const items = notifications.flatMap(notification => notification.items || []);
+
+      return { success: true, data: { items, packages } };
     } catch (error: any) {
       // 404 means no shipping notification yet (not shipped)
       if (error.message?.includes('404') || error.message?.includes('Not Found')) {
-        return { success: true, data: { packages: [] } };
+        return { success: true, data: { items: [], packages: [] } };
       }
       console.error(`[JTL] Failed to get shipping notifications for ${outboundId}:`, error);
       return { success: false, error: error.message };
@@ -1904,6 +1975,16 @@ export class JTLService {
           return { success: false, error: `Order ${orderId} is on payment hold — cannot sync to FFN` };
         }
 
+        if (order.isOnHold && order.holdReason === ORDER_RULE_HOLD_REASON) {
+          console.log(`[JTL] Blocking order ${orderId} — on hold by an order rule`);
+          return { success: false, error: `Order ${orderId} is on hold by an order rule — cannot sync to FFN` };
+        }
+
+        if (order.isOnHold && order.holdReason === BACKORDER_HOLD_REASON) {
+          console.log(`[JTL] Blocking order ${orderId} — backorder waiting for stock`);
+          return { success: false, error: `Order ${orderId} is a backorder — cannot sync to FFN until its items are in stock` };
+        }
+
         const paymentStatus = (order.paymentStatus || '').toLowerCase();
         if (!paymentStatus || !FFN_ALLOWED_PAYMENT_STATUSES.includes(paymentStatus)) {
           if (order.paymentHoldOverride) {
@@ -1967,8 +2048,22 @@ export class JTLService {
         };
       }
 
-      // Transform order to JTL outbound format
-      const outbound = this.transformOrderToOutbound(order);
+      // Park the order instead when the client uses backorders and the stock does not cover it
+      if (!options?.force) {
+        const backorder = await backorderService.checkBeforePush(orderId);
+        if (!backorder.push) {
+          console.log(`[JTL] Not creating outbound for order ${orderId} — ${backorder.message}`);
+          return { success: false, error: backorder.message };
+        }
+        // The missing units were split off - push again with the items left on the order
+        if (backorder.split) {
+          return this.syncOrderToFfn(orderId, prisma, options);
+        }
+      }
+
+      // Transform order to JTL outbound format, against the warehouse the order is routed to
+      const warehouse = await warehouseService.resolveOutboundWarehouse(orderId, this.getDefaultWarehouse());
+      const outbound = this.transformOrderToOutbound(order, undefined, warehouse);
 
       // Check if any items are BOM products (bundles)
       const hasBOMItems = order.items.some((item: any) => item.product?.isBundle);
@@ -2221,7 +2316,8 @@ export class JTLService {
       }
 
       // Transform order to outbound with only the specified items
-      const outbound = this.transformOrderToOutbound(order, items);
+      const warehouse = await warehouseService.resolveOutboundWarehouse(splitOrderId, this.getDefaultWarehouse());
+      const outbound = this.transformOrderToOutbound(order, items, warehouse);
 
       // Create outbound in JTL-FFN
       const result = await this.createOutbound(outbound);
@@ -2259,6 +2355,17 @@ export class JTLService {
     }
   }
 
+  /**
+   * Warehouse from the credentials, used for orders not routed elsewhere
+   * @private
+   */
+  private getDefaultWarehouse(): OutboundWarehouse {
+    return {
+      warehouseId: this.credentials.warehouseId || '',
+      fulfillerId: this.credentials.fulfillerId || '',
+    };
+  }
+
   /**
    * Transform order to JTL outbound format
    * 
@@ -2266,11 +2373,13 @@ export class JTLService {
    * If we have a resolved jtlShippingMethodId, use that (more precise).
    * Otherwise fall back to carrier selection or generic shipping method.
    * 
+   * @param warehouse - Warehouse the order is routed to (defaults to the configured warehouse)
    * @private
    */
   private transformOrderToOutbound(
     order: any,
-    filterItems?: Array<{ sku: string; quantity: number }>
+    filterItems?: Array<{ sku: string; quantity: number }>,
+    warehouse: OutboundWarehouse = this.getDefaultWarehouse()
   ): JTLOutbound {
     let items = order.items || [];
 
@@ -2295,8 +2404,8 @@ export class JTLService {
 
     return {
       merchantOutboundNumber: order.orderNumber || order.orderId,
-      warehouseId: this.credentials.warehouseId,
-      fulfillerId: this.credentials.fulfillerId,
+      warehouseId: warehouse.warehouseId || undefined,
+      fulfillerId: warehouse.fulfillerId || undefined,
       currency: order.currency || 'EUR',
       customerOrderNumber: order.orderNumber || order.orderId,
       orderDate: order.orderDate?.toISOString() || new Date().toISOString(),
@@ -2332,4 +2441,36 @@ export class JTLService {
   }
 }
 
+/**
+ * Create a JTLService from a client's stored (encrypted) FFN configuration.
+ * Returns null when the client has no connected FFN account or the configuration cannot be read.
+ */
+export async function createJTLServiceForClient(prisma: PrismaClient, clientId: string): Promise<JTLService | null> {
+  try {
+    const jtlConfig = await prisma.jtlConfig.findUnique({
+      where: { clientId_fk: clientId },
+    });
+
+    if (!jtlConfig || !jtlConfig.accessToken) {
+      return null;
+    }
+
+    const encryptionService = getEncryptionService();
+
+    return new JTLService({
+      clientId: jtlConfig.clientId,
+      clientSecret: encryptionService.decrypt(jtlConfig.clientSecret),
+      environment: (jtlConfig.environment || 'sandbox') as 'sandbox' | 'production',
+      accessToken: encryptionService.decrypt(jtlConfig.accessToken),
+      refreshToken: jtlConfig.refreshToken ? encryptionService.decrypt(jtlConfig.refreshToken) : undefined,
+      tokenExpiresAt: jtlConfig.tokenExpiresAt || undefined,
+      warehouseId: jtlConfig.warehouseId,
+      fulfillerId: jtlConfig.fulfillerId,
+    }, prisma, clientId);
+  } catch (error) {
+    console.error(`[JTL] Failed to create JTL service for client ${clientId}:`, error);
+    return null;
+  }
+}
+
 export default JTLService;
@@ -0,0 +1,144 @@
+/**
+ * Marketplace HTTP Utility
+ * Shared plumbing for the OAuth-based marketplace APIs (Amazon SP-API, eBay Sell APIs):
+ * access token caching, authenticated requests with rate limit retries, carrier code
+ * mapping and decrypting the stored channel credentials
+ */
+
+import { getEncryptionService } from '../encryption.service.js';
+
+const MAX_RATE_LIMIT_RETRIES = 3;
+const TOKEN_EXPIRY_MARGIN_MS = 60_000;
+
+export interface MarketplaceChannelFields {
+  apiUrl?: string | null;
+  apiClientId?: string | null;
+  apiClientSecret?: string | null;
+  refreshToken?: string | null;
+  marketplaceId?: string | null;
+}
+
+export interface MarketplaceOAuthCredentials {
+  clientId: string;
+  clientSecret: string;
+  refreshToken: string;
+  marketplaceId: string;
+  endpoint?: string;
+}
+
+/**
+ * Caches an access token until shortly before it expires
+ */
+export class AccessTokenCache {
+  private token?: { value: string; expiresAt: number };
+
+  /**
+   * @param errorLabel Prefix of the error thrown when the token request fails
+   * @param requestToken Sends the token request (e.g. a refresh token grant)
+   */
+  constructor(
+    private readonly errorLabel: string,
+    private readonly requestToken: () => Promise<Response>
+  ) {}
+
+  async get(): Promise<string> {
+    if (this.token && this.token.expiresAt > Date.now() + TOKEN_EXPIRY_MARGIN_MS) {
+      return this.token.value;
+    }
+
+    const response = await this.requestToken();
+    if (!response.ok) {
+      const error = await response.text();
+      throw new Error(`${this.errorLabel}: ${response.status} - ${error}`);
+    }
+
+    const token = await response.json() as { access_token: string; expires_in: number };
+    this.token = {
+      value: token.access_token,
+      expiresAt: Date.now() + token.expires_in * 1000,
+    };
+    return token.access_token;
+  }
+}
+
+/**
+ * Make an authenticated request. Throttled requests (429) are retried with backoff;
+ * responses without a body resolve to undefined.
+ */
+export async function marketplaceRequest<T>(request: {
+  baseUrl: string;
+  path: string;
+  options?: RequestInit;
+  params?: Record<string, string | undefined>;
+  authHeaders: () => Promise<Record<string, string>>;
+  errorLabel: string;
+}): Promise<T> {
+  const { options = {}, params = {} } = request;
+
+  const query = new URLSearchParams();
+  Object.entries(params).forEach(([key, value]) => {
+    if (value !== undefined) query.set(key, value);
+  });
+  const url = `${request.baseUrl}${request.path}${query.size > 0 ? `?${query.toString()}` : ''}`;
+
+  for (let attempt = 0; ; attempt++) {
+    const response = await fetch(url, {
+      ...options,
+      headers: {
+        'Content-Type': 'application/json',
+        ...await request.authHeaders(),
+        ...options.headers,
+      },
+    });
+
+    if (response.status === 429 && attempt < MAX_RATE_LIMIT_RETRIES) {
+      await new Promise(resolve => setTimeout(resolve, 1000 * 2 ** attempt));
+      continue;
+    }
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new Error(`${request.errorLabel}: ${response.status} - ${error}`);
+    }
+
+    const body = await response.text();
+    return (body ? JSON.parse(body) : undefined) as T;
+  }
+}
+
+/**
+ * Whether a URL is one of a marketplace's API endpoints (a trailing slash is ignored)
+ */
+export const isKnownEndpoint = (endpoints: Record<string, string>, url: unknown): boolean =>
+  Object.values(endpoints).some(endpoint => endpoint === String(url).replace(/\/$/, ''));
+
+/**
+ * Map a carrier name to a marketplace carrier code ("Other" when unknown)
+ * @param codes Carrier codes by lower case carrier name
+ */
+export function toCarrierCode(codes: Record<string, string>, carrier?: string | null): string {
+  if (!carrier) return 'Other';
+  const normalized = carrier.trim().toLowerCase();
+  return codes[normalized]
+    || Object.entries(codes).find(([name]) => normalized.startsWith(name))?.[1]
+    || 'Other';
+}
+
+/**
+ * Decrypt a channel's stored OAuth credentials.
+ * Returns null when the channel is missing any of them.
+ */
+export function getOAuthCredentialsForChannel(channel: MarketplaceChannelFields): MarketplaceOAuthCredentials | null {
+  if (!channel.apiClientId || !channel.apiClientSecret || !channel.refreshToken || !channel.marketplaceId) {
+    return null;
+  }
+
+  const encryptionService = getEncryptionService();
+  return {
+    clientId: channel.apiClientId,
+    clientSecret: encryptionService.safeDecrypt(channel.apiClientSecret),
+    refreshToken: encryptionService.safeDecrypt(channel.refreshToken),
+    marketplaceId: channel.marketplaceId,
+    endpoint: channel.apiUrl || undefined,
+  };
+}
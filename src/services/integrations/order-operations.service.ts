@@ -7,6 +7,7 @@
  * - Order prioritization
  * - Replacement orders
  * - Order holds
+ * - Order splits and merges (FFN outbounds are cancelled and re-created)
  *
  * Key principle: Commercial truth = Shopify, Operational truth = No-Limits
  */
@@ -20,6 +21,8 @@ import {
     Prisma,
 } from '@prisma/client';
 import { Logger } from '../../utils/logger.js';
+import { merchantWebhookService } from '../merchant-webhook.service.js';
+import { JTLOrderSyncService } from './jtl-order-sync.service.js';
 
 // ============= TYPES =============
 
@@ -79,6 +82,25 @@ export interface OrderHoldData {
     holdBy: string;
 }
 
+export interface OrderSplitRequest {
+    orderId: string;
+    items: Array<{
+        sku: string;
+        quantity: number;
+    }>;
+    reason?: string;
+    splitBy: string; // User ID
+    clientId?: string; // When set, the order must belong to this client
+}
+
+export interface OrderMergeRequest {
+    orderIds: string[];
+    targetOrderId?: string; // Defaults to the oldest order
+    reason?: string;
+    mergedBy: string; // User ID
+    clientId?: string; // When set, all orders must belong to this client
+}
+
 export interface OperationResult {
     success: boolean;
     orderId?: string;
@@ -87,12 +109,22 @@ export interface OperationResult {
     details?: Record<string, unknown>;
 }
 
+// Outbounds can only be cancelled in FFN before picking starts
+const RESTRUCTURABLE_STATES: FulfillmentState[] = ['PENDING', 'PREPARATION', 'ACKNOWLEDGED'];
+
+type OrderWithItems = Prisma.OrderGetPayload<{
+    include: { items: true; _count: { select: { splitOrders: true; mergedOrders: true } } };
+}>;
+
 // ============= SERVICE =============
 
 export class OrderOperationsService {
     private logger = new Logger('OrderOps');
+    private jtlOrderSyncService: JTLOrderSyncService;
 
-    constructor(private prisma: PrismaClient) { }
+    constructor(private prisma: PrismaClient) {
+        this.jtlOrderSyncService = new JTLOrderSyncService(prisma);
+    }
 
     /**
      * Correct shipping address before fulfillment
@@ -488,6 +520,8 @@ export class OrderOperationsService {
 
             console.log(`[OrderOps] Order ${data.orderId} put on hold`);
 
+            await merchantWebhookService.emitOrderEvent(data.orderId, 'order.on_hold');
+
             return {
                 success: true,
                 orderId: data.orderId,
@@ -577,8 +611,596 @@ export class OrderOperationsService {
         }
     }
 
+    // ============= SPLIT & MERGE =============
+
+    /**
+     * Split items off an order into a new split order
+     *
+     * The requested quantities move to the split order, the rest stays on the original.
+     * If the original is already in FFN, its outbound is cancelled and both orders are
+     * pushed as new outbounds. Commercial totals stay on the original order; on Shopify
+     * each part only fulfills its own items when it ships.
+     */
+    async splitOrder(data: OrderSplitRequest): Promise<OperationResult> {
+        try {
+            const order = await this.findOrderWithItems(data.orderId);
+
+            if (!order || (data.clientId && order.clientId !== data.clientId)) {
+                throw new Error(`Order ${data.orderId} not found`);
+            }
+
+            this.assertRestructurable(order);
+            if (order._count.mergedOrders > 0) {
+                throw new Error('Cannot split an order that contains merged orders');
+            }
+
+            // Sum requested quantities per SKU
+            const requested = new Map<string, number>();
+            for (const item of data.items || []) {
+                if (!item.sku || !Number.isInteger(item.quantity) || item.quantity <= 0) {
+                    throw new Error('Each split item needs a SKU and a positive whole quantity');
+                }
+                requested.set(item.sku, (requested.get(item.sku) || 0) + item.quantity);
+            }
+
+            if (requested.size === 0) {
+                throw new Error('No items to split');
+            }
+
+            for (const [sku, quantity] of requested) {
+                const available = order.items
+                    .filter((item) => item.sku === sku)
+                    .reduce((sum, item) => sum + item.quantity, 0);
+                if (quantity > available) {
+                    throw new Error(`Cannot split ${quantity} x ${sku} - order only contains ${available}`);
+                }
+            }
+
+            const totalQuantity = order.items.reduce((sum, item) => sum + item.quantity, 0);
+            const splitQuantity = [...requested.values()].reduce((sum, quantity) => sum + quantity, 0);
+            if (splitQuantity >= totalQuantity) {
+                throw new Error('At least one item must remain on the original order');
+            }
+
+            const cancelledOutbounds = await this.cancelOutbounds(
+                [order],
+                `Order split${data.reason ? `: ${data.reason}` : ''}`
+            );
+
+            const splitNumber = order._count.splitOrders + 1;
+            const splitOrderNumber = `${order.orderNumber || order.orderId}-S${splitNumber}`;
+
+            let splitOrderId: string;
+            try {
+                splitOrderId = await this.prisma.$transaction(async (tx) => {
+                    // Take the requested quantities off the original order's items
+                    const movedItems: Prisma.OrderItemUncheckedCreateWithoutOrderInput[] = [];
+                    for (const [sku, quantity] of requested) {
+                        let remaining = quantity;
+                        for (const item of order.items.filter((orderItem) => orderItem.sku === sku)) {
+                            if (remaining === 0) break;
+                            const moved = Math.min(item.quantity, remaining);
+                            remaining -= moved;
+
+                            if (moved === item.quantity) {
+                                await tx.orderItem.delete({ where: { id: item.id } });
+                            } else {
+                                await tx.orderItem.update({
+                                    where: { id: item.id },
+                                    data: {
+                                        quantity: item.quantity - moved,
+                                        totalPrice: item.unitPrice ? item.unitPrice.mul(item.quantity - moved) : item.totalPrice,
+                                    },
+                                });
+                            }
+
+                            movedItems.push({
+                                sku: item.sku,
+                                productName: item.productName,
+                                quantity: moved,
+                                unitPrice: item.unitPrice,
+                                totalPrice: item.unitPrice ? item.unitPrice.mul(moved) : undefined,
+                                weightInKg: item.weightInKg,
+                                productId: item.productId,
+                            });
+                        }
+                    }
+
+                    const splitOrder = await tx.order.create({
+                        data: {
+                            orderId: `${order.orderId}-S${splitNumber}`,
+                            orderNumber: splitOrderNumber,
+                            externalOrderId: order.externalOrderId,
+
+                            // Origin tracking
+                            orderOrigin: order.orderOrigin,
+                            orderState: order.orderState,
+                            status: order.status,
+                            fulfillmentState: 'PENDING',
+                            lastOperationalUpdateBy: 'NOLIMITS',
+                            lastOperationalUpdateAt: new Date(),
+                            orderDate: order.orderDate,
+
+                            // Mark as split
+                            isSplitOrder: true,
+                            splitFromOrderId: order.id,
+
+                            // Commercial totals stay on the original order
+                            currency: order.currency,
+                            paymentStatus: order.paymentStatus,
+                            paymentMethod: order.paymentMethod,
+                            paymentHoldOverride: order.paymentHoldOverride,
+                            isOnHold: order.isOnHold,
+                            holdReason: order.holdReason,
+
+                            // Customer info
+                            customerName: order.customerName,
+                            customerEmail: order.customerEmail,
+                            customerPhone: order.customerPhone,
+
+                            // Shipping address
+                            shippingFirstName: order.shippingFirstName,
+                            shippingLastName: order.shippingLastName,
+                            shippingCompany: order.shippingCompany,
+                            shippingAddress1: order.shippingAddress1,
+                            shippingAddress2: order.shippingAddress2,
+                            shippingCity: order.shippingCity,
+                            shippingZip: order.shippingZip,
+                            shippingCountry: order.shippingCountry,
+                            shippingCountryCode: order.shippingCountryCode,
+
+                            // Billing
+                            billingFirstName: order.billingFirstName,
+                            billingLastName: order.billingLastName,
+                            billingCompany: order.billingCompany,
+                            billingAddress1: order.billingAddress1,
+                            billingAddress2: order.billingAddress2,
+                            billingCity: order.billingCity,
+                            billingZip: order.billingZip,
+                            billingCountry: order.billingCountry,
+
+                            // Shipping and operational settings
+                            shippingMethod: order.shippingMethod,
+                            shippingMethodCode: order.shippingMethodCode,
+                            jtlShippingMethodId: order.jtlShippingMethodId,
+                            carrierSelection: order.carrierSelection,
+                            carrierServiceLevel: order.carrierServiceLevel,
+                            priorityLevel: order.priorityLevel,
+                            pickingInstructions: order.pickingInstructions,
+                            packingInstructions: order.packingInstructions,
+
+                            notes: order.notes,
+                            warehouseNotes: `Split from ${order.orderNumber || order.orderId}${data.reason ? `. Reason: ${data.reason}` : ''}`,
+                            tags: order.tags,
+                            syncStatus: 'PENDING',
+                            totalQuantity: splitQuantity,
+
+                            // Relations
+                            clientId: order.clientId,
+                            channelId: order.channelId,
+
+                            items: { create: movedItems },
+                        },
+                    });
+
+                    await tx.order.update({
+                        where: { id: order.id },
+                        data: {
+                            totalQuantity: totalQuantity - splitQuantity,
+                            warehouseNotes: `${order.warehouseNotes || ''}\n[Split] ${splitQuantity} item(s) moved to ${splitOrderNumber}`.trim(),
+                            lastOperationalUpdateBy: 'NOLIMITS',
+                            lastOperationalUpdateAt: new Date(),
+                        },
+                    });
+
+                    await tx.orderSyncLog.createMany({
+                        data: [
+                            {
+                                orderId: order.id,
+                                action: 'split',
+                                origin: 'NOLIMITS',
+                                targetPlatform: 'nolimits',
+                                success: true,
+                                changedFields: ['items', 'totalQuantity'],
+                                previousState: { items: this.describeItems(order.items) },
+                                newState: {
+                                    splitOrderId: splitOrder.id,
+                                    movedItems: this.describeItems(movedItems),
+                                    reason: data.reason,
+                                    splitBy: data.splitBy,
+                                },
+                            },
+                            {
+                                orderId: splitOrder.id,
+                                action: 'split',
+                                origin: 'NOLIMITS',
+                                targetPlatform: 'nolimits',
+                                success: true,
+                                changedFields: ['isSplitOrder', 'splitFromOrderId'],
+                                newState: {
+                                    isSplitOrder: true,
+                                    splitFromOrderId: order.id,
+                                    items: this.describeItems(movedItems),
+                                    reason: data.reason,
+                                },
+                            },
+                        ],
+                    });
+
+                    return splitOrder.id;
+                });
+            } catch (error) {
+                // Put the original outbound back so the order still ships
+                await this.pushToFFN(cancelledOutbounds, true);
+                throw error;
+            }
+
+            const ffn = await this.pushToFFN([order.id, splitOrderId], cancelledOutbounds.length > 0);
+
+            console.log(`[OrderOps] Split ${splitQuantity} item(s) of order ${order.id} into ${splitOrderId}`);
+
+            return {
+                success: true,
+                orderId: splitOrderId,
+                action: 'order_split',
+                details: {
+                    originalOrderId: order.id,
+                    splitOrderId,
+                    splitOrderNumber,
+                    items: Object.fromEntries(requested),
+                    reason: data.reason,
+                    ffn,
+                },
+            };
+        } catch (error: any) {
+            console.error(`[OrderOps] Order split failed:`, error);
+            return {
+                success: false,
+                orderId: data.orderId,
+                action: 'split_failed',
+                error: error.message,
+            };
+        }
+    }
+
+    /**
+     * Merge unshipped orders of the same customer and address into one shipment
+     *
+     * All items move to the target order, which is pushed to FFN as a single outbound.
+     * The other orders keep their commercial data and point to the target via
+     * mergedIntoOrderId; when the target ships, its tracking is synced to their channels.
+     */
+    async mergeOrders(data: OrderMergeRequest): Promise<OperationResult> {
+        try {
+            const orderIds = [...new Set(data.orderIds || [])];
+            if (orderIds.length < 2) {
+                throw new Error('At least two orders are required for a merge');
+            }
+
+            const orders = await this.prisma.order.findMany({
+                where: { id: { in: orderIds } },
+                include: {
+                    items: true,
+                    _count: { select: { splitOrders: true, mergedOrders: true } },
+                },
+                orderBy: { orderDate: 'asc' },
+            });
+
+            const missing = orderIds.filter((id) => !orders.some(
+                (order) => order.id === id && (!data.clientId || order.clientId === data.clientId)
+            ));
+            if (missing.length > 0) {
+                throw new Error(`Orders not found: ${missing.join(', ')}`);
+            }
+
+            const target = data.targetOrderId
+                ? orders.find((order) => order.id === data.targetOrderId)
+                : orders[0];
+            if (!target) {
+                throw new Error(`Target order ${data.targetOrderId} is not part of the merge`);
+            }
+            const sources = orders.filter((order) => order.id !== target.id);
+
+            const targetKey = this.customerAddressKey(target);
+            for (const order of orders) {
+                const label = order.orderNumber || order.orderId;
+                this.assertRestructurable(order);
+
+                if (order.clientId !== target.clientId) {
+                    throw new Error(`Order ${label} belongs to a different client`);
+                }
+                if (order.isOnHold) {
+                    throw new Error(`Order ${label} is on hold (${order.holdReason || 'no reason'}) - release it before merging`);
+                }
+                if (order.isSplitOrder || order._count.splitOrders > 0) {
+                    throw new Error(`Order ${label} is part of a split and cannot be merged`);
+                }
+                if (order.currency !== target.currency) {
+                    throw new Error(`Order ${label} uses ${order.currency}, target uses ${target.currency}`);
+                }
+                if (this.customerAddressKey(order) !== targetKey) {
+                    throw new Error(`Order ${label} has a different customer or shipping address`);
+                }
+                if (order.id !== target.id && order._count.mergedOrders > 0) {
+                    throw new Error(`Order ${label} already contains merged orders - use it as the target`);
+                }
+            }
+
+            const targetNumber = target.orderNumber || target.orderId;
+            const sourceNumbers = sources.map((order) => order.orderNumber || order.orderId);
+
+            const cancelledOutbounds = await this.cancelOutbounds(
+                orders,
+                `Merged into ${targetNumber}${data.reason ? `: ${data.reason}` : ''}`
+            );
+
+            try {
+                await this.prisma.$transaction(async (tx) => {
+                    const mergedAt = new Date();
+
+                    await tx.orderItem.updateMany({
+                        where: { orderId: { in: sources.map((order) => order.id) } },
+                        data: { orderId: target.id },
+                    });
+
+                    for (const source of sources) {
+                        await tx.order.update({
+                            where: { id: source.id },
+                            data: {
+                                mergedIntoOrderId: target.id,
+                                mergedAt,
+                                totalQuantity: 0,
+                                warehouseNotes: `${source.warehouseNotes || ''}\n[Merged] Ships with ${targetNumber}`.trim(),
+                                lastOperationalUpdateBy: 'NOLIMITS',
+                                lastOperationalUpdateAt: mergedAt,
+                            },
+                        });
+                    }
+
+                    await tx.order.update({
+                        where: { id: target.id },
+                        data: {
+                            totalQuantity: orders.reduce(
+                                (sum, order) => sum + order.items.reduce((itemSum, item) => itemSum + item.quantity, 0),
+                                0
+                            ),
+                            priorityLevel: Math.max(...orders.map((order) => order.priorityLevel)),
+                            warehouseNotes: `${target.warehouseNotes || ''}\n[Merged] Contains ${sourceNumbers.join(', ')}`.trim(),
+                            lastOperationalUpdateBy: 'NOLIMITS',
+                            lastOperationalUpdateAt: mergedAt,
+                        },
+                    });
+
+                    await tx.orderSyncLog.createMany({
+                        data: [
+                            {
+                                orderId: target.id,
+                                action: 'merge',
+                                origin: 'NOLIMITS',
+                                targetPlatform: 'nolimits',
+                                success: true,
+                                changedFields: ['items', 'totalQuantity', 'mergedOrders'],
+                                previousState: { items: this.describeItems(target.items) },
+                                newState: {
+                                    mergedOrderIds: sources.map((order) => order.id),
+                                    reason: data.reason,
+                                    mergedBy: data.mergedBy,
+                                },
+                            },
+                            ...sources.map((source) => ({
+                                orderId: source.id,
+                                action: 'merge',
+                                origin: 'NOLIMITS' as SyncOrigin,
+                                targetPlatform: 'nolimits',
+                                success: true,
+                                changedFields: ['items', 'totalQuantity', 'mergedIntoOrderId'],
+                                previousState: { items: this.describeItems(source.items) },
+                                newState: { mergedIntoOrderId: target.id, reason: data.reason },
+                            })),
+                        ],
+                    });
+                });
+            } catch (error) {
+                // Put the cancelled outbounds back so the orders still ship
+                await this.pushToFFN(cancelledOutbounds, true);
+                throw error;
+            }
+
+            const ffn = await this.pushToFFN([target.id], cancelledOutbounds.length > 0);
+
+            console.log(`[OrderOps] Merged orders ${sourceNumbers.join(', ')} into ${target.id}`);
+
+            return {
+                success: true,
+                orderId: target.id,
+                action: 'orders_merged',
+                details: {
+                    targetOrderId: target.id,
+                    mergedOrderIds: sources.map((order) => order.id),
+                    reason: data.reason,
+                    ffn,
+                },
+            };
+        } catch (error: any) {
+            console.error(`[OrderOps] Order merge failed:`, error);
+            return {
+                success: false,
+                orderId: data.targetOrderId,
+                action: 'merge_failed',
+                error: error.message,
+            };
+        }
+    }
+
+    /**
+     * Cancel the orders that ship on behalf of a cancelled order: its split parts and the
+     * orders merged into it. Called when the shop cancels the original order; split parts
+     * with an FFN outbound are cancelled in FFN too. Never throws.
+     * @returns Number of orders cancelled
+     */
+    async cancelLinkedOrders(orderId: string, cancelledBy: SyncOrigin, reason: string): Promise<number> {
+        try {
+            const linked = await this.prisma.order.findMany({
+                where: {
+                    OR: [{ splitFromOrderId: orderId }, { mergedIntoOrderId: orderId }],
+                    isCancelled: false,
+                },
+            });
+
+            for (const order of linked) {
+                if (order.jtlOutboundId) {
+                    const result = await this.jtlOrderSyncService.cancelOrderInFFN(order.id, reason);
+                    if (!result.success) {
+                        console.error(`[OrderOps] Failed to cancel FFN outbound of linked order ${order.id}: ${result.error}`);
+                    }
+                }
+
+                await this.prisma.order.update({
+                    where: { id: order.id },
+                    data: {
+                        status: 'CANCELLED',
+                        fulfillmentState: 'CANCELED',
+                        isCancelled: true,
+                        cancelledAt: new Date(),
+                        cancelledBy,
+                        cancellationReason: reason,
+                        isOnHold: false,
+                        holdReason: null,
+                        lastOperationalUpdateBy: cancelledBy,
+                        lastOperationalUpdateAt: new Date(),
+                    },
+                });
+
+                await this.prisma.orderSyncLog.create({
+                    data: {
+                        orderId: order.id,
+                        action: 'cancel',
+                        origin: cancelledBy,
+                        targetPlatform: 'nolimits',
+                        success: true,
+                        changedFields: ['isCancelled', 'cancelledAt', 'cancellationReason'],
+                        newState: { cancelledWithOrderId: orderId, reason },
+                    },
+                });
+            }
+
+            if (linked.length > 0) {
+                console.log(`[OrderOps] Cancelled ${linked.length} split/merged order(s) linked to cancelled order ${orderId}`);
+            }
+            return linked.length;
+        } catch (error) {
+            console.error(`[OrderOps] Failed to cancel orders linked to ${orderId}:`, error);
+            return 0;
+        }
+    }
+
     // ============= HELPER METHODS =============
 
+    private async findOrderWithItems(orderId: string): Promise<OrderWithItems | null> {
+        return this.prisma.order.findUnique({
+            where: { id: orderId },
+            include: {
+                items: true,
+                _count: { select: { splitOrders: true, mergedOrders: true } },
+            },
+        });
+    }
+
+    /**
+     * Splits and merges re-create FFN outbounds, which FFN only allows before picking
+     */
+    private assertRestructurable(order: Order): void {
+        const label = order.orderNumber || order.orderId;
+
+        if (order.isCancelled) {
+            throw new Error(`Order ${label} is cancelled`);
+        }
+        if (order.mergedIntoOrderId) {
+            throw new Error(`Order ${label} was merged into another order`);
+        }
+        if (!RESTRUCTURABLE_STATES.includes(order.fulfillmentState)) {
+            throw new Error(`Order ${label} is already ${order.fulfillmentState}`);
+        }
+    }
+
+    /**
+     * Cancel the FFN outbounds of the given orders and unlink them so they can be re-created.
+     * If one cancellation fails, the outbounds already cancelled are re-created before throwing.
+     * @returns IDs of the orders whose outbound was cancelled
+     */
+    private async cancelOutbounds(orders: Order[], reason: string): Promise<string[]> {
+        const cancelled: string[] = [];
+
+        for (const order of orders.filter((o) => o.jtlOutboundId)) {
+            const result = await this.jtlOrderSyncService.cancelOrderInFFN(order.id, reason);
+
+            if (!result.success) {
+                await this.pushToFFN(cancelled, true);
+                throw new Error(`Could not cancel FFN outbound of order ${order.orderNumber || order.orderId}: ${result.error}`);
+            }
+
+            // The revision gives the new outbound its own merchant outbound number
+            await this.prisma.order.update({
+                where: { id: order.id },
+                data: {
+                    jtlOutboundId: null,
+                    jtlFulfillmentId: null,
+                    ffnOutboundRevision: { increment: 1 },
+                    syncStatus: 'PENDING',
+                },
+            });
+            cancelled.push(order.id);
+        }
+
+        return cancelled;
+    }
+
+    /**
+     * Push orders to FFN. force skips the payment/replacement guards for orders that were
+     * already in FFN before their outbound was cancelled.
+     * @returns FFN outbound ID or error per order
+     */
+    private async pushToFFN(
+        orderIds: string[],
+        force: boolean
+    ): Promise<Record<string, { outboundId?: string; error?: string }>> {
+        const results: Record<string, { outboundId?: string; error?: string }> = {};
+
+        for (const orderId of orderIds) {
+            const result = await this.jtlOrderSyncService.syncOrderToFFN(orderId, { force });
+            results[orderId] = { outboundId: result.outboundId, error: result.error };
+
+            if (!result.success) {
+                console.error(`[OrderOps] Failed to push order ${orderId} to FFN: ${result.error}`);
+            }
+        }
+
+        return results;
+    }
+
+    /**
+     * Orders can only be merged when customer and shipping address match
+     */
+    private customerAddressKey(order: Order): string {
+        return [
+            order.customerEmail || order.customerName,
+            order.shippingFirstName,
+            order.shippingLastName,
+            order.shippingCompany,
+            order.shippingAddress1,
+            order.shippingAddress2,
+            order.shippingZip,
+            order.shippingCity,
+            order.shippingCountryCode || order.shippingCountry,
+        ]
+            .map((value) => (value || '').trim().toLowerCase().replace(/\s+/g, ' '))
+            .join('|');
+    }
+
+    private describeItems(items: Array<{ sku?: string | null; quantity: number }>): Prisma.InputJsonValue {
+        return items.map((item) => ({ sku: item.sku ?? null, quantity: item.quantity }));
+    }
+
     private async queueFFNAddressUpdate(orderId: string): Promise<void> {
         try {
             const { getQueue, QUEUE_NAMES } = await import('../queue/sync-queue.service.js');
@@ -618,4 +1240,31 @@ export class OrderOperationsService {
     }
 }
 
+/**
+ * Items a commerce fulfillment should cover for one part of a split order.
+ * Split parts share the commerce order, so each must only fulfill its own items.
+ * @returns undefined when the order is not split (the whole order ships at once)
+ */
+export async function getSplitFulfillmentItems(
+    prisma: PrismaClient,
+    orderId: string
+): Promise<Array<{ sku: string; quantity: number }> | undefined> {
+    const order = await prisma.order.findUnique({
+        where: { id: orderId },
+        select: {
+            isSplitOrder: true,
+            items: { select: { sku: true, quantity: true } },
+            _count: { select: { splitOrders: true } },
+        },
+    });
+
+    if (!order || (!order.isSplitOrder && order._count.splitOrders === 0)) {
+        return undefined;
+    }
+
+    return order.items
+        .filter((item) => item.sku)
+        .map((item) => ({ sku: item.sku!, quantity: item.quantity }));
+}
+
 export default OrderOperationsService;
@@ -21,16 +21,23 @@ import {
   OrderStatus,
   FulfillmentState,
   ChannelType,
+  Order,
   Prisma
 } from '@prisma/client';
 import { ShopifyService } from './shopify.service.js';
 import { WooCommerceService } from './woocommerce.service.js';
+import { createAmazonServiceForChannel } from './amazon.service.js';
+import { createEbayServiceForChannel } from './ebay.service.js';
+import { exportShipmentToFileChannel } from './file-channel.service.js';
 import { createShopifyServiceAuto, isGraphQLService } from './shopify-service-factory.js';
 import { ShopifyGraphQLService } from './shopify-graphql.service.js';
 import { getEncryptionService } from '../encryption.service.js';
 import { JTLService } from './jtl.service.js';
+import { OrderOperationsService, getSplitFulfillmentItems } from './order-operations.service.js';
 import ShippingMethodService from '../shipping-method.service.js';
 import { notificationService } from '../notification.service.js';
+import { InventoryAlertService } from '../inventory-alert.service.js';
+import { orderRuleService } from '../order-rule.service.js';
 import { SyncLogger } from '../../utils/sync-logger.js';
 
 /**
@@ -62,6 +69,12 @@ const SHOPIFY_PAID_STATUSES = ['paid', 'authorized', 'partially_paid'];
  */
 const WOOCOMMERCE_UNPAID_STATUSES = ['pending', 'on-hold'];
 
+/**
+ * Payment statuses in merchant order files that mean "not paid yet".
+ * Files usually only contain orders ready to ship, so orders without a status are not held.
+ */
+const FILE_UNPAID_STATUSES = ['pending', 'unpaid', 'open', 'awaiting_payment'];
+
 /**
  * Check if a Shopify order requires payment hold
  * Returns true if payment is NOT confirmed (should hold)
@@ -80,6 +93,14 @@ function shouldHoldWooCommerceOrderForPayment(orderStatus?: string): boolean {
   return WOOCOMMERCE_UNPAID_STATUSES.includes(orderStatus.toLowerCase());
 }
 
+/**
+ * Check if an order imported from a merchant file requires payment hold
+ */
+function shouldHoldFileOrderForPayment(paymentStatus?: string): boolean {
+  if (!paymentStatus) return false;
+  return FILE_UNPAID_STATUSES.includes(paymentStatus.toLowerCase());
+}
+
 type Decimal = Prisma.Decimal;
 
 // ============= FIELD OWNERSHIP DEFINITIONS =============
@@ -164,6 +185,7 @@ export interface OrderSyncResult {
   externalIds?: {
     shopify?: string;
     woocommerce?: string;
+    file?: string;
     jtl?: string;
   };
   syncedToFfn?: boolean;
@@ -281,6 +303,7 @@ export interface OrderSplitData {
 
 export class OrderSyncService {
   private shippingMethodService: ShippingMethodService;
+  private inventoryAlertService: InventoryAlertService;
   private syncLogger = new SyncLogger('OrderSync');
 
   constructor(
@@ -290,16 +313,17 @@ export class OrderSyncService {
     private jtlService?: JTLService
   ) {
     this.shippingMethodService = new ShippingMethodService(prisma);
+    this.inventoryAlertService = new InventoryAlertService(prisma);
   }
 
   /**
-   * Process incoming order from commerce platform (Shopify/WooCommerce)
+   * Process incoming order from commerce platform (Shopify/WooCommerce) or a merchant order file
    *
    * 🔴 CRITICAL: This is the ONLY way orders should be created.
    *    Orders are born at checkout in the commerce platform.
    */
   async processIncomingOrder(
-    origin: 'shopify' | 'woocommerce',
+    origin: 'shopify' | 'woocommerce' | 'file',
     clientId: string,
     data: IncomingOrderData,
     webhookEventId?: string
@@ -321,12 +345,14 @@ export class OrderSyncService {
         where: {
           clientId,
           externalOrderId: data.externalOrderId,
+          isSplitOrder: false,
         },
       });
 
       let orderId: string;
       let action: 'created' | 'updated';
       let newOrderPaymentHold = false; // Track if new order requires payment hold (to skip FFN sync)
+      let newOrderRuleHold = false; // Track if an order rule put the new order on hold (to skip FFN sync)
 
       if (existingOrder) {
         // Update existing order with new commercial data from origin
@@ -369,6 +395,15 @@ export class OrderSyncService {
           },
         });
 
+        // Split parts and merged orders ship on behalf of a refunded order
+        if (data.paymentStatus === 'refunded' && !existingOrder.isCancelled) {
+          await new OrderOperationsService(this.prisma).cancelLinkedOrders(
+            orderId,
+            origin.toUpperCase() as SyncOrigin,
+            'Refunded on platform'
+          );
+        }
+
         console.log(`[OrderSync] Updated order ${data.externalOrderId} from ${origin}`);
       } else {
         // 2b. Resolve shipping method for new orders
@@ -391,7 +426,9 @@ export class OrderSyncService {
         // 2c. Check if order requires payment hold
         const requiresPaymentHold = origin === 'shopify'
           ? shouldHoldShopifyOrderForPayment(data.paymentStatus)
-          : shouldHoldWooCommerceOrderForPayment(data.status?.toString());
+          : origin === 'file'
+            ? shouldHoldFileOrderForPayment(data.paymentStatus)
+            : shouldHoldWooCommerceOrderForPayment(data.status?.toString());
 
         // Determine final hold status (payment hold takes priority, then shipping mismatch)
         const finalIsOnHold = requiresPaymentHold || shippingResolution.shouldHoldOrder;
@@ -559,6 +596,23 @@ export class OrderSyncService {
         }
 
         console.log(`[OrderSync] Created order ${data.externalOrderId} from ${origin}`);
+
+        // 2d. New order lines reserve stock - check low-stock / reorder thresholds
+        if (data.items?.length) {
+          try {
+            await this.inventoryAlertService.evaluateSkus(
+              clientId,
+              data.items.map(item => item.sku),
+              'order_reservation'
+            );
+          } catch (alertError) {
+            console.error(`[OrderSync] Failed to evaluate inventory alerts for order ${orderId}:`, alertError);
+          }
+        }
+
+        // 2e. Apply the client's order rules (hold, priority, carrier, ...)
+        const ruleResult = await orderRuleService.applyRules(orderId);
+        newOrderRuleHold = ruleResult.held;
       }
 
       // 3. Log sync event
@@ -583,6 +637,8 @@ export class OrderSyncService {
             ffnSyncError: 'Awaiting payment confirmation before syncing to fulfillment',
           },
         });
+      } else if (newOrderRuleHold) {
+        console.log(`[OrderSync] Order ${orderId} is on ORDER_RULE hold - NOT queuing for FFN sync until released`);
       } else {
         await this.queueFfnSync(orderId, origin, webhookEventId);
       }
@@ -592,7 +648,7 @@ export class OrderSyncService {
         action,
         orderId,
         externalIds: { [origin]: data.externalOrderId },
-        syncedToFfn: !newOrderPaymentHold, // Indicate if FFN sync was queued
+        syncedToFfn: !newOrderPaymentHold && !newOrderRuleHold, // Indicate if FFN sync was queued
       };
     } catch (error: any) {
       console.error(`[OrderSync] Failed to process incoming order:`, error);
@@ -756,111 +812,24 @@ export class OrderSyncService {
   /**
    * Split an order into multiple fulfillment orders
    *
-   * This is an operational feature that creates new FFN fulfillment orders.
+   * This is an operational feature that re-creates the FFN fulfillment orders;
+   * see OrderOperationsService.splitOrder.
    */
   async splitOrder(data: OrderSplitData): Promise<OrderSyncResult> {
-    try {
-      const { originalOrderId, itemsToSplit, reason, splitBy } = data;
-
-      // 1. Validate original order
-      const originalOrder = await this.prisma.order.findUnique({
-        where: { id: originalOrderId },
-        include: { items: true },
-      });
-
-      if (!originalOrder) {
-        throw new Error(`Order ${originalOrderId} not found`);
-      }
-
-      // 2. Create split order record
-      const splitOrder = await this.prisma.order.create({
-        data: {
-          orderId: `${originalOrder.orderId}-SPLIT-${Date.now()}`,
-          orderNumber: `${originalOrder.orderNumber}-SPLIT`,
-          externalOrderId: originalOrder.externalOrderId,
-
-          // Copy from original order
-          orderOrigin: originalOrder.orderOrigin,
-          orderState: originalOrder.orderState,
-          fulfillmentState: 'PENDING',
-          lastOperationalUpdateBy: splitBy.toUpperCase() as SyncOrigin,
-
-          // Mark as split
-          isSplitOrder: true,
-          splitFromOrderId: originalOrderId,
-
-          // Copy commercial fields
-          subtotal: originalOrder.subtotal,
-          shippingCost: originalOrder.shippingCost,
-          tax: originalOrder.tax,
-          total: originalOrder.total,
-          currency: originalOrder.currency,
-
-          // Copy customer/shipping info
-          customerName: originalOrder.customerName,
-          customerEmail: originalOrder.customerEmail,
-          customerPhone: originalOrder.customerPhone,
-          shippingFirstName: originalOrder.shippingFirstName,
-          shippingLastName: originalOrder.shippingLastName,
-          shippingAddress1: originalOrder.shippingAddress1,
-          shippingCity: originalOrder.shippingCity,
-          shippingZip: originalOrder.shippingZip,
-          shippingCountry: originalOrder.shippingCountry,
-
-          // Relations
-          clientId: originalOrder.clientId,
-          channelId: originalOrder.channelId,
-
-          // Items
-          items: {
-            create: itemsToSplit.map(item => {
-              const originalItem = originalOrder.items.find(i => i.sku === item.sku);
-              return {
-                sku: item.sku,
-                productName: originalItem?.productName,
-                quantity: item.quantity,
-                unitPrice: originalItem?.unitPrice,
-                totalPrice: originalItem?.unitPrice
-                  ? new Prisma.Decimal(originalItem.unitPrice.toString()).mul(item.quantity)
-                  : undefined,
-              };
-            }),
-          },
-        },
-      });
-
-      console.log(`[OrderSync] Created split order ${splitOrder.id} from ${originalOrderId}`);
-
-      // 3. Log sync event
-      await this.logOrderSync({
-        orderId: splitOrder.id,
-        action: 'split',
-        origin: splitBy.toUpperCase() as SyncOrigin,
-        targetPlatform: 'nolimits',
-        success: true,
-        changedFields: ['isSplitOrder', 'splitFromOrderId'],
-      });
-
-      // 4. Create FFN fulfillment order for split
-      if (this.jtlService) {
-        await this.jtlService.createFulfillmentOrder(splitOrder.id, itemsToSplit, this.prisma);
-      }
+    const result = await new OrderOperationsService(this.prisma).splitOrder({
+      orderId: data.originalOrderId,
+      items: data.itemsToSplit,
+      reason: data.reason,
+      splitBy: data.splitBy,
+    });
 
-      return {
-        success: true,
-        action: 'split',
-        orderId: splitOrder.id,
-        details: { originalOrderId, splitOrderId: splitOrder.id },
-      };
-    } catch (error: any) {
-      console.error(`[OrderSync] Failed to split order:`, error);
-      return {
-        success: false,
-        action: 'failed',
-        orderId: data.originalOrderId,
-        error: error.message,
-      };
-    }
+    return {
+      success: result.success,
+      action: result.success ? 'split' : 'failed',
+      orderId: result.orderId || data.originalOrderId,
+      error: result.error,
+      details: result.details,
+    };
   }
 
   // ============= HELPER METHODS =============
@@ -1078,6 +1047,11 @@ export class OrderSyncService {
         await this.syncOperationalToCommerceInternal(order, ['trackingNumber', 'shippedAt', 'fulfillmentState', 'carrierSelection']);
       }
 
+      // Orders merged into this one shipped with its outbound
+      if (operation !== 'cancel' && operation !== 'hold' && operation !== 'release_hold') {
+        await this.syncMergedOrdersToCommerce(order, operation);
+      }
+
       return { success: true };
     } catch (error: any) {
       console.error(`[OrderSync] syncOperationalToCommerce failed:`, error);
@@ -1085,6 +1059,42 @@ export class OrderSyncService {
     }
   }
 
+  /**
+   * Copy the shipment state of a merge target to the orders merged into it
+   * and sync each of them to its own channel
+   */
+  private async syncMergedOrdersToCommerce(
+    order: Order,
+    operation: 'create' | 'update' | 'fulfill' | 'update_tracking'
+  ): Promise<void> {
+    const mergedOrders = await this.prisma.order.findMany({
+      where: { mergedIntoOrderId: order.id },
+      select: { id: true },
+    });
+
+    for (const mergedOrder of mergedOrders) {
+      await this.prisma.order.update({
+        where: { id: mergedOrder.id },
+        data: {
+          status: order.status,
+          fulfillmentState: order.fulfillmentState,
+          trackingNumber: order.trackingNumber,
+          trackingUrl: order.trackingUrl,
+          carrierSelection: order.carrierSelection,
+          shippedAt: order.shippedAt,
+          deliveredAt: order.deliveredAt,
+          lastOperationalUpdateBy: 'NOLIMITS',
+          lastOperationalUpdateAt: new Date(),
+        },
+      });
+
+      const result = await this.syncOperationalToCommerce(mergedOrder.id, operation);
+      if (!result.success) {
+        throw new Error(`Merged order ${mergedOrder.id}: ${result.error}`);
+      }
+    }
+  }
+
   /**
    * Sync hold state to Shopify — places a FulfillmentOrder on hold
    */
@@ -1296,6 +1306,11 @@ export class OrderSyncService {
             });
             const existingTrackingNumbers = new Set(existingShipments.map(s => s.trackingNumber));
 
+            // Split parts share the Shopify order — each part only fulfills its own items
+            const splitItems = isGraphQLService(shopifyService)
+              ? await getSplitFulfillmentItems(this.prisma, order.id)
+              : undefined;
+
             for (const pkg of packages) {
               // Skip if already fulfilled with this tracking number
               if (pkg.trackingNumber && existingTrackingNumbers.has(pkg.trackingNumber)) {
@@ -1308,6 +1323,7 @@ export class OrderSyncService {
                   tracking_number: pkg.trackingNumber || undefined,
                   tracking_company: pkg.carrier || undefined,
                   tracking_url: pkg.trackingUrl || undefined,
+                  line_items_by_sku: splitItems,
                   notify_customer: true,
                 } as any);
 
@@ -1339,8 +1355,8 @@ export class OrderSyncService {
                 }
               } catch (fulfillError: any) {
                 const errMsg = fulfillError.message || '';
-                if (errMsg.includes('already fulfilled')) {
-                  // Order already fulfilled — log and continue (GID can't be recovered from getFulfillmentOrders)
+                if (errMsg.includes('already fulfilled') || (splitItems && errMsg.includes('No line items available'))) {
+                  // Order (or this split part) already fulfilled — log and continue (GID can't be recovered from getFulfillmentOrders)
                   console.log(`[OrderSync] Order ${order.id} already fulfilled in Shopify — skipping`);
                 } else if (errMsg.includes('on hold') || errMsg.includes('ON_HOLD')) {
                   // Re-throw so pg-boss retries — the hold might be released later
@@ -1393,6 +1409,61 @@ export class OrderSyncService {
           await wooService.updateOrderStatus(parseInt(order.externalOrderId), wooStatus);
           console.log(`[OrderSync] Updated WooCommerce order ${order.externalOrderId} to status: ${wooStatus}`);
         }
+      } else if (order.channel.type === 'AMAZON') {
+        // Amazon only accepts shipment confirmations, and those need a tracking number
+        if (!['fulfilled', 'delivered'].includes(commerceStatus) || !order.externalOrderId) return;
+
+        if (!order.trackingNumber) {
+          console.log(`[OrderSync] Order ${order.id} has no tracking number yet, skipping Amazon shipment confirmation`);
+          return;
+        }
+
+        const amazonService = createAmazonServiceForChannel(order.channel);
+        if (!amazonService) {
+          console.warn(`[OrderSync] Missing Amazon credentials for channel ${order.channel.id}`);
+          return;
+        }
+
+        await amazonService.confirmShipment(order.externalOrderId, {
+          carrier: order.carrierSelection || undefined,
+          trackingNumber: order.trackingNumber,
+          shipDate: order.shippedAt ? new Date(order.shippedAt) : new Date(),
+        });
+        console.log(`[OrderSync] Confirmed Amazon shipment for order ${order.externalOrderId} with tracking ${order.trackingNumber}`);
+      } else if (order.channel.type === 'EBAY') {
+        // eBay only takes tracking uploads for shipped orders
+        if (!['fulfilled', 'delivered'].includes(commerceStatus) || !order.externalOrderId) return;
+
+        if (!order.trackingNumber) {
+          console.log(`[OrderSync] Order ${order.id} has no tracking number yet, skipping eBay tracking upload`);
+          return;
+        }
+
+        const ebayService = createEbayServiceForChannel(order.channel);
+        if (!ebayService) {
+          console.warn(`[OrderSync] Missing eBay credentials for channel ${order.channel.id}`);
+          return;
+        }
+
+        await ebayService.createShippingFulfillment(order.externalOrderId, {
+          carrier: order.carrierSelection || undefined,
+          trackingNumber: order.trackingNumber,
+          shippedDate: order.shippedAt ? new Date(order.shippedAt) : new Date(),
+        });
+        console.log(`[OrderSync] Uploaded eBay tracking for order ${order.externalOrderId}: ${order.trackingNumber}`);
+      } else if (order.channel.type === 'FILE') {
+        if (!['fulfilled', 'delivered'].includes(commerceStatus) || !order.externalOrderId) return;
+
+        if (!order.trackingNumber) {
+          console.log(`[OrderSync] Order ${order.id} has no tracking number yet, skipping shipment file`);
+          return;
+        }
+
+        await exportShipmentToFileChannel(this.prisma, {
+          ...order,
+          externalOrderId: order.externalOrderId,
+          trackingNumber: order.trackingNumber,
+        });
       }
 
       await this.prisma.order.update({
@@ -5,6 +5,8 @@
  * - No-Limits Platform (central hub)
  * - Shopify
  * - WooCommerce  
+ * - Amazon (stock only - listing content is managed in Seller Central)
+ * - eBay (stock only - listing content is managed in Seller Hub)
  * - JTL-FFN (Fulfillment)
  * 
  * Core principles:
@@ -15,11 +17,15 @@
  * 5. Async, idempotent sync via job queue
  */
 
-import { PrismaClient, ChannelType, SyncOrigin, SyncStatus, Prisma } from '@prisma/client';
+import { PrismaClient, Channel, ChannelType, SyncOrigin, SyncStatus, Prisma } from '@prisma/client';
 import { createShopifyServiceAuto } from './shopify-service-factory.js';
 import { WooCommerceService } from './woocommerce.service.js';
+import { createAmazonServiceForChannel } from './amazon.service.js';
+import { createEbayServiceForChannel } from './ebay.service.js';
 import { JTLService } from './jtl.service.js';
 import { getEncryptionService } from '../encryption.service.js';
+import { stockMovementService } from '../stock-movement.service.js';
+import { channelStockService } from '../channel-stock.service.js';
 import crypto from 'crypto';
 import { Logger } from '../../utils/logger.js';
 import { generateJobId } from '../../utils/job-id.js';
@@ -657,10 +663,14 @@ export class ProductSyncService {
       try {
         let externalId: string | undefined;
 
-        if (productChannel.channel.type === 'SHOPIFY') {
-          externalId = await this.pushToShopify(product, productChannel, options.fieldsToSync);
-        } else if (productChannel.channel.type === 'WOOCOMMERCE') {
-          externalId = await this.pushToWooCommerce(product, productChannel, options.fieldsToSync);
+        if (productChannel.channel.type === 'SHOPIFY' || productChannel.channel.type === 'WOOCOMMERCE') {
+          const channelProduct = {
+            ...product,
+            available: await channelStockService.getPublishedQuantity(product.id, productChannel.channel.id),
+          };
+          externalId = productChannel.channel.type === 'SHOPIFY'
+            ? await this.pushToShopify(channelProduct, productChannel, options.fieldsToSync)
+            : await this.pushToWooCommerce(channelProduct, productChannel, options.fieldsToSync);
         }
 
         // Update ProductChannel with result
@@ -917,7 +927,8 @@ export class ProductSyncService {
         };
       }
 
-      const stockToSync = options.available ?? productChannel.product.available;
+      // Channel allocation rules and bundle quantities decide what the channel may sell
+      const stockToSync = await channelStockService.getPublishedQuantity(productId, channelId, options.available);
       const encryptionService = getEncryptionService();
 
       if (productChannel.channel.type === 'SHOPIFY') {
@@ -937,6 +948,19 @@ export class ProductSyncService {
           stockToSync,
           encryptionService
         );
+      } else if (productChannel.channel.type === 'AMAZON') {
+        await this.syncStockToAmazon(
+          productChannel.externalProductId,
+          productChannel.channel,
+          productChannel.platformData,
+          stockToSync
+        );
+      } else if (productChannel.channel.type === 'EBAY') {
+        await this.syncStockToEbay(
+          productChannel.externalProductId,
+          productChannel.channel,
+          stockToSync
+        );
       }
 
       // Update last sync time
@@ -1108,6 +1132,54 @@ export class ProductSyncService {
     }
   }
 
+  /**
+   * Sync stock to Amazon using the Listings Items API (MFN fulfillment availability)
+   * externalProductId is the seller SKU of the listing.
+   */
+  private async syncStockToAmazon(
+    externalProductId: string,
+    channel: Channel,
+    platformData: Prisma.JsonValue,
+    available: number
+  ): Promise<void> {
+    const amazonService = createAmazonServiceForChannel(channel);
+    if (!amazonService) {
+      throw new Error('Missing Amazon credentials');
+    }
+
+    const productType = (platformData as { productType?: string } | null)?.productType || undefined;
+    await amazonService.updateInventory(externalProductId, Math.max(0, available), productType);
+
+    this.logger.info({
+      event: 'amazon_inventory_updated',
+      sku: externalProductId,
+      quantity: available,
+    });
+  }
+
+  /**
+   * Sync stock to eBay using the Inventory API (quantity of the inventory item and its offers)
+   * externalProductId is the SKU of the inventory item.
+   */
+  private async syncStockToEbay(
+    externalProductId: string,
+    channel: Channel,
+    available: number
+  ): Promise<void> {
+    const ebayService = createEbayServiceForChannel(channel);
+    if (!ebayService) {
+      throw new Error('Missing eBay credentials');
+    }
+
+    await ebayService.updateInventory(externalProductId, available);
+
+    this.logger.info({
+      event: 'ebay_inventory_updated',
+      sku: externalProductId,
+      quantity: available,
+    });
+  }
+
   /**
    * Build safe image payloads for commerce APIs.
    * Ensures `src` and `alt` are strings and removes invalid/duplicate URLs.
@@ -2533,7 +2605,7 @@ export class ProductSyncService {
       // Get all existing local products for this client (including name and id for matching)
       const localProducts = await this.prisma.product.findMany({
         where: { clientId },
-        select: { id: true, sku: true, name: true, jtlProductId: true },
+        select: { id: true, clientId: true, sku: true, name: true, jtlProductId: true, available: true, reserved: true, announced: true },
       });
       const existingSkus = new Set(localProducts.map(p => p.sku));
 
@@ -2578,6 +2650,11 @@ export class ProductSyncService {
                 announced: jtlProduct.stock?.stockLevelAnnounced || 0,
               },
             });
+            await stockMovementService.record(existingProduct, {
+              available: jtlProduct.stock?.stockLevel || 0,
+              reserved: jtlProduct.stock?.stockLevelReserved || 0,
+              announced: jtlProduct.stock?.stockLevelAnnounced || 0,
+            }, 'ffn_sync', { note: `Linked to JTL product ${jtlProduct.jfsku}` });
             console.log(`[ProductSync] Linked existing product by SKU: ${sku} → ${jtlProduct.jfsku}`);
             linked++;
           }
@@ -2606,6 +2683,11 @@ export class ProductSyncService {
                 announced: jtlProduct.stock?.stockLevelAnnounced || 0,
               },
             });
+            await stockMovementService.record(matchedProduct, {
+              available: jtlProduct.stock?.stockLevel || 0,
+              reserved: jtlProduct.stock?.stockLevelReserved || 0,
+              announced: jtlProduct.stock?.stockLevelAnnounced || 0,
+            }, 'ffn_sync', { note: `Linked to JTL product ${jtlProduct.jfsku}` });
 
             // Remove from map so we don't match again
             productsByNormalizedName.delete(normalizedJtlName);
@@ -2641,6 +2723,12 @@ export class ProductSyncService {
               // NO channels - this is warehouse-only
             },
           });
+          await stockMovementService.record(
+            { ...newProduct, available: 0, reserved: 0, announced: 0 },
+            newProduct,
+            'ffn_sync',
+            { note: `Imported from JTL product ${jtlProduct.jfsku}` }
+          );
 
           result.imported++;
           result.importedProducts.push({
@@ -28,6 +28,9 @@ import {
 import { ShopifyService } from './shopify.service.js';
 import { WooCommerceService } from './woocommerce.service.js';
 import { SyncLogger } from '../../utils/sync-logger.js';
+import { merchantWebhookService } from '../merchant-webhook.service.js';
+import { stockMovementService } from '../stock-movement.service.js';
+import { serialService, normalizeSerials } from '../serial.service.js';
 
 type Decimal = Prisma.Decimal;
 
@@ -157,6 +160,7 @@ export class ReturnSyncService {
           where: {
             clientId,
             externalOrderId: data.externalOrderId,
+            isSplitOrder: false,
           },
         })
         : null;
@@ -372,6 +376,7 @@ export class ReturnSyncService {
         sku: string;
         productName?: string;
         quantity: number;
+        serialNumbers?: string[];  // Checked against the serials shipped with the order
       }>;
       notes?: string;
       triggerReplacement?: boolean;
@@ -444,6 +449,21 @@ export class ReturnSyncService {
 
       console.log(`[ReturnSync] Created platform-initiated return ${returnId}`);
 
+      // Record serials of the returned units (a mismatch is flagged, not rejected)
+      const serialIssues: string[] = [];
+      const unmatchedItems = [...newReturn.items];
+      for (const item of data.items) {
+        const returnItemIndex = unmatchedItems.findIndex((ri) => ri.sku === item.sku);
+        if (returnItemIndex === -1) continue;
+        const [returnItem] = unmatchedItems.splice(returnItemIndex, 1);
+
+        const serialNumbers = normalizeSerials(item.serialNumbers ?? []);
+        if (serialNumbers.length === 0) continue;
+
+        const check = await serialService.setReturnItemSerials(returnItem.id, serialNumbers);
+        serialIssues.push(...check.issues);
+      }
+
       // Log sync
       await this.logReturnSync({
         returnId: newReturn.id,
@@ -473,6 +493,7 @@ export class ReturnSyncService {
           itemCount: newReturn.items.length,
           commerceSynced,
           triggerReplacement: data.triggerReplacement,
+          ...(serialIssues.length > 0 && { serialIssues }),
         },
       };
     } catch (error: any) {
@@ -647,6 +668,27 @@ export class ReturnSyncService {
         await this.processRestock(returnId, data.restockQuantity);
       }
 
+      // 6. Tell the merchant
+      await merchantWebhookService.emit(updatedReturn.clientId, 'return.inspected', {
+        id: updatedReturn.id,
+        returnId: updatedReturn.returnId,
+        orderId: existingReturn.order?.orderId ?? null,
+        orderNumber: existingReturn.order?.orderNumber ?? null,
+        inspectionResult,
+        restockEligible,
+        restockQuantity: data.restockQuantity || 0,
+        hasDamage: updatedReturn.hasDamage,
+        hasDefect: updatedReturn.hasDefect,
+        items: items?.map(item => ({
+          returnItemId: item.returnItemId,
+          condition: item.condition,
+          disposition: item.disposition,
+          restockableQuantity: item.restockableQuantity,
+          damagedQuantity: item.damagedQuantity,
+          defectiveQuantity: item.defectiveQuantity,
+        })) ?? [],
+      });
+
       return {
         success: true,
         action: 'inspected',
@@ -680,24 +722,26 @@ export class ReturnSyncService {
 
       if (!returnRecord) return;
 
+      const restockedProductIds: string[] = [];
+
       // Update product stock levels
       for (const item of returnRecord.items) {
         if (item.productId && item.restockableQuantity > 0) {
-          await this.prisma.product.update({
-            where: { id: item.productId },
-            data: {
-              available: {
-                increment: item.restockableQuantity,
-              },
-            },
+          await stockMovementService.incrementAvailable(item.productId, item.restockableQuantity, 'return_restock', {
+            referenceType: 'Return',
+            referenceId: returnId,
           });
 
+          restockedProductIds.push(item.productId);
+
           console.log(
             `[ReturnSync] Restocked ${item.restockableQuantity} units of product ${item.productId}`
           );
         }
       }
 
+      await merchantWebhookService.emitStockChanged(returnRecord.clientId, restockedProductIds, 'return_restock');
+
       // Update return status
       await this.prisma.return.update({
         where: { id: returnId },
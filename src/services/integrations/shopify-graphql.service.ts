@@ -70,6 +70,7 @@ import {
 import { toGid, extractNumericId, toLegacyId } from './shopify-graphql/utils/id-converter.js';
 import { fetchAllPages, buildQueryFilter, DEFAULT_PAGE_SIZE } from './shopify-graphql/utils/pagination.js';
 import { mapOrder, mapOrders, mapProduct, mapProducts, mapRefund } from './shopify-graphql/utils/response-mapper.js';
+import { assertNotDryRun } from '../../utils/dry-run.js';
 
 const DEFAULT_API_VERSION = '2024-10';
 
@@ -130,6 +131,8 @@ export class ShopifyGraphQLService {
    * Execute a GraphQL query/mutation
    */
   private async graphql<T>(query: string, variables: Record<string, unknown> = {}): Promise<T> {
+    if (query.trimStart().startsWith('mutation')) assertNotDryRun('Shopify GraphQL mutation');
+
     const response = await fetch(this.graphqlEndpoint, {
       method: 'POST',
       headers: {
@@ -166,6 +169,8 @@ export class ShopifyGraphQLService {
    * Used as a targeted fallback for resources that are expensive in GraphQL.
    */
   private async rest<T>(endpoint: string, options: RequestInit = {}): Promise<T> {
+    if (options.method && options.method !== 'GET') assertNotDryRun(`Shopify ${options.method} ${endpoint}`);
+
     const response = await fetch(`${this.restBaseUrl}${endpoint}`, {
       ...options,
       headers: {
@@ -551,6 +556,7 @@ export class ShopifyGraphQLService {
   /**
    * Create a fulfillment for an order
    * Uses the new fulfillmentCreate API (replaces deprecated fulfillmentCreateV2)
+   * line_items_by_sku limits the fulfillment to part of the order (split orders ship separately)
    */
   async createFulfillment(orderId: number, fulfillment: {
     location_id?: number;
@@ -558,6 +564,7 @@ export class ShopifyGraphQLService {
     tracking_company?: string;
     tracking_url?: string;
     line_items?: { id: number; quantity?: number }[];
+    line_items_by_sku?: { sku: string; quantity: number }[];
     notify_customer?: boolean;
     message?: string;
   }): Promise<{ id: number; gid: string; status: string; tracking_number: string | null }> {
@@ -587,12 +594,25 @@ export class ShopifyGraphQLService {
       throw new Error(`No open fulfillment orders found for order ${orderId}`);
     }
 
+    // Quantities still to assign per SKU when only part of the order ships
+    const skuQuantities = fulfillment.line_items_by_sku?.reduce(
+      (quantities, item) => quantities.set(item.sku, (quantities.get(item.sku) || 0) + item.quantity),
+      new Map<string, number>()
+    );
+
     // Build fulfillment input for all active fulfillment orders
     const lineItemsByFulfillmentOrder = activeFOs.map(fo => ({
       fulfillmentOrderId: fo.id,
       fulfillmentOrderLineItems: fo.lineItems
         .filter(li => li.remainingQuantity > 0)
         .map(li => {
+          if (skuQuantities) {
+            const sku = li.lineItem.sku || '';
+            const quantity = Math.min(skuQuantities.get(sku) || 0, li.remainingQuantity);
+            if (quantity === 0) return null;
+            skuQuantities.set(sku, (skuQuantities.get(sku) || 0) - quantity);
+            return { id: li.id, quantity };
+          }
           // Check if specific line items were requested
           if (fulfillment.line_items) {
             const requested = fulfillment.line_items.find(
@@ -13,6 +13,7 @@ import {
   SyncResult,
   SyncItemResult,
 } from './types.js';
+import { assertNotDryRun } from '../../utils/dry-run.js';
 
 const DEFAULT_API_VERSION = '2024-10';
 
@@ -36,6 +37,7 @@ export class ShopifyService {
     options: RequestInit = {}
   ): Promise<T> {
     const url = `${this.baseUrl}${endpoint}`;
+    if (options.method && options.method !== 'GET') assertNotDryRun(`Shopify ${options.method} ${endpoint}`);
     
     const response = await fetch(url, {
       ...options,
@@ -21,6 +21,14 @@ import { JTLService, JTLProductWithStock } from './jtl.service.js';
 import { getEncryptionService } from '../encryption.service.js';
 import { getQueue, QUEUE_NAMES } from '../queue/sync-queue.service.js';
 import { SyncLogger, BatchResult } from '../../utils/sync-logger.js';
+import { InventoryAlertService, InventoryAlertSource } from '../inventory-alert.service.js';
+import { merchantWebhookService } from '../merchant-webhook.service.js';
+import { stockMovementService, StockMovementOptions } from '../stock-movement.service.js';
+import { warehouseService } from '../warehouse.service.js';
+import { lotService } from '../lot.service.js';
+import { backorderService } from '../backorder.service.js';
+import { inboundService } from '../inbound.service.js';
+import { stocktakeService } from '../stocktake.service.js';
 
 interface StockSyncResult {
   success: boolean;
@@ -47,6 +55,8 @@ interface InboundUpdate {
   items?: {
     jfsku: string;
     quantity: number;
+    batchNumber?: string;
+    bestBefore?: string;
   }[];
 }
 
@@ -65,9 +75,11 @@ export class StockSyncService {
   private prisma: PrismaClient;
   private lastInboundPollTime: Map<string, Date> = new Map(); // clientId -> lastPollTime
   private syncLogger = new SyncLogger('StockSync');
+  private inventoryAlertService: InventoryAlertService;
 
   constructor(prisma: PrismaClient) {
     this.prisma = prisma;
+    this.inventoryAlertService = new InventoryAlertService(prisma);
   }
 
   /**
@@ -109,6 +121,8 @@ export class StockSyncService {
   async syncStockForClient(clientId: string, options?: {
     jfskus?: string[];  // Optional: only sync specific products
     forceUpdate?: boolean;  // Update even if stock hasn't changed
+    trigger?: InventoryAlertSource;  // What caused this sync (recorded on low-stock alerts and stock movements)
+    references?: Map<string, StockMovementOptions>;  // Stock movement reference per JFSKU (e.g. the inbound that was booked in)
   }): Promise<StockSyncResult> {
     this.syncLogger.startBatch();
 
@@ -180,6 +194,19 @@ export class StockSyncService {
         localProducts.map(p => [p.jtlProductId!, p])
       );
 
+      const updatedProductIds: string[] = [];
+
+      // Stock per warehouse and per lot (always written - the total can stay the same while
+      // stock moves between warehouses or lots)
+      const productIdByJfsku = new Map(localProducts.map(p => [p.jtlProductId!, p.id]));
+      await warehouseService.recordWarehouseStock(clientId, filteredProducts, productIdByJfsku);
+      await lotService.syncStockLots(clientId, filteredProducts, productIdByJfsku);
+
+      // Approved stocktake counts FFN has not booked yet stay on top of the FFN stock
+      const pendingCorrections = await stocktakeService.getPendingFfnCorrections(localProducts.map(p => p.id));
+      // As do simulated units of pending inbounds
+      const simulatedStock = await stockMovementService.getSimulatedQuantities(localProducts.map(p => p.id));
+
       // Update each product's stock
       for (const jtlProduct of filteredProducts) {
         const localProduct = localProductMap.get(jtlProduct.jfsku);
@@ -190,7 +217,12 @@ export class StockSyncService {
         }
 
         // Extract stock levels from JTL product
-        const newAvailable = jtlProduct.stock?.stockLevel ?? 0;
+        const newAvailable = Math.max(
+          0,
+          (jtlProduct.stock?.stockLevel ?? 0)
+            + (pendingCorrections.get(localProduct.id) ?? 0)
+            + (simulatedStock.get(localProduct.id) ?? 0)
+        );
         const newReserved = jtlProduct.stock?.stockLevelReserved ?? 0;
         const newAnnounced = jtlProduct.stock?.stockLevelAnnounced ?? 0;
 
@@ -214,6 +246,13 @@ export class StockSyncService {
               },
             });
 
+            await stockMovementService.record(
+              { ...localProduct, clientId },
+              { available: newAvailable, reserved: newReserved, announced: newAnnounced },
+              options?.trigger === 'inbound' ? 'inbound' : 'ffn_sync',
+              options?.references?.get(jtlProduct.jfsku)
+            );
+
             // Log the sync
             await this.prisma.productSyncLog.create({
               data: {
@@ -237,6 +276,7 @@ export class StockSyncService {
             });
 
             result.productsUpdated++;
+            updatedProductIds.push(localProduct.id);
             result.details?.push({
               sku: localProduct.sku,
               jfsku: jtlProduct.jfsku,
@@ -270,8 +310,51 @@ export class StockSyncService {
         }
       }
 
+      // Bundles publish what their components make up, so they follow their components' stock
+      if (updatedProductIds.length > 0) {
+        const bundles = await this.prisma.bundleItem.findMany({
+          where: { childProductId: { in: updatedProductIds } },
+          select: { parentProductId: true },
+          distinct: ['parentProductId'],
+        });
+        for (const { parentProductId } of bundles) {
+          if (!updatedProductIds.includes(parentProductId)) {
+            await this.queueStockSyncToCommerce(parentProductId);
+          }
+        }
+      }
+
       result.success = result.productsFailed === 0;
 
+      await merchantWebhookService.emitStockChanged(clientId, updatedProductIds, options?.trigger ?? 'ffn_sync');
+
+      // Check low-stock / reorder thresholds for everything that moved
+      if (updatedProductIds.length > 0) {
+        try {
+          await this.inventoryAlertService.evaluateProducts(
+            updatedProductIds,
+            options?.trigger ?? 'ffn_sync'
+          );
+        } catch (error) {
+          this.syncLogger.getLogger().error({
+            event: 'inventory_alert_evaluation_failed',
+            clientId,
+            error: error instanceof Error ? error.message : 'Unknown error'
+          });
+        }
+
+        // New stock (e.g. a booked inbound) may cover parked backorders
+        try {
+          await backorderService.releaseCoveredBackorders(clientId);
+        } catch (error) {
+          this.syncLogger.getLogger().error({
+            event: 'backorder_release_failed',
+            clientId,
+            error: error instanceof Error ? error.message : 'Unknown error'
+          });
+        }
+      }
+
       // Log batch summary
       this.syncLogger.logBatchSummary('Stock Sync', {
         totalProcessed: result.productsUpdated + result.productsUnchanged,
@@ -333,6 +416,7 @@ export class StockSyncService {
       // Check for closed/receipted inbounds
       const closedInbounds: InboundUpdate[] = [];
       const affectedJfskus: string[] = [];
+      const references = new Map<string, StockMovementOptions>();
 
       for (const update of updates) {
         result.inboundsProcessed++;
@@ -348,10 +432,12 @@ export class StockSyncService {
             status === 'eingetroffen' || status === 'geschlossen') {
 
           // Try to extract items if available in the response
-          const rawItems = updateData?.items as Array<{ jfsku?: string; quantity?: number }> | undefined;
+          const rawItems = updateData?.items as Array<{ jfsku?: string; quantity?: number; batchNumber?: string; bestBefore?: string }> | undefined;
           const items: InboundUpdate['items'] = rawItems?.map(item => ({
             jfsku: item.jfsku || '',
             quantity: item.quantity || 0,
+            batchNumber: item.batchNumber || undefined,
+            bestBefore: item.bestBefore || undefined,
           }));
 
           closedInbounds.push({
@@ -367,6 +453,11 @@ export class StockSyncService {
             for (const item of rawItems) {
               if (item.jfsku) {
                 affectedJfskus.push(item.jfsku);
+                references.set(item.jfsku, {
+                  referenceType: 'JtlInbound',
+                  referenceId: update.id,
+                  note: (updateData?.merchantInboundNumber as string) || undefined,
+                });
               }
             }
           }
@@ -390,11 +481,37 @@ export class StockSyncService {
 
         result.stockSyncTriggered = true;
 
+        // Received quantities (and over/short discrepancies) first, lots are booked from them
+        for (const inbound of closedInbounds) {
+          await inboundService.recordReceipt(clientId, inbound);
+        }
+
+        // Book in lots before the stock sync, so lot quantities reported by FFN stock data win
+        for (const inbound of closedInbounds) {
+          if (inbound.status === 'closed' || inbound.status === 'geschlossen') {
+            await lotService.bookInbound(clientId, inbound);
+          }
+        }
+
+        // Simulated units come off before the sync books the real goods
+        for (const inbound of closedInbounds) {
+          if (inbound.status === 'closed' || inbound.status === 'geschlossen') {
+            const localInbound = await this.findLocalInbound(clientId, inbound);
+            if (localInbound) await stockMovementService.endInboundSimulation(localInbound.id);
+          }
+        }
+
         // If we know which products were affected, only sync those
         // Otherwise sync all products
         result.stockSyncResult = await this.syncStockForClient(clientId, {
           jfskus: affectedJfskus.length > 0 ? [...new Set(affectedJfskus)] : undefined,
+          trigger: 'inbound',
+          references,
         });
+
+        for (const inbound of closedInbounds) {
+          await this.markInboundBookedIn(clientId, inbound);
+        }
       }
 
       return result;
@@ -408,6 +525,67 @@ export class StockSyncService {
     }
   }
 
+  // Local inbound delivery of a JTL inbound
+  private async findLocalInbound(clientId: string, inbound: InboundUpdate) {
+    return this.prisma.inboundDelivery.findFirst({
+      where: {
+        clientId,
+        OR: [
+          { jtlDeliveryId: inbound.inboundId },
+          ...(inbound.merchantInboundNumber ? [{ inboundId: inbound.merchantInboundNumber }] : []),
+        ],
+      },
+      select: { id: true, inboundId: true, status: true },
+    });
+  }
+
+  /**
+   * Update the local inbound delivery for a receipted/closed JTL inbound and
+   * notify the merchant once it is fully booked in
+   */
+  private async markInboundBookedIn(clientId: string, inbound: InboundUpdate): Promise<void> {
+    const bookedIn = inbound.status === 'closed' || inbound.status === 'geschlossen';
+
+    try {
+      const localInbound = await this.findLocalInbound(clientId, inbound);
+
+      if (!localInbound || localInbound.status === 'BOOKED_IN' || localInbound.status === 'CANCELLED') {
+        return;
+      }
+
+      const updated = await this.prisma.inboundDelivery.update({
+        where: { id: localInbound.id },
+        data: {
+          status: bookedIn ? 'BOOKED_IN' : 'PARTIALLY_BOOKED_IN',
+          arrivedDate: new Date(inbound.updatedAt),
+          lastJtlSync: new Date(),
+        },
+        include: { items: { include: { product: { select: { sku: true } } } } },
+      });
+
+      if (bookedIn) {
+        await merchantWebhookService.emit(clientId, 'inbound.booked_in', {
+          id: updated.id,
+          inboundId: updated.inboundId,
+          jtlInboundId: inbound.inboundId,
+          arrivedDate: updated.arrivedDate?.toISOString() ?? null,
+          items: updated.items.map(item => ({
+            productId: item.productId,
+            sku: item.product.sku,
+            announcedQuantity: item.announcedQuantity,
+            receivedQuantity: item.receivedQuantity,
+          })),
+        });
+      }
+    } catch (error) {
+      this.syncLogger.getLogger().error({
+        event: 'inbound_status_update_failed',
+        inboundId: inbound.inboundId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
   /**
    * Sync stock for all active clients
    * Used for periodic full stock sync
@@ -615,7 +793,11 @@ export class StockSyncService {
           ? QUEUE_NAMES.PRODUCT_SYNC_TO_SHOPIFY
           : pc.channel.type === 'WOOCOMMERCE'
             ? QUEUE_NAMES.PRODUCT_SYNC_TO_WOOCOMMERCE
-            : null;
+            : pc.channel.type === 'AMAZON'
+              ? QUEUE_NAMES.PRODUCT_SYNC_TO_AMAZON
+              : pc.channel.type === 'EBAY'
+                ? QUEUE_NAMES.PRODUCT_SYNC_TO_EBAY
+                : null;
 
         if (!queueName) continue;
 
@@ -1,16 +1,25 @@
 /**
  * Sync Orchestrator Service
- * Coordinates data synchronization between e-commerce platforms (Shopify/WooCommerce),
+ * Coordinates data synchronization between e-commerce platforms (Shopify/WooCommerce/Amazon/eBay),
  * local database, and JTL FFN fulfillment system
  * 
- * Flow: Shopify/WooCommerce → No-Limits DB → JTL FFN
+ * Flow: Shopify/WooCommerce/Amazon/eBay → No-Limits DB → JTL FFN
  */
 
-import { PrismaClient, ChannelType, OrderStatus, ReturnStatus, Prisma } from '@prisma/client';
+import { PrismaClient, ChannelType, OrderStatus, ReturnStatus, SyncOrigin, Prisma } from '@prisma/client';
 import { ShopifyService } from './shopify.service.js';
-import { createShopifyServiceAuto, ShopifyServiceInstance } from './shopify-service-factory.js';
+import { createShopifyServiceAuto, isGraphQLService, ShopifyServiceInstance } from './shopify-service-factory.js';
 import { WooCommerceService } from './woocommerce.service.js';
+import { AmazonService, createAmazonServiceForChannel } from './amazon.service.js';
+import { EbayService, createEbayServiceForChannel } from './ebay.service.js';
+import { exportShipmentToFileChannel } from './file-channel.service.js';
 import { JTLService } from './jtl.service.js';
+import { OrderOperationsService, getSplitFulfillmentItems } from './order-operations.service.js';
+import { orderRuleService, ORDER_RULE_HOLD_REASON } from '../order-rule.service.js';
+import { backorderService, BACKORDER_HOLD_REASON } from '../backorder.service.js';
+import { warehouseService } from '../warehouse.service.js';
+import { lotService } from '../lot.service.js';
+import { serialService } from '../serial.service.js';
 import { getEncryptionService } from '../encryption.service.js';
 import BatchOperations from './batch-utils.js';
 import ProductCache from './product-cache.js';
@@ -22,6 +31,10 @@ import {
   WooCommerceOrder,
   WooCommerceProduct,
   WooCommerceRefund,
+  AmazonCredentials,
+  AmazonOrder,
+  EbayCredentials,
+  EbayOrder,
   JTLOutbound,
   JTLProduct,
   JTLReturn,
@@ -54,6 +67,39 @@ function shouldHoldWooCommerceOrderForPayment(orderStatus?: string): boolean {
   return WOOCOMMERCE_UNPAID_STATUSES.includes(orderStatus.toLowerCase());
 }
 
+// Amazon only releases an MFN order for shipping once payment is confirmed (Pending -> Unshipped)
+const AMAZON_UNPAID_STATUSES = ['Pending', 'PendingAvailability', 'InvoiceUnconfirmed'];
+
+function shouldHoldAmazonOrderForPayment(orderStatus?: string): boolean {
+  if (!orderStatus) return true;
+  return AMAZON_UNPAID_STATUSES.includes(orderStatus);
+}
+
+// Map Amazon order status to paymentStatus field
+function mapAmazonPaymentStatus(status?: string): string | null {
+  if (!status || status === 'Canceled') return null;
+  return AMAZON_UNPAID_STATUSES.includes(status) ? 'pending' : 'paid';
+}
+
+// eBay reports payment separately from the order status
+const EBAY_PAID_STATUSES = ['PAID', 'PARTIALLY_REFUNDED'];
+
+function mapEbayPaymentStatus(status?: string): string | null {
+  switch (status) {
+    case 'PAID':
+    case 'PARTIALLY_REFUNDED':
+      return 'paid';
+    case 'FULLY_REFUNDED':
+      return 'refunded';
+    case 'PENDING':
+      return 'pending';
+    case 'FAILED':
+      return 'failed';
+    default:
+      return null;
+  }
+}
+
 // Map WooCommerce order status to paymentStatus field (matching webhook-processor.service.ts)
 function mapWooCommercePaymentStatus(status?: string): string | null {
   if (!status) return null;
@@ -75,6 +121,34 @@ function mapWooCommercePaymentStatus(status?: string): string | null {
   }
 }
 
+// Payment status of a pulled order, per platform (Shopify sends financial_status directly)
+function resolvePaymentStatus(channelType: ChannelType, orderData: { status?: string; paymentStatus?: string }): string | null | undefined {
+  if (channelType === 'WOOCOMMERCE') return mapWooCommercePaymentStatus(orderData.status);
+  if (channelType === 'AMAZON') return mapAmazonPaymentStatus(orderData.status);
+  if (channelType === 'EBAY') return mapEbayPaymentStatus(orderData.paymentStatus);
+  return orderData.paymentStatus;
+}
+
+function shouldHoldOrderForPayment(channelType: ChannelType, orderData: { status?: string; paymentStatus?: string }): boolean {
+  if (channelType === 'WOOCOMMERCE') return shouldHoldWooCommerceOrderForPayment(orderData.status);
+  if (channelType === 'AMAZON') return shouldHoldAmazonOrderForPayment(orderData.status);
+  if (channelType === 'EBAY') return !EBAY_PAID_STATUSES.includes(orderData.paymentStatus || '');
+  return shouldHoldShopifyOrderForPayment(orderData.paymentStatus);
+}
+
+function getSyncOrigin(channelType: ChannelType): SyncOrigin {
+  if (channelType === 'WOOCOMMERCE') return 'WOOCOMMERCE';
+  if (channelType === 'AMAZON') return 'AMAZON';
+  if (channelType === 'EBAY') return 'EBAY';
+  return 'SHOPIFY';
+}
+
+// Marketplaces report cancellations as order status rather than as a refund
+function isCancelledOnMarketplace(channelType: ChannelType, orderData: { status?: string }): boolean {
+  return (channelType === 'AMAZON' && orderData.status === 'Canceled')
+    || (channelType === 'EBAY' && orderData.status === 'CANCELED');
+}
+
 interface SyncConfig {
   channelId: string;
   channelType: ChannelType;
@@ -87,6 +161,8 @@ interface SyncConfig {
     consumerKey: string;
     consumerSecret: string;
   };
+  amazonCredentials?: AmazonCredentials;
+  ebayCredentials?: EbayCredentials;
   jtlCredentials: {
     clientId: string;
     clientSecret: string;
@@ -103,6 +179,8 @@ interface ProductSyncData {
   externalProductId: string;
   sku: string;
   name: string;
+  asin?: string;             // Amazon listings: matched to products by ASIN or seller SKU
+  amazonProductType?: string;
   gtin?: string;
   weight?: number;
   imageUrl?: string;
@@ -128,8 +206,8 @@ interface OrderSyncData {
   shippingAddress: JTLAddress;
   customerEmail?: string;
   // Payment and date tracking for initial sync
-  status?: string;           // WooCommerce order status (for payment hold)
-  paymentStatus?: string;    // Shopify financial_status (for payment hold)
+  status?: string;           // WooCommerce/Amazon order status, eBay cancel state (for payment hold)
+  paymentStatus?: string;    // Shopify financial_status / eBay orderPaymentStatus (for payment hold)
   orderDate?: Date;          // Original order creation date from platform
 }
 
@@ -137,6 +215,8 @@ export class SyncOrchestrator {
   private prisma: PrismaClient;
   private shopifyService?: ShopifyServiceInstance;
   private wooCommerceService?: WooCommerceService;
+  private amazonService?: AmazonService;
+  private ebayService?: EbayService;
   private jtlService: JTLService;
   private config: SyncConfig;
   private batchOps: BatchOperations;
@@ -151,6 +231,8 @@ export class SyncOrchestrator {
       channelType: config.channelType,
       hasShopifyCredentials: !!config.shopifyCredentials,
       hasWooCredentials: !!config.wooCommerceCredentials,
+      hasAmazonCredentials: !!config.amazonCredentials,
+      hasEbayCredentials: !!config.ebayCredentials,
       shopifyShopDomain: config.shopifyCredentials?.shopDomain,
     });
 
@@ -161,6 +243,15 @@ export class SyncOrchestrator {
     } else if (config.channelType === 'WOOCOMMERCE' && config.wooCommerceCredentials) {
       console.log('[SyncOrchestrator] Initializing WooCommerceService');
       this.wooCommerceService = new WooCommerceService(config.wooCommerceCredentials);
+    } else if (config.channelType === 'AMAZON' && config.amazonCredentials) {
+      console.log('[SyncOrchestrator] Initializing AmazonService');
+      this.amazonService = new AmazonService(config.amazonCredentials);
+    } else if (config.channelType === 'EBAY' && config.ebayCredentials) {
+      console.log('[SyncOrchestrator] Initializing EbayService');
+      this.ebayService = new EbayService(config.ebayCredentials);
+    } else if (config.channelType === 'FILE') {
+      // Order files are imported by FileChannelSyncService; only JTL updates are handled here
+      console.log('[SyncOrchestrator] File channel - no e-commerce API');
     } else {
       console.log('[SyncOrchestrator] ⚠️ NO E-COMMERCE SERVICE INITIALIZED!');
     }
@@ -412,6 +503,49 @@ export class SyncOrchestrator {
           }
         }
       }
+    } else if (this.config.channelType === 'AMAZON' && this.amazonService) {
+      console.log('[pullProductsFromChannel] Calling Amazon SP-API...');
+
+      const listings = since
+        ? await this.amazonService.getListingsUpdatedSince(since)
+        : await this.amazonService.getAllListings();
+
+      console.log(`[pullProductsFromChannel] ✅ Amazon returned ${listings.length} listings`);
+
+      for (const listing of listings) {
+        const summary = listing.summaries?.find(s => s.marketplaceId === this.config.amazonCredentials?.marketplaceId)
+          || listing.summaries?.[0];
+
+        // Listings are keyed by seller SKU on Amazon
+        products.push({
+          localProductId: '',
+          externalProductId: listing.sku,
+          sku: listing.sku,
+          name: summary?.itemName || listing.sku,
+          asin: summary?.asin,
+          amazonProductType: summary?.productType,
+          imageUrl: summary?.mainImage?.link,
+        });
+      }
+    } else if (this.config.channelType === 'EBAY' && this.ebayService) {
+      console.log('[pullProductsFromChannel] Calling eBay Inventory API...');
+
+      // The Inventory API has no modified-since filter, so every pull fetches all items
+      const inventoryItems = await this.ebayService.getAllInventoryItems();
+
+      console.log(`[pullProductsFromChannel] ✅ eBay returned ${inventoryItems.length} inventory items`);
+
+      for (const item of inventoryItems) {
+        // Inventory items are keyed by the seller's own SKU
+        products.push({
+          localProductId: '',
+          externalProductId: item.sku,
+          sku: item.sku,
+          name: item.product?.title || item.sku,
+          gtin: item.product?.ean?.[0] || item.product?.upc?.[0],
+          imageUrl: item.product?.imageUrls?.[0],
+        });
+      }
     }
 
     return products;
@@ -436,6 +570,8 @@ export class SyncOrchestrator {
         clientId: channel.clientId, // Important: Filter by client!
         OR: [
           { sku: productData.sku },
+          // Amazon listings also match by ASIN or a previously stored seller SKU
+          ...(productData.asin ? [{ amazonAsin: productData.asin }, { amazonSku: productData.sku }] : []),
           {
             channels: {
               some: {
@@ -450,15 +586,22 @@ export class SyncOrchestrator {
     });
 
     if (existingProduct) {
-      // Update existing product
+      // Update existing product. Amazon listings only record their ASIN and seller SKU;
+      // the warehouse SKU and name of a matched product stay as they are.
       await this.prisma.product.update({
         where: { id: existingProduct.id },
-        data: {
-          name: productData.name,
-          sku: productData.sku,
-          gtin: productData.gtin,
-          updatedAt: new Date(),
-        },
+        data: productData.asin
+          ? {
+              amazonAsin: productData.asin,
+              amazonSku: productData.sku,
+              updatedAt: new Date(),
+            }
+          : {
+              name: productData.name,
+              sku: productData.sku,
+              gtin: productData.gtin,
+              updatedAt: new Date(),
+            },
       });
 
       // Upsert product channel mapping
@@ -473,10 +616,12 @@ export class SyncOrchestrator {
           productId: existingProduct.id,
           channelId: this.config.channelId,
           externalProductId: productData.externalProductId,
+          platformData: this.buildPlatformData(productData),
           isActive: true,
         },
         update: {
           externalProductId: productData.externalProductId,
+          platformData: this.buildPlatformData(productData),
           isActive: true,
           updatedAt: new Date(),
         },
@@ -498,11 +643,14 @@ export class SyncOrchestrator {
           name: productData.name,
           sku: productData.sku,
           gtin: productData.gtin,
+          amazonAsin: productData.asin,
+          amazonSku: productData.asin ? productData.sku : undefined,
           isActive: true,
           channels: {
             create: {
               channelId: this.config.channelId,
               externalProductId: productData.externalProductId,
+              platformData: this.buildPlatformData(productData),
               isActive: true,
             },
           },
@@ -519,6 +667,18 @@ export class SyncOrchestrator {
     }
   }
 
+  /**
+   * Platform fields kept on the product channel link (Amazon: ASIN and product type,
+   * which the Listings API needs for inventory updates)
+   */
+  private buildPlatformData(productData: ProductSyncData): Prisma.InputJsonValue | undefined {
+    if (!productData.asin && !productData.amazonProductType) return undefined;
+    return {
+      asin: productData.asin ?? null,
+      productType: productData.amazonProductType ?? null,
+    };
+  }
+
   /**
    * Handle bundle linking - create BundleItems or PendingBundleLinks
    */
@@ -754,6 +914,10 @@ export class SyncOrchestrator {
               console.log(`[SyncOrchestrator] Skipping JTL push for order ${order.externalOrderId} — already has outbound ${dbOrder.jtlOutboundId}`);
             } else if (dbOrder?.isOnHold && dbOrder.holdReason === 'AWAITING_PAYMENT') {
               console.log(`[SyncOrchestrator] Skipping JTL push for order ${order.externalOrderId} — on AWAITING_PAYMENT hold`);
+            } else if (dbOrder?.isOnHold && dbOrder.holdReason === ORDER_RULE_HOLD_REASON) {
+              console.log(`[SyncOrchestrator] Skipping JTL push for order ${order.externalOrderId} — on ORDER_RULE hold`);
+            } else if (dbOrder?.isOnHold && dbOrder.holdReason === BACKORDER_HOLD_REASON) {
+              console.log(`[SyncOrchestrator] Skipping JTL push for order ${order.externalOrderId} — on BACKORDER hold`);
             } else if (dbOrder?.isCancelled) {
               console.log(`[SyncOrchestrator] Skipping JTL push for order ${order.externalOrderId} — cancelled`);
             } else if (dbOrder?.isReplacement) {
@@ -828,6 +992,12 @@ export class SyncOrchestrator {
             } else if (dbOrder?.isOnHold && dbOrder.holdReason === 'AWAITING_PAYMENT') {
               // On payment hold — skip
               console.log(`[SyncOrchestrator] Skipping JTL push for order ${order.externalOrderId} — on AWAITING_PAYMENT hold`);
+            } else if (dbOrder?.isOnHold && dbOrder.holdReason === ORDER_RULE_HOLD_REASON) {
+              // Held by an order rule — skip until released
+              console.log(`[SyncOrchestrator] Skipping JTL push for order ${order.externalOrderId} — on ORDER_RULE hold`);
+            } else if (dbOrder?.isOnHold && dbOrder.holdReason === BACKORDER_HOLD_REASON) {
+              // Backorder — released once its items are in stock
+              console.log(`[SyncOrchestrator] Skipping JTL push for order ${order.externalOrderId} — on BACKORDER hold`);
             } else if (dbOrder?.isCancelled) {
               // Cancelled — skip
               console.log(`[SyncOrchestrator] Skipping JTL push for order ${order.externalOrderId} — cancelled`);
@@ -921,6 +1091,28 @@ export class SyncOrchestrator {
         }
       }
       console.log(`[WooCommerce] Processing ${orders.length} orders (${ordersWithoutAddress} without shipping address)`);
+    } else if (this.config.channelType === 'AMAZON' && this.amazonService) {
+      console.log('[pullOrdersFromChannel] Calling Amazon SP-API...');
+
+      const amazonOrders = since
+        ? await this.amazonService.getOrdersUpdatedSince(since)
+        : await this.amazonService.getAllOrders();
+
+      for (const order of amazonOrders) {
+        orders.push(await this.mapAmazonOrder(order));
+      }
+      console.log(`[Amazon] Processing ${orders.length} orders`);
+    } else if (this.config.channelType === 'EBAY' && this.ebayService) {
+      console.log('[pullOrdersFromChannel] Calling eBay Fulfillment API...');
+
+      const ebayOrders = since
+        ? await this.ebayService.getOrdersUpdatedSince(since)
+        : await this.ebayService.getAllOrders();
+
+      for (const order of ebayOrders) {
+        orders.push(this.mapEbayOrder(order));
+      }
+      console.log(`[eBay] Processing ${orders.length} orders`);
     }
 
     return orders;
@@ -1001,6 +1193,113 @@ export class SyncOrchestrator {
     };
   }
 
+  /**
+   * Map Amazon order to internal format.
+   * Seller SKUs are resolved to warehouse SKUs via the product's Amazon SKU/ASIN.
+   */
+  private async mapAmazonOrder(order: AmazonOrder): Promise<OrderSyncData> {
+    const channel = await this.prisma.channel.findUnique({
+      where: { id: this.config.channelId },
+      select: { clientId: true },
+    });
+
+    const items = await Promise.all((order.OrderItems || []).map(async (item) => {
+      const product = channel
+        ? await this.prisma.product.findFirst({
+            where: {
+              clientId: channel.clientId,
+              OR: [
+                ...(item.SellerSKU ? [{ amazonSku: item.SellerSKU }, { sku: item.SellerSKU }] : []),
+                { amazonAsin: item.ASIN },
+              ],
+            },
+            select: { sku: true },
+          })
+        : null;
+
+      return {
+        sku: product?.sku || item.SellerSKU || `NO-SKU-${item.ASIN}`,
+        productName: item.Title || 'Unknown Product',
+        quantity: item.QuantityOrdered,
+        unitPrice: item.ItemPrice && item.QuantityOrdered
+          ? parseFloat(item.ItemPrice.Amount) / item.QuantityOrdered
+          : undefined,
+      };
+    }));
+
+    // Amazon sends the recipient as a single name
+    const address = order.ShippingAddress;
+    const nameParts = (address?.Name || '').trim().split(/\s+/).filter(Boolean);
+    const lastname = nameParts.pop() || 'Unknown';
+
+    return {
+      localOrderId: '',
+      externalOrderId: order.AmazonOrderId,
+      orderNumber: order.AmazonOrderId,
+      items,
+      shippingAddress: {
+        salutation: undefined,
+        firstname: nameParts.join(' ') || undefined,
+        lastname,
+        company: address?.CompanyName || undefined,
+        street: [address?.AddressLine1, address?.AddressLine2].filter(Boolean).join(', '),
+        houseNumber: undefined,
+        zip: address?.PostalCode || '',
+        city: address?.City || '',
+        country: address?.CountryCode || '',
+        email: order.BuyerInfo?.BuyerEmail,
+        phone: address?.Phone || undefined,
+      },
+      customerEmail: order.BuyerInfo?.BuyerEmail,
+      status: order.OrderStatus,
+      orderDate: order.PurchaseDate ? new Date(order.PurchaseDate) : undefined,
+    };
+  }
+
+  /**
+   * Map eBay order to internal format
+   */
+  private mapEbayOrder(order: EbayOrder): OrderSyncData {
+    const shipTo = order.fulfillmentStartInstructions?.[0]?.shippingStep?.shipTo;
+    const address = shipTo?.contactAddress;
+
+    // eBay sends the recipient as a single name
+    const nameParts = (shipTo?.fullName || '').trim().split(/\s+/).filter(Boolean);
+    const lastname = nameParts.pop() || 'Unknown';
+    const email = shipTo?.email || order.buyer?.buyerRegistrationAddress?.email;
+
+    return {
+      localOrderId: '',
+      externalOrderId: order.orderId,
+      orderNumber: order.legacyOrderId || order.orderId,
+      items: order.lineItems.map(item => ({
+        sku: item.sku || `NO-SKU-${item.legacyItemId || item.lineItemId}`,
+        productName: item.title || 'Unknown Product',
+        quantity: item.quantity,
+        unitPrice: item.lineItemCost && item.quantity
+          ? parseFloat(item.lineItemCost.value) / item.quantity
+          : undefined,
+      })),
+      shippingAddress: {
+        salutation: undefined,
+        firstname: nameParts.join(' ') || undefined,
+        lastname,
+        company: shipTo?.companyName || undefined,
+        street: [address?.addressLine1, address?.addressLine2].filter(Boolean).join(', '),
+        houseNumber: undefined,
+        zip: address?.postalCode || '',
+        city: address?.city || '',
+        country: address?.countryCode || '',
+        email,
+        phone: shipTo?.primaryPhone?.phoneNumber || undefined,
+      },
+      customerEmail: email,
+      status: order.cancelStatus?.cancelState,
+      paymentStatus: order.orderPaymentStatus,
+      orderDate: order.creationDate ? new Date(order.creationDate) : undefined,
+    };
+  }
+
   /**
    * Upsert order in local database
    */
@@ -1021,15 +1320,13 @@ export class SyncOrchestrator {
       where: {
         clientId: channel.clientId,
         externalOrderId: orderData.externalOrderId,
+        isSplitOrder: false,
       },
     });
 
     if (existingOrder) {
       // Determine current payment status from platform data
-      const isWooCommerce = channel.type === 'WOOCOMMERCE';
-      const newPaymentStatus = isWooCommerce
-        ? mapWooCommercePaymentStatus(orderData.status)
-        : orderData.paymentStatus;
+      const newPaymentStatus = resolvePaymentStatus(channel.type, orderData);
 
       const updateData: Record<string, any> = {
         updatedAt: new Date(),
@@ -1042,9 +1339,7 @@ export class SyncOrchestrator {
 
         // Check if payment hold should be released
         const wasOnPaymentHold = existingOrder.isOnHold && existingOrder.holdReason === 'AWAITING_PAYMENT';
-        const isNowPaid = isWooCommerce
-          ? !shouldHoldWooCommerceOrderForPayment(orderData.status)
-          : !shouldHoldShopifyOrderForPayment(newPaymentStatus);
+        const isNowPaid = !shouldHoldOrderForPayment(channel.type, orderData);
 
         if (wasOnPaymentHold && isNowPaid) {
           // Release payment hold
@@ -1061,7 +1356,7 @@ export class SyncOrchestrator {
           updateData.fulfillmentState = 'CANCELED';
           updateData.isCancelled = true;
           updateData.cancelledAt = new Date();
-          updateData.cancelledBy = isWooCommerce ? 'WOOCOMMERCE' : 'SHOPIFY';
+          updateData.cancelledBy = getSyncOrigin(channel.type);
           updateData.cancellationReason = 'Refunded on platform';
           // Also release any hold since order is being cancelled
           updateData.isOnHold = false;
@@ -1070,11 +1365,33 @@ export class SyncOrchestrator {
         }
       }
 
+      // Marketplace cancellations show up as order status, not as a refund
+      if (isCancelledOnMarketplace(channel.type, orderData) && !existingOrder.isCancelled && !updateData.isCancelled) {
+        updateData.status = 'CANCELLED';
+        updateData.fulfillmentState = 'CANCELED';
+        updateData.isCancelled = true;
+        updateData.cancelledAt = new Date();
+        updateData.cancelledBy = getSyncOrigin(channel.type);
+        updateData.cancellationReason = 'Cancelled on platform';
+        updateData.isOnHold = false;
+        updateData.holdReason = null;
+        console.log(`[SyncOrchestrator] Marking cancelled ${channel.type} order ${orderData.externalOrderId} as cancelled`);
+      }
+
       const updatedOrder = await this.prisma.order.update({
         where: { id: existingOrder.id },
         data: updateData,
       });
 
+      // Split parts and merged orders ship on behalf of this order
+      if (updateData.isCancelled) {
+        await new OrderOperationsService(this.prisma).cancelLinkedOrders(
+          updatedOrder.id,
+          updateData.cancelledBy,
+          updateData.cancellationReason
+        );
+      }
+
       // If payment hold was just released, queue for FFN sync
       if (updateData.holdReleasedBy === 'CRON_POLL' && !existingOrder.jtlOutboundId && !updatedOrder.isCancelled) {
         console.log(`[SyncOrchestrator] Queueing order ${orderData.externalOrderId} for FFN sync after payment hold release`);
@@ -1090,21 +1407,18 @@ export class SyncOrchestrator {
       };
     } else {
       // Determine if order requires payment hold
-      const isWooCommerce = channel.type === 'WOOCOMMERCE';
-      const requiresPaymentHold = isWooCommerce
-        ? shouldHoldWooCommerceOrderForPayment(orderData.status)
-        : shouldHoldShopifyOrderForPayment(orderData.paymentStatus);
+      const requiresPaymentHold = shouldHoldOrderForPayment(channel.type, orderData);
 
       console.log(`[SyncOrchestrator] Payment hold check for order ${orderData.externalOrderId}:`, {
         channelType: channel.type,
-        status: isWooCommerce ? orderData.status : orderData.paymentStatus,
+        status: channel.type === 'SHOPIFY' || channel.type === 'EBAY' ? orderData.paymentStatus : orderData.status,
         requiresPaymentHold,
       });
 
       // Determine payment status for this order
-      const resolvedPaymentStatus = isWooCommerce
-        ? mapWooCommercePaymentStatus(orderData.status)
-        : orderData.paymentStatus;
+      const resolvedPaymentStatus = resolvePaymentStatus(channel.type, orderData);
+      const cancelledOnPlatform = resolvedPaymentStatus === 'refunded'
+        || isCancelledOnMarketplace(channel.type, orderData);
 
       // Create new order
       const newOrder = await this.prisma.order.create({
@@ -1114,16 +1428,16 @@ export class SyncOrchestrator {
           channelId: this.config.channelId,
           externalOrderId: orderData.externalOrderId,
           orderNumber: orderData.orderNumber,
-          status: resolvedPaymentStatus === 'refunded' ? 'CANCELLED' : 'PENDING',
-          fulfillmentState: resolvedPaymentStatus === 'refunded' ? 'CANCELED' : 'PENDING',
-          isCancelled: resolvedPaymentStatus === 'refunded',
-          orderOrigin: isWooCommerce ? 'WOOCOMMERCE' : 'SHOPIFY',
+          status: cancelledOnPlatform ? 'CANCELLED' : 'PENDING',
+          fulfillmentState: cancelledOnPlatform ? 'CANCELED' : 'PENDING',
+          isCancelled: cancelledOnPlatform,
+          orderOrigin: getSyncOrigin(channel.type),
           // Payment hold and order date from initial sync
           orderDate: orderData.orderDate,
-          isOnHold: resolvedPaymentStatus === 'refunded' ? false : requiresPaymentHold,
-          holdReason: resolvedPaymentStatus === 'refunded' ? null : (requiresPaymentHold ? 'AWAITING_PAYMENT' : null),
-          holdPlacedAt: resolvedPaymentStatus === 'refunded' ? null : (requiresPaymentHold ? new Date() : null),
-          holdPlacedBy: resolvedPaymentStatus === 'refunded' ? null : (requiresPaymentHold ? 'SYSTEM' : null),
+          isOnHold: cancelledOnPlatform ? false : requiresPaymentHold,
+          holdReason: cancelledOnPlatform ? null : (requiresPaymentHold ? 'AWAITING_PAYMENT' : null),
+          holdPlacedAt: cancelledOnPlatform ? null : (requiresPaymentHold ? new Date() : null),
+          holdPlacedBy: cancelledOnPlatform ? null : (requiresPaymentHold ? 'SYSTEM' : null),
           // Payment status for UI display (Paid/Unpaid badge)
           paymentStatus: resolvedPaymentStatus,
           shippingFirstName: orderData.shippingAddress.firstname || '',
@@ -1176,6 +1490,8 @@ export class SyncOrchestrator {
 
       this.orderUpsertStats.created++;
 
+      await orderRuleService.applyRules(newOrder.id);
+
       return {
         ...orderData,
         localOrderId: newOrder.id,
@@ -1188,6 +1504,26 @@ export class SyncOrchestrator {
    * Push order to JTL FFN as outbound
    */
   private async pushOrderToJTL(orderData: OrderSyncData & { status: OrderStatus }): Promise<void> {
+    // Backorders wait until their items are in stock
+    const backorder = await backorderService.checkBeforePush(orderData.localOrderId);
+    if (!backorder.push) {
+      console.log(`[SyncOrchestrator] Not pushing order ${orderData.orderNumber} to JTL — ${backorder.message}`);
+      return;
+    }
+
+    // The missing units were split off - only the items left on the order ship
+    if (backorder.split) {
+      const remainingItems = await this.prisma.orderItem.findMany({ where: { orderId: orderData.localOrderId } });
+      orderData = {
+        ...orderData,
+        items: remainingItems.map(item => ({
+          sku: item.sku ?? '',
+          productName: item.productName ?? undefined,
+          quantity: item.quantity,
+        })),
+      };
+    }
+
     // Get channel for clientId (needed for fallback product lookup)
     const channel = await this.prisma.channel.findUnique({
       where: { id: this.config.channelId },
@@ -1235,10 +1571,15 @@ export class SyncOrchestrator {
       return;
     }
 
-    const jtlOutbound: JTLOutbound = {
-      merchantOutboundNumber: orderData.orderNumber,
+    const warehouse = await warehouseService.resolveOutboundWarehouse(orderData.localOrderId, {
       warehouseId: this.config.jtlWarehouseId,
       fulfillerId: this.config.jtlFulfillerId,
+    });
+
+    const jtlOutbound: JTLOutbound = {
+      merchantOutboundNumber: orderData.orderNumber,
+      warehouseId: warehouse.warehouseId,
+      fulfillerId: warehouse.fulfillerId,
       externalNumber: orderData.orderNumber,
       shippingType: 'Standard',
       priority: 'Normal',
@@ -1548,6 +1889,7 @@ export class SyncOrchestrator {
         where: {
           channelId: this.config.channelId,
           jtlOutboundId: null,
+          mergedIntoOrderId: null,
         },
         select: {
           id: true,
@@ -1612,6 +1954,8 @@ export class SyncOrchestrator {
               try {
                 const notifications = await this.jtlService.getShippingNotifications(outbound.id);
                 if (notifications.success && notifications.data) {
+                  await lotService.recordShippedLots(matchedOrder.id, notifications.data.items);
+                  await serialService.recordShippedSerials(matchedOrder.id, notifications.data.items);
                   const trackingInfo = this.jtlService.extractTrackingInfo(notifications.data);
                   if (trackingInfo.trackingNumber) {
                     updateData.trackingNumber = trackingInfo.trackingNumber;
@@ -1682,7 +2026,7 @@ export class SyncOrchestrator {
    * Order Eligibility Criteria:
    * - Has no jtlOutboundId (not already linked to JTL)
    * - isCancelled = false
-   * - isOnHold = false (or holdReason not in AWAITING_PAYMENT, SHIPPING_METHOD_MISMATCH)
+   * - isOnHold = false (or holdReason not in AWAITING_PAYMENT, SHIPPING_METHOD_MISMATCH, ORDER_RULE, BACKORDER)
    * - Has at least one item with a jtlProductId (product mapping exists)
    *
    * @returns Statistics about queued, skipped, and errored orders
@@ -1716,6 +2060,7 @@ export class SyncOrchestrator {
         where: {
           channelId: this.config.channelId,
           jtlOutboundId: null,
+          mergedIntoOrderId: null,
         },
         include: {
           items: {
@@ -1766,8 +2111,8 @@ export class SyncOrchestrator {
           // 3. Skip orders on hold with specific reasons
           if (order.isOnHold) {
             const holdReason = order.holdReason;
-            // Skip if on payment hold or shipping method mismatch
-            if (holdReason === 'AWAITING_PAYMENT' || holdReason === 'SHIPPING_METHOD_MISMATCH') {
+            // Skip if on payment hold, shipping method mismatch, held by an order rule or backordered
+            if (holdReason === 'AWAITING_PAYMENT' || holdReason === 'SHIPPING_METHOD_MISMATCH' || holdReason === ORDER_RULE_HOLD_REASON || holdReason === BACKORDER_HOLD_REASON) {
               console.log(`[JTL] Skipping on-hold order ${order.orderNumber} (reason: ${holdReason})`);
               result.skippedOnHold++;
               continue;
@@ -1992,6 +2337,8 @@ export class SyncOrchestrator {
               try {
                 const notifications = await this.jtlService.getShippingNotifications(update.outboundId);
                 if (notifications.success && notifications.data) {
+                  await lotService.recordShippedLots(order.id, notifications.data.items);
+                  await serialService.recordShippedSerials(order.id, notifications.data.items);
                   const trackingInfo = this.jtlService.extractTrackingInfo(notifications.data);
                   if (trackingInfo.trackingNumber) {
                     updateData.trackingNumber = trackingInfo.trackingNumber;
@@ -2207,9 +2554,13 @@ export class SyncOrchestrator {
           const externalOrderId = order.externalOrderId ? parseInt(order.externalOrderId) : null;
           if (externalOrderId) {
             try {
+              // Split parts share the Shopify order — each part only fulfills its own items
               await shopifyService.createFulfillment(externalOrderId, {
                 tracking_number: order.trackingNumber || undefined,
                 tracking_company: order.carrierSelection || undefined,
+                line_items_by_sku: isGraphQLService(shopifyService)
+                  ? await getSplitFulfillmentItems(this.prisma, order.id)
+                  : undefined,
                 notify_customer: true,
               } as any);
               console.log(`[SyncOrchestrator] Created Shopify fulfillment for order ${orderId}${order.trackingNumber ? ` with tracking ${order.trackingNumber}` : ' (no tracking)'}`);
@@ -2260,6 +2611,66 @@ export class SyncOrchestrator {
 
           console.log(`[SyncOrchestrator] Updated WooCommerce order ${order.externalOrderId} to status: ${wooStatus}`);
         }
+      } else if (order.channel.type === 'AMAZON') {
+        // Amazon only knows shipment confirmations; other status changes stay local
+        if (!['SHIPPED', 'DELIVERED', 'FULFILLED'].includes(status.toUpperCase()) || !order.externalOrderId) {
+          return;
+        }
+
+        if (!order.trackingNumber) {
+          console.log(`[SyncOrchestrator] Order ${orderId} has no tracking number yet, skipping Amazon shipment confirmation`);
+          return;
+        }
+
+        const amazonService = createAmazonServiceForChannel(order.channel);
+        if (!amazonService) {
+          console.log(`[SyncOrchestrator] Missing Amazon credentials for channel ${order.channel.id}`);
+          return;
+        }
+
+        await amazonService.confirmShipment(order.externalOrderId, {
+          carrier: order.carrierSelection || undefined,
+          trackingNumber: order.trackingNumber,
+          shipDate: order.shippedAt || new Date(),
+        });
+
+        console.log(`[SyncOrchestrator] Confirmed Amazon shipment for order ${order.externalOrderId} with tracking ${order.trackingNumber}`);
+      } else if (order.channel.type === 'EBAY') {
+        // eBay only takes tracking uploads; other status changes stay local
+        if (!['SHIPPED', 'DELIVERED', 'FULFILLED'].includes(status.toUpperCase()) || !order.externalOrderId) {
+          return;
+        }
+
+        if (!order.trackingNumber) {
+          console.log(`[SyncOrchestrator] Order ${orderId} has no tracking number yet, skipping eBay tracking upload`);
+          return;
+        }
+
+        const ebayService = createEbayServiceForChannel(order.channel);
+        if (!ebayService) {
+          console.log(`[SyncOrchestrator] Missing eBay credentials for channel ${order.channel.id}`);
+          return;
+        }
+
+        await ebayService.createShippingFulfillment(order.externalOrderId, {
+          carrier: order.carrierSelection || undefined,
+          trackingNumber: order.trackingNumber,
+          shippedDate: order.shippedAt || new Date(),
+        });
+
+        console.log(`[SyncOrchestrator] Uploaded eBay tracking for order ${order.externalOrderId}: ${order.trackingNumber}`);
+      } else if (order.channel.type === 'FILE') {
+        // File channels get one shipment file per tracking number
+        if (!['SHIPPED', 'DELIVERED', 'FULFILLED'].includes(status.toUpperCase()) || !order.externalOrderId || !order.trackingNumber) {
+          return;
+        }
+
+        await exportShipmentToFileChannel(this.prisma, {
+          ...order,
+          externalOrderId: order.externalOrderId,
+          trackingNumber: order.trackingNumber,
+          channel: order.channel,
+        });
       }
 
       // Log the fulfillment update
@@ -2768,6 +3179,8 @@ export class SyncOrchestrator {
             try {
               const notifications = await this.jtlService.getShippingNotifications(order.jtlOutboundId!);
               if (notifications.success && notifications.data) {
+                await lotService.recordShippedLots(order.id, notifications.data.items);
+                await serialService.recordShippedSerials(order.id, notifications.data.items);
                 const trackingInfo = this.jtlService.extractTrackingInfo(notifications.data);
                 if (trackingInfo.trackingNumber) {
                   updateData.trackingNumber = trackingInfo.trackingNumber;
@@ -18,6 +18,11 @@ import { getEncryptionService } from '../encryption.service.js';
 import { Logger } from '../../utils/logger.js';
 import { SyncLogger, BatchResult } from '../../utils/sync-logger.js';
 import { generateJobId } from '../../utils/job-id.js';
+import { merchantWebhookService } from '../merchant-webhook.service.js';
+import { warehouseService } from '../warehouse.service.js';
+import { lotService } from '../lot.service.js';
+import { serialService } from '../serial.service.js';
+import { backorderService } from '../backorder.service.js';
 
 // ============= TYPES =============
 
@@ -623,6 +628,19 @@ export class SyncQueueProcessor {
         return { success: false, error: 'JTL not configured or authenticated' };
       }
 
+      // Backorders wait until their items are in stock
+      const backorder = await backorderService.checkBeforePush(order.id);
+      if (!backorder.push) {
+        return { success: false, error: backorder.message };
+      }
+      // The missing units were split off - only the items left on the order ship
+      if (backorder.split) {
+        order.items = await this.prisma.orderItem.findMany({
+          where: { orderId: order.id },
+          include: { product: true },
+        });
+      }
+
       // Initialize JTL service
       const encryptionService = getEncryptionService();
       const jtlService = new JTLService({
@@ -645,9 +663,12 @@ export class SyncQueueProcessor {
         unitPrice: item.unitPrice ? parseFloat(item.unitPrice.toString()) : undefined,
       }));
 
+      const warehouse = await warehouseService.resolveOutboundWarehouse(order.id, jtlConfig);
+
       const jtlOutbound = {
         merchantOutboundNumber: order.orderNumber || order.externalOrderId || order.orderId,
-        warehouseId: jtlConfig.warehouseId,
+        warehouseId: warehouse.warehouseId,
+        fulfillerId: warehouse.fulfillerId,
         currency: order.currency || 'EUR',
         shippingAddress: {
           firstname: order.shippingFirstName || undefined,
@@ -1146,6 +1167,8 @@ export class JTLPollingService {
                     try {
                       const notifications = await jtlService.getShippingNotifications(outboundId);
                       if (notifications.success && notifications.data) {
+                        await lotService.recordShippedLots(order.id, notifications.data.items);
+                        await serialService.recordShippedSerials(order.id, notifications.data.items);
                         const trackingInfo = jtlService.extractTrackingInfo(notifications.data);
                         if (trackingInfo.trackingNumber) {
                           updateData.trackingNumber = trackingInfo.trackingNumber;
@@ -1165,6 +1188,8 @@ export class JTLPollingService {
 
                   // Queue commerce platform sync when order is shipped
                   if (newFulfillmentState === 'SHIPPED') {
+                    await merchantWebhookService.emitOrderEvent(order.id, 'order.shipped');
+
                     try {
                       const { getQueue, QUEUE_NAMES } = await import('../queue/sync-queue.service.js');
                       const queue = getQueue();
@@ -8,10 +8,17 @@ import { PrismaClient, ChannelType } from '@prisma/client';
 import { SyncOrchestrator } from './sync-orchestrator.js';
 import { SyncResult } from './types.js';
 import { getEncryptionService } from '../encryption.service.js';
+import { getAmazonCredentialsForChannel } from './amazon.service.js';
+import { getEbayCredentialsForChannel } from './ebay.service.js';
+import { getFileChannelCredentialsForChannel } from './file-channel.service.js';
 import { JTLService } from './jtl.service.js';
 import { JTLTokenManager } from './jtl-token-manager.js';
 import { StockSyncService } from './stock-sync.service.js';
+import { FileChannelSyncService } from './file-channel-sync.service.js';
 import { notificationService } from '../notification.service.js';
+import { ORDER_RULE_HOLD_REASON } from '../order-rule.service.js';
+import { BACKORDER_HOLD_REASON } from '../backorder.service.js';
+import { lotService } from '../lot.service.js';
 import { Logger } from '../../utils/logger.js';
 import { generateJobId } from '../../utils/job-id.js';
 import { getQueue, QUEUE_NAMES, OrderSyncJobData } from '../queue/sync-queue.service.js';
@@ -65,6 +72,12 @@ interface SchedulerConfig {
    * Default: 10 minutes
    */
   paidOrderSyncIntervalMinutes: number;
+
+  /**
+   * Interval for checking lots that reach their best-before date soon in hours
+   * Default: 6 hours
+   */
+  lotExpiryCheckIntervalHours: number;
 }
 
 interface ChannelSyncState {
@@ -96,6 +109,10 @@ interface ChannelWithConfig {
   apiUrl?: string | null;
   apiClientId?: string | null;
   apiClientSecret?: string | null;
+  refreshToken?: string | null;
+  sellerId?: string | null;
+  marketplaceId?: string | null;
+  fileConfig?: unknown;
   client: {
     id: string;
     companyName: string;
@@ -124,7 +141,9 @@ export class SyncScheduler {
   private inboundPollTimer?: NodeJS.Timeout;
   private commerceReconcileTimer?: NodeJS.Timeout;
   private paidOrderSyncTimer?: NodeJS.Timeout;
+  private lotExpiryTimer?: NodeJS.Timeout;
   private stockSyncService: StockSyncService;
+  private fileChannelSyncService: FileChannelSyncService;
   private isRunning = false;
   private logger = new Logger('SyncScheduler');
 
@@ -137,12 +156,14 @@ export class SyncScheduler {
     stockSyncIntervalMinutes: 15,
     inboundPollIntervalMinutes: 2,
     paidOrderSyncIntervalMinutes: 10,
+    lotExpiryCheckIntervalHours: 6,
   };
 
   constructor(prisma: PrismaClient, config?: Partial<SchedulerConfig>) {
     this.prisma = prisma;
     this.config = { ...SyncScheduler.DEFAULT_CONFIG, ...config };
     this.stockSyncService = new StockSyncService(prisma);
+    this.fileChannelSyncService = new FileChannelSyncService(prisma);
   }
 
   /**
@@ -169,6 +190,7 @@ export class SyncScheduler {
     this.startInboundPollTimer();
     this.startCommerceReconcileTimer();
     this.startPaidOrderSyncTimer();
+    this.startLotExpiryTimer();
 
     console.log('Sync scheduler started successfully');
     console.log(`- Incremental sync: every ${this.config.incrementalSyncIntervalMinutes} minutes`);
@@ -179,6 +201,7 @@ export class SyncScheduler {
     console.log(`- Inbound poll (stock trigger): every ${this.config.inboundPollIntervalMinutes} minutes`);
     console.log(`- Commerce reconcile: every 30 minutes`);
     console.log(`- Paid order FFN sync: every ${this.config.paidOrderSyncIntervalMinutes} minutes`);
+    console.log(`- Lot expiry check: every ${this.config.lotExpiryCheckIntervalHours} hours`);
   }
 
   /**
@@ -232,6 +255,11 @@ export class SyncScheduler {
       this.paidOrderSyncTimer = undefined;
     }
 
+    if (this.lotExpiryTimer) {
+      clearInterval(this.lotExpiryTimer);
+      this.lotExpiryTimer = undefined;
+    }
+
     this.isRunning = false;
     console.log('Sync scheduler stopped');
   }
@@ -244,7 +272,7 @@ export class SyncScheduler {
       where: {
         isActive: true,
         syncEnabled: true,
-        type: { in: ['SHOPIFY', 'WOOCOMMERCE'] },
+        type: { in: ['SHOPIFY', 'WOOCOMMERCE', 'AMAZON', 'EBAY', 'FILE'] },
       },
       include: {
         client: {
@@ -390,6 +418,52 @@ export class SyncScheduler {
     }, intervalMs);
   }
 
+  /**
+   * Start lot expiry timer
+   * Notifies lots on hand that reach their best-before date soon (once per lot)
+   */
+  private startLotExpiryTimer(): void {
+    const intervalMs = this.config.lotExpiryCheckIntervalHours * 60 * 60 * 1000;
+
+    // First run after 5 minute delay (after the first stock sync)
+    setTimeout(() => {
+      this.checkExpiringLots();
+    }, 5 * 60 * 1000);
+
+    this.lotExpiryTimer = setInterval(() => {
+      this.checkExpiringLots();
+    }, intervalMs);
+  }
+
+  /**
+   * Notify lots that reach their best-before date within the warning period
+   */
+  async checkExpiringLots(): Promise<void> {
+    const jobId = generateJobId('lot-expiry');
+    const startTime = Date.now();
+
+    try {
+      const notified = await lotService.notifyExpiringLots();
+
+      this.logger.info({
+        jobId,
+        event: 'job_completed',
+        operation: 'lotExpiry',
+        duration: Date.now() - startTime,
+        lotsNotified: notified,
+      });
+    } catch (error) {
+      this.logger.error({
+        jobId,
+        event: 'job_failed',
+        operation: 'lotExpiry',
+        duration: Date.now() - startTime,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        stack: error instanceof Error ? error.stack : undefined
+      });
+    }
+  }
+
   /**
    * Find paid orders that were never synced to JTL FFN and enqueue them.
    * Excludes replacement orders (must be synced manually via force).
@@ -417,12 +491,13 @@ export class SyncScheduler {
       const unsyncedOrders = await this.prisma.order.findMany({
         where: {
           jtlOutboundId: null,
+          mergedIntoOrderId: null,
           paymentStatus: { in: SAFE_PAYMENT_STATUSES },
           isReplacement: false,
           isCancelled: false,
           OR: [
             { isOnHold: false },
-            { holdReason: { notIn: ['AWAITING_PAYMENT', 'SHIPPING_METHOD_MISMATCH'] } },
+            { holdReason: { notIn: ['AWAITING_PAYMENT', 'SHIPPING_METHOD_MISMATCH', ORDER_RULE_HOLD_REASON, BACKORDER_HOLD_REASON] } },
             { paymentHoldOverride: true },
           ],
           channel: {
@@ -1343,6 +1418,13 @@ export class SyncScheduler {
 
       const result = await orchestrator.runIncrementalSync(since);
 
+      // File channels have no API to pull from: the orchestrator only polls JTL for them,
+      // orders come from the inbox and stock goes out as a snapshot file
+      if (channel.type === 'FILE') {
+        result.orders = await this.fileChannelSyncService.importOrders(channel.id);
+        result.products = await this.fileChannelSyncService.exportStock(channel.id);
+      }
+
       state.lastIncrementalSync = new Date();
       state.lastError = undefined;
 
@@ -1660,7 +1742,7 @@ export class SyncScheduler {
       where: {
         isActive: true,
         syncEnabled: true,
-        type: { in: ['SHOPIFY', 'WOOCOMMERCE'] },
+        type: { in: ['SHOPIFY', 'WOOCOMMERCE', 'AMAZON', 'EBAY', 'FILE'] },
       },
       include: {
         client: {
@@ -1734,6 +1816,68 @@ export class SyncScheduler {
         jtlWarehouseId: jtlConfig.warehouseId,
         jtlFulfillerId: jtlConfig.fulfillerId,
       });
+    } else if (channel.type === 'AMAZON') {
+      const amazonCredentials = getAmazonCredentialsForChannel(channel);
+      if (!amazonCredentials) {
+        console.warn(`[Scheduler] Missing Amazon credentials for channel ${channel.id}`);
+        return null;
+      }
+
+      return new SyncOrchestrator(this.prisma, {
+        channelId: channel.id,
+        channelType: 'AMAZON',
+        amazonCredentials,
+        jtlCredentials: {
+          clientId: jtlConfig.clientId,
+          clientSecret: jtlConfig.clientSecret,
+          accessToken: jtlConfig.accessToken || undefined,
+          refreshToken: jtlConfig.refreshToken || undefined,
+          environment: jtlConfig.environment as 'sandbox' | 'production',
+        },
+        jtlWarehouseId: jtlConfig.warehouseId,
+        jtlFulfillerId: jtlConfig.fulfillerId,
+      });
+    } else if (channel.type === 'EBAY') {
+      const ebayCredentials = getEbayCredentialsForChannel(channel);
+      if (!ebayCredentials) {
+        console.warn(`[Scheduler] Missing eBay credentials for channel ${channel.id}`);
+        return null;
+      }
+
+      return new SyncOrchestrator(this.prisma, {
+        channelId: channel.id,
+        channelType: 'EBAY',
+        ebayCredentials,
+        jtlCredentials: {
+          clientId: jtlConfig.clientId,
+          clientSecret: jtlConfig.clientSecret,
+          accessToken: jtlConfig.accessToken || undefined,
+          refreshToken: jtlConfig.refreshToken || undefined,
+          environment: jtlConfig.environment as 'sandbox' | 'production',
+        },
+        jtlWarehouseId: jtlConfig.warehouseId,
+        jtlFulfillerId: jtlConfig.fulfillerId,
+      });
+    } else if (channel.type === 'FILE') {
+      if (!getFileChannelCredentialsForChannel({ ...channel, clientId: channel.client.id })) {
+        console.warn(`[Scheduler] Missing file configuration for channel ${channel.id}`);
+        return null;
+      }
+
+      // Only used for JTL polling; files are handled by FileChannelSyncService
+      return new SyncOrchestrator(this.prisma, {
+        channelId: channel.id,
+        channelType: 'FILE',
+        jtlCredentials: {
+          clientId: jtlConfig.clientId,
+          clientSecret: jtlConfig.clientSecret,
+          accessToken: jtlConfig.accessToken || undefined,
+          refreshToken: jtlConfig.refreshToken || undefined,
+          environment: jtlConfig.environment as 'sandbox' | 'production',
+        },
+        jtlWarehouseId: jtlConfig.warehouseId,
+        jtlFulfillerId: jtlConfig.fulfillerId,
+      });
     }
 
     return null;
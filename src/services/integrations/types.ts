@@ -1,6 +1,6 @@
 /**
  * Common types for e-commerce platform integrations
- * Shopify, WooCommerce, and JTL FFN
+ * Shopify, WooCommerce, Amazon, eBay, and JTL FFN
  */
 
 // ============= SHOPIFY TYPES =============
@@ -259,6 +259,260 @@ export interface WooCommerceCategory {
   slug: string;
 }
 
+// ============= AMAZON SP-API TYPES =============
+
+export interface AmazonCredentials {
+  clientId: string;       // LWA client ID of the SP-API app
+  clientSecret: string;   // LWA client secret
+  refreshToken: string;   // LWA refresh token from the seller's authorization
+  sellerId: string;       // Merchant token
+  marketplaceId: string;  // e.g. A1PA6795UKMFR9 (amazon.de)
+  endpoint?: string;      // SP-API base URL; defaults to the EU endpoint
+  tokenUrl?: string;      // LWA token URL; overridable for a mock SP-API server
+}
+
+export interface AmazonMoney {
+  CurrencyCode: string;
+  Amount: string;
+}
+
+export interface AmazonAddress {
+  Name?: string;
+  CompanyName?: string;
+  AddressLine1?: string;
+  AddressLine2?: string;
+  AddressLine3?: string;
+  City?: string;
+  StateOrRegion?: string;
+  PostalCode?: string;
+  CountryCode?: string;
+  Phone?: string;
+}
+
+export interface AmazonOrder {
+  AmazonOrderId: string;
+  PurchaseDate: string;
+  LastUpdateDate: string;
+  OrderStatus: 'Pending' | 'Unshipped' | 'PartiallyShipped' | 'Shipped' | 'Canceled' | 'Unfulfillable' | 'InvoiceUnconfirmed' | 'PendingAvailability';
+  FulfillmentChannel: 'MFN' | 'AFN';
+  MarketplaceId: string;
+  OrderTotal?: AmazonMoney;
+  ShipServiceLevel?: string;
+  ShippingAddress?: AmazonAddress;
+  BuyerInfo?: {
+    BuyerEmail?: string;
+    BuyerName?: string;
+  };
+  // Filled in by AmazonService from getOrderItems
+  OrderItems?: AmazonOrderItem[];
+}
+
+export interface AmazonOrderItem {
+  OrderItemId: string;
+  ASIN: string;
+  SellerSKU?: string;
+  Title?: string;
+  QuantityOrdered: number;
+  QuantityShipped?: number;
+  ItemPrice?: AmazonMoney;
+}
+
+export interface AmazonListingItem {
+  sku: string;
+  summaries?: Array<{
+    marketplaceId: string;
+    asin?: string;
+    productType: string;
+    itemName?: string;
+    status?: string[];
+    mainImage?: { link: string };
+    lastUpdatedDate?: string;
+  }>;
+}
+
+export interface AmazonShipmentConfirmation {
+  carrier?: string;         // Our carrier name, mapped to an Amazon carrier code
+  trackingNumber: string;
+  shipDate: Date;
+  shippingMethod?: string;
+}
+
+// ============= EBAY SELL API TYPES =============
+
+export interface EbayCredentials {
+  clientId: string;       // eBay app ID (OAuth client ID)
+  clientSecret: string;   // eBay cert ID (OAuth client secret)
+  refreshToken: string;   // User refresh token from the seller's consent
+  marketplaceId: string;  // e.g. EBAY_DE
+  endpoint?: string;      // Defaults to production (https://api.ebay.com)
+}
+
+export interface EbayAmount {
+  value: string;
+  currency: string;
+}
+
+export interface EbayAddress {
+  addressLine1?: string;
+  addressLine2?: string;
+  city?: string;
+  stateOrProvince?: string;
+  postalCode?: string;
+  countryCode?: string;
+}
+
+export interface EbayOrder {
+  orderId: string;
+  legacyOrderId?: string;
+  creationDate: string;
+  lastModifiedDate: string;
+  orderFulfillmentStatus: 'NOT_STARTED' | 'IN_PROGRESS' | 'FULFILLED';
+  orderPaymentStatus: 'PAID' | 'PENDING' | 'FAILED' | 'FULLY_REFUNDED' | 'PARTIALLY_REFUNDED';
+  cancelStatus?: {
+    cancelState: 'NONE_REQUESTED' | 'IN_PROGRESS' | 'CANCELED';
+  };
+  buyer?: {
+    username: string;
+    buyerRegistrationAddress?: {
+      fullName?: string;
+      email?: string;
+    };
+  };
+  pricingSummary?: {
+    total?: EbayAmount;
+  };
+  fulfillmentStartInstructions?: Array<{
+    shippingStep?: {
+      shipTo?: {
+        fullName?: string;
+        companyName?: string;
+        contactAddress?: EbayAddress;
+        primaryPhone?: { phoneNumber?: string };
+        email?: string;
+      };
+      shippingCarrierCode?: string;
+      shippingServiceCode?: string;
+    };
+  }>;
+  lineItems: EbayLineItem[];
+}
+
+export interface EbayLineItem {
+  lineItemId: string;
+  legacyItemId?: string;
+  sku?: string;
+  title: string;
+  quantity: number;
+  lineItemCost?: EbayAmount;
+  lineItemFulfillmentStatus?: 'NOT_STARTED' | 'IN_PROGRESS' | 'FULFILLED';
+}
+
+export interface EbayInventoryItem {
+  sku: string;
+  product?: {
+    title?: string;
+    imageUrls?: string[];
+    ean?: string[];
+    upc?: string[];
+  };
+  availability?: {
+    shipToLocationAvailability?: {
+      quantity?: number;
+    };
+  };
+}
+
+export interface EbayShippingFulfillment {
+  carrier?: string;
+  trackingNumber: string;
+  shippedDate: Date;
+}
+
+// ============= FILE CHANNEL TYPES =============
+
+export type FileChannelFormat = 'csv' | 'xml';
+export type FileChannelTransport = 'local' | 'sftp';
+
+/**
+ * Order fields a file column (CSV header or XML element name) can be mapped to.
+ * Item fields (sku, productName, quantity, unitPrice) are read per CSV row / XML item element.
+ */
+export type FileOrderField =
+  | 'externalOrderId'
+  | 'orderNumber'
+  | 'orderDate'
+  | 'customerName'
+  | 'customerEmail'
+  | 'customerPhone'
+  | 'shippingFirstName'
+  | 'shippingLastName'
+  | 'shippingCompany'
+  | 'shippingAddress1'
+  | 'shippingAddress2'
+  | 'shippingCity'
+  | 'shippingZip'
+  | 'shippingCountryCode'
+  | 'billingFirstName'
+  | 'billingLastName'
+  | 'billingCompany'
+  | 'billingAddress1'
+  | 'billingAddress2'
+  | 'billingCity'
+  | 'billingZip'
+  | 'billingCountry'
+  | 'shippingMethod'
+  | 'shippingMethodCode'
+  | 'paymentStatus'
+  | 'paymentMethod'
+  | 'currency'
+  | 'shippingCost'
+  | 'total'
+  | 'notes'
+  | 'sku'
+  | 'productName'
+  | 'quantity'
+  | 'unitPrice';
+
+export interface FileChannelConfig {
+  transport: FileChannelTransport;
+  sftp?: {
+    host: string;
+    port?: number;        // Defaults to 22
+    username: string;
+  };
+  format: FileChannelFormat;
+  inboxPath: string;      // Directory the merchant drops order files into
+  archivePath?: string;   // Imported files are moved here (default: {inboxPath}/processed)
+  errorPath?: string;     // Files that could not be imported are moved here (default: {inboxPath}/failed)
+  outboxPath: string;     // Shipment and stock files are written here
+  delimiter?: string;     // CSV only, defaults to ';'
+  columnMapping?: Partial<Record<FileOrderField, string>>; // Unmapped fields use the field name as column
+  xmlOrderPath?: string;  // XML only: dot path to the order elements (default: orders.order)
+  xmlItemPath?: string;   // XML only: dot path to the item elements within an order (default: items.item)
+}
+
+export interface FileChannelCredentials {
+  clientId: string;       // Local paths must lie in FILE_CHANNEL_ROOT/{clientId}
+  config: FileChannelConfig;
+  password?: string;      // SFTP password
+  privateKey?: string;    // SFTP private key (PEM), used instead of the password when set
+}
+
+export interface FileChannelShipment {
+  externalOrderId: string;
+  orderNumber?: string | null;
+  trackingNumber?: string | null;
+  carrier?: string | null;
+  trackingUrl?: string | null;
+  shippedAt: Date;
+}
+
+export interface FileChannelStockRow {
+  sku: string;
+  gtin?: string | null;
+  available: number;
+}
+
 // ============= JTL FFN MERCHANT API TYPES =============
 
 export interface JTLCredentials {
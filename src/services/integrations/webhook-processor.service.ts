@@ -11,7 +11,11 @@
 
 import { PrismaClient, ChannelType, OrderStatus, ReturnStatus } from '@prisma/client';
 import { SyncQueueProcessor } from './sync-queue-processor.service.js';
+import { OrderOperationsService } from './order-operations.service.js';
 import { Logger } from '../../utils/logger.js';
+import { orderRuleService } from '../order-rule.service.js';
+import { stockMovementService } from '../stock-movement.service.js';
+import { channelStockService } from '../channel-stock.service.js';
 
 // ============= TYPES =============
 
@@ -325,6 +329,11 @@ export class WebhookProcessorService {
       }
 
       if (action === 'update' && existingProductChannel) {
+        // A rule-managed channel only shows the published quantity, not the stock
+        const inventory = await channelStockService.isRuleManaged(channelId, existingProductChannel.productId)
+          ? undefined
+          : variant?.inventory_quantity ?? undefined;
+
         // Update existing product
         await this.prisma.product.update({
           where: { id: existingProductChannel.productId },
@@ -333,7 +342,7 @@ export class WebhookProcessorService {
             description: payload.body_html || null,
             sku: variant?.sku || existingProductChannel.product.sku,
             netSalesPrice: variant?.price ? parseFloat(variant.price) : undefined,
-            available: variant?.inventory_quantity ?? undefined,
+            available: inventory,
             weightInKg: variant?.weight
               ? this.convertWeight(variant.weight, variant.weight_unit)
               : undefined,
@@ -342,6 +351,13 @@ export class WebhookProcessorService {
           },
         });
 
+        if (inventory !== undefined) {
+          await stockMovementService.record(existingProductChannel.product, { available: inventory }, 'channel_sync', {
+            referenceType: 'Channel',
+            referenceId: channelId,
+          });
+        }
+
         // Queue sync to JTL FFN
         await this.queueJTLSync(existingProductChannel.productId, 'SHOPIFY');
 
@@ -452,6 +468,7 @@ export class WebhookProcessorService {
       where: {
         clientId,
         externalOrderId: externalId,
+        isSplitOrder: false,
       },
     });
 
@@ -462,6 +479,11 @@ export class WebhookProcessorService {
             where: { id: existingOrder.id },
             data: { status: OrderStatus.CANCELLED },
           });
+          await new OrderOperationsService(this.prisma).cancelLinkedOrders(
+            existingOrder.id,
+            'SHOPIFY',
+            'Cancelled on platform'
+          );
 
           return {
             success: true,
@@ -643,11 +665,15 @@ export class WebhookProcessorService {
           }
         }
 
-        // Queue sync to JTL FFN only if payment is confirmed
-        if (!requiresPaymentHold) {
-          await this.queueJTLOrderSync(newOrder.id, 'SHOPIFY');
-        } else {
+        const ruleResult = await orderRuleService.applyRules(newOrder.id);
+
+        // Queue sync to JTL FFN only if payment is confirmed and no order rule held it
+        if (requiresPaymentHold) {
           console.log(`[WebhookProcessor] Shopify order ${orderId} placed on payment hold — skipping FFN sync queue`);
+        } else if (ruleResult.held) {
+          console.log(`[WebhookProcessor] Shopify order ${orderId} placed on hold by order rule — skipping FFN sync queue`);
+        } else {
+          await this.queueJTLOrderSync(newOrder.id, 'SHOPIFY');
         }
 
         return {
@@ -693,6 +719,7 @@ export class WebhookProcessorService {
         where: {
           channelId,
           externalOrderId,
+          isSplitOrder: false,
         },
       });
 
@@ -854,6 +881,11 @@ export class WebhookProcessorService {
       }
 
       if (action === 'updated' && existingProductChannel) {
+        // A rule-managed channel only shows the published quantity, not the stock
+        const inventory = await channelStockService.isRuleManaged(channelId, existingProductChannel.productId)
+          ? undefined
+          : payload.stock_quantity ?? undefined;
+
         await this.prisma.product.update({
           where: { id: existingProductChannel.productId },
           data: {
@@ -861,13 +893,20 @@ export class WebhookProcessorService {
             description: payload.description || null,
             sku: payload.sku || existingProductChannel.product.sku,
             netSalesPrice: payload.price ? parseFloat(payload.price) : undefined,
-            available: payload.stock_quantity ?? undefined,
+            available: inventory,
             weightInKg: payload.weight ? parseFloat(payload.weight) : undefined,
             imageUrl: payload.images?.[0]?.src || null,
             updatedAt: new Date(),
           },
         });
 
+        if (inventory !== undefined) {
+          await stockMovementService.record(existingProductChannel.product, { available: inventory }, 'channel_sync', {
+            referenceType: 'Channel',
+            referenceId: channelId,
+          });
+        }
+
         // Queue sync to JTL FFN
         await this.queueJTLSync(existingProductChannel.productId, 'WOOCOMMERCE');
 
@@ -970,6 +1009,7 @@ export class WebhookProcessorService {
       where: {
         clientId,
         externalOrderId: externalId,
+        isSplitOrder: false,
       },
     });
 
@@ -980,6 +1020,11 @@ export class WebhookProcessorService {
             where: { id: existingOrder.id },
             data: { status: OrderStatus.CANCELLED },
           });
+          await new OrderOperationsService(this.prisma).cancelLinkedOrders(
+            existingOrder.id,
+            'WOOCOMMERCE',
+            'Cancelled on platform'
+          );
 
           return {
             success: true,
@@ -1157,11 +1202,15 @@ export class WebhookProcessorService {
           }
         }
 
-        // Queue sync to JTL FFN only if payment is confirmed
-        if (!requiresPaymentHold) {
-          await this.queueJTLOrderSync(newOrder.id, 'WOOCOMMERCE');
-        } else {
+        const ruleResult = await orderRuleService.applyRules(newOrder.id);
+
+        // Queue sync to JTL FFN only if payment is confirmed and no order rule held it
+        if (requiresPaymentHold) {
           console.log(`[WebhookProcessor] Order ${orderId} placed on payment hold — skipping FFN sync queue`);
+        } else if (ruleResult.held) {
+          console.log(`[WebhookProcessor] Order ${orderId} placed on hold by order rule — skipping FFN sync queue`);
+        } else {
+          await this.queueJTLOrderSync(newOrder.id, 'WOOCOMMERCE');
         }
 
         return {
@@ -1215,6 +1264,7 @@ export class WebhookProcessorService {
         where: {
           channelId,
           externalOrderId: String(payload.order_id),
+          isSplitOrder: false,
         },
       });
 
@@ -12,6 +12,7 @@ import {
   SyncResult,
   SyncItemResult,
 } from './types.js';
+import { assertNotDryRun } from '../../utils/dry-run.js';
 
 const DEFAULT_API_VERSION = 'wc/v3';
 
@@ -54,6 +55,7 @@ export class WooCommerceService {
 
     const separator = endpoint.includes('?') ? '&' : '?';
     const url = `${this.baseUrl}${endpoint}${separator}${authParams.toString()}`;
+    if (options.method && options.method !== 'GET') assertNotDryRun(`WooCommerce ${options.method} ${endpoint}`);
     
     const response = await fetch(url, {
       ...options,
@@ -0,0 +1,369 @@
+/**
+ * Inventory Alert Service
+ *
+ * Evaluates product stock against the warehouse-owned thresholds
+ * (Product.minStockLevel and Product.reorderPoint) and raises
+ * INVENTORY_LOW / INVENTORY_REORDER notifications on a threshold crossing.
+ *
+ * KEY CONCEPTS:
+ * 1. Free stock = available - reserved - quantity of open orders not yet pushed to FFN
+ * 2. A threshold of 0 disables that alert for the product
+ * 3. Only one open InventoryAlert exists per product and threshold type,
+ *    so repeated syncs below the threshold do not spam notifications
+ * 4. When free stock rises above the threshold again, the open alert is resolved
+ *    and the next drop will alert again
+ */
+
+import { PrismaClient, InventoryAlertType } from '@prisma/client';
+import { notificationService } from './notification.service.js';
+
+export type InventoryAlertSource =
+  | 'ffn_sync'
+  | 'inbound'
+  | 'order_reservation'
+  | 'return_restock'
+  | 'manual'
+  | 'stocktake';
+
+export interface InventoryAlertEvaluationResult {
+  productsEvaluated: number;
+  alertsRaised: number;
+  alertsResolved: number;
+}
+
+export interface ReorderReportItem {
+  productId: string;
+  sku: string;
+  name: string;
+  available: number;
+  reserved: number;
+  announced: number;
+  pendingOrderQuantity: number;
+  freeStock: number;
+  minStockLevel: number;
+  reorderPoint: number;
+  belowMinStock: boolean;
+  suggestedReorderQuantity: number;
+  openAlertSince: Date | null;
+}
+
+interface ProductStockSnapshot {
+  id: string;
+  sku: string;
+  name: string;
+  clientId: string;
+  available: number;
+  reserved: number;
+  announced: number;
+  minStockLevel: number;
+  reorderPoint: number;
+}
+
+const PRODUCT_STOCK_SELECT = {
+  id: true,
+  sku: true,
+  name: true,
+  clientId: true,
+  available: true,
+  reserved: true,
+  announced: true,
+  minStockLevel: true,
+  reorderPoint: true,
+} as const;
+
+export class InventoryAlertService {
+  private prisma: PrismaClient;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  /**
+   * Evaluate a set of products after their stock changed
+   */
+  async evaluateProducts(
+    productIds: string[],
+    source: InventoryAlertSource
+  ): Promise<InventoryAlertEvaluationResult> {
+    const result: InventoryAlertEvaluationResult = {
+      productsEvaluated: 0,
+      alertsRaised: 0,
+      alertsResolved: 0,
+    };
+
+    if (productIds.length === 0) return result;
+
+    const products = await this.prisma.product.findMany({
+      where: {
+        id: { in: [...new Set(productIds)] },
+        isActive: true,
+      },
+      select: PRODUCT_STOCK_SELECT,
+    });
+
+    return this.evaluateSnapshots(products, source, result);
+  }
+
+  /**
+   * Evaluate products of a client by SKU (used where only order line SKUs are known)
+   */
+  async evaluateSkus(
+    clientId: string,
+    skus: string[],
+    source: InventoryAlertSource
+  ): Promise<InventoryAlertEvaluationResult> {
+    const result: InventoryAlertEvaluationResult = {
+      productsEvaluated: 0,
+      alertsRaised: 0,
+      alertsResolved: 0,
+    };
+
+    const uniqueSkus = [...new Set(skus.filter(Boolean))];
+    if (uniqueSkus.length === 0) return result;
+
+    const products = await this.prisma.product.findMany({
+      where: {
+        clientId,
+        sku: { in: uniqueSkus },
+        isActive: true,
+      },
+      select: PRODUCT_STOCK_SELECT,
+    });
+
+    return this.evaluateSnapshots(products, source, result);
+  }
+
+  /**
+   * Products of a client whose free stock is at or below their reorder point
+   */
+  async getReorderReport(clientId: string): Promise<ReorderReportItem[]> {
+    const products = await this.prisma.product.findMany({
+      where: {
+        clientId,
+        isActive: true,
+        isBundle: false,
+        reorderPoint: { gt: 0 },
+      },
+      select: PRODUCT_STOCK_SELECT,
+      orderBy: { sku: 'asc' },
+    });
+
+    if (products.length === 0) return [];
+
+    const pendingBySku = await this.getPendingOrderQuantities(
+      clientId,
+      products.map(p => p.sku)
+    );
+
+    const openAlerts = await this.prisma.inventoryAlert.findMany({
+      where: {
+        clientId,
+        type: InventoryAlertType.REORDER_POINT,
+        isResolved: false,
+      },
+      select: { productId: true, createdAt: true },
+    });
+    const openAlertMap = new Map(openAlerts.map(a => [a.productId, a.createdAt]));
+
+    const report: ReorderReportItem[] = [];
+
+    for (const product of products) {
+      const pendingOrderQuantity = pendingBySku.get(product.sku) ?? 0;
+      const freeStock = this.calculateFreeStock(product, pendingOrderQuantity);
+
+      if (freeStock > product.reorderPoint) continue;
+
+      // Bring free stock (including what is already announced) back above the reorder point
+      const target = Math.max(product.reorderPoint, product.minStockLevel) * 2;
+      const suggestedReorderQuantity = Math.max(0, target - freeStock - product.announced);
+
+      report.push({
+        productId: product.id,
+        sku: product.sku,
+        name: product.name,
+        available: product.available,
+        reserved: product.reserved,
+        announced: product.announced,
+        pendingOrderQuantity,
+        freeStock,
+        minStockLevel: product.minStockLevel,
+        reorderPoint: product.reorderPoint,
+        belowMinStock: product.minStockLevel > 0 && freeStock <= product.minStockLevel,
+        suggestedReorderQuantity,
+        openAlertSince: openAlertMap.get(product.id) ?? null,
+      });
+    }
+
+    return report.sort((a, b) => a.freeStock - b.freeStock);
+  }
+
+  // ============= PRIVATE HELPERS =============
+
+  private async evaluateSnapshots(
+    products: ProductStockSnapshot[],
+    source: InventoryAlertSource,
+    result: InventoryAlertEvaluationResult
+  ): Promise<InventoryAlertEvaluationResult> {
+    // Group by client so pending order quantities are fetched once per client
+    const byClient = new Map<string, ProductStockSnapshot[]>();
+    for (const product of products) {
+      const list = byClient.get(product.clientId) ?? [];
+      list.push(product);
+      byClient.set(product.clientId, list);
+    }
+
+    for (const [clientId, clientProducts] of byClient) {
+      const pendingBySku = await this.getPendingOrderQuantities(
+        clientId,
+        clientProducts.map(p => p.sku)
+      );
+
+      for (const product of clientProducts) {
+        const freeStock = this.calculateFreeStock(product, pendingBySku.get(product.sku) ?? 0);
+        result.productsEvaluated++;
+
+        try {
+          const checks: Array<{ type: InventoryAlertType; threshold: number }> = [
+            { type: InventoryAlertType.LOW_STOCK, threshold: product.minStockLevel },
+            { type: InventoryAlertType.REORDER_POINT, threshold: product.reorderPoint },
+          ];
+
+          for (const check of checks) {
+            const outcome = await this.applyThreshold(product, check.type, check.threshold, freeStock, source);
+            if (outcome === 'raised') result.alertsRaised++;
+            if (outcome === 'resolved') result.alertsResolved++;
+          }
+        } catch (error) {
+          console.error(`[InventoryAlert] Failed to evaluate ${product.sku}:`, error);
+        }
+      }
+    }
+
+    if (result.alertsRaised > 0 || result.alertsResolved > 0) {
+      console.log(
+        `[InventoryAlert] ${source}: evaluated ${result.productsEvaluated} products, ` +
+        `raised ${result.alertsRaised}, resolved ${result.alertsResolved}`
+      );
+    }
+
+    return result;
+  }
+
+  /**
+   * Raise or resolve the alert for one product/threshold pair
+   */
+  private async applyThreshold(
+    product: ProductStockSnapshot,
+    type: InventoryAlertType,
+    threshold: number,
+    freeStock: number,
+    source: InventoryAlertSource
+  ): Promise<'raised' | 'resolved' | 'unchanged'> {
+    const openAlert = await this.prisma.inventoryAlert.findFirst({
+      where: {
+        productId: product.id,
+        type,
+        isResolved: false,
+      },
+    });
+
+    const isBelow = threshold > 0 && freeStock <= threshold;
+
+    if (!isBelow) {
+      if (!openAlert) return 'unchanged';
+
+      await this.prisma.inventoryAlert.update({
+        where: { id: openAlert.id },
+        data: {
+          isResolved: true,
+          resolvedAt: new Date(),
+          resolvedStockLevel: freeStock,
+        },
+      });
+      return 'resolved';
+    }
+
+    if (openAlert) return 'unchanged';
+
+    const alert = await this.prisma.inventoryAlert.create({
+      data: {
+        type,
+        threshold,
+        stockLevel: freeStock,
+        source,
+        productId: product.id,
+        clientId: product.clientId,
+      },
+    });
+
+    try {
+      const client = await this.prisma.client.findUnique({
+        where: { id: product.clientId },
+        select: { name: true, companyName: true, userId: true },
+      });
+
+      const notification = await notificationService.createInventoryAlertNotification({
+        alertType: type,
+        productId: product.id,
+        sku: product.sku,
+        productName: product.name,
+        clientId: product.clientId,
+        clientName: client?.companyName || client?.name || 'Unknown Client',
+        clientUserId: client?.userId,
+        stockLevel: freeStock,
+        threshold,
+      });
+
+      await this.prisma.inventoryAlert.update({
+        where: { id: alert.id },
+        data: { notificationId: notification.id },
+      });
+    } catch (notifError) {
+      // Alert record stays open, so we won't re-notify on the next sync
+      console.error(`[InventoryAlert] Failed to send ${type} notification for ${product.sku}:`, notifError);
+    }
+
+    return 'raised';
+  }
+
+  /**
+   * Quantity per SKU ordered in open orders that FFN has not reserved yet
+   * (orders without an outbound are not reflected in FFN's reserved stock)
+   */
+  private async getPendingOrderQuantities(
+    clientId: string,
+    skus: string[]
+  ): Promise<Map<string, number>> {
+    const pending = new Map<string, number>();
+    if (skus.length === 0) return pending;
+
+    const grouped = await this.prisma.orderItem.groupBy({
+      by: ['sku'],
+      where: {
+        sku: { in: skus },
+        order: {
+          clientId,
+          isCancelled: false,
+          jtlOutboundId: null,
+          fulfillmentState: 'PENDING',
+        },
+      },
+      _sum: { quantity: true },
+    });
+
+    for (const row of grouped) {
+      if (row.sku) pending.set(row.sku, row._sum.quantity ?? 0);
+    }
+
+    return pending;
+  }
+
+  private calculateFreeStock(
+    product: Pick<ProductStockSnapshot, 'available' | 'reserved'>,
+    pendingOrderQuantity: number
+  ): number {
+    return product.available - product.reserved - pendingOrderQuantity;
+  }
+}
+
+export default InventoryAlertService;
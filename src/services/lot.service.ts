@@ -0,0 +1,473 @@
+/**
+ * Lot Service
+ *
+ * Batch / lot and best-before (MHD) tracking for products that FFN handles by lot,
+ * e.g. food and cosmetics.
+ *
+ * KEY CONCEPTS:
+ * 1. A product can have several lots on hand, each with its own quantity and best-before date.
+ *    Product.chargeNumber and Product.mhd mirror the lot that ships next - the one expiring
+ *    first (FEFO) - so existing screens keep showing something meaningful
+ * 2. Lots come into stock when an inbound is booked in (lots reported by FFN, otherwise the
+ *    lots the merchant announced). When the FFN stock data carries lots, those quantities win
+ * 3. Lots leave stock with the FFN shipping notification, which is also recorded per order
+ *    line - that is what the recall query answers from
+ * 4. A lot on hand that reaches its best-before date within LOT_EXPIRY_WARNING_DAYS is
+ *    notified once
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '../config/database.js';
+import { notificationService } from './notification.service.js';
+import {
+  matchShippingNotificationItem,
+  JTLProductWithStock,
+  JTLShippingNotificationItem,
+} from './integrations/jtl.service.js';
+
+export const LOT_EXPIRY_WARNING_DAYS = 30;
+
+export interface BookedLot {
+  lotNumber: string;
+  bestBefore?: Date | null;
+  quantity: number;
+}
+
+// Parse a best-before date from FFN or a request; null when missing or invalid
+export const parseBestBefore = (value: unknown): Date | null => {
+  if (!value) return null;
+  const date = new Date(value as string);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+// First expiry first out: lots without a best-before date go last
+const FEFO_ORDER: Prisma.ProductLotOrderByWithRelationInput[] = [
+  { bestBefore: { sort: 'asc', nulls: 'last' } },
+  { createdAt: 'asc' },
+];
+
+class LotService {
+  private prisma = prisma;
+
+  // ============= RECORDING =============
+
+  /**
+   * Add booked-in lots to a product's stock. Never throws.
+   * @param reference Inbound the goods arrived with (for the log)
+   */
+  async bookInboundLots(productId: string, lots: BookedLot[], reference?: string): Promise<void> {
+    try {
+      const product = await this.prisma.product.findUnique({ where: { id: productId }, select: { clientId: true } });
+      if (!product) return;
+
+      for (const lot of lots) {
+        if (!lot.lotNumber || lot.quantity <= 0) continue;
+
+        await this.prisma.productLot.upsert({
+          where: { productId_lotNumber: { productId, lotNumber: lot.lotNumber } },
+          create: {
+            productId,
+            clientId: product.clientId,
+            lotNumber: lot.lotNumber,
+            bestBefore: lot.bestBefore ?? null,
+            quantity: lot.quantity,
+            receivedQuantity: lot.quantity,
+            firstReceivedAt: new Date(),
+          },
+          update: {
+            ...(lot.bestBefore && { bestBefore: lot.bestBefore }),
+            quantity: { increment: lot.quantity },
+            receivedQuantity: { increment: lot.quantity },
+          },
+        });
+      }
+
+      await this.refreshProductLotSummary(productId);
+    } catch (error) {
+      console.error(`[Lot] Failed to book lots${reference ? ` of ${reference}` : ''} for product ${productId}:`, error);
+    }
+  }
+
+  /**
+   * Book in the lots of a closed FFN inbound. FFN-reported lots take precedence over the
+   * lots the merchant announced on the local inbound. Never throws.
+   */
+  async bookInbound(clientId: string, inbound: {
+    inboundId: string;
+    merchantInboundNumber: string;
+    items?: { jfsku: string; quantity: number; batchNumber?: string; bestBefore?: string }[];
+  }): Promise<void> {
+    try {
+      const localInbound = await this.prisma.inboundDelivery.findFirst({
+        where: {
+          clientId,
+          OR: [
+            { jtlDeliveryId: inbound.inboundId },
+            ...(inbound.merchantInboundNumber ? [{ inboundId: inbound.merchantInboundNumber }] : []),
+          ],
+        },
+        include: { items: { include: { product: { select: { jtlProductId: true } } } } },
+      });
+
+      // Booked in before - the lots are already counted
+      if (localInbound?.status === 'BOOKED_IN' || localInbound?.status === 'CANCELLED') return;
+
+      const lotsByProduct = new Map<string, BookedLot[]>();
+      const addLot = (productId: string, lot: BookedLot) => {
+        lotsByProduct.set(productId, [...(lotsByProduct.get(productId) ?? []), lot]);
+      };
+
+      const reportedLots = (inbound.items ?? []).filter(item => item.batchNumber);
+      if (reportedLots.length > 0) {
+        const products = await this.prisma.product.findMany({
+          where: { clientId, jtlProductId: { in: reportedLots.map(item => item.jfsku) } },
+          select: { id: true, jtlProductId: true },
+        });
+        const productIds = new Map(products.map(p => [p.jtlProductId!, p.id]));
+
+        for (const item of reportedLots) {
+          const productId = productIds.get(item.jfsku);
+          if (!productId) continue;
+          addLot(productId, {
+            lotNumber: item.batchNumber!,
+            bestBefore: parseBestBefore(item.bestBefore),
+            quantity: item.quantity,
+          });
+        }
+      } else if (localInbound) {
+        for (const item of localInbound.items) {
+          if (!item.lotNumber) continue;
+          addLot(item.productId, {
+            lotNumber: item.lotNumber,
+            bestBefore: item.bestBefore,
+            quantity: item.receivedQuantity ?? item.announcedQuantity,
+          });
+        }
+      }
+
+      const reference = localInbound?.inboundId ?? inbound.merchantInboundNumber ?? inbound.inboundId;
+      for (const [productId, lots] of lotsByProduct) {
+        await this.bookInboundLots(productId, lots, reference);
+      }
+    } catch (error) {
+      console.error(`[Lot] Failed to book lots of inbound ${inbound.inboundId}:`, error);
+    }
+  }
+
+  /**
+   * Take over lot quantities from FFN stock data. Only products whose stock carries lots
+   * are touched; their lots missing from the data are empty. Never throws.
+   * @param productIdByJfsku Local product ID per JFSKU (products not in the map are skipped)
+   */
+  async syncStockLots(
+    clientId: string,
+    jtlProducts: JTLProductWithStock[],
+    productIdByJfsku: Map<string, string>
+  ): Promise<void> {
+    for (const jtlProduct of jtlProducts) {
+      const batches = jtlProduct.stock?.batches;
+      const productId = productIdByJfsku.get(jtlProduct.jfsku);
+      if (!batches || !productId) continue;
+
+      try {
+        const onHand = new Map<string, { bestBefore: Date | null; quantity: number }>();
+        for (const batch of batches) {
+          if (!batch.batch) continue;
+          const lot = onHand.get(batch.batch);
+          onHand.set(batch.batch, {
+            bestBefore: parseBestBefore(batch.bestBefore) ?? lot?.bestBefore ?? null,
+            quantity: (lot?.quantity ?? 0) + (batch.stockLevel ?? 0),
+          });
+        }
+
+        await this.prisma.$transaction([
+          this.prisma.productLot.updateMany({
+            where: { productId, lotNumber: { notIn: [...onHand.keys()] }, quantity: { not: 0 } },
+            data: { quantity: 0 },
+          }),
+          ...[...onHand].map(([lotNumber, lot]) =>
+            this.prisma.productLot.upsert({
+              where: { productId_lotNumber: { productId, lotNumber } },
+              create: {
+                productId,
+                clientId,
+                lotNumber,
+                bestBefore: lot.bestBefore,
+                quantity: lot.quantity,
+                firstReceivedAt: new Date(),
+              },
+              update: {
+                quantity: lot.quantity,
+                ...(lot.bestBefore && { bestBefore: lot.bestBefore }),
+              },
+            })
+          ),
+        ]);
+
+        await this.refreshProductLotSummary(productId);
+      } catch (error) {
+        console.error(`[Lot] Failed to sync lots of ${jtlProduct.jfsku}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Record the lots an order shipped with (from its FFN shipping notifications) and take
+   * them out of stock. FFN returns all notifications of the outbound each time, so every
+   * lot of a line is recorded once and only units not recorded before leave stock - later
+   * notifications (partial shipments) add their lots. Never throws.
+   * @returns How many shipped units were newly recorded
+   */
+  async recordShippedLots(orderId: string, shippedItems: JTLShippingNotificationItem[] | undefined): Promise<number> {
+    const lotItems = (shippedItems ?? []).filter(item => item.batch);
+    if (lotItems.length === 0) return 0;
+
+    try {
+      const order = await this.prisma.order.findUnique({
+        where: { id: orderId },
+        select: {
+          items: {
+            select: {
+              id: true,
+              sku: true,
+              productId: true,
+              product: { select: { jtlProductId: true } },
+              lots: { select: { lotNumber: true, quantity: true } },
+            },
+          },
+        },
+      });
+      if (!order) return 0;
+
+      // Shipped units per order line and lot, over all notifications
+      const shippedLots = new Map<string, { orderItem: typeof order.items[number]; lotNumber: string; bestBefore?: string; quantity: number }>();
+      for (const shipped of lotItems) {
+        const orderItem = matchShippingNotificationItem(order.items, shipped);
+        if (!orderItem) continue;
+
+        const key = `${orderItem.id}:${shipped.batch}`;
+        const entry = shippedLots.get(key);
+        if (entry) entry.quantity += shipped.quantity;
+        else shippedLots.set(key, { orderItem, lotNumber: shipped.batch!, bestBefore: shipped.bestBefore, quantity: shipped.quantity });
+      }
+
+      let recorded = 0;
+      const touchedProducts = new Set<string>();
+
+      for (const { orderItem, lotNumber, bestBefore, quantity } of shippedLots.values()) {
+        const known = orderItem.lots.find(recordedLot => recordedLot.lotNumber === lotNumber)?.quantity ?? 0;
+        const added = quantity - known;
+        if (added <= 0) continue;
+
+        const lot = orderItem.productId
+          ? await this.prisma.productLot.findUnique({
+              where: { productId_lotNumber: { productId: orderItem.productId, lotNumber } },
+            })
+          : null;
+
+        await this.prisma.orderItemLot.upsert({
+          where: { orderItemId_lotNumber: { orderItemId: orderItem.id, lotNumber } },
+          create: {
+            orderItemId: orderItem.id,
+            lotId: lot?.id ?? null,
+            lotNumber,
+            bestBefore: parseBestBefore(bestBefore) ?? lot?.bestBefore ?? null,
+            quantity,
+          },
+          update: { quantity },
+        });
+        recorded += added;
+
+        if (lot) {
+          await this.prisma.productLot.update({
+            where: { id: lot.id },
+            data: { quantity: Math.max(0, lot.quantity - added) },
+          });
+          touchedProducts.add(lot.productId);
+        }
+      }
+
+      for (const productId of touchedProducts) {
+        await this.refreshProductLotSummary(productId);
+      }
+
+      return recorded;
+    } catch (error) {
+      console.error(`[Lot] Failed to record shipped lots for order ${orderId}:`, error);
+      return 0;
+    }
+  }
+
+  /**
+   * Point Product.chargeNumber / Product.mhd at the lot that ships next
+   */
+  async refreshProductLotSummary(productId: string): Promise<void> {
+    const next = await this.prisma.productLot.findFirst({
+      where: { productId, quantity: { gt: 0 } },
+      orderBy: FEFO_ORDER,
+    });
+
+    await this.prisma.product.update({
+      where: { id: productId },
+      data: {
+        chargeNumber: next?.lotNumber ?? null,
+        mhd: next?.bestBefore ?? null,
+      },
+    });
+  }
+
+  // ============= QUERIES =============
+
+  /**
+   * A client's lots in FEFO order
+   */
+  async listLots(clientId: string, filters: {
+    productId?: string;
+    expiringWithinDays?: number;
+    includeEmpty?: boolean;
+    page?: number;
+    limit?: number;
+  } = {}) {
+    const page = Math.max(1, filters.page ?? 1);
+    const limit = Math.min(200, Math.max(1, filters.limit ?? 50));
+
+    const where: Prisma.ProductLotWhereInput = {
+      clientId,
+      ...(filters.productId && { productId: filters.productId }),
+      ...(!filters.includeEmpty && { quantity: { gt: 0 } }),
+      ...(filters.expiringWithinDays !== undefined && {
+        bestBefore: { lte: new Date(Date.now() + filters.expiringWithinDays * 24 * 60 * 60 * 1000) },
+      }),
+    };
+
+    const [lots, total] = await Promise.all([
+      this.prisma.productLot.findMany({
+        where,
+        include: { product: { select: { id: true, sku: true, name: true } } },
+        orderBy: FEFO_ORDER,
+        take: limit,
+        skip: (page - 1) * limit,
+      }),
+      this.prisma.productLot.count({ where }),
+    ]);
+
+    return {
+      lots,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Orders that received a lot, with the customer they went to
+   * @param productId Narrow down when several products use the same lot number
+   */
+  async recall(clientId: string, lotNumber: string, productId?: string) {
+    const shipments = await this.prisma.orderItemLot.findMany({
+      where: {
+        lotNumber,
+        orderItem: {
+          order: { clientId },
+          ...(productId && { productId }),
+        },
+      },
+      include: {
+        orderItem: {
+          select: {
+            sku: true,
+            productName: true,
+            productId: true,
+            order: {
+              select: {
+                id: true,
+                orderId: true,
+                orderNumber: true,
+                customerName: true,
+                customerEmail: true,
+                shippingCity: true,
+                shippingCountryCode: true,
+                shippedAt: true,
+                status: true,
+              },
+            },
+          },
+        },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    const lots = await this.prisma.productLot.findMany({
+      where: { clientId, lotNumber, ...(productId && { productId }) },
+      include: { product: { select: { id: true, sku: true, name: true } } },
+    });
+
+    return {
+      lotNumber,
+      lots,
+      shippedQuantity: shipments.reduce((sum, shipment) => sum + shipment.quantity, 0),
+      orders: shipments.map(shipment => ({
+        ...shipment.orderItem.order,
+        sku: shipment.orderItem.sku,
+        productName: shipment.orderItem.productName,
+        productId: shipment.orderItem.productId,
+        quantity: shipment.quantity,
+        bestBefore: shipment.bestBefore,
+      })),
+    };
+  }
+
+  // ============= EXPIRY =============
+
+  /**
+   * Notify lots on hand that reach their best-before date within the warning period.
+   * Each lot is notified once.
+   */
+  async notifyExpiringLots(warningDays: number = LOT_EXPIRY_WARNING_DAYS): Promise<number> {
+    const lots = await this.prisma.productLot.findMany({
+      where: {
+        quantity: { gt: 0 },
+        expiryNotifiedAt: null,
+        bestBefore: { lte: new Date(Date.now() + warningDays * 24 * 60 * 60 * 1000) },
+      },
+      include: {
+        product: { select: { sku: true, name: true } },
+        client: { select: { name: true, companyName: true, userId: true } },
+      },
+      orderBy: { bestBefore: 'asc' },
+    });
+
+    let notified = 0;
+    for (const lot of lots) {
+      try {
+        await notificationService.createLotExpiryNotification({
+          lotId: lot.id,
+          lotNumber: lot.lotNumber,
+          bestBefore: lot.bestBefore!,
+          quantity: lot.quantity,
+          productId: lot.productId,
+          sku: lot.product.sku,
+          productName: lot.product.name,
+          clientId: lot.clientId,
+          clientName: lot.client.companyName || lot.client.name || 'Unknown Client',
+          clientUserId: lot.client.userId,
+        });
+
+        await this.prisma.productLot.update({
+          where: { id: lot.id },
+          data: { expiryNotifiedAt: new Date() },
+        });
+        notified++;
+      } catch (error) {
+        console.error(`[Lot] Failed to notify expiring lot ${lot.lotNumber} of ${lot.product.sku}:`, error);
+      }
+    }
+
+    return notified;
+  }
+}
+
+export const lotService = new LotService();
@@ -0,0 +1,154 @@
+/**
+ * Mail Service
+ *
+ * Sends transactional mail (password reset, email verification, team invitations) through a
+ * pluggable transport:
+ * - console: logs the mail (default, for local development)
+ * - file: writes each mail as an .eml file into MAIL_OUTPUT_DIR
+ *
+ * A real provider is plugged in by implementing MailTransport and passing it
+ * to mailService.setTransport() at startup.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { env } from '../config/env.js';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface MailTransport {
+  readonly name: string;
+  send(message: MailMessage & { from: string }): Promise<void>;
+}
+
+export class ConsoleMailTransport implements MailTransport {
+  readonly name = 'console';
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    console.log(
+      `[Mail] To: ${message.to}\n` +
+      `[Mail] Subject: ${message.subject}\n` +
+      `${message.text}`
+    );
+  }
+}
+
+export class FileMailTransport implements MailTransport {
+  readonly name = 'file';
+
+  constructor(private outputDir: string) {}
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    await fs.mkdir(this.outputDir, { recursive: true });
+
+    const safeRecipient = message.to.replace(/[^a-zA-Z0-9@._-]/g, '_');
+    const fileName = `${Date.now()}-${safeRecipient}.eml`;
+    const content = [
+      `From: ${message.from}`,
+      `To: ${message.to}`,
+      `Subject: ${message.subject}`,
+      `Date: ${new Date().toUTCString()}`,
+      'Content-Type: text/plain; charset=utf-8',
+      '',
+      message.text,
+    ].join('\n');
+
+    await fs.writeFile(path.join(this.outputDir, fileName), content, 'utf8');
+    console.log(`[Mail] Wrote "${message.subject}" for ${message.to} to ${fileName}`);
+  }
+}
+
+const createTransport = (name: string): MailTransport => {
+  switch (name) {
+    case 'file':
+      return new FileMailTransport(env.mailOutputDir);
+    case 'console':
+      return new ConsoleMailTransport();
+    default:
+      console.warn(`[Mail] Unknown MAIL_TRANSPORT "${name}", falling back to console`);
+      return new ConsoleMailTransport();
+  }
+};
+
+class MailService {
+  private transport: MailTransport = createTransport(env.mailTransport);
+
+  /**
+   * Replace the transport (e.g. with an SMTP or provider API implementation)
+   */
+  setTransport(transport: MailTransport): void {
+    this.transport = transport;
+    console.log(`[Mail] Using ${transport.name} transport`);
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transport.send({ ...message, from: env.mailFrom });
+  }
+
+  /**
+   * Link the user opens in the frontend (first configured frontend origin)
+   */
+  buildFrontendUrl(pathname: string, token: string): string {
+    const origin = env.frontendUrl.split(',')[0].trim().replace(/\/$/, '');
+    return `${origin}${pathname}?token=${encodeURIComponent(token)}`;
+  }
+
+  async sendPasswordResetMail(to: string, name: string | null, token: string, expiresInMinutes: number) {
+    const link = this.buildFrontendUrl('/reset-password', token);
+
+    await this.send({
+      to,
+      subject: 'Reset your password',
+      text:
+        `Hello ${name || to},\n\n` +
+        `We received a request to reset your password. Open the link below to choose a new one:\n\n` +
+        `${link}\n\n` +
+        `The link expires in ${expiresInMinutes} minutes and can only be used once.\n` +
+        `If you did not request this, you can ignore this email.`,
+    });
+  }
+
+  async sendEmailVerificationMail(to: string, name: string | null, token: string, expiresInHours: number) {
+    const link = this.buildFrontendUrl('/verify-email', token);
+
+    await this.send({
+      to,
+      subject: 'Verify your email address',
+      text:
+        `Hello ${name || to},\n\n` +
+        `Please confirm your email address by opening the link below:\n\n` +
+        `${link}\n\n` +
+        `The link expires in ${expiresInHours} hours.`,
+    });
+  }
+
+  async sendClientInvitationMail(
+    to: string,
+    companyName: string,
+    role: string,
+    token: string,
+    expiresInDays: number
+  ) {
+    const link = this.buildFrontendUrl('/accept-invitation', token);
+
+    await this.send({
+      to,
+      subject: `You have been invited to join ${companyName}`,
+      text:
+        `Hello,\n\n` +
+        `You have been invited to join the ${companyName} team as ${role}.\n` +
+        `Open the link below to create your account:\n\n` +
+        `${link}\n\n` +
+        `The invitation expires in ${expiresInDays} days.`,
+    });
+  }
+}
+
+// Export singleton instance
+export const mailService = new MailService();
+export default mailService;
@@ -0,0 +1,488 @@
+/**
+ * Merchant Webhook Service
+ *
+ * Outgoing webhooks that tell a client's systems about order, shipment, return,
+ * inbound and stock events, so they don't have to poll us.
+ *
+ * KEY CONCEPTS:
+ * 1. A client registers HTTPS endpoints (subscriptions) for a list of events
+ * 2. emit() stores one delivery per matching subscription and queues it on pg-boss;
+ *    failed attempts are retried with exponential backoff until MAX_ATTEMPTS
+ * 3. Requests are signed: X-NoLimits-Signature = sha256=HMAC(secret, "<timestamp>.<body>")
+ * 4. Every attempt is recorded on the delivery; a replay sends the same payload again
+ *    as a new delivery (the event id in the body stays the same, so receivers can dedupe)
+ * 5. emit() is called once the event has happened (order saved, stock booked), so it logs
+ *    a failure and returns 0 rather than failing a change that is already made
+ * 6. Endpoints are client-chosen URLs: requests only go to public addresses (checked on
+ *    the address actually connected to), and response bodies are discarded, never stored
+ */
+
+import crypto from 'crypto';
+import https from 'node:https';
+import { Prisma, WebhookDeliveryStatus } from '@prisma/client';
+import { prisma } from '../config/database.js';
+import { dryRunClient } from '../utils/dry-run.js';
+import { getEncryptionService } from './encryption.service.js';
+import { getQueue, QUEUE_NAMES } from './queue/sync-queue.service.js';
+import { nonPublicHostReason, publicLookup } from '../utils/public-address.js';
+
+export const WEBHOOK_EVENTS = [
+  'order.shipped',
+  'order.on_hold',
+  'return.inspected',
+  'inbound.booked_in',
+  'inbound.cancelled',
+  'inbound.discrepancy',
+  'stock.changed',
+] as const;
+
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+// First attempt plus retries
+export const MAX_ATTEMPTS = 8;
+// Base retry delay; pg-boss doubles it per retry (30s, 1m, 2m, ... ~1h in total)
+const RETRY_DELAY_SECONDS = 30;
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+
+const SUBSCRIPTION_SELECT = {
+  id: true,
+  url: true,
+  events: true,
+  description: true,
+  isActive: true,
+  createdAt: true,
+  updatedAt: true,
+  createdById: true,
+  clientId: true,
+} as const;
+
+export type DeliveryOutcome = 'delivered' | 'retry' | 'failed' | 'skipped';
+
+class MerchantWebhookService {
+  private get prisma() {
+    return dryRunClient() ?? prisma;
+  }
+
+  /**
+   * Endpoints must be absolute HTTPS URLs on a public host
+   */
+  validateUrl(url: unknown): string | null {
+    if (typeof url !== 'string') return 'url is required';
+    try {
+      const parsed = new URL(url);
+      if (parsed.protocol !== 'https:') return 'Webhook URL must use HTTPS';
+      if (parsed.username || parsed.password) return 'Webhook URL must not contain credentials';
+      const hostReason = nonPublicHostReason(parsed);
+      if (hostReason) return `Webhook URL is not allowed: ${hostReason}`;
+    } catch {
+      return 'Webhook URL is not valid';
+    }
+    return null;
+  }
+
+  isEvent(value: unknown): value is WebhookEvent {
+    return WEBHOOK_EVENTS.includes(value as WebhookEvent);
+  }
+
+  // ============= SUBSCRIPTIONS =============
+
+  /**
+   * Create a subscription and return it with its signing secret (shown once)
+   */
+  async createSubscription(input: {
+    clientId: string;
+    url: string;
+    events: WebhookEvent[];
+    description?: string | null;
+    createdById?: string;
+  }) {
+    const secret = this.generateSecret();
+
+    const subscription = await this.prisma.webhookSubscription.create({
+      data: {
+        url: input.url,
+        events: [...new Set(input.events)],
+        secret: getEncryptionService().encrypt(secret),
+        description: input.description ?? null,
+        createdById: input.createdById ?? null,
+        clientId: input.clientId,
+      },
+      select: SUBSCRIPTION_SELECT,
+    });
+
+    return { subscription, secret };
+  }
+
+  async listSubscriptions(clientId?: string) {
+    return this.prisma.webhookSubscription.findMany({
+      where: clientId ? { clientId } : {},
+      select: {
+        ...SUBSCRIPTION_SELECT,
+        client: { select: { id: true, name: true, companyName: true } },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  async findSubscription(id: string) {
+    return this.prisma.webhookSubscription.findUnique({ where: { id }, select: SUBSCRIPTION_SELECT });
+  }
+
+  async updateSubscription(
+    id: string,
+    data: { url?: string; events?: WebhookEvent[]; description?: string | null; isActive?: boolean }
+  ) {
+    return this.prisma.webhookSubscription.update({
+      where: { id },
+      data: {
+        ...(data.url !== undefined && { url: data.url }),
+        ...(data.events !== undefined && { events: [...new Set(data.events)] }),
+        ...(data.description !== undefined && { description: data.description }),
+        ...(data.isActive !== undefined && { isActive: data.isActive }),
+      },
+      select: SUBSCRIPTION_SELECT,
+    });
+  }
+
+  /**
+   * Replace the signing secret. Returns the new secret (shown once).
+   */
+  async rotateSecret(id: string): Promise<string> {
+    const secret = this.generateSecret();
+    await this.prisma.webhookSubscription.update({
+      where: { id },
+      data: { secret: getEncryptionService().encrypt(secret) },
+    });
+    return secret;
+  }
+
+  async deleteSubscription(id: string): Promise<void> {
+    await this.prisma.webhookSubscription.delete({ where: { id } });
+  }
+
+  // ============= EVENTS =============
+
+  /**
+   * Raise an event for a client. Creates a delivery for every active subscription
+   * listening to it and queues them. Returns the number of deliveries queued.
+   */
+  async emit(clientId: string | null | undefined, event: WebhookEvent, data: Record<string, unknown>): Promise<number> {
+    if (!clientId) return 0;
+
+    try {
+      const subscriptions = await this.prisma.webhookSubscription.findMany({
+        where: { clientId, isActive: true, events: { has: event } },
+        select: { id: true },
+      });
+
+      if (subscriptions.length === 0) return 0;
+
+      const payload = {
+        id: crypto.randomUUID(),
+        event,
+        createdAt: new Date().toISOString(),
+        clientId,
+        data,
+      };
+
+      for (const subscription of subscriptions) {
+        const delivery = await this.prisma.webhookDelivery.create({
+          data: {
+            event,
+            payload: payload as Prisma.InputJsonValue,
+            clientId,
+            subscriptionId: subscription.id,
+          },
+        });
+        await this.enqueue(delivery.id);
+      }
+
+      return subscriptions.length;
+    } catch (error) {
+      console.error(`[MerchantWebhook] Failed to emit ${event} for client ${clientId}:`, error);
+      return 0;
+    }
+  }
+
+  /**
+   * order.shipped / order.on_hold with the order's current state
+   */
+  async emitOrderEvent(orderId: string, event: 'order.shipped' | 'order.on_hold'): Promise<number> {
+    try {
+      const order = await this.prisma.order.findUnique({
+        where: { id: orderId },
+        select: {
+          id: true,
+          orderId: true,
+          orderNumber: true,
+          externalOrderId: true,
+          clientId: true,
+          fulfillmentState: true,
+          trackingNumber: true,
+          trackingUrl: true,
+          carrierSelection: true,
+          shippedAt: true,
+          isOnHold: true,
+          holdReason: true,
+          holdNotes: true,
+        },
+      });
+
+      if (!order) return 0;
+
+      const data = event === 'order.shipped'
+        ? {
+          trackingNumber: order.trackingNumber,
+          trackingUrl: order.trackingUrl,
+          carrier: order.carrierSelection,
+          shippedAt: order.shippedAt?.toISOString() ?? null,
+        }
+        : {
+          holdReason: order.holdReason,
+          holdNotes: order.holdNotes,
+        };
+
+      return this.emit(order.clientId, event, {
+        id: order.id,
+        orderId: order.orderId,
+        orderNumber: order.orderNumber,
+        externalOrderId: order.externalOrderId,
+        fulfillmentState: order.fulfillmentState,
+        ...data,
+      });
+    } catch (error) {
+      console.error(`[MerchantWebhook] Failed to emit ${event} for order ${orderId}:`, error);
+      return 0;
+    }
+  }
+
+  /**
+   * stock.changed with the current stock of the given products (one event per batch)
+   */
+  async emitStockChanged(clientId: string | null | undefined, productIds: string[], source: string): Promise<number> {
+    if (!clientId || productIds.length === 0) return 0;
+
+    try {
+      const products = await this.prisma.product.findMany({
+        where: { id: { in: productIds }, clientId },
+        select: { id: true, sku: true, name: true, available: true, reserved: true, announced: true },
+      });
+
+      if (products.length === 0) return 0;
+
+      return this.emit(clientId, 'stock.changed', {
+        source,
+        products: products.map(product => ({
+          id: product.id,
+          sku: product.sku,
+          name: product.name,
+          available: product.available,
+          reserved: product.reserved,
+          announced: product.announced,
+        })),
+      });
+    } catch (error) {
+      console.error(`[MerchantWebhook] Failed to emit stock.changed for client ${clientId}:`, error);
+      return 0;
+    }
+  }
+
+  // ============= DELIVERY =============
+
+  /**
+   * Send one delivery. Called by the queue worker; 'retry' means the job should fail
+   * so pg-boss schedules the next attempt.
+   */
+  async deliver(deliveryId: string): Promise<DeliveryOutcome> {
+    const delivery = await this.prisma.webhookDelivery.findUnique({
+      where: { id: deliveryId },
+      include: { subscription: true },
+    });
+
+    if (!delivery || delivery.status !== 'PENDING') return 'skipped';
+
+    if (!delivery.subscription.isActive) {
+      await this.prisma.webhookDelivery.update({
+        where: { id: deliveryId },
+        data: { status: 'FAILED', error: 'Subscription is disabled' },
+      });
+      return 'failed';
+    }
+
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const secret = getEncryptionService().decrypt(delivery.subscription.secret);
+    const attempts = delivery.attempts + 1;
+    const startTime = Date.now();
+
+    let responseStatus: number | null = null;
+    let error: string | null = null;
+
+    try {
+      responseStatus = await this.post(delivery.subscription.url, body, {
+        'Content-Type': 'application/json',
+        'User-Agent': 'NoLimits-Webhooks/1.0',
+        'X-NoLimits-Event': delivery.event,
+        'X-NoLimits-Delivery': delivery.id,
+        'X-NoLimits-Timestamp': timestamp,
+        'X-NoLimits-Signature': `sha256=${this.sign(secret, timestamp, body)}`,
+      });
+      if (responseStatus < 200 || responseStatus >= 300) error = `Endpoint responded with HTTP ${responseStatus}`;
+    } catch (requestError: any) {
+      error = requestError?.name === 'TimeoutError'
+        ? `No response within ${REQUEST_TIMEOUT_MS / 1000}s`
+        : requestError?.message || 'Request failed';
+    }
+
+    const delivered = !error;
+    const exhausted = !delivered && attempts >= MAX_ATTEMPTS;
+    const status: WebhookDeliveryStatus = delivered ? 'DELIVERED' : exhausted ? 'FAILED' : 'PENDING';
+
+    await this.prisma.webhookDelivery.update({
+      where: { id: deliveryId },
+      data: {
+        status,
+        attempts,
+        lastAttemptAt: new Date(),
+        deliveredAt: delivered ? new Date() : null,
+        responseStatus,
+        error,
+        durationMs: Date.now() - startTime,
+      },
+    });
+
+    if (delivered) return 'delivered';
+    return exhausted ? 'failed' : 'retry';
+  }
+
+  /**
+   * Send a delivery's payload again as a new delivery
+   */
+  async replay(deliveryId: string, replayedById?: string) {
+    const original = await this.prisma.webhookDelivery.findUnique({ where: { id: deliveryId } });
+    if (!original) return null;
+
+    const delivery = await this.prisma.webhookDelivery.create({
+      data: {
+        event: original.event,
+        payload: original.payload as Prisma.InputJsonValue,
+        clientId: original.clientId,
+        subscriptionId: original.subscriptionId,
+        replayOfId: original.id,
+        replayedById: replayedById ?? null,
+      },
+    });
+
+    await this.enqueue(delivery.id);
+    return delivery;
+  }
+
+  // ============= DELIVERY LOG =============
+
+  async listDeliveries(filters: {
+    clientId?: string;
+    subscriptionId?: string;
+    event?: string;
+    status?: WebhookDeliveryStatus;
+    page?: number;
+    limit?: number;
+  }) {
+    const page = Math.max(1, filters.page ?? 1);
+    const limit = Math.min(200, Math.max(1, filters.limit ?? 50));
+
+    const where: Prisma.WebhookDeliveryWhereInput = {
+      ...(filters.clientId && { clientId: filters.clientId }),
+      ...(filters.subscriptionId && { subscriptionId: filters.subscriptionId }),
+      ...(filters.event && { event: filters.event }),
+      ...(filters.status && { status: filters.status }),
+    };
+
+    const [deliveries, total] = await Promise.all([
+      this.prisma.webhookDelivery.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        take: limit,
+        skip: (page - 1) * limit,
+        omit: { payload: true },
+        include: { subscription: { select: { id: true, url: true } } },
+      }),
+      this.prisma.webhookDelivery.count({ where }),
+    ]);
+
+    return {
+      deliveries,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  async findDelivery(id: string) {
+    return this.prisma.webhookDelivery.findUnique({
+      where: { id },
+      include: { subscription: { select: { id: true, url: true } } },
+    });
+  }
+
+  private async enqueue(deliveryId: string): Promise<void> {
+    try {
+      await getQueue().enqueue(
+        QUEUE_NAMES.MERCHANT_WEBHOOK_DELIVERY,
+        { deliveryId },
+        {
+          retryLimit: MAX_ATTEMPTS - 1,
+          retryDelay: RETRY_DELAY_SECONDS,
+          retryBackoff: true,
+          expireInSeconds: 60,
+          singletonKey: `webhook-${deliveryId}`,
+        }
+      );
+    } catch (error) {
+      // Delivery stays PENDING in the log and can be replayed
+      console.error(`[MerchantWebhook] Failed to queue delivery ${deliveryId}:`, error);
+    }
+  }
+
+  /**
+   * POST to an endpoint and return the HTTP status. Only public addresses are connected
+   * to, redirects are not followed and the response body is discarded unread.
+   * @throws When the URL is not allowed, the connection fails or the timeout passes
+   */
+  private post(url: string, body: string, headers: Record<string, string>): Promise<number> {
+    const urlError = this.validateUrl(url);
+    if (urlError) return Promise.reject(new Error(urlError));
+
+    return new Promise((resolve, reject) => {
+      const request = https.request(url, {
+        method: 'POST',
+        headers: { ...headers, 'Content-Length': Buffer.byteLength(body) },
+        lookup: publicLookup,
+        timeout: REQUEST_TIMEOUT_MS,
+      }, response => {
+        response.resume();
+        resolve(response.statusCode ?? 0);
+      });
+
+      request.on('timeout', () => {
+        request.destroy(Object.assign(new Error('Request timed out'), { name: 'TimeoutError' }));
+      });
+      request.on('error', reject);
+      request.end(body);
+    });
+  }
+
+  private sign(secret: string, timestamp: string, body: string): string {
+    return crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  }
+
+  private generateSecret(): string {
+    return `whsec_${crypto.randomBytes(24).toString('hex')}`;
+  }
+}
+
+// Export singleton instance
+export const merchantWebhookService = new MerchantWebhookService();
+export default merchantWebhookService;
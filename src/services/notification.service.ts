@@ -6,6 +6,8 @@
  * - Orders put on hold
  * - Sync errors
  * - Inventory alerts
+ * - Expiring lots
+ * - Inbound receipt discrepancies
  * - Task assignments
  * 
  * Provides:
@@ -16,6 +18,7 @@
 
 import { NotificationType, NotificationPriority, UserRole } from '@prisma/client';
 import { prisma } from '../config/database.js';
+import { dryRunClient } from '../utils/dry-run.js';
 import { getIO, emitToUser } from './socket.js';
 
 export interface CreateNotificationParams {
@@ -54,7 +57,9 @@ export interface NotificationWithRelations {
 }
 
 class NotificationService {
-  private prisma = prisma;
+  private get prisma() {
+    return dryRunClient() ?? prisma;
+  }
 
   /**
    * Create a notification and emit via Socket.IO
@@ -220,6 +225,170 @@ class NotificationService {
     });
   }
 
+  /**
+   * Create an inventory threshold notification (low stock or reorder point)
+   *
+   * One notification goes to the client's user, one is broadcast to admins.
+   * Returns the admin broadcast notification.
+   */
+  async createInventoryAlertNotification(params: {
+    alertType: 'LOW_STOCK' | 'REORDER_POINT';
+    productId: string;
+    sku: string;
+    productName: string;
+    clientId: string;
+    clientName: string;
+    clientUserId?: string | null;
+    stockLevel: number;
+    threshold: number;
+  }): Promise<NotificationWithRelations> {
+    const {
+      alertType,
+      productId,
+      sku,
+      productName,
+      clientId,
+      clientName,
+      clientUserId,
+      stockLevel,
+      threshold,
+    } = params;
+
+    const isLowStock = alertType === 'LOW_STOCK';
+    const type = isLowStock ? NotificationType.INVENTORY_LOW : NotificationType.INVENTORY_REORDER;
+    const priority = stockLevel <= 0 ? NotificationPriority.HIGH : NotificationPriority.MEDIUM;
+    const title = isLowStock ? `Low Stock: ${sku}` : `Reorder Required: ${sku}`;
+    const message = isLowStock
+      ? `${productName} (${sku}) has ${stockLevel} units left, at or below the minimum stock level of ${threshold}.`
+      : `${productName} (${sku}) has ${stockLevel} units left, at or below the reorder point of ${threshold}. Please plan an inbound delivery.`;
+    const metadata = { alertType, productId, sku, stockLevel, threshold };
+
+    if (clientUserId) {
+      await this.create({
+        type,
+        priority,
+        title,
+        message,
+        userId: clientUserId,
+        clientId,
+        actionUrl: `/products/${productId}`,
+        metadata,
+      });
+    }
+
+    const notification = await this.create({
+      type,
+      priority,
+      title,
+      message: `${message} Client: ${clientName}.`,
+      clientId,
+      actionUrl: `/admin/products/${productId}`,
+      metadata,
+    });
+
+    return notification;
+  }
+
+  /**
+   * Create a notification for a lot that reaches its best-before date soon
+   *
+   * One notification goes to the client's user, one is broadcast to admins.
+   * Returns the admin broadcast notification.
+   */
+  async createLotExpiryNotification(params: {
+    lotId: string;
+    lotNumber: string;
+    bestBefore: Date;
+    quantity: number;
+    productId: string;
+    sku: string;
+    productName: string;
+    clientId: string;
+    clientName: string;
+    clientUserId?: string | null;
+  }): Promise<NotificationWithRelations> {
+    const { lotId, lotNumber, bestBefore, quantity, productId, sku, productName, clientId, clientName, clientUserId } = params;
+
+    const expired = bestBefore.getTime() <= Date.now();
+    const date = bestBefore.toISOString().slice(0, 10);
+    const priority = expired ? NotificationPriority.HIGH : NotificationPriority.MEDIUM;
+    const title = expired ? `Lot Expired: ${sku} / ${lotNumber}` : `Lot Expiring: ${sku} / ${lotNumber}`;
+    const message = expired
+      ? `${quantity} units of ${productName} (${sku}) from lot ${lotNumber} passed their best-before date on ${date}.`
+      : `${quantity} units of ${productName} (${sku}) from lot ${lotNumber} reach their best-before date on ${date}.`;
+    const metadata = { lotId, lotNumber, bestBefore: bestBefore.toISOString(), quantity, productId, sku };
+
+    if (clientUserId) {
+      await this.create({
+        type: NotificationType.LOT_EXPIRING,
+        priority,
+        title,
+        message,
+        userId: clientUserId,
+        clientId,
+        actionUrl: `/products/${productId}`,
+        metadata,
+      });
+    }
+
+    return this.create({
+      type: NotificationType.LOT_EXPIRING,
+      priority,
+      title,
+      message: `${message} Client: ${clientName}.`,
+      clientId,
+      actionUrl: `/admin/products/${productId}`,
+      metadata,
+    });
+  }
+
+  /**
+   * Create a notification for an inbound received over, short or damaged
+   *
+   * One notification goes to the client's user, one is broadcast to admins.
+   * Returns the admin broadcast notification.
+   */
+  async createInboundDiscrepancyNotification(params: {
+    inboundId: string;
+    inboundNumber: string;
+    clientId: string;
+    clientName: string;
+    clientUserId?: string | null;
+    discrepancies: Array<{ id: string; type: string; sku: string; quantity: number }>;
+  }): Promise<NotificationWithRelations> {
+    const { inboundId, inboundNumber, clientId, clientName, clientUserId, discrepancies } = params;
+
+    const summary = discrepancies
+      .map(discrepancy => `${discrepancy.sku}: ${discrepancy.quantity} ${discrepancy.type.toLowerCase()}`)
+      .join(', ');
+    const title = `Inbound Discrepancy: ${inboundNumber}`;
+    const message = `Inbound ${inboundNumber} was not received as announced (${summary}). Please review and resolve.`;
+    const metadata = { inboundId, inboundNumber, discrepancies };
+
+    if (clientUserId) {
+      await this.create({
+        type: NotificationType.INBOUND_DISCREPANCY,
+        priority: NotificationPriority.MEDIUM,
+        title,
+        message,
+        userId: clientUserId,
+        clientId,
+        actionUrl: `/inbounds/${inboundId}`,
+        metadata,
+      });
+    }
+
+    return this.create({
+      type: NotificationType.INBOUND_DISCREPANCY,
+      priority: NotificationPriority.MEDIUM,
+      title,
+      message: `${message} Client: ${clientName}.`,
+      clientId,
+      actionUrl: `/admin/inbounds/${inboundId}`,
+      metadata,
+    });
+  }
+
   /**
    * Get notifications for a user
    */
@@ -0,0 +1,692 @@
+/**
+ * Order Rule Service
+ *
+ * Per-client automation that decides holds, priority, carrier and picking
+ * instructions when an order is imported, instead of doing it by hand in the UI.
+ *
+ * KEY CONCEPTS:
+ * 1. A rule has conditions (field / operator / value) combined with ALL or ANY, and a list
+ *    of actions. Active rules are evaluated in ascending position; stopProcessing ends the
+ *    evaluation once the rule fired
+ * 2. Conditions are evaluated against the order as imported, so the outcome does not depend
+ *    on what earlier rules changed. List fields (tags, SKUs) match when any element matches
+ * 3. A rule hold uses holdReason ORDER_RULE and keeps the order out of FFN until someone
+ *    releases it. It replaces an AWAITING_PAYMENT hold (otherwise the payment webhook would
+ *    release the order unreviewed) but leaves other holds alone
+ * 4. Every rule that fired is logged with what it changed; simulate() runs the same
+ *    evaluation without writing anything
+ */
+
+import { OrderRuleMatchType, OrderStatus, Prisma } from '@prisma/client';
+import { prisma } from '../config/database.js';
+import { dryRunClient } from '../utils/dry-run.js';
+import { merchantWebhookService } from './merchant-webhook.service.js';
+
+export const ORDER_RULE_HOLD_REASON = 'ORDER_RULE';
+
+// Imported orders that are already done (e.g. history pulled on first sync) are left alone
+const FINISHED_STATUSES: OrderStatus[] = ['SHIPPED', 'DELIVERED', 'CANCELLED'];
+
+const NUMERIC_FIELDS = ['total', 'weight'] as const;
+const TEXT_FIELDS = ['country', 'tags', 'sku', 'customerEmail', 'paymentMethod', 'shippingMethod'] as const;
+
+export const ORDER_RULE_FIELDS = [...NUMERIC_FIELDS, ...TEXT_FIELDS] as const;
+
+const NUMERIC_OPERATORS = ['equals', 'not_equals', 'gt', 'gte', 'lt', 'lte'] as const;
+const TEXT_OPERATORS = ['equals', 'not_equals', 'in', 'not_in', 'contains'] as const;
+
+export const ORDER_RULE_ACTIONS = [
+  'hold',
+  'set_priority',
+  'set_carrier',
+  'add_picking_instructions',
+  'add_tag',
+] as const;
+
+export type OrderRuleField = (typeof ORDER_RULE_FIELDS)[number];
+export type OrderRuleOperator = (typeof NUMERIC_OPERATORS)[number] | (typeof TEXT_OPERATORS)[number];
+
+export interface OrderRuleCondition {
+  field: OrderRuleField;
+  operator: OrderRuleOperator;
+  value: string | number | Array<string | number>;
+}
+
+export type OrderRuleAction =
+  | { type: 'hold'; reason: string }
+  | { type: 'set_priority'; priority: number }
+  | { type: 'set_carrier'; carrier?: string; serviceLevel?: string; jtlShippingMethodId?: string }
+  | { type: 'add_picking_instructions'; text: string }
+  | { type: 'add_tag'; tag: string };
+
+export interface OrderRuleInput {
+  name: string;
+  description?: string | null;
+  isActive?: boolean;
+  matchType?: OrderRuleMatchType;
+  conditions: OrderRuleCondition[];
+  actions: OrderRuleAction[];
+  stopProcessing?: boolean;
+}
+
+/**
+ * The values conditions are evaluated against. Text values are lower-cased;
+ * single-valued fields are lists of zero or one element.
+ */
+export interface OrderRuleFacts {
+  total: number | null;
+  weight: number | null;
+  country: string[];
+  tags: string[];
+  sku: string[];
+  customerEmail: string[];
+  paymentMethod: string[];
+  shippingMethod: string[];
+}
+
+/**
+ * Order fields the actions read and write
+ */
+interface OrderRuleState {
+  isOnHold: boolean;
+  holdReason: string | null;
+  holdNotes: string | null;
+  priorityLevel: number;
+  carrierSelection: string | null;
+  carrierServiceLevel: string | null;
+  jtlShippingMethodId: string | null;
+  pickingInstructions: string | null;
+  tags: string[];
+}
+
+interface EvaluatedRule {
+  id: string | null;
+  name: string;
+  matchType: OrderRuleMatchType;
+  conditions: OrderRuleCondition[];
+  actions: OrderRuleAction[];
+  stopProcessing: boolean;
+}
+
+interface FiredRule {
+  rule: EvaluatedRule;
+  changes: Record<string, unknown>;
+}
+
+const ORDER_INCLUDE = {
+  items: { include: { product: { select: { weightInKg: true } } } },
+} satisfies Prisma.OrderInclude;
+
+type RuleOrder = Prisma.OrderGetPayload<{ include: typeof ORDER_INCLUDE }>;
+
+const toText = (value: unknown): string[] => {
+  if (value === null || value === undefined || value === '') return [];
+  return [String(value).trim().toLowerCase()];
+};
+
+const isNumericField = (field: OrderRuleField): boolean =>
+  (NUMERIC_FIELDS as readonly string[]).includes(field);
+
+/**
+ * Check a single condition against the order facts
+ */
+export function matchesCondition(condition: OrderRuleCondition, facts: OrderRuleFacts): boolean {
+  if (isNumericField(condition.field)) {
+    const actual = facts[condition.field as (typeof NUMERIC_FIELDS)[number]];
+    const expected = Number(condition.value);
+    if (actual === null) return condition.operator === 'not_equals';
+
+    switch (condition.operator) {
+      case 'equals': return actual === expected;
+      case 'not_equals': return actual !== expected;
+      case 'gt': return actual > expected;
+      case 'gte': return actual >= expected;
+      case 'lt': return actual < expected;
+      case 'lte': return actual <= expected;
+      default: return false;
+    }
+  }
+
+  const actual = facts[condition.field as (typeof TEXT_FIELDS)[number]];
+  const expected = (Array.isArray(condition.value) ? condition.value : [condition.value])
+    .map(value => String(value).trim().toLowerCase());
+
+  switch (condition.operator) {
+    case 'equals': return actual.some(value => value === expected[0]);
+    case 'not_equals': return !actual.some(value => value === expected[0]);
+    case 'in': return actual.some(value => expected.includes(value));
+    case 'not_in': return !actual.some(value => expected.includes(value));
+    case 'contains': return actual.some(value => value.includes(expected[0]));
+    default: return false;
+  }
+}
+
+/**
+ * Check whether a rule's conditions match. A rule without conditions matches every order.
+ */
+export function matchesRule(
+  rule: { matchType: OrderRuleMatchType; conditions: OrderRuleCondition[] },
+  facts: OrderRuleFacts
+): boolean {
+  if (rule.conditions.length === 0) return true;
+  return rule.matchType === 'ANY'
+    ? rule.conditions.some(condition => matchesCondition(condition, facts))
+    : rule.conditions.every(condition => matchesCondition(condition, facts));
+}
+
+class OrderRuleService {
+  private get prisma() {
+    return dryRunClient() ?? prisma;
+  }
+
+  // ============= VALIDATION =============
+
+  /**
+   * Validate a rule (or the changed fields of one when partial). Returns an error message, or null when the rule is valid.
+   */
+  async validateRule(input: Partial<OrderRuleInput>, partial = false): Promise<string | null> {
+    if (!partial || input.name !== undefined) {
+      if (typeof input.name !== 'string' || !input.name.trim()) return 'name is required';
+    }
+
+    if (input.matchType !== undefined && !Object.values(OrderRuleMatchType).includes(input.matchType)) {
+      return `matchType must be one of: ${Object.values(OrderRuleMatchType).join(', ')}`;
+    }
+
+    if (input.isActive !== undefined && typeof input.isActive !== 'boolean') return 'isActive must be a boolean';
+    if (input.stopProcessing !== undefined && typeof input.stopProcessing !== 'boolean') {
+      return 'stopProcessing must be a boolean';
+    }
+
+    if (!partial || input.conditions !== undefined) {
+      if (!Array.isArray(input.conditions)) return 'conditions must be an array';
+      for (const [index, condition] of input.conditions.entries()) {
+        const error = this.validateCondition(condition);
+        if (error) return `Condition ${index + 1}: ${error}`;
+      }
+    }
+
+    if (!partial || input.actions !== undefined) {
+      if (!Array.isArray(input.actions) || input.actions.length === 0) return 'At least one action is required';
+      for (const [index, action] of input.actions.entries()) {
+        const error = await this.validateAction(action);
+        if (error) return `Action ${index + 1}: ${error}`;
+      }
+    }
+
+    return null;
+  }
+
+  private validateCondition(condition: OrderRuleCondition): string | null {
+    if (!condition || !ORDER_RULE_FIELDS.includes(condition.field)) {
+      return `field must be one of: ${ORDER_RULE_FIELDS.join(', ')}`;
+    }
+
+    const operators: readonly string[] = isNumericField(condition.field) ? NUMERIC_OPERATORS : TEXT_OPERATORS;
+    if (!operators.includes(condition.operator)) {
+      return `operator for ${condition.field} must be one of: ${operators.join(', ')}`;
+    }
+
+    if (isNumericField(condition.field)) {
+      if (typeof condition.value !== 'number' || !Number.isFinite(condition.value)) {
+        return `value for ${condition.field} must be a number`;
+      }
+    } else if (condition.operator === 'in' || condition.operator === 'not_in') {
+      if (!Array.isArray(condition.value) || condition.value.length === 0) {
+        return `value for ${condition.operator} must be a non-empty list`;
+      }
+    } else if ((typeof condition.value !== 'string' && typeof condition.value !== 'number') || condition.value === '') {
+      return `value for ${condition.field} is required`;
+    }
+
+    return null;
+  }
+
+  private async validateAction(action: OrderRuleAction): Promise<string | null> {
+    switch (action?.type) {
+      case 'hold':
+        return typeof action.reason === 'string' && action.reason.trim() ? null : 'hold needs a reason';
+      case 'set_priority':
+        return Number.isInteger(action.priority) ? null : 'set_priority needs a whole number priority';
+      case 'set_carrier': {
+        if (!action.carrier && !action.jtlShippingMethodId) {
+          return 'set_carrier needs a carrier or a jtlShippingMethodId';
+        }
+        if (action.jtlShippingMethodId) {
+          const shippingMethod = await this.prisma.shippingMethod.findFirst({
+            where: { jtlShippingMethodId: action.jtlShippingMethodId, isActive: true },
+            select: { id: true },
+          });
+          if (!shippingMethod) return `Unknown JTL shipping method ${action.jtlShippingMethodId}`;
+        }
+        return null;
+      }
+      case 'add_picking_instructions':
+        return typeof action.text === 'string' && action.text.trim() ? null : 'add_picking_instructions needs a text';
+      case 'add_tag':
+        return typeof action.tag === 'string' && action.tag.trim() ? null : 'add_tag needs a tag';
+      default:
+        return `type must be one of: ${ORDER_RULE_ACTIONS.join(', ')}`;
+    }
+  }
+
+  // ============= RULES =============
+
+  async listRules(clientId?: string) {
+    return this.prisma.orderRule.findMany({
+      where: clientId ? { clientId } : {},
+      include: { _count: { select: { executions: true } } },
+      orderBy: [{ clientId: 'asc' }, { position: 'asc' }],
+    });
+  }
+
+  async findRule(id: string) {
+    return this.prisma.orderRule.findUnique({ where: { id } });
+  }
+
+  /**
+   * Create a rule. New rules are evaluated after the client's existing ones.
+   */
+  async createRule(clientId: string, input: OrderRuleInput, createdById?: string) {
+    const last = await this.prisma.orderRule.findFirst({
+      where: { clientId },
+      orderBy: { position: 'desc' },
+      select: { position: true },
+    });
+
+    return this.prisma.orderRule.create({
+      data: {
+        name: input.name.trim(),
+        description: input.description ?? null,
+        position: (last?.position ?? -1) + 1,
+        isActive: input.isActive ?? true,
+        matchType: input.matchType ?? 'ALL',
+        conditions: input.conditions as unknown as Prisma.InputJsonValue,
+        actions: input.actions as unknown as Prisma.InputJsonValue,
+        stopProcessing: input.stopProcessing ?? false,
+        createdById: createdById ?? null,
+        clientId,
+      },
+    });
+  }
+
+  async updateRule(id: string, input: Partial<OrderRuleInput>) {
+    return this.prisma.orderRule.update({
+      where: { id },
+      data: {
+        ...(input.name !== undefined && { name: input.name.trim() }),
+        ...(input.description !== undefined && { description: input.description }),
+        ...(input.isActive !== undefined && { isActive: input.isActive }),
+        ...(input.matchType !== undefined && { matchType: input.matchType }),
+        ...(input.conditions !== undefined && { conditions: input.conditions as unknown as Prisma.InputJsonValue }),
+        ...(input.actions !== undefined && { actions: input.actions as unknown as Prisma.InputJsonValue }),
+        ...(input.stopProcessing !== undefined && { stopProcessing: input.stopProcessing }),
+      },
+    });
+  }
+
+  async deleteRule(id: string): Promise<void> {
+    await this.prisma.orderRule.delete({ where: { id } });
+  }
+
+  /**
+   * Set the evaluation order. Rules are numbered in the given order; rules of the client
+   * that are not listed keep their relative order after them.
+   */
+  async reorderRules(clientId: string, ruleIds: string[]) {
+    const rules = await this.prisma.orderRule.findMany({
+      where: { clientId },
+      orderBy: { position: 'asc' },
+      select: { id: true },
+    });
+
+    const known = new Set(rules.map(rule => rule.id));
+    const unknown = ruleIds.filter(id => !known.has(id));
+    if (unknown.length > 0) {
+      throw new Error(`Rules not found for this client: ${unknown.join(', ')}`);
+    }
+
+    const listed = [...new Set(ruleIds)];
+    const ordered = [...listed, ...rules.map(rule => rule.id).filter(id => !listed.includes(id))];
+
+    await this.prisma.$transaction(
+      ordered.map((id, position) => this.prisma.orderRule.update({ where: { id }, data: { position } }))
+    );
+
+    return this.listRules(clientId);
+  }
+
+  // ============= EVALUATION =============
+
+  /**
+   * Evaluate the client's active rules against a newly imported order and apply the actions.
+   * Orders that are finished or already in FFN are skipped.
+   * Returns the names of the rules that fired and whether the order is now on a rule hold.
+   * Never throws; when applying fails, the order stays as imported.
+   */
+  async applyRules(orderId: string): Promise<{ fired: string[]; held: boolean }> {
+    try {
+      const order = await this.prisma.order.findUnique({ where: { id: orderId }, include: ORDER_INCLUDE });
+      if (!order || order.isCancelled || order.jtlOutboundId || FINISHED_STATUSES.includes(order.status)) {
+        return { fired: [], held: false };
+      }
+
+      const rules = await this.loadActiveRules(order.clientId);
+      if (rules.length === 0) return { fired: [], held: false };
+
+      const state = this.getOrderState(order);
+      const wasOnRuleHold = state.isOnHold && state.holdReason === ORDER_RULE_HOLD_REASON;
+      const { fired } = this.evaluate(rules, this.getOrderFacts(order), state);
+      if (fired.length === 0) return { fired: [], held: false };
+
+      const held = state.isOnHold && state.holdReason === ORDER_RULE_HOLD_REASON;
+      const placedOnHold = held && !wasOnRuleHold;
+
+      await this.prisma.$transaction([
+        this.prisma.order.update({
+          where: { id: orderId },
+          data: {
+            isOnHold: state.isOnHold,
+            holdReason: state.holdReason,
+            holdNotes: state.holdNotes,
+            ...(placedOnHold && { holdPlacedAt: new Date(), holdPlacedBy: 'SYSTEM' }),
+            priorityLevel: state.priorityLevel,
+            carrierSelection: state.carrierSelection,
+            carrierServiceLevel: state.carrierServiceLevel,
+            jtlShippingMethodId: state.jtlShippingMethodId,
+            pickingInstructions: state.pickingInstructions,
+            tags: state.tags,
+            lastOperationalUpdateBy: 'NOLIMITS',
+            lastOperationalUpdateAt: new Date(),
+          },
+        }),
+        this.prisma.orderRuleExecution.createMany({
+          data: fired.map(({ rule, changes }) => ({
+            ruleId: rule.id,
+            ruleName: rule.name,
+            actions: rule.actions as unknown as Prisma.InputJsonValue,
+            changes: changes as Prisma.InputJsonValue,
+            orderId,
+            clientId: order.clientId,
+          })),
+        }),
+      ]);
+
+      console.log(`[OrderRules] Order ${orderId}: ${fired.map(({ rule }) => rule.name).join(', ')} fired${placedOnHold ? ' - placed on hold' : ''}`);
+
+      if (placedOnHold) {
+        await merchantWebhookService.emitOrderEvent(orderId, 'order.on_hold');
+      }
+
+      return { fired: fired.map(({ rule }) => rule.name), held };
+    } catch (error) {
+      console.error(`[OrderRules] Failed to apply rules to order ${orderId}:`, error);
+      return { fired: [], held: false };
+    }
+  }
+
+  /**
+   * Dry-run rules against an existing order or sample facts.
+   * Evaluates the given draft rule, or the client's active rules when none is given.
+   */
+  async simulate(
+    clientId: string,
+    input: { orderId?: string; facts?: Partial<Record<OrderRuleField, unknown>>; rule?: OrderRuleInput }
+  ) {
+    let facts: OrderRuleFacts;
+    let state: OrderRuleState;
+
+    if (input.orderId) {
+      const order = await this.prisma.order.findFirst({
+        where: { clientId, OR: [{ id: input.orderId }, { orderId: input.orderId }] },
+        include: ORDER_INCLUDE,
+      });
+      if (!order) throw new Error(`Order ${input.orderId} not found`);
+      facts = this.getOrderFacts(order);
+      state = this.getOrderState(order);
+    } else {
+      const sample = input.facts || {};
+      facts = this.getSampleFacts(sample);
+      state = {
+        isOnHold: false,
+        holdReason: null,
+        holdNotes: null,
+        priorityLevel: 0,
+        carrierSelection: null,
+        carrierServiceLevel: null,
+        jtlShippingMethodId: null,
+        pickingInstructions: null,
+        tags: (Array.isArray(sample.tags) ? sample.tags : sample.tags ? [sample.tags] : []).map(String),
+      };
+    }
+
+    const rules: EvaluatedRule[] = input.rule
+      ? [{
+        id: null,
+        name: input.rule.name,
+        matchType: input.rule.matchType ?? 'ALL',
+        conditions: input.rule.conditions,
+        actions: input.rule.actions,
+        stopProcessing: input.rule.stopProcessing ?? false,
+      }]
+      : await this.loadActiveRules(clientId);
+
+    const { fired, results } = this.evaluate(rules, facts, state);
+
+    return {
+      facts,
+      rules: results,
+      fired: fired.map(({ rule, changes }) => ({ ruleId: rule.id, name: rule.name, changes })),
+      result: state,
+    };
+  }
+
+  /**
+   * Run rules in order against the facts, applying the actions of every matching rule to state
+   */
+  private evaluate(rules: EvaluatedRule[], facts: OrderRuleFacts, state: OrderRuleState) {
+    const fired: FiredRule[] = [];
+    const results: Array<{
+      ruleId: string | null;
+      name: string;
+      matched: boolean;
+      conditions: Array<OrderRuleCondition & { matched: boolean }>;
+    }> = [];
+
+    for (const rule of rules) {
+      const matched = matchesRule(rule, facts);
+      results.push({
+        ruleId: rule.id,
+        name: rule.name,
+        matched,
+        conditions: rule.conditions.map(condition => ({ ...condition, matched: matchesCondition(condition, facts) })),
+      });
+
+      if (!matched) continue;
+
+      const changes: Record<string, unknown> = {};
+      for (const action of rule.actions) {
+        this.applyAction(rule, action, state, changes);
+      }
+      fired.push({ rule, changes });
+
+      if (rule.stopProcessing) break;
+    }
+
+    return { fired, results };
+  }
+
+  private applyAction(
+    rule: EvaluatedRule,
+    action: OrderRuleAction,
+    state: OrderRuleState,
+    changes: Record<string, unknown>
+  ): void {
+    switch (action.type) {
+      case 'hold': {
+        const note = `[${rule.name}] ${action.reason}`;
+        if (state.isOnHold && state.holdReason === ORDER_RULE_HOLD_REASON) {
+          state.holdNotes = `${state.holdNotes || ''}\n${note}`.trim();
+        } else if (!state.isOnHold || state.holdReason === 'AWAITING_PAYMENT') {
+          state.holdNotes = state.isOnHold ? `${note}\n(replaces ${state.holdReason} hold)` : note;
+          state.isOnHold = true;
+          state.holdReason = ORDER_RULE_HOLD_REASON;
+        } else {
+          changes.holdSkipped = `Order already on ${state.holdReason} hold`;
+          return;
+        }
+        changes.isOnHold = true;
+        changes.holdReason = ORDER_RULE_HOLD_REASON;
+        changes.holdNotes = state.holdNotes;
+        return;
+      }
+      case 'set_priority':
+        state.priorityLevel = action.priority;
+        changes.priorityLevel = action.priority;
+        return;
+      case 'set_carrier':
+        if (action.carrier) {
+          state.carrierSelection = action.carrier;
+          state.carrierServiceLevel = action.serviceLevel ?? null;
+          changes.carrierSelection = state.carrierSelection;
+          changes.carrierServiceLevel = state.carrierServiceLevel;
+        }
+        if (action.jtlShippingMethodId) {
+          state.jtlShippingMethodId = action.jtlShippingMethodId;
+          changes.jtlShippingMethodId = action.jtlShippingMethodId;
+        }
+        return;
+      case 'add_picking_instructions':
+        state.pickingInstructions = `${state.pickingInstructions || ''}\n${action.text.trim()}`.trim();
+        changes.pickingInstructions = state.pickingInstructions;
+        return;
+      case 'add_tag':
+        if (!state.tags.includes(action.tag.trim())) {
+          state.tags = [...state.tags, action.tag.trim()];
+        }
+        changes.tags = state.tags;
+        return;
+    }
+  }
+
+  private async loadActiveRules(clientId: string): Promise<EvaluatedRule[]> {
+    const rules = await this.prisma.orderRule.findMany({
+      where: { clientId, isActive: true },
+      orderBy: { position: 'asc' },
+    });
+
+    return rules.map(rule => ({
+      id: rule.id,
+      name: rule.name,
+      matchType: rule.matchType,
+      conditions: rule.conditions as unknown as OrderRuleCondition[],
+      actions: rule.actions as unknown as OrderRuleAction[],
+      stopProcessing: rule.stopProcessing,
+    }));
+  }
+
+  private getOrderFacts(order: RuleOrder): OrderRuleFacts {
+    // Prefer the weight reported by the shop, otherwise sum the item weights
+    let weight: number | null = order.totalWeight !== null ? Number(order.totalWeight) : null;
+    if (weight === null) {
+      const itemWeights = order.items.map(item => {
+        const unitWeight = item.weightInKg ?? item.product?.weightInKg;
+        return unitWeight !== null && unitWeight !== undefined ? Number(unitWeight) * item.quantity : null;
+      });
+      if (itemWeights.some(itemWeight => itemWeight !== null)) {
+        weight = itemWeights.reduce<number>((sum, itemWeight) => sum + (itemWeight ?? 0), 0);
+      }
+    }
+
+    return {
+      total: order.total !== null ? Number(order.total) : null,
+      weight,
+      country: [
+        ...toText(order.shippingCountryCode),
+        ...toText(order.shippingCountry),
+      ],
+      tags: order.tags.flatMap(toText),
+      sku: order.items.flatMap(item => toText(item.sku)),
+      customerEmail: toText(order.customerEmail),
+      paymentMethod: toText(order.paymentMethod),
+      shippingMethod: [
+        ...toText(order.shippingMethod),
+        ...toText(order.shippingMethodCode),
+      ],
+    };
+  }
+
+  private getSampleFacts(sample: Partial<Record<OrderRuleField, unknown>>): OrderRuleFacts {
+    const toNumber = (value: unknown): number | null =>
+      value === undefined || value === null || value === '' || !Number.isFinite(Number(value)) ? null : Number(value);
+    const toList = (value: unknown): string[] =>
+      (Array.isArray(value) ? value : [value]).flatMap(toText);
+
+    return {
+      total: toNumber(sample.total),
+      weight: toNumber(sample.weight),
+      country: toList(sample.country),
+      tags: toList(sample.tags),
+      sku: toList(sample.sku),
+      customerEmail: toList(sample.customerEmail),
+      paymentMethod: toList(sample.paymentMethod),
+      shippingMethod: toList(sample.shippingMethod),
+    };
+  }
+
+  private getOrderState(order: RuleOrder): OrderRuleState {
+    return {
+      isOnHold: order.isOnHold,
+      holdReason: order.holdReason,
+      holdNotes: order.holdNotes,
+      priorityLevel: order.priorityLevel,
+      carrierSelection: order.carrierSelection,
+      carrierServiceLevel: order.carrierServiceLevel,
+      jtlShippingMethodId: order.jtlShippingMethodId,
+      pickingInstructions: order.pickingInstructions,
+      tags: [...order.tags],
+    };
+  }
+
+  // ============= EXECUTION LOG =============
+
+  async listExecutions(filters: {
+    clientId?: string;
+    ruleId?: string;
+    orderId?: string;
+    page?: number;
+    limit?: number;
+  }) {
+    const page = Math.max(1, filters.page ?? 1);
+    const limit = Math.min(200, Math.max(1, filters.limit ?? 50));
+
+    const where: Prisma.OrderRuleExecutionWhereInput = {
+      ...(filters.clientId && { clientId: filters.clientId }),
+      ...(filters.ruleId && { ruleId: filters.ruleId }),
+      ...(filters.orderId && { orderId: filters.orderId }),
+    };
+
+    const [executions, total] = await Promise.all([
+      this.prisma.orderRuleExecution.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        take: limit,
+        skip: (page - 1) * limit,
+        include: { order: { select: { id: true, orderId: true, orderNumber: true } } },
+      }),
+      this.prisma.orderRuleExecution.count({ where }),
+    ]);
+
+    return {
+      executions,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+}
+
+export const orderRuleService = new OrderRuleService();
@@ -6,6 +6,7 @@
  * - Product sync (Shopify, WooCommerce, JTL)
  * - Order sync (FFN, commerce platforms)
  * - Return sync (commerce platforms, restock)
+ * - Outgoing merchant webhooks
  *
  * Features:
  * - Proper error handling with retries
@@ -18,15 +19,19 @@ import { PrismaClient } from '@prisma/client';
 import {
     SyncQueueService,
     QUEUE_NAMES,
+    QueueName,
     ProductSyncJobData,
     OrderSyncJobData,
     ReturnSyncJobData,
+    WebhookDeliveryJobData,
     getQueue,
 } from './sync-queue.service.js';
 import { OrderSyncService } from '../integrations/order-sync.service.js';
 import { ReturnSyncService } from '../integrations/return-sync.service.js';
 import { JTLOrderSyncService } from '../integrations/jtl-order-sync.service.js';
 import { ProductSyncService } from '../integrations/product-sync.service.js';
+import { merchantWebhookService } from '../merchant-webhook.service.js';
+import { stockMovementService } from '../stock-movement.service.js';
 import { Logger } from '../../utils/logger.js';
 import { generateJobId } from '../../utils/job-id.js';
 import { emitToClient } from '../socket.js';
@@ -93,6 +98,7 @@ export class QueueWorkerService {
         await this.registerProductSyncWorkers(queue);
         await this.registerOrderSyncWorkers(queue);
         await this.registerReturnSyncWorkers(queue);
+        await this.registerMerchantWebhookWorkers(queue);
 
         this.isInitialized = true;
 
@@ -130,6 +136,30 @@ export class QueueWorkerService {
             { batchSize: 5 }
         );
 
+        // Amazon stock sync (listing content is not pushed to Amazon)
+        await queue.work<ProductSyncJobData>(
+            QUEUE_NAMES.PRODUCT_SYNC_TO_AMAZON,
+            async (job) => {
+                const result = await this.handleStockOnlySync(job.data, 'amazon', QUEUE_NAMES.PRODUCT_SYNC_TO_AMAZON);
+                if (!result.success) {
+                    throw new Error(result.error);
+                }
+            },
+            { batchSize: 5 }
+        );
+
+        // eBay stock sync (listing content is not pushed to eBay)
+        await queue.work<ProductSyncJobData>(
+            QUEUE_NAMES.PRODUCT_SYNC_TO_EBAY,
+            async (job) => {
+                const result = await this.handleStockOnlySync(job.data, 'ebay', QUEUE_NAMES.PRODUCT_SYNC_TO_EBAY);
+                if (!result.success) {
+                    throw new Error(result.error);
+                }
+            },
+            { batchSize: 5 }
+        );
+
         // JTL product sync
         await queue.work<ProductSyncJobData>(
             QUEUE_NAMES.PRODUCT_SYNC_TO_JTL,
@@ -385,6 +415,55 @@ export class QueueWorkerService {
         }
     }
 
+    /**
+     * Stock-only sync for marketplaces whose listings are managed on the marketplace itself
+     */
+    private async handleStockOnlySync(
+        data: ProductSyncJobData,
+        platform: 'amazon' | 'ebay',
+        queueName: QueueName
+    ): Promise<JobResult> {
+        const { productId, channelId } = data;
+        const jobId = generateJobId(`stock-${platform}`);
+        const startTime = Date.now();
+
+        if (!channelId) {
+            return { success: false, error: `channelId is required for ${platform} stock sync` };
+        }
+
+        try {
+            const result = await this.productSyncService.syncStockToChannel(productId, channelId);
+
+            if (!result.success) {
+                this.logger.error({
+                    jobId,
+                    event: 'job_failed',
+                    operation: 'stockSync',
+                    platform,
+                    productId,
+                    duration: Date.now() - startTime,
+                    error: result.error
+                });
+                return { success: false, error: result.error };
+            }
+
+            this.logger.info({
+                jobId,
+                event: 'job_completed',
+                operation: 'stockSync',
+                platform,
+                productId,
+                duration: Date.now() - startTime
+            });
+
+            return { success: true, details: { action: 'stock_updated' } };
+        } catch (error: any) {
+            console.error(`[QueueWorker] Stock sync to ${platform} failed:`, error);
+            this.logDLQEvent('unknown', queueName, data, error.message, 0);
+            return { success: false, error: error.message };
+        }
+    }
+
     private async handleProductSyncToJTL(data: ProductSyncJobData): Promise<JobResult> {
         const { productId, fieldsToSync } = data;
         console.log(`[QueueWorker] Processing product sync to JTL: ${productId}`);
@@ -778,24 +857,29 @@ export class QueueWorkerService {
                 return { success: true, details: { skipped: true, reason: 'Not eligible' } };
             }
 
+            const restockedProductIds: string[] = [];
+
             // Update stock for each restockable item
             for (const item of returnRecord.items) {
                 if (!item.productId) continue;
 
                 const restockQty = item.restockableQuantity || item.quantity;
 
-                await this.prisma.product.update({
-                    where: { id: item.productId },
+                await stockMovementService.incrementAvailable(item.productId, restockQty, 'return_restock', {
+                    referenceType: 'Return',
+                    referenceId: returnRecord.id,
                     data: {
-                        available: { increment: restockQty },
                         lastUpdatedBy: 'NOLIMITS',
                         updatedAt: new Date(),
                     },
                 });
 
+                restockedProductIds.push(item.productId);
                 console.log(`[QueueWorker] Restocked ${restockQty} of product ${item.productId}`);
             }
 
+            await merchantWebhookService.emitStockChanged(returnRecord.clientId, restockedProductIds, 'return_restock');
+
             // Mark return as restock complete
             await this.prisma.return.update({
                 where: { id: returnId },
@@ -825,6 +909,26 @@ export class QueueWorkerService {
         }
     }
 
+    // ============= MERCHANT WEBHOOK WORKERS =============
+
+    private async registerMerchantWebhookWorkers(queue: SyncQueueService): Promise<void> {
+        await queue.work<WebhookDeliveryJobData>(
+            QUEUE_NAMES.MERCHANT_WEBHOOK_DELIVERY,
+            async (job) => {
+                const outcome = await merchantWebhookService.deliver(job.data.deliveryId);
+                // Fail the job so pg-boss retries it with backoff
+                if (outcome === 'retry') {
+                    throw new Error(`Webhook delivery ${job.data.deliveryId} failed, will retry`);
+                }
+                if (outcome === 'failed') {
+                    this.logDLQEvent(job.id, QUEUE_NAMES.MERCHANT_WEBHOOK_DELIVERY, job.data, 'Webhook delivery failed', 0);
+                }
+            }
+        );
+
+        console.log('[QueueWorker] Merchant webhook workers registered');
+    }
+
     // ============= DLQ & MONITORING =============
 
     private logDLQEvent(
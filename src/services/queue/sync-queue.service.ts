@@ -13,6 +13,7 @@
 
 import { PgBoss } from 'pg-boss';
 import { PrismaClient } from '@prisma/client';
+import { skipDuringDryRun } from '../../utils/dry-run.js';
 
 // ============= QUEUE NAMES =============
 
@@ -20,6 +21,8 @@ export const QUEUE_NAMES = {
   // Product sync queues
   PRODUCT_SYNC_TO_SHOPIFY: 'product-sync-to-shopify',
   PRODUCT_SYNC_TO_WOOCOMMERCE: 'product-sync-to-woocommerce',
+  PRODUCT_SYNC_TO_AMAZON: 'product-sync-to-amazon',
+  PRODUCT_SYNC_TO_EBAY: 'product-sync-to-ebay',
   PRODUCT_SYNC_TO_JTL: 'product-sync-to-jtl',
 
   // Order sync queues
@@ -30,6 +33,9 @@ export const QUEUE_NAMES = {
   // Return sync queues
   RETURN_SYNC_TO_COMMERCE: 'return-sync-to-commerce',
   RETURN_RESTOCK_SYNC: 'return-restock-sync',
+
+  // Outgoing merchant webhooks
+  MERCHANT_WEBHOOK_DELIVERY: 'merchant-webhook-delivery',
 } as const;
 
 export type QueueName = typeof QUEUE_NAMES[keyof typeof QUEUE_NAMES];
@@ -45,7 +51,7 @@ export interface ProductSyncJobData {
 
 export interface OrderSyncJobData {
   orderId: string;
-  origin: 'shopify' | 'woocommerce' | 'nolimits';
+  origin: 'shopify' | 'woocommerce' | 'file' | 'nolimits';
   operation: 'create' | 'update' | 'cancel' | 'fulfill' | 'hold' | 'release_hold' | 'update_tracking';
   holdReason?: string;
 }
@@ -55,7 +61,11 @@ export interface ReturnSyncJobData {
   operation: 'refund' | 'restock' | 'finalize';
 }
 
-export type JobData = ProductSyncJobData | OrderSyncJobData | ReturnSyncJobData;
+export interface WebhookDeliveryJobData {
+  deliveryId: string;
+}
+
+export type JobData = ProductSyncJobData | OrderSyncJobData | ReturnSyncJobData | WebhookDeliveryJobData;
 
 // ============= JOB OPTIONS =============
 
@@ -156,6 +166,8 @@ export class SyncQueueService {
     data: T,
     options?: EnqueueOptions
   ): Promise<string | null> {
+    if (skipDuringDryRun(`${queueName} job`)) return null;
+
     if (!this.isStarted) {
       throw new Error('Queue not started. Call start() first.');
     }
@@ -0,0 +1,133 @@
+/**
+ * Rate Limit Service
+ *
+ * Token-bucket rate limiting with pluggable state:
+ * - memory: per-process Map (default, fine for a single instance)
+ * - postgres: one row per bucket in rate_limit_buckets, updated atomically
+ *
+ * A bucket holds up to `capacity` tokens and refills continuously at
+ * capacity / windowSeconds tokens per second. Every request takes one token.
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '../config/database.js';
+import { env } from '../config/env.js';
+
+export interface RateLimitRule {
+  capacity: number;
+  windowSeconds: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  // Seconds until the bucket is full again
+  resetSeconds: number;
+  // Seconds until the next token is available (only when not allowed)
+  retryAfterSeconds: number;
+}
+
+export interface RateLimitStore {
+  readonly name: string;
+  consume(key: string, rule: RateLimitRule): Promise<RateLimitResult>;
+}
+
+const toResult = (tokens: number, allowed: boolean, rule: RateLimitRule): RateLimitResult => {
+  const refillPerSecond = rule.capacity / rule.windowSeconds;
+  return {
+    allowed,
+    limit: rule.capacity,
+    remaining: Math.max(0, Math.floor(tokens)),
+    resetSeconds: Math.ceil((rule.capacity - tokens) / refillPerSecond),
+    retryAfterSeconds: allowed ? 0 : Math.ceil((1 - tokens) / refillPerSecond),
+  };
+};
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  readonly name = 'memory';
+  private buckets = new Map<string, { tokens: number; updatedAt: number }>();
+  private lastCleanup = Date.now();
+
+  async consume(key: string, rule: RateLimitRule): Promise<RateLimitResult> {
+    const now = Date.now();
+    const refillPerMs = rule.capacity / (rule.windowSeconds * 1000);
+    const bucket = this.buckets.get(key) ?? { tokens: rule.capacity, updatedAt: now };
+
+    const tokens = Math.min(rule.capacity, bucket.tokens + (now - bucket.updatedAt) * refillPerMs);
+    const allowed = tokens >= 1;
+    const remaining = allowed ? tokens - 1 : tokens;
+
+    this.buckets.set(key, { tokens: remaining, updatedAt: now });
+    this.cleanup(now);
+
+    return toResult(remaining, allowed, rule);
+  }
+
+  // Drop buckets idle for an hour (they'd be full again anyway)
+  private cleanup(now: number): void {
+    if (now - this.lastCleanup < 60 * 1000) return;
+    this.lastCleanup = now;
+
+    for (const [key, bucket] of this.buckets) {
+      if (now - bucket.updatedAt > 60 * 60 * 1000) this.buckets.delete(key);
+    }
+  }
+}
+
+export class PostgresRateLimitStore implements RateLimitStore {
+  readonly name = 'postgres';
+
+  async consume(key: string, rule: RateLimitRule): Promise<RateLimitResult> {
+    const refillPerSecond = rule.capacity / rule.windowSeconds;
+
+    // Tokens after refilling for the time since the last request
+    const refilled = Prisma.sql`LEAST(
+      ${rule.capacity}::float8,
+      "rate_limit_buckets"."tokens"
+        + EXTRACT(EPOCH FROM (now() - "rate_limit_buckets"."updatedAt")) * ${refillPerSecond}::float8
+    )`;
+
+    // Refill and take a token in one statement, so concurrent requests can't overspend
+    const rows = await prisma.$queryRaw<Array<{ tokens: number; allowed: boolean }>>`
+      INSERT INTO "rate_limit_buckets" ("key", "tokens", "allowed", "updatedAt")
+      VALUES (${key}, ${rule.capacity - 1}, true, now())
+      ON CONFLICT ("key") DO UPDATE SET
+        "tokens" = CASE WHEN ${refilled} >= 1 THEN ${refilled} - 1 ELSE ${refilled} END,
+        "allowed" = ${refilled} >= 1,
+        "updatedAt" = now()
+      RETURNING "tokens", "allowed"
+    `;
+
+    const row = rows[0];
+    return toResult(Number(row.tokens), row.allowed, rule);
+  }
+}
+
+const createStore = (name: string): RateLimitStore => {
+  switch (name) {
+    case 'postgres':
+      return new PostgresRateLimitStore();
+    case 'memory':
+      return new MemoryRateLimitStore();
+    default:
+      console.warn(`[RateLimit] Unknown RATE_LIMIT_STORE "${name}", falling back to memory`);
+      return new MemoryRateLimitStore();
+  }
+};
+
+class RateLimitService {
+  private store: RateLimitStore = createStore(env.rateLimitStore);
+
+  setStore(store: RateLimitStore): void {
+    this.store = store;
+  }
+
+  async consume(key: string, rule: RateLimitRule): Promise<RateLimitResult> {
+    return this.store.consume(key, rule);
+  }
+}
+
+// Export singleton instance
+export const rateLimitService = new RateLimitService();
+export default rateLimitService;
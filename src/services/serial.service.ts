@@ -0,0 +1,292 @@
+/**
+ * Serial Number Service
+ *
+ * Records which serial number went to which customer, and checks returned units
+ * against it.
+ *
+ * KEY CONCEPTS:
+ * 1. Serials are attached to order lines - from the FFN shipping notification when the
+ *    fulfiller scans them, or entered by hand. A line never gets more serials than units
+ * 2. Serials on a return item are checked against the serials shipped with the return's
+ *    order (any of the client's orders for returns without an order) for the same product,
+ *    and against serials already returned. A failed check is recorded as serialMismatch
+ *    instead of rejecting the return - the unit is physically there either way
+ * 3. The search finds the order, customer and return history of a serial
+ */
+
+import { prisma } from '../config/database.js';
+import { dryRunClient } from '../utils/dry-run.js';
+import { matchShippingNotificationItem, JTLShippingNotificationItem } from './integrations/jtl.service.js';
+
+export interface ReturnSerialCheck {
+  serialNumbers: string[];
+  serialMismatch: boolean;
+  issues: string[];
+}
+
+// Trimmed, non-empty, without duplicates
+export const normalizeSerials = (serials: unknown[]): string[] =>
+  [...new Set(serials.map(serial => String(serial).trim()).filter(Boolean))];
+
+class SerialService {
+  private get prisma() {
+    return dryRunClient() ?? prisma;
+  }
+
+  // ============= ORDER LINES =============
+
+  /**
+   * Record the serials an order shipped with (from its FFN shipping notifications).
+   * Serials already recorded are skipped. Never throws.
+   */
+  async recordShippedSerials(orderId: string, shippedItems: JTLShippingNotificationItem[] | undefined): Promise<number> {
+    const serialItems = (shippedItems ?? []).filter(item => item.serialNumbers?.length);
+    if (serialItems.length === 0) return 0;
+
+    try {
+      const order = await this.prisma.order.findUnique({
+        where: { id: orderId },
+        select: {
+          clientId: true,
+          items: { select: { id: true, sku: true, product: { select: { jtlProductId: true } } } },
+        },
+      });
+      if (!order) return 0;
+
+      const data = serialItems.flatMap(shipped => {
+        const orderItem = matchShippingNotificationItem(order.items, shipped);
+        if (!orderItem) return [];
+        return normalizeSerials(shipped.serialNumbers!).map(serialNumber => ({
+          serialNumber,
+          source: 'ffn',
+          orderItemId: orderItem.id,
+          clientId: order.clientId,
+        }));
+      });
+
+      const result = await this.prisma.orderItemSerial.createMany({ data, skipDuplicates: true });
+      return result.count;
+    } catch (error) {
+      console.error(`[Serial] Failed to record shipped serials for order ${orderId}:`, error);
+      return 0;
+    }
+  }
+
+  /**
+   * Enter serials of an order line by hand
+   * @throws When the line would get more serials than units
+   */
+  async addOrderItemSerials(orderItemId: string, serialNumbers: string[], createdById?: string) {
+    const orderItem = await this.prisma.orderItem.findUnique({
+      where: { id: orderItemId },
+      select: { id: true, quantity: true, order: { select: { clientId: true } }, serials: { select: { serialNumber: true } } },
+    });
+    if (!orderItem) throw new Error(`Order item ${orderItemId} not found`);
+
+    const known = new Set(orderItem.serials.map(serial => serial.serialNumber));
+    const added = serialNumbers.filter(serialNumber => !known.has(serialNumber));
+
+    if (known.size + added.length > orderItem.quantity) {
+      throw new Error(`Order line has ${orderItem.quantity} units but would get ${known.size + added.length} serial numbers`);
+    }
+
+    await this.prisma.orderItemSerial.createMany({
+      data: added.map(serialNumber => ({
+        serialNumber,
+        source: 'manual',
+        createdById: createdById ?? null,
+        orderItemId: orderItem.id,
+        clientId: orderItem.order.clientId,
+      })),
+      skipDuplicates: true,
+    });
+
+    return this.prisma.orderItemSerial.findMany({
+      where: { orderItemId: orderItem.id },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  async findSerial(id: string) {
+    return this.prisma.orderItemSerial.findUnique({ where: { id } });
+  }
+
+  async deleteSerial(id: string) {
+    await this.prisma.orderItemSerial.delete({ where: { id } });
+  }
+
+  async getOrderSerials(orderId: string) {
+    return this.prisma.orderItem.findMany({
+      where: { orderId },
+      select: {
+        id: true,
+        sku: true,
+        productName: true,
+        quantity: true,
+        serials: { orderBy: { createdAt: 'asc' } },
+      },
+    });
+  }
+
+  // ============= RETURNS =============
+
+  /**
+   * Check serials of a return item without storing them
+   */
+  async checkReturnItemSerials(returnItemId: string, serialNumbers: string[]): Promise<ReturnSerialCheck> {
+    const returnItem = await this.prisma.returnItem.findUnique({
+      where: { id: returnItemId },
+      select: {
+        id: true,
+        sku: true,
+        productId: true,
+        return: { select: { clientId: true, orderId: true } },
+      },
+    });
+    if (!returnItem) throw new Error(`Return item ${returnItemId} not found`);
+
+    const { clientId, orderId } = returnItem.return;
+    const issues: string[] = [];
+
+    const [shipped, returned] = await Promise.all([
+      this.prisma.orderItemSerial.findMany({
+        where: {
+          ...(clientId && { clientId }),
+          serialNumber: { in: serialNumbers },
+          orderItem: {
+            ...(orderId && { orderId }),
+            ...(returnItem.productId ? { productId: returnItem.productId } : returnItem.sku ? { sku: returnItem.sku } : {}),
+          },
+        },
+        select: { serialNumber: true },
+      }),
+      this.prisma.returnItem.findMany({
+        where: {
+          id: { not: returnItem.id },
+          serialNumbers: { hasSome: serialNumbers },
+          return: { clientId },
+        },
+        select: { serialNumbers: true, return: { select: { returnId: true } } },
+      }),
+    ]);
+
+    const shippedSerials = new Set(shipped.map(serial => serial.serialNumber));
+
+    for (const serialNumber of serialNumbers) {
+      if (!shippedSerials.has(serialNumber)) {
+        issues.push(orderId
+          ? `${serialNumber} was not shipped with this order`
+          : `${serialNumber} was not shipped to any customer`);
+      }
+      const earlier = returned.find(item => item.serialNumbers.includes(serialNumber));
+      if (earlier) {
+        issues.push(`${serialNumber} was already returned with return ${earlier.return.returnId}`);
+      }
+    }
+
+    return { serialNumbers, serialMismatch: issues.length > 0, issues };
+  }
+
+  /**
+   * Store the serials of a return item together with the result of their check
+   */
+  async setReturnItemSerials(returnItemId: string, serialNumbers: string[]): Promise<ReturnSerialCheck> {
+    const check = await this.checkReturnItemSerials(returnItemId, serialNumbers);
+
+    await this.prisma.returnItem.update({
+      where: { id: returnItemId },
+      data: {
+        serialNumbers: check.serialNumbers,
+        serialMismatch: check.serialMismatch,
+      },
+    });
+
+    return check;
+  }
+
+  // ============= SEARCH =============
+
+  /**
+   * Order, customer and return history of a serial number
+   */
+  async search(clientId: string | undefined, serialNumber: string) {
+    const [shipments, returns] = await Promise.all([
+      this.prisma.orderItemSerial.findMany({
+        where: { serialNumber, ...(clientId && { clientId }) },
+        include: {
+          orderItem: {
+            select: {
+              sku: true,
+              productName: true,
+              productId: true,
+              order: {
+                select: {
+                  id: true,
+                  orderId: true,
+                  orderNumber: true,
+                  clientId: true,
+                  customerName: true,
+                  customerEmail: true,
+                  shippingCity: true,
+                  shippingCountryCode: true,
+                  orderDate: true,
+                  shippedAt: true,
+                  status: true,
+                },
+              },
+            },
+          },
+        },
+        orderBy: { createdAt: 'asc' },
+      }),
+      this.prisma.returnItem.findMany({
+        where: {
+          serialNumbers: { has: serialNumber },
+          ...(clientId && { return: { clientId } }),
+        },
+        select: {
+          id: true,
+          sku: true,
+          condition: true,
+          disposition: true,
+          serialMismatch: true,
+          return: {
+            select: {
+              id: true,
+              returnId: true,
+              orderId: true,
+              status: true,
+              returnDate: true,
+              reason: true,
+              customerName: true,
+            },
+          },
+        },
+        orderBy: { return: { returnDate: 'asc' } },
+      }),
+    ]);
+
+    return {
+      serialNumber,
+      shipments: shipments.map(shipment => ({
+        id: shipment.id,
+        source: shipment.source,
+        recordedAt: shipment.createdAt,
+        sku: shipment.orderItem.sku,
+        productName: shipment.orderItem.productName,
+        productId: shipment.orderItem.productId,
+        order: shipment.orderItem.order,
+      })),
+      returns: returns.map(item => ({
+        returnItemId: item.id,
+        sku: item.sku,
+        condition: item.condition,
+        disposition: item.disposition,
+        serialMismatch: item.serialMismatch,
+        ...item.return,
+      })),
+    };
+  }
+}
+
+export const serialService = new SerialService();
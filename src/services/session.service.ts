@@ -0,0 +1,208 @@
+/**
+ * Session Service
+ *
+ * Server-side login sessions with refresh-token rotation.
+ *
+ * KEY CONCEPTS:
+ * 1. Each login creates a UserSession; access and refresh tokens carry its ID
+ * 2. Only the SHA-256 hash of the latest refresh token is stored
+ * 3. Every refresh rotates the refresh token. Presenting an older token of the same
+ *    session means it was copied, so the whole session (token family) is revoked
+ * 4. `authenticate` rejects access tokens whose session is revoked or expired
+ */
+
+import crypto from 'crypto';
+import { prisma } from '../config/database.js';
+import { generateTokens, TokenPayload } from '../utils/auth.js';
+
+// Matches the refresh token lifetime in utils/auth.ts
+const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+export type SessionRevokeReason =
+  | 'LOGOUT'
+  | 'USER_REVOKED'
+  | 'ADMIN_FORCE_LOGOUT'
+  | 'REFRESH_TOKEN_REUSE'
+  | 'PASSWORD_CHANGED';
+
+export interface SessionMetadata {
+  ipAddress?: string | null;
+  userAgent?: string | null;
+}
+
+export type RotateResult =
+  | { status: 'rotated'; tokens: { accessToken: string; refreshToken: string } }
+  | { status: 'invalid' }
+  | { status: 'reused' };
+
+const SESSION_SELECT = {
+  id: true,
+  ipAddress: true,
+  userAgent: true,
+  createdAt: true,
+  lastUsedAt: true,
+  expiresAt: true,
+  revokedAt: true,
+  revokedReason: true,
+} as const;
+
+class SessionService {
+  private prisma = prisma;
+
+  /**
+   * Start a session and issue its first token pair
+   */
+  async create(payload: Omit<TokenPayload, 'sessionId'>, metadata: SessionMetadata = {}) {
+    const session = await this.prisma.userSession.create({
+      data: {
+        userId: payload.userId,
+        // Replaced below once the token (which embeds the session ID) is signed
+        refreshTokenHash: `pending:${crypto.randomUUID()}`,
+        expiresAt: new Date(Date.now() + SESSION_TTL_MS),
+        ipAddress: metadata.ipAddress ?? null,
+        userAgent: metadata.userAgent ?? null,
+      },
+    });
+
+    const tokens = generateTokens({ ...payload, sessionId: session.id });
+
+    await this.prisma.userSession.update({
+      where: { id: session.id },
+      data: { refreshTokenHash: this.hash(tokens.refreshToken) },
+    });
+
+    return { sessionId: session.id, tokens };
+  }
+
+  /**
+   * Exchange a refresh token for a new token pair.
+   * `payload` must come from a verified refresh token and carries the current user state.
+   */
+  async rotate(refreshToken: string, payload: TokenPayload, metadata: SessionMetadata = {}): Promise<RotateResult> {
+    if (!payload.sessionId) return { status: 'invalid' };
+
+    const session = await this.prisma.userSession.findUnique({
+      where: { id: payload.sessionId },
+    });
+
+    if (!session || session.userId !== payload.userId) return { status: 'invalid' };
+    if (session.revokedAt || session.expiresAt <= new Date()) return { status: 'invalid' };
+
+    const presentedHash = this.hash(refreshToken);
+    if (session.refreshTokenHash !== presentedHash) {
+      await this.revokeForReuse(session.id, metadata);
+      return { status: 'reused' };
+    }
+
+    const tokens = generateTokens(payload);
+
+    // Conditional on the old hash, so two concurrent refreshes can't both succeed
+    const { count } = await this.prisma.userSession.updateMany({
+      where: { id: session.id, refreshTokenHash: presentedHash, revokedAt: null },
+      data: {
+        refreshTokenHash: this.hash(tokens.refreshToken),
+        lastUsedAt: new Date(),
+        expiresAt: new Date(Date.now() + SESSION_TTL_MS),
+      },
+    });
+
+    if (count === 0) {
+      await this.revokeForReuse(session.id, metadata);
+      return { status: 'reused' };
+    }
+
+    return { status: 'rotated', tokens };
+  }
+
+  /**
+   * Whether a session may still be used for authentication
+   */
+  async isActive(sessionId: string, userId: string): Promise<boolean> {
+    const session = await this.prisma.userSession.findUnique({
+      where: { id: sessionId },
+      select: { userId: true, revokedAt: true, expiresAt: true },
+    });
+
+    return !!session && session.userId === userId && !session.revokedAt && session.expiresAt > new Date();
+  }
+
+  /**
+   * Active sessions of a user, most recently used first
+   */
+  async listForUser(userId: string) {
+    return this.prisma.userSession.findMany({
+      where: {
+        userId,
+        revokedAt: null,
+        expiresAt: { gt: new Date() },
+      },
+      select: SESSION_SELECT,
+      orderBy: { lastUsedAt: 'desc' },
+    });
+  }
+
+  /**
+   * Revoke one session of a user. Returns false if it doesn't exist or is already revoked.
+   */
+  async revoke(
+    userId: string,
+    sessionId: string,
+    reason: SessionRevokeReason,
+    revokedById?: string
+  ): Promise<boolean> {
+    const { count } = await this.prisma.userSession.updateMany({
+      where: { id: sessionId, userId, revokedAt: null },
+      data: {
+        revokedAt: new Date(),
+        revokedReason: reason,
+        revokedById: revokedById ?? null,
+      },
+    });
+
+    return count > 0;
+  }
+
+  /**
+   * Revoke all sessions of a user, optionally keeping the caller's own session
+   */
+  async revokeAllForUser(
+    userId: string,
+    reason: SessionRevokeReason,
+    options: { exceptSessionId?: string; revokedById?: string } = {}
+  ): Promise<number> {
+    const { count } = await this.prisma.userSession.updateMany({
+      where: {
+        userId,
+        revokedAt: null,
+        ...(options.exceptSessionId && { id: { not: options.exceptSessionId } }),
+      },
+      data: {
+        revokedAt: new Date(),
+        revokedReason: reason,
+        revokedById: options.revokedById ?? null,
+      },
+    });
+
+    return count;
+  }
+
+  private async revokeForReuse(sessionId: string, metadata: SessionMetadata): Promise<void> {
+    console.warn(
+      `[Session] Refresh token reuse detected for session ${sessionId} ` +
+      `(ip: ${metadata.ipAddress ?? 'unknown'}), revoking session`
+    );
+
+    await this.prisma.userSession.updateMany({
+      where: { id: sessionId, revokedAt: null },
+      data: { revokedAt: new Date(), revokedReason: 'REFRESH_TOKEN_REUSE' },
+    });
+  }
+
+  private hash(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+}
+
+// Export singleton instance
+export const sessionService = new SessionService();
+export default sessionService;
@@ -1,6 +1,7 @@
 import { Server as HTTPServer } from 'http';
 import { Server as SocketIOServer, Socket } from 'socket.io';
 import { verifyAccessToken, TokenPayload } from '../utils/auth.js';
+import { sessionService } from './session.service.js';
 import { env } from '../config/index.js';
 import { UserRole } from '@prisma/client';
 
@@ -27,7 +28,7 @@ export const initializeSocket = (httpServer: HTTPServer): SocketIOServer => {
   });
 
   // Socket.IO authentication middleware
-  io.use((socket: AuthenticatedSocket, next) => {
+  io.use(async (socket: AuthenticatedSocket, next) => {
     try {
       const token = socket.handshake.auth?.token || socket.handshake.headers?.authorization?.replace('Bearer ', '');
 
@@ -36,6 +37,11 @@ export const initializeSocket = (httpServer: HTTPServer): SocketIOServer => {
       }
 
       const payload = verifyAccessToken(token);
+
+      if (!payload.sessionId || !(await sessionService.isActive(payload.sessionId, payload.userId))) {
+        return next(new Error('Authentication error: Session revoked'));
+      }
+
       socket.user = payload;
       next();
     } catch (error) {
@@ -0,0 +1,352 @@
+/**
+ * Stock Movement Service
+ *
+ * Append-only ledger of changes to Product.available / reserved / announced,
+ * so every stock level can be explained afterwards.
+ *
+ * KEY CONCEPTS:
+ * 1. Every path that writes stock records a movement with the reason, the change per level,
+ *    the levels after the change and the entity that caused it (inbound, return, channel)
+ * 2. Movements are never updated or deleted
+ * 3. The levels at a point in time are the levels before the first movement after it,
+ *    or the current levels when nothing moved since - so products that predate the
+ *    ledger still answer correctly for any time after their last untracked change
+ * 4. record() runs after the new levels are written. It logs a failure instead of throwing:
+ *    the product row is the stock, the movement only explains it
+ * 5. An inbound created with simulateStock adds its announced units to available while it
+ *    is pending ('simulation' movements). The FFN stock sync keeps them on top of the FFN
+ *    stock until the inbound is booked in, which takes them off again
+ */
+
+import { Prisma, Product } from '@prisma/client';
+import { prisma } from '../config/database.js';
+import { dryRunClient } from '../utils/dry-run.js';
+import { InventoryAlertService } from './inventory-alert.service.js';
+import { merchantWebhookService } from './merchant-webhook.service.js';
+
+export const STOCK_MOVEMENT_REASONS = [
+  'ffn_sync',
+  'inbound',
+  'return_restock',
+  'manual',
+  'channel_sync',
+  'stocktake',
+  'simulation',
+  'order_reservation',
+] as const;
+
+export type StockMovementReason = (typeof STOCK_MOVEMENT_REASONS)[number];
+
+export interface StockLevels {
+  available: number;
+  reserved: number;
+  announced: number;
+}
+
+export interface StockMovementOptions {
+  referenceType?: string;
+  referenceId?: string;
+  note?: string;
+  createdById?: string;
+  tx?: Prisma.TransactionClient;  // Write within this transaction
+}
+
+const LEVEL_SELECT = { id: true, clientId: true, available: true, reserved: true, announced: true } as const;
+
+class StockMovementService {
+  private get prisma() {
+    return dryRunClient() ?? prisma;
+  }
+
+  isReason(value: unknown): value is StockMovementReason {
+    return STOCK_MOVEMENT_REASONS.includes(value as StockMovementReason);
+  }
+
+  // ============= RECORDING =============
+
+  /**
+   * Record a stock change
+   * @param product The product with its levels before the change
+   * @param after The levels after the change (omitted levels did not change)
+   * @returns Whether a movement was recorded (nothing is recorded when no level changed)
+   */
+  async record(
+    product: { id: string; clientId: string } & StockLevels,
+    after: Partial<StockLevels>,
+    reason: StockMovementReason,
+    options: StockMovementOptions = {}
+  ): Promise<boolean> {
+    const levels: StockLevels = {
+      available: after.available ?? product.available,
+      reserved: after.reserved ?? product.reserved,
+      announced: after.announced ?? product.announced,
+    };
+
+    const availableDelta = levels.available - product.available;
+    const reservedDelta = levels.reserved - product.reserved;
+    const announcedDelta = levels.announced - product.announced;
+
+    if (availableDelta === 0 && reservedDelta === 0 && announcedDelta === 0) return false;
+
+    try {
+      await (options.tx ?? this.prisma).stockMovement.create({
+        data: {
+          reason,
+          availableDelta,
+          reservedDelta,
+          announcedDelta,
+          ...levels,
+          referenceType: options.referenceType ?? null,
+          referenceId: options.referenceId ?? null,
+          note: options.note ?? null,
+          createdById: options.createdById ?? null,
+          productId: product.id,
+          clientId: product.clientId,
+        },
+      });
+      return true;
+    } catch (error) {
+      console.error(`[StockMovement] Failed to record ${reason} movement for product ${product.id}:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Add to (or, with a negative quantity, take from) a product's available stock and record it
+   * @param data Further product fields to update together with the stock
+   */
+  async incrementAvailable(
+    productId: string,
+    quantity: number,
+    reason: StockMovementReason,
+    options: StockMovementOptions & { data?: Prisma.ProductUpdateInput } = {}
+  ): Promise<Product> {
+    const { data, ...movementOptions } = options;
+
+    const product = await (options.tx ?? this.prisma).product.update({
+      where: { id: productId },
+      data: {
+        ...data,
+        available: { increment: quantity },
+      },
+    });
+
+    await this.record(
+      { ...product, available: product.available - quantity },
+      { available: product.available },
+      reason,
+      movementOptions
+    );
+
+    return product;
+  }
+
+  /**
+   * Manually correct a product's stock levels
+   */
+  async adjust(productId: string, levels: Partial<StockLevels>, note: string, createdById?: string) {
+    const before = await this.prisma.product.findUnique({ where: { id: productId }, select: LEVEL_SELECT });
+    if (!before) throw new Error(`Product ${productId} not found`);
+
+    const product = await this.prisma.product.update({
+      where: { id: productId },
+      data: {
+        ...levels,
+        lastUpdatedBy: 'NOLIMITS',
+      },
+      select: LEVEL_SELECT,
+    });
+
+    const recorded = await this.record(before, product, 'manual', { note, createdById });
+
+    if (recorded) {
+      await merchantWebhookService.emitStockChanged(product.clientId, [product.id], 'manual');
+      try {
+        await new InventoryAlertService(this.prisma).evaluateProducts([product.id], 'manual');
+      } catch (error) {
+        console.error(`[StockMovement] Failed to evaluate inventory alerts for product ${productId}:`, error);
+      }
+    }
+
+    return product;
+  }
+
+  // ============= SIMULATED INBOUND STOCK =============
+
+  /**
+   * Add the announced units of a pending inbound created with simulateStock to the
+   * available stock. Never throws - the inbound stays either way.
+   * @returns Whether stock was simulated
+   */
+  async simulateInbound(inboundId: string): Promise<boolean> {
+    try {
+      // Claim the simulation, so the units are only added once
+      const { count } = await this.prisma.inboundDelivery.updateMany({
+        where: { id: inboundId, status: 'PENDING', simulateStock: true, stockSimulated: false },
+        data: { stockSimulated: true },
+      });
+      if (count === 0) return false;
+
+      await this.moveSimulatedStock(inboundId, 1);
+      return true;
+    } catch (error) {
+      console.error(`[StockMovement] Failed to simulate stock of inbound ${inboundId}:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Take the simulated units of an inbound off the available stock again. Never throws.
+   * @returns Whether the inbound had simulated stock
+   */
+  async endInboundSimulation(inboundId: string): Promise<boolean> {
+    try {
+      const { count } = await this.prisma.inboundDelivery.updateMany({
+        where: { id: inboundId, stockSimulated: true },
+        data: { stockSimulated: false },
+      });
+      if (count === 0) return false;
+
+      await this.moveSimulatedStock(inboundId, -1);
+      return true;
+    } catch (error) {
+      console.error(`[StockMovement] Failed to end the stock simulation of inbound ${inboundId}:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Simulated units per product
+   */
+  async getSimulatedQuantities(productIds: string[]): Promise<Map<string, number>> {
+    if (productIds.length === 0) return new Map();
+
+    const simulated = await this.prisma.inboundItem.groupBy({
+      by: ['productId'],
+      where: { productId: { in: productIds }, inbound: { stockSimulated: true } },
+      _sum: { announcedQuantity: true },
+    });
+
+    return new Map(simulated.map(row => [row.productId, row._sum.announcedQuantity ?? 0]));
+  }
+
+  private async moveSimulatedStock(inboundId: string, direction: 1 | -1): Promise<void> {
+    const inbound = await this.prisma.inboundDelivery.findUnique({
+      where: { id: inboundId },
+      select: { inboundId: true, items: { select: { productId: true, announcedQuantity: true } } },
+    });
+    if (!inbound) return;
+
+    for (const item of inbound.items) {
+      await this.incrementAvailable(item.productId, direction * item.announcedQuantity, 'simulation', {
+        referenceType: 'InboundDelivery',
+        referenceId: inboundId,
+        note: `${direction > 0 ? 'Simulated' : 'Simulation ended for'} inbound ${inbound.inboundId}`,
+      });
+    }
+  }
+
+  // ============= HISTORY =============
+
+  async listForProduct(productId: string, filters: {
+    reason?: StockMovementReason;
+    from?: Date;
+    to?: Date;
+    page?: number;
+    limit?: number;
+  } = {}) {
+    const page = Math.max(1, filters.page ?? 1);
+    const limit = Math.min(200, Math.max(1, filters.limit ?? 50));
+
+    const where: Prisma.StockMovementWhereInput = {
+      productId,
+      ...(filters.reason && { reason: filters.reason }),
+      ...((filters.from || filters.to) && {
+        createdAt: {
+          ...(filters.from && { gte: filters.from }),
+          ...(filters.to && { lte: filters.to }),
+        },
+      }),
+    };
+
+    const [movements, total] = await Promise.all([
+      this.prisma.stockMovement.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        take: limit,
+        skip: (page - 1) * limit,
+      }),
+      this.prisma.stockMovement.count({ where }),
+    ]);
+
+    return {
+      movements,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Stock levels of a product at a point in time
+   */
+  async getLevelsAt(productId: string, at: Date): Promise<(StockLevels & { productId: string; at: Date }) | null> {
+    const product = await this.prisma.product.findUnique({ where: { id: productId }, select: LEVEL_SELECT });
+    if (!product) return null;
+
+    const next = await this.prisma.stockMovement.findFirst({
+      where: { productId, createdAt: { gt: at } },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return { productId, at, ...(next ? this.levelsBefore(next) : this.levelsOf(product)) };
+  }
+
+  /**
+   * Stock levels of all of a client's products at a point in time
+   */
+  async getClientLevelsAt(clientId: string, at: Date) {
+    const [products, nextMovements] = await Promise.all([
+      this.prisma.product.findMany({
+        // Products created later did not exist yet
+        where: { clientId, createdAt: { lte: at } },
+        select: { ...LEVEL_SELECT, sku: true, name: true },
+        orderBy: { sku: 'asc' },
+      }),
+      this.prisma.stockMovement.findMany({
+        where: { clientId, createdAt: { gt: at } },
+        orderBy: [{ productId: 'asc' }, { createdAt: 'asc' }],
+        distinct: ['productId'],
+      }),
+    ]);
+
+    const nextByProduct = new Map(nextMovements.map(movement => [movement.productId, movement]));
+
+    return products.map(product => {
+      const next = nextByProduct.get(product.id);
+      return {
+        productId: product.id,
+        sku: product.sku,
+        name: product.name,
+        ...(next ? this.levelsBefore(next) : this.levelsOf(product)),
+      };
+    });
+  }
+
+  private levelsBefore(movement: StockLevels & { availableDelta: number; reservedDelta: number; announcedDelta: number }): StockLevels {
+    return {
+      available: movement.available - movement.availableDelta,
+      reserved: movement.reserved - movement.reservedDelta,
+      announced: movement.announced - movement.announcedDelta,
+    };
+  }
+
+  private levelsOf(product: StockLevels): StockLevels {
+    return { available: product.available, reserved: product.reserved, announced: product.announced };
+  }
+}
+
+export const stockMovementService = new StockMovementService();
@@ -0,0 +1,480 @@
+/**
+ * Stocktake Service
+ *
+ * Counted stocktakes and cycle counts per client, reconciled against both our own
+ * stock figures and the JTL FFN stock.
+ *
+ * KEY CONCEPTS:
+ * 1. Opening a stocktake snapshots, per product, the No-Limits available quantity and the
+ *    FFN stock level (fetched live; left empty when FFN cannot be reached). A cycle count
+ *    covers only the given products, a full stocktake all of the client's non-bundle products
+ * 2. Counted quantities are entered per SKU, by hand or from a CSV file. Counting again
+ *    overwrites the earlier count until the line is reviewed
+ * 3. Every counted line has two variances: counted minus No-Limits and counted minus FFN
+ * 4. Approving a line posts its No-Limits variance as a 'stocktake' stock movement with the
+ *    given reason. The variance is applied to the current stock, not reset to the counted
+ *    quantity, so orders shipped since the snapshot are not counted twice
+ * 5. FFN has no API to correct stock, so an approved FFN variance is kept as FFN-pending
+ *    (ffnPendingQuantity) until staff confirm it was booked in FFN. Meanwhile the FFN stock
+ *    sync adds it to the FFN stock instead of reverting the approved count
+ * 6. The variance report covers completed stocktakes plus the drift the FFN stock sync
+ *    corrected in the same period (its 'ffn_sync' stock movements). Pending corrections are
+ *    not reverted by the sync, so they never show up as drift
+ */
+
+import { Prisma, StocktakeLineStatus, StocktakeStatus } from '@prisma/client';
+import { prisma } from '../config/database.js';
+import type { JTLService } from './integrations/jtl.service.js';
+import { InventoryAlertService } from './inventory-alert.service.js';
+import { merchantWebhookService } from './merchant-webhook.service.js';
+import { stockMovementService } from './stock-movement.service.js';
+import { approvedAdjustment, withVariance } from '../utils/stocktake-variance.js';
+
+export interface StocktakeInput {
+  name: string;
+  note?: string;
+  productIds?: string[];  // Cycle count of these products only
+}
+
+export interface StocktakeCount {
+  sku: string;
+  countedQuantity: number;
+}
+
+export interface StocktakeReview {
+  lineId: string;
+  approve: boolean;
+  reason: string;
+}
+
+// Reviewing a full stocktake touches every line and product
+const REVIEW_TRANSACTION_TIMEOUT_MS = 60_000;
+
+class StocktakeService {
+  private prisma = prisma;
+
+  // ============= SESSIONS =============
+
+  /**
+   * Open a stocktake and snapshot the expected quantities
+   * @param jtlService FFN access of the client; without it the FFN quantities stay empty
+   * @throws When none of the given products belongs to the client
+   */
+  async createStocktake(clientId: string, input: StocktakeInput, jtlService: JTLService | null, createdById?: string) {
+    const products = await this.prisma.product.findMany({
+      where: {
+        clientId,
+        isBundle: false,
+        ...(input.productIds && { id: { in: input.productIds } }),
+      },
+      select: { id: true, sku: true, name: true, available: true, jtlProductId: true },
+      orderBy: { sku: 'asc' },
+    });
+    if (products.length === 0) throw new Error('No products to count');
+
+    let ffnStock: Map<string, number> | null = null;
+    if (jtlService) {
+      try {
+        const jtlProducts = await jtlService.getAllProductsWithStock();
+        ffnStock = new Map(jtlProducts.map(product => [product.jfsku, product.stock?.stockLevel ?? 0]));
+      } catch (error) {
+        console.error(`[Stocktake] Failed to fetch FFN stock for client ${clientId}:`, error);
+      }
+    }
+
+    return this.prisma.stocktake.create({
+      data: {
+        name: input.name,
+        note: input.note ?? null,
+        ffnSnapshotAt: ffnStock ? new Date() : null,
+        createdById: createdById ?? null,
+        clientId,
+        lines: {
+          create: products.map(product => ({
+            sku: product.sku,
+            productName: product.name,
+            expectedQuantity: product.available,
+            // Products not in FFN have no FFN stock
+            ffnQuantity: ffnStock ? (product.jtlProductId ? ffnStock.get(product.jtlProductId) ?? 0 : null) : null,
+            productId: product.id,
+          })),
+        },
+      },
+      include: { _count: { select: { lines: true } } },
+    });
+  }
+
+  async listStocktakes(clientId: string, filters: {
+    status?: StocktakeStatus;
+    page?: number;
+    limit?: number;
+  } = {}) {
+    const page = Math.max(1, filters.page ?? 1);
+    const limit = Math.min(200, Math.max(1, filters.limit ?? 50));
+
+    const where: Prisma.StocktakeWhereInput = {
+      clientId,
+      ...(filters.status && { status: filters.status }),
+    };
+
+    const [stocktakes, total] = await Promise.all([
+      this.prisma.stocktake.findMany({
+        where,
+        include: { _count: { select: { lines: true } } },
+        orderBy: { createdAt: 'desc' },
+        take: limit,
+        skip: (page - 1) * limit,
+      }),
+      this.prisma.stocktake.count({ where }),
+    ]);
+
+    return {
+      stocktakes,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  async findStocktake(id: string) {
+    return this.prisma.stocktake.findUnique({ where: { id } });
+  }
+
+  /**
+   * A stocktake with its lines and their variances
+   */
+  async getStocktake(id: string) {
+    const stocktake = await this.prisma.stocktake.findUnique({
+      where: { id },
+      include: { lines: { orderBy: { sku: 'asc' } } },
+    });
+    if (!stocktake) return null;
+
+    const lines = stocktake.lines.map(withVariance);
+
+    return {
+      ...stocktake,
+      lines,
+      summary: {
+        lines: lines.length,
+        counted: lines.filter(line => line.countedQuantity !== null).length,
+        withVariance: lines.filter(line => line.variance).length,
+        withFfnVariance: lines.filter(line => line.ffnVariance).length,
+        approved: lines.filter(line => line.status === StocktakeLineStatus.APPROVED).length,
+        rejected: lines.filter(line => line.status === StocktakeLineStatus.REJECTED).length,
+      },
+    };
+  }
+
+  // ============= COUNTING =============
+
+  /**
+   * Enter counted quantities by SKU
+   * @returns How many lines were counted, and the SKUs that are not part of the stocktake
+   * or already reviewed
+   * @throws When the stocktake is not open
+   */
+  async recordCounts(stocktakeId: string, counts: StocktakeCount[], countedById?: string) {
+    const stocktake = await this.requireOpen(stocktakeId);
+
+    const lines = await this.prisma.stocktakeLine.findMany({
+      where: { stocktakeId: stocktake.id },
+      select: { id: true, sku: true, status: true },
+    });
+    const lineBySku = new Map(lines.map(line => [line.sku, line]));
+
+    let counted = 0;
+    const skipped: string[] = [];
+
+    for (const count of counts) {
+      const line = lineBySku.get(count.sku);
+      if (!line || line.status === StocktakeLineStatus.APPROVED || line.status === StocktakeLineStatus.REJECTED) {
+        skipped.push(count.sku);
+        continue;
+      }
+
+      await this.prisma.stocktakeLine.update({
+        where: { id: line.id },
+        data: {
+          countedQuantity: count.countedQuantity,
+          status: StocktakeLineStatus.COUNTED,
+          countedById: countedById ?? null,
+          countedAt: new Date(),
+        },
+      });
+      counted++;
+    }
+
+    return { counted, skipped };
+  }
+
+  // ============= REVIEW =============
+
+  /**
+   * Approve or reject the variances of counted lines. Approved variances are posted
+   * to the product's available stock; FFN variances stay pending until booked in FFN.
+   * All lines are reviewed in one transaction; a line reviewed concurrently is skipped.
+   * @throws When the stocktake is not open or a line is not counted
+   */
+  async reviewLines(stocktakeId: string, requestedReviews: StocktakeReview[], reviewedById?: string) {
+    const stocktake = await this.requireOpen(stocktakeId);
+
+    // A line is reviewed once, with its first review
+    const reviews = requestedReviews.filter(
+      (review, index) => requestedReviews.findIndex(other => other.lineId === review.lineId) === index
+    );
+
+    const lines = await this.prisma.stocktakeLine.findMany({
+      where: { stocktakeId: stocktake.id, id: { in: reviews.map(review => review.lineId) } },
+    });
+    const lineById = new Map(lines.map(line => [line.id, line]));
+
+    for (const review of reviews) {
+      const line = lineById.get(review.lineId);
+      if (!line) throw new Error(`Stocktake line ${review.lineId} not found`);
+      if (line.status !== StocktakeLineStatus.COUNTED) {
+        throw new Error(`Stocktake line ${line.sku} is not counted or already reviewed`);
+      }
+    }
+
+    const adjustedProductIds: string[] = [];
+
+    const reviewed = await this.prisma.$transaction(async (tx) => {
+      let reviewedLines = 0;
+
+      for (const review of reviews) {
+        const line = lineById.get(review.lineId)!;
+
+        // Claim the line, so a concurrent review of it can't post its variance again
+        const { count } = await tx.stocktakeLine.updateMany({
+          where: { id: line.id, status: StocktakeLineStatus.COUNTED },
+          data: {
+            status: review.approve ? StocktakeLineStatus.APPROVED : StocktakeLineStatus.REJECTED,
+            adjustmentReason: review.reason,
+            reviewedById: reviewedById ?? null,
+            reviewedAt: new Date(),
+          },
+        });
+        if (count === 0) continue;
+        reviewedLines++;
+
+        if (!review.approve) continue;
+
+        const { variance, ffnVariance } = withVariance(line);
+        const product = await tx.product.findUnique({
+          where: { id: line.productId },
+          select: { available: true, jtlProductId: true },
+        });
+        const { adjustedQuantity, ffnPendingQuantity } = approvedAdjustment(
+          variance!,
+          ffnVariance,
+          product?.available ?? 0,
+          !!product?.jtlProductId
+        );
+
+        if (adjustedQuantity !== 0) {
+          await stockMovementService.incrementAvailable(line.productId, adjustedQuantity, 'stocktake', {
+            referenceType: 'Stocktake',
+            referenceId: stocktake.id,
+            note: review.reason,
+            createdById: reviewedById,
+            data: { lastUpdatedBy: 'NOLIMITS' },
+            tx,
+          });
+          adjustedProductIds.push(line.productId);
+        }
+
+        await tx.stocktakeLine.update({
+          where: { id: line.id },
+          data: { adjustedQuantity, ffnPendingQuantity },
+        });
+      }
+
+      return reviewedLines;
+    }, { timeout: REVIEW_TRANSACTION_TIMEOUT_MS });
+
+    if (adjustedProductIds.length > 0) {
+      await merchantWebhookService.emitStockChanged(stocktake.clientId, adjustedProductIds, 'stocktake');
+      try {
+        await new InventoryAlertService(this.prisma).evaluateProducts(adjustedProductIds, 'stocktake');
+      } catch (error) {
+        console.error(`[Stocktake] Failed to evaluate inventory alerts for stocktake ${stocktake.id}:`, error);
+      }
+    }
+
+    return { reviewed, adjusted: adjustedProductIds.length };
+  }
+
+  /**
+   * Close a stocktake. Counted lines without variance are approved; lines with a
+   * variance must be reviewed first. Uncounted lines stay uncounted.
+   * @throws When the stocktake is not open or has unreviewed variances
+   */
+  async completeStocktake(stocktakeId: string, completedById?: string) {
+    const stocktake = await this.requireOpen(stocktakeId);
+
+    const counted = await this.prisma.stocktakeLine.findMany({
+      where: { stocktakeId: stocktake.id, status: StocktakeLineStatus.COUNTED },
+    });
+
+    const unreviewed = counted.filter(line => withVariance(line).variance !== 0);
+    if (unreviewed.length > 0) {
+      throw new Error(`${unreviewed.length} counted lines with a variance are not reviewed yet`);
+    }
+
+    const now = new Date();
+
+    const [, completed] = await this.prisma.$transaction([
+      this.prisma.stocktakeLine.updateMany({
+        where: { id: { in: counted.map(line => line.id) } },
+        data: {
+          status: StocktakeLineStatus.APPROVED,
+          adjustedQuantity: 0,
+          reviewedById: completedById ?? null,
+          reviewedAt: now,
+        },
+      }),
+      this.prisma.stocktake.update({
+        where: { id: stocktake.id },
+        data: {
+          status: StocktakeStatus.COMPLETED,
+          completedById: completedById ?? null,
+          completedAt: now,
+        },
+      }),
+    ]);
+
+    return completed;
+  }
+
+  /**
+   * Cancel an open stocktake. Variances approved so far stay posted.
+   * @throws When the stocktake is not open
+   */
+  async cancelStocktake(stocktakeId: string) {
+    const stocktake = await this.requireOpen(stocktakeId);
+
+    return this.prisma.stocktake.update({
+      where: { id: stocktake.id },
+      data: { status: StocktakeStatus.CANCELLED },
+    });
+  }
+
+  /**
+   * Confirm that the approved FFN variances of a stocktake were booked in FFN. From the
+   * next FFN stock sync on, the FFN stock alone counts again.
+   * @returns How many lines were pending
+   * @throws When the stocktake does not exist
+   */
+  async confirmFfnBooked(stocktakeId: string) {
+    const stocktake = await this.prisma.stocktake.findUnique({ where: { id: stocktakeId } });
+    if (!stocktake) throw new Error(`Stocktake ${stocktakeId} not found`);
+
+    const { count } = await this.prisma.stocktakeLine.updateMany({
+      where: { stocktakeId: stocktake.id, ffnPendingQuantity: { not: null } },
+      data: { ffnPendingQuantity: null },
+    });
+
+    return { confirmed: count };
+  }
+
+  /**
+   * FFN-pending corrections per product, to add to the FFN stock
+   */
+  async getPendingFfnCorrections(productIds: string[]): Promise<Map<string, number>> {
+    if (productIds.length === 0) return new Map();
+
+    const pending = await this.prisma.stocktakeLine.groupBy({
+      by: ['productId'],
+      where: { productId: { in: productIds }, ffnPendingQuantity: { not: null } },
+      _sum: { ffnPendingQuantity: true },
+    });
+
+    return new Map(pending.map(row => [row.productId, row._sum.ffnPendingQuantity ?? 0]));
+  }
+
+  // ============= REPORT =============
+
+  /**
+   * Variances of a client's completed stocktakes, and the drift corrected by the FFN
+   * stock sync, in a period
+   */
+  async getVarianceReport(clientId: string, period: { from?: Date; to?: Date } = {}) {
+    const range = (period.from || period.to)
+      ? { ...(period.from && { gte: period.from }), ...(period.to && { lte: period.to }) }
+      : undefined;
+
+    const [stocktakes, drift] = await Promise.all([
+      this.prisma.stocktake.findMany({
+        where: {
+          clientId,
+          status: StocktakeStatus.COMPLETED,
+          ...(range && { completedAt: range }),
+        },
+        include: { lines: { where: { countedQuantity: { not: null } }, orderBy: { sku: 'asc' } } },
+        orderBy: { completedAt: 'desc' },
+      }),
+      this.prisma.stockMovement.groupBy({
+        by: ['productId'],
+        where: {
+          clientId,
+          reason: 'ffn_sync',
+          ...(range && { createdAt: range }),
+        },
+        _sum: { availableDelta: true },
+        _count: { _all: true },
+      }),
+    ]);
+
+    const driftProducts = await this.prisma.product.findMany({
+      where: { id: { in: drift.map(row => row.productId) } },
+      select: { id: true, sku: true, name: true },
+    });
+    const productById = new Map(driftProducts.map(product => [product.id, product]));
+
+    const lines = stocktakes.flatMap(stocktake => stocktake.lines.map(withVariance));
+
+    return {
+      clientId,
+      from: period.from ?? null,
+      to: period.to ?? null,
+      totals: {
+        stocktakes: stocktakes.length,
+        linesCounted: lines.length,
+        linesWithVariance: lines.filter(line => line.variance).length,
+        netVariance: lines.reduce((sum, line) => sum + line.variance!, 0),
+        absoluteVariance: lines.reduce((sum, line) => sum + Math.abs(line.variance!), 0),
+        netFfnVariance: lines.reduce((sum, line) => sum + (line.ffnVariance ?? 0), 0),
+        absoluteFfnVariance: lines.reduce((sum, line) => sum + Math.abs(line.ffnVariance ?? 0), 0),
+        adjustedQuantity: lines.reduce((sum, line) => sum + (line.adjustedQuantity ?? 0), 0),
+      },
+      stocktakes: stocktakes.map(({ lines: stocktakeLines, ...stocktake }) => ({
+        ...stocktake,
+        lines: stocktakeLines.map(withVariance).filter(line => line.variance || line.ffnVariance),
+      })),
+      ffnSyncDrift: drift
+        .map(row => ({
+          productId: row.productId,
+          sku: productById.get(row.productId)?.sku ?? null,
+          name: productById.get(row.productId)?.name ?? null,
+          netAvailableDrift: row._sum.availableDelta ?? 0,
+          corrections: row._count._all,
+        }))
+        .sort((a, b) => Math.abs(b.netAvailableDrift) - Math.abs(a.netAvailableDrift)),
+    };
+  }
+
+  private async requireOpen(stocktakeId: string) {
+    const stocktake = await this.prisma.stocktake.findUnique({ where: { id: stocktakeId } });
+    if (!stocktake) throw new Error(`Stocktake ${stocktakeId} not found`);
+    if (stocktake.status !== StocktakeStatus.OPEN) {
+      throw new Error(`Stocktake is ${stocktake.status.toLowerCase()} and can no longer be changed`);
+    }
+    return stocktake;
+  }
+}
+
+export const stocktakeService = new StocktakeService();
@@ -0,0 +1,285 @@
+/**
+ * Two-Factor Service
+ *
+ * TOTP (RFC 6238) two-factor authentication for user accounts:
+ * - Enrollment with an otpauth:// provisioning URI (rendered as QR code by the frontend)
+ * - One-time recovery codes, stored hashed
+ * - Per-role enforcement via the SystemSetting "auth.two_factor_required_roles"
+ *
+ * KEY CONCEPTS:
+ * 1. The secret is stored encrypted and only becomes active once a first code is confirmed
+ * 2. Codes are 6 digits over 30s steps, accepted one step before/after for clock drift
+ * 3. An accepted step is remembered, so the same code can't be replayed
+ * 4. A login opens one challenge per user. Each code tried against it counts up front;
+ *    after MAX_CHALLENGE_ATTEMPTS wrong codes the challenge is closed and the user has to
+ *    log in with the password again
+ */
+
+import crypto from 'crypto';
+import { UserRole } from '@prisma/client';
+import { prisma } from '../config/database.js';
+import { getEncryptionService } from './encryption.service.js';
+import { encodeBase32, matchTotp, TOTP_DIGITS, TOTP_STEP_SECONDS } from '../utils/totp.js';
+
+export const TWO_FACTOR_REQUIRED_ROLES_SETTING = 'auth.two_factor_required_roles';
+
+const ISSUER = 'No Limits';
+const RECOVERY_CODE_COUNT = 10;
+const MAX_CHALLENGE_ATTEMPTS = 5;
+
+// Roles 2FA can be enforced for
+export const TWO_FACTOR_ENFORCEABLE_ROLES: UserRole[] = ['SUPER_ADMIN', 'ADMIN', 'EMPLOYEE', 'CLIENT'];
+
+class TwoFactorService {
+  private prisma = prisma;
+
+  /**
+   * Start (or restart) enrollment: store a new pending secret and return the provisioning data
+   */
+  async beginEnrollment(userId: string): Promise<{ secret: string; otpauthUrl: string } | null> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { email: true, twoFactorEnabled: true },
+    });
+
+    if (!user || user.twoFactorEnabled) return null;
+
+    const secret = encodeBase32(crypto.randomBytes(20));
+
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: {
+        twoFactorSecret: getEncryptionService().encrypt(secret),
+        twoFactorLastUsedStep: null,
+      },
+    });
+
+    return { secret, otpauthUrl: this.buildOtpauthUrl(user.email, secret) };
+  }
+
+  /**
+   * Confirm enrollment with a first code. Returns the recovery codes, or null if the code is wrong.
+   */
+  async enable(userId: string, code: string): Promise<string[] | null> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { twoFactorEnabled: true, twoFactorSecret: true, twoFactorLastUsedStep: true },
+    });
+
+    if (!user || user.twoFactorEnabled || !user.twoFactorSecret) return null;
+
+    const step = this.matchCode(user.twoFactorSecret, code, user.twoFactorLastUsedStep);
+    if (step === null) return null;
+
+    const recoveryCodes = this.generateRecoveryCodes();
+
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: {
+        twoFactorEnabled: true,
+        twoFactorEnabledAt: new Date(),
+        twoFactorLastUsedStep: step,
+        twoFactorRecoveryCodes: recoveryCodes.map(c => this.hashRecoveryCode(c)),
+      },
+    });
+
+    return recoveryCodes;
+  }
+
+  /**
+   * Check a TOTP code or a recovery code for a user with 2FA enabled.
+   * A used recovery code is removed.
+   */
+  async verify(userId: string, input: { code?: string; recoveryCode?: string }): Promise<boolean> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        twoFactorEnabled: true,
+        twoFactorSecret: true,
+        twoFactorLastUsedStep: true,
+        twoFactorRecoveryCodes: true,
+      },
+    });
+
+    if (!user || !user.twoFactorEnabled || !user.twoFactorSecret) return false;
+
+    if (input.code) {
+      const step = this.matchCode(user.twoFactorSecret, input.code, user.twoFactorLastUsedStep);
+      if (step === null) return false;
+
+      // Conditional update, so a code racing itself is only accepted once
+      const { count } = await this.prisma.user.updateMany({
+        where: {
+          id: userId,
+          OR: [{ twoFactorLastUsedStep: null }, { twoFactorLastUsedStep: { lt: step } }],
+        },
+        data: { twoFactorLastUsedStep: step },
+      });
+      return count === 1;
+    }
+
+    if (input.recoveryCode) {
+      const hash = this.hashRecoveryCode(input.recoveryCode);
+      if (!user.twoFactorRecoveryCodes.includes(hash)) return false;
+
+      // Conditional update on the codes as read, so a code racing itself is only accepted once
+      // (and a code used at the same time is not put back)
+      const { count } = await this.prisma.user.updateMany({
+        where: {
+          id: userId,
+          twoFactorRecoveryCodes: { equals: user.twoFactorRecoveryCodes },
+        },
+        data: {
+          twoFactorRecoveryCodes: user.twoFactorRecoveryCodes.filter(c => c !== hash),
+        },
+      });
+      return count === 1;
+    }
+
+    return false;
+  }
+
+  /**
+   * Replace all recovery codes
+   */
+  async regenerateRecoveryCodes(userId: string): Promise<string[]> {
+    const recoveryCodes = this.generateRecoveryCodes();
+
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: { twoFactorRecoveryCodes: recoveryCodes.map(c => this.hashRecoveryCode(c)) },
+    });
+
+    return recoveryCodes;
+  }
+
+  async disable(userId: string): Promise<void> {
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: {
+        twoFactorEnabled: false,
+        twoFactorEnabledAt: null,
+        twoFactorSecret: null,
+        twoFactorRecoveryCodes: [],
+        twoFactorLastUsedStep: null,
+      },
+    });
+  }
+
+  async countRecoveryCodes(userId: string): Promise<number> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { twoFactorRecoveryCodes: true },
+    });
+    return user?.twoFactorRecoveryCodes.length ?? 0;
+  }
+
+  // ============= LOGIN CHALLENGES =============
+
+  /**
+   * Open the login challenge of a user (replacing an open one)
+   * @returns The challenge ID, carried by the challenge token
+   */
+  async openChallenge(userId: string): Promise<string> {
+    const challengeId = crypto.randomUUID();
+
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: { twoFactorChallengeId: challengeId, twoFactorChallengeAttempts: 0 },
+    });
+
+    return challengeId;
+  }
+
+  /**
+   * Count an attempt against an open challenge, before the code is checked
+   * @returns false when the challenge is no longer open or has no attempts left
+   */
+  async claimChallengeAttempt(userId: string, challengeId: string): Promise<boolean> {
+    const { count } = await this.prisma.user.updateMany({
+      where: {
+        id: userId,
+        twoFactorChallengeId: challengeId,
+        twoFactorChallengeAttempts: { lt: MAX_CHALLENGE_ATTEMPTS },
+      },
+      data: { twoFactorChallengeAttempts: { increment: 1 } },
+    });
+    return count === 1;
+  }
+
+  async closeChallenge(userId: string): Promise<void> {
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: { twoFactorChallengeId: null, twoFactorChallengeAttempts: 0 },
+    });
+  }
+
+  // ============= ENFORCEMENT POLICY =============
+
+  async getRequiredRoles(): Promise<UserRole[]> {
+    const setting = await this.prisma.systemSetting.findUnique({
+      where: { key: TWO_FACTOR_REQUIRED_ROLES_SETTING },
+    });
+
+    if (!setting) return [];
+
+    return setting.value
+      .split(',')
+      .map(role => role.trim())
+      .filter((role): role is UserRole => TWO_FACTOR_ENFORCEABLE_ROLES.includes(role as UserRole));
+  }
+
+  async setRequiredRoles(roles: UserRole[]): Promise<UserRole[]> {
+    const valid = [...new Set(roles.filter(role => TWO_FACTOR_ENFORCEABLE_ROLES.includes(role)))];
+
+    await this.prisma.systemSetting.upsert({
+      where: { key: TWO_FACTOR_REQUIRED_ROLES_SETTING },
+      create: {
+        key: TWO_FACTOR_REQUIRED_ROLES_SETTING,
+        value: valid.join(','),
+        description: 'Comma-separated user roles that must use two-factor authentication',
+      },
+      update: { value: valid.join(',') },
+    });
+
+    return valid;
+  }
+
+  async isRequiredForRole(role: UserRole): Promise<boolean> {
+    return (await this.getRequiredRoles()).includes(role);
+  }
+
+  // ============= PRIVATE HELPERS =============
+
+  // Time step the code matches, or null
+  private matchCode(encryptedSecret: string, code: string, lastUsedStep: number | null): number | null {
+    return matchTotp(getEncryptionService().decrypt(encryptedSecret), code, lastUsedStep);
+  }
+
+  private buildOtpauthUrl(email: string, secret: string): string {
+    const label = encodeURIComponent(`${ISSUER}:${email}`);
+    const params = new URLSearchParams({
+      secret,
+      issuer: ISSUER,
+      algorithm: 'SHA1',
+      digits: String(TOTP_DIGITS),
+      period: String(TOTP_STEP_SECONDS),
+    });
+    return `otpauth://totp/${label}?${params.toString()}`;
+  }
+
+  private generateRecoveryCodes(): string[] {
+    return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+      const raw = crypto.randomBytes(5).toString('hex');
+      return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+    });
+  }
+
+  private hashRecoveryCode(code: string): string {
+    return crypto.createHash('sha256').update(code.trim().toLowerCase()).digest('hex');
+  }
+}
+
+// Export singleton instance
+export const twoFactorService = new TwoFactorService();
+export default twoFactorService;
@@ -0,0 +1,411 @@
+/**
+ * Warehouse Service
+ *
+ * Multiple JTL FFN warehouses per client, per-warehouse stock and the choice of
+ * warehouse an order is fulfilled from.
+ *
+ * KEY CONCEPTS:
+ * 1. The warehouse in JtlConfig stays the default. Further warehouses are discovered from
+ *    the client's fulfillers in FFN and configured with a priority and the destination
+ *    countries they serve
+ * 2. The FFN stock sync stores each product's stock per warehouse. Product.available etc.
+ *    keep the total. Warehouses first seen in the stock are registered inactive, so their
+ *    stock is kept but no order is routed there until someone activates them
+ * 3. An order is routed when its outbound is created: among the active warehouses serving
+ *    the destination country, the one that has every item in stock wins, otherwise the one
+ *    covering the most items, ties broken by priority. Without a candidate the default is used.
+ *    The destination is normalised to its ISO code; an unrecognised one routes by stock alone
+ * 4. The chosen warehouse is stored on the order (jtlWarehouseId) and not re-evaluated,
+ *    so a warehouse set by hand sticks
+ * 5. When routing fails, resolveOutboundWarehouse() falls back to the default warehouse
+ */
+
+import { prisma } from '../config/database.js';
+import { toCountryCode } from '../utils/country.js';
+import { dryRunClient } from '../utils/dry-run.js';
+import type { JTLService, JTLProductWithStock } from './integrations/jtl.service.js';
+
+export interface WarehouseInput {
+  name?: string;
+  isActive?: boolean;
+  priority?: number;
+  countries?: string[];
+}
+
+export interface OutboundWarehouse {
+  warehouseId: string;
+  fulfillerId: string;
+}
+
+export interface WarehouseRoute extends OutboundWarehouse {
+  name: string;
+  note: string;
+  candidates: {
+    warehouseId: string;
+    name: string;
+    priority: number;
+    coveredProducts: number;
+  }[];
+}
+
+type RoutableWarehouse = { warehouseId: string; fulfillerId: string; name: string; priority: number };
+
+class WarehouseService {
+  private get prisma() {
+    return dryRunClient() ?? prisma;
+  }
+
+  // ============= CONFIGURATION =============
+
+  /**
+   * Validate warehouse settings
+   * @returns An error message, or null when valid
+   */
+  validateWarehouse(input: WarehouseInput): string | null {
+    if (input.name !== undefined && (typeof input.name !== 'string' || !input.name.trim())) {
+      return 'name must be a non-empty string';
+    }
+    if (input.isActive !== undefined && typeof input.isActive !== 'boolean') {
+      return 'isActive must be a boolean';
+    }
+    if (input.priority !== undefined && !Number.isInteger(input.priority)) {
+      return 'priority must be a whole number';
+    }
+    if (input.countries !== undefined) {
+      if (!Array.isArray(input.countries) || input.countries.some(c => typeof c !== 'string' || !/^[A-Za-z]{2}$/.test(c))) {
+        return 'countries must be a list of two-letter ISO country codes';
+      }
+    }
+    return null;
+  }
+
+  async listWarehouses(clientId: string) {
+    const [warehouses, jtlConfig] = await Promise.all([
+      this.prisma.jtlWarehouse.findMany({
+        where: { clientId },
+        include: { _count: { select: { stocks: true } } },
+        orderBy: [{ priority: 'asc' }, { name: 'asc' }],
+      }),
+      this.prisma.jtlConfig.findUnique({ where: { clientId_fk: clientId }, select: { warehouseId: true } }),
+    ]);
+
+    return warehouses.map(warehouse => ({
+      ...warehouse,
+      isDefault: warehouse.warehouseId === jtlConfig?.warehouseId,
+    }));
+  }
+
+  async findWarehouse(id: string) {
+    return this.prisma.jtlWarehouse.findUnique({ where: { id } });
+  }
+
+  /**
+   * Register the warehouses of the client's FFN fulfillers. Known warehouses get their
+   * name and fulfiller refreshed; routing settings are left untouched.
+   */
+  async discoverWarehouses(clientId: string, jtlService: JTLService) {
+    const ffnWarehouses = await jtlService.getWarehouses();
+    const existing = await this.prisma.jtlWarehouse.findMany({
+      where: { clientId },
+      select: { warehouseId: true },
+    });
+    const known = new Set(existing.map(w => w.warehouseId));
+
+    let created = 0;
+    let updated = 0;
+
+    for (const ffnWarehouse of ffnWarehouses) {
+      await this.prisma.jtlWarehouse.upsert({
+        where: { clientId_warehouseId: { clientId, warehouseId: ffnWarehouse.warehouseId } },
+        create: {
+          clientId,
+          warehouseId: ffnWarehouse.warehouseId,
+          fulfillerId: ffnWarehouse.fulfillerId,
+          name: ffnWarehouse.name || ffnWarehouse.warehouseId,
+        },
+        update: {
+          fulfillerId: ffnWarehouse.fulfillerId,
+          name: ffnWarehouse.name || ffnWarehouse.warehouseId,
+        },
+      });
+      if (known.has(ffnWarehouse.warehouseId)) updated++;
+      else created++;
+    }
+
+    return { created, updated, warehouses: await this.listWarehouses(clientId) };
+  }
+
+  async updateWarehouse(id: string, input: WarehouseInput) {
+    return this.prisma.jtlWarehouse.update({
+      where: { id },
+      data: {
+        ...(input.name !== undefined && { name: input.name.trim() }),
+        ...(input.isActive !== undefined && { isActive: input.isActive }),
+        ...(input.priority !== undefined && { priority: input.priority }),
+        ...(input.countries !== undefined && { countries: input.countries.map(c => c.toUpperCase()) }),
+      },
+    });
+  }
+
+  /**
+   * Remove a warehouse together with its stock. The default warehouse cannot be removed.
+   */
+  async deleteWarehouse(id: string) {
+    const warehouse = await this.prisma.jtlWarehouse.findUnique({ where: { id } });
+    if (!warehouse) throw new Error(`Warehouse ${id} not found`);
+
+    const jtlConfig = await this.prisma.jtlConfig.findUnique({
+      where: { clientId_fk: warehouse.clientId },
+      select: { warehouseId: true },
+    });
+    if (jtlConfig?.warehouseId === warehouse.warehouseId) {
+      throw new Error('The default warehouse of the JTL configuration cannot be removed');
+    }
+
+    await this.prisma.jtlWarehouse.delete({ where: { id } });
+  }
+
+  // ============= STOCK =============
+
+  /**
+   * Store per-warehouse stock from an FFN stock response. Never throws.
+   * @param productIdByJfsku Local product ID per JFSKU (products not in the map are skipped)
+   */
+  async recordWarehouseStock(
+    clientId: string,
+    jtlProducts: JTLProductWithStock[],
+    productIdByJfsku: Map<string, string>
+  ): Promise<number> {
+    try {
+      const warehouses = await this.prisma.jtlWarehouse.findMany({
+        where: { clientId },
+        select: { id: true, warehouseId: true },
+      });
+      const warehouseIds = new Map(warehouses.map(w => [w.warehouseId, w.id]));
+      const syncedWarehouses = new Set<string>();
+      let stored = 0;
+
+      for (const jtlProduct of jtlProducts) {
+        const productId = productIdByJfsku.get(jtlProduct.jfsku);
+        if (!productId) continue;
+
+        for (const level of jtlProduct.stock?.warehouses ?? []) {
+          let id = warehouseIds.get(level.warehouseId);
+          if (!id) {
+            const registered = await this.prisma.jtlWarehouse.create({
+              data: {
+                clientId,
+                warehouseId: level.warehouseId,
+                fulfillerId: level.fulfillerId,
+                name: level.warehouseId,
+                isActive: false,
+              },
+            });
+            id = registered.id;
+            warehouseIds.set(level.warehouseId, id);
+          }
+
+          const levels = {
+            available: level.stockLevel ?? 0,
+            reserved: level.stockLevelReserved ?? 0,
+            announced: level.stockLevelAnnounced ?? 0,
+            blocked: level.stockLevelBlocked ?? 0,
+          };
+
+          await this.prisma.productWarehouseStock.upsert({
+            where: { productId_warehouseId: { productId, warehouseId: id } },
+            create: { productId, warehouseId: id, ...levels },
+            update: levels,
+          });
+          syncedWarehouses.add(id);
+          stored++;
+        }
+      }
+
+      if (syncedWarehouses.size > 0) {
+        await this.prisma.jtlWarehouse.updateMany({
+          where: { id: { in: [...syncedWarehouses] } },
+          data: { lastStockSyncAt: new Date() },
+        });
+      }
+
+      return stored;
+    } catch (error) {
+      console.error(`[Warehouse] Failed to store per-warehouse stock for client ${clientId}:`, error);
+      return 0;
+    }
+  }
+
+  async getProductStock(productId: string) {
+    return this.prisma.productWarehouseStock.findMany({
+      where: { productId },
+      include: {
+        warehouse: { select: { warehouseId: true, name: true, isActive: true, countries: true } },
+      },
+      orderBy: { warehouse: { priority: 'asc' } },
+    });
+  }
+
+  // ============= ROUTING =============
+
+  /**
+   * Choose the warehouse for an order and store it on the order
+   * @param options.dryRun Evaluate without storing (and re-evaluate an already routed order)
+   * @returns The chosen warehouse, or null for clients without configured warehouses
+   */
+  async routeOrder(orderId: string, options: { dryRun?: boolean } = {}): Promise<WarehouseRoute | null> {
+    const order = await this.prisma.order.findUnique({
+      where: { id: orderId },
+      select: {
+        id: true,
+        clientId: true,
+        jtlWarehouseId: true,
+        warehouseRoutingNote: true,
+        shippingCountryCode: true,
+        shippingCountry: true,
+        items: { select: { productId: true, quantity: true, product: { select: { isBundle: true } } } },
+      },
+    });
+    if (!order) throw new Error(`Order ${orderId} not found`);
+
+    const [warehouses, jtlConfig] = await Promise.all([
+      this.prisma.jtlWarehouse.findMany({
+        where: { clientId: order.clientId, isActive: true },
+        orderBy: [{ priority: 'asc' }, { name: 'asc' }],
+      }),
+      this.prisma.jtlConfig.findUnique({
+        where: { clientId_fk: order.clientId },
+        select: { warehouseId: true, fulfillerId: true },
+      }),
+    ]);
+
+    const defaultWarehouse: RoutableWarehouse | null = jtlConfig
+      ? { warehouseId: jtlConfig.warehouseId, fulfillerId: jtlConfig.fulfillerId, name: jtlConfig.warehouseId, priority: 0 }
+      : null;
+
+    if (order.jtlWarehouseId && !options.dryRun) {
+      const current = warehouses.find(w => w.warehouseId === order.jtlWarehouseId)
+        ?? await this.prisma.jtlWarehouse.findUnique({
+          where: { clientId_warehouseId: { clientId: order.clientId, warehouseId: order.jtlWarehouseId } },
+        });
+      return {
+        warehouseId: order.jtlWarehouseId,
+        fulfillerId: current?.fulfillerId ?? jtlConfig?.fulfillerId ?? '',
+        name: current?.name ?? order.jtlWarehouseId,
+        note: order.warehouseRoutingNote ?? '',
+        candidates: [],
+      };
+    }
+
+    if (warehouses.length === 0) return null;
+
+    const country = toCountryCode(order.shippingCountryCode) ?? toCountryCode(order.shippingCountry);
+    const candidates = country
+      ? warehouses.filter(w => w.countries.length === 0 || w.countries.includes(country))
+      : warehouses;
+
+    // Bundles are resolved into their components by FFN, so only the stock of plain products counts
+    const quantities = new Map<string, number>();
+    for (const item of order.items) {
+      if (!item.productId || item.product?.isBundle) continue;
+      quantities.set(item.productId, (quantities.get(item.productId) ?? 0) + item.quantity);
+    }
+
+    const stocks = candidates.length > 0 && quantities.size > 0
+      ? await this.prisma.productWarehouseStock.findMany({
+          where: { productId: { in: [...quantities.keys()] }, warehouseId: { in: candidates.map(w => w.id) } },
+          select: { productId: true, warehouseId: true, available: true },
+        })
+      : [];
+
+    const evaluated = candidates.map(warehouse => ({
+      warehouse,
+      coveredProducts: stocks.filter(stock =>
+        stock.warehouseId === warehouse.id && stock.available >= (quantities.get(stock.productId) ?? 0)
+      ).length,
+    }));
+
+    // Most items in stock first; equal coverage goes by priority, then to the default warehouse
+    evaluated.sort((a, b) =>
+      b.coveredProducts - a.coveredProducts
+      || a.warehouse.priority - b.warehouse.priority
+      || Number(b.warehouse.warehouseId === jtlConfig?.warehouseId) - Number(a.warehouse.warehouseId === jtlConfig?.warehouseId)
+    );
+
+    let chosen: RoutableWarehouse;
+    let note: string;
+
+    if (evaluated.length === 0) {
+      if (!defaultWarehouse) return null;
+      chosen = defaultWarehouse;
+      note = `No active warehouse serves ${country || 'an unknown country'}, default warehouse used`;
+    } else {
+      const best = evaluated[0];
+      chosen = best.warehouse;
+      if (quantities.size === 0) {
+        note = `No stock-tracked items, highest priority warehouse for ${country || 'any country'}`;
+      } else if (best.coveredProducts === quantities.size) {
+        note = `All items in stock at ${best.warehouse.name}`;
+      } else {
+        note = `Best stock coverage at ${best.warehouse.name} (${best.coveredProducts}/${quantities.size} products)`;
+      }
+    }
+
+    if (!options.dryRun) {
+      await this.prisma.order.update({
+        where: { id: order.id },
+        data: {
+          jtlWarehouseId: chosen.warehouseId,
+          warehouseRoutingNote: note,
+          warehouseRoutedAt: new Date(),
+        },
+      });
+    }
+
+    return {
+      warehouseId: chosen.warehouseId,
+      fulfillerId: chosen.fulfillerId,
+      name: chosen.name,
+      note,
+      candidates: evaluated.map(({ warehouse, coveredProducts }) => ({
+        warehouseId: warehouse.warehouseId,
+        name: warehouse.name,
+        priority: warehouse.priority,
+        coveredProducts,
+      })),
+    };
+  }
+
+  /**
+   * Set an order's warehouse by hand, or clear it (null) to route it again on the next outbound
+   */
+  async setOrderWarehouse(orderId: string, warehouseId: string | null, userEmail?: string) {
+    return this.prisma.order.update({
+      where: { id: orderId },
+      data: {
+        jtlWarehouseId: warehouseId,
+        warehouseRoutingNote: warehouseId ? `Set manually${userEmail ? ` by ${userEmail}` : ''}` : null,
+        warehouseRoutedAt: warehouseId ? new Date() : null,
+      },
+      select: { id: true, orderNumber: true, jtlWarehouseId: true, warehouseRoutingNote: true, warehouseRoutedAt: true },
+    });
+  }
+
+  /**
+   * Warehouse to create an order's FFN outbound against. Never throws.
+   * @param fallback The JtlConfig warehouse, used when the client has no warehouses configured
+   */
+  async resolveOutboundWarehouse(orderId: string, fallback: OutboundWarehouse): Promise<OutboundWarehouse> {
+    try {
+      const route = await this.routeOrder(orderId);
+      if (route?.warehouseId && route.fulfillerId) {
+        return { warehouseId: route.warehouseId, fulfillerId: route.fulfillerId };
+      }
+    } catch (error) {
+      console.error(`[Warehouse] Failed to route order ${orderId}, using default warehouse:`, error);
+    }
+    return fallback;
+  }
+}
+
+export const warehouseService = new WarehouseService();
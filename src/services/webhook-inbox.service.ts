@@ -0,0 +1,341 @@
+/**
+ * Webhook Inbox Service
+ *
+ * Durable inbox for webhooks received from Shopify and WooCommerce.
+ *
+ * KEY CONCEPTS:
+ * 1. Every webhook of a known channel is stored with its raw body, headers, topic and
+ *    signature result before it is processed
+ * 2. Idempotency is enforced by the database: (channelId, externalId) is unique, where
+ *    externalId is the platform's webhook/delivery ID (or a hash of topic and body).
+ *    Redeliveries only bump receivedCount
+ * 3. A webhook is processed by whoever claims it (RECEIVED/FAILED -> PROCESSING in one
+ *    update), so concurrent redeliveries on several instances run it only once. A claim
+ *    older than PROCESSING_TIMEOUT_MS (the instance died while processing) can be taken over
+ * 4. Webhooks with an invalid signature are stored too (under a hash of their body, so they
+ *    cannot occupy the ID of a genuine webhook), but not processed in production
+ * 5. Admins can replay stored webhooks through the current processor code. A dry run
+ *    runs a processor built on a client whose database writes are rolled back
+ *    (see utils/dry-run.ts).
+ *    Webhooks with an invalid signature are only replayed when forced
+ */
+
+import crypto from 'crypto';
+import {
+  Channel,
+  ChannelType,
+  Prisma,
+  PrismaClient,
+  WebhookInboxEntry,
+  WebhookInboxStatus,
+  WebhookSignatureStatus,
+} from '@prisma/client';
+import { prisma } from '../config/database.js';
+import { runDryRun, DryRunOutcome } from '../utils/dry-run.js';
+
+// Minimal shape shared by WebhookProcessorService and EnhancedWebhookProcessor results
+export interface InboxProcessResult {
+  success: boolean;
+  action?: string;
+  entityType?: string;
+  localId?: string;
+  externalId?: string;
+  error?: string;
+}
+
+// Which processor a webhook was received by (and is replayed through)
+export type WebhookInboxProcessor = 'standard' | 'enhanced';
+
+export interface InboxListFilters {
+  channelId?: string;
+  topic?: string;
+  status?: WebhookInboxStatus;
+  signatureStatus?: WebhookSignatureStatus;
+  from?: Date;
+  to?: Date;
+  page?: number;
+  limit?: number;
+}
+
+// What replaying a webhook would do, from a dry run of its processor
+export interface InboxPreview extends DryRunOutcome<InboxProcessResult> {
+  processor: WebhookInboxProcessor;
+}
+
+const MAX_LIMIT = 200;
+
+// After this long a PROCESSING entry is considered abandoned and may be claimed again
+const PROCESSING_TIMEOUT_MS = 10 * 60 * 1000;
+
+// Header that carries the platform's unique ID of a webhook (stable across redeliveries)
+const EXTERNAL_ID_HEADERS: Partial<Record<ChannelType, string>> = {
+  SHOPIFY: 'x-shopify-webhook-id',
+  WOOCOMMERCE: 'x-wc-webhook-delivery-id',
+};
+
+const SIGNATURE_HEADERS: Partial<Record<ChannelType, string>> = {
+  SHOPIFY: 'x-shopify-hmac-sha256',
+  WOOCOMMERCE: 'x-wc-webhook-signature',
+};
+
+const STORED_HEADER_PREFIXES = ['x-shopify-', 'x-wc-'];
+
+type RequestHeaders = Record<string, string | string[] | undefined>;
+
+const headerValue = (headers: RequestHeaders, name: string | undefined): string | undefined => {
+  if (!name) return undefined;
+  const value = headers[name];
+  return Array.isArray(value) ? value[0] : value;
+};
+
+class WebhookInboxService {
+  private prisma = prisma;
+
+  /**
+   * Check the platform HMAC (base64 SHA-256 of the raw body) for both Shopify and WooCommerce
+   */
+  checkSignature(
+    channelType: ChannelType,
+    rawBody: string,
+    headers: RequestHeaders,
+    secret: string | undefined
+  ): WebhookSignatureStatus {
+    if (!secret) return 'NOT_CHECKED';
+
+    const signature = headerValue(headers, SIGNATURE_HEADERS[channelType]);
+    if (!signature) return 'INVALID';
+
+    const expected = Buffer.from(crypto.createHmac('sha256', secret).update(rawBody, 'utf8').digest('base64'));
+    const presented = Buffer.from(signature);
+
+    return presented.length === expected.length && crypto.timingSafeEqual(presented, expected)
+      ? 'VALID'
+      : 'INVALID';
+  }
+
+  /**
+   * Store a received webhook. A redelivery of a stored webhook returns the
+   * existing entry with duplicate = true.
+   */
+  async receive(input: {
+    channel: Pick<Channel, 'id' | 'clientId' | 'type'>;
+    topic: string;
+    rawBody: string;
+    headers: RequestHeaders;
+    signatureStatus: WebhookSignatureStatus;
+    processor: WebhookInboxProcessor;
+  }) {
+    const { channel, topic, rawBody, headers, signatureStatus, processor } = input;
+
+    // Unsigned senders could claim the ID of a genuine webhook that is still to come
+    const bodyHash = crypto.createHash('sha256').update(`${topic}\n${rawBody}`).digest('hex');
+    const externalId = signatureStatus === 'INVALID'
+      ? `invalid:sha256:${bodyHash}`
+      : headerValue(headers, EXTERNAL_ID_HEADERS[channel.type]) || `sha256:${bodyHash}`;
+
+    const storedHeaders: Record<string, string> = {};
+    for (const [name, value] of Object.entries(headers)) {
+      if (value !== undefined && STORED_HEADER_PREFIXES.some(prefix => name.startsWith(prefix))) {
+        storedHeaders[name] = Array.isArray(value) ? value.join(', ') : value;
+      }
+    }
+
+    try {
+      const entry = await this.prisma.webhookInboxEntry.create({
+        data: {
+          channelType: channel.type,
+          topic,
+          externalId,
+          rawBody,
+          headers: storedHeaders,
+          signatureStatus,
+          processor,
+          clientId: channel.clientId,
+          channelId: channel.id,
+        },
+      });
+      return { entry, duplicate: false };
+    } catch (error) {
+      if (!(error instanceof Prisma.PrismaClientKnownRequestError) || error.code !== 'P2002') {
+        throw error;
+      }
+
+      const entry = await this.prisma.webhookInboxEntry.update({
+        where: { channelId_externalId: { channelId: channel.id, externalId } },
+        data: { receivedCount: { increment: 1 }, lastReceivedAt: new Date() },
+      });
+      return { entry, duplicate: true };
+    }
+  }
+
+  /**
+   * Claim an entry and run it through `handler`. Returns null when the entry is
+   * already processed or being processed elsewhere (and not abandoned).
+   */
+  async process<T extends InboxProcessResult>(
+    entryId: string,
+    handler: () => Promise<T>
+  ): Promise<T | null> {
+    return this.claimAndRun(entryId, ['RECEIVED', 'FAILED'], handler);
+  }
+
+  /**
+   * Run an entry through `handler` again, whatever its outcome was.
+   * Returns null when the entry is being processed right now.
+   */
+  async reprocess<T extends InboxProcessResult>(
+    entryId: string,
+    handler: () => Promise<T>
+  ): Promise<T | null> {
+    return this.claimAndRun(entryId, ['RECEIVED', 'PROCESSED', 'SKIPPED', 'FAILED'], handler);
+  }
+
+  /**
+   * List received webhooks (newest first), without body and headers
+   */
+  async list(filters: InboxListFilters = {}) {
+    const page = Math.max(1, filters.page ?? 1);
+    const limit = Math.min(MAX_LIMIT, Math.max(1, filters.limit ?? 50));
+    const where = this.buildWhere(filters);
+
+    const [entries, total] = await Promise.all([
+      this.prisma.webhookInboxEntry.findMany({
+        where,
+        omit: { rawBody: true, headers: true },
+        include: { channel: { select: { id: true, name: true, type: true } } },
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      this.prisma.webhookInboxEntry.count({ where }),
+    ]);
+
+    return {
+      entries,
+      pagination: { page, limit, total, totalPages: Math.ceil(total / limit) },
+    };
+  }
+
+  /**
+   * IDs of the oldest entries matching `filters`, for batch replays
+   */
+  async findIds(filters: InboxListFilters, limit: number): Promise<string[]> {
+    const entries = await this.prisma.webhookInboxEntry.findMany({
+      where: this.buildWhere(filters),
+      select: { id: true },
+      orderBy: { createdAt: 'asc' },
+      take: limit,
+    });
+    return entries.map(entry => entry.id);
+  }
+
+  async findById(id: string) {
+    return this.prisma.webhookInboxEntry.findUnique({
+      where: { id },
+      include: { channel: { select: { id: true, name: true, type: true } } },
+    });
+  }
+
+  /**
+   * The stored body as the processors receive it
+   */
+  parsePayload(entry: Pick<WebhookInboxEntry, 'rawBody'>): Record<string, unknown> {
+    return JSON.parse(entry.rawBody) as Record<string, unknown>;
+  }
+
+  /**
+   * Dry run: run the entry through `handler` (its processor, built on the given client) and
+   * roll back every database write. The preview lists those writes and the queue jobs and
+   * platform calls left out.
+   */
+  async preview(
+    entry: WebhookInboxEntry,
+    handler: (client: PrismaClient) => Promise<InboxProcessResult>
+  ): Promise<InboxPreview> {
+    const outcome = await runDryRun(this.prisma, handler);
+    return { processor: entry.processor as WebhookInboxProcessor, ...outcome };
+  }
+
+  private buildWhere(filters: InboxListFilters): Prisma.WebhookInboxEntryWhereInput {
+    return {
+      ...(filters.channelId && { channelId: filters.channelId }),
+      ...(filters.topic && { topic: filters.topic }),
+      ...(filters.status && { status: filters.status }),
+      ...(filters.signatureStatus && { signatureStatus: filters.signatureStatus }),
+      ...((filters.from || filters.to) && {
+        createdAt: {
+          ...(filters.from && { gte: filters.from }),
+          ...(filters.to && { lte: filters.to }),
+        },
+      }),
+    };
+  }
+
+  private async claimAndRun<T extends InboxProcessResult>(
+    entryId: string,
+    claimable: WebhookInboxStatus[],
+    handler: () => Promise<T>
+  ): Promise<T | null> {
+    const { count } = await this.prisma.webhookInboxEntry.updateMany({
+      where: {
+        id: entryId,
+        OR: [
+          { status: { in: claimable } },
+          { status: 'PROCESSING', claimedAt: { lt: new Date(Date.now() - PROCESSING_TIMEOUT_MS) } },
+        ],
+      },
+      data: { status: 'PROCESSING', attempts: { increment: 1 }, claimedAt: new Date() },
+    });
+
+    if (count === 0) return null;
+
+    try {
+      const result = await handler();
+      await this.complete(entryId, result);
+      return result;
+    } catch (error) {
+      await this.complete(entryId, {
+        success: false,
+        action: 'failed',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Close an entry without processing it (rejected signature, no processor, ...)
+   */
+  async skip(entryId: string, reason: string): Promise<void> {
+    await this.prisma.webhookInboxEntry.update({
+      where: { id: entryId },
+      data: { status: 'SKIPPED', error: reason, processedAt: new Date() },
+    });
+  }
+
+  private async complete(entryId: string, result: InboxProcessResult): Promise<void> {
+    const status: WebhookInboxStatus = result.action === 'skipped'
+      ? 'SKIPPED'
+      : result.success ? 'PROCESSED' : 'FAILED';
+
+    await this.prisma.webhookInboxEntry.update({
+      where: { id: entryId },
+      data: {
+        status,
+        processedAt: new Date(),
+        error: result.error ?? null,
+        result: {
+          success: result.success,
+          action: result.action ?? null,
+          entityType: result.entityType ?? null,
+          localId: result.localId ?? null,
+          externalId: result.externalId ?? null,
+        },
+      },
+    });
+  }
+}
+
+// Export singleton instance
+export const webhookInboxService = new WebhookInboxService();
+export default webhookInboxService;
@@ -1,7 +1,8 @@
+import crypto from 'crypto';
 import bcrypt from 'bcryptjs';
 import jwt from 'jsonwebtoken';
 import { env } from '../config/env.js';
-import { UserRole } from '@prisma/client';
+import { UserRole, ClientTeamRole } from '@prisma/client';
 
 const SALT_ROUNDS = 10;
 
@@ -23,6 +24,9 @@ export interface TokenPayload {
   email: string;
   role: UserRole;
   clientId?: string;
+  // Sub-role within the client team (CLIENT users only)
+  clientRole?: ClientTeamRole;
+  sessionId?: string;
 }
 
 // Generate access token
@@ -36,6 +40,8 @@ export const generateAccessToken = (payload: TokenPayload): string => {
 export const generateRefreshToken = (payload: TokenPayload): string => {
   return jwt.sign(payload, env.jwtRefreshSecret, {
     expiresIn: '30d',
+    // Unique per token, so a rotation within the same second never repeats a token
+    jwtid: crypto.randomUUID(),
   });
 };
 
@@ -64,3 +70,41 @@ export const generateTokens = (payload: TokenPayload) => {
     refreshToken: generateRefreshToken(payload),
   };
 };
+
+// Short-lived token between the password step and the 2FA step of a login
+export type TwoFactorChallengePurpose = 'verify' | 'setup';
+
+export interface TwoFactorChallengePayload {
+  userId: string;
+  purpose: TwoFactorChallengePurpose;
+  challengeId?: string; // Login challenge the codes are counted against ('verify')
+  type: '2fa_challenge';
+}
+
+export const generateTwoFactorChallengeToken = (
+  userId: string,
+  purpose: TwoFactorChallengePurpose,
+  challengeId?: string
+): string => {
+  const payload: TwoFactorChallengePayload = { userId, purpose, challengeId, type: '2fa_challenge' };
+  return jwt.sign(payload, env.jwtSecret, {
+    expiresIn: '10m',
+  });
+};
+
+export const verifyTwoFactorChallengeToken = (
+  token: string,
+  purpose: TwoFactorChallengePurpose
+): TwoFactorChallengePayload => {
+  let payload: TwoFactorChallengePayload;
+  try {
+    payload = jwt.verify(token, env.jwtSecret) as TwoFactorChallengePayload;
+  } catch (error) {
+    throw new Error('Invalid or expired challenge token');
+  }
+
+  if (payload.type !== '2fa_challenge' || payload.purpose !== purpose) {
+    throw new Error('Invalid or expired challenge token');
+  }
+  return payload;
+};
@@ -0,0 +1,57 @@
+/**
+ * Country Utility
+ *
+ * Orders carry the destination as an ISO 3166-1 alpha-2 code, a country name, or both -
+ * depending on the channel ("DE", "Germany", "Deutschland").
+ */
+
+// Names channels use besides the English and German country names
+const COUNTRY_ALIASES: Record<string, string> = {
+  usa: 'US',
+  'united states of america': 'US',
+  uk: 'GB',
+  'great britain': 'GB',
+  england: 'GB',
+  holland: 'NL',
+};
+
+const LETTERS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+
+let codesByName: Map<string, string> | undefined;
+
+// Lower case English and German country names by code, built from the ICU region names
+function getCodesByName(): Map<string, string> {
+  if (codesByName) return codesByName;
+
+  codesByName = new Map(Object.entries(COUNTRY_ALIASES));
+  const displayNames = ['en', 'de'].map(locale => new Intl.DisplayNames([locale], { type: 'region', fallback: 'none' }));
+
+  for (const first of LETTERS) {
+    for (const second of LETTERS) {
+      const code = first + second;
+      // Legacy codes (DD, UK, FX) are replaced by their current one
+      if (new Intl.Locale(`und-${code}`).region !== code) continue;
+
+      for (const names of displayNames) {
+        const name = names.of(code);
+        if (name) codesByName.set(name.toLowerCase(), code);
+      }
+    }
+  }
+
+  return codesByName;
+}
+
+/**
+ * ISO 3166-1 alpha-2 code of a country code or an English or German country name
+ * @returns null when the country is not recognized
+ */
+export function toCountryCode(value?: string | null): string | null {
+  const trimmed = value?.trim();
+  if (!trimmed) return null;
+
+  const alias = COUNTRY_ALIASES[trimmed.toLowerCase()];
+  if (alias) return alias;
+  if (/^[A-Za-z]{2}$/.test(trimmed)) return trimmed.toUpperCase();
+  return getCodesByName().get(trimmed.toLowerCase()) ?? null;
+}
@@ -0,0 +1,86 @@
+/**
+ * CSV Utility
+ *
+ * Minimal RFC 4180 reader/writer for merchant files (order imports, exports).
+ * Handles quoted fields with embedded delimiters, quotes and line breaks,
+ * CRLF line endings and a leading UTF-8 BOM (as written by Excel).
+ */
+
+/**
+ * Parse CSV text into rows of raw cell values
+ * @param text CSV content
+ * @param delimiter Field delimiter (German Excel exports use ';')
+ * @returns Rows including the header row; blank lines are skipped
+ */
+export function parseCsv(text: string, delimiter = ';'): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      if (row.some(cell => cell !== '')) rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  row.push(field);
+  if (row.some(cell => cell !== '')) rows.push(row);
+
+  return rows;
+}
+
+/**
+ * Parse CSV text into records keyed by the (trimmed) header row
+ */
+export function parseCsvRecords(text: string, delimiter = ';'): Array<Record<string, string>> {
+  const [header, ...rows] = parseCsv(text, delimiter);
+  if (!header) return [];
+
+  const columns = header.map(column => column.trim());
+  return rows.map(row => Object.fromEntries(
+    columns.map((column, index) => [column, (row[index] ?? '').trim()])
+  ));
+}
+
+/**
+ * Serialize rows to CSV, quoting cells that contain the delimiter, quotes or line breaks
+ * @param rows Rows including the header row
+ */
+export function toCsv(rows: Array<Array<string | number | null | undefined>>, delimiter = ';'): string {
+  return rows
+    .map(row => row
+      .map(cell => {
+        const value = cell === null || cell === undefined ? '' : String(cell);
+        return /["\r\n]/.test(value) || value.includes(delimiter)
+          ? `"${value.replace(/"/g, '""')}"`
+          : value;
+      })
+      .join(delimiter))
+    .join('\r\n') + '\r\n';
+}
@@ -0,0 +1,189 @@
+/**
+ * Dry Run Utility
+ *
+ * Runs real service code without keeping what it does, e.g. to show what replaying a
+ * stored webhook would change.
+ *
+ * KEY CONCEPTS:
+ * 1. runDryRun() opens one interactive transaction that is rolled back at the end, and
+ *    hands the code a Prisma client whose queries all go to it. The writes are recorded
+ *    on the way. The app's shared client is not involved
+ * 2. Every query runs under a savepoint, so a failing query the code catches (e.g. a unique
+ *    constraint it handles) is undone alone and the transaction stays usable - as the
+ *    query would have failed on its own outside the dry run
+ * 3. Singleton services the code calls into follow the run through dryRunClient()
+ * 4. Effects outside the database cannot be rolled back. Queue jobs are recorded and not
+ *    sent (skipDuringDryRun); platform and FFN calls that change data are refused
+ *    (assertNotDryRun), so the code sees them fail
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { Prisma, PrismaClient } from '@prisma/client';
+
+export interface DryRunWrite {
+  model: string;
+  operation: string;   // create, update, upsert, delete, createMany, updateMany, deleteMany
+  id: string | null;   // Record written by a single-record operation
+  count?: number;      // Records written by a *Many operation
+}
+
+export interface DryRunOutcome<T> {
+  result: T | null;
+  error: string | null; // What the code threw
+  writes: DryRunWrite[];
+  skipped: string[];    // External effects left out
+}
+
+interface DryRunContext {
+  client: PrismaClient;
+  skipped: string[];
+}
+
+type ModelDelegate = Record<string, (args: unknown) => Promise<unknown>>;
+
+const WRITE_OPERATIONS = new Set([
+  'create',
+  'createMany',
+  'createManyAndReturn',
+  'update',
+  'updateMany',
+  'updateManyAndReturn',
+  'upsert',
+  'delete',
+  'deleteMany',
+]);
+
+const DRY_RUN_TIMEOUT_MS = 30_000;
+
+const dryRunContext = new AsyncLocalStorage<DryRunContext>();
+
+// Thrown at the end of a dry run to roll its transaction back
+class DryRunRollback extends Error {}
+
+export const isDryRun = (): boolean => dryRunContext.getStore() !== undefined;
+
+/**
+ * The client of the active dry run, for singleton services that hold the shared client
+ */
+export const dryRunClient = (): PrismaClient | undefined => dryRunContext.getStore()?.client;
+
+/**
+ * Record an external effect that a dry run leaves out
+ * @returns true during a dry run - the caller then skips the effect
+ */
+export function skipDuringDryRun(effect: string): boolean {
+  const run = dryRunContext.getStore();
+  if (!run) return false;
+  run.skipped.push(effect);
+  return true;
+}
+
+/**
+ * Refuse an external effect the caller cannot go on without
+ * @throws During a dry run
+ */
+export function assertNotDryRun(effect: string): void {
+  if (skipDuringDryRun(effect)) throw new Error(`Not carried out in a dry run: ${effect}`);
+}
+
+/**
+ * A client whose queries go to `tx` under savepoints. Queries are run one at a time, as
+ * savepoints on the one connection must not interleave.
+ */
+function createDryRunClient(base: PrismaClient, tx: Prisma.TransactionClient, writes: DryRunWrite[]): PrismaClient {
+  let queue: Promise<unknown> = Promise.resolve();
+  let savepoints = 0;
+
+  const serialized = <T>(fn: () => Promise<T>): Promise<T> => {
+    const run = queue.then(fn, fn);
+    queue = run.catch(() => undefined);
+    return run;
+  };
+
+  // Run `fn` under a savepoint, rolled back to when `fn` throws
+  const withSavepoint = async <T>(execute: (sql: string) => Promise<unknown>, fn: () => Promise<T>): Promise<T> => {
+    const name = `dry_run_${++savepoints}`;
+    await execute(`SAVEPOINT ${name}`);
+    try {
+      const result = await fn();
+      await execute(`RELEASE SAVEPOINT ${name}`);
+      return result;
+    } catch (error) {
+      await execute(`ROLLBACK TO SAVEPOINT ${name}`);
+      throw error;
+    }
+  };
+
+  const routed = base.$extends({
+    name: 'dry-run',
+    query: {
+      async $allOperations({ model, operation, args }) {
+        if (!model) throw new Error(`${operation} is not supported in a dry run`);
+
+        const delegate = (tx as unknown as Record<string, ModelDelegate>)[model.charAt(0).toLowerCase() + model.slice(1)];
+        const result = await serialized(() =>
+          withSavepoint(sql => tx.$executeRawUnsafe(sql), () => delegate[operation](args)));
+
+        if (WRITE_OPERATIONS.has(operation)) {
+          const written = result as { id?: unknown; count?: unknown } | null;
+          writes.push({
+            model,
+            operation,
+            id: typeof written?.id === 'string' ? written.id : null,
+            ...(typeof written?.count === 'number' && { count: written.count }),
+          });
+        }
+
+        return result;
+      },
+    },
+  });
+
+  // Transactions of the code become savepoints of the dry run's transaction
+  return routed.$extends({
+    client: {
+      async $transaction(operations: unknown): Promise<unknown> {
+        // The statements are queued one by one - the code's own queries run in between
+        return withSavepoint(sql => serialized(() => tx.$executeRawUnsafe(sql)), async () => {
+          if (typeof operations === 'function') return operations(routed);
+
+          const results: unknown[] = [];
+          for (const operation of operations as Promise<unknown>[]) {
+            results.push(await operation);
+          }
+          return results;
+        });
+      },
+    },
+  }) as unknown as PrismaClient;
+}
+
+/**
+ * Run `fn` with a client whose writes are all rolled back
+ * @param base The app's Prisma client
+ */
+export async function runDryRun<T>(
+  base: PrismaClient,
+  fn: (client: PrismaClient) => Promise<T>
+): Promise<DryRunOutcome<T>> {
+  const outcome: DryRunOutcome<T> = { result: null, error: null, writes: [], skipped: [] };
+
+  try {
+    await base.$transaction(async tx => {
+      const client = createDryRunClient(base, tx, outcome.writes);
+
+      await dryRunContext.run({ client, skipped: outcome.skipped }, async () => {
+        try {
+          outcome.result = await fn(client);
+        } catch (error) {
+          outcome.error = error instanceof Error ? error.message : 'Unknown error';
+        }
+      });
+      throw new DryRunRollback();
+    }, { timeout: DRY_RUN_TIMEOUT_MS });
+  } catch (error) {
+    if (!(error instanceof DryRunRollback)) throw error;
+  }
+
+  return outcome;
+}
@@ -0,0 +1,113 @@
+/**
+ * Public Address Utility
+ *
+ * Guards for requests to URLs chosen by users (merchant webhooks, marketplace endpoints):
+ * only addresses on the public internet may be reached, never loopback, private,
+ * link-local (cloud metadata) or other reserved ranges of our own network.
+ */
+
+import { lookup } from 'node:dns';
+import { BlockList, isIP, LookupFunction } from 'node:net';
+
+const blockedV4 = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],       // "This" network
+  ['10.0.0.0', 8],      // Private
+  ['100.64.0.0', 10],   // Carrier-grade NAT
+  ['127.0.0.0', 8],     // Loopback
+  ['169.254.0.0', 16],  // Link-local, cloud metadata
+  ['172.16.0.0', 12],   // Private
+  ['192.0.0.0', 24],    // IETF protocol assignments
+  ['192.0.2.0', 24],    // Documentation
+  ['192.168.0.0', 16],  // Private
+  ['198.18.0.0', 15],   // Benchmarking
+  ['198.51.100.0', 24], // Documentation
+  ['203.0.113.0', 24],  // Documentation
+  ['224.0.0.0', 4],     // Multicast
+  ['240.0.0.0', 4],     // Reserved, broadcast
+] as const) {
+  blockedV4.addSubnet(network, prefix, 'ipv4');
+}
+
+const blockedV6 = new BlockList();
+for (const [network, prefix] of [
+  ['::', 128],          // Unspecified
+  ['::1', 128],         // Loopback
+  ['64:ff9b::', 96],    // NAT64
+  ['100::', 64],        // Discard
+  ['2001:db8::', 32],   // Documentation
+  ['fc00::', 7],        // Unique local
+  ['fe80::', 10],       // Link-local
+  ['ff00::', 8],        // Multicast
+] as const) {
+  blockedV6.addSubnet(network, prefix, 'ipv6');
+}
+
+/**
+ * Whether an IP address is on the public internet
+ */
+export function isPublicAddress(address: string): boolean {
+  const version = isIP(address);
+  if (version === 4) return !blockedV4.check(address, 'ipv4');
+  if (version !== 6) return false;
+
+  // IPv4-mapped (::ffff:10.0.0.1) - judged by the IPv4 address
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i)?.[1];
+  if (mapped) return isPublicAddress(mapped);
+  return !blockedV6.check(address, 'ipv6');
+}
+
+/**
+ * Why a URL's host cannot be public, judged without DNS (localhost and IP literals).
+ * Host names are checked when connecting, see publicLookup.
+ * @returns null when the host may be public
+ */
+export function nonPublicHostReason(url: URL): string | null {
+  const host = url.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  if (host === 'localhost' || host.endsWith('.localhost') || host.endsWith('.local') || host.endsWith('.internal')) {
+    return `Host ${host} is not reachable from the internet`;
+  }
+  if (isIP(host) && !isPublicAddress(host)) return `Address ${host} is not a public address`;
+  return null;
+}
+
+/**
+ * DNS lookup for http(s).request that refuses non-public addresses. The check runs on
+ * the address actually connected to, so a host name cannot be re-pointed to an internal
+ * address between validation and the request (DNS rebinding).
+ */
+export const publicLookup: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, '', 0);
+      return;
+    }
+
+    const blocked = addresses.find(entry => !isPublicAddress(entry.address));
+    if (blocked || addresses.length === 0) {
+      const refused = Object.assign(
+        new Error(`${hostname} resolves to ${blocked?.address ?? 'no address'}, which is not a public address`),
+        { code: 'ENOTPUBLIC' }
+      );
+      callback(refused, '', 0);
+      return;
+    }
+
+    if (options.all) callback(null, addresses);
+    else callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+/**
+ * Resolve a host name to a public address to connect to directly (e.g. SFTP, where no
+ * lookup function can be passed)
+ * @throws When the host resolves to a non-public address
+ */
+export function resolvePublicAddress(hostname: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    publicLookup(hostname, {}, (error, address) => {
+      if (error) reject(error);
+      else resolve(address as string);
+    });
+  });
+}
@@ -0,0 +1,29 @@
+/**
+ * Stocktake Variance Utility
+ *
+ * The arithmetic of stocktake lines: the variances of a count against the No-Limits and
+ * the FFN figures, and what approving a variance books.
+ */
+
+import type { StocktakeLine } from '@prisma/client';
+
+// Counted minus expected, per source; null while the line is not counted
+export const withVariance = <T extends Pick<StocktakeLine, 'expectedQuantity' | 'ffnQuantity' | 'countedQuantity'>>(line: T) => ({
+  ...line,
+  variance: line.countedQuantity === null ? null : line.countedQuantity - line.expectedQuantity,
+  ffnVariance: line.countedQuantity === null || line.ffnQuantity === null ? null : line.countedQuantity - line.ffnQuantity,
+});
+
+/**
+ * What approving a line books: the No-Limits variance, but never taking available below
+ * zero, and the FFN variance as pending while FFN still counts its own figure
+ */
+export const approvedAdjustment = (
+  variance: number,
+  ffnVariance: number | null,
+  available: number,
+  inFfn: boolean
+): { adjustedQuantity: number; ffnPendingQuantity: number | null } => ({
+  adjustedQuantity: Math.max(variance, -available),
+  ffnPendingQuantity: inFfn && ffnVariance ? ffnVariance : null,
+});
@@ -0,0 +1,202 @@
+/**
+ * XLSX Utility
+ *
+ * Minimal reader for the first worksheet of an Excel workbook (supplier packing lists,
+ * merchant imports). Reads the zip container with node:zlib and the sheet XML with
+ * regular expressions - enough for plain tables, no formulas are evaluated (the cached
+ * value is used) and no styles are read, so dates arrive as Excel serial numbers.
+ */
+
+import { inflateRawSync } from 'node:zlib';
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+
+// Uncompressed size limit per part read, so a small zip bomb cannot exhaust memory
+const MAX_PART_SIZE = 32 * 1024 * 1024;
+
+interface ZipEntry {
+  method: number;
+  compressedSize: number;
+  localOffset: number;
+}
+
+const invalidWorkbook = () => new Error('File is not a valid XLSX workbook');
+
+/**
+ * Index the files of a zip archive by name. Nothing is inflated here; read parts
+ * with readZipEntry.
+ * @throws When the buffer is not a zip archive
+ */
+function indexZip(buffer: Buffer): Map<string, ZipEntry> {
+  try {
+    // The end of central directory record sits at the end, before an optional comment
+    let eocd = -1;
+    for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 22 - 0xffff); i--) {
+      if (buffer.readUInt32LE(i) === EOCD_SIGNATURE) {
+        eocd = i;
+        break;
+      }
+    }
+    if (eocd < 0) throw invalidWorkbook();
+
+    const entryCount = buffer.readUInt16LE(eocd + 10);
+    let offset = buffer.readUInt32LE(eocd + 16);
+    const entries = new Map<string, ZipEntry>();
+
+    for (let entry = 0; entry < entryCount; entry++) {
+      if (buffer.readUInt32LE(offset) !== CENTRAL_HEADER_SIGNATURE) throw invalidWorkbook();
+
+      const nameLength = buffer.readUInt16LE(offset + 28);
+      const name = buffer.toString('utf8', offset + 46, offset + 46 + nameLength);
+      entries.set(name, {
+        method: buffer.readUInt16LE(offset + 10),
+        compressedSize: buffer.readUInt32LE(offset + 20),
+        localOffset: buffer.readUInt32LE(offset + 42),
+      });
+      offset += 46 + nameLength + buffer.readUInt16LE(offset + 30) + buffer.readUInt16LE(offset + 32);
+    }
+
+    return entries;
+  } catch (error) {
+    // Offsets pointing outside the buffer
+    if (error instanceof RangeError) throw invalidWorkbook();
+    throw error;
+  }
+}
+
+/**
+ * Read one file of the archive, inflating at most MAX_PART_SIZE bytes
+ * @returns undefined when the archive has no such file
+ * @throws When the entry is corrupt, too large or uses an unsupported compression
+ */
+function readZipEntry(buffer: Buffer, entries: Map<string, ZipEntry>, name: string): string | undefined {
+  const entry = entries.get(name);
+  if (!entry) return undefined;
+
+  let data: Buffer;
+  try {
+    if (buffer.readUInt32LE(entry.localOffset) !== LOCAL_HEADER_SIGNATURE) throw invalidWorkbook();
+    const dataStart = entry.localOffset + 30
+      + buffer.readUInt16LE(entry.localOffset + 26) + buffer.readUInt16LE(entry.localOffset + 28);
+    data = buffer.subarray(dataStart, dataStart + entry.compressedSize);
+  } catch (error) {
+    if (error instanceof RangeError) throw invalidWorkbook();
+    throw error;
+  }
+
+  if (entry.method === 0) {
+    if (data.length > MAX_PART_SIZE) throw new Error(`XLSX part ${name} is larger than ${MAX_PART_SIZE / 1024 / 1024} MB`);
+    return data.toString('utf8');
+  }
+  if (entry.method !== 8) throw new Error(`Unsupported XLSX compression method ${entry.method}`);
+
+  try {
+    return inflateRawSync(data, { maxOutputLength: MAX_PART_SIZE }).toString('utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE') {
+      throw new Error(`XLSX part ${name} is larger than ${MAX_PART_SIZE / 1024 / 1024} MB uncompressed`);
+    }
+    throw invalidWorkbook();
+  }
+}
+
+function decodeXml(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (_, entity: string) => {
+    if (entity[0] === '#') {
+      return String.fromCodePoint(entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10));
+    }
+    return { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" }[entity.toLowerCase()]!;
+  });
+}
+
+// Text of a string item: plain <t>, or the runs of rich text
+function readText(xml: string): string {
+  return [...xml.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g)].map(match => decodeXml(match[1])).join('');
+}
+
+// "AB12" -> 27
+function columnIndex(ref: string): number {
+  let index = 0;
+  for (const char of ref.replace(/\d+$/, '').toUpperCase()) {
+    index = index * 26 + (char.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+// Path of the first worksheet in workbook order
+function firstSheetPath(workbook: string, relations: string): string {
+  const relationId = workbook.match(/<sheet\b[^>]*\br:id="([^"]+)"/)?.[1];
+  const relation = relationId
+    ? [...relations.matchAll(/<Relationship\b[^>]*>/g)].find(match => match[0].includes(`Id="${relationId}"`))
+    : undefined;
+  const target = relation?.[0].match(/Target="([^"]+)"/)?.[1];
+
+  if (!target) return 'xl/worksheets/sheet1.xml';
+  return target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+}
+
+/**
+ * Parse the first worksheet of an XLSX workbook into rows of cell values. Only the
+ * workbook, its relations, the first sheet and the shared strings are read.
+ * @returns Rows including the header row; blank rows are skipped
+ * @throws When the file is not a readable workbook or a part is too large
+ */
+export function parseXlsx(buffer: Buffer): string[][] {
+  const entries = indexZip(buffer);
+  const read = (name: string) => readZipEntry(buffer, entries, name);
+
+  const sheetPath = firstSheetPath(read('xl/workbook.xml') ?? '', read('xl/_rels/workbook.xml.rels') ?? '');
+  const sheet = read(sheetPath);
+  if (!sheet) throw new Error('XLSX workbook contains no worksheet');
+
+  const sharedStrings = [...(read('xl/sharedStrings.xml') ?? '').matchAll(/<si>([\s\S]*?)<\/si>/g)]
+    .map(match => readText(match[1]));
+
+  const rows: string[][] = [];
+  for (const rowMatch of sheet.matchAll(/<row\b[^>]*>([\s\S]*?)<\/row>/g)) {
+    const row: string[] = [];
+
+    for (const cellMatch of rowMatch[1].matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const attributes = cellMatch[1];
+      const content = cellMatch[2] ?? '';
+      const ref = attributes.match(/\br="([A-Z]+\d+)"/)?.[1];
+      const type = attributes.match(/\bt="([^"]+)"/)?.[1];
+      const raw = content.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+
+      let value: string;
+      if (type === 's') value = sharedStrings[Number(raw)] ?? '';
+      else if (type === 'inlineStr') value = readText(content.match(/<is>([\s\S]*?)<\/is>/)?.[1] ?? '');
+      else value = raw !== undefined ? decodeXml(raw) : '';
+
+      const index = ref ? columnIndex(ref) : row.length;
+      while (row.length < index) row.push('');
+      row[index] = value;
+    }
+
+    if (row.some(cell => cell !== '')) rows.push(row);
+  }
+
+  return rows;
+}
+
+/**
+ * Parse the first worksheet into records keyed by the (trimmed) header row
+ */
+export function parseXlsxRecords(buffer: Buffer): Array<Record<string, string>> {
+  const [header, ...rows] = parseXlsx(buffer);
+  if (!header) return [];
+
+  const columns = header.map(column => column.trim());
+  return rows.map(row => Object.fromEntries(
+    columns.map((column, index) => [column, (row[index] ?? '').trim()])
+  ));
+}
+
+/**
+ * Convert an Excel date serial number (days since 1899-12-30) to a date
+ */
+export function fromExcelDate(serial: number): Date {
+  return new Date(Math.round((serial - 25569) * 86400000));
+}
@@ -0,0 +1,564 @@
+/**
+ * Mock eBay Sell API Server
+ * Simulates the eBay OAuth, Fulfillment, Inventory and Account endpoints used by the eBay channel
+ * (orders, tracking upload, inventory quantities) for testing without a real seller account.
+ *
+ * Point an eBay channel at it with endpoint = http://localhost:3096
+ */
+
+import express, { Request, Response, NextFunction } from 'express';
+import crypto from 'crypto';
+
+export interface MockEbayConfig {
+  port: number;
+  marketplaceId: string;
+  latency: {
+    min: number; // minimum response time in ms
+    max: number; // maximum response time in ms
+  };
+  errorRate: number; // percentage of requests that should fail (0-100)
+  throttleRate: number; // percentage of requests answered with 429 (0-100)
+  seedOrders: number; // orders created on start/reset
+  seedItems: number; // inventory items created on start/reset
+  enableLogging: boolean;
+}
+
+export interface MockEbayStats {
+  totalRequests: number;
+  successfulRequests: number;
+  failedRequests: number;
+  throttledRequests: number;
+  authRequests: number;
+  shippingFulfillments: number;
+  inventoryUpdates: number;
+  startTime: Date;
+  lastRequestTime: Date | null;
+}
+
+interface MockInventoryItem {
+  sku: string;
+  title: string;
+  ean: string;
+  quantity: number;
+}
+
+interface MockOrder {
+  orderId: string;
+  legacyOrderId: string;
+  creationDate: string;
+  lastModifiedDate: string;
+  orderFulfillmentStatus: 'NOT_STARTED' | 'IN_PROGRESS' | 'FULFILLED';
+  orderPaymentStatus: string;
+  cancelStatus: { cancelState: string };
+  buyer: { username: string; buyerRegistrationAddress: { fullName: string; email: string } };
+  pricingSummary: { total: { value: string; currency: string } };
+  fulfillmentStartInstructions: Array<Record<string, unknown>>;
+  lineItems: Array<{
+    lineItemId: string;
+    legacyItemId: string;
+    sku: string;
+    title: string;
+    quantity: number;
+    lineItemCost: { value: string; currency: string };
+    lineItemFulfillmentStatus: 'NOT_STARTED' | 'IN_PROGRESS' | 'FULFILLED';
+  }>;
+  fulfillments: Array<Record<string, unknown>>;
+}
+
+const defaultConfig: MockEbayConfig = {
+  port: 3096,
+  marketplaceId: 'EBAY_DE',
+  latency: {
+    min: 50,
+    max: 200,
+  },
+  errorRate: 0,
+  throttleRate: 0,
+  seedOrders: 10,
+  seedItems: 5,
+  enableLogging: true,
+};
+
+export class MockEbayServer {
+  private app: express.Application;
+  private server: ReturnType<express.Application['listen']> | null = null;
+  private config: MockEbayConfig;
+  private stats: MockEbayStats;
+  private orders: Map<string, MockOrder> = new Map();
+  private items: Map<string, MockInventoryItem> = new Map();
+  private tokens: Map<string, Date> = new Map();
+
+  constructor(config: Partial<MockEbayConfig> = {}) {
+    this.config = { ...defaultConfig, ...config };
+    this.app = express();
+    this.stats = this.initStats();
+    this.seed();
+    this.setupMiddleware();
+    this.setupRoutes();
+  }
+
+  private initStats(): MockEbayStats {
+    return {
+      totalRequests: 0,
+      successfulRequests: 0,
+      failedRequests: 0,
+      throttledRequests: 0,
+      authRequests: 0,
+      shippingFulfillments: 0,
+      inventoryUpdates: 0,
+      startTime: new Date(),
+      lastRequestTime: null,
+    };
+  }
+
+  private setupMiddleware(): void {
+    this.app.use(express.json({ limit: '10mb' }));
+    this.app.use(express.urlencoded({ extended: false }));
+
+    this.app.use((req: Request, res: Response, next: NextFunction) => {
+      this.stats.totalRequests++;
+      this.stats.lastRequestTime = new Date();
+
+      if (this.config.enableLogging) {
+        console.log(`[Mock eBay] ${req.method} ${req.path}`);
+      }
+
+      res.on('finish', () => {
+        if (res.statusCode >= 200 && res.statusCode < 300) {
+          this.stats.successfulRequests++;
+        } else {
+          this.stats.failedRequests++;
+        }
+      });
+
+      next();
+    });
+  }
+
+  private async simulateLatency(): Promise<void> {
+    const latency = this.config.latency.min +
+      Math.random() * (this.config.latency.max - this.config.latency.min);
+    await new Promise(resolve => setTimeout(resolve, latency));
+  }
+
+  private shouldFail(): boolean {
+    return Math.random() * 100 < this.config.errorRate;
+  }
+
+  private shouldThrottle(): boolean {
+    return Math.random() * 100 < this.config.throttleRate;
+  }
+
+  /**
+   * Create sample inventory items and orders referencing them
+   */
+  private seed(): void {
+    for (let i = 1; i <= this.config.seedItems; i++) {
+      const sku = `EBAY-SKU-${String(i).padStart(3, '0')}`;
+      this.items.set(sku, {
+        sku,
+        title: `Mock eBay Product ${i}`,
+        ean: `4006381${String(333900 + i).padStart(6, '0')}`,
+        quantity: 100,
+      });
+    }
+
+    const items = Array.from(this.items.values());
+    for (let i = 0; i < this.config.seedOrders && items.length > 0; i++) {
+      const item = items[i % items.length];
+      this.addOrder([{ sku: item.sku, quantity: 1 + (i % 3) }], i % 5 === 0 ? 'PENDING' : 'PAID');
+    }
+  }
+
+  private addOrder(lines: Array<{ sku: string; quantity: number }>, paymentStatus = 'PAID'): MockOrder {
+    const now = new Date().toISOString();
+    const lineItems = lines.map(line => {
+      const item = this.items.get(line.sku);
+      return {
+        lineItemId: crypto.randomInt(10_000_000_000, 99_999_999_999).toString(),
+        legacyItemId: crypto.randomInt(100_000_000_000, 999_999_999_999).toString(),
+        sku: line.sku,
+        title: item?.title || line.sku,
+        quantity: line.quantity,
+        lineItemCost: { value: (24.99 * line.quantity).toFixed(2), currency: 'EUR' },
+        lineItemFulfillmentStatus: 'NOT_STARTED' as const,
+      };
+    });
+
+    const orderId = `${crypto.randomInt(10, 99)}-${crypto.randomInt(10000, 99999)}-${crypto.randomInt(10000, 99999)}`;
+    const order: MockOrder = {
+      orderId,
+      legacyOrderId: `${crypto.randomInt(100_000_000_000, 999_999_999_999)}-${crypto.randomInt(1_000_000_000_000, 9_999_999_999_999)}`,
+      creationDate: now,
+      lastModifiedDate: now,
+      orderFulfillmentStatus: 'NOT_STARTED',
+      orderPaymentStatus: paymentStatus,
+      cancelStatus: { cancelState: 'NONE_REQUESTED' },
+      buyer: {
+        username: `buyer_${crypto.randomBytes(3).toString('hex')}`,
+        buyerRegistrationAddress: {
+          fullName: 'Erika Musterfrau',
+          email: `${crypto.randomBytes(6).toString('hex')}@members.ebay.com`,
+        },
+      },
+      pricingSummary: {
+        total: {
+          value: lineItems.reduce((sum, item) => sum + parseFloat(item.lineItemCost.value), 0).toFixed(2),
+          currency: 'EUR',
+        },
+      },
+      fulfillmentStartInstructions: [{
+        fulfillmentInstructionsType: 'SHIP_TO',
+        shippingStep: {
+          shipTo: {
+            fullName: 'Erika Musterfrau',
+            contactAddress: {
+              addressLine1: 'Heidestraße 17',
+              city: 'Köln',
+              postalCode: '51147',
+              countryCode: 'DE',
+            },
+            primaryPhone: { phoneNumber: '0221 1234567' },
+          },
+          shippingCarrierCode: 'DHL',
+          shippingServiceCode: 'DE_DHLPaket',
+        },
+      }],
+      lineItems,
+      fulfillments: [],
+    };
+
+    this.orders.set(order.orderId, order);
+    return order;
+  }
+
+  private toApiOrder(order: MockOrder) {
+    const { fulfillments: _fulfillments, ...rest } = order;
+    return rest;
+  }
+
+  private toApiItem(item: MockInventoryItem) {
+    return {
+      sku: item.sku,
+      locale: 'de_DE',
+      product: {
+        title: item.title,
+        ean: [item.ean],
+        imageUrls: [`https://i.ebayimg.com/images/mock/${item.sku}.jpg`],
+      },
+      condition: 'NEW',
+      availability: {
+        shipToLocationAvailability: { quantity: item.quantity },
+      },
+    };
+  }
+
+  private setupRoutes(): void {
+    // Health check
+    this.app.get('/health', (_req: Request, res: Response) => {
+      res.json({ status: 'healthy', uptime: Date.now() - this.stats.startTime.getTime() });
+    });
+
+    // OAuth token endpoint (refresh_token grant, client credentials as Basic auth)
+    this.app.post('/identity/v1/oauth2/token', async (req: Request, res: Response) => {
+      await this.simulateLatency();
+      this.stats.authRequests++;
+
+      const authHeader = req.headers.authorization || '';
+      const [clientId, clientSecret] = Buffer.from(authHeader.replace(/^Basic /, ''), 'base64').toString().split(':');
+      if (!authHeader.startsWith('Basic ') || !clientId || !clientSecret) {
+        res.status(401).json({ error: 'invalid_client', error_description: 'client authentication failed' });
+        return;
+      }
+
+      const { grant_type, refresh_token } = req.body;
+      if (grant_type !== 'refresh_token') {
+        res.status(400).json({ error: 'unsupported_grant_type' });
+        return;
+      }
+      if (!refresh_token) {
+        res.status(400).json({ error: 'invalid_grant', error_description: 'the provided authorization refresh token is invalid' });
+        return;
+      }
+
+      const accessToken = `v^1.1#i^1#${crypto.randomBytes(32).toString('hex')}`;
+      const expiresIn = 7200;
+      this.tokens.set(accessToken, new Date(Date.now() + expiresIn * 1000));
+
+      res.json({ access_token: accessToken, token_type: 'User Access Token', expires_in: expiresIn });
+    });
+
+    // Sell API routes need a valid bearer token
+    const verifyToken = async (req: Request, res: Response, next: NextFunction) => {
+      await this.simulateLatency();
+
+      const token = (req.headers.authorization || '').replace(/^Bearer /, '');
+      const expiresAt = this.tokens.get(token);
+      if (!expiresAt || expiresAt < new Date()) {
+        res.status(401).json({ errors: [{ errorId: 1001, domain: 'OAuth', category: 'REQUEST', message: 'Invalid access token' }] });
+        return;
+      }
+
+      if (this.shouldThrottle()) {
+        this.stats.throttledRequests++;
+        res.status(429).json({ errors: [{ errorId: 2001, domain: 'ACCESS', category: 'REQUEST', message: 'Too many requests' }] });
+        return;
+      }
+
+      if (this.shouldFail()) {
+        res.status(500).json({ errors: [{ errorId: 10001, domain: 'API_FULFILLMENT', category: 'APPLICATION', message: 'System error' }] });
+        return;
+      }
+
+      next();
+    };
+
+    // Account API - selling privileges
+    this.app.get('/sell/account/v1/privilege', verifyToken, (_req: Request, res: Response) => {
+      res.json({
+        sellingLimit: { amount: { currency: 'EUR', value: '25000.0' }, quantity: 1000 },
+        sellerRegistrationCompleted: true,
+      });
+    });
+
+    // Fulfillment API - list orders (filter: creationdate:[from..] or lastmodifieddate:[from..])
+    this.app.get('/sell/fulfillment/v1/order', verifyToken, (req: Request, res: Response) => {
+      const filter = (req.query.filter as string | undefined) || '';
+      const limit = Math.min(200, parseInt((req.query.limit as string) || '50', 10));
+      const offset = parseInt((req.query.offset as string) || '0', 10);
+
+      const match = filter.match(/^(creationdate|lastmodifieddate):\[(.*?)\.\.\]$/);
+      const field = match?.[1] === 'lastmodifieddate' ? 'lastModifiedDate' : 'creationDate';
+      const from = match?.[2];
+
+      const filtered = Array.from(this.orders.values())
+        .filter(order => !from || order[field] >= from)
+        .sort((a, b) => b.creationDate.localeCompare(a.creationDate));
+
+      res.json({
+        href: req.originalUrl,
+        total: filtered.length,
+        limit,
+        offset,
+        orders: filtered.slice(offset, offset + limit).map(order => this.toApiOrder(order)),
+      });
+    });
+
+    // Fulfillment API - get one order
+    this.app.get('/sell/fulfillment/v1/order/:orderId', verifyToken, (req: Request, res: Response) => {
+      const order = this.orders.get(req.params.orderId as string);
+      if (!order) {
+        res.status(404).json({ errors: [{ errorId: 32100, domain: 'API_FULFILLMENT', message: 'Invalid order ID' }] });
+        return;
+      }
+      res.json(this.toApiOrder(order));
+    });
+
+    // Fulfillment API - upload tracking for line items
+    this.app.post('/sell/fulfillment/v1/order/:orderId/shipping_fulfillment', verifyToken, (req: Request, res: Response) => {
+      const order = this.orders.get(req.params.orderId as string);
+      if (!order) {
+        res.status(404).json({ errors: [{ errorId: 32100, domain: 'API_FULFILLMENT', message: 'Invalid order ID' }] });
+        return;
+      }
+
+      const { lineItems, shippingCarrierCode, trackingNumber, shippedDate } = req.body || {};
+      if (!Array.isArray(lineItems) || lineItems.length === 0 || !shippingCarrierCode || !trackingNumber) {
+        res.status(400).json({ errors: [{ errorId: 32400, domain: 'API_FULFILLMENT', message: 'lineItems, shippingCarrierCode and trackingNumber are required' }] });
+        return;
+      }
+
+      for (const shipped of lineItems as Array<{ lineItemId: string }>) {
+        const lineItem = order.lineItems.find(item => item.lineItemId === shipped.lineItemId);
+        if (lineItem) lineItem.lineItemFulfillmentStatus = 'FULFILLED';
+      }
+
+      order.orderFulfillmentStatus = order.lineItems.every(item => item.lineItemFulfillmentStatus === 'FULFILLED')
+        ? 'FULFILLED'
+        : 'IN_PROGRESS';
+      order.lastModifiedDate = new Date().toISOString();
+
+      const fulfillmentId = trackingNumber;
+      order.fulfillments.push({ fulfillmentId, lineItems, shippingCarrierCode, trackingNumber, shippedDate });
+      this.stats.shippingFulfillments++;
+
+      res.status(201)
+        .location(`/sell/fulfillment/v1/order/${order.orderId}/shipping_fulfillment/${fulfillmentId}`)
+        .end();
+    });
+
+    // Inventory API - list inventory items
+    this.app.get('/sell/inventory/v1/inventory_item', verifyToken, (req: Request, res: Response) => {
+      const limit = Math.min(100, parseInt((req.query.limit as string) || '25', 10));
+      const offset = parseInt((req.query.offset as string) || '0', 10);
+      const all = Array.from(this.items.values());
+
+      res.json({
+        total: all.length,
+        size: Math.min(limit, Math.max(0, all.length - offset)),
+        limit,
+        inventoryItems: all.slice(offset, offset + limit).map(item => this.toApiItem(item)),
+      });
+    });
+
+    // Inventory API - bulk price/quantity update
+    this.app.post('/sell/inventory/v1/bulk_update_price_quantity', verifyToken, (req: Request, res: Response) => {
+      const requests = (req.body?.requests || []) as Array<{ sku: string; shipToLocationAvailability?: { quantity?: number } }>;
+
+      const responses = requests.map(request => {
+        const item = this.items.get(request.sku);
+        if (!item) {
+          return {
+            statusCode: 404,
+            sku: request.sku,
+            errors: [{ errorId: 25702, domain: 'API_INVENTORY', message: `SKU ${request.sku} is not available in the system` }],
+          };
+        }
+
+        const quantity = request.shipToLocationAvailability?.quantity;
+        if (typeof quantity === 'number') {
+          item.quantity = quantity;
+          this.stats.inventoryUpdates++;
+        }
+        return { statusCode: 200, sku: request.sku };
+      });
+
+      res.json({ responses });
+    });
+
+    // Stats endpoint (for monitoring)
+    this.app.get('/mock-stats', (_req: Request, res: Response) => {
+      res.json({
+        ...this.stats,
+        uptime: Date.now() - this.stats.startTime.getTime(),
+        ordersInMemory: this.orders.size,
+        itemsInMemory: this.items.size,
+        activeTokens: this.tokens.size,
+      });
+    });
+
+    // Inspect stored orders (with uploaded tracking) and inventory quantities
+    this.app.get('/mock-state', (_req: Request, res: Response) => {
+      res.json({
+        orders: Array.from(this.orders.values()),
+        items: Array.from(this.items.values()),
+      });
+    });
+
+    // Create an order, e.g. { "items": [{ "sku": "EBAY-SKU-001", "quantity": 2 }], "paymentStatus": "PAID" }
+    this.app.post('/mock-orders', (req: Request, res: Response) => {
+      const { items, paymentStatus } = req.body;
+      if (!Array.isArray(items) || items.length === 0) {
+        res.status(400).json({ success: false, error: 'items is required' });
+        return;
+      }
+      res.status(201).json({ success: true, order: this.addOrder(items, paymentStatus) });
+    });
+
+    // Change an order's payment or cancel state, e.g. { "paymentStatus": "PAID" } or { "cancelState": "CANCELED" }
+    this.app.post('/mock-orders/:orderId/status', (req: Request, res: Response) => {
+      const order = this.orders.get(req.params.orderId as string);
+      if (!order) {
+        res.status(404).json({ success: false, error: 'Order not found' });
+        return;
+      }
+
+      const { paymentStatus, cancelState } = req.body;
+      if (paymentStatus) order.orderPaymentStatus = paymentStatus;
+      if (cancelState) order.cancelStatus = { cancelState };
+      order.lastModifiedDate = new Date().toISOString();
+
+      res.json({ success: true, order });
+    });
+
+    // Reset endpoint (for testing)
+    this.app.post('/mock-reset', (_req: Request, res: Response) => {
+      this.orders.clear();
+      this.items.clear();
+      this.tokens.clear();
+      this.stats = this.initStats();
+      this.seed();
+      res.json({ success: true, message: 'Mock server reset' });
+    });
+
+    // Configure endpoint (change settings at runtime)
+    this.app.post('/mock-configure', (req: Request, res: Response) => {
+      const { latency, errorRate, throttleRate, enableLogging } = req.body;
+
+      if (latency) {
+        this.config.latency = { ...this.config.latency, ...latency };
+      }
+      if (typeof errorRate === 'number') {
+        this.config.errorRate = Math.max(0, Math.min(100, errorRate));
+      }
+      if (typeof throttleRate === 'number') {
+        this.config.throttleRate = Math.max(0, Math.min(100, throttleRate));
+      }
+      if (typeof enableLogging === 'boolean') {
+        this.config.enableLogging = enableLogging;
+      }
+
+      res.json({ success: true, config: this.config });
+    });
+  }
+
+  /**
+   * Start the mock server
+   */
+  async start(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      try {
+        this.server = this.app.listen(this.config.port, () => {
+          console.log(`🔧 Mock eBay Sell API Server running on port ${this.config.port}`);
+          console.log(`   Marketplace: ${this.config.marketplaceId}`);
+          console.log(`   Seeded: ${this.items.size} inventory items, ${this.orders.size} orders`);
+          console.log(`   Latency: ${this.config.latency.min}-${this.config.latency.max}ms`);
+          console.log(`   Error rate: ${this.config.errorRate}%, throttle rate: ${this.config.throttleRate}%`);
+          resolve();
+        });
+      } catch (error) {
+        reject(error);
+      }
+    });
+  }
+
+  /**
+   * Stop the mock server
+   */
+  async stop(): Promise<void> {
+    return new Promise((resolve) => {
+      if (this.server) {
+        this.server.close(() => {
+          console.log('Mock eBay Sell API Server stopped');
+          resolve();
+        });
+      } else {
+        resolve();
+      }
+    });
+  }
+
+  /**
+   * Get current stats
+   */
+  getStats(): MockEbayStats {
+    return { ...this.stats };
+  }
+}
+
+// Export for CLI usage
+export async function startMockEbayServer(config?: Partial<MockEbayConfig>): Promise<MockEbayServer> {
+  const server = new MockEbayServer(config);
+  await server.start();
+  return server;
+}
+
+// Run if executed directly
+const isMainModule = import.meta.url === `file://${process.argv[1]}`;
+if (isMainModule) {
+  const port = parseInt(process.env.MOCK_EBAY_PORT || '3096', 10);
+  const errorRate = parseFloat(process.env.MOCK_EBAY_ERROR_RATE || '0');
+  const throttleRate = parseFloat(process.env.MOCK_EBAY_THROTTLE_RATE || '0');
+
+  startMockEbayServer({ port, errorRate, throttleRate }).catch(console.error);
+}
@@ -0,0 +1,591 @@
+/**
+ * Mock Amazon SP-API Server
+ * Simulates Login with Amazon and the Selling Partner API endpoints used by the Amazon channel
+ * (orders, shipment confirmation, listings, inventory) for testing without a real seller account.
+ *
+ * Point an Amazon channel at it with endpoint = http://localhost:3097
+ * and AMAZON_LWA_TOKEN_URL = http://localhost:3097/auth/o2/token
+ */
+
+import express, { Request, Response, NextFunction } from 'express';
+import crypto from 'crypto';
+
+export interface MockSPAPIConfig {
+  port: number;
+  sellerId: string;
+  marketplaceId: string;
+  latency: {
+    min: number; // minimum response time in ms
+    max: number; // maximum response time in ms
+  };
+  errorRate: number; // percentage of requests that should fail (0-100)
+  throttleRate: number; // percentage of requests answered with 429 (0-100)
+  seedOrders: number; // orders created on start/reset
+  seedListings: number; // listings created on start/reset
+  enableLogging: boolean;
+}
+
+export interface MockSPAPIStats {
+  totalRequests: number;
+  successfulRequests: number;
+  failedRequests: number;
+  throttledRequests: number;
+  authRequests: number;
+  shipmentConfirmations: number;
+  inventoryUpdates: number;
+  startTime: Date;
+  lastRequestTime: Date | null;
+}
+
+interface MockListing {
+  sku: string;
+  asin: string;
+  itemName: string;
+  productType: string;
+  quantity: number;
+  lastUpdatedDate: string;
+}
+
+interface MockOrder {
+  AmazonOrderId: string;
+  PurchaseDate: string;
+  LastUpdateDate: string;
+  OrderStatus: string;
+  FulfillmentChannel: 'MFN';
+  MarketplaceId: string;
+  OrderTotal: { CurrencyCode: string; Amount: string };
+  ShippingAddress: Record<string, string>;
+  BuyerInfo: { BuyerEmail: string; BuyerName: string };
+  items: Array<{
+    OrderItemId: string;
+    ASIN: string;
+    SellerSKU: string;
+    Title: string;
+    QuantityOrdered: number;
+    QuantityShipped: number;
+    ItemPrice: { CurrencyCode: string; Amount: string };
+  }>;
+  shipment?: Record<string, unknown>;
+}
+
+const defaultConfig: MockSPAPIConfig = {
+  port: 3097,
+  sellerId: 'A2MOCKSELLER01',
+  marketplaceId: 'A1PA6795UKMFR9', // amazon.de
+  latency: {
+    min: 50,
+    max: 200,
+  },
+  errorRate: 0,
+  throttleRate: 0,
+  seedOrders: 10,
+  seedListings: 5,
+  enableLogging: true,
+};
+
+const PAGE_SIZE = 20;
+
+export class MockSPAPIServer {
+  private app: express.Application;
+  private server: ReturnType<express.Application['listen']> | null = null;
+  private config: MockSPAPIConfig;
+  private stats: MockSPAPIStats;
+  private orders: Map<string, MockOrder> = new Map();
+  private listings: Map<string, MockListing> = new Map();
+  private tokens: Map<string, Date> = new Map();
+
+  constructor(config: Partial<MockSPAPIConfig> = {}) {
+    this.config = { ...defaultConfig, ...config };
+    this.app = express();
+    this.stats = this.initStats();
+    this.seed();
+    this.setupMiddleware();
+    this.setupRoutes();
+  }
+
+  private initStats(): MockSPAPIStats {
+    return {
+      totalRequests: 0,
+      successfulRequests: 0,
+      failedRequests: 0,
+      throttledRequests: 0,
+      authRequests: 0,
+      shipmentConfirmations: 0,
+      inventoryUpdates: 0,
+      startTime: new Date(),
+      lastRequestTime: null,
+    };
+  }
+
+  private setupMiddleware(): void {
+    this.app.use(express.json({ limit: '10mb' }));
+    this.app.use(express.urlencoded({ extended: false }));
+
+    this.app.use((req: Request, res: Response, next: NextFunction) => {
+      this.stats.totalRequests++;
+      this.stats.lastRequestTime = new Date();
+
+      if (this.config.enableLogging) {
+        console.log(`[Mock SP-API] ${req.method} ${req.path}`);
+      }
+
+      res.on('finish', () => {
+        if (res.statusCode >= 200 && res.statusCode < 300) {
+          this.stats.successfulRequests++;
+        } else {
+          this.stats.failedRequests++;
+        }
+      });
+
+      next();
+    });
+  }
+
+  private async simulateLatency(): Promise<void> {
+    const latency = this.config.latency.min +
+      Math.random() * (this.config.latency.max - this.config.latency.min);
+    await new Promise(resolve => setTimeout(resolve, latency));
+  }
+
+  private shouldFail(): boolean {
+    return Math.random() * 100 < this.config.errorRate;
+  }
+
+  private shouldThrottle(): boolean {
+    return Math.random() * 100 < this.config.throttleRate;
+  }
+
+  private generateOrderId(): string {
+    const digits = () => crypto.randomInt(0, 10_000_000).toString().padStart(7, '0');
+    return `302-${digits()}-${digits()}`;
+  }
+
+  /**
+   * Create sample listings and orders referencing them
+   */
+  private seed(): void {
+    for (let i = 1; i <= this.config.seedListings; i++) {
+      const sku = `MOCK-SKU-${String(i).padStart(3, '0')}`;
+      this.listings.set(sku, {
+        sku,
+        asin: `B0MOCK${String(i).padStart(4, '0')}`,
+        itemName: `Mock Product ${i}`,
+        productType: 'PRODUCT',
+        quantity: 100,
+        lastUpdatedDate: new Date().toISOString(),
+      });
+    }
+
+    const listings = Array.from(this.listings.values());
+    for (let i = 0; i < this.config.seedOrders && listings.length > 0; i++) {
+      const listing = listings[i % listings.length];
+      this.addOrder([{ sku: listing.sku, quantity: 1 + (i % 3) }], i % 5 === 0 ? 'Pending' : 'Unshipped');
+    }
+  }
+
+  private addOrder(lines: Array<{ sku: string; quantity: number }>, status = 'Unshipped'): MockOrder {
+    const now = new Date().toISOString();
+    const items = lines.map(line => {
+      const listing = this.listings.get(line.sku);
+      return {
+        OrderItemId: crypto.randomInt(10_000_000, 99_999_999).toString(),
+        ASIN: listing?.asin || 'B0UNKNOWN0',
+        SellerSKU: line.sku,
+        Title: listing?.itemName || line.sku,
+        QuantityOrdered: line.quantity,
+        QuantityShipped: 0,
+        ItemPrice: { CurrencyCode: 'EUR', Amount: (19.99 * line.quantity).toFixed(2) },
+      };
+    });
+
+    const order: MockOrder = {
+      AmazonOrderId: this.generateOrderId(),
+      PurchaseDate: now,
+      LastUpdateDate: now,
+      OrderStatus: status,
+      FulfillmentChannel: 'MFN',
+      MarketplaceId: this.config.marketplaceId,
+      OrderTotal: {
+        CurrencyCode: 'EUR',
+        Amount: items.reduce((sum, item) => sum + parseFloat(item.ItemPrice.Amount), 0).toFixed(2),
+      },
+      ShippingAddress: {
+        Name: 'Max Mustermann',
+        AddressLine1: 'Musterstraße 1',
+        City: 'Berlin',
+        PostalCode: '10115',
+        CountryCode: 'DE',
+        Phone: '+49 30 1234567',
+      },
+      BuyerInfo: {
+        BuyerEmail: `${crypto.randomBytes(6).toString('hex')}@marketplace.amazon.de`,
+        BuyerName: 'Max Mustermann',
+      },
+      items,
+    };
+
+    this.orders.set(order.AmazonOrderId, order);
+    return order;
+  }
+
+  private toApiOrder(order: MockOrder, includePii: boolean) {
+    const { items: _items, shipment: _shipment, ShippingAddress, BuyerInfo, ...rest } = order;
+    return includePii ? { ...rest, ShippingAddress, BuyerInfo } : rest;
+  }
+
+  private setupRoutes(): void {
+    // Health check
+    this.app.get('/health', (_req: Request, res: Response) => {
+      res.json({ status: 'healthy', uptime: Date.now() - this.stats.startTime.getTime() });
+    });
+
+    // Login with Amazon token endpoint (refresh_token grant)
+    this.app.post('/auth/o2/token', async (req: Request, res: Response) => {
+      await this.simulateLatency();
+      this.stats.authRequests++;
+
+      const { grant_type, refresh_token, client_id, client_secret } = req.body;
+
+      if (grant_type !== 'refresh_token') {
+        res.status(400).json({ error: 'unsupported_grant_type' });
+        return;
+      }
+
+      if (!refresh_token || !client_id || !client_secret) {
+        res.status(401).json({ error: 'invalid_client' });
+        return;
+      }
+
+      const accessToken = `Atza|${crypto.randomBytes(32).toString('hex')}`;
+      const expiresIn = 3600;
+      this.tokens.set(accessToken, new Date(Date.now() + expiresIn * 1000));
+
+      res.json({
+        access_token: accessToken,
+        token_type: 'bearer',
+        expires_in: expiresIn,
+        refresh_token,
+      });
+    });
+
+    // SP-API routes need a valid access (or restricted data) token
+    const verifyToken = async (req: Request, res: Response, next: NextFunction) => {
+      await this.simulateLatency();
+
+      const token = req.headers['x-amz-access-token'] as string | undefined;
+      const expiresAt = token ? this.tokens.get(token) : undefined;
+      if (!expiresAt || expiresAt < new Date()) {
+        res.status(403).json({ errors: [{ code: 'Unauthorized', message: 'Access to requested resource is denied.' }] });
+        return;
+      }
+
+      if (this.shouldThrottle()) {
+        this.stats.throttledRequests++;
+        res.status(429).json({ errors: [{ code: 'QuotaExceeded', message: 'You exceeded your quota for the requested resource.' }] });
+        return;
+      }
+
+      if (this.shouldFail()) {
+        res.status(500).json({ errors: [{ code: 'InternalFailure', message: 'We encountered an internal error.' }] });
+        return;
+      }
+
+      next();
+    };
+
+    // Sellers API - marketplace participations
+    this.app.get('/sellers/v1/marketplaceParticipations', verifyToken, (_req: Request, res: Response) => {
+      res.json({
+        payload: [{
+          marketplace: { id: this.config.marketplaceId, name: 'Amazon.de', countryCode: 'DE', defaultCurrencyCode: 'EUR' },
+          participation: { isParticipating: true, hasSuspendedListings: false },
+        }],
+      });
+    });
+
+    // Tokens API - restricted data token (reusable like an access token)
+    this.app.post('/tokens/2021-03-01/restrictedDataToken', verifyToken, (_req: Request, res: Response) => {
+      const token = `Atz.sprdt|${crypto.randomBytes(32).toString('hex')}`;
+      const expiresIn = 3600;
+      this.tokens.set(token, new Date(Date.now() + expiresIn * 1000));
+      res.json({ restrictedDataToken: token, expiresIn });
+    });
+
+    // Orders API - list orders (PII only with a restricted data token)
+    this.app.get('/orders/v0/orders', verifyToken, (req: Request, res: Response) => {
+      const { CreatedAfter, LastUpdatedAfter, NextToken } = req.query as Record<string, string | undefined>;
+      const includePii = (req.headers['x-amz-access-token'] as string).startsWith('Atz.sprdt|');
+
+      const filtered = Array.from(this.orders.values())
+        .filter(order => !CreatedAfter || order.PurchaseDate >= CreatedAfter)
+        .filter(order => !LastUpdatedAfter || order.LastUpdateDate >= LastUpdatedAfter)
+        .sort((a, b) => a.PurchaseDate.localeCompare(b.PurchaseDate));
+
+      const offset = NextToken ? parseInt(Buffer.from(NextToken, 'base64').toString(), 10) : 0;
+      const page = filtered.slice(offset, offset + PAGE_SIZE);
+      const nextOffset = offset + PAGE_SIZE;
+
+      res.json({
+        payload: {
+          Orders: page.map(order => this.toApiOrder(order, includePii)),
+          NextToken: nextOffset < filtered.length ? Buffer.from(String(nextOffset)).toString('base64') : undefined,
+        },
+      });
+    });
+
+    // Orders API - get one order
+    this.app.get('/orders/v0/orders/:orderId', verifyToken, (req: Request, res: Response) => {
+      const order = this.orders.get(req.params.orderId as string);
+      if (!order) {
+        res.status(404).json({ errors: [{ code: 'NotFound', message: 'Order not found' }] });
+        return;
+      }
+      res.json({ payload: this.toApiOrder(order, false) });
+    });
+
+    // Orders API - order items
+    this.app.get('/orders/v0/orders/:orderId/orderItems', verifyToken, (req: Request, res: Response) => {
+      const order = this.orders.get(req.params.orderId as string);
+      if (!order) {
+        res.status(404).json({ errors: [{ code: 'NotFound', message: 'Order not found' }] });
+        return;
+      }
+      res.json({ payload: { AmazonOrderId: order.AmazonOrderId, OrderItems: order.items } });
+    });
+
+    // Orders API - confirm shipment
+    this.app.post('/orders/v0/orders/:orderId/shipmentConfirmation', verifyToken, (req: Request, res: Response) => {
+      const order = this.orders.get(req.params.orderId as string);
+      if (!order) {
+        res.status(404).json({ errors: [{ code: 'NotFound', message: 'Order not found' }] });
+        return;
+      }
+
+      if (order.OrderStatus !== 'Unshipped' && order.OrderStatus !== 'PartiallyShipped') {
+        res.status(400).json({ errors: [{ code: 'InvalidInput', message: `Order is ${order.OrderStatus}` }] });
+        return;
+      }
+
+      const packageDetail = req.body?.packageDetail;
+      if (!packageDetail?.trackingNumber || !packageDetail?.carrierCode || !Array.isArray(packageDetail.orderItems)) {
+        res.status(400).json({ errors: [{ code: 'InvalidInput', message: 'trackingNumber, carrierCode and orderItems are required' }] });
+        return;
+      }
+
+      for (const shipped of packageDetail.orderItems as Array<{ orderItemId: string; quantity: number }>) {
+        const item = order.items.find(i => i.OrderItemId === shipped.orderItemId);
+        if (item) item.QuantityShipped = Math.min(item.QuantityOrdered, item.QuantityShipped + shipped.quantity);
+      }
+
+      order.OrderStatus = order.items.every(i => i.QuantityShipped >= i.QuantityOrdered) ? 'Shipped' : 'PartiallyShipped';
+      order.LastUpdateDate = new Date().toISOString();
+      order.shipment = packageDetail;
+      this.stats.shipmentConfirmations++;
+
+      res.status(204).end();
+    });
+
+    // Listings API - search listings of the seller
+    this.app.get('/listings/2021-08-01/items/:sellerId', verifyToken, (req: Request, res: Response) => {
+      if (req.params.sellerId !== this.config.sellerId) {
+        res.status(403).json({ errors: [{ code: 'Unauthorized', message: 'Seller mismatch' }] });
+        return;
+      }
+
+      const { lastUpdatedAfter, pageToken } = req.query as Record<string, string | undefined>;
+      const filtered = Array.from(this.listings.values())
+        .filter(listing => !lastUpdatedAfter || listing.lastUpdatedDate >= lastUpdatedAfter);
+
+      const offset = pageToken ? parseInt(Buffer.from(pageToken, 'base64').toString(), 10) : 0;
+      const page = filtered.slice(offset, offset + PAGE_SIZE);
+      const nextOffset = offset + PAGE_SIZE;
+
+      res.json({
+        numberOfResults: filtered.length,
+        pagination: nextOffset < filtered.length ? { nextToken: Buffer.from(String(nextOffset)).toString('base64') } : undefined,
+        items: page.map(listing => this.toApiListing(listing)),
+      });
+    });
+
+    // Listings API - get one listing
+    this.app.get('/listings/2021-08-01/items/:sellerId/:sku', verifyToken, (req: Request, res: Response) => {
+      const listing = this.listings.get(req.params.sku as string);
+      if (!listing || req.params.sellerId !== this.config.sellerId) {
+        res.status(404).json({ errors: [{ code: 'NOT_FOUND', message: 'Listing not found' }] });
+        return;
+      }
+      res.json(this.toApiListing(listing));
+    });
+
+    // Listings API - patch listing (only fulfillment_availability is applied)
+    this.app.patch('/listings/2021-08-01/items/:sellerId/:sku', verifyToken, (req: Request, res: Response) => {
+      const sku = req.params.sku as string;
+      const listing = this.listings.get(sku);
+      if (!listing || req.params.sellerId !== this.config.sellerId) {
+        res.json({
+          sku,
+          status: 'INVALID',
+          submissionId: crypto.randomUUID(),
+          issues: [{ code: '4000001', message: `SKU ${sku} not found`, severity: 'ERROR' }],
+        });
+        return;
+      }
+
+      const patch = (req.body?.patches || []).find((p: { path: string }) => p.path === '/attributes/fulfillment_availability');
+      const quantity = patch?.value?.[0]?.quantity;
+      if (typeof quantity === 'number') {
+        listing.quantity = quantity;
+        listing.lastUpdatedDate = new Date().toISOString();
+        this.stats.inventoryUpdates++;
+      }
+
+      res.json({ sku, status: 'ACCEPTED', submissionId: crypto.randomUUID(), issues: [] });
+    });
+
+    // Stats endpoint (for monitoring)
+    this.app.get('/mock-stats', (_req: Request, res: Response) => {
+      res.json({
+        ...this.stats,
+        uptime: Date.now() - this.stats.startTime.getTime(),
+        ordersInMemory: this.orders.size,
+        listingsInMemory: this.listings.size,
+        activeTokens: this.tokens.size,
+      });
+    });
+
+    // Inspect stored orders and listings (shipment confirmations, quantities)
+    this.app.get('/mock-state', (_req: Request, res: Response) => {
+      res.json({
+        orders: Array.from(this.orders.values()),
+        listings: Array.from(this.listings.values()),
+      });
+    });
+
+    // Create an order, e.g. { "items": [{ "sku": "MOCK-SKU-001", "quantity": 2 }], "status": "Unshipped" }
+    this.app.post('/mock-orders', (req: Request, res: Response) => {
+      const { items, status } = req.body;
+      if (!Array.isArray(items) || items.length === 0) {
+        res.status(400).json({ success: false, error: 'items is required' });
+        return;
+      }
+      res.status(201).json({ success: true, order: this.addOrder(items, status) });
+    });
+
+    // Change an order's status (e.g. Pending -> Unshipped, or Canceled)
+    this.app.post('/mock-orders/:orderId/status', (req: Request, res: Response) => {
+      const order = this.orders.get(req.params.orderId as string);
+      if (!order) {
+        res.status(404).json({ success: false, error: 'Order not found' });
+        return;
+      }
+      order.OrderStatus = req.body.status;
+      order.LastUpdateDate = new Date().toISOString();
+      res.json({ success: true, order });
+    });
+
+    // Reset endpoint (for testing)
+    this.app.post('/mock-reset', (_req: Request, res: Response) => {
+      this.orders.clear();
+      this.listings.clear();
+      this.tokens.clear();
+      this.stats = this.initStats();
+      this.seed();
+      res.json({ success: true, message: 'Mock server reset' });
+    });
+
+    // Configure endpoint (change settings at runtime)
+    this.app.post('/mock-configure', (req: Request, res: Response) => {
+      const { latency, errorRate, throttleRate, enableLogging } = req.body;
+
+      if (latency) {
+        this.config.latency = { ...this.config.latency, ...latency };
+      }
+      if (typeof errorRate === 'number') {
+        this.config.errorRate = Math.max(0, Math.min(100, errorRate));
+      }
+      if (typeof throttleRate === 'number') {
+        this.config.throttleRate = Math.max(0, Math.min(100, throttleRate));
+      }
+      if (typeof enableLogging === 'boolean') {
+        this.config.enableLogging = enableLogging;
+      }
+
+      res.json({ success: true, config: this.config });
+    });
+  }
+
+  private toApiListing(listing: MockListing) {
+    return {
+      sku: listing.sku,
+      summaries: [{
+        marketplaceId: this.config.marketplaceId,
+        asin: listing.asin,
+        productType: listing.productType,
+        itemName: listing.itemName,
+        status: ['BUYABLE', 'DISCOVERABLE'],
+        createdDate: listing.lastUpdatedDate,
+        lastUpdatedDate: listing.lastUpdatedDate,
+      }],
+    };
+  }
+
+  /**
+   * Start the mock server
+   */
+  async start(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      try {
+        this.server = this.app.listen(this.config.port, () => {
+          console.log(`🔧 Mock Amazon SP-API Server running on port ${this.config.port}`);
+          console.log(`   Seller: ${this.config.sellerId}, marketplace: ${this.config.marketplaceId}`);
+          console.log(`   Seeded: ${this.listings.size} listings, ${this.orders.size} orders`);
+          console.log(`   Latency: ${this.config.latency.min}-${this.config.latency.max}ms`);
+          console.log(`   Error rate: ${this.config.errorRate}%, throttle rate: ${this.config.throttleRate}%`);
+          resolve();
+        });
+      } catch (error) {
+        reject(error);
+      }
+    });
+  }
+
+  /**
+   * Stop the mock server
+   */
+  async stop(): Promise<void> {
+    return new Promise((resolve) => {
+      if (this.server) {
+        this.server.close(() => {
+          console.log('Mock Amazon SP-API Server stopped');
+          resolve();
+        });
+      } else {
+        resolve();
+      }
+    });
+  }
+
+  /**
+   * Get current stats
+   */
+  getStats(): MockSPAPIStats {
+    return { ...this.stats };
+  }
+}
+
+// Export for CLI usage
+export async function startMockSPAPIServer(config?: Partial<MockSPAPIConfig>): Promise<MockSPAPIServer> {
+  const server = new MockSPAPIServer(config);
+  await server.start();
+  return server;
+}
+
+// Run if executed directly
+const isMainModule = import.meta.url === `file://${process.argv[1]}`;
+if (isMainModule) {
+  const port = parseInt(process.env.MOCK_SP_API_PORT || '3097', 10);
+  const errorRate = parseFloat(process.env.MOCK_SP_API_ERROR_RATE || '0');
+  const throttleRate = parseFloat(process.env.MOCK_SP_API_THROTTLE_RATE || '0');
+
+  startMockSPAPIServer({ port, errorRate, throttleRate }).catch(console.error);
+}